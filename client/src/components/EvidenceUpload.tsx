@@ -105,7 +105,7 @@ export function EvidenceUpload({
   const isImage = (type: string) => type.startsWith('image/');
   const isVideo = (type: string) => type.startsWith('video/');
 
-  if (!config?.wasabiConfigured) {
+  if (!config?.storageConfigured) {
     return (
       <Card>
         <CardHeader>
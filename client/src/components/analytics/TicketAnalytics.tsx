@@ -21,12 +21,13 @@ interface TicketAnalyticsProps {
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
 
 const statusColorMap: { [key: string]: string } = {
-  'Open': '#3b82f6',
-  'Closed': '#10b981',
-  'Under Review': '#f59e0b',
-  'Pending Player Response': '#8b5cf6',
-  'Resolved': '#10b981',
-  'Unfinished': '#6b7280'
+  'New': '#3b82f6',
+  'Open': '#10b981',
+  'Waiting on Player': '#8b5cf6',
+  'Waiting on Staff': '#f59e0b',
+  'Resolved': '#14b8a6',
+  'Closed': '#6b7280',
+  'Unfinished': '#9ca3af'
 };
 
 const typeColorMap: { [key: string]: string } = {
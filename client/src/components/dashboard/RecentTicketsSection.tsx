@@ -9,7 +9,8 @@ export interface RecentTicket {
   id: string;
   title: string;
   initialMessage: string;
-  status: 'open' | 'closed' | 'under_review' | 'pending_player_response';
+  // Status slug, like waiting_on_player
+  status: string;
   priority: 'low' | 'medium' | 'high' | 'urgent';
   createdAt: string | Date;
   playerName: string;
@@ -21,11 +22,13 @@ interface RecentTicketsSectionProps {
   loading: boolean;
 }
 
-const statusColors = {
-  open: 'bg-blue-500/20 text-blue-500',
-  closed: 'bg-green-500/20 text-green-500',
-  under_review: 'bg-yellow-500/20 text-yellow-500',
-  pending_player_response: 'bg-purple-500/20 text-purple-500'
+const statusColors: Record<string, string> = {
+  new: 'bg-blue-500/20 text-blue-500',
+  open: 'bg-green-500/20 text-green-500',
+  waiting_on_player: 'bg-purple-500/20 text-purple-500',
+  waiting_on_staff: 'bg-orange-500/20 text-orange-500',
+  resolved: 'bg-teal-500/20 text-teal-500',
+  closed: 'bg-gray-500/20 text-gray-500'
 };
 
 const priorityColors = {
@@ -124,7 +127,7 @@ export function RecentTicketsSection({ tickets, loading }: RecentTicketsSectionP
                       {ticket.priority.toUpperCase()}
                     </Badge>
                     <Badge variant="secondary" className={`text-xs ${statusColors[ticket.status]}`}>
-                      {ticket.status.replace('_', ' ').toUpperCase()}
+                      {ticket.status.replace(/_/g, ' ').toUpperCase()}
                     </Badge>
                   </div>
                 </div>
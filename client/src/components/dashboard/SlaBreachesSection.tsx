@@ -0,0 +1,140 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from 'modl-shared-web/components/ui/card';
+import { Badge } from 'modl-shared-web/components/ui/badge';
+import { AlarmClock, User, UserCheck } from 'lucide-react';
+import { useLocation } from 'wouter';
+
+type SlaState = 'ok' | 'at_risk' | 'breached' | 'met';
+
+interface SlaTimer {
+  dueAt: string;
+  state: SlaState;
+}
+
+export interface SlaTicket {
+  id: string;
+  subject: string;
+  category: string;
+  creator: string;
+  assignedTo: string | null;
+  priority: string | null;
+  sla: {
+    firstResponse: SlaTimer | null;
+    resolution: SlaTimer | null;
+    state: SlaState;
+  };
+}
+
+export interface SlaOverview {
+  enabled: boolean;
+  breached: number;
+  atRisk: number;
+  tickets: SlaTicket[];
+}
+
+interface SlaBreachesSectionProps {
+  overview: SlaOverview | undefined;
+  loading: boolean;
+}
+
+const stateColors: Record<SlaState, string> = {
+  breached: 'bg-red-500/20 text-red-500',
+  at_risk: 'bg-orange-500/20 text-orange-500',
+  ok: 'bg-green-500/20 text-green-500',
+  met: 'bg-green-500/20 text-green-500'
+};
+
+const formatDue = (dueAt: string) => {
+  const diffInMinutes = Math.round((new Date(dueAt).getTime() - Date.now()) / (1000 * 60));
+  const amount = Math.abs(diffInMinutes) < 60
+    ? `${Math.abs(diffInMinutes)}m`
+    : Math.abs(diffInMinutes) < 60 * 24
+      ? `${Math.floor(Math.abs(diffInMinutes) / 60)}h`
+      : `${Math.floor(Math.abs(diffInMinutes) / (60 * 24))}d`;
+  return diffInMinutes < 0 ? `${amount} overdue` : `due in ${amount}`;
+};
+
+// The timer that needs attention first
+const getPendingTimer = (ticket: SlaTicket): { label: string; timer: SlaTimer } | null => {
+  const timers = [
+    { label: 'First response', timer: ticket.sla.firstResponse },
+    { label: 'Resolution', timer: ticket.sla.resolution }
+  ].filter((entry): entry is { label: string; timer: SlaTimer } => !!entry.timer && entry.timer.state !== 'met');
+  timers.sort((a, b) => new Date(a.timer.dueAt).getTime() - new Date(b.timer.dueAt).getTime());
+  return timers[0] || null;
+};
+
+export function SlaBreachesSection({ overview, loading }: SlaBreachesSectionProps) {
+  const [, setLocation] = useLocation();
+
+  if (!loading && !overview?.enabled) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <AlarmClock className="h-5 w-5" />
+            Ticket SLAs
+          </span>
+          {overview && (
+            <span className="flex items-center gap-2">
+              <Badge variant="secondary" className={`text-xs ${stateColors.breached}`}>{overview.breached} BREACHED</Badge>
+              <Badge variant="secondary" className={`text-xs ${stateColors.at_risk}`}>{overview.atRisk} AT RISK</Badge>
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="animate-pulse space-y-2">
+            <div className="h-4 bg-muted rounded w-3/4"></div>
+            <div className="h-4 bg-muted rounded w-1/2"></div>
+          </div>
+        ) : overview!.tickets.length === 0 ? (
+          <div className="text-center py-6 text-muted-foreground">
+            All open tickets are within their SLA
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {overview!.tickets.map(ticket => {
+              const pending = getPendingTimer(ticket);
+              return (
+                <div
+                  key={ticket.id}
+                  className="p-3 border border-border rounded-lg hover:bg-muted/50 transition-colors cursor-pointer"
+                  onClick={() => setLocation(`/panel/tickets/${ticket.id}`)}
+                >
+                  <div className="flex justify-between items-start gap-2">
+                    <h4 className="font-medium text-sm line-clamp-1">{ticket.id}: {ticket.subject}</h4>
+                    <Badge variant="secondary" className={`text-xs flex-shrink-0 ${stateColors[ticket.sla.state]}`}>
+                      {ticket.sla.state.replace('_', ' ').toUpperCase()}
+                    </Badge>
+                  </div>
+                  <div className="flex justify-between items-center text-xs text-muted-foreground mt-2">
+                    <div className="flex items-center gap-4">
+                      <span className="flex items-center gap-1">
+                        <User className="h-3 w-3" />
+                        {ticket.creator}
+                      </span>
+                      {ticket.assignedTo && (
+                        <span className="flex items-center gap-1">
+                          <UserCheck className="h-3 w-3" />
+                          {ticket.assignedTo}
+                        </span>
+                      )}
+                      <span>{ticket.category}</span>
+                    </div>
+                    {pending && <span>{pending.label} {formatDue(pending.timer.dueAt)}</span>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,406 @@
+import React, { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { RefreshCw } from 'lucide-react';
+import { Button } from 'modl-shared-web/components/ui/button';
+import { Input } from 'modl-shared-web/components/ui/input';
+import { Label } from 'modl-shared-web/components/ui/label';
+import { Slider } from 'modl-shared-web/components/ui/slider';
+import { Badge } from 'modl-shared-web/components/ui/badge';
+import { Checkbox } from 'modl-shared-web/components/ui/checkbox';
+import { Progress } from 'modl-shared-web/components/ui/progress';
+import { useToast } from 'modl-shared-web/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+
+interface AltDetectionConfig {
+  minLinkConfidence: number;
+  linkedBanMinConfidence: number;
+}
+
+interface AltBackfillJob {
+  id: string;
+  status: 'running' | 'completed' | 'failed';
+  issueLinkedBans: boolean;
+  createdBy: string;
+  progress: {
+    total: number;
+    processed: number;
+    linksAdded: number;
+    linksRemoved: number;
+    linkedBansIssued: number;
+    failed: number;
+  };
+  error: string | null;
+  startedAt: string;
+  completedAt: string | null;
+  changesTruncated: boolean;
+  changes?: Array<{
+    change: 'added' | 'removed';
+    playerUuid: string;
+    playerName: string;
+    linkedUuid: string;
+    linkedName: string;
+  }>;
+}
+
+const DEFAULT_CONFIG: AltDetectionConfig = { minLinkConfidence: 20, linkedBanMinConfidence: 60 };
+const DEFAULT_RETENTION_DAYS = 180;
+
+const fetchLatestBackfillJob = async (): Promise<AltBackfillJob | null> => {
+  const response = await fetch('/api/panel/settings/alt-detection/backfill-jobs');
+  if (!response.ok) {
+    throw new Error('Failed to load backfill jobs');
+  }
+  const data = await response.json();
+  const latest: AltBackfillJob | undefined = data.jobs?.[0];
+  if (!latest) {
+    return null;
+  }
+
+  const jobResponse = await fetch(`/api/panel/settings/alt-detection/backfill-jobs/${latest.id}`);
+  if (!jobResponse.ok) {
+    throw new Error('Failed to load backfill job');
+  }
+  return (await jobResponse.json()).job;
+};
+
+const AltBackfillPanel = ({ canModify }: { canModify: boolean }) => {
+  const [issueLinkedBans, setIssueLinkedBans] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const { toast } = useToast();
+
+  const { data: job, refetch } = useQuery({
+    queryKey: ['alt-backfill-job'],
+    queryFn: fetchLatestBackfillJob,
+    refetchInterval: (query) => query.state.data?.status === 'running' ? 2000 : false
+  });
+
+  const startBackfill = async () => {
+    if (!confirm('Rescan every player and rebuild their linked accounts? This can take a while on large servers.')) {
+      return;
+    }
+
+    setIsStarting(true);
+    try {
+      const { csrfFetch } = await import('@/utils/csrf');
+      const response = await csrfFetch('/api/panel/settings/alt-detection/backfill-jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ issueLinkedBans }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      toast({
+        title: "Backfill Started",
+        description: `Rescanning ${data.job.progress.total} players.`,
+      });
+      await refetch();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start the backfill. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const isRunning = job?.status === 'running';
+  const percent = job && job.progress.total > 0 ? Math.round((job.progress.processed / job.progress.total) * 100) : 100;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h4 className="text-base font-medium mb-1">Rescan All Players</h4>
+        <p className="text-sm text-muted-foreground">
+          Links are detected when players log in from a new IP. Rescan every player after importing data or
+          changing these settings to rebuild their linked accounts.
+        </p>
+      </div>
+
+      {canModify && (
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="backfill-issue-linked-bans"
+              checked={issueLinkedBans}
+              disabled={isRunning}
+              onCheckedChange={(checked: boolean | 'indeterminate') => setIssueLinkedBans(checked === true)}
+            />
+            <Label htmlFor="backfill-issue-linked-bans" className="text-sm">
+              Issue linked bans for alt-blocking punishments of newly linked accounts
+            </Label>
+          </div>
+          <Button variant="outline" onClick={startBackfill} disabled={isStarting || isRunning}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isRunning ? 'animate-spin' : ''}`} />
+            {isRunning ? 'Rescanning...' : 'Start Rescan'}
+          </Button>
+        </div>
+      )}
+
+      {job && (
+        <div className="bg-muted/30 p-4 rounded-md space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-muted-foreground">
+              Started by {job.createdBy} on {new Date(job.startedAt).toLocaleString()}
+              {job.issueLinkedBans && ' • issuing linked bans'}
+            </p>
+            <Badge variant={job.status === 'failed' ? 'destructive' : 'outline'}>
+              {job.status === 'running' ? 'Running' : job.status === 'failed' ? 'Failed' : 'Completed'}
+            </Badge>
+          </div>
+
+          <div>
+            <div className="flex justify-between text-xs text-muted-foreground mb-1">
+              <span>Players scanned</span>
+              <span>{job.progress.processed} / {job.progress.total}</span>
+            </div>
+            <Progress value={percent} />
+          </div>
+
+          <div className="flex flex-wrap gap-4 text-xs">
+            <span>{job.progress.linksAdded} links added</span>
+            <span>{job.progress.linksRemoved} links removed</span>
+            {job.issueLinkedBans && <span>{job.progress.linkedBansIssued} linked bans issued</span>}
+            {job.progress.failed > 0 && <span className="text-destructive">{job.progress.failed} players failed</span>}
+          </div>
+
+          {job.error && <p className="text-xs text-destructive">{job.error}</p>}
+
+          {job.changes && job.changes.length > 0 && (
+            <div className="max-h-60 overflow-y-auto border rounded">
+              <table className="w-full text-xs">
+                <thead className="bg-muted/50 sticky top-0">
+                  <tr>
+                    <th className="text-left p-2">Change</th>
+                    <th className="text-left p-2">Player</th>
+                    <th className="text-left p-2">Linked Account</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {job.changes.map((change, idx) => (
+                    <tr key={idx} className="border-t">
+                      <td className="p-2">
+                        <Badge variant={change.change === 'added' ? 'outline' : 'secondary'} className="text-xs">
+                          {change.change === 'added' ? 'Added' : 'Removed'}
+                        </Badge>
+                      </td>
+                      <td className="p-2">{change.playerName}</td>
+                      <td className="p-2">{change.linkedName}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {job.changesTruncated && (
+            <p className="text-xs text-muted-foreground">
+              Only the first {job.changes?.length} changes are listed, the totals above include all of them.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const LoginHistoryPanel = ({ canModify }: { canModify: boolean }) => {
+  const [retentionDays, setRetentionDays] = useState(String(DEFAULT_RETENTION_DAYS));
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetch('/api/panel/settings/login-history')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (data?.data?.retentionDays) {
+          setRetentionDays(String(data.data.retentionDays));
+        }
+      })
+      .catch(error => console.error('Error loading login history settings:', error));
+  }, []);
+
+  const saveRetention = async () => {
+    setIsSaving(true);
+    try {
+      const { csrfFetch } = await import('@/utils/csrf');
+      const response = await csrfFetch('/api/panel/settings/login-history', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ retentionDays: Number(retentionDays) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      setRetentionDays(String(data.data.retentionDays));
+      toast({
+        title: "Settings Saved",
+        description: `Login events are now kept for ${data.data.retentionDays} days.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save login history settings. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h4 className="text-base font-medium mb-1">Login History</h4>
+        <p className="text-sm text-muted-foreground">
+          Every login is recorded with its IP and server. Older logins are removed after the retention period,
+          each IP still keeps when it was first and last used and how many times.
+        </p>
+      </div>
+      <div className="flex items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="login-history-retention">Keep login events for (days)</Label>
+          <Input
+            id="login-history-retention"
+            type="number"
+            min={7}
+            max={3650}
+            className="w-32"
+            value={retentionDays}
+            disabled={!canModify}
+            onChange={(e) => setRetentionDays(e.target.value)}
+          />
+        </div>
+        {canModify && (
+          <Button variant="outline" onClick={saveRetention} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const AltDetectionSettings: React.FC = () => {
+  const [config, setConfig] = useState<AltDetectionConfig>(DEFAULT_CONFIG);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const { hasPermission } = usePermissions();
+
+  const canModify = hasPermission('admin.settings.modify');
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const response = await fetch('/api/panel/settings/alt-detection');
+      if (response.ok) {
+        const data = await response.json();
+        setConfig({ ...DEFAULT_CONFIG, ...data.data });
+      } else {
+        console.error('Failed to load alt detection settings:', response.status, response.statusText);
+      }
+    } catch (error) {
+      console.error('Error loading alt detection settings:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const saveSettings = async () => {
+    setIsSaving(true);
+    try {
+      const { csrfFetch } = await import('@/utils/csrf');
+      const response = await csrfFetch('/api/panel/settings/alt-detection', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      setConfig(data.data);
+      toast({
+        title: "Settings Saved",
+        description: "Alt detection settings have been updated.",
+      });
+    } catch (error) {
+      console.error('Error saving alt detection settings:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save alt detection settings. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading alt detection settings...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-base font-medium mb-1">Alt Detection</h4>
+        <p className="text-sm text-muted-foreground">
+          Linked accounts are scored from shared evidence such as IP addresses, proxy login timing, network and skin.
+          Confirmed links always count as 100% and rejected links as 0%.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <Label>Minimum confidence to show accounts as linked</Label>
+          <span className="text-sm font-medium">{config.minLinkConfidence}%</span>
+        </div>
+        <Slider
+          value={[config.minLinkConfidence]}
+          min={0}
+          max={100}
+          step={5}
+          disabled={!canModify}
+          onValueChange={(value: number[]) => setConfig(prev => ({ ...prev, minLinkConfidence: value[0] }))}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <Label>Minimum confidence for automatic linked bans</Label>
+          <span className="text-sm font-medium">{config.linkedBanMinConfidence}%</span>
+        </div>
+        <Slider
+          value={[config.linkedBanMinConfidence]}
+          min={0}
+          max={100}
+          step={5}
+          disabled={!canModify}
+          onValueChange={(value: number[]) => setConfig(prev => ({ ...prev, linkedBanMinConfidence: value[0] }))}
+        />
+        <p className="text-xs text-muted-foreground">
+          Alt-blocking punishments only ban linked accounts at or above this confidence.
+        </p>
+      </div>
+
+      {canModify && (
+        <Button onClick={saveSettings} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save Alt Detection Settings'}
+        </Button>
+      )}
+
+      <LoginHistoryPanel canModify={canModify} />
+
+      <AltBackfillPanel canModify={canModify} />
+    </div>
+  );
+};
+
+export default AltDetectionSettings;
@@ -0,0 +1,367 @@
+import React, { useState, useEffect } from 'react';
+import { Key, Check, Copy, RefreshCw, Trash2, Plus } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from 'modl-shared-web/components/ui/button';
+import { Input } from 'modl-shared-web/components/ui/input';
+import { Label } from 'modl-shared-web/components/ui/label';
+import { Badge } from 'modl-shared-web/components/ui/badge';
+import { Checkbox } from 'modl-shared-web/components/ui/checkbox';
+import { useToast } from 'modl-shared-web/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+
+interface ApiKeyInfo {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  allowedIps: string[];
+  expiresAt: string | null;
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+}
+
+const SCOPE_DESCRIPTIONS: Record<string, string> = {
+  'minecraft:sync': 'Minecraft plugin sync, logins and acknowledgements',
+  'players:read': 'Look up players and linked accounts',
+  'players:write': 'Add notes to players',
+  'punishments:write': 'Issue punishments',
+  'tickets:create': 'Create tickets',
+  'tickets:read': 'Read ticket status'
+};
+
+const formatDate = (date: string | null) => (date ? format(new Date(date), 'MMM d, yyyy HH:mm') : 'Never');
+
+const ApiKeySettings: React.FC = () => {
+  const [apiKeys, setApiKeys] = useState<ApiKeyInfo[]>([]);
+  const [availableScopes, setAvailableScopes] = useState<string[]>(Object.keys(SCOPE_DESCRIPTIONS));
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreateFormOpen, setIsCreateFormOpen] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingKeyId, setRevokingKeyId] = useState<string | null>(null);
+  const [newKeyName, setNewKeyName] = useState('');
+  const [newKeyScopes, setNewKeyScopes] = useState<string[]>([]);
+  const [newKeyExpiresAt, setNewKeyExpiresAt] = useState('');
+  const [newKeyAllowedIps, setNewKeyAllowedIps] = useState('');
+  const [createdKey, setCreatedKey] = useState<{ name: string; apiKey: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+  const { hasPermission } = usePermissions();
+
+  const canModify = hasPermission('admin.settings.modify');
+
+  useEffect(() => {
+    loadApiKeys();
+  }, []);
+
+  const loadApiKeys = async () => {
+    try {
+      const response = await fetch('/api/panel/settings/api-keys');
+      if (response.ok) {
+        const data = await response.json();
+        setApiKeys(data.apiKeys || []);
+        if (data.availableScopes) {
+          setAvailableScopes(data.availableScopes);
+        }
+      } else {
+        console.error('Failed to load API keys:', response.status, response.statusText);
+      }
+    } catch (error) {
+      console.error('Error loading API keys:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const resetCreateForm = () => {
+    setNewKeyName('');
+    setNewKeyScopes([]);
+    setNewKeyExpiresAt('');
+    setNewKeyAllowedIps('');
+    setIsCreateFormOpen(false);
+  };
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setNewKeyScopes(prev => (checked ? [...prev, scope] : prev.filter(s => s !== scope)));
+  };
+
+  const createApiKey = async () => {
+    if (!newKeyName.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a name for the API key",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (newKeyScopes.length === 0) {
+      toast({
+        title: "Error",
+        description: "Please select at least one scope",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const { csrfFetch } = await import('@/utils/csrf');
+      const response = await csrfFetch('/api/panel/settings/api-keys', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: newKeyName.trim(),
+          scopes: newKeyScopes,
+          allowedIps: newKeyAllowedIps.split(/[\s,]+/).filter(Boolean),
+          expiresAt: newKeyExpiresAt ? new Date(newKeyExpiresAt).toISOString() : null
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create API key');
+      }
+
+      setCreatedKey({ name: data.key.name, apiKey: data.apiKey });
+      setCopied(false);
+      setApiKeys(prev => [data.key, ...prev]);
+      resetCreateForm();
+      toast({
+        title: "API Key Created",
+        description: "Make sure to copy your new API key now, it won't be shown again.",
+      });
+    } catch (error) {
+      console.error('Error creating API key:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create API key. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const revokeApiKey = async (apiKey: ApiKeyInfo) => {
+    if (!confirm(`Are you sure you want to revoke "${apiKey.name}"? Integrations using this key will stop working immediately.`)) {
+      return;
+    }
+
+    setRevokingKeyId(apiKey.id);
+    try {
+      const { csrfFetch } = await import('@/utils/csrf');
+      const response = await csrfFetch(`/api/panel/settings/api-keys/${apiKey.id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        throw new Error('Failed to revoke API key');
+      }
+
+      setApiKeys(prev => prev.filter(key => key.id !== apiKey.id));
+      toast({
+        title: "API Key Revoked",
+        description: `"${apiKey.name}" has been revoked.`,
+      });
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      toast({
+        title: "Error",
+        description: "Failed to revoke API key. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setRevokingKeyId(null);
+    }
+  };
+
+  const copyCreatedKey = () => {
+    if (!createdKey) return;
+    navigator.clipboard.writeText(createdKey.apiKey);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+    toast({
+      title: "Copied",
+      description: "API key copied to clipboard",
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="text-base font-medium mb-3 flex items-center">
+            <Key className="h-4 w-4 mr-2" />
+            API Keys
+          </h4>
+          <p className="text-sm text-muted-foreground">
+            Create API keys for external integrations such as Minecraft plugins and ticket forms.
+            Each key only has access to the scopes you grant it. Keys are shown once when created, store them securely.
+          </p>
+        </div>
+        {canModify && !isCreateFormOpen && (
+          <Button variant="outline" size="sm" onClick={() => setIsCreateFormOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New API Key
+          </Button>
+        )}
+      </div>
+
+      {createdKey && (
+        <div className="p-3 rounded-lg border border-green-500/40 bg-green-500/10 space-y-2">
+          <p className="text-sm font-medium">
+            API key "{createdKey.name}" created. Copy it now, it will not be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-sm font-mono bg-background px-2 py-1 rounded border break-all">
+              {createdKey.apiKey}
+            </code>
+            <Button variant="outline" size="sm" onClick={copyCreatedKey}>
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setCreatedKey(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isCreateFormOpen && (
+        <div className="p-4 rounded-lg border space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="api-key-name">Name</Label>
+            <Input
+              id="api-key-name"
+              value={newKeyName}
+              onChange={(e) => setNewKeyName(e.target.value)}
+              placeholder="e.g. Survival server plugin"
+              maxLength={64}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {availableScopes.map(scope => (
+                <div key={scope} className="flex items-start gap-2">
+                  <Checkbox
+                    id={`api-key-scope-${scope}`}
+                    checked={newKeyScopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  />
+                  <label htmlFor={`api-key-scope-${scope}`} className="text-sm leading-tight cursor-pointer">
+                    <code className="text-xs">{scope}</code>
+                    {SCOPE_DESCRIPTIONS[scope] && (
+                      <span className="block text-xs text-muted-foreground">{SCOPE_DESCRIPTIONS[scope]}</span>
+                    )}
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-expiry">Expires (optional)</Label>
+              <Input
+                id="api-key-expiry"
+                type="date"
+                value={newKeyExpiresAt}
+                onChange={(e) => setNewKeyExpiresAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="api-key-ips">Allowed IPs (optional)</Label>
+              <Input
+                id="api-key-ips"
+                value={newKeyAllowedIps}
+                onChange={(e) => setNewKeyAllowedIps(e.target.value)}
+                placeholder="203.0.113.10, 198.51.100.0/24"
+              />
+              <p className="text-xs text-muted-foreground">Leave empty to allow requests from any IP address</p>
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={createApiKey} disabled={isCreating}>
+              {isCreating ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                <>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create API Key
+                </>
+              )}
+            </Button>
+            <Button variant="outline" onClick={resetCreateForm} disabled={isCreating}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading API keys...</p>
+      ) : apiKeys.length === 0 ? (
+        <div className="text-center py-6 border-2 border-dashed border-muted rounded-lg">
+          <Key className="h-8 w-8 mx-auto mb-3 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">No API keys created yet</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {apiKeys.map(apiKey => {
+            const isExpired = !!apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now();
+            return (
+              <div key={apiKey.id} className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg">
+                <div className="flex-1 space-y-1 min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="text-sm font-medium">{apiKey.name}</span>
+                    <code className="text-xs font-mono bg-background px-1.5 py-0.5 rounded border">
+                      {apiKey.keyPrefix}••••••••
+                    </code>
+                    {isExpired && <Badge variant="destructive">Expired</Badge>}
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {apiKey.scopes.map(scope => (
+                      <Badge key={scope} variant="secondary" className="text-xs font-mono">{scope}</Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Created by {apiKey.createdBy} on {formatDate(apiKey.createdAt)}
+                    {' • '}Last used: {formatDate(apiKey.lastUsedAt)}{apiKey.lastUsedIp ? ` from ${apiKey.lastUsedIp}` : ''}
+                    {apiKey.expiresAt && ` • ${isExpired ? 'Expired' : 'Expires'} ${formatDate(apiKey.expiresAt)}`}
+                  </p>
+                  {apiKey.allowedIps.length > 0 && (
+                    <p className="text-xs text-muted-foreground">Allowed IPs: {apiKey.allowedIps.join(', ')}</p>
+                  )}
+                </div>
+                {canModify && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeApiKey(apiKey)}
+                    disabled={revokingKeyId === apiKey.id}
+                  >
+                    {revokingKeyId === apiKey.id ? (
+                      <RefreshCw className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-4 w-4" />
+                    )}
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApiKeySettings;
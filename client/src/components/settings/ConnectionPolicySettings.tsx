@@ -0,0 +1,546 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, RefreshCw, Search, Trash2, Users, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from 'modl-shared-web/components/ui/button';
+import { Input } from 'modl-shared-web/components/ui/input';
+import { Label } from 'modl-shared-web/components/ui/label';
+import { Badge } from 'modl-shared-web/components/ui/badge';
+import { Switch } from 'modl-shared-web/components/ui/switch';
+import { Separator } from 'modl-shared-web/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from 'modl-shared-web/components/ui/select';
+import { useToast } from 'modl-shared-web/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useRealtimeEvents } from '@/hooks/use-realtime';
+
+type PolicyCondition = 'country' | 'asn' | 'proxy' | 'hosting';
+type PolicyAction = 'deny' | 'alert' | 'require_account_age';
+
+interface ConnectionPolicy {
+  id: string;
+  name: string;
+  enabled: boolean;
+  condition: PolicyCondition;
+  values: string[];
+  negate: boolean;
+  action: PolicyAction;
+  minAccountAgeDays: number;
+  message: string;
+  exemptions: Array<{ minecraftUuid: string; username: string; addedBy: string; addedAt: string }>;
+  createdBy: string;
+  createdAt: string;
+}
+
+interface ConnectionAttempt {
+  id: string;
+  minecraftUuid: string;
+  username: string;
+  ipAddress: string;
+  country: string | null;
+  asn: string | null;
+  proxy: boolean;
+  hosting: boolean;
+  decision: 'denied' | 'alerted';
+  reasons: Array<{ source: 'policy' | 'network_ban'; id: string; name: string; action: PolicyAction; detail: string }>;
+  createdAt: string;
+}
+
+interface PolicyForm {
+  name: string;
+  condition: PolicyCondition;
+  values: string;
+  negate: boolean;
+  action: PolicyAction;
+  minAccountAgeDays: string;
+  message: string;
+}
+
+const CONDITION_LABELS: Record<PolicyCondition, { label: string; placeholder?: string }> = {
+  country: { label: 'Country', placeholder: 'e.g. US, GB, DE' },
+  asn: { label: 'Network (ASN)', placeholder: 'e.g. AS64500, AS64501' },
+  proxy: { label: 'Proxy or VPN' },
+  hosting: { label: 'Hosting provider' }
+};
+
+const ACTION_LABELS: Record<PolicyAction, string> = {
+  deny: 'Deny connection',
+  alert: 'Allow and alert staff',
+  require_account_age: 'Require account age'
+};
+
+const EMPTY_FORM: PolicyForm = {
+  name: '',
+  condition: 'country',
+  values: '',
+  negate: false,
+  action: 'deny',
+  minAccountAgeDays: '7',
+  message: ''
+};
+
+const formatDate = (date: string | null) => (date ? format(new Date(date), 'MMM d, yyyy HH:mm') : '-');
+
+const describePolicy = (policy: ConnectionPolicy) => {
+  const target = policy.condition === 'proxy' || policy.condition === 'hosting'
+    ? CONDITION_LABELS[policy.condition].label
+    : `${CONDITION_LABELS[policy.condition].label} ${policy.negate ? 'not in' : 'in'} ${policy.values.map(value => policy.condition === 'asn' ? `AS${value}` : value).join(', ')}`;
+  const action = policy.action === 'require_account_age'
+    ? `require accounts older than ${policy.minAccountAgeDays} day${policy.minAccountAgeDays === 1 ? '' : 's'}`
+    : ACTION_LABELS[policy.action].toLowerCase();
+  return `${target}: ${action}`;
+};
+
+const ConnectionPolicySettings: React.FC = () => {
+  const [policies, setPolicies] = useState<ConnectionPolicy[]>([]);
+  const [attempts, setAttempts] = useState<ConnectionAttempt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState<PolicyForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyPolicyId, setBusyPolicyId] = useState<string | null>(null);
+  const [exemptionsPolicyId, setExemptionsPolicyId] = useState<string | null>(null);
+  const [exemptionPlayer, setExemptionPlayer] = useState('');
+  const [attemptPlayer, setAttemptPlayer] = useState('');
+  const { toast } = useToast();
+  const { hasPermission } = usePermissions();
+
+  const canModify = hasPermission('admin.settings.modify');
+
+  useEffect(() => {
+    loadPolicies();
+    loadAttempts();
+  }, []);
+
+  // Blocked and flagged logins show up as they happen, unless the log is filtered
+  useRealtimeEvents('players', (event) => {
+    if (event.event !== 'connection.denied' && event.event !== 'connection.alerted') return;
+    if (attemptPlayer.trim()) return;
+    setAttempts(prev => [event.data as ConnectionAttempt, ...prev].slice(0, 200));
+  });
+
+  const loadPolicies = async () => {
+    try {
+      const response = await fetch('/api/panel/connection-policies');
+      if (response.ok) {
+        const data = await response.json();
+        setPolicies(data.policies || []);
+      } else {
+        console.error('Failed to load connection policies:', response.status, response.statusText);
+      }
+    } catch (error) {
+      console.error('Error loading connection policies:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadAttempts = async (player?: string) => {
+    try {
+      const query = player?.trim() ? `?player=${encodeURIComponent(player.trim())}` : '';
+      const response = await fetch(`/api/panel/connection-policies/attempts${query}`);
+      if (response.ok) {
+        const data = await response.json();
+        setAttempts(data.attempts || []);
+      }
+    } catch (error) {
+      console.error('Error loading connection attempts:', error);
+    }
+  };
+
+  const requestJson = async (url: string, method: string, body?: any) => {
+    const { csrfFetch } = await import('@/utils/csrf');
+    const response = await csrfFetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || data.message || 'Request failed');
+    }
+    return data;
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const replacePolicy = (policy: ConnectionPolicy) => {
+    setPolicies(prev => prev.map(item => (item.id === policy.id ? policy : item)));
+  };
+
+  const hasValues = form.condition === 'country' || form.condition === 'asn';
+
+  const createPolicy = async () => {
+    if (!form.name.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a name for the policy",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const data = await requestJson('/api/panel/connection-policies', 'POST', {
+        name: form.name.trim(),
+        condition: form.condition,
+        values: hasValues ? form.values.split(/[\s,]+/).filter(Boolean) : [],
+        negate: hasValues && form.negate,
+        action: form.action,
+        minAccountAgeDays: form.action === 'require_account_age' ? Number(form.minAccountAgeDays) : 0,
+        message: form.message.trim()
+      });
+      setPolicies(prev => [...prev, data.policy]);
+      setForm(EMPTY_FORM);
+      setIsCreating(false);
+      toast({
+        title: "Policy Created",
+        description: `"${data.policy.name}" now applies to new logins.`,
+      });
+    } catch (error) {
+      showError(error, "Failed to create connection policy. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setPolicyEnabled = async (policy: ConnectionPolicy, enabled: boolean) => {
+    setBusyPolicyId(policy.id);
+    try {
+      const data = await requestJson(`/api/panel/connection-policies/${policy.id}`, 'PATCH', { enabled });
+      replacePolicy(data.policy);
+    } catch (error) {
+      showError(error, "Failed to update connection policy. Please try again.");
+    } finally {
+      setBusyPolicyId(null);
+    }
+  };
+
+  const deletePolicy = async (policy: ConnectionPolicy) => {
+    if (!confirm(`Delete the policy "${policy.name}"?`)) {
+      return;
+    }
+
+    setBusyPolicyId(policy.id);
+    try {
+      await requestJson(`/api/panel/connection-policies/${policy.id}`, 'DELETE');
+      setPolicies(prev => prev.filter(item => item.id !== policy.id));
+    } catch (error) {
+      showError(error, "Failed to delete connection policy. Please try again.");
+    } finally {
+      setBusyPolicyId(null);
+    }
+  };
+
+  const addExemption = async (policy: ConnectionPolicy) => {
+    if (!exemptionPlayer.trim()) return;
+
+    setBusyPolicyId(policy.id);
+    try {
+      const data = await requestJson(`/api/panel/connection-policies/${policy.id}/exemptions`, 'POST', { player: exemptionPlayer.trim() });
+      replacePolicy(data.policy);
+      setExemptionPlayer('');
+    } catch (error) {
+      showError(error, "Failed to add exemption. Please try again.");
+    } finally {
+      setBusyPolicyId(null);
+    }
+  };
+
+  const removeExemption = async (policy: ConnectionPolicy, minecraftUuid: string) => {
+    setBusyPolicyId(policy.id);
+    try {
+      const data = await requestJson(`/api/panel/connection-policies/${policy.id}/exemptions/${minecraftUuid}`, 'DELETE');
+      replacePolicy(data.policy);
+    } catch (error) {
+      showError(error, "Failed to remove exemption. Please try again.");
+    } finally {
+      setBusyPolicyId(null);
+    }
+  };
+
+  const renderForm = () => (
+    <div className="p-4 rounded-lg border space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="connection-policy-name">Name</Label>
+          <Input
+            id="connection-policy-name"
+            value={form.name}
+            onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g. Block VPNs"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Match</Label>
+          <Select value={form.condition} onValueChange={(value) => setForm(prev => ({ ...prev, condition: value as PolicyCondition }))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CONDITION_LABELS) as PolicyCondition[]).map(condition => (
+                <SelectItem key={condition} value={condition}>{CONDITION_LABELS[condition].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Action</Label>
+          <Select value={form.action} onValueChange={(value) => setForm(prev => ({ ...prev, action: value as PolicyAction }))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ACTION_LABELS) as PolicyAction[]).map(action => (
+                <SelectItem key={action} value={action}>{ACTION_LABELS[action]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {hasValues && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="connection-policy-values">
+              {form.condition === 'country' ? 'Country codes' : 'AS numbers'}
+            </Label>
+            <Input
+              id="connection-policy-values"
+              value={form.values}
+              onChange={(e) => setForm(prev => ({ ...prev, values: e.target.value }))}
+              placeholder={CONDITION_LABELS[form.condition].placeholder}
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch
+              id="connection-policy-negate"
+              checked={form.negate}
+              onCheckedChange={(checked) => setForm(prev => ({ ...prev, negate: checked }))}
+            />
+            <Label htmlFor="connection-policy-negate">Match everything except these</Label>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {form.action === 'require_account_age' && (
+          <div className="space-y-2">
+            <Label htmlFor="connection-policy-age">Minimum account age (days)</Label>
+            <Input
+              id="connection-policy-age"
+              type="number"
+              min={1}
+              value={form.minAccountAgeDays}
+              onChange={(e) => setForm(prev => ({ ...prev, minAccountAgeDays: e.target.value }))}
+            />
+          </div>
+        )}
+        {form.action !== 'alert' && (
+          <div className={`space-y-2 ${form.action === 'require_account_age' ? 'md:col-span-2' : 'md:col-span-3'}`}>
+            <Label htmlFor="connection-policy-message">Message shown to denied players (optional)</Label>
+            <Input
+              id="connection-policy-message"
+              value={form.message}
+              onChange={(e) => setForm(prev => ({ ...prev, message: e.target.value }))}
+              placeholder="You are not allowed to join from your current connection."
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={createPolicy} disabled={isSaving}>
+          {isSaving ? (
+            <>
+              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : 'Create Policy'}
+        </Button>
+        <Button variant="outline" onClick={() => setIsCreating(false)} disabled={isSaving}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderExemptions = (policy: ConnectionPolicy) => (
+    <div className="mt-3 space-y-2">
+      {policy.exemptions.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No players are exempt from this policy</p>
+      ) : (
+        policy.exemptions.map(exemption => (
+          <div key={exemption.minecraftUuid} className="flex items-center gap-2 p-2 rounded border bg-background text-xs">
+            <span className="font-medium">{exemption.username}</span>
+            <span className="text-muted-foreground">added by {exemption.addedBy} on {formatDate(exemption.addedAt)}</span>
+            {canModify && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto h-6"
+                disabled={busyPolicyId === policy.id}
+                onClick={() => removeExemption(policy, exemption.minecraftUuid)}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        ))
+      )}
+      {canModify && (
+        <div className="flex gap-2">
+          <Input
+            className="h-8 text-xs"
+            placeholder="Username or UUID"
+            value={exemptionPlayer}
+            onChange={(e) => setExemptionPlayer(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addExemption(policy)}
+          />
+          <Button size="sm" className="h-8 text-xs" disabled={!exemptionPlayer.trim() || busyPolicyId === policy.id} onClick={() => addExemption(policy)}>
+            Exempt Player
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 p-6">
+      <div className="space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-medium mb-1">Connection Policies</h3>
+            <p className="text-sm text-muted-foreground">
+              Deny or flag logins by country, network, or proxy and hosting IPs, or only let established accounts
+              join from them. Players whose country or network is unknown are never matched.
+            </p>
+          </div>
+          {canModify && !isCreating && (
+            <Button variant="outline" size="sm" onClick={() => setIsCreating(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Policy
+            </Button>
+          )}
+        </div>
+
+        {isCreating && renderForm()}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading connection policies...</p>
+        ) : policies.length === 0 ? (
+          <div className="text-center py-6 border-2 border-dashed border-muted rounded-lg">
+            <p className="text-sm text-muted-foreground">No connection policies yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {policies.map(policy => (
+              <div key={policy.id} className="p-3 bg-muted/50 rounded-lg">
+                <div className="flex items-start gap-3">
+                  <div className="flex-1 space-y-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium">{policy.name}</span>
+                      <Badge variant={policy.action === 'alert' ? 'outline' : 'destructive'} className="text-xs">
+                        {ACTION_LABELS[policy.action]}
+                      </Badge>
+                      {!policy.enabled && <Badge variant="secondary" className="text-xs">Disabled</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{describePolicy(policy)}</p>
+                    <p className="text-xs text-muted-foreground">By {policy.createdBy} on {formatDate(policy.createdAt)}</p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {canModify && (
+                      <Switch
+                        checked={policy.enabled}
+                        disabled={busyPolicyId === policy.id}
+                        onCheckedChange={(checked) => setPolicyEnabled(policy, checked)}
+                      />
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setExemptionsPolicyId(exemptionsPolicyId === policy.id ? null : policy.id);
+                        setExemptionPlayer('');
+                      }}
+                      title="Exempt players"
+                    >
+                      <Users className="h-4 w-4 mr-1" />
+                      <span className="text-xs">{policy.exemptions.length}</span>
+                    </Button>
+                    {canModify && (
+                      <Button variant="ghost" size="sm" onClick={() => deletePolicy(policy)} disabled={busyPolicyId === policy.id} title="Delete">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {exemptionsPolicyId === policy.id && renderExemptions(policy)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Separator />
+
+      <div className="space-y-4">
+        <div>
+          <h3 className="text-lg font-medium mb-1">Blocked and Flagged Logins</h3>
+          <p className="text-sm text-muted-foreground">
+            Logins denied by a network ban or policy, or flagged for staff, from the last 90 days.
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="Filter by username or UUID"
+            value={attemptPlayer}
+            onChange={(e) => setAttemptPlayer(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && loadAttempts(attemptPlayer)}
+          />
+          <Button variant="outline" onClick={() => loadAttempts(attemptPlayer)}>
+            <Search className="h-4 w-4 mr-2" />
+            Search
+          </Button>
+        </div>
+
+        {attempts.length === 0 ? (
+          <div className="text-center py-6 border-2 border-dashed border-muted rounded-lg">
+            <p className="text-sm text-muted-foreground">No blocked or flagged logins</p>
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {attempts.map(attempt => (
+              <div key={attempt.id} className="p-3 bg-muted/50 rounded-lg space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm font-medium">{attempt.username}</span>
+                  <Badge variant={attempt.decision === 'denied' ? 'destructive' : 'outline'} className="text-xs">
+                    {attempt.decision === 'denied' ? 'Denied' : 'Alerted'}
+                  </Badge>
+                  <span className="text-xs text-muted-foreground font-mono">{attempt.ipAddress}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {[attempt.country, attempt.asn, attempt.proxy && 'Proxy', attempt.hosting && 'Hosting'].filter(Boolean).join(' • ')}
+                  </span>
+                  <span className="ml-auto text-xs text-muted-foreground">{formatDate(attempt.createdAt)}</span>
+                </div>
+                {attempt.reasons.map(reason => (
+                  <p key={`${reason.source}-${reason.id}`} className="text-xs text-muted-foreground">
+                    {reason.source === 'network_ban' ? 'Network ban' : reason.name}: {reason.detail}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConnectionPolicySettings;
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { CreditCard, SettingsIcon, Globe, Key, Upload, Eye, EyeOff, Check, Copy, RefreshCw, Trash2, Plus, ChevronDown, ChevronRight, HardDrive } from 'lucide-react';
+import { CreditCard, SettingsIcon, Globe, Upload, ChevronDown, ChevronRight, HardDrive, Webhook } from 'lucide-react';
 import { Button } from 'modl-shared-web/components/ui/button';
 import { Input } from 'modl-shared-web/components/ui/input';
 import { Label } from 'modl-shared-web/components/ui/label';
@@ -11,6 +11,8 @@ import { usePermissions } from '@/hooks/use-permissions';
 import BillingSettings from './BillingSettings';
 import DomainSettings from './DomainSettings';
 import UsageSettings from './UsageSettings';
+import ApiKeySettings from './ApiKeySettings';
+import WebhookSettings from './WebhookSettings';
 
 interface GeneralSettingsProps {
   // Server Configuration
@@ -25,19 +27,6 @@ interface GeneralSettingsProps {
   handleHomepageIconUpload: (file: File) => void;
   handlePanelIconUpload: (file: File) => void;
   
-  // API Key Management
-  apiKey: string;
-  fullApiKey: string;
-  showApiKey: boolean;
-  apiKeyCopied: boolean;
-  isGeneratingApiKey: boolean;
-  isRevokingApiKey: boolean;
-  generateApiKey: () => void;
-  revokeApiKey: () => void;
-  revealApiKey: () => void;
-  copyApiKey: () => void;
-  maskApiKey: (key: string) => string;
-  
   // Billing and Usage Data
   usageData?: any;
   getBillingSummary: () => string;
@@ -55,17 +44,6 @@ const GeneralSettings = ({
   uploadingPanelIcon,
   handleHomepageIconUpload,
   handlePanelIconUpload,
-  apiKey,
-  fullApiKey,
-  showApiKey,
-  apiKeyCopied,
-  isGeneratingApiKey,
-  isRevokingApiKey,
-  generateApiKey,
-  revokeApiKey,
-  revealApiKey,
-  copyApiKey,
-  maskApiKey,
   usageData,
   getBillingSummary,
   getUsageSummary,
@@ -80,6 +58,7 @@ const GeneralSettings = ({
   const [isUsageExpanded, setIsUsageExpanded] = useState(false);
   const [isServerConfigExpanded, setIsServerConfigExpanded] = useState(false);
   const [isDomainExpanded, setIsDomainExpanded] = useState(false);
+  const [isWebhooksExpanded, setIsWebhooksExpanded] = useState(false);
 
   return (
     <div className="space-y-6 p-6">
@@ -282,104 +261,7 @@ const GeneralSettings = ({
             <Separator />
 
             {/* API Key Management */}
-            <div className="space-y-4">
-              <div>
-                <h4 className="text-base font-medium mb-3 flex items-center">
-                  <Key className="h-4 w-4 mr-2" />
-                  API Key
-                </h4>
-                <p className="text-sm text-muted-foreground mb-4">
-                  Generate an API key for external integrations including Minecraft plugins and ticket creation. 
-                  This key provides access to all external API endpoints. Keep this key secure.
-                </p>
-              </div>
-
-              {apiKey ? (
-                <div className="space-y-4">
-                  <div className="flex items-center gap-3 p-3 bg-muted/50 rounded-lg">
-                    <div className="flex-1">
-                      <Label className="text-xs text-muted-foreground">Current API Key</Label>
-                      <div className="flex items-center gap-2 mt-1">
-                        <code className="text-sm font-mono bg-background px-2 py-1 rounded border">
-                          {showApiKey ? (fullApiKey || apiKey) : maskApiKey(apiKey)}
-                        </code>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={revealApiKey}
-                        >
-                          {showApiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                        </Button>
-                      </div>
-                    </div>
-                    <div className="flex gap-2">
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={copyApiKey}
-                      >
-                        {apiKeyCopied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
-                      </Button>
-                    </div>
-                  </div>
-                  
-                  <div className="flex gap-2">
-                    <Button
-                      variant="outline"
-                      onClick={generateApiKey}
-                      disabled={isGeneratingApiKey}
-                    >
-                      {isGeneratingApiKey ? (
-                        <>
-                          <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                          Regenerating...
-                        </>
-                      ) : (
-                        <>
-                          <RefreshCw className="h-4 w-4 mr-2" />
-                          Regenerate
-                        </>
-                      )}
-                    </Button>
-                    <Button
-                      variant="destructive"
-                      onClick={revokeApiKey}
-                      disabled={isRevokingApiKey}
-                    >
-                      {isRevokingApiKey ? (
-                        <>
-                          <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                          Revoking...
-                        </>
-                      ) : (
-                        <>
-                          <Trash2 className="h-4 w-4 mr-2" />
-                          Revoke
-                        </>
-                      )}
-                    </Button>
-                  </div>
-                </div>
-              ) : (
-                <div className="text-center py-6 border-2 border-dashed border-muted rounded-lg">
-                  <Key className="h-8 w-8 mx-auto mb-3 text-muted-foreground" />
-                  <p className="text-sm text-muted-foreground mb-4">No API key generated yet</p>
-                  <Button onClick={generateApiKey} disabled={isGeneratingApiKey}>
-                    {isGeneratingApiKey ? (
-                      <>
-                        <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                        Generating...
-                      </>
-                    ) : (
-                      <>
-                        <Plus className="h-4 w-4 mr-2" />
-                        Generate API Key
-                      </>
-                    )}
-                  </Button>
-                </div>
-              )}
-            </div>
+            <ApiKeySettings />
           </CollapsibleContent>
         </Collapsible>
 
@@ -403,6 +285,27 @@ const GeneralSettings = ({
             </CollapsibleContent>
           </Collapsible>
         )}
+
+        {/* Outbound Webhooks */}
+        {hasPermission('admin.settings.view') && (
+          <Collapsible open={isWebhooksExpanded} onOpenChange={setIsWebhooksExpanded}>
+            <CollapsibleTrigger className="flex items-center justify-between w-full p-4 bg-muted/50 rounded-lg hover:bg-muted/70 transition-colors">
+              <div className="flex items-center">
+                <Webhook className="h-4 w-4 mr-2" />
+                <h4 className="text-base font-medium">Webhooks</h4>
+              </div>
+              <div className="flex items-center space-x-2">
+                {!isWebhooksExpanded && (
+                  <span className="text-sm text-muted-foreground">Notify Discord and other services of moderation events</span>
+                )}
+                {isWebhooksExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              </div>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="pt-4">
+              <WebhookSettings />
+            </CollapsibleContent>
+          </Collapsible>
+        )}
       </div>
     </div>
   );
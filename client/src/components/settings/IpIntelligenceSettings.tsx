@@ -0,0 +1,203 @@
+import React, { useRef, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Upload, Trash2, Loader2 } from 'lucide-react';
+import { Button } from 'modl-shared-web/components/ui/button';
+import { Badge } from 'modl-shared-web/components/ui/badge';
+import { useToast } from 'modl-shared-web/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+
+type IpListType = 'geo' | 'asn' | 'vpn' | 'hosting';
+
+interface IpRangeList {
+  type: IpListType;
+  fileName: string | null;
+  entries: number;
+  skipped?: number;
+  uploadedBy?: string;
+  uploadedAt?: string;
+}
+
+interface IpListsResponse {
+  lists: IpRangeList[];
+  cachedIps: number;
+  staleIps: number;
+}
+
+const LIST_DESCRIPTIONS: Record<IpListType, { label: string; format: string }> = {
+  geo: {
+    label: 'GeoIP',
+    format: 'CSV with network (CIDR) or start/end IP, country code, region and city columns.'
+  },
+  asn: {
+    label: 'ASN',
+    format: 'CSV with network (CIDR) or start/end IP, AS number and organization columns.'
+  },
+  vpn: {
+    label: 'VPN / Proxy',
+    format: 'One IP, CIDR range or start/end IP pair per line.'
+  },
+  hosting: {
+    label: 'Hosting',
+    format: 'One IP, CIDR range or start/end IP pair per line.'
+  }
+};
+
+const fetchIpLists = async (): Promise<IpListsResponse> => {
+  const response = await fetch('/api/panel/ip-intelligence/lists');
+  if (!response.ok) {
+    throw new Error('Failed to load IP lists');
+  }
+  return response.json();
+};
+
+const IpListRow = ({ list, canModify, onChanged }: { list: IpRangeList; canModify: boolean; onChanged: () => void }) => {
+  const [isBusy, setIsBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const description = LIST_DESCRIPTIONS[list.type];
+
+  const uploadList = async (file: File) => {
+    setIsBusy(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const { csrfFetch } = await import('@/utils/csrf');
+      const response = await csrfFetch(`/api/panel/ip-intelligence/lists/${list.type}`, {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Request failed');
+      }
+      toast({
+        title: "List Uploaded",
+        description: `${data.list.entries} ranges imported${data.list.skipped ? `, ${data.list.skipped} lines skipped` : ''}. Known IPs are being re-evaluated.`,
+      });
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload the list. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBusy(false);
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const deleteList = async () => {
+    if (!confirm(`Remove the ${description.label} list? Known IPs will fall back to the information sent by the server plugin.`)) {
+      return;
+    }
+
+    setIsBusy(true);
+    try {
+      const { csrfFetch } = await import('@/utils/csrf');
+      const response = await csrfFetch(`/api/panel/ip-intelligence/lists/${list.type}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Request failed');
+      }
+      onChanged();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to remove the list. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex items-start justify-between gap-4 bg-muted/30 p-3 rounded-md">
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">{description.label}</span>
+          {list.fileName ? (
+            <Badge variant="outline" className="text-xs">{list.entries} ranges</Badge>
+          ) : (
+            <Badge variant="secondary" className="text-xs">Using plugin data</Badge>
+          )}
+        </div>
+        {list.fileName ? (
+          <p className="text-xs text-muted-foreground">
+            {list.fileName}, uploaded by {list.uploadedBy} on {list.uploadedAt ? new Date(list.uploadedAt).toLocaleString() : 'Unknown'}
+            {list.skipped ? ` • ${list.skipped} lines skipped` : ''}
+          </p>
+        ) : (
+          <p className="text-xs text-muted-foreground">{description.format}</p>
+        )}
+      </div>
+
+      {canModify && (
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && uploadList(e.target.files[0])}
+          />
+          <Button variant="outline" size="sm" disabled={isBusy} onClick={() => fileInputRef.current?.click()}>
+            {isBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            {list.fileName ? 'Replace' : 'Upload'}
+          </Button>
+          {list.fileName && (
+            <Button variant="ghost" size="sm" disabled={isBusy} onClick={deleteList}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const IpIntelligenceSettings: React.FC = () => {
+  const { hasPermission } = usePermissions();
+  const canModify = hasPermission('admin.settings.modify');
+
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ['ip-intelligence-lists'],
+    queryFn: fetchIpLists,
+    refetchInterval: (query) => (query.state.data?.staleIps ?? 0) > 0 ? 5000 : false
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading IP lists...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-base font-medium mb-1">IP Intelligence</h4>
+        <p className="text-sm text-muted-foreground">
+          Upload GeoIP, ASN and VPN or hosting range lists to look up player IPs on the panel instead of trusting
+          the information sent by the server plugin. Lists are used for the player IP list and alt detection.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {data?.lists.map(list => (
+          <IpListRow key={list.type} list={list} canModify={canModify} onChanged={() => refetch()} />
+        ))}
+      </div>
+
+      {data && (
+        <p className="text-xs text-muted-foreground">
+          {data.cachedIps} known IPs
+          {data.staleIps > 0 && ` • re-evaluating ${data.staleIps} IPs against the current lists...`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default IpIntelligenceSettings;
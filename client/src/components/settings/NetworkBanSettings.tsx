@@ -0,0 +1,440 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, RefreshCw, Trash2, Users, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from 'modl-shared-web/components/ui/button';
+import { Input } from 'modl-shared-web/components/ui/input';
+import { Label } from 'modl-shared-web/components/ui/label';
+import { Badge } from 'modl-shared-web/components/ui/badge';
+import { Switch } from 'modl-shared-web/components/ui/switch';
+import { Textarea } from 'modl-shared-web/components/ui/textarea';
+import { Separator } from 'modl-shared-web/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from 'modl-shared-web/components/ui/select';
+import { useToast } from 'modl-shared-web/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+
+type NetworkBanKind = 'ip' | 'cidr' | 'asn';
+
+interface NetworkBan {
+  id: string;
+  kind: NetworkBanKind;
+  value: string;
+  reason: string;
+  expires: string | null;
+  active: boolean;
+  expired: boolean;
+  exemptions: Array<{ minecraftUuid: string; username: string; addedBy: string; addedAt: string }>;
+  hits: number;
+  lastHitAt: string | null;
+  createdBy: string;
+  createdAt: string;
+}
+
+interface NetworkBanForm {
+  kind: NetworkBanKind;
+  value: string;
+  reason: string;
+  expires: string;
+}
+
+const KIND_LABELS: Record<NetworkBanKind, { label: string; placeholder: string }> = {
+  ip: { label: 'IP address', placeholder: 'e.g. 203.0.113.7' },
+  cidr: { label: 'CIDR range', placeholder: 'e.g. 203.0.113.0/24' },
+  asn: { label: 'ASN', placeholder: 'e.g. AS64500' }
+};
+
+const EMPTY_FORM: NetworkBanForm = { kind: 'ip', value: '', reason: '', expires: '' };
+
+const formatDate = (date: string | null) => (date ? format(new Date(date), 'MMM d, yyyy HH:mm') : '-');
+
+const NetworkBanSettings: React.FC = () => {
+  const [bans, setBans] = useState<NetworkBan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [form, setForm] = useState<NetworkBanForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyBanId, setBusyBanId] = useState<string | null>(null);
+  const [exemptionsBanId, setExemptionsBanId] = useState<string | null>(null);
+  const [exemptionPlayer, setExemptionPlayer] = useState('');
+  const [denyMessage, setDenyMessage] = useState('');
+  const [isSavingMessage, setIsSavingMessage] = useState(false);
+  const { toast } = useToast();
+  const { hasPermission } = usePermissions();
+
+  const canModify = hasPermission('admin.settings.modify');
+
+  useEffect(() => {
+    loadBans();
+    loadDenyMessage();
+  }, []);
+
+  const loadBans = async () => {
+    try {
+      const response = await fetch('/api/panel/network-bans');
+      if (response.ok) {
+        const data = await response.json();
+        setBans(data.bans || []);
+      } else {
+        console.error('Failed to load network bans:', response.status, response.statusText);
+      }
+    } catch (error) {
+      console.error('Error loading network bans:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadDenyMessage = async () => {
+    try {
+      const response = await fetch('/api/panel/settings/network-bans');
+      if (response.ok) {
+        const data = await response.json();
+        setDenyMessage(data.data?.denyMessage || '');
+      }
+    } catch (error) {
+      console.error('Error loading network ban settings:', error);
+    }
+  };
+
+  const requestJson = async (url: string, method: string, body?: any) => {
+    const { csrfFetch } = await import('@/utils/csrf');
+    const response = await csrfFetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || data.message || 'Request failed');
+    }
+    return data;
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const replaceBan = (ban: NetworkBan) => {
+    setBans(prev => prev.map(item => (item.id === ban.id ? ban : item)));
+  };
+
+  const createBan = async () => {
+    if (!form.value.trim()) {
+      toast({
+        title: "Error",
+        description: `Please enter the ${KIND_LABELS[form.kind].label} to ban`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const data = await requestJson('/api/panel/network-bans', 'POST', {
+        kind: form.kind,
+        value: form.value.trim(),
+        reason: form.reason.trim(),
+        expires: form.expires ? new Date(form.expires).toISOString() : null
+      });
+      setBans(prev => [data.ban, ...prev]);
+      setForm(EMPTY_FORM);
+      setIsCreating(false);
+      toast({
+        title: "Network Ban Created",
+        description: `Connections from ${data.ban.value} are now denied.`,
+      });
+    } catch (error) {
+      showError(error, "Failed to create network ban. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setBanActive = async (ban: NetworkBan, active: boolean) => {
+    setBusyBanId(ban.id);
+    try {
+      const data = await requestJson(`/api/panel/network-bans/${ban.id}`, 'PATCH', { active });
+      replaceBan(data.ban);
+    } catch (error) {
+      showError(error, "Failed to update network ban. Please try again.");
+    } finally {
+      setBusyBanId(null);
+    }
+  };
+
+  const deleteBan = async (ban: NetworkBan) => {
+    if (!confirm(`Delete the ban on ${ban.value}? Lifting it keeps its history instead.`)) {
+      return;
+    }
+
+    setBusyBanId(ban.id);
+    try {
+      await requestJson(`/api/panel/network-bans/${ban.id}`, 'DELETE');
+      setBans(prev => prev.filter(item => item.id !== ban.id));
+    } catch (error) {
+      showError(error, "Failed to delete network ban. Please try again.");
+    } finally {
+      setBusyBanId(null);
+    }
+  };
+
+  const addExemption = async (ban: NetworkBan) => {
+    if (!exemptionPlayer.trim()) return;
+
+    setBusyBanId(ban.id);
+    try {
+      const data = await requestJson(`/api/panel/network-bans/${ban.id}/exemptions`, 'POST', { player: exemptionPlayer.trim() });
+      replaceBan(data.ban);
+      setExemptionPlayer('');
+    } catch (error) {
+      showError(error, "Failed to add exemption. Please try again.");
+    } finally {
+      setBusyBanId(null);
+    }
+  };
+
+  const removeExemption = async (ban: NetworkBan, minecraftUuid: string) => {
+    setBusyBanId(ban.id);
+    try {
+      const data = await requestJson(`/api/panel/network-bans/${ban.id}/exemptions/${minecraftUuid}`, 'DELETE');
+      replaceBan(data.ban);
+    } catch (error) {
+      showError(error, "Failed to remove exemption. Please try again.");
+    } finally {
+      setBusyBanId(null);
+    }
+  };
+
+  const saveDenyMessage = async () => {
+    setIsSavingMessage(true);
+    try {
+      const data = await requestJson('/api/panel/settings/network-bans', 'PUT', { denyMessage });
+      setDenyMessage(data.data.denyMessage);
+      toast({
+        title: "Settings Saved",
+        description: "The network ban message has been updated.",
+      });
+    } catch (error) {
+      showError(error, "Failed to save the network ban message. Please try again.");
+    } finally {
+      setIsSavingMessage(false);
+    }
+  };
+
+  const getBanStatus = (ban: NetworkBan) => {
+    if (!ban.active) return <Badge variant="secondary" className="text-xs">Lifted</Badge>;
+    if (ban.expired) return <Badge variant="secondary" className="text-xs">Expired</Badge>;
+    return <Badge variant="destructive" className="text-xs">Active</Badge>;
+  };
+
+  const renderForm = () => (
+    <div className="p-4 rounded-lg border space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>Type</Label>
+          <Select value={form.kind} onValueChange={(value) => setForm(prev => ({ ...prev, kind: value as NetworkBanKind }))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(KIND_LABELS) as NetworkBanKind[]).map(kind => (
+                <SelectItem key={kind} value={kind}>{KIND_LABELS[kind].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="network-ban-value">{KIND_LABELS[form.kind].label}</Label>
+          <Input
+            id="network-ban-value"
+            value={form.value}
+            onChange={(e) => setForm(prev => ({ ...prev, value: e.target.value }))}
+            placeholder={KIND_LABELS[form.kind].placeholder}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2 md:col-span-2">
+          <Label htmlFor="network-ban-reason">Reason</Label>
+          <Input
+            id="network-ban-reason"
+            value={form.reason}
+            onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+            placeholder="e.g. Bot accounts"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="network-ban-expires">Expires (leave empty for permanent)</Label>
+          <Input
+            id="network-ban-expires"
+            type="datetime-local"
+            value={form.expires}
+            onChange={(e) => setForm(prev => ({ ...prev, expires: e.target.value }))}
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={createBan} disabled={isSaving}>
+          {isSaving ? (
+            <>
+              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : 'Create Ban'}
+        </Button>
+        <Button variant="outline" onClick={() => setIsCreating(false)} disabled={isSaving}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderExemptions = (ban: NetworkBan) => (
+    <div className="mt-3 space-y-2">
+      {ban.exemptions.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No players are exempt from this ban</p>
+      ) : (
+        ban.exemptions.map(exemption => (
+          <div key={exemption.minecraftUuid} className="flex items-center gap-2 p-2 rounded border bg-background text-xs">
+            <span className="font-medium">{exemption.username}</span>
+            <span className="text-muted-foreground">added by {exemption.addedBy} on {formatDate(exemption.addedAt)}</span>
+            {canModify && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto h-6"
+                disabled={busyBanId === ban.id}
+                onClick={() => removeExemption(ban, exemption.minecraftUuid)}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        ))
+      )}
+      {canModify && (
+        <div className="flex gap-2">
+          <Input
+            className="h-8 text-xs"
+            placeholder="Username or UUID"
+            value={exemptionPlayer}
+            onChange={(e) => setExemptionPlayer(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addExemption(ban)}
+          />
+          <Button size="sm" className="h-8 text-xs" disabled={!exemptionPlayer.trim() || busyBanId === ban.id} onClick={() => addExemption(ban)}>
+            Exempt Player
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6 p-6">
+      <div className="space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-medium mb-1">Network Bans</h3>
+            <p className="text-sm text-muted-foreground">
+              Deny every connection from an IP address, a CIDR range or an autonomous system, no matter which
+              account is used. Exempt players can still connect from a banned network.
+            </p>
+          </div>
+          {canModify && !isCreating && (
+            <Button variant="outline" size="sm" onClick={() => setIsCreating(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Ban
+            </Button>
+          )}
+        </div>
+
+        {isCreating && renderForm()}
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading network bans...</p>
+        ) : bans.length === 0 ? (
+          <div className="text-center py-6 border-2 border-dashed border-muted rounded-lg">
+            <p className="text-sm text-muted-foreground">No network bans yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {bans.map(ban => (
+              <div key={ban.id} className="p-3 bg-muted/50 rounded-lg">
+                <div className="flex items-start gap-3">
+                  <div className="flex-1 space-y-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium font-mono">{ban.value}</span>
+                      <Badge variant="outline" className="text-xs">{KIND_LABELS[ban.kind].label}</Badge>
+                      {getBanStatus(ban)}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{ban.reason || 'No reason provided'}</p>
+                    <p className="text-xs text-muted-foreground">
+                      By {ban.createdBy} on {formatDate(ban.createdAt)} • Expires: {ban.expires ? formatDate(ban.expires) : 'Never'}
+                      {' '}• {ban.hits} denied connection{ban.hits === 1 ? '' : 's'}
+                      {ban.lastHitAt && `, last on ${formatDate(ban.lastHitAt)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {canModify && (
+                      <Switch
+                        checked={ban.active}
+                        disabled={busyBanId === ban.id}
+                        onCheckedChange={(checked) => setBanActive(ban, checked)}
+                      />
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setExemptionsBanId(exemptionsBanId === ban.id ? null : ban.id);
+                        setExemptionPlayer('');
+                      }}
+                      title="Exempt players"
+                    >
+                      <Users className="h-4 w-4 mr-1" />
+                      <span className="text-xs">{ban.exemptions.length}</span>
+                    </Button>
+                    {canModify && (
+                      <Button variant="ghost" size="sm" onClick={() => deleteBan(ban)} disabled={busyBanId === ban.id} title="Delete">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {exemptionsBanId === ban.id && renderExemptions(ban)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <Label htmlFor="network-ban-message">Message shown to denied connections</Label>
+        <Textarea
+          id="network-ban-message"
+          value={denyMessage}
+          disabled={!canModify}
+          rows={4}
+          onChange={(e) => setDenyMessage(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">
+          Use <code>{'{reason}'}</code>, <code>{'{expires}'}</code> and <code>{'{ban-id}'}</code> to include details of the ban.
+        </p>
+        {canModify && (
+          <Button onClick={saveDenyMessage} disabled={isSavingMessage || !denyMessage.trim()}>
+            {isSavingMessage ? 'Saving...' : 'Save Message'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NetworkBanSettings;
@@ -6,6 +6,8 @@ import { Label } from 'modl-shared-web/components/ui/label';
 import { Separator } from 'modl-shared-web/components/ui/separator';
 import { Slider } from 'modl-shared-web/components/ui/slider';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from 'modl-shared-web/components/ui/select';
+import AltDetectionSettings from './AltDetectionSettings';
+import IpIntelligenceSettings from './IpIntelligenceSettings';
 
 interface PunishmentType {
   id: number;
@@ -15,17 +17,26 @@ interface PunishmentType {
   ordinal: number;
 }
 
+interface PointDecay {
+  mode: 'none' | 'half-life' | 'linear';
+  days: number;
+}
+
 interface StatusThresholds {
   gameplay: {
     medium: number;
     habitual: number;
+    decay?: PointDecay;
   };
   social: {
     medium: number;
     habitual: number;
+    decay?: PointDecay;
   };
 }
 
+const DEFAULT_POINT_DECAY: PointDecay = { mode: 'half-life', days: 30 };
+
 interface PunishmentSettingsProps {
   statusThresholds: StatusThresholds;
   setStatusThresholds: (value: StatusThresholds | ((prev: StatusThresholds) => StatusThresholds)) => void;
@@ -52,6 +63,8 @@ const PunishmentSettings = ({
   setSelectedPunishment
 }: PunishmentSettingsProps) => {
   const [showCorePunishments, setShowCorePunishments] = useState(false);
+  const gameplayDecay = statusThresholds.gameplay.decay || DEFAULT_POINT_DECAY;
+  const socialDecay = statusThresholds.social.decay || DEFAULT_POINT_DECAY;
 
   return (
     <div className="space-y-6 p-6">
@@ -110,6 +123,53 @@ const PunishmentSettings = ({
                   }))}
                 />
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="gameplay-decay">Point Decay</Label>
+                <div className="flex gap-2">
+                  <Select
+                    value={gameplayDecay.mode}
+                    onValueChange={(mode: PointDecay['mode']) => setStatusThresholds(prev => ({
+                      ...prev,
+                      gameplay: {
+                        ...prev.gameplay,
+                        decay: { ...(prev.gameplay.decay || DEFAULT_POINT_DECAY), mode }
+                      }
+                    }))}
+                  >
+                    <SelectTrigger id="gameplay-decay" className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="half-life">Half-life</SelectItem>
+                      <SelectItem value="linear">Linear</SelectItem>
+                      <SelectItem value="none">None (expire with punishment)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {gameplayDecay.mode !== 'none' && (
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-24"
+                      value={gameplayDecay.days}
+                      onChange={e => setStatusThresholds(prev => ({
+                        ...prev,
+                        gameplay: {
+                          ...prev.gameplay,
+                          decay: { ...(prev.gameplay.decay || DEFAULT_POINT_DECAY), days: Math.max(1, parseInt(e.target.value) || 1) }
+                        }
+                      }))}
+                    />
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {gameplayDecay.mode === 'half-life'
+                    ? `Points of expired punishments halve every ${gameplayDecay.days} days`
+                    : gameplayDecay.mode === 'linear'
+                      ? `Points of expired punishments fade to zero over ${gameplayDecay.days} days`
+                      : 'Points stop counting as soon as the punishment expires'}
+                </p>
+              </div>
             </div>
           </div>
 
@@ -160,6 +220,53 @@ const PunishmentSettings = ({
                   }))}
                 />
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="social-decay">Point Decay</Label>
+                <div className="flex gap-2">
+                  <Select
+                    value={socialDecay.mode}
+                    onValueChange={(mode: PointDecay['mode']) => setStatusThresholds(prev => ({
+                      ...prev,
+                      social: {
+                        ...prev.social,
+                        decay: { ...(prev.social.decay || DEFAULT_POINT_DECAY), mode }
+                      }
+                    }))}
+                  >
+                    <SelectTrigger id="social-decay" className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="half-life">Half-life</SelectItem>
+                      <SelectItem value="linear">Linear</SelectItem>
+                      <SelectItem value="none">None (expire with punishment)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {socialDecay.mode !== 'none' && (
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-24"
+                      value={socialDecay.days}
+                      onChange={e => setStatusThresholds(prev => ({
+                        ...prev,
+                        social: {
+                          ...prev.social,
+                          decay: { ...(prev.social.decay || DEFAULT_POINT_DECAY), days: Math.max(1, parseInt(e.target.value) || 1) }
+                        }
+                      }))}
+                    />
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {socialDecay.mode === 'half-life'
+                    ? `Points of expired punishments halve every ${socialDecay.days} days`
+                    : socialDecay.mode === 'linear'
+                      ? `Points of expired punishments fade to zero over ${socialDecay.days} days`
+                      : 'Points stop counting as soon as the punishment expires'}
+                </p>
+              </div>
             </div>
           </div>
         </div>
@@ -168,7 +275,8 @@ const PunishmentSettings = ({
           <h5 className="text-sm font-medium mb-1">About Offender Status</h5>
           <p className="text-xs text-muted-foreground">
             Players accumulate points with each punishment. When they reach the threshold for medium or habitual status,
-            stricter durations will apply to future punishments. Points decay over time according to server settings.
+            stricter durations will apply to future punishments. Points count in full while a punishment is active and
+            fade out after it expires according to the decay configured for each category.
           </p>
         </div>
       </div>
@@ -376,6 +484,14 @@ const PunishmentSettings = ({
           </p>
         </div>
       </div>
+
+      <Separator />
+
+      <AltDetectionSettings />
+
+      <Separator />
+
+      <IpIntelligenceSettings />
     </div>
   );
 };
@@ -0,0 +1,332 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import { Button } from 'modl-shared-web/components/ui/button';
+import { Input } from 'modl-shared-web/components/ui/input';
+import { Label } from 'modl-shared-web/components/ui/label';
+import { Badge } from 'modl-shared-web/components/ui/badge';
+import { Switch } from 'modl-shared-web/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from 'modl-shared-web/components/ui/select';
+import { useToast } from 'modl-shared-web/hooks/use-toast';
+import { PERMISSIONS, usePermissions } from '@/hooks/use-permissions';
+
+type TicketPriority = 'low' | 'medium' | 'high';
+
+interface TicketCategory {
+  id: string;
+  name: string;
+  prefix: string;
+  sequentialNumbering: boolean;
+  formId: string | null;
+  defaultTags: string[];
+  defaultPriority: TicketPriority | null;
+  viewPermissions: string[];
+  isReport: boolean;
+  targetsPlayer: boolean;
+}
+
+interface TicketCategorySettingsProps {
+  // Keys of the configured ticket forms
+  formIds: string[];
+}
+
+// Appeals are always filed under this category
+const APPEAL_CATEGORY_ID = 'appeal';
+const NONE = '__none__';
+
+const VISIBILITY_PERMISSIONS = Object.values(PERMISSIONS);
+
+const TicketCategorySettings: React.FC<TicketCategorySettingsProps> = ({ formIds }) => {
+  const [categories, setCategories] = useState<TicketCategory[]>([]);
+  // Categories that were saved before, their IDs can't change without orphaning tickets
+  const [savedIds, setSavedIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const { hasPermission } = usePermissions();
+
+  const canModify = hasPermission('admin.settings.modify');
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const loadCategories = async () => {
+    try {
+      const response = await fetch('/api/panel/settings/ticket-categories');
+      if (response.ok) {
+        const data = await response.json();
+        const loaded: TicketCategory[] = data.data?.categories || [];
+        setCategories(loaded);
+        setSavedIds(loaded.map(category => category.id));
+      } else {
+        console.error('Failed to load ticket categories:', response.status, response.statusText);
+      }
+    } catch (error) {
+      console.error('Error loading ticket categories:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateCategory = (index: number, changes: Partial<TicketCategory>) => {
+    setCategories(prev => prev.map((category, i) => (i === index ? { ...category, ...changes } : category)));
+  };
+
+  const addCategory = () => {
+    setCategories(prev => [...prev, {
+      id: '',
+      name: '',
+      prefix: '',
+      sequentialNumbering: false,
+      formId: null,
+      defaultTags: [],
+      defaultPriority: null,
+      viewPermissions: [],
+      isReport: false,
+      targetsPlayer: false
+    }]);
+  };
+
+  const removeCategory = (index: number) => {
+    const category = categories[index];
+    if (savedIds.includes(category.id) && !confirm(`Remove the ${category.name} category? Existing tickets keep their ID but show as "Other".`)) {
+      return;
+    }
+    setCategories(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const saveCategories = async () => {
+    setIsSaving(true);
+    try {
+      const { csrfFetch } = await import('@/utils/csrf');
+      const response = await csrfFetch('/api/panel/settings/ticket-categories', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ categories }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save ticket categories');
+      }
+
+      setCategories(data.data.categories);
+      setSavedIds(data.data.categories.map((category: TicketCategory) => category.id));
+      toast({
+        title: "Settings Saved",
+        description: "Ticket categories have been updated.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save ticket categories. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderCategory = (category: TicketCategory, index: number) => {
+    const isSaved = savedIds.includes(category.id);
+    const availablePermissions = VISIBILITY_PERMISSIONS.filter(permission => !category.viewPermissions.includes(permission));
+
+    return (
+      <div key={isSaved ? category.id : `new-${index}`} className="p-4 bg-muted/50 rounded-lg space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input
+              value={category.name}
+              disabled={!canModify}
+              onChange={(e) => updateCategory(index, { name: e.target.value })}
+              placeholder="e.g. Build Report"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>ID</Label>
+            <Input
+              value={category.id}
+              disabled={!canModify || isSaved}
+              onChange={(e) => updateCategory(index, { id: e.target.value.toLowerCase() })}
+              placeholder="e.g. build"
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Ticket ID Prefix</Label>
+            <Input
+              value={category.prefix}
+              disabled={!canModify}
+              onChange={(e) => updateCategory(index, { prefix: e.target.value.toUpperCase() })}
+              placeholder="e.g. BUILD"
+              className="font-mono"
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Form</Label>
+            <Select
+              value={category.formId || NONE}
+              disabled={!canModify}
+              onValueChange={(value) => updateCategory(index, { formId: value === NONE ? null : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No form</SelectItem>
+                {Array.from(new Set([...formIds, ...(category.formId ? [category.formId] : [])])).map(formId => (
+                  <SelectItem key={formId} value={formId}>{formId}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Default Priority</Label>
+            <Select
+              value={category.defaultPriority || NONE}
+              disabled={!canModify}
+              onValueChange={(value) => updateCategory(index, { defaultPriority: value === NONE ? null : value as TicketPriority })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>None</SelectItem>
+                <SelectItem value="low">Low</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="high">High</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Default Tags</Label>
+            <Input
+              value={category.defaultTags.join(', ')}
+              disabled={!canModify}
+              onChange={(e) => updateCategory(index, { defaultTags: e.target.value.split(',').map(tag => tag.trim()).filter(Boolean) })}
+              placeholder="Comma separated"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Visible To</Label>
+          <div className="flex items-center gap-2 flex-wrap">
+            {category.viewPermissions.length === 0 && (
+              <span className="text-xs text-muted-foreground">Everyone that can view tickets</span>
+            )}
+            {category.viewPermissions.map(permission => (
+              <Badge key={permission} variant="secondary" className="text-xs font-mono">
+                {permission}
+                {canModify && (
+                  <button
+                    className="ml-1"
+                    onClick={() => updateCategory(index, { viewPermissions: category.viewPermissions.filter(p => p !== permission) })}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                )}
+              </Badge>
+            ))}
+            {canModify && availablePermissions.length > 0 && (
+              <Select value="" onValueChange={(value) => updateCategory(index, { viewPermissions: [...category.viewPermissions, value] })}>
+                <SelectTrigger className="h-7 w-48 text-xs">
+                  <SelectValue placeholder="Require permission..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {availablePermissions.map(permission => (
+                    <SelectItem key={permission} value={permission}>{permission}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">Staff need one of these permissions to see tickets in this category</p>
+        </div>
+
+        <div className="flex items-center gap-6 flex-wrap">
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={category.sequentialNumbering}
+              disabled={!canModify}
+              onCheckedChange={(checked) => updateCategory(index, { sequentialNumbering: checked })}
+            />
+            <Label className="text-sm">Sequential numbering</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={category.isReport}
+              disabled={!canModify}
+              onCheckedChange={(checked) => updateCategory(index, { isReport: checked })}
+            />
+            <Label className="text-sm">Is a report</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={category.targetsPlayer}
+              disabled={!canModify}
+              onCheckedChange={(checked) => updateCategory(index, { targetsPlayer: checked })}
+            />
+            <Label className="text-sm">Targets a player</Label>
+          </div>
+          {canModify && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="ml-auto"
+              disabled={category.id === APPEAL_CATEGORY_ID && isSaved}
+              onClick={() => removeCategory(index)}
+              title={category.id === APPEAL_CATEGORY_ID ? 'Ban appeals need this category' : 'Remove'}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium mb-1">Ticket Categories</h3>
+          <p className="text-sm text-muted-foreground">
+            The kinds of tickets players can open. Tickets are numbered with their category's prefix,
+            reports can end in a punishment for the reported player.
+          </p>
+        </div>
+        {canModify && (
+          <Button variant="outline" size="sm" onClick={addCategory}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Category
+          </Button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading ticket categories...</p>
+      ) : (
+        <div className="space-y-2">
+          {categories.map(renderCategory)}
+        </div>
+      )}
+
+      {canModify && !isLoading && (
+        <Button onClick={saveCategories} disabled={isSaving}>
+          {isSaving ? (
+            <>
+              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : 'Save Categories'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default TicketCategorySettings;
@@ -0,0 +1,215 @@
+import React, { useState, useEffect } from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { Button } from 'modl-shared-web/components/ui/button';
+import { Label } from 'modl-shared-web/components/ui/label';
+import { Badge } from 'modl-shared-web/components/ui/badge';
+import { Switch } from 'modl-shared-web/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from 'modl-shared-web/components/ui/select';
+import { useToast } from 'modl-shared-web/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useStaff } from '@/hooks/use-data';
+
+type TicketQueueStrategy = 'round_robin' | 'least_loaded';
+
+interface TicketQueue {
+  categoryId: string;
+  autoAssign: boolean;
+  strategy: TicketQueueStrategy;
+  // Staff usernames in the queue, every on-duty staff member when empty
+  members: string[];
+}
+
+interface TicketCategory {
+  id: string;
+  name: string;
+}
+
+const emptyQueue = (categoryId: string): TicketQueue => ({
+  categoryId,
+  autoAssign: false,
+  strategy: 'round_robin',
+  members: []
+});
+
+const TicketQueueSettings: React.FC = () => {
+  const [categories, setCategories] = useState<TicketCategory[]>([]);
+  const [queues, setQueues] = useState<TicketQueue[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const { hasPermission } = usePermissions();
+  const { data: staff } = useStaff();
+
+  const canModify = hasPermission('admin.settings.modify');
+  const staffUsernames: string[] = Array.isArray(staff) ? staff.map((member: any) => member.username) : [];
+
+  useEffect(() => {
+    loadQueues();
+  }, []);
+
+  const loadQueues = async () => {
+    try {
+      const [categoriesResponse, queuesResponse] = await Promise.all([
+        fetch('/api/panel/settings/ticket-categories'),
+        fetch('/api/panel/settings/ticket-queues')
+      ]);
+      if (categoriesResponse.ok && queuesResponse.ok) {
+        const categoriesData = await categoriesResponse.json();
+        const queuesData = await queuesResponse.json();
+        setCategories(categoriesData.data?.categories || []);
+        setQueues(queuesData.data?.queues || []);
+      } else {
+        console.error('Failed to load ticket queues:', queuesResponse.status, queuesResponse.statusText);
+      }
+    } catch (error) {
+      console.error('Error loading ticket queues:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getQueue = (categoryId: string): TicketQueue => {
+    return queues.find(queue => queue.categoryId === categoryId) || emptyQueue(categoryId);
+  };
+
+  const updateQueue = (categoryId: string, changes: Partial<TicketQueue>) => {
+    setQueues(prev => [
+      ...prev.filter(queue => queue.categoryId !== categoryId),
+      { ...getQueue(categoryId), ...changes }
+    ]);
+  };
+
+  const saveQueues = async () => {
+    setIsSaving(true);
+    try {
+      const { csrfFetch } = await import('@/utils/csrf');
+      // Queues of removed categories would be rejected
+      const body = { queues: queues.filter(queue => categories.some(category => category.id === queue.categoryId)) };
+      const response = await csrfFetch('/api/panel/settings/ticket-queues', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save ticket queues');
+      }
+
+      setQueues(data.data.queues);
+      toast({
+        title: "Settings Saved",
+        description: "Ticket queues have been updated.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save ticket queues. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderQueue = (category: TicketCategory) => {
+    const queue = getQueue(category.id);
+    const availableStaff = staffUsernames.filter(username => !queue.members.includes(username));
+
+    return (
+      <div key={category.id} className="p-4 bg-muted/50 rounded-lg space-y-3">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-2">
+            <Switch
+              checked={queue.autoAssign}
+              disabled={!canModify}
+              onCheckedChange={(checked) => updateQueue(category.id, { autoAssign: checked })}
+            />
+            <Label className="text-sm font-medium">{category.name}</Label>
+          </div>
+          <Select
+            value={queue.strategy}
+            disabled={!canModify || !queue.autoAssign}
+            onValueChange={(value) => updateQueue(category.id, { strategy: value as TicketQueueStrategy })}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="round_robin">Round robin</SelectItem>
+              <SelectItem value="least_loaded">Least open tickets</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {queue.autoAssign && (
+          <div className="space-y-2">
+            <Label className="text-xs">Members</Label>
+            <div className="flex items-center gap-2 flex-wrap">
+              {queue.members.length === 0 && (
+                <span className="text-xs text-muted-foreground">Everyone on duty</span>
+              )}
+              {queue.members.map(member => (
+                <Badge key={member} variant="secondary" className="text-xs">
+                  {member}
+                  {canModify && (
+                    <button
+                      className="ml-1"
+                      onClick={() => updateQueue(category.id, { members: queue.members.filter(m => m !== member) })}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  )}
+                </Badge>
+              ))}
+              {canModify && availableStaff.length > 0 && (
+                <Select value="" onValueChange={(value) => updateQueue(category.id, { members: [...queue.members, value] })}>
+                  <SelectTrigger className="h-7 w-40 text-xs">
+                    <SelectValue placeholder="Add staff..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableStaff.map(username => (
+                      <SelectItem key={username} value={username}>{username}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium mb-1">Ticket Queues</h3>
+        <p className="text-sm text-muted-foreground">
+          Hand new tickets to staff that are on duty. Round robin gives each ticket to whoever waited
+          longest for one, least open tickets to whoever has the fewest assigned.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading ticket queues...</p>
+      ) : (
+        <div className="space-y-2">
+          {categories.map(renderQueue)}
+        </div>
+      )}
+
+      {canModify && !isLoading && (
+        <Button onClick={saveQueues} disabled={isSaving}>
+          {isSaving ? (
+            <>
+              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : 'Save Queues'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default TicketQueueSettings;
@@ -0,0 +1,571 @@
+import React, { useState, useEffect } from 'react';
+import { History, Plus, RefreshCw, Trash2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from 'modl-shared-web/components/ui/button';
+import { Input } from 'modl-shared-web/components/ui/input';
+import { Label } from 'modl-shared-web/components/ui/label';
+import { Badge } from 'modl-shared-web/components/ui/badge';
+import { Switch } from 'modl-shared-web/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from 'modl-shared-web/components/ui/select';
+import { useToast } from 'modl-shared-web/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { useStaff } from '@/hooks/use-data';
+import { QuickResponsesConfiguration } from '@/types/quickResponses';
+import { TICKET_STATUSES } from '@/utils/ticket-status';
+
+type TicketRuleTrigger = 'ticket.created' | 'reply.added' | 'tag.added' | 'status.changed' | 'field.changed';
+type TicketRuleConditionType = 'category' | 'tag' | 'field' | 'reply_author' | 'reporter_tickets' | 'reporter_punishments';
+type TicketRuleOperator = 'equals' | 'not_equals' | 'contains' | 'not_contains' | 'empty' | 'not_empty' | 'at_least' | 'at_most';
+type TicketRuleActionType = 'assign' | 'tag' | 'set_priority' | 'quick_response' | 'ai_analysis' | 'set_status' | 'close';
+
+interface TicketRuleCondition {
+  type: TicketRuleConditionType;
+  operator: TicketRuleOperator;
+  key: string | null;
+  value: string | null;
+}
+
+interface TicketRuleAction {
+  type: TicketRuleActionType;
+  value: string | null;
+  categoryId: string | null;
+}
+
+interface TicketRule {
+  // Empty until the rule is saved
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: TicketRuleTrigger;
+  triggerValue: string | null;
+  conditions: TicketRuleCondition[];
+  actions: TicketRuleAction[];
+}
+
+interface TicketRuleExecution {
+  ruleId: string;
+  ticketId: string;
+  trigger: TicketRuleTrigger;
+  actions: Array<{ type: TicketRuleActionType; value: string | null; status: 'applied' | 'skipped' | 'failed'; message: string | null }>;
+  createdAt: string;
+}
+
+interface TicketCategory {
+  id: string;
+  name: string;
+}
+
+interface TicketRuleSettingsProps {
+  quickResponses: QuickResponsesConfiguration;
+}
+
+const TRIGGERS: Array<{ value: TicketRuleTrigger; label: string; valueLabel: string | null }> = [
+  { value: 'ticket.created', label: 'Ticket created', valueLabel: null },
+  { value: 'reply.added', label: 'Reply added', valueLabel: null },
+  { value: 'tag.added', label: 'Tag added', valueLabel: 'Tag (any when empty)' },
+  { value: 'status.changed', label: 'Status changed', valueLabel: 'New status (any when empty)' },
+  { value: 'field.changed', label: 'Form field changed', valueLabel: 'Field ID' }
+];
+
+const CONDITION_TYPES: Array<{ value: TicketRuleConditionType; label: string; operators: TicketRuleOperator[] }> = [
+  { value: 'category', label: 'Category', operators: ['equals', 'not_equals'] },
+  { value: 'tag', label: 'Tags', operators: ['contains', 'not_contains'] },
+  { value: 'field', label: 'Form field', operators: ['equals', 'not_equals', 'contains', 'not_contains', 'empty', 'not_empty'] },
+  { value: 'reply_author', label: 'Reply author', operators: ['equals'] },
+  { value: 'reporter_tickets', label: "Reporter's other tickets", operators: ['at_least', 'at_most'] },
+  { value: 'reporter_punishments', label: "Reporter's punishments", operators: ['at_least', 'at_most'] }
+];
+
+const OPERATOR_LABELS: Record<TicketRuleOperator, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  contains: 'contains',
+  not_contains: "doesn't contain",
+  empty: 'is empty',
+  not_empty: 'is not empty',
+  at_least: 'at least',
+  at_most: 'at most'
+};
+
+const ACTION_TYPES: Array<{ value: TicketRuleActionType; label: string }> = [
+  { value: 'assign', label: 'Assign to' },
+  { value: 'tag', label: 'Add tag' },
+  { value: 'set_priority', label: 'Set priority' },
+  { value: 'quick_response', label: 'Post quick response' },
+  { value: 'ai_analysis', label: 'Run AI analysis' },
+  { value: 'set_status', label: 'Set status' },
+  { value: 'close', label: 'Close' }
+];
+
+const PRIORITIES = ['low', 'medium', 'high'];
+
+const emptyRule = (): TicketRule => ({
+  id: '',
+  name: 'New rule',
+  enabled: true,
+  trigger: 'ticket.created',
+  triggerValue: null,
+  conditions: [],
+  actions: [{ type: 'tag', value: null, categoryId: null }]
+});
+
+const formatDate = (date: string) => format(new Date(date), 'MMM d, yyyy HH:mm:ss');
+
+const TicketRuleSettings: React.FC<TicketRuleSettingsProps> = ({ quickResponses }) => {
+  const [categories, setCategories] = useState<TicketCategory[]>([]);
+  const [rules, setRules] = useState<TicketRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [executionsRuleId, setExecutionsRuleId] = useState<string | null>(null);
+  const [executions, setExecutions] = useState<TicketRuleExecution[]>([]);
+  const [isLoadingExecutions, setIsLoadingExecutions] = useState(false);
+  const { toast } = useToast();
+  const { hasPermission } = usePermissions();
+  const { data: staff } = useStaff();
+
+  const canModify = hasPermission('admin.settings.modify');
+  const staffUsernames: string[] = Array.isArray(staff) ? staff.map((member: any) => member.username) : [];
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      const [categoriesResponse, rulesResponse] = await Promise.all([
+        fetch('/api/panel/settings/ticket-categories'),
+        fetch('/api/panel/settings/ticket-rules')
+      ]);
+      if (categoriesResponse.ok && rulesResponse.ok) {
+        const categoriesData = await categoriesResponse.json();
+        const rulesData = await rulesResponse.json();
+        setCategories(categoriesData.data?.categories || []);
+        setRules(rulesData.data?.rules || []);
+      } else {
+        console.error('Failed to load ticket rules:', rulesResponse.status, rulesResponse.statusText);
+      }
+    } catch (error) {
+      console.error('Error loading ticket rules:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadExecutions = async (ruleId: string) => {
+    setIsLoadingExecutions(true);
+    try {
+      const response = await fetch(`/api/panel/settings/ticket-rules/${ruleId}/executions`);
+      if (response.ok) {
+        const data = await response.json();
+        setExecutions(data.data?.executions || []);
+      } else {
+        console.error('Failed to load ticket rule executions:', response.status, response.statusText);
+      }
+    } catch (error) {
+      console.error('Error loading ticket rule executions:', error);
+    } finally {
+      setIsLoadingExecutions(false);
+    }
+  };
+
+  const toggleExecutions = (ruleId: string) => {
+    if (executionsRuleId === ruleId) {
+      setExecutionsRuleId(null);
+      return;
+    }
+    setExecutionsRuleId(ruleId);
+    setExecutions([]);
+    loadExecutions(ruleId);
+  };
+
+  const updateRule = (index: number, changes: Partial<TicketRule>) => {
+    setRules(prev => prev.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const updateCondition = (ruleIndex: number, conditionIndex: number, changes: Partial<TicketRuleCondition>) => {
+    const rule = rules[ruleIndex];
+    updateRule(ruleIndex, {
+      conditions: rule.conditions.map((condition, i) => (i === conditionIndex ? { ...condition, ...changes } : condition))
+    });
+  };
+
+  const updateAction = (ruleIndex: number, actionIndex: number, changes: Partial<TicketRuleAction>) => {
+    const rule = rules[ruleIndex];
+    updateRule(ruleIndex, {
+      actions: rule.actions.map((action, i) => (i === actionIndex ? { ...action, ...changes } : action))
+    });
+  };
+
+  const saveRules = async () => {
+    setIsSaving(true);
+    try {
+      const { csrfFetch } = await import('@/utils/csrf');
+      const response = await csrfFetch('/api/panel/settings/ticket-rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save ticket rules');
+      }
+
+      setRules(data.data.rules);
+      toast({
+        title: "Settings Saved",
+        description: "Ticket rules have been updated.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save ticket rules. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderConditionValue = (ruleIndex: number, conditionIndex: number, condition: TicketRuleCondition) => {
+    if (condition.operator === 'empty' || condition.operator === 'not_empty') {
+      return null;
+    }
+    if (condition.type === 'category' || condition.type === 'reply_author') {
+      const options = condition.type === 'category'
+        ? categories.map(category => ({ value: category.id, label: category.name }))
+        : [{ value: 'staff', label: 'Staff' }, { value: 'player', label: 'Player' }];
+      return (
+        <Select value={condition.value || ''} disabled={!canModify} onValueChange={(value) => updateCondition(ruleIndex, conditionIndex, { value })}>
+          <SelectTrigger className="h-8 w-44 text-xs">
+            <SelectValue placeholder="Select..." />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    return (
+      <Input
+        className="h-8 w-44 text-xs"
+        type={condition.type === 'reporter_tickets' || condition.type === 'reporter_punishments' ? 'number' : 'text'}
+        min={0}
+        value={condition.value || ''}
+        disabled={!canModify}
+        onChange={(e) => updateCondition(ruleIndex, conditionIndex, { value: e.target.value })}
+        placeholder="Value"
+      />
+    );
+  };
+
+  const renderActionValue = (ruleIndex: number, actionIndex: number, action: TicketRuleAction) => {
+    switch (action.type) {
+      case 'assign':
+      case 'set_priority':
+      case 'set_status': {
+        const options: readonly string[] = action.type === 'assign' ? staffUsernames : action.type === 'set_status' ? TICKET_STATUSES : PRIORITIES;
+        return (
+          <Select value={action.value || ''} disabled={!canModify} onValueChange={(value) => updateAction(ruleIndex, actionIndex, { value })}>
+            <SelectTrigger className="h-8 w-44 text-xs">
+              <SelectValue placeholder="Select..." />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+      case 'quick_response':
+        return (
+          <Select
+            value={action.categoryId && action.value ? `${action.categoryId}/${action.value}` : ''}
+            disabled={!canModify}
+            onValueChange={(value) => {
+              const [categoryId, actionId] = value.split('/');
+              updateAction(ruleIndex, actionIndex, { categoryId, value: actionId });
+            }}
+          >
+            <SelectTrigger className="h-8 w-60 text-xs">
+              <SelectValue placeholder="Select..." />
+            </SelectTrigger>
+            <SelectContent>
+              {quickResponses.categories.flatMap(category => category.actions.map(response => (
+                <SelectItem key={`${category.id}/${response.id}`} value={`${category.id}/${response.id}`}>
+                  {category.name}: {response.name}
+                </SelectItem>
+              )))}
+            </SelectContent>
+          </Select>
+        );
+      case 'tag':
+        return (
+          <Input
+            className="h-8 w-44 text-xs"
+            value={action.value || ''}
+            disabled={!canModify}
+            onChange={(e) => updateAction(ruleIndex, actionIndex, { value: e.target.value })}
+            placeholder="Tag"
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  const renderExecutions = () => (
+    <div className="space-y-2">
+      {isLoadingExecutions ? (
+        <p className="text-xs text-muted-foreground">Loading executions...</p>
+      ) : executions.length === 0 ? (
+        <p className="text-xs text-muted-foreground">This rule hasn't run yet</p>
+      ) : (
+        executions.map((execution, index) => (
+          <div key={index} className="p-2 rounded border bg-background text-xs space-y-1">
+            <div className="flex items-center gap-2">
+              <code>{execution.ticketId}</code>
+              <span className="text-muted-foreground">{execution.trigger}</span>
+              <span className="ml-auto text-muted-foreground">{formatDate(execution.createdAt)}</span>
+            </div>
+            {execution.actions.map((result, resultIndex) => (
+              <div key={resultIndex} className="flex items-center gap-2">
+                <Badge
+                  variant={result.status === 'applied' ? 'secondary' : result.status === 'failed' ? 'destructive' : 'outline'}
+                  className="text-xs"
+                >
+                  {result.status}
+                </Badge>
+                <span>{ACTION_TYPES.find(type => type.value === result.type)?.label}{result.value ? ` ${result.value}` : ''}</span>
+                {result.message && <span className="text-muted-foreground">{result.message}</span>}
+              </div>
+            ))}
+          </div>
+        ))
+      )}
+    </div>
+  );
+
+  const renderRule = (rule: TicketRule, ruleIndex: number) => {
+    const trigger = TRIGGERS.find(candidate => candidate.value === rule.trigger);
+
+    return (
+      <div key={rule.id || `new-${ruleIndex}`} className="p-4 bg-muted/50 rounded-lg space-y-3">
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={rule.enabled}
+            disabled={!canModify}
+            onCheckedChange={(checked) => updateRule(ruleIndex, { enabled: checked })}
+          />
+          <Input
+            className="h-8 max-w-xs"
+            value={rule.name}
+            disabled={!canModify}
+            onChange={(e) => updateRule(ruleIndex, { name: e.target.value })}
+          />
+          <div className="ml-auto flex items-center gap-1">
+            {rule.id && (
+              <Button variant="ghost" size="sm" onClick={() => toggleExecutions(rule.id)} title="Execution log">
+                <History className="h-4 w-4" />
+              </Button>
+            )}
+            {canModify && (
+              <Button variant="ghost" size="sm" onClick={() => setRules(prev => prev.filter((_, i) => i !== ruleIndex))} title="Delete">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 flex-wrap">
+          <Label className="text-xs w-20">When</Label>
+          <Select
+            value={rule.trigger}
+            disabled={!canModify}
+            onValueChange={(value) => updateRule(ruleIndex, { trigger: value as TicketRuleTrigger, triggerValue: null })}
+          >
+            <SelectTrigger className="h-8 w-48 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRIGGERS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {trigger?.valueLabel && (
+            <Input
+              className="h-8 w-56 text-xs"
+              value={rule.triggerValue || ''}
+              disabled={!canModify}
+              onChange={(e) => updateRule(ruleIndex, { triggerValue: e.target.value || null })}
+              placeholder={trigger.valueLabel}
+            />
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs">Only if</Label>
+          {rule.conditions.length === 0 && (
+            <p className="text-xs text-muted-foreground">Every ticket</p>
+          )}
+          {rule.conditions.map((condition, conditionIndex) => {
+            const conditionType = CONDITION_TYPES.find(type => type.value === condition.type)!;
+            return (
+              <div key={conditionIndex} className="flex items-center gap-2 flex-wrap">
+                <Select
+                  value={condition.type}
+                  disabled={!canModify}
+                  onValueChange={(value) => {
+                    const type = CONDITION_TYPES.find(candidate => candidate.value === value)!;
+                    updateCondition(ruleIndex, conditionIndex, { type: type.value, operator: type.operators[0], key: null, value: null });
+                  }}
+                >
+                  <SelectTrigger className="h-8 w-48 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONDITION_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {condition.type === 'field' && (
+                  <Input
+                    className="h-8 w-36 text-xs"
+                    value={condition.key || ''}
+                    disabled={!canModify}
+                    onChange={(e) => updateCondition(ruleIndex, conditionIndex, { key: e.target.value })}
+                    placeholder="Field ID"
+                  />
+                )}
+                <Select
+                  value={condition.operator}
+                  disabled={!canModify}
+                  onValueChange={(value) => updateCondition(ruleIndex, conditionIndex, { operator: value as TicketRuleOperator })}
+                >
+                  <SelectTrigger className="h-8 w-36 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {conditionType.operators.map(operator => (
+                      <SelectItem key={operator} value={operator}>{OPERATOR_LABELS[operator]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {renderConditionValue(ruleIndex, conditionIndex, condition)}
+                {canModify && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateRule(ruleIndex, { conditions: rule.conditions.filter((_, i) => i !== conditionIndex) })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+          {canModify && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateRule(ruleIndex, { conditions: [...rule.conditions, { type: 'category', operator: 'equals', key: null, value: null }] })}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Condition
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs">Then</Label>
+          {rule.actions.map((action, actionIndex) => (
+            <div key={actionIndex} className="flex items-center gap-2 flex-wrap">
+              <Select
+                value={action.type}
+                disabled={!canModify}
+                onValueChange={(value) => updateAction(ruleIndex, actionIndex, { type: value as TicketRuleActionType, value: null, categoryId: null })}
+              >
+                <SelectTrigger className="h-8 w-48 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACTION_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {renderActionValue(ruleIndex, actionIndex, action)}
+              {canModify && rule.actions.length > 1 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateRule(ruleIndex, { actions: rule.actions.filter((_, i) => i !== actionIndex) })}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+          {canModify && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateRule(ruleIndex, { actions: [...rule.actions, { type: 'tag', value: null, categoryId: null }] })}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Action
+            </Button>
+          )}
+        </div>
+
+        {rule.id && executionsRuleId === rule.id && renderExecutions()}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium mb-1">Ticket Rules</h3>
+        <p className="text-sm text-muted-foreground">
+          Act on tickets automatically when they are created, replied to, tagged or change. Rules run in
+          order and every condition of a rule has to match. Changes made by a rule don't trigger other rules.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading ticket rules...</p>
+      ) : (
+        <div className="space-y-2">
+          {rules.length === 0 && (
+            <p className="text-sm text-muted-foreground">No rules configured</p>
+          )}
+          {rules.map(renderRule)}
+        </div>
+      )}
+
+      {canModify && !isLoading && (
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setRules(prev => [...prev, emptyRule()])}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+          <Button onClick={saveRules} disabled={isSaving}>
+            {isSaving ? (
+              <>
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                Saving...
+              </>
+            ) : 'Save Rules'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TicketRuleSettings;
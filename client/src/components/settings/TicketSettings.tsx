@@ -15,6 +15,14 @@ import { Card, CardContent, CardHeader, CardTitle } from 'modl-shared-web/compon
 import { Separator } from 'modl-shared-web/components/ui/separator';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from 'modl-shared-web/components/ui/dialog';
 import { QuickResponseAction, QuickResponseCategory, QuickResponsesConfiguration, defaultQuickResponsesConfig } from '@/types/quickResponses';
+import { csrfFetch } from '@/utils/csrf';
+
+const DEFAULT_LLM_SETTINGS = {
+  provider: 'gemini',
+  model: 'gemini-2.5-flash-lite-preview-06-17',
+  temperature: 0.1,
+  maxOutputTokens: 1024
+};
 
 // Import the types we need for the form builder
 interface TicketFormField {
@@ -111,6 +119,40 @@ const TicketSettings = ({
   const [isTagManagementExpanded, setIsTagManagementExpanded] = useState(false);
   const [isTicketFormsExpanded, setIsTicketFormsExpanded] = useState(false);
   const [isAIModerationExpanded, setIsAIModerationExpanded] = useState(false);
+  const [llmTestResult, setLlmTestResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [isTestingLlm, setIsTestingLlm] = useState(false);
+
+  const llmSettings = { ...DEFAULT_LLM_SETTINGS, ...(aiModerationSettings.llm || {}) };
+
+  const updateLlmSettings = (changes: Record<string, any>) => {
+    setLlmTestResult(null);
+    setAiModerationSettings((prev: any) => ({
+      ...prev,
+      llm: { ...DEFAULT_LLM_SETTINGS, ...(prev.llm || {}), ...changes }
+    }));
+  };
+
+  const testLlmConnection = async () => {
+    setIsTestingLlm(true);
+    setLlmTestResult(null);
+    try {
+      const response = await csrfFetch('/api/panel/settings/ai-moderation-settings/test-connection', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ llm: llmSettings })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setLlmTestResult({ success: true, message: `Connected to ${data.provider} (${data.model})` });
+      } else {
+        setLlmTestResult({ success: false, message: data.error || 'The provider did not respond as expected' });
+      }
+    } catch (error) {
+      setLlmTestResult({ success: false, message: 'Failed to test the provider connection' });
+    } finally {
+      setIsTestingLlm(false);
+    }
+  };
 
   // Quick Response editing states
   const [editingAction, setEditingAction] = useState<QuickResponseAction | null>(null);
@@ -965,6 +1007,109 @@ const TicketSettings = ({
                     </p>
                   </div>
 
+                  {/* AI Provider */}
+                  <div className="space-y-3">
+                    <Label className="text-sm font-medium">AI Provider</Label>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1">
+                        <Label htmlFor="llm-provider" className="text-xs">Provider</Label>
+                        <Select
+                          value={llmSettings.provider}
+                          onValueChange={(value) => updateLlmSettings({
+                            provider: value,
+                            model: value === 'gemini' ? DEFAULT_LLM_SETTINGS.model : ''
+                          })}
+                        >
+                          <SelectTrigger id="llm-provider" className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="gemini">Google Gemini</SelectItem>
+                            <SelectItem value="openai-compatible">OpenAI-compatible (Ollama, vLLM, ...)</SelectItem>
+                            <SelectItem value="mock">Mock (testing only)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="llm-model" className="text-xs">Model</Label>
+                        <Input
+                          id="llm-model"
+                          value={llmSettings.model}
+                          placeholder={llmSettings.provider === 'openai-compatible' ? 'llama3.1:8b' : ''}
+                          onChange={(e) => updateLlmSettings({ model: e.target.value })}
+                        />
+                      </div>
+                      {llmSettings.provider === 'openai-compatible' && (
+                        <>
+                          <div className="space-y-1">
+                            <Label htmlFor="llm-base-url" className="text-xs">Base URL</Label>
+                            <Input
+                              id="llm-base-url"
+                              value={llmSettings.baseUrl || ''}
+                              placeholder="https://llm.example.com/v1"
+                              onChange={(e) => updateLlmSettings({ baseUrl: e.target.value })}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label htmlFor="llm-api-key" className="text-xs">API Key (optional)</Label>
+                            <div className="flex gap-2">
+                              <Input
+                                id="llm-api-key"
+                                type="password"
+                                value={llmSettings.apiKey || ''}
+                                placeholder={llmSettings.hasApiKey ? 'Saved, leave blank to keep it' : ''}
+                                onChange={(e) => updateLlmSettings({ apiKey: e.target.value, clearApiKey: false })}
+                              />
+                              {llmSettings.hasApiKey && !llmSettings.apiKey && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => updateLlmSettings({ apiKey: '', hasApiKey: false, clearApiKey: true })}
+                                >
+                                  Remove
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        </>
+                      )}
+                      <div className="space-y-1">
+                        <Label htmlFor="llm-temperature" className="text-xs">Temperature ({llmSettings.temperature})</Label>
+                        <Slider
+                          id="llm-temperature"
+                          value={[llmSettings.temperature]}
+                          min={0}
+                          max={1}
+                          step={0.05}
+                          onValueChange={(values) => updateLlmSettings({ temperature: values[0] })}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="llm-max-tokens" className="text-xs">Max Output Tokens</Label>
+                        <Input
+                          id="llm-max-tokens"
+                          type="number"
+                          min={64}
+                          value={llmSettings.maxOutputTokens}
+                          onChange={(e) => updateLlmSettings({ maxOutputTokens: parseInt(e.target.value) || DEFAULT_LLM_SETTINGS.maxOutputTokens })}
+                        />
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Button variant="outline" size="sm" onClick={testLlmConnection} disabled={isTestingLlm}>
+                        {isTestingLlm ? 'Testing...' : 'Test Connection'}
+                      </Button>
+                      {llmTestResult && (
+                        <span className={`text-xs ${llmTestResult.success ? 'text-success' : 'text-destructive'}`}>
+                          {llmTestResult.message}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Every provider must answer with the same JSON structure; responses that do not match are rejected.
+                    </p>
+                  </div>
+
                   {/* AI Punishment Types Management Section */}
                   <div className="space-y-4">
                     <div className="flex items-center justify-between">
@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { Button } from 'modl-shared-web/components/ui/button';
+import { Input } from 'modl-shared-web/components/ui/input';
+import { Label } from 'modl-shared-web/components/ui/label';
+import { Switch } from 'modl-shared-web/components/ui/switch';
+import { useToast } from 'modl-shared-web/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+
+interface TicketSlaPolicy {
+  categoryId: string;
+  firstResponseHours: number | null;
+  resolutionHours: number | null;
+  escalation: {
+    raisePriority: boolean;
+    reassign: boolean;
+    notifySubscribers: boolean;
+  };
+}
+
+interface WaitingOnPlayerSettings {
+  reminderAfterDays: number | null;
+  autoCloseAfterDays: number | null;
+}
+
+interface TicketCategory {
+  id: string;
+  name: string;
+}
+
+const emptyPolicy = (categoryId: string): TicketSlaPolicy => ({
+  categoryId,
+  firstResponseHours: null,
+  resolutionHours: null,
+  escalation: { raisePriority: false, reassign: false, notifySubscribers: false }
+});
+
+// Empty inputs mean no target
+const toNumberOrNull = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+const ESCALATION_OPTIONS: Array<{ key: keyof TicketSlaPolicy['escalation']; label: string }> = [
+  { key: 'raisePriority', label: 'Raise priority' },
+  { key: 'reassign', label: 'Reassign' },
+  { key: 'notifySubscribers', label: 'Notify subscribers' }
+];
+
+const TicketSlaSettings: React.FC = () => {
+  const [categories, setCategories] = useState<TicketCategory[]>([]);
+  const [policies, setPolicies] = useState<TicketSlaPolicy[]>([]);
+  const [waitingOnPlayer, setWaitingOnPlayer] = useState<WaitingOnPlayerSettings>({ reminderAfterDays: null, autoCloseAfterDays: null });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const { hasPermission } = usePermissions();
+
+  const canModify = hasPermission('admin.settings.modify');
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const [categoriesResponse, slaResponse] = await Promise.all([
+        fetch('/api/panel/settings/ticket-categories'),
+        fetch('/api/panel/settings/ticket-sla')
+      ]);
+      if (categoriesResponse.ok && slaResponse.ok) {
+        const categoriesData = await categoriesResponse.json();
+        const slaData = await slaResponse.json();
+        setCategories(categoriesData.data?.categories || []);
+        setPolicies(slaData.data?.policies || []);
+        setWaitingOnPlayer(slaData.data?.waitingOnPlayer || { reminderAfterDays: null, autoCloseAfterDays: null });
+      } else {
+        console.error('Failed to load ticket SLA settings:', slaResponse.status, slaResponse.statusText);
+      }
+    } catch (error) {
+      console.error('Error loading ticket SLA settings:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getPolicy = (categoryId: string): TicketSlaPolicy => {
+    return policies.find(policy => policy.categoryId === categoryId) || emptyPolicy(categoryId);
+  };
+
+  const updatePolicy = (categoryId: string, changes: Partial<TicketSlaPolicy>) => {
+    setPolicies(prev => [
+      ...prev.filter(policy => policy.categoryId !== categoryId),
+      { ...getPolicy(categoryId), ...changes }
+    ]);
+  };
+
+  const saveSettings = async () => {
+    setIsSaving(true);
+    try {
+      const { csrfFetch } = await import('@/utils/csrf');
+      // Policies of removed categories would be rejected
+      const body = {
+        policies: policies.filter(policy => categories.some(category => category.id === policy.categoryId)),
+        waitingOnPlayer
+      };
+      const response = await csrfFetch('/api/panel/settings/ticket-sla', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save ticket SLAs');
+      }
+
+      setPolicies(data.data.policies);
+      setWaitingOnPlayer(data.data.waitingOnPlayer);
+      toast({
+        title: "Settings Saved",
+        description: "Ticket SLAs have been updated.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save ticket SLAs. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderPolicy = (category: TicketCategory) => {
+    const policy = getPolicy(category.id);
+    const hasTarget = !!policy.firstResponseHours || !!policy.resolutionHours;
+
+    return (
+      <div key={category.id} className="p-4 bg-muted/50 rounded-lg space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <Label className="text-sm font-medium md:pb-3">{category.name}</Label>
+          <div className="space-y-2">
+            <Label className="text-xs">First Response (hours)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={policy.firstResponseHours ?? ''}
+              disabled={!canModify}
+              onChange={(e) => updatePolicy(category.id, { firstResponseHours: toNumberOrNull(e.target.value) })}
+              placeholder="No target"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-xs">Resolution (hours)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={policy.resolutionHours ?? ''}
+              disabled={!canModify}
+              onChange={(e) => updatePolicy(category.id, { resolutionHours: toNumberOrNull(e.target.value) })}
+              placeholder="No target"
+            />
+          </div>
+        </div>
+
+        {hasTarget && (
+          <div className="flex items-center gap-6 flex-wrap">
+            <span className="text-xs text-muted-foreground">When a target is missed:</span>
+            {ESCALATION_OPTIONS.map(option => (
+              <div key={option.key} className="flex items-center gap-2">
+                <Switch
+                  checked={policy.escalation[option.key]}
+                  disabled={!canModify}
+                  onCheckedChange={(checked) => updatePolicy(category.id, { escalation: { ...policy.escalation, [option.key]: checked } })}
+                />
+                <Label className="text-sm">{option.label}</Label>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium mb-1">Ticket SLAs</h3>
+        <p className="text-sm text-muted-foreground">
+          How quickly tickets in each category should get a first staff reply and be resolved. Tickets are
+          flagged as at risk when most of the time has passed, and escalated once when a target is missed.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading ticket SLAs...</p>
+      ) : (
+        <>
+          <div className="space-y-2">
+            {categories.map(renderPolicy)}
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Waiting on the Player</h4>
+            <p className="text-xs text-muted-foreground">
+              Tickets where staff replied last. Leave empty to never remind players or close their tickets.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-xs">Remind the player after (days)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={waitingOnPlayer.reminderAfterDays ?? ''}
+                  disabled={!canModify}
+                  onChange={(e) => setWaitingOnPlayer(prev => ({ ...prev, reminderAfterDays: toNumberOrNull(e.target.value) }))}
+                  placeholder="Never"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-xs">Close the ticket after (days)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={waitingOnPlayer.autoCloseAfterDays ?? ''}
+                  disabled={!canModify}
+                  onChange={(e) => setWaitingOnPlayer(prev => ({ ...prev, autoCloseAfterDays: toNumberOrNull(e.target.value) }))}
+                  placeholder="Never"
+                />
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+
+      {canModify && !isLoading && (
+        <Button onClick={saveSettings} disabled={isSaving}>
+          {isSaving ? (
+            <>
+              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : 'Save SLAs'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default TicketSlaSettings;
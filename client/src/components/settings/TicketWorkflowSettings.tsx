@@ -0,0 +1,163 @@
+import React, { useState, useEffect } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { Button } from 'modl-shared-web/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from 'modl-shared-web/components/ui/select';
+import { useToast } from 'modl-shared-web/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { TICKET_STATUSES, TicketStatus } from '@/utils/ticket-status';
+
+type TransitionPermission = 'ticket.reply.all' | 'ticket.close.all';
+
+interface TicketStatusTransition {
+  from: TicketStatus;
+  to: TicketStatus;
+  permission: TransitionPermission;
+}
+
+const PERMISSION_OPTIONS: Array<{ value: TransitionPermission | 'none'; label: string }> = [
+  { value: 'none', label: 'Not allowed' },
+  { value: 'ticket.reply.all', label: 'Can reply' },
+  { value: 'ticket.close.all', label: 'Can close' }
+];
+
+const TicketWorkflowSettings: React.FC = () => {
+  const [transitions, setTransitions] = useState<TicketStatusTransition[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const { hasPermission } = usePermissions();
+
+  const canModify = hasPermission('admin.settings.modify');
+
+  useEffect(() => {
+    loadWorkflow();
+  }, []);
+
+  const loadWorkflow = async () => {
+    try {
+      const response = await fetch('/api/panel/settings/ticket-workflow');
+      if (response.ok) {
+        const data = await response.json();
+        setTransitions(data.data?.transitions || []);
+      } else {
+        console.error('Failed to load ticket workflow:', response.status, response.statusText);
+      }
+    } catch (error) {
+      console.error('Error loading ticket workflow:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getPermission = (from: TicketStatus, to: TicketStatus): TransitionPermission | 'none' => {
+    return transitions.find(transition => transition.from === from && transition.to === to)?.permission || 'none';
+  };
+
+  const updateTransition = (from: TicketStatus, to: TicketStatus, permission: TransitionPermission | 'none') => {
+    setTransitions(prev => [
+      ...prev.filter(transition => transition.from !== from || transition.to !== to),
+      ...(permission === 'none' ? [] : [{ from, to, permission }])
+    ]);
+  };
+
+  const saveWorkflow = async () => {
+    setIsSaving(true);
+    try {
+      const { csrfFetch } = await import('@/utils/csrf');
+      const response = await csrfFetch('/api/panel/settings/ticket-workflow', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transitions }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save ticket workflow');
+      }
+
+      setTransitions(data.data.transitions);
+      toast({
+        title: "Settings Saved",
+        description: "The ticket workflow has been updated.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save ticket workflow. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium mb-1">Ticket Workflow</h3>
+        <p className="text-sm text-muted-foreground">
+          Which status changes staff can make and the permission they need for each. Replies still move tickets
+          between the waiting statuses on their own, and player replies reopen resolved tickets.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading ticket workflow...</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="text-xs">
+            <thead>
+              <tr>
+                <th className="p-2 text-left font-medium text-muted-foreground">From \ To</th>
+                {TICKET_STATUSES.map(to => (
+                  <th key={to} className="p-2 text-left font-medium">{to}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {TICKET_STATUSES.map(from => (
+                <tr key={from} className="border-t">
+                  <td className="p-2 font-medium whitespace-nowrap">{from}</td>
+                  {TICKET_STATUSES.map(to => (
+                    <td key={to} className="p-1">
+                      {from === to ? (
+                        <span className="px-2 text-muted-foreground">—</span>
+                      ) : (
+                        <Select
+                          value={getPermission(from, to)}
+                          disabled={!canModify}
+                          onValueChange={(value) => updateTransition(from, to, value as TransitionPermission | 'none')}
+                        >
+                          <SelectTrigger className="h-8 w-32 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {PERMISSION_OPTIONS.map(option => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {canModify && !isLoading && (
+        <Button onClick={saveWorkflow} disabled={isSaving}>
+          {isSaving ? (
+            <>
+              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : 'Save Workflow'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default TicketWorkflowSettings;
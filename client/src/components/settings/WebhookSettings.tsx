@@ -0,0 +1,531 @@
+import React, { useState, useEffect } from 'react';
+import { Check, Copy, RefreshCw, Trash2, Plus, Send, History, Pencil, KeyRound } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from 'modl-shared-web/components/ui/button';
+import { Input } from 'modl-shared-web/components/ui/input';
+import { Label } from 'modl-shared-web/components/ui/label';
+import { Badge } from 'modl-shared-web/components/ui/badge';
+import { Checkbox } from 'modl-shared-web/components/ui/checkbox';
+import { Switch } from 'modl-shared-web/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from 'modl-shared-web/components/ui/select';
+import { useToast } from 'modl-shared-web/hooks/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+
+type WebhookFormat = 'json' | 'discord';
+
+interface WebhookInfo {
+  id: string;
+  name: string;
+  url: string;
+  events: string[];
+  format: WebhookFormat;
+  enabled: boolean;
+  createdBy: string;
+  createdAt: string;
+}
+
+interface WebhookDelivery {
+  id: string;
+  event: string;
+  status: 'pending' | 'success' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  payload: Record<string, any>;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  createdAt: string;
+}
+
+interface WebhookForm {
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  events: string[];
+}
+
+const EVENT_DESCRIPTIONS: Record<string, string> = {
+  'punishment.issued': 'A punishment is issued',
+  'punishment.modified': 'A punishment is modified',
+  'punishment.pardoned': 'A punishment is pardoned',
+  'ticket.created': 'A ticket is created',
+  'ticket.replied': 'A ticket receives a reply',
+  'ticket.closed': 'A ticket is closed',
+  'ticket.escalated': 'A ticket misses its SLA',
+  'appeal.decided': 'An appeal is decided',
+  'staff.role_changed': "A staff member's role changes"
+};
+
+const EMPTY_FORM: WebhookForm = { name: '', url: '', format: 'json', events: [] };
+
+const formatDate = (date: string | null) => (date ? format(new Date(date), 'MMM d, yyyy HH:mm:ss') : '-');
+
+const WebhookSettings: React.FC = () => {
+  const [webhooks, setWebhooks] = useState<WebhookInfo[]>([]);
+  const [availableEvents, setAvailableEvents] = useState<string[]>(Object.keys(EVENT_DESCRIPTIONS));
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [form, setForm] = useState<WebhookForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyWebhookId, setBusyWebhookId] = useState<string | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [deliveriesWebhookId, setDeliveriesWebhookId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoadingDeliveries, setIsLoadingDeliveries] = useState(false);
+  const [expandedDeliveryId, setExpandedDeliveryId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { hasPermission } = usePermissions();
+
+  const canModify = hasPermission('admin.settings.modify');
+
+  useEffect(() => {
+    loadWebhooks();
+  }, []);
+
+  const loadWebhooks = async () => {
+    try {
+      const response = await fetch('/api/panel/webhooks');
+      if (response.ok) {
+        const data = await response.json();
+        setWebhooks(data.webhooks || []);
+        if (data.availableEvents) {
+          setAvailableEvents(data.availableEvents);
+        }
+      } else {
+        console.error('Failed to load webhooks:', response.status, response.statusText);
+      }
+    } catch (error) {
+      console.error('Error loading webhooks:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadDeliveries = async (webhookId: string) => {
+    setIsLoadingDeliveries(true);
+    try {
+      const response = await fetch(`/api/panel/webhooks/${webhookId}/deliveries`);
+      if (response.ok) {
+        const data = await response.json();
+        setDeliveries(data.deliveries || []);
+      } else {
+        console.error('Failed to load webhook deliveries:', response.status, response.statusText);
+      }
+    } catch (error) {
+      console.error('Error loading webhook deliveries:', error);
+    } finally {
+      setIsLoadingDeliveries(false);
+    }
+  };
+
+  const toggleDeliveries = (webhookId: string) => {
+    if (deliveriesWebhookId === webhookId) {
+      setDeliveriesWebhookId(null);
+      return;
+    }
+    setDeliveriesWebhookId(webhookId);
+    setDeliveries([]);
+    setExpandedDeliveryId(null);
+    loadDeliveries(webhookId);
+  };
+
+  const startCreate = () => {
+    setForm(EMPTY_FORM);
+    setEditingId('new');
+  };
+
+  const startEdit = (webhook: WebhookInfo) => {
+    setForm({ name: webhook.name, url: webhook.url, format: webhook.format, events: webhook.events });
+    setEditingId(webhook.id);
+  };
+
+  const toggleFormEvent = (event: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      events: checked ? [...prev.events, event] : prev.events.filter(e => e !== event)
+    }));
+  };
+
+  const requestJson = async (url: string, method: string, body?: any) => {
+    const { csrfFetch } = await import('@/utils/csrf');
+    const response = await csrfFetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || data.message || 'Request failed');
+    }
+    return data;
+  };
+
+  const saveWebhook = async () => {
+    if (!form.name.trim() || !form.url.trim() || form.events.length === 0) {
+      toast({
+        title: "Error",
+        description: "Please enter a name and URL and select at least one event",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingId === 'new') {
+        const data = await requestJson('/api/panel/webhooks', 'POST', form);
+        setWebhooks(prev => [data.webhook, ...prev]);
+        setRevealedSecret({ name: data.webhook.name, secret: data.secret });
+        setCopied(false);
+        toast({
+          title: "Webhook Created",
+          description: "Copy the signing secret now, it won't be shown again.",
+        });
+      } else if (editingId) {
+        const data = await requestJson(`/api/panel/webhooks/${editingId}`, 'PUT', form);
+        setWebhooks(prev => prev.map(webhook => (webhook.id === editingId ? data.webhook : webhook)));
+        toast({
+          title: "Webhook Updated",
+          description: `"${data.webhook.name}" has been updated.`,
+        });
+      }
+      setEditingId(null);
+    } catch (error) {
+      console.error('Error saving webhook:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save webhook. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setWebhookEnabled = async (webhook: WebhookInfo, enabled: boolean) => {
+    setBusyWebhookId(webhook.id);
+    try {
+      const data = await requestJson(`/api/panel/webhooks/${webhook.id}`, 'PUT', { enabled });
+      setWebhooks(prev => prev.map(w => (w.id === webhook.id ? data.webhook : w)));
+    } catch (error) {
+      console.error('Error updating webhook:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update webhook. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyWebhookId(null);
+    }
+  };
+
+  const sendTestEvent = async (webhook: WebhookInfo) => {
+    setBusyWebhookId(webhook.id);
+    try {
+      const data = await requestJson(`/api/panel/webhooks/${webhook.id}/test`, 'POST');
+      const delivery: WebhookDelivery = data.delivery;
+      toast({
+        title: delivery.status === 'success' ? "Test Event Delivered" : "Test Event Failed",
+        description: delivery.status === 'success'
+          ? `The receiver responded with HTTP ${delivery.responseStatus}.`
+          : delivery.error || 'The receiver did not accept the event.',
+        variant: delivery.status === 'success' ? undefined : "destructive",
+      });
+      if (deliveriesWebhookId === webhook.id) {
+        loadDeliveries(webhook.id);
+      }
+    } catch (error) {
+      console.error('Error sending test event:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send test event. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyWebhookId(null);
+    }
+  };
+
+  const rotateSecret = async (webhook: WebhookInfo) => {
+    if (!confirm(`Generate a new signing secret for "${webhook.name}"? The receiver must be updated to verify new deliveries.`)) {
+      return;
+    }
+
+    setBusyWebhookId(webhook.id);
+    try {
+      const data = await requestJson(`/api/panel/webhooks/${webhook.id}/rotate-secret`, 'POST');
+      setRevealedSecret({ name: webhook.name, secret: data.secret });
+      setCopied(false);
+    } catch (error) {
+      console.error('Error rotating webhook secret:', error);
+      toast({
+        title: "Error",
+        description: "Failed to rotate the signing secret. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyWebhookId(null);
+    }
+  };
+
+  const deleteWebhook = async (webhook: WebhookInfo) => {
+    if (!confirm(`Are you sure you want to delete "${webhook.name}"? Its delivery log will be deleted as well.`)) {
+      return;
+    }
+
+    setBusyWebhookId(webhook.id);
+    try {
+      await requestJson(`/api/panel/webhooks/${webhook.id}`, 'DELETE');
+      setWebhooks(prev => prev.filter(w => w.id !== webhook.id));
+      if (deliveriesWebhookId === webhook.id) {
+        setDeliveriesWebhookId(null);
+      }
+      toast({
+        title: "Webhook Deleted",
+        description: `"${webhook.name}" has been deleted.`,
+      });
+    } catch (error) {
+      console.error('Error deleting webhook:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete webhook. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyWebhookId(null);
+    }
+  };
+
+  const copySecret = () => {
+    if (!revealedSecret) return;
+    navigator.clipboard.writeText(revealedSecret.secret);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+    toast({
+      title: "Copied",
+      description: "Signing secret copied to clipboard",
+    });
+  };
+
+  const renderForm = () => (
+    <div className="p-4 rounded-lg border space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="webhook-name">Name</Label>
+          <Input
+            id="webhook-name"
+            value={form.name}
+            onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g. Discord #mod-log"
+            maxLength={64}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Format</Label>
+          <Select value={form.format} onValueChange={(value) => setForm(prev => ({ ...prev, format: value as WebhookFormat }))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="json">JSON</SelectItem>
+              <SelectItem value="discord">Discord embed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="webhook-url">URL</Label>
+        <Input
+          id="webhook-url"
+          value={form.url}
+          onChange={(e) => setForm(prev => ({ ...prev, url: e.target.value }))}
+          placeholder={form.format === 'discord' ? 'https://discord.com/api/webhooks/...' : 'https://example.com/modl-webhook'}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Events</Label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {availableEvents.map(event => (
+            <div key={event} className="flex items-start gap-2">
+              <Checkbox
+                id={`webhook-event-${event}`}
+                checked={form.events.includes(event)}
+                onCheckedChange={(checked) => toggleFormEvent(event, checked === true)}
+              />
+              <label htmlFor={`webhook-event-${event}`} className="text-sm leading-tight cursor-pointer">
+                <code className="text-xs">{event}</code>
+                {EVENT_DESCRIPTIONS[event] && (
+                  <span className="block text-xs text-muted-foreground">{EVENT_DESCRIPTIONS[event]}</span>
+                )}
+              </label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={saveWebhook} disabled={isSaving}>
+          {isSaving ? (
+            <>
+              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : editingId === 'new' ? 'Create Webhook' : 'Save Changes'}
+        </Button>
+        <Button variant="outline" onClick={() => setEditingId(null)} disabled={isSaving}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderDeliveries = () => (
+    <div className="mt-3 space-y-2">
+      {isLoadingDeliveries ? (
+        <p className="text-xs text-muted-foreground">Loading deliveries...</p>
+      ) : deliveries.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No deliveries yet</p>
+      ) : (
+        deliveries.map(delivery => (
+          <div key={delivery.id} className="p-2 rounded border bg-background text-xs space-y-1">
+            <button
+              type="button"
+              className="flex items-center gap-2 w-full text-left"
+              onClick={() => setExpandedDeliveryId(expandedDeliveryId === delivery.id ? null : delivery.id)}
+            >
+              <Badge
+                variant={delivery.status === 'success' ? 'secondary' : delivery.status === 'failed' ? 'destructive' : 'outline'}
+                className="text-xs"
+              >
+                {delivery.status}
+              </Badge>
+              <code>{delivery.event}</code>
+              <span className="text-muted-foreground">
+                {delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : delivery.error || ''}
+              </span>
+              <span className="ml-auto text-muted-foreground">{formatDate(delivery.createdAt)}</span>
+            </button>
+            {expandedDeliveryId === delivery.id && (
+              <div className="space-y-1 pt-1">
+                <p className="text-muted-foreground">
+                  Attempts: {delivery.attempts} • Last attempt: {formatDate(delivery.lastAttemptAt)}
+                  {delivery.nextAttemptAt && ` • Next retry: ${formatDate(delivery.nextAttemptAt)}`}
+                </p>
+                {delivery.error && <p className="text-destructive">{delivery.error}</p>}
+                <pre className="p-2 bg-muted rounded overflow-x-auto max-h-48">{JSON.stringify(delivery.payload, null, 2)}</pre>
+              </div>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Send moderation events to Discord or your own services. Deliveries are signed with an HMAC-SHA256
+          signature in the <code>X-Modl-Signature</code> header and retried with backoff when they fail.
+        </p>
+        {canModify && editingId === null && (
+          <Button variant="outline" size="sm" onClick={startCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Webhook
+          </Button>
+        )}
+      </div>
+
+      {revealedSecret && (
+        <div className="p-3 rounded-lg border border-green-500/40 bg-green-500/10 space-y-2">
+          <p className="text-sm font-medium">
+            Signing secret for "{revealedSecret.name}". Copy it now, it will not be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-sm font-mono bg-background px-2 py-1 rounded border break-all">
+              {revealedSecret.secret}
+            </code>
+            <Button variant="outline" size="sm" onClick={copySecret}>
+              {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setRevealedSecret(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {editingId === 'new' && renderForm()}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading webhooks...</p>
+      ) : webhooks.length === 0 && editingId !== 'new' ? (
+        <div className="text-center py-6 border-2 border-dashed border-muted rounded-lg">
+          <p className="text-sm text-muted-foreground">No webhooks configured yet</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {webhooks.map(webhook => (
+            editingId === webhook.id ? (
+              <div key={webhook.id}>{renderForm()}</div>
+            ) : (
+              <div key={webhook.id} className="p-3 bg-muted/50 rounded-lg">
+                <div className="flex items-start gap-3">
+                  <div className="flex-1 space-y-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-sm font-medium">{webhook.name}</span>
+                      <Badge variant="outline" className="text-xs">
+                        {webhook.format === 'discord' ? 'Discord' : 'JSON'}
+                      </Badge>
+                      {!webhook.enabled && <Badge variant="secondary" className="text-xs">Disabled</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground font-mono truncate">{webhook.url}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {webhook.events.map(event => (
+                        <Badge key={event} variant="secondary" className="text-xs font-mono">{event}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {canModify && (
+                      <Switch
+                        checked={webhook.enabled}
+                        disabled={busyWebhookId === webhook.id}
+                        onCheckedChange={(checked) => setWebhookEnabled(webhook, checked)}
+                      />
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => toggleDeliveries(webhook.id)} title="Delivery log">
+                      <History className="h-4 w-4" />
+                    </Button>
+                    {canModify && (
+                      <>
+                        <Button variant="ghost" size="sm" onClick={() => sendTestEvent(webhook)} disabled={busyWebhookId === webhook.id} title="Send test event">
+                          {busyWebhookId === webhook.id ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => startEdit(webhook)} disabled={editingId !== null} title="Edit">
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => rotateSecret(webhook)} disabled={busyWebhookId === webhook.id} title="Rotate signing secret">
+                          <KeyRound className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => deleteWebhook(webhook)} disabled={busyWebhookId === webhook.id} title="Delete">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                {deliveriesWebhookId === webhook.id && renderDeliveries()}
+              </div>
+            )
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WebhookSettings;
@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { Link2, ChevronDown, ChevronRight, Check, X, RotateCcw, Loader2, Plus } from 'lucide-react';
+import { Button } from 'modl-shared-web/components/ui/button';
+import { Badge } from 'modl-shared-web/components/ui/badge';
+import { Input } from 'modl-shared-web/components/ui/input';
+import { ClickablePlayer } from '@/components/ui/clickable-player';
+import { useCreateAccountLink, useReviewAccountLink, useAddAccountLinkNote } from '@/hooks/use-data';
+import { toast } from '@/hooks/use-toast';
+
+type LinkStatus = 'detected' | 'confirmed' | 'rejected';
+
+export interface LinkedAccount {
+  id: string;
+  minecraftUuid: string;
+  username: string;
+  activeBans: number;
+  activeMutes: number;
+  evidence: Array<{ type: string; detail: string; weight: number; ipAddress: string | null; observedAt: string }>;
+  score: number;
+  confidence: number;
+  status: LinkStatus;
+  linked: boolean;
+  notes: Array<{ author: string; text: string; createdAt: string }>;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+}
+
+interface LinkedAccountListProps {
+  playerId: string;
+  accounts: LinkedAccount[];
+  minLinkConfidence?: number;
+  isSearching?: boolean;
+}
+
+const STATUS_BADGES: Record<LinkStatus, { label: string; className: string }> = {
+  detected: { label: 'Detected', className: 'bg-muted text-muted-foreground' },
+  confirmed: { label: 'Confirmed', className: 'bg-green-500/15 text-green-600 border-green-500/30' },
+  rejected: { label: 'Rejected', className: 'bg-destructive/15 text-destructive border-destructive/30' }
+};
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleString() : 'Unknown');
+
+function LinkedAccountItem({ playerId, account }: { playerId: string; account: LinkedAccount }) {
+  const [expanded, setExpanded] = useState(false);
+  const [noteText, setNoteText] = useState('');
+  const reviewLink = useReviewAccountLink();
+  const addNote = useAddAccountLinkNote();
+
+  const statusText = [
+    account.activeBans > 0 ? `${account.activeBans} active ban${account.activeBans > 1 ? 's' : ''}` : null,
+    account.activeMutes > 0 ? `${account.activeMutes} active mute${account.activeMutes > 1 ? 's' : ''}` : null
+  ].filter(Boolean).join(', ');
+
+  const handleReview = (status: LinkStatus) => {
+    reviewLink.mutate({ minecraftUuid: playerId, linkId: account.id, status }, {
+      onSuccess: () => {
+        toast({ title: 'Link updated', description: `Link to ${account.username} marked ${status}.` });
+      },
+      onError: (error: Error) => {
+        toast({ title: 'Failed to update link', description: error.message, variant: 'destructive' });
+      }
+    });
+  };
+
+  const handleAddNote = () => {
+    const text = noteText.trim();
+    if (!text) return;
+
+    addNote.mutate({ minecraftUuid: playerId, linkId: account.id, text }, {
+      onSuccess: () => setNoteText(''),
+      onError: (error: Error) => {
+        toast({ title: 'Failed to add note', description: error.message, variant: 'destructive' });
+      }
+    });
+  };
+
+  return (
+    <li className={`text-sm rounded border border-border/50 p-2 ${account.linked ? '' : 'opacity-60'}`}>
+      <div className="flex items-center gap-2">
+        <button
+          type="button"
+          className="text-muted-foreground hover:text-foreground"
+          onClick={() => setExpanded(!expanded)}
+          aria-label={expanded ? 'Hide link details' : 'Show link details'}
+        >
+          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </button>
+        <Link2 className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+        <ClickablePlayer playerText={account.minecraftUuid} showIcon={true} className="text-sm">
+          {account.username}
+        </ClickablePlayer>
+        {statusText && <span className="text-xs text-muted-foreground">({statusText})</span>}
+        <div className="ml-auto flex items-center gap-1">
+          <Badge variant="outline" className="text-xs">{account.confidence}% confidence</Badge>
+          <Badge variant="outline" className={`text-xs ${STATUS_BADGES[account.status].className}`}>
+            {STATUS_BADGES[account.status].label}
+          </Badge>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="mt-2 ml-6 space-y-3">
+          <div>
+            <p className="text-xs font-medium mb-1">Why these accounts are linked</p>
+            {account.evidence.length > 0 ? (
+              <ul className="space-y-1">
+                {account.evidence.map((item, idx) => (
+                  <li key={idx} className="text-xs text-muted-foreground flex justify-between gap-2">
+                    <span>{item.detail}</span>
+                    <span className="whitespace-nowrap">+{Math.round(item.weight * 100)}%</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-muted-foreground">No evidence remains for this link.</p>
+            )}
+            <p className="text-xs text-muted-foreground mt-1">Detected score: {account.score}%</p>
+            {account.reviewedBy && (
+              <p className="text-xs text-muted-foreground">
+                Reviewed by {account.reviewedBy} on {formatDate(account.reviewedAt)}
+              </p>
+            )}
+          </div>
+
+          {account.notes.length > 0 && (
+            <div>
+              <p className="text-xs font-medium mb-1">Notes</p>
+              <ul className="space-y-1">
+                {account.notes.map((note, idx) => (
+                  <li key={idx} className="text-xs">
+                    {note.text}
+                    <span className="text-muted-foreground"> ({note.author}, {formatDate(note.createdAt)})</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            {account.status !== 'confirmed' && (
+              <Button size="sm" variant="outline" className="h-7 text-xs" disabled={reviewLink.isPending} onClick={() => handleReview('confirmed')}>
+                <Check className="h-3 w-3 mr-1" /> Confirm
+              </Button>
+            )}
+            {account.status !== 'rejected' && (
+              <Button size="sm" variant="outline" className="h-7 text-xs" disabled={reviewLink.isPending} onClick={() => handleReview('rejected')}>
+                <X className="h-3 w-3 mr-1" /> Reject
+              </Button>
+            )}
+            {account.status !== 'detected' && (
+              <Button size="sm" variant="outline" className="h-7 text-xs" disabled={reviewLink.isPending} onClick={() => handleReview('detected')}>
+                <RotateCcw className="h-3 w-3 mr-1" /> Reset to detected
+              </Button>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              className="h-7 text-xs"
+              placeholder="Add a note to this link..."
+              value={noteText}
+              onChange={(e) => setNoteText(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddNote()}
+            />
+            <Button size="sm" className="h-7 text-xs" disabled={!noteText.trim() || addNote.isPending} onClick={handleAddNote}>
+              {addNote.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : 'Add'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </li>
+  );
+}
+
+export function LinkedAccountList({ playerId, accounts, minLinkConfidence, isSearching }: LinkedAccountListProps) {
+  const [target, setTarget] = useState('');
+  const [note, setNote] = useState('');
+  const [isResolving, setIsResolving] = useState(false);
+  const createLink = useCreateAccountLink();
+
+  const handleCreateLink = async () => {
+    const identifier = target.trim();
+    if (!identifier) return;
+
+    setIsResolving(true);
+    try {
+      const res = await fetch(`/api/panel/players?search=${encodeURIComponent(identifier)}`);
+      const players = res.ok ? await res.json() : [];
+      if (!players || players.length === 0) {
+        toast({ title: 'Player not found', description: `No player matches "${identifier}".`, variant: 'destructive' });
+        return;
+      }
+
+      await createLink.mutateAsync({ minecraftUuid: playerId, targetUuid: players[0].uuid, note: note.trim() || undefined });
+      toast({ title: 'Accounts linked', description: `Linked to ${players[0].username}.` });
+      setTarget('');
+      setNote('');
+    } catch (error) {
+      toast({ title: 'Failed to link accounts', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <ul className="space-y-2">
+        {accounts.length > 0 ? (
+          accounts.map(account => (
+            <LinkedAccountItem key={account.id} playerId={playerId} account={account} />
+          ))
+        ) : (
+          <li className="text-sm text-muted-foreground">
+            {isSearching ? 'Searching...' : 'No linked accounts found'}
+          </li>
+        )}
+      </ul>
+
+      {minLinkConfidence !== undefined && accounts.some(account => !account.linked) && (
+        <p className="text-xs text-muted-foreground">
+          Faded accounts are below the {minLinkConfidence}% confidence needed to count as linked.
+        </p>
+      )}
+
+      <div className="border-t border-border/50 pt-3 space-y-2">
+        <p className="text-xs font-medium">Link an account manually</p>
+        <div className="flex gap-2">
+          <Input
+            className="h-7 text-xs"
+            placeholder="Username or UUID"
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+          />
+          <Input
+            className="h-7 text-xs"
+            placeholder="Reason (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+          <Button size="sm" className="h-7 text-xs" disabled={!target.trim() || isResolving} onClick={handleCreateLink}>
+            {isResolving ? <Loader2 className="h-3 w-3 animate-spin" /> : <><Plus className="h-3 w-3 mr-1" /> Link</>}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default LinkedAccountList;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Loader2, Search, Users } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from 'modl-shared-web/components/ui/button';
+import { Badge } from 'modl-shared-web/components/ui/badge';
+import { Input } from 'modl-shared-web/components/ui/input';
+import { Label } from 'modl-shared-web/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from 'modl-shared-web/components/ui/select';
+import { ClickablePlayer } from '@/components/ui/clickable-player';
+import { useOnlinePlayers } from '@/hooks/use-data';
+import { formatSessionDuration, PlayerSession } from '@/components/ui/player-session-activity';
+
+interface OnlinePlayer {
+  minecraftUuid: string;
+  username: string;
+  servers: string[];
+  onlineMs: number;
+  sessions: PlayerSession[];
+}
+
+interface OnlinePlayersLookupProps {
+  // End of the default range, usually when the report was made
+  at: string;
+  // Minutes before `at` the default range starts
+  windowMinutes?: number;
+}
+
+const ALL_SERVERS = '__all__';
+
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+/**
+ * Answers "who was online between these times" from the session history
+ */
+const OnlinePlayersLookup: React.FC<OnlinePlayersLookupProps> = ({ at, windowMinutes = 20 }) => {
+  const defaultTo = isNaN(new Date(at).getTime()) ? new Date() : new Date(at);
+  const [from, setFrom] = useState(toInputValue(new Date(defaultTo.getTime() - windowMinutes * 60000)));
+  const [to, setTo] = useState(toInputValue(defaultTo));
+  const [server, setServer] = useState(ALL_SERVERS);
+  const [range, setRange] = useState<{ from: string; to: string; server?: string } | null>(null);
+  const { data, isFetching, error } = useOnlinePlayers(range);
+  const players: OnlinePlayer[] = data?.players || [];
+  const servers: string[] = data?.servers || [];
+
+  const search = () => {
+    const fromDate = new Date(from);
+    const toDate = new Date(to);
+    if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) return;
+    setRange({
+      from: fromDate.toISOString(),
+      to: toDate.toISOString(),
+      server: server === ALL_SERVERS ? undefined : server
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="online-lookup-from" className="text-xs">From</Label>
+          <Input id="online-lookup-from" type="datetime-local" className="h-8 text-xs" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="online-lookup-to" className="text-xs">To</Label>
+          <Input id="online-lookup-to" type="datetime-local" className="h-8 text-xs" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Server</Label>
+          <Select value={server} onValueChange={setServer}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_SERVERS}>All servers</SelectItem>
+              {servers.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button size="sm" className="h-8" onClick={search} disabled={isFetching}>
+          {isFetching ? <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" /> : <Search className="h-3.5 w-3.5 mr-1" />}
+          Find Players
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-destructive">{(error as Error).message}</p>}
+
+      {range && !isFetching && !error && (
+        players.length === 0 ? (
+          <p className="text-xs text-muted-foreground">Nobody was online during this time</p>
+        ) : (
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground flex items-center">
+              <Users className="h-3.5 w-3.5 mr-1" />
+              {players.length} player{players.length === 1 ? '' : 's'} online
+            </p>
+            {players.map(player => (
+              <div key={player.minecraftUuid} className="flex items-center gap-2 text-xs p-1.5 rounded bg-background border">
+                <ClickablePlayer playerText={player.minecraftUuid} className="text-xs font-medium">
+                  {player.username}
+                </ClickablePlayer>
+                {player.servers.map(name => (
+                  <Badge key={name} variant="outline" className="text-[10px] py-0">{name}</Badge>
+                ))}
+                <span className="ml-auto text-muted-foreground">
+                  {formatSessionDuration(player.onlineMs)} online in range
+                </span>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default OnlinePlayersLookup;
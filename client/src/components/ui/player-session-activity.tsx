@@ -0,0 +1,139 @@
+import React, { useMemo, useState } from 'react';
+import { Loader2, Server } from 'lucide-react';
+import { format, startOfDay, subDays, addDays } from 'date-fns';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Button } from 'modl-shared-web/components/ui/button';
+import { Badge } from 'modl-shared-web/components/ui/badge';
+import { usePlayerSessions } from '@/hooks/use-data';
+
+export interface PlayerSession {
+  id: string;
+  minecraftUuid: string;
+  username: string;
+  server: string;
+  ipAddress: string | null;
+  start: string;
+  end: string | null;
+  durationMs: number;
+}
+
+interface PlayerSessionActivityProps {
+  playerId: string;
+}
+
+const RANGES = [7, 30, 90];
+const RECENT_SESSIONS = 25;
+
+export const formatSessionDuration = (durationMs: number) => {
+  const minutes = Math.round(durationMs / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `${hours}h` : `${hours}h ${minutes % 60}m`;
+};
+
+/**
+ * Hours played per local day, with sessions spanning midnight split across both days
+ */
+function buildDailyPlaytime(sessions: PlayerSession[], days: number) {
+  const today = startOfDay(new Date());
+  const buckets = Array.from({ length: days }, (_, index) => {
+    const day = subDays(today, days - 1 - index);
+    return { day, label: format(day, 'MMM d'), hours: 0 };
+  });
+
+  for (const session of sessions) {
+    const start = new Date(session.start).getTime();
+    const end = session.end ? new Date(session.end).getTime() : Date.now();
+    for (const bucket of buckets) {
+      const dayStart = bucket.day.getTime();
+      const dayEnd = addDays(bucket.day, 1).getTime();
+      const overlap = Math.min(end, dayEnd) - Math.max(start, dayStart);
+      if (overlap > 0) {
+        bucket.hours += overlap / 3600000;
+      }
+    }
+  }
+
+  return buckets.map(bucket => ({ label: bucket.label, hours: Math.round(bucket.hours * 10) / 10 }));
+}
+
+const PlayerSessionActivity: React.FC<PlayerSessionActivityProps> = ({ playerId }) => {
+  const [days, setDays] = useState(30);
+  const { data, isLoading, isError } = usePlayerSessions(playerId, days);
+  const sessions: PlayerSession[] = data?.sessions || [];
+
+  const dailyPlaytime = useMemo(() => buildDailyPlaytime(sessions, days), [sessions, days]);
+  const totalHours = dailyPlaytime.reduce((total, day) => total + day.hours, 0);
+  const recentSessions = useMemo(() => [...sessions].reverse().slice(0, RECENT_SESSIONS), [sessions]);
+
+  if (isLoading) {
+    return (
+      <div className="text-sm text-muted-foreground flex items-center">
+        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        Loading sessions...
+      </div>
+    );
+  }
+
+  if (isError) {
+    return <p className="text-sm text-destructive">Failed to load session history.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-muted-foreground">
+          {Math.round(totalHours * 10) / 10} hours over {sessions.length} session{sessions.length === 1 ? '' : 's'}
+        </span>
+        <div className="flex gap-1">
+          {RANGES.map(range => (
+            <Button
+              key={range}
+              variant={days === range ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setDays(range)}
+            >
+              {range}d
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={dailyPlaytime}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+            <YAxis tick={{ fontSize: 10 }} width={30} />
+            <Tooltip formatter={(value) => [`${value} hours`, 'Playtime']} />
+            <Bar dataKey="hours" fill="#3b82f6" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {recentSessions.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No sessions in the last {days} days</p>
+      ) : (
+        <div className="space-y-1">
+          {recentSessions.map(session => (
+            <div key={session.id} className="flex items-center gap-2 text-xs p-1.5 rounded bg-background border">
+              <Server className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+              <span className="font-medium">{session.server}</span>
+              <span className="text-muted-foreground">
+                {format(new Date(session.start), 'MMM d, HH:mm')} - {session.end ? format(new Date(session.end), 'HH:mm') : 'now'}
+              </span>
+              {!session.end && <Badge variant="outline" className="text-[10px] py-0">Online</Badge>}
+              <span className="ml-auto text-muted-foreground">
+                {formatSessionDuration(session.durationMs)}
+                {session.ipAddress && <span className="font-mono ml-2">{session.ipAddress}</span>}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlayerSessionActivity;
@@ -2,7 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { 
   Eye, TriangleAlert, Ban, RefreshCcw, Search, LockOpen, History, 
   Link2, StickyNote, Ticket, UserRound, Shield, FileText, Upload, Loader2,
-  ChevronDown, ChevronRight, Settings, Plus
+  ChevronDown, ChevronRight, Settings, Plus, Clock
 } from 'lucide-react';
 import { useLocation } from 'wouter';
 import { Button } from 'modl-shared-web/components/ui/button';
@@ -10,11 +10,12 @@ import { Badge } from 'modl-shared-web/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from 'modl-shared-web/components/ui/tabs';
 import ResizableWindow from '@/components/layout/ResizableWindow';
 import { usePlayer, useApplyPunishment, useSettings, usePlayerTickets, usePlayerAllTickets, useModifyPunishment, useAddPunishmentNote, useLinkedAccounts, useFindLinkedAccounts } from '@/hooks/use-data';
-import { ClickablePlayer } from '@/components/ui/clickable-player';
 import { useAuth } from '@/hooks/use-auth';
 import { toast } from '@/hooks/use-toast';
 import PlayerPunishment, { PlayerPunishmentData } from '@/components/ui/player-punishment';
 import MediaUpload from '@/components/MediaUpload';
+import LinkedAccountList from '@/components/ui/linked-account-list';
+import PlayerSessionActivity from '@/components/ui/player-session-activity';
 
 // Local type definitions
 interface WindowPosition {
@@ -35,6 +36,17 @@ interface PlayerWindowProps {
   initialPosition?: WindowPosition;
 }
 
+interface PointContribution {
+  punishmentId: string;
+  typeOrdinal: number;
+  typeName: string;
+  category: 'Social' | 'Gameplay';
+  basePoints: number;
+  points: number;
+  active: boolean;
+  expiredAt?: string;
+}
+
 interface PlayerInfo {
   username: string;
   status: string;
@@ -43,9 +55,13 @@ interface PlayerInfo {
   firstJoined: string;
   lastOnline: string;
   lastServer: string;
+  currentServers: string[];
   playtime: string;
   social: string;
   gameplay: string;
+  socialPoints: number;
+  gameplayPoints: number;
+  pointBreakdown: PointContribution[];
   punished: boolean;
   previousNames: string[];
   warnings: Array<{ 
@@ -65,7 +81,6 @@ interface PlayerInfo {
     data?: any;
     altBlocking?: boolean;
   }>;
-  linkedAccounts: string[];
   notes: string[];
   newNote?: string;
   isAddingNote?: boolean;
@@ -161,7 +176,8 @@ const PlayerWindow = ({ playerId, isOpen, onClose, initialPosition }: PlayerWind
   const [avatarError, setAvatarError] = useState(false);
   const [avatarLoading, setAvatarLoading] = useState(true);
   const [isApplyingPunishment, setIsApplyingPunishment] = useState(false);
-  const [expandedPunishments, setExpandedPunishments] = useState<Set<string>>(new Set());    // Get current authenticated user
+  const [expandedPunishments, setExpandedPunishments] = useState<Set<string>>(new Set());
+  const [showPointBreakdown, setShowPointBreakdown] = useState(false);    // Get current authenticated user
   const { user } = useAuth();
   const [, setLocation] = useLocation();
     // Initialize the applyPunishment mutation hook
@@ -501,16 +517,19 @@ const PlayerWindow = ({ playerId, isOpen, onClose, initialPosition }: PlayerWind
     firstJoined: '2023-01-15',
     lastOnline: '2 hours ago',
     lastServer: 'Survival (EU-3)',
+    currentServers: [],
     playtime: '342 hours',
     social: 'Low',
     gameplay: 'Medium',
+    socialPoints: 0,
+    gameplayPoints: 0,
+    pointBreakdown: [],
     punished: false,
     previousNames: ['Dragon55', 'SlayerXD'],
     warnings: [
       { type: 'Warning', reason: 'Excessive caps in chat', date: '2023-04-12', by: 'Moderator2' },
       { type: 'Mute', reason: 'Inappropriate language in global chat', date: '2023-03-28', by: 'ServerAI (30 minutes)' },
     ],
-    linkedAccounts: ['Dragon55#1234 (Discord)', 'dragonslayer123 (Website)'],
     notes: ['Player has been consistently helpful to new players', 'Frequently reports bugs and exploits']
   });
 
@@ -646,73 +665,6 @@ const PlayerWindow = ({ playerId, isOpen, onClose, initialPosition }: PlayerWind
     }
   }, [settingsData]);
 
-  // Calculate player status based on punishments and settings
-  const calculatePlayerStatus = (punishments: any[], punishmentTypes: PunishmentType[], statusThresholds: any) => {
-    let socialPoints = 0;
-    let gameplayPoints = 0;    // Calculate points from active punishments
-    for (const punishment of punishments) {
-      // Check if punishment is effectively active (considering modifications)
-      const effectiveState = getEffectivePunishmentState(punishment);
-      const isActive = effectiveState.effectiveActive;
-      if (!isActive) continue;
-
-      // Find punishment type
-      const punishmentType = punishmentTypes.find(pt => pt.ordinal === punishment.type_ordinal);
-      if (!punishmentType) continue;
-
-      // Get points based on severity or single severity
-      let points = 0;
-      const severity = punishment.severity || punishment.data?.severity;
-      
-      if (punishmentType.customPoints !== undefined) {
-        // Custom points for permanent punishments (like Bad Skin, Bad Name)
-        points = punishmentType.customPoints;
-      } else if (punishmentType.singleSeverityPoints !== undefined) {
-        // Single severity punishment
-        points = punishmentType.singleSeverityPoints;
-      } else if (punishmentType.points && severity) {
-        // Multi-severity punishment
-        const severityLower = severity.toLowerCase();
-        if (severityLower === 'low' || severityLower === 'lenient') {
-          points = punishmentType.points.low;
-        } else if (severityLower === 'regular' || severityLower === 'medium') {
-          points = punishmentType.points.regular;
-        } else if (severityLower === 'severe' || severityLower === 'aggravated' || severityLower === 'high') {
-          points = punishmentType.points.severe;
-        }
-      }
-
-      // Add points to appropriate category
-      if (punishmentType.category === 'Social') {
-        socialPoints += points;
-      } else if (punishmentType.category === 'Gameplay') {
-        gameplayPoints += points;
-      }
-      // Administrative punishments don't contribute to status points
-    }
-
-    // Determine status based on thresholds
-    const getStatusLevel = (points: number, thresholds: { medium: number; habitual: number }) => {
-      if (points >= thresholds.habitual) {
-        return 'Habitual';
-      } else if (points >= thresholds.medium) {
-        return 'Medium';
-      } else {
-        return 'Low';
-      }
-    };
-
-    const socialStatus = getStatusLevel(socialPoints, statusThresholds?.social || { medium: 4, habitual: 8 });
-    const gameplayStatus = getStatusLevel(gameplayPoints, statusThresholds?.gameplay || { medium: 5, habitual: 10 });
-
-    return {
-      social: socialStatus,
-      gameplay: gameplayStatus,
-      socialPoints,
-      gameplayPoints
-    };
-  };
-  
   // Refetch player data whenever the window is opened
   useEffect(() => {
     if (isOpen) {
@@ -845,39 +797,6 @@ const PlayerWindow = ({ playerId, isOpen, onClose, initialPosition }: PlayerWind
         const notes = player.notes          ? player.notes.map((note: any) => `${note.text} (Added by ${note.issuerName} on ${formatDateWithTime(note.date)})`) 
           : [];
         
-        // Extract linked accounts from API data
-        const linkedAccounts: string[] = [];
-        
-        if (linkedAccountsData?.linkedAccounts && Array.isArray(linkedAccountsData.linkedAccounts)) {
-          linkedAccountsData.linkedAccounts.forEach((account: any) => {
-            const statusInfo = [];
-            if (account.activeBans > 0) statusInfo.push(`${account.activeBans} active ban${account.activeBans > 1 ? 's' : ''}`);
-            if (account.activeMutes > 0) statusInfo.push(`${account.activeMutes} active mute${account.activeMutes > 1 ? 's' : ''}`);
-            
-            const statusText = statusInfo.length > 0 ? ` (${statusInfo.join(', ')})` : '';
-            linkedAccounts.push(`${account.username}${statusText}`);
-          });
-        }
-        
-        // Calculate player status using punishment points and thresholds
-        const allPunishmentTypes = [
-          ...punishmentTypesByCategory.Administrative,
-          ...punishmentTypesByCategory.Social,
-          ...punishmentTypesByCategory.Gameplay
-        ];
-        
-        // Get status thresholds from settings
-        let statusThresholds = { social: { medium: 4, habitual: 8 }, gameplay: { medium: 5, habitual: 10 } };
-        if (settingsData?.settings?.statusThresholds) {
-          try {
-            statusThresholds = settingsData.settings.statusThresholds;
-          } catch (error) {
-            console.error("Error parsing status thresholds:", error);
-          }
-        }
-        
-        const calculatedStatus = calculatePlayerStatus(player.punishments || [], allPunishmentTypes, statusThresholds);
-        
         // Sort warnings by date (most recent first)
         warnings.sort((a, b) => {
           const dateA = new Date(a.date || a.issued || 0).getTime();
@@ -897,13 +816,17 @@ const PlayerWindow = ({ playerId, isOpen, onClose, initialPosition }: PlayerWind
               formatDateWithTime(getPlayerData(player, 'lastDisconnect')) : 
               'Unknown'),
           lastServer: player.lastServer || 'Unknown',
+          currentServers: player.currentServers || getPlayerData(player, 'currentServers') || [],
           playtime: player.playtime ? `${player.playtime} hours` : 'Not tracked',
-          social: calculatedStatus.social,
-          gameplay: calculatedStatus.gameplay,
+          // Status and points (including decay of expired punishments) are calculated by the server
+          social: player.social || 'Low',
+          gameplay: player.gameplay || 'Low',
+          socialPoints: player.socialPoints || 0,
+          gameplayPoints: player.gameplayPoints || 0,
+          pointBreakdown: player.pointBreakdown || [],
           punished: status !== 'Active',
           previousNames: previousNames,
           warnings: warnings,
-          linkedAccounts: linkedAccounts,
           notes: notes
         }));
       } else if (player.username) {
@@ -915,7 +838,7 @@ const PlayerWindow = ({ playerId, isOpen, onClose, initialPosition }: PlayerWind
           status: player.status === 'Active' ? 'Online' : player.status
         }));
       }
-    }  }, [player, isOpen, punishmentTypesByCategory, settingsData, linkedAccountsData]);
+    }  }, [player, isOpen, punishmentTypesByCategory, settingsData]);
 
   // Reset avatar state when playerId changes
   useEffect(() => {
@@ -1415,10 +1338,51 @@ const PlayerWindow = ({ playerId, isOpen, onClose, initialPosition }: PlayerWind
                     <span className="text-muted-foreground">Playtime:</span>
                     <span className="ml-1">{playerInfo.playtime}</span>
                   </div>
-                  <div>
-                    <span className="text-muted-foreground">Last Server:</span>
-                    <span className="ml-1">{playerInfo.lastServer}</span>
-                  </div>
+                  {playerInfo.status === 'Online' && playerInfo.currentServers.length > 0 ? (
+                    <div>
+                      <span className="text-muted-foreground">Current Server{playerInfo.currentServers.length > 1 ? 's' : ''}:</span>
+                      <span className="ml-1">{playerInfo.currentServers.join(', ')}</span>
+                    </div>
+                  ) : (
+                    <div>
+                      <span className="text-muted-foreground">Last Server:</span>
+                      <span className="ml-1">{playerInfo.lastServer}</span>
+                    </div>
+                  )}
+                </div>
+
+                <div className="mt-3 text-sm">
+                  <button
+                    type="button"
+                    className="flex items-center text-muted-foreground hover:text-foreground"
+                    onClick={() => setShowPointBreakdown(!showPointBreakdown)}
+                  >
+                    {showPointBreakdown ? <ChevronDown className="h-3.5 w-3.5 mr-1" /> : <ChevronRight className="h-3.5 w-3.5 mr-1" />}
+                    Status points: Social {playerInfo.socialPoints} · Gameplay {playerInfo.gameplayPoints}
+                  </button>
+                  {showPointBreakdown && (
+                    <div className="mt-2 border rounded-md p-2 space-y-1">
+                      {playerInfo.pointBreakdown.length === 0 ? (
+                        <p className="text-xs text-muted-foreground">No punishments are currently contributing points.</p>
+                      ) : (
+                        playerInfo.pointBreakdown.map(contribution => (
+                          <div key={contribution.punishmentId} className="flex justify-between gap-2 text-xs">
+                            <span>
+                              {contribution.typeName}
+                              <span className="text-muted-foreground ml-1">
+                                ({contribution.category}, #{contribution.punishmentId})
+                              </span>
+                            </span>
+                            <span className="text-muted-foreground whitespace-nowrap">
+                              {contribution.active
+                                ? `${contribution.points} pts (active)`
+                                : `${contribution.points} of ${contribution.basePoints} pts (decaying since ${contribution.expiredAt ? formatDateWithTime(contribution.expiredAt) : 'expiry'})`}
+                            </span>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -1426,7 +1390,7 @@ const PlayerWindow = ({ playerId, isOpen, onClose, initialPosition }: PlayerWind
         </div>
         
         <Tabs defaultValue="history" className="w-full" onValueChange={setActiveTab}>
-          <TabsList className="grid grid-cols-6 gap-1 px-1">
+          <TabsList className="grid grid-cols-7 gap-1 px-1">
             <TabsTrigger value="history" className="text-xs py-2">
               <History className="h-3.5 w-3.5 mr-1.5" />
               History
@@ -1447,6 +1411,10 @@ const PlayerWindow = ({ playerId, isOpen, onClose, initialPosition }: PlayerWind
               <UserRound className="h-3.5 w-3.5 mr-1.5" />
               Names
             </TabsTrigger>
+            <TabsTrigger value="sessions" className="text-xs py-2">
+              <Clock className="h-3.5 w-3.5 mr-1.5" />
+              Sessions
+            </TabsTrigger>
             <TabsTrigger value="punishment" className="text-xs py-2">
               <Shield className="h-3.5 w-3.5 mr-1.5" />
               Punish
@@ -2442,7 +2410,7 @@ const PlayerWindow = ({ playerId, isOpen, onClose, initialPosition }: PlayerWind
           <TabsContent value="linked" className="space-y-2 mx-1 mt-3">
             <h4 className="font-medium">Connected Accounts</h4>
             <p className="text-xs text-muted-foreground mb-3">
-              Accounts sharing IPs (excluding proxy/hosting IPs unless within 6 hours of each other)
+              Accounts scored by shared evidence such as IPs, proxy timing, network and skin. Expand an account to see why it is linked.
             </p>
             <div className="bg-muted/30 p-3 rounded-lg">
               {/* Show error if linked account search failed */}
@@ -2461,29 +2429,12 @@ const PlayerWindow = ({ playerId, isOpen, onClose, initialPosition }: PlayerWind
                 </div>
               )}
               
-              <ul className="space-y-2">
-                {playerInfo.linkedAccounts.length > 0 ? (
-                  playerInfo.linkedAccounts.map((account, idx) => (
-                    <li key={idx} className="text-sm flex items-center">
-                      <Link2 className="h-4 w-4 mr-2 text-muted-foreground flex-shrink-0" />
-                      <ClickablePlayer 
-                        playerText={account}
-                        showIcon={true}
-                        className="text-sm"
-                      >
-                        {account}
-                      </ClickablePlayer>
-                    </li>
-                  ))
-                ) : (
-                  <li className="text-sm text-muted-foreground">
-                    {findLinkedAccountsMutation.isPending ? 
-                      'Searching...' : 
-                      'No linked accounts found'
-                    }
-                  </li>
-                )}
-              </ul>
+              <LinkedAccountList
+                playerId={playerId}
+                accounts={linkedAccountsData?.linkedAccounts || []}
+                minLinkConfidence={linkedAccountsData?.minLinkConfidence}
+                isSearching={findLinkedAccountsMutation.isPending}
+              />
             </div>
           </TabsContent>
           
@@ -2688,6 +2639,16 @@ const PlayerWindow = ({ playerId, isOpen, onClose, initialPosition }: PlayerWind
             </div>
           </TabsContent>
           
+          <TabsContent value="sessions" className="space-y-2 mx-1 mt-3">
+            <h4 className="font-medium">Session History</h4>
+            <p className="text-xs text-muted-foreground mb-3">
+              Playtime per day and the most recent sessions on each server.
+            </p>
+            <div className="bg-muted/30 p-3 rounded-lg">
+              {activeTab === 'sessions' && <PlayerSessionActivity playerId={playerId} />}
+            </div>
+          </TabsContent>
+          
           <TabsContent value="punishment" className="space-y-3 mx-1 mt-3">
             <PlayerPunishment
               playerId={playerId}
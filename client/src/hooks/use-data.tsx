@@ -1,6 +1,8 @@
 import { useQuery, useMutation, useQueryClient, QueryClient } from '@tanstack/react-query';
 import { queryClient } from '../lib/queryClient';
 import { useAuth } from './use-auth';
+import { realtimeFallbackOptions, useRealtimeInvalidation } from './use-realtime';
+import { RealtimeEvent } from '../lib/realtime';
 
 // Player-related hooks
 export function usePlayers() {
@@ -17,6 +19,12 @@ export function usePlayers() {
 }
 
 export function usePlayer(uuid: string) {
+  // Refresh when the player's presence or punishments change
+  useRealtimeInvalidation(['players', 'punishments'], ['/api/panel/players', uuid], {
+    enabled: !!uuid,
+    filter: (event) => event.data?.minecraftUuid === uuid
+  });
+
   return useQuery({
     queryKey: ['/api/panel/players', uuid],
     queryFn: async () => {
@@ -31,9 +39,8 @@ export function usePlayer(uuid: string) {
       return res.json();
     },
     enabled: !!uuid, // Only run the query if we have a uuid
-    // Don't cache this data for long, so new opens can see the latest data
-    staleTime: 1000, // 1 second
-    refetchOnWindowFocus: true, // Refetch when window gets focus
+    // Live updates come through the realtime stream
+    staleTime: 30000, // 30 seconds
     refetchOnMount: true // Refetch when component mounts
   });
 }
@@ -58,6 +65,47 @@ export function useLinkedAccounts(uuid: string) {
   });
 }
 
+export function usePlayerSessions(uuid: string, days: number = 30) {
+  // Refresh when the player joins or leaves a server
+  useRealtimeInvalidation('players', ['/api/panel/players/sessions', uuid], {
+    enabled: !!uuid,
+    filter: (event) => (event.event === 'player.joined' || event.event === 'player.left') && event.data?.minecraftUuid === uuid
+  });
+
+  return useQuery({
+    queryKey: ['/api/panel/players/sessions', uuid, days],
+    queryFn: async () => {
+      const from = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const res = await fetch(`/api/panel/players/${uuid}/sessions?from=${encodeURIComponent(from.toISOString())}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch player sessions');
+      }
+      return res.json();
+    },
+    enabled: !!uuid,
+    staleTime: 30000
+  });
+}
+
+export function useOnlinePlayers(range: { from: string; to: string; server?: string } | null) {
+  return useQuery({
+    queryKey: ['/api/panel/players/sessions/online', range?.from, range?.to, range?.server],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: range!.from, to: range!.to });
+      if (range!.server) {
+        params.set('server', range!.server);
+      }
+      const res = await fetch(`/api/panel/players/sessions/online?${params.toString()}`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to fetch online players');
+      }
+      return data;
+    },
+    enabled: !!range
+  });
+}
+
 export function useFindLinkedAccounts() {
   return useMutation({
     mutationFn: async (minecraftUuid: string) => {
@@ -84,18 +132,89 @@ export function useFindLinkedAccounts() {
   });
 }
 
+function useAccountLinkMutation<TVariables extends { minecraftUuid: string }>(
+  getRequest: (variables: TVariables) => { url: string; method: string; body: Record<string, any> },
+  errorMessage: string
+) {
+  return useMutation({
+    mutationFn: async (variables: TVariables) => {
+      const { csrfFetch } = await import('@/utils/csrf');
+      const { url, method, body } = getRequest(variables);
+      const res = await csrfFetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      });
+
+      if (!res.ok) {
+        const error = await res.json().catch(() => ({}));
+        throw new Error(error.error || errorMessage);
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      // A link change affects the linked accounts of both players
+      queryClient.invalidateQueries({ queryKey: ['/api/panel/players/linked'] });
+    }
+  });
+}
+
+export function useCreateAccountLink() {
+  return useAccountLinkMutation(
+    ({ minecraftUuid, targetUuid, note }: { minecraftUuid: string; targetUuid: string; note?: string }) => ({
+      url: `/api/panel/players/${minecraftUuid}/links`,
+      method: 'POST',
+      body: { targetUuid, note }
+    }),
+    'Failed to link accounts'
+  );
+}
+
+export function useReviewAccountLink() {
+  return useAccountLinkMutation(
+    ({ minecraftUuid, linkId, status, note }: { minecraftUuid: string; linkId: string; status: 'detected' | 'confirmed' | 'rejected'; note?: string }) => ({
+      url: `/api/panel/players/${minecraftUuid}/links/${linkId}`,
+      method: 'PATCH',
+      body: { status, note }
+    }),
+    'Failed to update linked account'
+  );
+}
+
+export function useAddAccountLinkNote() {
+  return useAccountLinkMutation(
+    ({ minecraftUuid, linkId, text }: { minecraftUuid: string; linkId: string; text: string }) => ({
+      url: `/api/panel/players/${minecraftUuid}/links/${linkId}/notes`,
+      method: 'POST',
+      body: { text }
+    }),
+    'Failed to add note'
+  );
+}
+
 // Ticket-related hooks
+
+// Staff announcing they are writing a reply doesn't change the ticket
+const isTicketChange = (event: RealtimeEvent) => event.event !== 'ticket.replying';
+
 export function useTickets(options?: {
   page?: number;
   limit?: number;
   search?: string;
   status?: string;
   type?: string;
+  // 'unassigned', 'me' or a staff username
+  assignee?: string;
 }) {
-  const { page = 1, limit = 10, search = '', status = '', type = '' } = options || {};
+  const { page = 1, limit = 10, search = '', status = '', type = '', assignee = '' } = options || {};
+
+  const live = useRealtimeInvalidation('tickets', ['/api/panel/tickets'], { filter: isTicketChange });
   
   return useQuery({
-    queryKey: ['/api/panel/tickets', { page, limit, search, status, type }],
+    queryKey: ['/api/panel/tickets', { page, limit, search, status, type, assignee }],
     queryFn: async () => {
       const params = new URLSearchParams();
       params.append('page', page.toString());
@@ -103,29 +222,206 @@ export function useTickets(options?: {
       if (search) params.append('search', search);
       if (status) params.append('status', status);
       if (type) params.append('type', type);
+      if (assignee) params.append('assignee', assignee);
       
       const res = await fetch(`/api/panel/tickets?${params.toString()}`);
       if (!res.ok) {
-        throw new Error('Failed to fetch tickets');
+        // Searches with mistakes come back as 400 with what is wrong with them
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to fetch tickets');
       }
       return res.json();
     },
-    // Keep data fresh but allow some caching for better UX
-    staleTime: 30000, // 30 seconds
+    // Live updates come through the realtime stream, staff without ticket.view.all poll instead
+    staleTime: 5 * 60 * 1000, // 5 minutes
     refetchOnMount: true,
-    refetchOnWindowFocus: true
+    ...realtimeFallbackOptions(live)
+  });
+}
+
+export function useTicketCategories() {
+  return useQuery({
+    queryKey: ['/api/panel/tickets/categories'],
+    queryFn: async () => {
+      const res = await fetch('/api/panel/tickets/categories');
+      if (!res.ok) {
+        throw new Error('Failed to fetch ticket categories');
+      }
+      return res.json();
+    },
+    staleTime: 5 * 60 * 1000
+  });
+}
+
+// Whether the current staff member is on duty for ticket queues
+export function useTicketDuty() {
+  return useQuery({
+    queryKey: ['/api/panel/tickets/duty'],
+    queryFn: async () => {
+      const res = await fetch('/api/panel/tickets/duty');
+      if (!res.ok) {
+        throw new Error('Failed to fetch duty status');
+      }
+      return res.json();
+    },
+    staleTime: 60 * 1000
+  });
+}
+
+export function useSetTicketDuty() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (onDuty: boolean) => {
+      const { csrfFetch } = await import('@/utils/csrf');
+      const res = await csrfFetch('/api/panel/tickets/duty', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ onDuty })
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.message || data.error || 'Failed to update duty status');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/panel/tickets/duty'] });
+    }
+  });
+}
+
+export function useSavedTicketSearches() {
+  return useQuery({
+    queryKey: ['/api/panel/tickets/saved-searches'],
+    queryFn: async () => {
+      const res = await fetch('/api/panel/tickets/saved-searches');
+      if (!res.ok) {
+        throw new Error('Failed to fetch saved searches');
+      }
+      return res.json();
+    },
+    staleTime: 5 * 60 * 1000
+  });
+}
+
+export function useSaveTicketSearch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, query }: { name: string; query: string }) => {
+      const { csrfFetch } = await import('@/utils/csrf');
+      const res = await csrfFetch('/api/panel/tickets/saved-searches', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, query })
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.message || data.error || 'Failed to save search');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/panel/tickets/saved-searches'] });
+    }
   });
 }
 
+export function useDeleteTicketSearch() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const { csrfFetch } = await import('@/utils/csrf');
+      const res = await csrfFetch(`/api/panel/tickets/saved-searches/${encodeURIComponent(name)}`, {
+        method: 'DELETE'
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.message || data.error || 'Failed to delete saved search');
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/panel/tickets/saved-searches'] });
+    }
+  });
+}
+
+/**
+ * Claim or release a ticket. Claims fail with the current assignee when another
+ * staff member holds the ticket, unless forced.
+ */
+export function useTicketClaim() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, action, force = false }: { id: string; action: 'claim' | 'release'; force?: boolean }) => {
+      const { csrfFetch } = await import('@/utils/csrf');
+      const res = await csrfFetch(`/api/panel/tickets/${id}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ force })
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.message || data.error || `Failed to ${action} ticket`);
+      }
+      return data;
+    },
+    onSuccess: (_data, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/panel/tickets', id] });
+      queryClient.invalidateQueries({ queryKey: ['/api/panel/tickets'] });
+    }
+  });
+}
+
+// Categories players can open tickets in, available without a staff session
+export function usePublicTicketCategories() {
+  return useQuery({
+    queryKey: ['/api/public/ticket-categories'],
+    queryFn: async () => {
+      const res = await fetch('/api/public/ticket-categories');
+      if (!res.ok) {
+        throw new Error('Failed to fetch ticket categories');
+      }
+      return res.json();
+    },
+    staleTime: 5 * 60 * 1000
+  });
+}
+
+/**
+ * The access token for a player ticket page. Tokens arrive in the `token` query parameter
+ * of ticket links and are remembered so the ticket stays accessible without the link.
+ */
+export function getTicketAccessToken(id: string): string | null {
+  const fromUrl = new URLSearchParams(window.location.search).get('token');
+  if (fromUrl) {
+    localStorage.setItem(`ticketToken:${id}`, fromUrl);
+    return fromUrl;
+  }
+  return localStorage.getItem(`ticketToken:${id}`);
+}
+
+function ticketTokenHeaders(id: string): Record<string, string> {
+  const token = getTicketAccessToken(id);
+  return token ? { 'X-Ticket-Token': token } : {};
+}
+
 export function useTicket(id: string) {
   return useQuery({
     queryKey: ['/api/public/tickets', id],
     queryFn: async () => {
-      const res = await fetch(`/api/public/tickets/${id}`);
+      const res = await fetch(`/api/public/tickets/${id}`, { headers: ticketTokenHeaders(id) });
       if (!res.ok) {
         if (res.status === 404) {
           return null;
         }
+        if (res.status === 401) {
+          return { tokenRequired: true };
+        }
         throw new Error('Failed to fetch ticket');
       }
       return res.json();
@@ -177,7 +473,8 @@ export function useUpdateTicket() {
       });
       
       if (!res.ok) {
-        throw new Error('Failed to update ticket');
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || data.message || 'Failed to update ticket');
       }
       
       return res.json();
@@ -199,7 +496,8 @@ export function useAddTicketReply() {
       const res = await csrfFetch(`/api/public/tickets/${id}/replies`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          ...ticketTokenHeaders(id)
         },
         body: JSON.stringify(reply)
       });
@@ -224,7 +522,8 @@ export function useSubmitTicketForm() {
       const res = await csrfFetch(`/api/public/tickets/${id}/submit`, {
         method: 'POST',
         headers: {
-          'Content-Type': 'application/json'
+          'Content-Type': 'application/json',
+          ...ticketTokenHeaders(id)
         },
         body: JSON.stringify(formData)
       });
@@ -242,6 +541,28 @@ export function useSubmitTicketForm() {
   });
 }
 
+export function useRequestTicketAccessLink() {
+  return useMutation({
+    mutationFn: async ({ id, email }: { id: string, email: string }) => {
+      const { csrfFetch } = await import('@/utils/csrf');
+      const res = await csrfFetch(`/api/public/tickets/${id}/access-link`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ email })
+      });
+      
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || 'Failed to request access link');
+      }
+      
+      return data;
+    }
+  });
+}
+
 // Appeal-related hooks
 export function useAppeals() {
   return useQuery({
@@ -327,6 +648,20 @@ export function useLogs() {
   });
 }
 
+export function useAuditEvents(limit: number = 500) {
+  return useQuery({
+    queryKey: ['/api/panel/audit/events', limit],
+    queryFn: async () => {
+      const res = await fetch(`/api/panel/audit/events?limit=${limit}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch audit events');
+      }
+      const data = await res.json();
+      return data.events || [];
+    }
+  });
+}
+
 // Settings-related hooks
 export function useSettings() {
   return useQuery({
@@ -592,6 +927,11 @@ export function useApplyPunishment() {
 }
 
 export function usePanelTicket(id: string) {
+  useRealtimeInvalidation('tickets', ['/api/panel/tickets', id], {
+    enabled: !!id,
+    filter: (event) => event.data?.ticketId === id && isTicketChange(event)
+  });
+
   return useQuery({
     queryKey: ['/api/panel/tickets', id],
     queryFn: async () => {
@@ -931,6 +1271,10 @@ export function useAssignMinecraftPlayer() {
 
 // Dashboard Metrics hooks
 export function useDashboardMetrics(period: string = '7d') {
+  const live = useRealtimeInvalidation(['tickets', 'punishments'], ['/api/panel/dashboard/metrics'], {
+    filter: (event) => event.event.endsWith('.created')
+  });
+
   return useQuery({
     queryKey: ['/api/panel/dashboard/metrics', period],
     queryFn: async () => {
@@ -941,11 +1285,31 @@ export function useDashboardMetrics(period: string = '7d') {
       return res.json();
     },
     staleTime: 5 * 60 * 1000, // 5 minutes
-    refetchOnWindowFocus: true,
+    ...realtimeFallbackOptions(live),
+  });
+}
+
+// Open tickets that missed or are about to miss their SLA
+export function useSlaOverview(limit: number = 5) {
+  useRealtimeInvalidation('tickets', ['/api/panel/dashboard/sla'], { filter: isTicketChange });
+
+  return useQuery({
+    queryKey: ['/api/panel/dashboard/sla', limit],
+    queryFn: async () => {
+      const res = await fetch(`/api/panel/dashboard/sla?limit=${limit}`);
+      if (!res.ok) {
+        throw new Error('Failed to fetch SLA overview');
+      }
+      return res.json();
+    },
+    // Tickets become at risk or breached as time passes
+    refetchInterval: 60 * 1000,
   });
 }
 
 export function useRecentTickets(limit: number = 5) {
+  const live = useRealtimeInvalidation('tickets', ['/api/panel/dashboard/recent-tickets'], { filter: isTicketChange });
+
   return useQuery({
     queryKey: ['/api/panel/dashboard/recent-tickets', limit],
     queryFn: async () => {
@@ -955,12 +1319,14 @@ export function useRecentTickets(limit: number = 5) {
       }
       return res.json();
     },
-    staleTime: 2 * 60 * 1000, // 2 minutes
-    refetchOnWindowFocus: true,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    ...realtimeFallbackOptions(live),
   });
 }
 
 export function useRecentPunishments(limit: number = 10) {
+  useRealtimeInvalidation('punishments', ['/api/panel/dashboard/recent-punishments']);
+
   return useQuery({
     queryKey: ['/api/panel/dashboard/recent-punishments', limit],
     queryFn: async () => {
@@ -970,8 +1336,7 @@ export function useRecentPunishments(limit: number = 10) {
       }
       return res.json();
     },
-    staleTime: 2 * 60 * 1000, // 2 minutes
-    refetchOnWindowFocus: true,
+    staleTime: 5 * 60 * 1000, // 5 minutes
   });
 }
 
@@ -1,7 +1,8 @@
 import { useQuery } from '@tanstack/react-query';
 
 export interface MediaUploadConfig {
-  wasabiConfigured: boolean;
+  storageConfigured: boolean;
+  storageDriver: 'local' | 's3' | 'wasabi';
   supportedTypes: {
     evidence: string[];
     tickets: string[];
@@ -41,7 +42,7 @@ export function useMediaUpload() {
     uploadType: 'evidence' | 'ticket' | 'appeal' | 'article' | 'server-icon',
     metadata: Record<string, any> = {}
   ): Promise<{ url: string; key: string }> => {
-    if (!config.data?.wasabiConfigured) {
+    if (!config.data?.storageConfigured) {
       throw new Error('Media storage is not configured');
     }
 
@@ -26,6 +26,7 @@ export const SETTINGS_PERMISSIONS = {
   staff: [PERMISSIONS.ADMIN_STAFF_MANAGE], // Staff Management
   knowledgebase: [PERMISSIONS.ADMIN_SETTINGS_VIEW], // Knowledgebase - requires settings view
   homepage: [PERMISSIONS.ADMIN_SETTINGS_VIEW], // Homepage Cards
+  network: [PERMISSIONS.ADMIN_SETTINGS_VIEW], // Network Bans
 } as const;
 
 export function usePermissions() {
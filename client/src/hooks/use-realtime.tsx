@@ -0,0 +1,84 @@
+import { useEffect, useRef, useState } from 'react';
+import { QueryKey } from '@tanstack/react-query';
+import { queryClient } from '../lib/queryClient';
+import { isChannelLive, onLiveChannelsChange, subscribe, RealtimeChannel, RealtimeEvent } from '../lib/realtime';
+
+// How often queries refetch while their channels aren't live
+const FALLBACK_POLL_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Run a handler for every event published on the given channels
+ */
+export function useRealtimeEvents(
+  channels: RealtimeChannel | RealtimeChannel[],
+  handler: (event: RealtimeEvent) => void,
+  enabled: boolean = true
+) {
+  // Keep the latest handler without re-subscribing on every render
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  const channelList = Array.isArray(channels) ? channels : [channels];
+  const channelKey = channelList.join(',');
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const unsubscribes = channelList.map(channel =>
+      subscribe(channel, event => handlerRef.current(event))
+    );
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [channelKey, enabled]);
+}
+
+/**
+ * Whether every one of the channels is delivering events
+ */
+export function useRealtimeLive(channels: RealtimeChannel | RealtimeChannel[]): boolean {
+  const channelList = Array.isArray(channels) ? channels : [channels];
+  const channelKey = channelList.join(',');
+  const check = () => channelList.every(channel => isChannelLive(channel));
+  const [live, setLive] = useState(check);
+
+  useEffect(() => {
+    setLive(check());
+    return onLiveChannelsChange(() => setLive(check()));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [channelKey]);
+
+  return live;
+}
+
+/**
+ * Query options that poll and refetch on focus while a query's channels aren't live,
+ * for staff whose subscription was refused or while the connection is down
+ */
+export function realtimeFallbackOptions(live: boolean) {
+  return {
+    refetchInterval: live ? false as const : FALLBACK_POLL_INTERVAL_MS,
+    refetchOnWindowFocus: live ? false as const : 'always' as const
+  };
+}
+
+/**
+ * Invalidate a query whenever a matching event arrives, so React Query refetches
+ * it live instead of polling. Returns whether the channels are live.
+ */
+export function useRealtimeInvalidation(
+  channels: RealtimeChannel | RealtimeChannel[],
+  queryKey: QueryKey,
+  options?: {
+    enabled?: boolean;
+    filter?: (event: RealtimeEvent) => boolean;
+  }
+) {
+  const { enabled = true, filter } = options || {};
+
+  useRealtimeEvents(channels, (event) => {
+    if (filter && !filter(event)) return;
+    queryClient.invalidateQueries({ queryKey });
+  }, enabled);
+
+  return useRealtimeLive(channels);
+}
@@ -0,0 +1,166 @@
+/**
+ * Client for the panel's real-time event stream (/ws).
+ *
+ * A single WebSocket is shared by the whole app. It is opened lazily on the
+ * first subscription, re-subscribes to its channels after reconnecting and is
+ * closed again once nothing is listening.
+ */
+
+export type RealtimeChannel = 'tickets' | 'punishments' | 'players' | 'audit';
+
+export interface RealtimeEvent<T = any> {
+  channel: RealtimeChannel;
+  event: string;
+  data: T;
+  timestamp: string;
+}
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+
+const listeners = new Map<RealtimeChannel, Set<RealtimeListener>>();
+// Channels the server accepted on the current connection
+const liveChannels = new Set<RealtimeChannel>();
+const liveChannelListeners = new Set<() => void>();
+let socket: WebSocket | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectAttempts = 0;
+
+function getSocketUrl(): string {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.host}/ws`;
+}
+
+function send(message: Record<string, any>): void {
+  if (socket && socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function setChannelLive(channel: RealtimeChannel, live: boolean): void {
+  if (live === liveChannels.has(channel)) return;
+  if (live) liveChannels.add(channel);
+  else liveChannels.delete(channel);
+  liveChannelListeners.forEach(listener => listener());
+}
+
+function clearLiveChannels(): void {
+  if (liveChannels.size === 0) return;
+  liveChannels.clear();
+  liveChannelListeners.forEach(listener => listener());
+}
+
+function scheduleReconnect(): void {
+  if (reconnectTimer || listeners.size === 0) return;
+
+  const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+  reconnectAttempts++;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, delay);
+}
+
+function connect(): void {
+  if (socket || listeners.size === 0) return;
+
+  const ws = new WebSocket(getSocketUrl());
+  socket = ws;
+
+  ws.onopen = () => {
+    reconnectAttempts = 0;
+    listeners.forEach((_, channel) => send({ type: 'subscribe', channel }));
+  };
+
+  ws.onmessage = (message) => {
+    try {
+      const payload = JSON.parse(message.data);
+      if (payload.type === 'event') {
+        listeners.get(payload.channel)?.forEach(listener => listener(payload));
+      } else if (payload.type === 'subscribed') {
+        setChannelLive(payload.channel, true);
+      } else if (payload.type === 'unsubscribed') {
+        setChannelLive(payload.channel, false);
+      } else if (payload.type === 'error') {
+        if (payload.channel) setChannelLive(payload.channel, false);
+        console.warn(`[Realtime] ${payload.channel || 'connection'}: ${payload.message}`);
+      }
+    } catch (error) {
+      console.error('[Realtime] Failed to parse message:', error);
+    }
+  };
+
+  ws.onclose = () => {
+    if (socket === ws) {
+      socket = null;
+      clearLiveChannels();
+      scheduleReconnect();
+    }
+  };
+
+  ws.onerror = () => {
+    ws.close();
+  };
+}
+
+function disconnect(): void {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  if (socket) {
+    const ws = socket;
+    socket = null;
+    ws.close();
+  }
+  clearLiveChannels();
+  reconnectAttempts = 0;
+}
+
+/**
+ * Whether events of a channel are being received. False while disconnected and when
+ * the server refused the subscription, for example for missing permissions.
+ */
+export function isChannelLive(channel: RealtimeChannel): boolean {
+  return liveChannels.has(channel);
+}
+
+/**
+ * Listen to channels becoming live or not. Returns a function that removes the listener.
+ */
+export function onLiveChannelsChange(listener: () => void): () => void {
+  liveChannelListeners.add(listener);
+  return () => {
+    liveChannelListeners.delete(listener);
+  };
+}
+
+/**
+ * Listen to events on a channel. Returns a function that removes the listener.
+ */
+export function subscribe(channel: RealtimeChannel, listener: RealtimeListener): () => void {
+  let channelListeners = listeners.get(channel);
+  if (!channelListeners) {
+    channelListeners = new Set();
+    listeners.set(channel, channelListeners);
+    send({ type: 'subscribe', channel });
+  }
+  channelListeners.add(listener);
+  connect();
+
+  return () => {
+    const current = listeners.get(channel);
+    if (!current) return;
+
+    current.delete(listener);
+    if (current.size === 0) {
+      listeners.delete(channel);
+      send({ type: 'unsubscribe', channel });
+    }
+    if (listeners.size === 0) {
+      disconnect();
+    }
+  };
+}
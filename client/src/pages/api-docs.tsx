@@ -75,7 +75,7 @@ const ApiDocs = () => {
         {
           method: 'GET',
           path: '/api/panel/tickets',
-          description: 'Retrieve a list of all tickets',
+          description: 'Retrieve a list of tickets. The search parameter takes words, "phrases" and filters like player:Notch tag:hacking status:open assignee:me before:2026-09-01',
           responseType: 'Array<Ticket>'
         },
         {
@@ -176,7 +176,7 @@ const ApiDocs = () => {
           method: 'PATCH',
           path: '/api/panel/appeals/:id/status',
           description: 'Update an appeal\'s status',
-          requestType: '{ status: "Accepted" | "Rejected" | "Pending" }',
+          requestType: '{ status: "New" | "Open" | "Waiting on Player" | "Waiting on Staff" | "Resolved" | "Closed", resolution?: string }',
           responseType: 'Appeal'
         }
       ]
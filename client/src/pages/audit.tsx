@@ -38,8 +38,9 @@ import { Calendar as CalendarComponent } from 'modl-shared-web/components/ui/cal
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from 'modl-shared-web/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from 'modl-shared-web/components/ui/tabs';
 import { ScrollArea } from 'modl-shared-web/components/ui/scrollarea';
+import { Progress } from 'modl-shared-web/components/ui/progress';
 import { format, subDays, startOfDay, endOfDay } from 'date-fns';
-import { useLogs } from '@/hooks/use-data';
+import { useAuditEvents, useLogs } from '@/hooks/use-data';
 import { useQuery } from '@tanstack/react-query';
 import PageContainer from '@/components/layout/PageContainer';
 import { useToast } from 'modl-shared-web/hooks/use-toast';
@@ -57,7 +58,22 @@ interface DatabaseLog {
   metadata?: Record<string, any>;
 }
 
-interface TransformedLog extends DatabaseLog {
+type AuditActorType = 'staff' | 'api_key' | 'plugin' | 'system' | 'ai';
+
+interface AuditEvent {
+  id: string;
+  action: string;
+  category: string;
+  summary: string;
+  actor: { type: AuditActorType; id?: string | null; name: string };
+  target: { type: string; id: string; name?: string | null } | null;
+  changes: { path: string; before: unknown; after: unknown }[];
+  request: { method: string; path: string; ip: string | null; userAgent: string | null } | null;
+  metadata: Record<string, any>;
+  createdAt: string;
+}
+
+interface TransformedAuditEvent extends AuditEvent {
   actionType: string;
   color: string;
   userType: string;
@@ -75,7 +91,7 @@ interface StaffMember {
   punishmentsIssued: number;
   avgResponseTime: number;
   lastActive: string;
-  recentActions: TransformedLog[];
+  recentActions: TransformedAuditEvent[];
 }
 
 interface PunishmentAction {
@@ -93,76 +109,68 @@ interface PunishmentAction {
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d'];
 
-// Enhanced action type mapping with icons
-const getActionDetails = (level: string, source: string, description: string) => {
-  const descLower = description.toLowerCase();
-  
-  if (descLower.includes('ban') || descLower.includes('mute') || descLower.includes('kick') || descLower.includes('punishment')) {
+const ACTOR_TYPE_LABELS: Record<AuditActorType, string> = {
+  staff: 'Staff',
+  api_key: 'API Key',
+  plugin: 'Plugin',
+  system: 'System',
+  ai: 'AI'
+};
+
+const CONFIGURATION_CATEGORIES = ['settings', 'api_key', 'webhook', 'role', 'staff'];
+
+// Action type mapping with icons, based on the event category and actor
+const getEventDetails = (event: AuditEvent) => {
+  const userType = ACTOR_TYPE_LABELS[event.actor.type] || 'System';
+
+  if (['punishment', 'network_ban', 'connection_policy'].includes(event.category)) {
     return { 
       actionType: 'moderation', 
       color: 'destructive', 
-      userType: 'Moderation',
+      userType,
       icon: <Shield className="h-4 w-4" />
     };
   }
   
-  if (descLower.includes('ticket')) {
+  if (event.category === 'ticket' || event.category === 'appeal') {
     return { 
       actionType: 'ticket', 
       color: 'primary', 
-      userType: 'Support',
+      userType,
       icon: <FileText className="h-4 w-4" />
     };
   }
   
-  if (descLower.includes('setting') || descLower.includes('config')) {
+  if (CONFIGURATION_CATEGORIES.includes(event.category)) {
     return { 
       actionType: 'settings', 
       color: 'secondary', 
-      userType: 'Configuration',
+      userType,
       icon: <Settings className="h-4 w-4" />
     };
   }
   
-  switch (level) {
-    case 'moderation':
-      return { 
-        actionType: 'moderation', 
-        color: 'warning', 
-        userType: 'Staff',
-        icon: <Shield className="h-4 w-4" />
-      };
-    case 'error':
-      return { 
-        actionType: 'error', 
-        color: 'destructive', 
-        userType: 'System',
-        icon: <AlertCircle className="h-4 w-4" />
-      };
-    case 'warning':
-      return { 
-        actionType: 'warning', 
-        color: 'warning', 
-        userType: 'System',
-        icon: <AlertTriangle className="h-4 w-4" />
-      };
-    case 'info':
-    default:
-      if (source !== 'system' && source !== 'System') {
-        return { 
-          actionType: 'user', 
-          color: 'primary', 
-          userType: 'User',
-          icon: <User className="h-4 w-4" />
-        };
-      }
-      return { 
-        actionType: 'system', 
-        color: 'secondary', 
-        userType: 'System',
-        icon: <Bot className="h-4 w-4" />
-      };
+  if (event.actor.type === 'system' || event.actor.type === 'ai') {
+    return { 
+      actionType: 'system', 
+      color: 'secondary', 
+      userType,
+      icon: <Bot className="h-4 w-4" />
+    };
   }
+
+  return { 
+    actionType: 'user', 
+    color: 'primary', 
+    userType,
+    icon: <User className="h-4 w-4" />
+  };
+};
+
+const formatAuditValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
 };
 
 const formatRelativeTime = (date: Date) => {
@@ -256,6 +264,433 @@ const rollbackPunishment = async (id: string, reason?: string) => {
   return response.json();
 };
 
+interface RollbackPreviewPunishment {
+  id: string;
+  playerUuid: string;
+  playerName: string;
+  typeOrdinal: number;
+  issuerName: string;
+  issued: string;
+  reason: string | null;
+  evidenceCount: number;
+  alreadyRolledBack: boolean;
+  linkedTo: string | null;
+}
+
+interface RollbackPreview {
+  description: string;
+  punishments: RollbackPreviewPunishment[];
+  linkedBans: RollbackPreviewPunishment[];
+  players: { uuid: string; name: string; punishments: number }[];
+  totals: { punishments: number; linkedBans: number; players: number; alreadyRolledBack: number; missing: number };
+}
+
+interface RollbackJobItem {
+  punishmentId: string;
+  playerUuid: string;
+  playerName: string;
+  linkedTo: string | null;
+  status: 'pending' | 'rolled_back' | 'skipped' | 'failed' | 'restored';
+  error: string | null;
+}
+
+interface RollbackJob {
+  id: string;
+  description: string;
+  reason: string;
+  status: 'running' | 'completed' | 'failed' | 'undoing' | 'undone';
+  createdBy: string;
+  progress: { total: number; processed: number; rolledBack: number; skipped: number; failed: number; restored: number };
+  error: string | null;
+  startedAt: string;
+  completedAt: string | null;
+  undoneBy: string | null;
+  undoneAt: string | null;
+  canUndo: boolean;
+  items?: RollbackJobItem[];
+}
+
+// A rollback request: the endpoint and the selection to send to it
+interface RollbackRequest {
+  title: string;
+  url: string;
+  body: Record<string, unknown>;
+}
+
+const requestRollback = async (request: RollbackRequest, dryRun: boolean, includeLinkedBans: boolean) => {
+  const { csrfFetch } = await import('@/utils/csrf');
+  const response = await csrfFetch(request.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...request.body, includeLinkedBans, dryRun })
+  });
+  if (!response.ok) throw new Error(dryRun ? 'Failed to preview rollback' : 'Failed to start rollback');
+  return response.json();
+};
+
+const fetchRollbackJobs = async (): Promise<RollbackJob[]> => {
+  const response = await fetch('/api/panel/audit/rollback-jobs');
+  if (!response.ok) throw new Error('Failed to fetch rollback jobs');
+  return response.json();
+};
+
+const fetchRollbackJob = async (id: string): Promise<RollbackJob> => {
+  const response = await fetch(`/api/panel/audit/rollback-jobs/${id}`);
+  if (!response.ok) throw new Error('Failed to fetch rollback job');
+  return response.json();
+};
+
+const undoRollbackJob = async (id: string): Promise<RollbackJob> => {
+  const { csrfFetch } = await import('@/utils/csrf');
+  const response = await csrfFetch(`/api/panel/audit/rollback-jobs/${id}/undo`, { method: 'POST' });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Failed to undo rollback');
+  }
+  return (await response.json()).job;
+};
+
+const ROLLBACK_JOB_STATUS_LABELS: Record<RollbackJob['status'], string> = {
+  running: 'Running',
+  completed: 'Completed',
+  failed: 'Failed',
+  undoing: 'Undoing',
+  undone: 'Undone'
+};
+
+const isRollbackJobActive = (job?: RollbackJob) => job?.status === 'running' || job?.status === 'undoing';
+
+// Progress, report and undo for a single rollback job
+const RollbackJobReport = ({ jobId, onChange }: { jobId: string, onChange?: () => void }) => {
+  const { toast } = useToast();
+  const [isUndoing, setIsUndoing] = useState(false);
+
+  const { data: job, refetch } = useQuery({
+    queryKey: ['rollback-job', jobId],
+    queryFn: () => fetchRollbackJob(jobId),
+    refetchInterval: (query) => isRollbackJobActive(query.state.data) ? 1500 : false
+  });
+
+  if (!job) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <RefreshCw className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const handleUndo = async () => {
+    if (!confirm(`Restore the ${job.progress.rolledBack} punishments rolled back by this job?`)) {
+      return;
+    }
+
+    setIsUndoing(true);
+    try {
+      await undoRollbackJob(job.id);
+      toast({
+        title: "Undo Started",
+        description: `Restoring ${job.progress.rolledBack} punishments.`
+      });
+      await refetch();
+      onChange?.();
+    } catch (error) {
+      toast({
+        title: "Undo Failed",
+        description: error instanceof Error ? error.message : "Failed to undo rollback. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
+  const percent = job.progress.total > 0 ? Math.round((job.progress.processed / job.progress.total) * 100) : 100;
+  const undoPercent = job.progress.rolledBack > 0 ? Math.round((job.progress.restored / job.progress.rolledBack) * 100) : 100;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="font-medium">{job.description}</p>
+          <p className="text-xs text-muted-foreground">
+            Started by {job.createdBy} {formatRelativeTime(new Date(job.startedAt))}
+            {job.undoneBy && ` • undone by ${job.undoneBy}`}
+          </p>
+        </div>
+        <Badge variant={job.status === 'failed' ? 'destructive' : 'outline'}>
+          {ROLLBACK_JOB_STATUS_LABELS[job.status]}
+        </Badge>
+      </div>
+
+      <div>
+        <div className="flex justify-between text-xs text-muted-foreground mb-1">
+          <span>{job.status === 'undoing' || job.status === 'undone' ? 'Restored' : 'Processed'}</span>
+          <span>
+            {job.status === 'undoing' || job.status === 'undone'
+              ? `${job.progress.restored} / ${job.progress.rolledBack}`
+              : `${job.progress.processed} / ${job.progress.total}`}
+          </span>
+        </div>
+        <Progress value={job.status === 'undoing' || job.status === 'undone' ? undoPercent : percent} />
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 text-center">
+        <div className="p-2 bg-muted/50 rounded">
+          <p className="text-lg font-bold">{job.progress.rolledBack}</p>
+          <p className="text-xs text-muted-foreground">Rolled back</p>
+        </div>
+        <div className="p-2 bg-muted/50 rounded">
+          <p className="text-lg font-bold">{job.progress.skipped}</p>
+          <p className="text-xs text-muted-foreground">Skipped</p>
+        </div>
+        <div className="p-2 bg-muted/50 rounded">
+          <p className="text-lg font-bold text-destructive">{job.progress.failed}</p>
+          <p className="text-xs text-muted-foreground">Failed</p>
+        </div>
+        <div className="p-2 bg-muted/50 rounded">
+          <p className="text-lg font-bold">{job.progress.restored}</p>
+          <p className="text-xs text-muted-foreground">Restored</p>
+        </div>
+      </div>
+
+      {job.error && <p className="text-sm text-destructive">{job.error}</p>}
+
+      {job.items && job.items.length > 0 && (
+        <ScrollArea className="h-48 border rounded">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="p-2">Punishment</th>
+                <th className="p-2">Player</th>
+                <th className="p-2">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {job.items.map(item => (
+                <tr key={item.punishmentId} className="border-b">
+                  <td className="p-2 font-mono">
+                    {item.punishmentId}
+                    {item.linkedTo && <span className="text-muted-foreground"> (linked to {item.linkedTo})</span>}
+                  </td>
+                  <td className="p-2">{item.playerName}</td>
+                  <td className="p-2">
+                    {item.status.replace('_', ' ')}
+                    {item.error && <span className="text-muted-foreground"> — {item.error}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </ScrollArea>
+      )}
+
+      {job.canUndo && (
+        <Button variant="outline" size="sm" onClick={handleUndo} disabled={isUndoing}>
+          <Undo2 className="h-4 w-4 mr-2" />
+          Undo Rollback
+        </Button>
+      )}
+    </div>
+  );
+};
+
+// Dry-run preview of a bulk rollback, then the job it starts once confirmed
+const RollbackPreviewDialog = ({ request, onClose, onComplete }: {
+  request: RollbackRequest | null,
+  onClose: () => void,
+  onComplete?: () => void
+}) => {
+  const { toast } = useToast();
+  const [includeLinkedBans, setIncludeLinkedBans] = useState(true);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const { data: preview, isLoading, error } = useQuery<RollbackPreview>({
+    queryKey: ['rollback-preview', request?.url, request?.body, includeLinkedBans],
+    queryFn: () => requestRollback(request!, true, includeLinkedBans),
+    enabled: !!request && !jobId
+  });
+
+  const handleClose = () => {
+    setJobId(null);
+    setIncludeLinkedBans(true);
+    onClose();
+  };
+
+  const handleConfirm = async () => {
+    if (!request) return;
+
+    setIsStarting(true);
+    try {
+      const data = await requestRollback(request, false, includeLinkedBans);
+      setJobId(data.job.id);
+      onComplete?.();
+    } catch (error) {
+      toast({
+        title: "Rollback Failed",
+        description: "Failed to start the rollback. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const affected = preview ? [...preview.punishments, ...preview.linkedBans] : [];
+  const pending = affected.filter(punishment => !punishment.alreadyRolledBack).length;
+
+  return (
+    <Dialog open={!!request} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{request?.title}</DialogTitle>
+        </DialogHeader>
+
+        {jobId ? (
+          <RollbackJobReport jobId={jobId} onChange={onComplete} />
+        ) : isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <RefreshCw className="h-6 w-6 animate-spin" />
+          </div>
+        ) : error || !preview ? (
+          <p className="text-sm text-destructive py-4">Failed to preview the rollback.</p>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Nothing has been changed yet. Review what this rollback would affect before confirming it.
+              Evidence, notes and history are kept, and the rollback can be undone afterwards.
+            </p>
+
+            <div className="grid grid-cols-4 gap-2 text-center">
+              <div className="p-2 bg-muted/50 rounded">
+                <p className="text-lg font-bold">{preview.totals.punishments}</p>
+                <p className="text-xs text-muted-foreground">Punishments</p>
+              </div>
+              <div className="p-2 bg-muted/50 rounded">
+                <p className="text-lg font-bold">{preview.totals.linkedBans}</p>
+                <p className="text-xs text-muted-foreground">Linked bans</p>
+              </div>
+              <div className="p-2 bg-muted/50 rounded">
+                <p className="text-lg font-bold">{preview.totals.players}</p>
+                <p className="text-xs text-muted-foreground">Players</p>
+              </div>
+              <div className="p-2 bg-muted/50 rounded">
+                <p className="text-lg font-bold">{preview.totals.alreadyRolledBack}</p>
+                <p className="text-xs text-muted-foreground">Already rolled back</p>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="include-linked-bans"
+                checked={includeLinkedBans}
+                onCheckedChange={(checked) => setIncludeLinkedBans(checked === true)}
+              />
+              <label htmlFor="include-linked-bans" className="text-sm">
+                Also roll back linked and alt-blocking bans issued because of these punishments
+              </label>
+            </div>
+
+            <ScrollArea className="h-64 border rounded">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="p-2">Punishment</th>
+                    <th className="p-2">Player</th>
+                    <th className="p-2">Issued by</th>
+                    <th className="p-2">Reason</th>
+                    <th className="p-2">Evidence</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {affected.map(punishment => (
+                    <tr key={punishment.id} className={cn("border-b", punishment.alreadyRolledBack && "text-muted-foreground line-through")}>
+                      <td className="p-2 font-mono">
+                        {punishment.id}
+                        {punishment.linkedTo && <Badge variant="outline" className="ml-1 text-[10px]">linked to {punishment.linkedTo}</Badge>}
+                      </td>
+                      <td className="p-2">{punishment.playerName}</td>
+                      <td className="p-2">{punishment.issuerName}</td>
+                      <td className="p-2 max-w-[200px] truncate">{punishment.reason || '—'}</td>
+                      <td className="p-2">{punishment.evidenceCount}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </ScrollArea>
+
+            {preview.totals.missing > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {preview.totals.missing} punishments from the audit trail no longer exist and will be ignored.
+              </p>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={handleClose}>
+                Cancel
+              </Button>
+              <Button variant="destructive" size="sm" onClick={handleConfirm} disabled={isStarting || pending === 0}>
+                <Undo2 className="h-4 w-4 mr-2" />
+                Roll Back {pending} Punishments
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Recent rollback jobs with their reports
+const RollbackJobsList = () => {
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+
+  const { data: jobs = [], refetch } = useQuery({
+    queryKey: ['rollback-jobs'],
+    queryFn: fetchRollbackJobs,
+    refetchInterval: (query) => (query.state.data || []).some(isRollbackJobActive) ? 3000 : false
+  });
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">Recent Rollback Jobs</h4>
+      {jobs.map(job => (
+        <div key={job.id} className="border rounded-lg p-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium">{job.description}</p>
+              <p className="text-xs text-muted-foreground">
+                {job.progress.rolledBack} rolled back • by {job.createdBy} • {formatRelativeTime(new Date(job.startedAt))}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant={job.status === 'failed' ? 'destructive' : 'outline'}>
+                {ROLLBACK_JOB_STATUS_LABELS[job.status]}
+              </Badge>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelectedJobId(selectedJobId === job.id ? null : job.id)}
+              >
+                {selectedJobId === job.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+          {selectedJobId === job.id && (
+            <div className="mt-3">
+              <RollbackJobReport jobId={job.id} onChange={() => refetch()} />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
 // Database exploration modal component
 const DatabaseExplorerModal = () => {
   const [selectedTable, setSelectedTable] = useState('players');
@@ -491,6 +926,7 @@ const StaffPerformanceModal = () => {
 const PunishmentRollbackModal = () => {
   const { toast } = useToast();
   const [bulkTimeRange, setBulkTimeRange] = useState('24h');
+  const [rollbackRequest, setRollbackRequest] = useState<RollbackRequest | null>(null);
   
   const { data: punishments = [], isLoading, refetch } = useQuery({
     queryKey: ['punishments-rollback'],
@@ -515,37 +951,15 @@ const PunishmentRollbackModal = () => {
     }
   };
   
-  const handleBulkRollback = async () => {
-    if (!confirm(`Are you sure you want to rollback ALL punishments from the last ${bulkTimeRange}? This action cannot be undone.`)) {
-      return;
-    }
-    
-    try {
-      const { csrfFetch } = await import('@/utils/csrf');
-      const response = await csrfFetch('/api/panel/audit/punishments/bulk-rollback', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          timeRange: bulkTimeRange,
-          reason: `Bulk rollback for ${bulkTimeRange} from audit panel`
-        })
-      });
-      
-      if (!response.ok) throw new Error('Failed to bulk rollback');
-      
-      const data = await response.json();
-      toast({
-        title: "Bulk Rollback Completed",
-        description: `${data.count} punishments have been rolled back.`
-      });
-      refetch();
-    } catch (error) {
-      toast({
-        title: "Bulk Rollback Failed",
-        description: "Failed to rollback punishments. Please try again.",
-        variant: "destructive"
-      });
-    }
+  const handleBulkRollback = () => {
+    setRollbackRequest({
+      title: `Rollback all punishments from the last ${bulkTimeRange}`,
+      url: '/api/panel/audit/punishments/bulk-rollback',
+      body: {
+        timeRange: bulkTimeRange,
+        reason: `Bulk rollback for ${bulkTimeRange} from audit panel`
+      }
+    });
   };
 
   return (
@@ -585,12 +999,14 @@ const PunishmentRollbackModal = () => {
               className="ml-2"
             >
               <Undo2 className="h-4 w-4 mr-2" />
-              Execute Bulk Rollback
+              Preview Bulk Rollback
             </Button>
           </div>
         </div>
         
         <div className="space-y-4 overflow-auto max-h-[50vh]">
+          <RollbackJobsList />
+          
           {isLoading ? (
             <div className="flex items-center justify-center py-8">
               <RefreshCw className="h-6 w-6 animate-spin" />
@@ -645,6 +1061,12 @@ const PunishmentRollbackModal = () => {
             ))
           )}
         </div>
+
+        <RollbackPreviewDialog
+          request={rollbackRequest}
+          onClose={() => setRollbackRequest(null)}
+          onComplete={() => refetch()}
+        />
       </DialogContent>
     </Dialog>
   );
@@ -660,6 +1082,7 @@ const StaffDetailModal = ({ staff, isOpen, onClose }: {
   const [showBulkRollback, setShowBulkRollback] = useState(false);
   const [rollbackStartDate, setRollbackStartDate] = useState<Date | undefined>(undefined);
   const [rollbackEndDate, setRollbackEndDate] = useState<Date | undefined>(undefined);
+  const [rollbackRequest, setRollbackRequest] = useState<RollbackRequest | null>(null);
   const { toast } = useToast();
   const { openPlayerWindow } = usePlayerWindow();
   
@@ -678,7 +1101,7 @@ const StaffDetailModal = ({ staff, isOpen, onClose }: {
   const recentTickets = staffDetails?.tickets || [];
   const evidenceCount = staffDetails?.evidenceUploads || 0;
 
-  const handleBulkRollback = async () => {
+  const handleBulkRollback = () => {
     if (!rollbackStartDate || !rollbackEndDate) {
       toast({
         title: "Invalid Date Range",
@@ -697,38 +1120,16 @@ const StaffDetailModal = ({ staff, isOpen, onClose }: {
       return;
     }
 
-    try {
-      const { csrfFetch } = await import('@/utils/csrf');
-      const response = await csrfFetch(`/api/panel/audit/staff/${staff.username}/rollback-date-range`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          startDate: rollbackStartDate.toISOString(),
-          endDate: rollbackEndDate.toISOString(),
-          reason: `Bulk rollback for ${staff.username} from ${format(rollbackStartDate, 'MMM d, yyyy')} to ${format(rollbackEndDate, 'MMM d, yyyy')}`
-        })
-      });
-      
-      if (!response.ok) throw new Error('Failed to rollback');
-      
-      const data = await response.json();
-      toast({
-        title: "Bulk Rollback Completed",
-        description: `Successfully rolled back ${data.count} punishments by ${staff.username}`
-      });
-      
-      setShowBulkRollback(false);
-      setRollbackStartDate(undefined);
-      setRollbackEndDate(undefined);
-      // Refetch the staff details to show updated data
-      refetch();
-    } catch (error) {
-      toast({
-        title: "Bulk Rollback Failed",
-        description: "Failed to rollback punishments. Please try again.",
-        variant: "destructive"
-      });
-    }
+    setRollbackRequest({
+      title: `Rollback punishments by ${staff.username}`,
+      url: `/api/panel/audit/staff/${staff.username}/rollback-date-range`,
+      body: {
+        startDate: rollbackStartDate.toISOString(),
+        endDate: rollbackEndDate.toISOString(),
+        reason: `Bulk rollback for ${staff.username} from ${format(rollbackStartDate, 'MMM d, yyyy')} to ${format(rollbackEndDate, 'MMM d, yyyy')}`
+      }
+    });
+    setShowBulkRollback(false);
   };
 
   return (
@@ -742,6 +1143,16 @@ const StaffDetailModal = ({ staff, isOpen, onClose }: {
           </DialogTitle>
         </DialogHeader>
         
+        <RollbackPreviewDialog
+          request={rollbackRequest}
+          onClose={() => {
+            setRollbackRequest(null);
+            setRollbackStartDate(undefined);
+            setRollbackEndDate(undefined);
+          }}
+          onComplete={() => refetch()}
+        />
+
         {/* Bulk Rollback Controls - Moved outside header */}
         <div className="flex justify-end mb-4">
           <Popover open={showBulkRollback} onOpenChange={setShowBulkRollback}>
@@ -832,7 +1243,7 @@ const StaffDetailModal = ({ staff, isOpen, onClose }: {
                     onClick={handleBulkRollback}
                     disabled={!rollbackStartDate || !rollbackEndDate}
                   >
-                    Apply Rollback
+                    Preview Rollback
                   </Button>
                 </div>
               </div>
@@ -1250,32 +1661,21 @@ const fetchStaffDetails = async (username: string, period: string) => {
   return response.json();
 };
 
+// Line colors of the ticket trend categories, Overall first
+const CATEGORY_COLORS = ['#6366f1', '#ef4444', '#3b82f6', '#8b5cf6', '#f59e0b', '#10b981', '#ec4899', '#14b8a6', '#f97316', '#84cc16'];
+
 // Ticket Analytics Section Component
 const TicketAnalyticsSection = ({ analyticsPeriod }: { analyticsPeriod: string }) => {
-  // Define the correct ticket categories
-  const ticketCategories = ['Overall', 'Bug', 'Support', 'Appeal', 'Player Report', 'Chat Report', 'Application'];
-  
   // Normalize category names for data keys (lowercase, spaces to underscores)
   const normalizeCategory = (category: string) => {
     return category.toLowerCase().replace(/\s+/g, '_');
   };
 
-  // Initialize with all categories selected
-  const [visibleLines, setVisibleLines] = useState(() => {
-    const initialState = {
-      responseTime: {} as Record<string, boolean>,
-      opened: {} as Record<string, boolean>,
-      closed: {} as Record<string, boolean>
-    };
-    
-    ticketCategories.forEach(category => {
-      const key = normalizeCategory(category);
-      initialState.responseTime[key] = true;
-      initialState.opened[key] = true;
-      initialState.closed[key] = true;
-    });
-    
-    return initialState;
+  // Lines that were hidden, every category is shown until it is unchecked
+  const [visibleLines, setVisibleLines] = useState({
+    responseTime: {} as Record<string, boolean>,
+    opened: {} as Record<string, boolean>,
+    closed: {} as Record<string, boolean>
   });
 
   const { data: ticketAnalytics } = useQuery({
@@ -1284,6 +1684,12 @@ const TicketAnalyticsSection = ({ analyticsPeriod }: { analyticsPeriod: string }
     staleTime: 5 * 60 * 1000
   });
 
+  // The tenant's ticket categories
+  const ticketCategories: string[] = useMemo(
+    () => ['Overall', ...(ticketAnalytics?.categories || [])],
+    [ticketAnalytics]
+  );
+
   // Process data for the chart
   const chartData = useMemo(() => {
     if (!ticketAnalytics) return [];
@@ -1382,7 +1788,7 @@ const TicketAnalyticsSection = ({ analyticsPeriod }: { analyticsPeriod: string }
       ...prev,
       [type]: {
         ...prev[type],
-        [category]: !prev[type][category]
+        [category]: prev[type][category] === false
       }
     }));
   };
@@ -1397,15 +1803,9 @@ const TicketAnalyticsSection = ({ analyticsPeriod }: { analyticsPeriod: string }
     }));
   };
 
-  const categoryColors = {
-    overall: '#6366f1',  // Indigo instead of black
-    bug: '#ef4444',
-    support: '#3b82f6', 
-    appeal: '#8b5cf6',
-    player_report: '#f59e0b',
-    chat_report: '#10b981',
-    application: '#ec4899'
-  };
+  const categoryColors: Record<string, string> = Object.fromEntries(
+    ticketCategories.map((category, index) => [normalizeCategory(category), CATEGORY_COLORS[index % CATEGORY_COLORS.length]])
+  );
 
   return (
     <div className="space-y-6">
@@ -1449,7 +1849,7 @@ const TicketAnalyticsSection = ({ analyticsPeriod }: { analyticsPeriod: string }
             {/* Line type dropdowns with checkboxes */}
             {['responseTime', 'opened', 'closed'].map(type => {
               const allSelected = ticketCategories.every(category => 
-                visibleLines[type][normalizeCategory(category)]
+                visibleLines[type][normalizeCategory(category)] !== false
               );
               
               return (
@@ -1483,7 +1883,7 @@ const TicketAnalyticsSection = ({ analyticsPeriod }: { analyticsPeriod: string }
                         {/* Individual category checkboxes */}
                         {ticketCategories.map(category => {
                           const normalizedCategory = normalizeCategory(category);
-                          const isChecked = visibleLines[type][normalizedCategory];
+                          const isChecked = visibleLines[type][normalizedCategory] !== false;
                           
                           return (
                             <div key={category} className="flex items-center space-x-2">
@@ -1524,7 +1924,7 @@ const TicketAnalyticsSection = ({ analyticsPeriod }: { analyticsPeriod: string }
               {/* Response Time Lines */}
               {ticketCategories.map(category => {
                 const normalizedCategory = normalizeCategory(category);
-                return visibleLines.responseTime[normalizedCategory] && (
+                return visibleLines.responseTime[normalizedCategory] !== false && (
                   <Line
                     key={`responseTime_${normalizedCategory}`}
                     type="monotone"
@@ -1542,7 +1942,7 @@ const TicketAnalyticsSection = ({ analyticsPeriod }: { analyticsPeriod: string }
               {/* Opened Lines */}
               {ticketCategories.map(category => {
                 const normalizedCategory = normalizeCategory(category);
-                return visibleLines.opened[normalizedCategory] && (
+                return visibleLines.opened[normalizedCategory] !== false && (
                   <Line
                     key={`opened_${normalizedCategory}`}
                     type="monotone"
@@ -1558,7 +1958,7 @@ const TicketAnalyticsSection = ({ analyticsPeriod }: { analyticsPeriod: string }
               {/* Closed Lines */}
               {ticketCategories.map(category => {
                 const normalizedCategory = normalizeCategory(category);
-                return visibleLines.closed[normalizedCategory] && (
+                return visibleLines.closed[normalizedCategory] !== false && (
                   <Line
                     key={`closed_${normalizedCategory}`}
                     type="monotone"
@@ -1582,7 +1982,7 @@ const AuditLog = () => {
   const { toast } = useToast();
   const [searchQuery, setSearchQuery] = useState("");
   const [actionFilter, setActionFilter] = useState("all");
-  const [severityFilter, setSeverityFilter] = useState("all");
+  const [actorTypeFilter, setActorTypeFilter] = useState("all");
   const [dateRange, setDateRange] = useState<{from: Date | undefined, to: Date | undefined}>({
     from: undefined,
     to: undefined
@@ -1593,46 +1993,51 @@ const AuditLog = () => {
   
   const itemsPerPage = 20;
   
-  const { data: logsData, isLoading, error, refetch, isRefetching } = useLogs();
+  const { data: eventsData, isLoading, error, refetch, isRefetching } = useAuditEvents();
+  // Errors and warnings are not audit events, they still come from the system log
+  const { data: logsData } = useLogs();
   
-  const transformedLogs = useMemo(() => {
-    return (logsData as DatabaseLog[] || []).map((log): TransformedLog => {
-      const details = getActionDetails(log.level, log.source, log.description);
-      const logDate = new Date(log.created);
+  const transformedEvents = useMemo(() => {
+    return (eventsData as AuditEvent[] || []).map((event): TransformedAuditEvent => {
+      const details = getEventDetails(event);
+      const eventDate = new Date(event.createdAt);
       
       return {
-        ...log,
+        ...event,
         ...details,
-        formattedTime: format(logDate, 'MMM d, yyyy HH:mm:ss'),
-        relativeTime: formatRelativeTime(logDate)
+        formattedTime: format(eventDate, 'MMM d, yyyy HH:mm:ss'),
+        relativeTime: formatRelativeTime(eventDate)
       };
     });
-  }, [logsData]);
+  }, [eventsData]);
   
   const filteredLogs = useMemo(() => {
-    return transformedLogs.filter(log => {
-      if (searchQuery && !log.description.toLowerCase().includes(searchQuery.toLowerCase()) && 
-          !log.source.toLowerCase().includes(searchQuery.toLowerCase())) {
+    const query = searchQuery.toLowerCase();
+    return transformedEvents.filter(event => {
+      if (query && !event.summary.toLowerCase().includes(query) && 
+          !event.actor.name.toLowerCase().includes(query) &&
+          !event.action.toLowerCase().includes(query) &&
+          !(event.target?.id || '').toLowerCase().includes(query)) {
         return false;
       }
       
-      if (actionFilter !== "all" && log.actionType !== actionFilter) {
+      if (actionFilter !== "all" && event.actionType !== actionFilter) {
         return false;
       }
       
-      if (severityFilter !== "all" && log.level !== severityFilter) {
+      if (actorTypeFilter !== "all" && event.actor.type !== actorTypeFilter) {
         return false;
       }
       
       if (dateRange.from || dateRange.to) {
-        const logDate = new Date(log.created);
-        if (dateRange.from && logDate < startOfDay(dateRange.from)) return false;
-        if (dateRange.to && logDate > endOfDay(dateRange.to)) return false;
+        const eventDate = new Date(event.createdAt);
+        if (dateRange.from && eventDate < startOfDay(dateRange.from)) return false;
+        if (dateRange.to && eventDate > endOfDay(dateRange.to)) return false;
       }
       
       return true;
     });
-  }, [transformedLogs, searchQuery, actionFilter, severityFilter, dateRange]);
+  }, [transformedEvents, searchQuery, actionFilter, actorTypeFilter, dateRange]);
   
   const paginatedLogs = useMemo(() => {
     const startIndex = (currentPage - 1) * itemsPerPage;
@@ -1646,47 +2051,52 @@ const AuditLog = () => {
     const last24h = subDays(new Date(), 1);
     const last7d = subDays(new Date(), 7);
     
-    const logs24h = transformedLogs.filter(log => new Date(log.created) >= last24h);
-    const logs7d = transformedLogs.filter(log => new Date(log.created) >= last7d);
+    const events24h = transformedEvents.filter(event => new Date(event.createdAt) >= last24h);
+    const events7d = transformedEvents.filter(event => new Date(event.createdAt) >= last7d);
+    const systemLogs = (logsData as DatabaseLog[] || []);
+    const logs24h = systemLogs.filter(log => new Date(log.created) >= last24h);
+    const errorLogs = systemLogs.filter(log => log.level === 'error');
+    
+    const isOnDay = (value: string, date: Date) => {
+      const valueDate = new Date(value);
+      return valueDate >= startOfDay(date) && valueDate <= endOfDay(date);
+    };
     
     // Activity trends for the past 7 days
     const dailyActivity = Array.from({ length: 7 }, (_, i) => {
       const date = subDays(new Date(), 6 - i);
-      const dayLogs = transformedLogs.filter(log => {
-        const logDate = new Date(log.created);
-        return logDate >= startOfDay(date) && logDate <= endOfDay(date);
-      });
+      const dayEvents = transformedEvents.filter(event => isOnDay(event.createdAt, date));
       
       return {
         date: format(date, 'MMM dd'),
-        total: dayLogs.length,
-        moderation: dayLogs.filter(log => log.actionType === 'moderation').length,
-        tickets: dayLogs.filter(log => log.actionType === 'ticket').length,
-        errors: dayLogs.filter(log => log.level === 'error').length
+        total: dayEvents.length,
+        moderation: dayEvents.filter(event => event.actionType === 'moderation').length,
+        tickets: dayEvents.filter(event => event.actionType === 'ticket').length,
+        errors: errorLogs.filter(log => isOnDay(log.created, date)).length
       };
     });
     
     // Action type distribution
     const actionDistribution = [
-      { name: 'Moderation', value: transformedLogs.filter(log => log.actionType === 'moderation').length, color: '#ff6b6b' },
-      { name: 'Tickets', value: transformedLogs.filter(log => log.actionType === 'ticket').length, color: '#4ecdc4' },
-      { name: 'System', value: transformedLogs.filter(log => log.actionType === 'system').length, color: '#45b7d1' },
-      { name: 'User Actions', value: transformedLogs.filter(log => log.actionType === 'user').length, color: '#96ceb4' },
-      { name: 'Settings', value: transformedLogs.filter(log => log.actionType === 'settings').length, color: '#ffeaa7' },
-      { name: 'Errors', value: transformedLogs.filter(log => log.actionType === 'error').length, color: '#fd79a8' }
+      { name: 'Moderation', value: transformedEvents.filter(event => event.actionType === 'moderation').length, color: '#ff6b6b' },
+      { name: 'Tickets', value: transformedEvents.filter(event => event.actionType === 'ticket').length, color: '#4ecdc4' },
+      { name: 'System', value: transformedEvents.filter(event => event.actionType === 'system').length, color: '#45b7d1' },
+      { name: 'User Actions', value: transformedEvents.filter(event => event.actionType === 'user').length, color: '#96ceb4' },
+      { name: 'Settings', value: transformedEvents.filter(event => event.actionType === 'settings').length, color: '#ffeaa7' },
+      { name: 'Errors', value: errorLogs.length, color: '#fd79a8' }
     ].filter(item => item.value > 0);
     
     return {
-      total24h: logs24h.length,
-      total7d: logs7d.length,
+      total24h: events24h.length,
+      total7d: events7d.length,
       errors: logs24h.filter(log => log.level === 'error').length,
       warnings: logs24h.filter(log => log.level === 'warning').length,
-      moderations: logs24h.filter(log => log.actionType === 'moderation').length,
-      tickets: logs24h.filter(log => log.actionType === 'ticket').length,
+      moderations: events24h.filter(event => event.actionType === 'moderation').length,
+      tickets: events24h.filter(event => event.actionType === 'ticket').length,
       dailyActivity,
       actionDistribution
     };
-  }, [transformedLogs]);
+  }, [transformedEvents, logsData]);
   
   // Comprehensive analytics data
   const [analyticsPeriod, setAnalyticsPeriod] = useState('30d');
@@ -1747,13 +2157,14 @@ const AuditLog = () => {
       let mimeType: string;
       
       if (format === 'csv') {
-        const headers = ['Time', 'Level', 'Source', 'Description', 'Type'];
-        const rows = filteredLogs.map(log => [
-          log.formattedTime,
-          log.level,
-          log.source,
-          log.description.replace(/"/g, '""'),
-          log.actionType
+        const headers = ['Time', 'Action', 'Actor', 'Actor Type', 'Target', 'Summary'];
+        const rows = filteredLogs.map(event => [
+          event.formattedTime,
+          event.action,
+          event.actor.name.replace(/"/g, '""'),
+          event.actor.type,
+          event.target ? `${event.target.type}:${event.target.id}`.replace(/"/g, '""') : '',
+          event.summary.replace(/"/g, '""')
         ]);
         
         content = [
@@ -1764,13 +2175,15 @@ const AuditLog = () => {
         filename = `audit-logs-${format(new Date(), 'yyyy-MM-dd')}.csv`;
         mimeType = 'text/csv';
       } else {
-        content = JSON.stringify(filteredLogs.map(log => ({
-          time: log.created,
-          level: log.level,
-          source: log.source,
-          description: log.description,
-          type: log.actionType,
-          metadata: log.metadata
+        content = JSON.stringify(filteredLogs.map(event => ({
+          time: event.createdAt,
+          action: event.action,
+          actor: event.actor,
+          target: event.target,
+          summary: event.summary,
+          changes: event.changes,
+          request: event.request,
+          metadata: event.metadata
         })), null, 2);
         
         filename = `audit-logs-${format(new Date(), 'yyyy-MM-dd')}.json`;
@@ -2356,7 +2769,7 @@ const AuditLog = () => {
                   <div className="relative">
                     <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                     <Input
-                      placeholder="Search logs..."
+                      placeholder="Search events..."
                       value={searchQuery}
                       onChange={(e) => setSearchQuery(e.target.value)}
                       className="pl-9"
@@ -2372,22 +2785,20 @@ const AuditLog = () => {
                       <SelectItem value="moderation">Moderation</SelectItem>
                       <SelectItem value="user">User Actions</SelectItem>
                       <SelectItem value="system">System</SelectItem>
-                      <SelectItem value="error">Errors</SelectItem>
                       <SelectItem value="ticket">Tickets</SelectItem>
                       <SelectItem value="settings">Settings</SelectItem>
                     </SelectContent>
                   </Select>
                   
-                  <Select value={severityFilter} onValueChange={setSeverityFilter}>
+                  <Select value={actorTypeFilter} onValueChange={setActorTypeFilter}>
                     <SelectTrigger>
-                      <SelectValue placeholder="All Levels" />
+                      <SelectValue placeholder="All Actors" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="all">All Levels</SelectItem>
-                      <SelectItem value="error">Error</SelectItem>
-                      <SelectItem value="warning">Warning</SelectItem>
-                      <SelectItem value="info">Info</SelectItem>
-                      <SelectItem value="moderation">Moderation</SelectItem>
+                      <SelectItem value="all">All Actors</SelectItem>
+                      {(Object.keys(ACTOR_TYPE_LABELS) as AuditActorType[]).map(type => (
+                        <SelectItem key={type} value={type}>{ACTOR_TYPE_LABELS[type]}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   
@@ -2485,74 +2896,72 @@ const AuditLog = () => {
                 {isLoading && (
                   <div className="p-8 text-center">
                     <RefreshCw className="h-8 w-8 animate-spin mx-auto mb-4 text-muted-foreground" />
-                    <p className="text-muted-foreground">Loading audit logs...</p>
+                    <p className="text-muted-foreground">Loading audit events...</p>
                   </div>
                 )}
                 
                 {error && (
                   <div className="p-8 text-center">
                     <AlertCircle className="h-8 w-8 mx-auto mb-4 text-destructive" />
-                    <p className="text-destructive">Error loading logs: {error.message}</p>
+                    <p className="text-destructive">Error loading audit events: {error.message}</p>
                   </div>
                 )}
                 
                 {!isLoading && !error && filteredLogs.length === 0 && (
                   <div className="p-8 text-center">
                     <Info className="h-8 w-8 mx-auto mb-4 text-muted-foreground" />
-                    <p className="text-muted-foreground">No audit logs found matching your filters.</p>
+                    <p className="text-muted-foreground">No audit events found matching your filters.</p>
                   </div>
                 )}
                 
                 {!isLoading && !error && paginatedLogs.length > 0 && (
                   <div className="divide-y">
-                    {paginatedLogs.map((log) => (
+                    {paginatedLogs.map((event) => (
                       <div
-                        key={log._id}
+                        key={event.id}
                         className={cn(
                           "p-4 hover:bg-muted/50 transition-colors",
-                          expandedLogs.has(log._id) && "bg-muted/30"
+                          expandedLogs.has(event.id) && "bg-muted/30"
                         )}
                       >
                         <div className="flex items-start justify-between gap-4">
                           <div className="flex items-start gap-3 flex-1 min-w-0">
                             <div className={cn(
                               "p-2 rounded-full flex-shrink-0",
-                              log.level === 'error' && "bg-destructive/10 text-destructive",
-                              log.level === 'warning' && "bg-warning/10 text-warning",
-                              log.level === 'moderation' && "bg-primary/10 text-primary",
-                              log.level === 'info' && "bg-secondary/10 text-secondary"
+                              event.actionType === 'moderation' && "bg-primary/10 text-primary",
+                              event.actionType !== 'moderation' && "bg-secondary/10 text-secondary"
                             )}>
-                              {log.icon}
+                              {event.icon}
                             </div>
                             
                             <div className="flex-1 min-w-0">
                               <div className="flex items-center gap-2 flex-wrap">
-                                <span className="font-medium">{log.source}</span>
-                                <Badge 
-                                  variant={log.level === 'error' ? 'destructive' : 
-                                          log.level === 'warning' ? 'secondary' : 
-                                          'outline'}
-                                  className="text-xs"
-                                >
-                                  {log.userType}
-                                </Badge>
+                                <span className="font-medium">{event.actor.name}</span>
                                 <Badge variant="outline" className="text-xs">
-                                  {log.level}
+                                  {event.userType}
                                 </Badge>
+                                <Badge variant="outline" className="text-xs font-mono">
+                                  {event.action}
+                                </Badge>
+                                {event.target && (
+                                  <Badge variant="secondary" className="text-xs">
+                                    {event.target.type}: {event.target.name || event.target.id}
+                                  </Badge>
+                                )}
                               </div>
                               
                               <p className="text-sm text-muted-foreground mt-1 break-words">
-                                {log.description}
+                                {event.summary}
                               </p>
                               
-                              {log.metadata && Object.keys(log.metadata).length > 0 && (
+                              {(event.changes.length > 0 || event.request || Object.keys(event.metadata || {}).length > 0) && (
                                 <Button
                                   variant="ghost"
                                   size="sm"
                                   className="mt-2 h-auto p-0 text-xs text-muted-foreground hover:text-foreground"
-                                  onClick={() => toggleLogExpansion(log._id)}
+                                  onClick={() => toggleLogExpansion(event.id)}
                                 >
-                                  {expandedLogs.has(log._id) ? (
+                                  {expandedLogs.has(event.id) ? (
                                     <>
                                       <ChevronUp className="h-3 w-3 mr-1" />
                                       Hide details
@@ -2566,19 +2975,47 @@ const AuditLog = () => {
                                 </Button>
                               )}
                               
-                              {expandedLogs.has(log._id) && log.metadata && (
-                                <div className="mt-3 p-3 bg-muted rounded-md">
-                                  <pre className="text-xs overflow-x-auto">
-                                    {JSON.stringify(log.metadata, null, 2)}
-                                  </pre>
+                              {expandedLogs.has(event.id) && (
+                                <div className="mt-3 p-3 bg-muted rounded-md space-y-3 text-xs">
+                                  {event.changes.length > 0 && (
+                                    <table className="w-full">
+                                      <thead>
+                                        <tr className="text-left text-muted-foreground">
+                                          <th className="pr-2 font-medium">Field</th>
+                                          <th className="pr-2 font-medium">Before</th>
+                                          <th className="font-medium">After</th>
+                                        </tr>
+                                      </thead>
+                                      <tbody>
+                                        {event.changes.map(change => (
+                                          <tr key={change.path} className="align-top">
+                                            <td className="pr-2 font-mono">{change.path}</td>
+                                            <td className="pr-2 break-all text-destructive">{formatAuditValue(change.before)}</td>
+                                            <td className="break-all text-success">{formatAuditValue(change.after)}</td>
+                                          </tr>
+                                        ))}
+                                      </tbody>
+                                    </table>
+                                  )}
+                                  {event.request && (
+                                    <p className="text-muted-foreground font-mono break-all">
+                                      {event.request.method} {event.request.path}
+                                      {event.request.ip && ` from ${event.request.ip}`}
+                                    </p>
+                                  )}
+                                  {Object.keys(event.metadata || {}).length > 0 && (
+                                    <pre className="overflow-x-auto">
+                                      {JSON.stringify(event.metadata, null, 2)}
+                                    </pre>
+                                  )}
                                 </div>
                               )}
                             </div>
                           </div>
                           
                           <div className="text-right flex-shrink-0">
-                            <p className="text-xs text-muted-foreground">{log.relativeTime}</p>
-                            <p className="text-xs text-muted-foreground mt-1">{log.formattedTime}</p>
+                            <p className="text-xs text-muted-foreground">{event.relativeTime}</p>
+                            <p className="text-xs text-muted-foreground mt-1">{event.formattedTime}</p>
                           </div>
                         </div>
                       </div>
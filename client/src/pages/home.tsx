@@ -12,6 +12,7 @@ import {
   useDashboardMetrics,
   useRecentTickets,
   useRecentPunishments,
+  useSlaOverview,
   useTicketSubscriptionUpdates,
   useUnsubscribeFromTicket,
   useMarkSubscriptionUpdateAsRead
@@ -22,6 +23,7 @@ import { DashboardMetricsChart } from '@/components/dashboard/DashboardMetricsCh
 import { RecentTicketsSection } from '@/components/dashboard/RecentTicketsSection';
 import { RecentPunishmentsSection } from '@/components/dashboard/RecentPunishmentsSection';
 import { TicketSubscriptionsSection } from '@/components/dashboard/TicketSubscriptionsSection';
+import { SlaBreachesSection } from '@/components/dashboard/SlaBreachesSection';
 
 
 const Home = () => {
@@ -35,6 +37,7 @@ const Home = () => {
   const { data: recentTicketsData, isLoading: isLoadingTickets, refetch: refetchTickets } = useRecentTickets(3);
   const { data: recentPunishmentsData, isLoading: isLoadingPunishments, refetch: refetchPunishments } = useRecentPunishments(5);
   const { data: subscriptionUpdatesData, isLoading: isLoadingUpdates, refetch: refetchUpdates } = useTicketSubscriptionUpdates(10);
+  const { data: slaOverviewData, isLoading: isLoadingSla, refetch: refetchSla } = useSlaOverview(5);
   
   // Mutations for subscription management
   const unsubscribeMutation = useUnsubscribeFromTicket();
@@ -49,6 +52,7 @@ const Home = () => {
         refetchTickets(),
         refetchPunishments(),
         refetchUpdates(),
+        refetchSla(),
         new Promise(resolve => setTimeout(resolve, 800))
       ]);
       
@@ -114,6 +118,16 @@ const Home = () => {
         />
       </div>
       
+      {/* Tickets missing their SLA, hidden when no category has targets */}
+      {(isLoadingSla || slaOverviewData?.enabled) && (
+        <div className="mb-6">
+          <SlaBreachesSection 
+            overview={slaOverviewData}
+            loading={isLoadingSla}
+          />
+        </div>
+      )}
+      
       {/* Ticket Subscriptions - Full Width */}
       <div className="mb-6">
         <TicketSubscriptionsSection 
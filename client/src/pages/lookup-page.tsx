@@ -16,6 +16,7 @@ interface Player {
   status: string;
   data?: any;
   isOnline?: boolean;
+  currentServers?: string[];
 }
 
 const LookupPage = () => {
@@ -68,6 +69,13 @@ const LookupPage = () => {
     if (player.data?.isOnline !== undefined) return player.data.isOnline;
     return player.status === 'Online';
   };
+
+  // Describe where an online player currently is on the network
+  const getPresenceLabel = (player: Player) => {
+    if (!isPlayerOnline(player)) return 'Offline';
+    const servers = player.currentServers || player.data?.currentServers || [];
+    return servers.length > 0 ? `Online on ${servers.join(', ')}` : 'Online';
+  };
   
   // Handle player selection
   const handlePlayerSelect = (player: Player) => {
@@ -157,7 +165,7 @@ const LookupPage = () => {
                   <div>
                     <p className="font-medium text-sm">{player.username || 'Unknown'}</p>
                     <p className="text-xs text-muted-foreground">
-                      {isPlayerOnline(player) ? 'Online' : 'Offline'}
+                      {getPresenceLabel(player)}
                     </p>
                   </div>
                 </div>
@@ -204,7 +212,7 @@ const LookupPage = () => {
                     <div>
                       <p className="font-medium text-sm">{player.username || 'Unknown'}</p>
                       <p className="text-xs text-muted-foreground">
-                        {isPlayerOnline(player) ? 'Online' : 'Offline'}
+                        {getPresenceLabel(player)}
                       </p>
                     </div>
                   </div>
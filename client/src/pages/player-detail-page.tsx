@@ -23,6 +23,7 @@ interface PlayerInfo {
   firstJoined: string;
   lastOnline: string;
   lastServer: string;
+  currentServers: string[];
   playtime: string;
   social: string;
   gameplay: string;
@@ -190,6 +191,7 @@ const PlayerDetailPage = () => {
     firstJoined: 'Unknown',
     lastOnline: 'Unknown',
     lastServer: 'Unknown',
+    currentServers: [],
     playtime: 'Unknown',
     social: 'Medium',
     gameplay: 'Medium',
@@ -273,75 +275,6 @@ const PlayerDetailPage = () => {
     }
   }, [settingsData]);
 
-  // Calculate player status based on punishments and settings
-  const calculatePlayerStatus = (punishments: any[], punishmentTypes: PunishmentType[], statusThresholds: any) => {
-    let socialPoints = 0;
-    let gameplayPoints = 0;
-
-    // Calculate points from active punishments
-    for (const punishment of punishments) {
-      // Check if punishment is effectively active (considering modifications)
-      const effectiveState = getEffectivePunishmentState(punishment);
-      const isActive = effectiveState.effectiveActive;
-      if (!isActive) continue;
-
-      // Find punishment type
-      const punishmentType = punishmentTypes.find(pt => pt.ordinal === punishment.type_ordinal);
-      if (!punishmentType) continue;
-
-      // Get points based on severity or single severity
-      let points = 0;
-      const severity = punishment.severity || punishment.data?.severity;
-      
-      if (punishmentType.customPoints !== undefined) {
-        // Custom points for permanent punishments (like Bad Skin, Bad Name)
-        points = punishmentType.customPoints;
-      } else if (punishmentType.singleSeverityPoints !== undefined) {
-        // Single severity punishment
-        points = punishmentType.singleSeverityPoints;
-      } else if (punishmentType.points && severity) {
-        // Multi-severity punishment
-        const severityLower = severity.toLowerCase();
-        if (severityLower === 'low' || severityLower === 'lenient') {
-          points = punishmentType.points.low;
-        } else if (severityLower === 'regular' || severityLower === 'medium') {
-          points = punishmentType.points.regular;
-        } else if (severityLower === 'severe' || severityLower === 'aggravated' || severityLower === 'high') {
-          points = punishmentType.points.severe;
-        }
-      }
-
-      // Add points to appropriate category
-      if (punishmentType.category === 'Social') {
-        socialPoints += points;
-      } else if (punishmentType.category === 'Gameplay') {
-        gameplayPoints += points;
-      }
-      // Administrative punishments don't contribute to status points
-    }
-
-    // Determine status based on thresholds
-    const getStatusLevel = (points: number, thresholds: { medium: number; habitual: number }) => {
-      if (points >= thresholds.habitual) {
-        return 'Habitual';
-      } else if (points >= thresholds.medium) {
-        return 'Medium';
-      } else {
-        return 'Low';
-      }
-    };
-
-    const socialStatus = getStatusLevel(socialPoints, statusThresholds?.social || { medium: 4, habitual: 8 });
-    const gameplayStatus = getStatusLevel(gameplayPoints, statusThresholds?.gameplay || { medium: 5, habitual: 10 });
-
-    return {
-      social: socialStatus,
-      gameplay: gameplayStatus,
-      socialPoints,
-      gameplayPoints
-    };
-  };
-
   // Helper function to calculate effective punishment status and expiry based on modifications
   const getEffectivePunishmentState = (punishment: any) => {
     const modifications = punishment.modifications || [];
@@ -600,6 +533,8 @@ const PlayerDetailPage = () => {
             if (account.activeBans > 0) statusInfo.push(`${account.activeBans} active ban${account.activeBans > 1 ? 's' : ''}`);
             if (account.activeMutes > 0) statusInfo.push(`${account.activeMutes} active mute${account.activeMutes > 1 ? 's' : ''}`);
             
+            if (account.confidence !== undefined) statusInfo.push(`${account.confidence}% confidence`);
+            
             const statusText = statusInfo.length > 0 ? ` (${statusInfo.join(', ')})` : '';
             linkedAccounts.push({
               username: account.username,
@@ -609,25 +544,6 @@ const PlayerDetailPage = () => {
           });
         }
         
-        // Calculate player status using punishment points and thresholds
-        const allPunishmentTypes = [
-          ...punishmentTypesByCategory.Administrative,
-          ...punishmentTypesByCategory.Social,
-          ...punishmentTypesByCategory.Gameplay
-        ];
-        
-        // Get status thresholds from settings
-        let statusThresholds = { social: { medium: 4, habitual: 8 }, gameplay: { medium: 5, habitual: 10 } };
-        if (settingsData?.settings?.statusThresholds) {
-          try {
-            statusThresholds = settingsData.settings.statusThresholds;
-          } catch (error) {
-            console.error("Error parsing status thresholds:", error);
-          }
-        }
-        
-        const calculatedStatus = calculatePlayerStatus(player.punishments || [], allPunishmentTypes, statusThresholds);
-        
         // Sort warnings by date (most recent first)
         warnings.sort((a, b) => {
           const dateA = new Date(a.date || a.issued || 0).getTime();
@@ -647,9 +563,11 @@ const PlayerDetailPage = () => {
               formatDateWithTime(getPlayerData(player, 'lastDisconnect')) : 
               'Unknown'),
           lastServer: player.lastServer || 'Unknown',
+          currentServers: player.currentServers || getPlayerData(player, 'currentServers') || [],
           playtime: player.playtime ? `${player.playtime} hours` : 'Not tracked',
-          social: calculatedStatus.social,
-          gameplay: calculatedStatus.gameplay,
+          // Status and points (including decay of expired punishments) are calculated by the server
+          social: player.social || 'Low',
+          gameplay: player.gameplay || 'Low',
           punished: status !== 'Active',
           previousNames: previousNames,
           warnings: warnings,
@@ -1047,10 +965,17 @@ const PlayerDetailPage = () => {
                     <span className="text-muted-foreground">Playtime:</span>
                     <span className="ml-1">{playerInfo.playtime}</span>
                   </div>
-                  <div>
-                    <span className="text-muted-foreground">Last Server:</span>
-                    <span className="ml-1">{playerInfo.lastServer}</span>
-                  </div>
+                  {playerInfo.status === 'Online' && playerInfo.currentServers.length > 0 ? (
+                    <div>
+                      <span className="text-muted-foreground">Current Server{playerInfo.currentServers.length > 1 ? 's' : ''}:</span>
+                      <span className="ml-1">{playerInfo.currentServers.join(', ')}</span>
+                    </div>
+                  ) : (
+                    <div>
+                      <span className="text-muted-foreground">Last Server:</span>
+                      <span className="ml-1">{playerInfo.lastServer}</span>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
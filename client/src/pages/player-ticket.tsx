@@ -22,7 +22,7 @@ import { Checkbox } from 'modl-shared-web/components/ui/checkbox';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from 'modl-shared-web/components/ui/select';
 import { Popover, PopoverContent, PopoverTrigger } from 'modl-shared-web/components/ui/popover';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from 'modl-shared-web/components/ui/card';
-import { useTicket, useAddTicketReply, useSubmitTicketForm, useSettings } from '@/hooks/use-data';
+import { useTicket, useAddTicketReply, useSubmitTicketForm, useSettings, useRequestTicketAccessLink, usePublicTicketCategories } from '@/hooks/use-data';
 import TicketAttachments from '@/components/TicketAttachments';
 import MediaUpload from '@/components/MediaUpload';
 import { apiRequest } from '@/lib/queryClient';
@@ -30,6 +30,7 @@ import { queryClient } from '@/lib/queryClient';
 import { toast } from '@/hooks/use-toast';
 import MarkdownRenderer from '@/components/ui/markdown-renderer';
 import MarkdownHelp from '@/components/ui/markdown-help';
+import { TICKET_STATUS_COLORS, TicketStatus } from '@/utils/ticket-status';
 
 export interface TicketMessage {
   id: string;
@@ -46,13 +47,12 @@ export interface TicketMessage {
 interface TicketDetails {
   id: string;
   subject: string;
-  status: 'Unfinished' | 'Open' | 'Closed';
+  status: 'Unfinished' | TicketStatus;
   reportedBy: string;
   date: string;
   category: string;
   type: 'bug' | 'player' | 'chat' | 'appeal' | 'staff' | 'support' | 'application';
   messages: TicketMessage[];
-  locked?: boolean;
 }
 
 interface FormField {
@@ -206,9 +206,13 @@ const PlayerTicket = () => {
   
   // Fetch settings to get form templates
   const { data: settingsData, isLoading: isLoadingSettings } = useSettings();
+  const { data: categoriesData } = usePublicTicketCategories();
+  const ticketCategories: Array<{ id: string; formId: string | null }> = categoriesData?.categories || [];
     // Mutation hooks for public ticket operations
   const addReplyMutation = useAddTicketReply();
   const submitFormMutation = useSubmitTicketForm();
+  const requestAccessLinkMutation = useRequestTicketAccessLink();
+  const [accessEmail, setAccessEmail] = useState('');
   
   const [ticketDetails, setTicketDetails] = useState<TicketDetails>({
     id: "",
@@ -221,24 +225,12 @@ const PlayerTicket = () => {
     messages: []
   });
 
-  const statusColors = {
-    'Unfinished': 'bg-gray-50 text-gray-700 border-gray-200',
-    'Open': 'bg-green-50 text-green-700 border-green-200', 
-    'Closed': 'bg-gray-50 text-gray-700 border-gray-200'
-  };
-
   // Update ticket details when data is fetched
   useEffect(() => {
-    if (ticketData) {
+    if (ticketData && !ticketData.tokenRequired) {
       // Ticket data received
         // Map API data to our TicketDetails interface
-      const status = ticketData.status || 'Unfinished';
-      // Map the status to one of our three statuses: Unfinished, Open, or Closed
-      const mappedStatus = status === 'Unfinished' 
-        ? 'Unfinished' 
-        : (status === 'Open' || status === 'In Progress') 
-          ? 'Open' 
-          : 'Closed';      // Ensure we have a valid date
+      // Ensure we have a valid date
       let validDate = new Date().toISOString(); // fallback to current time
       if (ticketData.created) {
         const createdDate = new Date(ticketData.created);
@@ -268,13 +260,12 @@ const PlayerTicket = () => {
       setTicketDetails({
         id: ticketData.id || ticketData._id,
         subject: ticketData.subject || 'No Subject',
-        status: mappedStatus as 'Unfinished' | 'Open' | 'Closed',
+        status: ticketData.status || 'Unfinished',
         reportedBy: ticketData.creator || ticketData.reportedBy || 'Unknown',
         date: validDate,
         category: ticketData.category || 'Other',
         type: ticketData.type || 'bug',
-        messages: processedMessages,
-        locked: ticketData.locked === true
+        messages: processedMessages
       });
       
       // If creator is set, use it as the default playerName
@@ -360,6 +351,58 @@ const PlayerTicket = () => {
     );
   }
 
+  if (ticketData?.tokenRequired) {
+    const requestAccessLink = async (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!accessEmail.trim() || !id) return;
+      try {
+        const result = await requestAccessLinkMutation.mutateAsync({ id, email: accessEmail.trim() });
+        toast({
+          title: "Check Your Email",
+          description: result.message
+        });
+      } catch (error) {
+        toast({
+          title: "Request Failed",
+          description: error instanceof Error ? error.message : "Failed to request an access link. Please try again.",
+          variant: "destructive"
+        });
+      }
+    };
+
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen p-4">
+        <Card className="max-w-md w-full">
+          <CardHeader>
+            <CardTitle>Access Link Required</CardTitle>
+            <CardDescription>
+              Tickets can only be opened with their private link. Enter the email address you used for this ticket
+              and we'll send you a new link.
+            </CardDescription>
+          </CardHeader>
+          <form onSubmit={requestAccessLink}>
+            <CardContent className="space-y-2">
+              <Label htmlFor="ticket-access-email">Email</Label>
+              <Input
+                id="ticket-access-email"
+                type="email"
+                value={accessEmail}
+                onChange={(e) => setAccessEmail(e.target.value)}
+                placeholder="you@example.com"
+              />
+            </CardContent>
+            <CardFooter>
+              <Button type="submit" className="w-full" disabled={requestAccessLinkMutation.isPending || !accessEmail.trim()}>
+                {requestAccessLinkMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                Send Access Link
+              </Button>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    );
+  }
+
   if (isError || !ticketData) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen p-4">
@@ -399,8 +442,11 @@ const PlayerTicket = () => {
       if (settingsData?.settings) {
         const ticketForms = settingsData.settings.ticketForms;
         
-        // Try the ticket type first, then try 'application' for 'staff' tickets (legacy support)
-        if (ticketForms && ticketForms[ticketDetails.type]) {
+        // Use the form of the ticket's category, then try the ticket type and 'application' for 'staff' tickets (legacy support)
+        const categoryFormId = ticketCategories.find(category => category.id === ticketDetails.type)?.formId;
+        if (ticketForms && categoryFormId && ticketForms[categoryFormId]) {
+          formConfig = ticketForms[categoryFormId];
+        } else if (ticketForms && ticketForms[ticketDetails.type]) {
           formConfig = ticketForms[ticketDetails.type];
         } else if (ticketDetails.type === 'staff' && ticketForms && ticketForms['application']) {
           formConfig = ticketForms['application'];
@@ -495,8 +541,11 @@ const PlayerTicket = () => {
       if (settingsData?.settings) {
         const ticketForms = settingsData.settings.ticketForms;
         
-        // Try the ticket type first, then try 'application' for 'staff' tickets (legacy support)
-        if (ticketForms && ticketForms[ticketDetails.type]) {
+        // Use the form of the ticket's category, then try the ticket type and 'application' for 'staff' tickets (legacy support)
+        const categoryFormId = ticketCategories.find(category => category.id === ticketDetails.type)?.formId;
+        if (ticketForms && categoryFormId && ticketForms[categoryFormId]) {
+          formConfig = ticketForms[categoryFormId];
+        } else if (ticketForms && ticketForms[ticketDetails.type]) {
           formConfig = ticketForms[ticketDetails.type];
         } else if (ticketDetails.type === 'staff' && ticketForms && ticketForms['application']) {
           formConfig = ticketForms['application'];
@@ -923,7 +972,7 @@ const PlayerTicket = () => {
                       <Tag className="h-3 w-3" />
                       {ticketDetails.category}
                     </Badge>
-                    <Badge className={`text-xs px-2 py-1 font-medium border ${statusColors[ticketDetails.status]}`}>
+                    <Badge className={`text-xs px-2 py-1 font-medium border ${TICKET_STATUS_COLORS[ticketDetails.status]}`}>
                       {ticketDetails.status}
                     </Badge>
                   </div>
@@ -986,8 +1035,8 @@ const PlayerTicket = () => {
               </div>
             </div>
 
-            {/* Reply section - only show if ticket is Open and not locked */}
-            {ticketDetails.status === 'Open' && !ticketDetails.locked && (
+            {/* Reply section - players can reply until the ticket is closed, replying reopens resolved tickets */}
+            {ticketDetails.status !== 'Closed' && (
               <Card>
                 <CardHeader>
                   <CardTitle className="text-lg">Reply to Ticket</CardTitle>
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Scale, Shield, Globe, Tag, Plus, X, Fingerprint, KeyRound, Lock, QrCode, Copy, Check, Mail, Trash2, GamepadIcon, MessageCircle, Save, CheckCircle, User as UserIcon, LogOut, CreditCard, BookOpen, Settings as SettingsIcon, Upload, Key, Eye, EyeOff, RefreshCw, ChevronDown, ChevronRight, Layers, GripVertical, Edit3 } from 'lucide-react';
+import { Scale, Shield, Globe, Tag, Plus, X, Fingerprint, KeyRound, Lock, QrCode, Copy, Check, Mail, Trash2, GamepadIcon, MessageCircle, Save, CheckCircle, User as UserIcon, LogOut, CreditCard, BookOpen, Network, Settings as SettingsIcon, Upload, Key, Eye, EyeOff, RefreshCw, ChevronDown, ChevronRight, Layers, GripVertical, Edit3 } from 'lucide-react';
 import { Button } from 'modl-shared-web/components/ui/button';
 import { Card, CardContent } from 'modl-shared-web/components/ui/card';
 import { useSidebar } from '@/hooks/use-sidebar';
@@ -34,6 +34,13 @@ import AccountSettings from '@/components/settings/AccountSettings';
 import GeneralSettings from '@/components/settings/GeneralSettings';
 import PunishmentSettings from '@/components/settings/PunishmentSettings';
 import TicketSettings from '@/components/settings/TicketSettings';
+import TicketCategorySettings from '@/components/settings/TicketCategorySettings';
+import TicketQueueSettings from '@/components/settings/TicketQueueSettings';
+import TicketSlaSettings from '@/components/settings/TicketSlaSettings';
+import TicketRuleSettings from '@/components/settings/TicketRuleSettings';
+import TicketWorkflowSettings from '@/components/settings/TicketWorkflowSettings';
+import NetworkBanSettings from '@/components/settings/NetworkBanSettings';
+import ConnectionPolicySettings from '@/components/settings/ConnectionPolicySettings';
 import { DndProvider, useDrag, useDrop } from 'react-dnd';
 import { HTML5Backend } from 'react-dnd-html5-backend';
 import { QuickResponsesConfiguration, defaultQuickResponsesConfig } from '@/types/quickResponses';
@@ -152,15 +159,23 @@ interface PunishmentType {
   permanentUntilSkinChange?: boolean; // Whether this punishment persists until player changes skin
 }
 
+// How points of expired punishments fade out
+interface PointDecay {
+  mode: 'none' | 'half-life' | 'linear';
+  days: number; // Half-life, or days until points reach zero for linear decay
+}
+
 // Type definition for offender status thresholds
 interface StatusThresholds {
   gameplay: {
     medium: number;  // Points threshold for medium offender status
     habitual: number; // Points threshold for habitual offender status
+    decay?: PointDecay;
   };
   social: {
     medium: number;  // Points threshold for medium offender status
     habitual: number; // Points threshold for habitual offender status
+    decay?: PointDecay;
   };
 }
 
@@ -178,10 +193,20 @@ interface IAIPunishmentConfig {
   aiDescription: string;
 }
 
+interface ILLMSettings {
+  provider: 'gemini' | 'openai-compatible' | 'mock';
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
 interface IAIModerationSettings {
   enableAIReview: boolean;
   enableAutomatedActions: boolean;
   strictnessLevel: 'lenient' | 'standard' | 'strict';
+  llm?: ILLMSettings;
   aiPunishmentConfigs: Record<string, IAIPunishmentConfig>;
 }
 
@@ -802,11 +827,13 @@ const Settings = () => {
   const [statusThresholdsState, setStatusThresholdsState] = useState<StatusThresholds>({
     gameplay: {
       medium: 5,  // 5+ points = medium offender
-      habitual: 10 // 10+ points = habitual offender
+      habitual: 10, // 10+ points = habitual offender
+      decay: { mode: 'half-life', days: 30 }
     },
     social: {
       medium: 4,  // 4+ points = medium offender
-      habitual: 8  // 8+ points = habitual offender
+      habitual: 8,  // 8+ points = habitual offender
+      decay: { mode: 'half-life', days: 30 }
     }
   });
   // Selected punishment for editing
@@ -919,13 +946,7 @@ const Settings = () => {
   const [uploadingHomepageIcon, setUploadingHomepageIcon] = useState(false);
   const [uploadingPanelIcon, setUploadingPanelIcon] = useState(false);
 
-  // Unified API Key management states
-  const [apiKey, setApiKey] = useState('');
-  const [fullApiKey, setFullApiKey] = useState(''); // Store the full key for copying
-  const [showApiKey, setShowApiKey] = useState(false);
-  const [isGeneratingApiKey, setIsGeneratingApiKey] = useState(false);
-  const [isRevokingApiKey, setIsRevokingApiKey] = useState(false);
-  const [apiKeyCopied, setApiKeyCopied] = useState(false);    // Profile settings state
+  // Profile settings state
   const [profileUsernameState, setProfileUsernameState] = useState('');
   
   // AI Moderation settings state
@@ -983,9 +1004,6 @@ const Settings = () => {
                       (homepageIconUrl || panelIconUrl) ? "Icons ◐" : "Icons ✗";
     parts.push(iconStatus);
     
-    const apiStatus = apiKey ? "API Key ✓" : "API Key ✗";
-    parts.push(apiStatus);
-    
     return parts.join(" • ");
   };
 
@@ -1039,11 +1057,6 @@ const Settings = () => {
     }
   }, [user]);
 
-  // Load API key on component mount
-  useEffect(() => {
-    loadApiKey();
-  }, []);
-
   // File upload functions
   const uploadIcon = async (file: File, iconType: 'homepage' | 'panel'): Promise<string | null> => {
     try {
@@ -1099,158 +1112,6 @@ const Settings = () => {
     setUploadingPanelIcon(false);
   };
 
-  // Unified API Key management functions
-  const loadApiKey = async () => {
-    try {
-      const response = await fetch('/api/panel/settings/api-key');
-      // API Key loaded successfully
-      if (response.ok) {
-        const data = await response.json();
-        // API Key data received
-        if (data.hasApiKey && data.maskedKey) {
-          setApiKey(data.maskedKey);
-          setFullApiKey(''); // Clear full key since we only have masked version
-        } else {
-          setApiKey(''); // No API key exists
-          setFullApiKey('');
-        }
-      } else {
-        const errorText = await response.text();
-        console.error('Failed to load API key:', response.status, response.statusText, errorText);
-        setApiKey('');
-        setFullApiKey('');
-      }
-    } catch (error) {
-      console.error('Error loading API key:', error);
-      setApiKey(''); // Set to empty on error
-      setFullApiKey('');
-    }
-  };
-
-  const generateApiKey = async () => {
-    setIsGeneratingApiKey(true);
-    try {
-      const { csrfFetch } = await import('@/utils/csrf');
-      const response = await csrfFetch('/api/panel/settings/api-key/generate', {
-        method: 'POST',
-      });
-      if (response.ok) {
-        const data = await response.json();
-        setFullApiKey(data.apiKey); // Store the full key for copying
-        setApiKey(data.apiKey); // Display the full key initially
-        setShowApiKey(true);
-        toast({
-          title: "API Key Generated",
-          description: "Your new API key has been generated. Make sure to copy it as it won't be shown again.",
-        });
-      } else {
-        throw new Error('Failed to generate API key');
-      }
-    } catch (error) {
-      console.error('Error generating API key:', error);
-      toast({
-        title: "Error",
-        description: "Failed to generate API key. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsGeneratingApiKey(false);
-    }
-  };
-
-  const revokeApiKey = async () => {
-    if (!confirm('Are you sure you want to revoke the API key? This will invalidate all existing integrations using this key.')) {
-      return;
-    }
-    
-    setIsRevokingApiKey(true);
-    try {
-      const { csrfFetch } = await import('@/utils/csrf');
-      const response = await csrfFetch('/api/panel/settings/api-key', {
-        method: 'DELETE',
-      });
-      if (response.ok) {
-        setApiKey('');
-        setFullApiKey('');
-        setShowApiKey(false);
-        toast({
-          title: "API Key Revoked",
-          description: "The API key has been revoked successfully.",
-        });
-      } else {
-        throw new Error('Failed to revoke API key');
-      }
-    } catch (error) {
-      console.error('Error revoking API key:', error);
-      toast({
-        title: "Error",
-        description: "Failed to revoke API key. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsRevokingApiKey(false);
-    }
-  };
-
-  const revealApiKey = async () => {
-    if (showApiKey) {
-      // Hide the key
-      setShowApiKey(false);
-      return;
-    }
-    
-    // Show the key - fetch full key if we don't have it
-    if (!fullApiKey) {
-      try {
-        const response = await fetch('/api/panel/settings/api-key/reveal');
-        if (response.ok) {
-          const data = await response.json();
-          setFullApiKey(data.apiKey);
-          setApiKey(data.apiKey);
-        } else {
-          throw new Error('Failed to reveal API key');
-        }
-      } catch (error) {
-        console.error('Error revealing API key:', error);
-        toast({
-          title: "Error",
-          description: "Failed to reveal API key. Please try again.",
-          variant: "destructive",
-        });
-        return;
-      }
-    }
-    
-    setShowApiKey(true);
-  };
-
-  const copyApiKey = () => {
-    // Use fullApiKey if available, otherwise use apiKey if shown
-    const keyToCopy = fullApiKey || (showApiKey ? apiKey : '');
-    
-    if (keyToCopy && !keyToCopy.includes('•••')) {
-      navigator.clipboard.writeText(keyToCopy);
-      setApiKeyCopied(true);
-      setTimeout(() => setApiKeyCopied(false), 2000);
-      toast({
-        title: "Copied",
-        description: "API key copied to clipboard",
-      });
-    } else {
-      toast({
-        title: "Cannot copy masked key",
-        description: "Please click the eye icon to reveal the key first, or regenerate a new key to copy it.",
-        variant: "destructive",
-      });
-    }
-  };
-
-  const maskApiKey = (key: string) => {
-    if (!key) return '';
-    return key.substring(0, 8) + '••••••••••••••••••••••••' + key.substring(key.length - 4);
-  };
-
-
   // AI Moderation settings functions
   const loadAiModerationSettings = async () => {
     setIsLoadingAiSettings(true);
@@ -2680,6 +2541,15 @@ const Settings = () => {
                   Homepage Cards
                 </TabsTrigger>
               )}
+              {canAccessSettingsTab('network') && (
+                <TabsTrigger
+                  value="network"
+                  className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:text-primary rounded-none px-6 py-2"
+                >
+                  <Network className="h-4 w-4 mr-2" />
+                  Network Access
+                </TabsTrigger>
+              )}
             </TabsList>
             
             <TabsContent value="account">
@@ -2702,17 +2572,6 @@ const Settings = () => {
                   uploadingPanelIcon={uploadingPanelIcon}
                   handleHomepageIconUpload={handleHomepageIconUpload}
                   handlePanelIconUpload={handlePanelIconUpload}
-                  apiKey={apiKey}
-                  fullApiKey={fullApiKey}
-                  showApiKey={showApiKey}
-                  apiKeyCopied={apiKeyCopied}
-                  isGeneratingApiKey={isGeneratingApiKey}
-                  isRevokingApiKey={isRevokingApiKey}
-                  generateApiKey={generateApiKey}
-                  revokeApiKey={revokeApiKey}
-                  revealApiKey={revealApiKey}
-                  copyApiKey={copyApiKey}
-                  maskApiKey={maskApiKey}
                   usageData={usageData}
                   getBillingSummary={getBillingSummary}
                   getUsageSummary={getUsageSummary}
@@ -2771,6 +2630,26 @@ const Settings = () => {
                 moveField={moveField}
                 moveFieldBetweenSections={moveFieldBetweenSections}
               />
+                <Separator />
+                <div className="p-6">
+                  <TicketCategorySettings formIds={Object.keys(ticketForms)} />
+                </div>
+                <Separator />
+                <div className="p-6">
+                  <TicketQueueSettings />
+                </div>
+                <Separator />
+                <div className="p-6">
+                  <TicketWorkflowSettings />
+                </div>
+                <Separator />
+                <div className="p-6">
+                  <TicketSlaSettings />
+                </div>
+                <Separator />
+                <div className="p-6">
+                  <TicketRuleSettings quickResponses={quickResponsesState} />
+                </div>
               </TabsContent>
             )}
 
@@ -2817,6 +2696,14 @@ const Settings = () => {
               </TabsContent>
             )}
 
+            {canAccessSettingsTab('network') && (
+              <TabsContent value="network">
+                <NetworkBanSettings />
+                <Separator />
+                <ConnectionPolicySettings />
+              </TabsContent>
+            )}
+
           </Tabs>
         </Card>
 
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useLocation, Link } from 'wouter';
 import { Popover, PopoverContent, PopoverTrigger } from 'modl-shared-web/components/ui/popover';
 import { queryClient } from '@/lib/queryClient';
@@ -37,12 +37,15 @@ import {
   Video,
   File,
   Eye,
-  Paperclip
+  Paperclip,
+  UserCheck,
+  UserMinus
 } from 'lucide-react';
 import { Button } from 'modl-shared-web/components/ui/button';
 import { Badge } from 'modl-shared-web/components/ui/badge';
 import { Checkbox } from 'modl-shared-web/components/ui/checkbox';
-import { useTicket, usePanelTicket, useUpdateTicket, useSettings, useStaff, useModifyPunishment } from '@/hooks/use-data';
+import { useTicket, usePanelTicket, useUpdateTicket, useSettings, useStaff, useModifyPunishment, useTicketClaim } from '@/hooks/use-data';
+import { useRealtimeEvents } from '@/hooks/use-realtime';
 import { QuickResponsesConfiguration, defaultQuickResponsesConfig } from '@/types/quickResponses';
 import { useToast } from '@/hooks/use-toast';
 import PageContainer from '@/components/layout/PageContainer';
@@ -55,6 +58,8 @@ import { ClickablePlayer } from '@/components/ui/clickable-player';
 import PlayerPunishment, { PlayerPunishmentData } from '@/components/ui/player-punishment';
 import MediaUpload from '@/components/MediaUpload';
 import TicketAttachments from '@/components/TicketAttachments';
+import OnlinePlayersLookup from '@/components/ui/online-players-lookup';
+import { TICKET_STATUS_COLORS, TicketStatus, TicketStatusEvent, isActiveTicketStatus } from '@/utils/ticket-status';
 
 // Define PunishmentType interface
 interface PunishmentType {
@@ -127,6 +132,17 @@ interface AIAnalysis {
   createdAt: Date;
 }
 
+interface AIAppealAnalysis {
+  recommendation: 'pardon' | 'reduce' | 'reject';
+  reasoning: string;
+  suggestedDuration: {
+    value: number;
+    unit: 'hours' | 'days' | 'weeks' | 'months';
+  } | null;
+  confidence: number;
+  createdAt: Date;
+}
+
 // Define types for ticket categories and actions
 type TicketCategory = 'Player Report' | 'Chat Report' | 'Bug Report' | 'Punishment Appeal' | 'Other';
 type PlayerReportAction = 'Accepted' | 'Rejected' | 'Close';
@@ -165,7 +181,9 @@ export const defaultReplies: Record<TicketCategory, Record<string, string>> = {
 export interface TicketDetails {
   id: string;
   subject: string;
-  status: 'Open' | 'Closed'; // Simplified to just Open/Closed
+  status: TicketStatus;
+  allowedStatuses?: TicketStatus[]; // Statuses the current staff member can move the ticket to
+  statusHistory?: TicketStatusEvent[];
   reportedBy: string;
   date: string;
   category: TicketCategory;
@@ -187,9 +205,23 @@ export interface TicketDetails {
   tags?: string[];
   newTag?: string;
   aiAnalysis?: AIAnalysis;
+  aiAppealAnalysis?: AIAppealAnalysis;
   punishmentData?: PlayerPunishmentData; // New field for punishment interface data
 }
 
+type SlaState = 'ok' | 'at_risk' | 'breached' | 'met';
+
+const SLA_STATE_CLASSES: Record<SlaState, string> = {
+  ok: '',
+  at_risk: 'text-orange-600 font-medium',
+  breached: 'text-destructive font-medium',
+  met: 'text-green-600'
+};
+
+// Matches the server, announcements of staff writing a reply expire unless renewed
+const REPLYING_TTL_MS = 15 * 1000;
+const REPLYING_RENEW_MS = 10 * 1000;
+
 const TicketDetail = () => {
   const [, setLocation] = useLocation();
   const [activeTab, setActiveTab] = useState('conversation');
@@ -198,8 +230,10 @@ const TicketDetail = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isReviewingAppeal, setIsReviewingAppeal] = useState(false);
   const [formSubject, setFormSubject] = useState('');
   const [formData, setFormData] = useState<Record<string, string>>({});
+  const [shareLink, setShareLink] = useState<string | null>(null);
   const [replyAttachments, setReplyAttachments] = useState<Array<{id: string, url: string, key: string, fileName: string, fileType: string, fileSize: number, uploadedAt: string, uploadedBy: string}>>([]);
   
   // Format date to MM/dd/yy HH:mm in browser's timezone
@@ -377,12 +411,6 @@ const TicketDetail = () => {
     ]
   });
 
-  // Simplified status colors - just Open and Closed
-  const statusColors = {
-    'Open': 'bg-green-50 text-green-700 border-green-200',
-    'Closed': 'bg-red-50 text-red-700 border-red-200'
-  };
-
   const priorityColors = {
     'Critical': 'bg-destructive/10 text-destructive border-destructive/20',
     'Medium': 'bg-warning/10 text-warning border-warning/20',
@@ -398,6 +426,89 @@ const TicketDetail = () => {
   // Mutation hook for updating tickets
   const updateTicketMutation = useUpdateTicket();
 
+  // Claiming, and other staff writing a reply at the same time
+  const claimMutation = useTicketClaim();
+  const [replyingStaff, setReplyingStaff] = useState<Record<string, number>>({});
+  const lastReplyingSentRef = useRef(0);
+  const assignedTo: string | null = ticketData?.assignedTo || null;
+  const claimedByOther = !!assignedTo && assignedTo !== user?.username;
+
+  useEffect(() => {
+    if (!ticketData?.replying) return;
+    const expiresAt = Date.now() + REPLYING_TTL_MS;
+    setReplyingStaff(Object.fromEntries(ticketData.replying.map((username: string) => [username, expiresAt])));
+  }, [ticketData?.replying]);
+
+  useRealtimeEvents('tickets', (event) => {
+    if (event.event !== 'ticket.replying' || event.data?.ticketId !== ticketId) return;
+    if (event.data.username === user?.username) return;
+    setReplyingStaff(prev => {
+      const { [event.data.username]: _, ...rest } = prev;
+      return event.data.replying ? { ...rest, [event.data.username]: Date.now() + REPLYING_TTL_MS } : rest;
+    });
+  }, !!ticketId);
+
+  // Drop announcements that weren't renewed
+  useEffect(() => {
+    if (Object.keys(replyingStaff).length === 0) return;
+    const interval = setInterval(() => {
+      const now = Date.now();
+      setReplyingStaff(prev => Object.fromEntries(Object.entries(prev).filter(([, expiresAt]) => expiresAt > now)));
+    }, 5000);
+    return () => clearInterval(interval);
+  }, [replyingStaff]);
+
+  const sendReplying = async (replying: boolean) => {
+    try {
+      const { csrfFetch } = await import('@/utils/csrf');
+      await csrfFetch(`/api/panel/tickets/${ticketId}/replying`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ replying })
+      });
+    } catch (error) {
+      // Only a courtesy for other staff, the reply itself isn't affected
+    }
+  };
+
+  // Announce typing at most once per interval, and stop when the draft is cleared
+  const notifyReplying = (draft: string) => {
+    if (!draft.trim()) {
+      if (lastReplyingSentRef.current) {
+        lastReplyingSentRef.current = 0;
+        sendReplying(false);
+      }
+      return;
+    }
+    if (Date.now() - lastReplyingSentRef.current < REPLYING_RENEW_MS) return;
+    lastReplyingSentRef.current = Date.now();
+    sendReplying(true);
+  };
+
+  useEffect(() => {
+    return () => {
+      if (lastReplyingSentRef.current) sendReplying(false);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ticketId]);
+
+  const handleClaim = (action: 'claim' | 'release', force = false) => {
+    claimMutation.mutate({ id: ticketId, action, force }, {
+      onError: (error) => {
+        toast({
+          title: action === 'claim' ? 'Could not claim ticket' : 'Could not release ticket',
+          description: error instanceof Error ? error.message : 'Please try again later.',
+          variant: 'destructive'
+        });
+      }
+    });
+  };
+
+  // Replying into a ticket someone else claimed needs confirmation
+  const confirmReplyOverClaim = (): boolean => {
+    return !claimedByOther || confirm(`${assignedTo} has claimed this ticket. Reply anyway?`);
+  };
+
   // Mutation hook for modifying punishments
   const modifyPunishmentMutation = useModifyPunishment();
 
@@ -545,6 +656,26 @@ const TicketDetail = () => {
     );
   };
 
+  // Players can only open tickets through a link with an access token
+  const createShareLink = async () => {
+    if (shareLink) return;
+    try {
+      const { csrfFetch } = await import('@/utils/csrf');
+      const response = await csrfFetch(`/api/panel/tickets/${ticketDetails.id}/access-link`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to create link');
+      }
+      setShareLink(data.url);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create a link for this ticket.",
+        variant: "destructive"
+      });
+    }
+  };
+
   // Function to apply AI-suggested punishment
   const applyAISuggestion = async () => {
     if (!ticketDetails?.aiAnalysis?.suggestedAction || !user?.username) {
@@ -679,6 +810,68 @@ const TicketDetail = () => {
       });
     }
   };
+  // Select the appeal quick response matching the AI recommendation, staff still review and send the reply
+  const applyAppealRecommendation = () => {
+    const recommendation = ticketDetails.aiAppealAnalysis;
+    if (!recommendation) return;
+
+    const action = getQuickResponsesForTicket(ticketDetails.category)
+      .find(act => act.appealAction === recommendation.recommendation);
+    if (!action) {
+      toast({
+        title: "No matching quick response",
+        description: `Add an appeal quick response with the '${recommendation.recommendation}' appeal action in the ticket settings.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    handleTicketAction(action.name);
+    if (recommendation.recommendation === 'reduce' && recommendation.suggestedDuration) {
+      setTicketDetails(prev => ({
+        ...prev,
+        isPermanent: false,
+        duration: { ...recommendation.suggestedDuration! }
+      }));
+    }
+    setActiveTab('conversation');
+  };
+
+  // Function to re-run the AI review of an appeal
+  const reviewAppealWithAI = async () => {
+    setIsReviewingAppeal(true);
+    try {
+      const { csrfFetch } = await import('@/utils/csrf');
+      const response = await csrfFetch(`/api/panel/appeals/${ticketDetails.id}/ai-analysis`, {
+        method: 'POST'
+      });
+
+      if (response.ok) {
+        await refetch();
+        toast({
+          title: "Success",
+          description: "The appeal has been reviewed by AI.",
+        });
+      } else {
+        const errorData = await response.json().catch(() => ({}));
+        toast({
+          title: "Error",
+          description: errorData.message || errorData.error || "Failed to review appeal",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Error reviewing appeal:', error);
+      toast({
+        title: "Error",
+        description: "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReviewingAppeal(false);
+    }
+  };
+
   useEffect(() => {
     if (ticketData) {
       // Process ticket data
@@ -721,8 +914,9 @@ const TicketDetail = () => {
       setTicketDetails({
         id: ticketData.id || ticketData._id,
         subject: ticketData.subject || 'No Subject',
-        // Simplify status to Open/Closed - anything but Closed is Open
-        status: (ticketData.locked === true || ticketData.status === 'Closed') ? 'Closed' : 'Open',
+        status: ticketData.status || 'Open',
+        allowedStatuses: ticketData.allowedStatuses || [],
+        statusHistory: ticketData.statusHistory || [],
         reportedBy: ticketData.reportedBy || 'Unknown',
         date: validDate,
         category,
@@ -744,7 +938,8 @@ const TicketDetail = () => {
         // Set default action to "Comment" to highlight the Comment button
         selectedAction: 'Comment',
         // Extract AI analysis from ticket data if present
-        aiAnalysis: ticketData.data?.aiAnalysis
+        aiAnalysis: ticketData.data?.aiAnalysis,
+        aiAppealAnalysis: ticketData.data?.aiAppealAnalysis
       });
     }
   }, [ticketData]);
@@ -825,12 +1020,14 @@ const TicketDetail = () => {
 
   const handleSendReply = async () => {
     if (!ticketDetails.newReply?.trim() || !ticketDetails.selectedAction) return;
+    if (!confirmReplyOverClaim()) return;
     
     const now = new Date();
     const timestamp = now.toISOString();
     
     let messageContent = ticketDetails.newReply.trim();
-    let status: 'Open' | 'Closed' = ticketDetails.status;
+    // Only set when the selected action changes the status, otherwise the server applies the reply status
+    let status: TicketStatus | undefined;
     
     let actionDesc = '';
     if (ticketDetails.selectedAction && ticketDetails.selectedAction !== 'Comment') {
@@ -896,8 +1093,6 @@ const TicketDetail = () => {
     }
     
     if (messageContent) {
-      const isClosing = status === 'Closed';
-      
       const newMessage = {
         id: `msg-${Date.now()}`,
         name: user?.username || "Admin",
@@ -929,19 +1124,20 @@ const TicketDetail = () => {
         newDuration: undefined,
         isPermanent: undefined,
         duration: undefined,
-        status: isClosing ? status : prev.status,
-        locked: isClosing || status === 'Closed' ? true : prev.locked
+        status: status || prev.status,
+        locked: status ? status === 'Closed' : prev.locked
       }));
       
       // Clear reply attachments after successful submission
       setReplyAttachments([]);
+      lastReplyingSentRef.current = 0;
       
       try {
         // Prepare update data
         const updateData: any = {
-          status,
+          ...(status && { status }),
           newReply: newMessage,
-          locked: isClosing || status === 'Closed' ? true : ticketDetails.locked
+          overrideClaim: claimedByOther
         };
         
         // Handle punishment modifications for appeal actions
@@ -1054,9 +1250,10 @@ const TicketDetail = () => {
         console.error('Error sending reply:', error);
         toast({
           title: "Error",
-          description: "Failed to send reply. Please try again later.",
+          description: error instanceof Error ? error.message : "Failed to send reply. Please try again later.",
           variant: "destructive"
         });
+        refetch();
       }
     }
   };
@@ -1086,18 +1283,25 @@ const TicketDetail = () => {
     handleUpdateTagsWithPersistence(newTags);
   };
   
-  const handleStatusChange = (newStatus: 'Open' | 'Closed', lockTicket = false) => {
-    setTicketDetails(prev => ({
-      ...prev,
-      status: newStatus,
-      locked: lockTicket || newStatus === 'Closed' ? true : prev.locked
-    }));
-    
+  const handleStatusChange = (newStatus: TicketStatus) => {
     updateTicketMutation.mutate({
       id: ticketDetails.id,
-      data: {
-        status: newStatus,
-        locked: lockTicket || newStatus === 'Closed' ? true : ticketDetails.locked
+      data: { status: newStatus }
+    }, {
+      onSuccess: () => {
+        setTicketDetails(prev => ({
+          ...prev,
+          status: newStatus,
+          locked: newStatus === 'Closed'
+        }));
+        refetch();
+      },
+      onError: (error: any) => {
+        toast({
+          title: "Status not changed",
+          description: error?.message || "Failed to change the ticket status.",
+          variant: "destructive"
+        });
       }
     });
   };
@@ -1108,7 +1312,7 @@ const TicketDetail = () => {
       selectedAction: action
     }));
     
-    let newStatus: 'Open' | 'Closed' = ticketDetails.status;
+    let newStatus: TicketStatus = ticketDetails.status;
     let text = '';
     
     // Handle special actions
@@ -1172,7 +1376,7 @@ const TicketDetail = () => {
           {ticketDetails.id && (
             <div className="flex items-center gap-2">
               <span className="text-xs text-muted-foreground">Share with player:</span>
-              <Popover>
+              <Popover onOpenChange={(open) => { if (open) createShareLink(); }}>
                 <PopoverTrigger asChild>
                   <Button variant="outline" size="sm" className="flex items-center">
                     <Link2 className="w-4 h-4 mr-2" />
@@ -1186,14 +1390,15 @@ const TicketDetail = () => {
                       <input 
                         type="text" 
                         readOnly 
-                        value={`${window.location.origin}/ticket/${ticketDetails.id}`}
+                        value={shareLink || 'Creating link...'}
                         className="text-xs p-2 bg-muted rounded border border-border flex-1 mr-2"
                       />
                       <Button 
                         size="sm" 
                         variant="secondary"
+                        disabled={!shareLink}
                         onClick={() => {
-                          navigator.clipboard.writeText(`${window.location.origin}/ticket/${ticketDetails.id}`);
+                          if (shareLink) navigator.clipboard.writeText(shareLink);
                         }}
                       >
                         Copy
@@ -1274,14 +1479,35 @@ const TicketDetail = () => {
                         {ticketDetails.category}
                       </Badge>
                       
-                      {/* Simple Status Badge - Only Open or Closed */}
-                      <Badge variant="outline" className={
-                        ticketDetails.status === 'Open' ? 
-                          'bg-green-50 text-green-700 border-green-200' : 
-                          'bg-gray-50 text-gray-700 border-gray-200'
-                      }>
-                        {ticketDetails.status === 'Open' ? 'Open' : 'Closed'}
-                      </Badge>
+                      {/* Status badge, opens the statuses this staff member can move the ticket to */}
+                      {ticketDetails.allowedStatuses && ticketDetails.allowedStatuses.length > 0 ? (
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <Badge variant="outline" className={`cursor-pointer gap-1 ${TICKET_STATUS_COLORS[ticketDetails.status] || ''}`}>
+                              {ticketDetails.status}
+                              <ChevronDown className="h-3 w-3" />
+                            </Badge>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-48 p-1" align="start">
+                            {ticketDetails.allowedStatuses.map(status => (
+                              <Button
+                                key={status}
+                                variant="ghost"
+                                size="sm"
+                                className="w-full justify-start text-xs"
+                                disabled={updateTicketMutation.isPending}
+                                onClick={() => handleStatusChange(status)}
+                              >
+                                {status}
+                              </Button>
+                            ))}
+                          </PopoverContent>
+                        </Popover>
+                      ) : (
+                        <Badge variant="outline" className={TICKET_STATUS_COLORS[ticketDetails.status] || ''}>
+                          {ticketDetails.status}
+                        </Badge>
+                      )}
                       
                       {/* Display the tags */}
                       {ticketDetails.tags && ticketDetails.tags.map((tag, index) => (
@@ -1384,6 +1610,58 @@ const TicketDetail = () => {
                     <span className="text-muted-foreground">Date:</span>
                     <span className="ml-1">{formatDate(ticketDetails.date)}</span>
                   </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">Assigned to:</span>
+                    <span>{assignedTo || 'Nobody'}</span>
+                    {!assignedTo && (
+                      <Button variant="outline" size="sm" className="h-6 px-2 text-xs" disabled={claimMutation.isPending} onClick={() => handleClaim('claim')}>
+                        <UserCheck className="h-3 w-3 mr-1" />
+                        Claim
+                      </Button>
+                    )}
+                    {assignedTo && !claimedByOther && (
+                      <Button variant="outline" size="sm" className="h-6 px-2 text-xs" disabled={claimMutation.isPending} onClick={() => handleClaim('release')}>
+                        <UserMinus className="h-3 w-3 mr-1" />
+                        Release
+                      </Button>
+                    )}
+                    {claimedByOther && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        disabled={claimMutation.isPending}
+                        onClick={() => {
+                          if (confirm(`Take this ticket over from ${assignedTo}?`)) handleClaim('claim', true);
+                        }}
+                      >
+                        <UserCheck className="h-3 w-3 mr-1" />
+                        Take over
+                      </Button>
+                    )}
+                  </div>
+                  {([['First response', ticketData?.sla?.firstResponse], ['Resolution', ticketData?.sla?.resolution]] as const).map(([label, timer]) => timer && (
+                    <div key={label}>
+                      <span className="text-muted-foreground">{label}:</span>
+                      <span className={`ml-1 ${SLA_STATE_CLASSES[timer.state as SlaState]}`}>
+                        {timer.state === 'met' ? 'Within SLA' : timer.state === 'breached' ? 'SLA breached' : `Due ${formatDate(timer.dueAt)}`}
+                      </span>
+                    </div>
+                  ))}
+                  {ticketDetails.statusHistory && ticketDetails.statusHistory.length > 0 && (
+                    <div className="md:col-span-2">
+                      <span className="text-muted-foreground">Status history:</span>
+                      <ul className="mt-1 space-y-1">
+                        {ticketDetails.statusHistory.slice().reverse().map((event, index) => (
+                          <li key={index} className="text-xs">
+                            <span className="font-medium">{event.from ? `${event.from} → ${event.to}` : event.to}</span>
+                            <span className="text-muted-foreground"> by {event.by}, {formatDate(event.at)}</span>
+                            {event.reason && <span className="text-muted-foreground"> ({event.reason})</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                   {/* Show reported player for player and chat reports */}
                   {(ticketDetails.category === 'Player Report' || ticketDetails.category === 'Chat Report') && ticketDetails.relatedPlayer && (
                     <div>
@@ -1403,11 +1681,105 @@ const TicketDetail = () => {
               </div>
             </div>
 
+            {/* Who was online around a chat report */}
+            {ticketDetails.category === 'Chat Report' && ticketDetails.date && (
+              <div className="bg-muted/30 rounded-lg p-4 mb-4">
+                <h3 className="font-medium text-sm mb-3">Who was online</h3>
+                <OnlinePlayersLookup at={ticketDetails.date} />
+              </div>
+            )}
+
             {/* Punishment Details Section for Appeals */}
             {ticketDetails.category === 'Punishment Appeal' && ticketData?.data?.punishmentId && (
               <PunishmentDetailsCard punishmentId={ticketData.data.punishmentId} />
             )}
 
+            {/* AI Appeal Review Section */}
+            {ticketDetails.category === 'Punishment Appeal' && ticketData?.data?.punishmentId && (
+              <div className="bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-lg p-4 mb-4" data-testid="ai-appeal-analysis">
+                <div className="flex items-start gap-3">
+                  <div className="p-2 bg-blue-100 dark:bg-blue-900 rounded-full">
+                    <ShieldAlert className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+                  </div>
+                  <div className="flex-1">
+                    <div className="flex items-center justify-between mb-2">
+                      <h3 className="font-semibold text-blue-900 dark:text-blue-100">AI Appeal Review</h3>
+                      <Badge variant="outline" className="bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 border-blue-300 dark:border-blue-700">
+                        AI Analysis
+                      </Badge>
+                    </div>
+
+                    {ticketDetails.aiAppealAnalysis ? (
+                      <>
+                        <p className="text-sm text-blue-800 dark:text-blue-200 mb-3">
+                          {ticketDetails.aiAppealAnalysis.reasoning}
+                        </p>
+
+                        <div className="bg-white dark:bg-gray-900 rounded-md p-3 border border-blue-200 dark:border-blue-800">
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                                Recommended: {ticketDetails.aiAppealAnalysis.recommendation === 'pardon'
+                                  ? 'Pardon'
+                                  : ticketDetails.aiAppealAnalysis.recommendation === 'reduce'
+                                    ? 'Reduce'
+                                    : 'Reject'}
+                                {ticketDetails.aiAppealAnalysis.recommendation === 'reduce' && ticketDetails.aiAppealAnalysis.suggestedDuration && (
+                                  <> to {ticketDetails.aiAppealAnalysis.suggestedDuration.value} {ticketDetails.aiAppealAnalysis.suggestedDuration.unit}</>
+                                )}
+                                {' '}({Math.round(ticketDetails.aiAppealAnalysis.confidence * 100)}% confidence)
+                              </p>
+                              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                                Analyzed on {new Date(ticketDetails.aiAppealAnalysis.createdAt).toLocaleString()}
+                              </p>
+                            </div>
+
+                            <div className="flex gap-2">
+                              {isActiveTicketStatus(ticketDetails.status) && (
+                                <Button
+                                  size="sm"
+                                  variant="default"
+                                  className="bg-green-600 hover:bg-green-700 dark:bg-green-700 dark:hover:bg-green-800"
+                                  onClick={applyAppealRecommendation}
+                                >
+                                  <CheckCircle2 className="h-3.5 w-3.5 mr-1" />
+                                  Use Recommendation
+                                </Button>
+                              )}
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={reviewAppealWithAI}
+                                disabled={isReviewingAppeal}
+                              >
+                                {isReviewingAppeal && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+                                Re-analyze
+                              </Button>
+                            </div>
+                          </div>
+                        </div>
+                      </>
+                    ) : (
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm text-blue-800 dark:text-blue-200">
+                          This appeal has not been reviewed by AI yet.
+                        </p>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={reviewAppealWithAI}
+                          disabled={isReviewingAppeal}
+                        >
+                          {isReviewingAppeal && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+                          Analyze Appeal
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* AI Analysis Section - Only show for Chat Report tickets with AI analysis that hasn't been applied or dismissed */}
             {ticketDetails.category === 'Chat Report' && ticketDetails.aiAnalysis && !ticketDetails.aiAnalysis.dismissed && !ticketDetails.aiAnalysis.wasAppliedAutomatically && (
               <div className="bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-lg p-4 mb-4" data-testid="ai-analysis">
@@ -1852,6 +2224,18 @@ const TicketDetail = () => {
                       </div>
                       
                       <div className="space-y-3">
+                        {Object.keys(replyingStaff).length > 0 && (
+                          <div className="flex items-center text-xs text-muted-foreground">
+                            <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />
+                            {Object.keys(replyingStaff).join(', ')} {Object.keys(replyingStaff).length === 1 ? 'is' : 'are'} replying...
+                          </div>
+                        )}
+                        {claimedByOther && (
+                          <div className="flex items-center text-xs text-warning">
+                            <AlertCircle className="h-3 w-3 mr-1.5" />
+                            {assignedTo} has claimed this ticket
+                          </div>
+                        )}
                         <textarea
                           className="min-h-[120px] w-full resize-none rounded-lg border border-input bg-background p-3 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
                           placeholder={getPlaceholderText()}
@@ -1861,6 +2245,7 @@ const TicketDetail = () => {
                               ...prev,
                               newReply: e.target.value
                             }));
+                            notifyReplying(e.target.value);
                           }}
                         />
                         
@@ -1933,7 +2318,7 @@ const TicketDetail = () => {
                       <div className="flex justify-between items-center">
                         <div className="flex items-center">
                           <LockIcon className="h-4 w-4 text-muted-foreground mr-2" />
-                          <span className="text-sm text-muted-foreground">This ticket is locked and cannot be replied to.</span>
+                          <span className="text-sm text-muted-foreground">This ticket is closed and cannot be replied to.</span>
                         </div>
                       </div>
                       
@@ -1956,6 +2341,8 @@ const TicketDetail = () => {
                             variant="default" 
                             size="sm"
                             onClick={() => {
+                              if (!confirmReplyOverClaim()) return;
+
                               // Set action to Reopen
                               if (!ticketDetails.newReply) {
                                 setTicketDetails(prev => ({
@@ -1998,9 +2385,9 @@ const TicketDetail = () => {
                               updateTicketMutation.mutate({
                                 id: ticketDetails.id,
                                 data: {
-                                  locked: false,
                                   status: 'Open',
-                                  newReply: newMessage
+                                  newReply: newMessage,
+                                  overrideClaim: claimedByOther
                                 }
                               }, {
                                 onSuccess: () => {
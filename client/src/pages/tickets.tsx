@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, ReactNode } from 'react';
 import { useLocation } from 'wouter';
 import { 
   Bug, 
@@ -10,7 +10,11 @@ import {
   Loader2,
   Search,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  UserCheck,
+  AlarmClock,
+  Bookmark,
+  X
 } from 'lucide-react';
 
 // Format date to MM/dd/yy HH:mm in browser's timezone
@@ -87,19 +91,39 @@ import { useSidebar } from '@/hooks/use-sidebar';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from 'modl-shared-web/components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from 'modl-shared-web/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from 'modl-shared-web/components/ui/select';
-import { useTickets } from '@/hooks/use-data';
+import { Switch } from 'modl-shared-web/components/ui/switch';
+import { Label } from 'modl-shared-web/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from 'modl-shared-web/components/ui/popover';
+import {
+  useDeleteTicketSearch,
+  useSavedTicketSearches,
+  useSaveTicketSearch,
+  useSetTicketDuty,
+  useTicketCategories,
+  useTicketDuty,
+  useTickets
+} from '@/hooks/use-data';
+import { useToast } from '@/hooks/use-toast';
 import PageContainer from '@/components/layout/PageContainer';
+import { TICKET_STATUS_COLORS, TICKET_STATUSES, TicketStatus, toTicketStatusSlug } from '@/utils/ticket-status';
 
 // Define the Ticket interface to match the MongoDB schema
 interface Ticket {
   _id?: string;
   id: string;
-  type: 'bug' | 'player' | 'chat' | 'appeal' | 'staff' | 'support';
+  // ID of the ticket's category
+  type: string;
   subject: string;
   reportedBy: string;
   date: string;
-  status: 'Unfinished' | 'Open' | 'Closed';
+  status: TicketStatus;
   locked?: boolean;
+  // Staff member that claimed the ticket
+  assignedTo?: string | null;
+  // Worst SLA state of the ticket, null when its category has no targets
+  sla?: { state: 'ok' | 'at_risk' | 'breached' | 'met' | null };
+  // Replies and notes matching the searched words
+  matches?: TicketSearchMatch[];
   description?: string;
   messages?: Array<{
     id: string;
@@ -117,25 +141,63 @@ interface Ticket {
   }>;
 }
 
+interface TicketCategory {
+  id: string;
+  name: string;
+}
+
+interface TicketSearchMatch {
+  source: 'reply' | 'note';
+  author: string;
+  date: string | null;
+  snippet: string;
+  // Start and end offsets of the matches in the snippet
+  highlights: Array<[number, number]>;
+}
+
+interface SavedTicketSearch {
+  name: string;
+  query: string;
+}
+
+// Snippet of a reply or note with the searched words marked
+const renderHighlightedSnippet = (match: TicketSearchMatch) => {
+  const parts: ReactNode[] = [];
+  let position = 0;
+  match.highlights.forEach(([start, end], index) => {
+    if (start < position) return;
+    parts.push(match.snippet.slice(position, start));
+    parts.push(<mark key={index} className="bg-yellow-200 text-foreground rounded-sm px-0.5">{match.snippet.slice(start, end)}</mark>);
+    position = end;
+  });
+  parts.push(match.snippet.slice(position));
+  return parts;
+};
+
+// Icons of the built-in categories, custom categories use the chat icon
+const CATEGORY_ICONS: Record<string, typeof MessageSquare> = {
+  support: MessageSquare,
+  bug: Bug,
+  player: Users,
+  chat: MessageSquare,
+  appeal: LockKeyhole
+};
+
 // Generate a badge color and text based on ticket status
 const getTicketStatusInfo = (ticket: Ticket) => {
-  // Use simplified status system - only Open or Closed
-  const isOpen = !ticket.locked;
-                  
-  const statusClass = isOpen
-    ? 'bg-green-50 text-green-700 border-green-200'
-    : 'bg-red-50 text-red-700 border-red-200';
-    
-  const statusText = isOpen ? 'Open' : 'Closed';
-  
-  return { statusClass, statusText, isOpen };
+  const statusClass = TICKET_STATUS_COLORS[ticket.status] || TICKET_STATUS_COLORS.Open;
+  const statusText = ticket.status;
+
+  return { statusClass, statusText };
 };
 
 const Tickets = () => {
   const { } = useSidebar(); // We're not using sidebar context in this component
   const [statusFilter, setStatusFilter] = useState("all");
+  const [assigneeFilter, setAssigneeFilter] = useState("all");
   const [activeTab, setActiveTab] = useState("support");
   const [searchQuery, setSearchQuery] = useState("");
+  const [savedSearchName, setSavedSearchName] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
   const [, setLocation] = useLocation();
   
@@ -151,12 +213,72 @@ const Tickets = () => {
     return () => clearTimeout(timer);
   }, [searchQuery]);
   
+  const { toast } = useToast();
+  const { data: duty } = useTicketDuty();
+  const setDutyMutation = useSetTicketDuty();
+
+  const handleDutyChange = (onDuty: boolean) => {
+    setDutyMutation.mutate(onDuty, {
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to update duty status",
+          variant: "destructive"
+        });
+      }
+    });
+  };
+
+  const { data: savedSearchesResponse } = useSavedTicketSearches();
+  const savedSearches: SavedTicketSearch[] = savedSearchesResponse?.searches || [];
+  const saveSearchMutation = useSaveTicketSearch();
+  const deleteSearchMutation = useDeleteTicketSearch();
+
+  const handleSaveSearch = () => {
+    saveSearchMutation.mutate({ name: savedSearchName.trim(), query: searchQuery.trim() }, {
+      onSuccess: () => {
+        setSavedSearchName("");
+        toast({ title: "Search saved", description: `Saved as ${savedSearchName.trim()}` });
+      },
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to save search",
+          variant: "destructive"
+        });
+      }
+    });
+  };
+
+  const handleDeleteSearch = (name: string) => {
+    deleteSearchMutation.mutate(name, {
+      onError: (error) => {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to delete saved search",
+          variant: "destructive"
+        });
+      }
+    });
+  };
+
+  const { data: categoriesResponse } = useTicketCategories();
+  const categories: TicketCategory[] = categoriesResponse?.categories || [];
+
+  // Fall back to the first category when the default one doesn't exist or isn't visible
+  useEffect(() => {
+    if (categories.length > 0 && !categories.some(category => category.id === activeTab)) {
+      setActiveTab(categories[0].id);
+    }
+  }, [categories, activeTab]);
+  
   const { data: ticketsResponse, isLoading, error } = useTickets({
     page: currentPage,
     limit: 10,
     search: debouncedSearchQuery,
     status: statusFilter === "all" ? "" : statusFilter,
     type: activeTab,
+    assignee: assigneeFilter === "all" ? "" : assigneeFilter,
   });
   
   // More generous left margin to prevent text overlap with sidebar
@@ -172,19 +294,10 @@ const Tickets = () => {
     hasPrev: false,
   };
   
-  // Convert ticket status to simplified Open/Closed
-  const getSimplifiedStatus = (ticket: Ticket): 'open' | 'closed' => {
-    // Using simplified status system - if it's not Open or it's locked, it's closed
-    if (ticket.locked === true) {
-      return 'closed';
-    }
-    return 'open';
-  };
-  
   // Reset page when tab changes
   useEffect(() => {
     setCurrentPage(1);
-  }, [activeTab, statusFilter]);
+  }, [activeTab, statusFilter, assigneeFilter]);
     const handleNavigateToTicket = (ticketId: string) => {
     // Navigate to the ticket detail page
     // Navigate to ticket
@@ -229,6 +342,16 @@ const Tickets = () => {
         <TableCell>{ticket.id}</TableCell>
         <TableCell className="font-medium">
           {ticket.subject}
+          {ticket.matches && ticket.matches.length > 0 && (
+            <div className="mt-1 space-y-0.5">
+              {ticket.matches.map((match, matchIndex) => (
+                <p key={matchIndex} className="text-xs font-normal text-muted-foreground line-clamp-2">
+                  <span className="font-medium">{match.author}{match.source === 'note' ? ' (note)' : ''}:</span>{' '}
+                  {renderHighlightedSnippet(match)}
+                </p>
+              ))}
+            </div>
+          )}
           <div className="flex flex-wrap gap-1.5 mt-1">
             <Badge 
               variant="outline" 
@@ -236,6 +359,21 @@ const Tickets = () => {
             >
               {getTicketStatusInfo(ticket).statusText}
             </Badge>
+            {(ticket.sla?.state === 'breached' || ticket.sla?.state === 'at_risk') && (
+              <Badge
+                variant="outline"
+                className={`text-xs px-1.5 py-0 h-5 ${ticket.sla.state === 'breached' ? 'bg-red-50 text-red-700 border-red-200' : 'bg-orange-50 text-orange-700 border-orange-200'}`}
+              >
+                <AlarmClock className="h-3 w-3 mr-1" />
+                {ticket.sla.state === 'breached' ? 'SLA breached' : 'SLA at risk'}
+              </Badge>
+            )}
+            {ticket.assignedTo && (
+              <Badge variant="outline" className="text-xs px-1.5 py-0 h-5 bg-muted/30">
+                <UserCheck className="h-3 w-3 mr-1" />
+                {ticket.assignedTo}
+              </Badge>
+            )}
           </div>
         </TableCell>
         <TableCell>{ticket.reportedBy}</TableCell>
@@ -268,7 +406,7 @@ const Tickets = () => {
   const renderEmptyRow = () => (
     <TableRow>
       <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
-        No tickets match your current filters.
+        {error instanceof Error ? error.message : 'No tickets match your current filters.'}
       </TableCell>
     </TableRow>
   );
@@ -366,122 +504,136 @@ const Tickets = () => {
             <div className="relative">
               <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search tickets, players, staff, or content..."
+                placeholder="Search, e.g. player:Notch tag:hacking status:open"
+                title={'Words and "phrases" search subjects, replies and notes. Filters: id:, player:, tag:, status:, assignee:me, before:2026-09-01, after:2026-09-01'}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-10 w-80"
               />
             </div>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="icon" title="Saved searches">
+                  <Bookmark className="h-4 w-4" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-72 p-3" align="end">
+                <div className="space-y-3">
+                  <h4 className="text-sm font-medium">Saved searches</h4>
+                  {savedSearches.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">No saved searches yet</p>
+                  ) : (
+                    <div className="space-y-1 max-h-60 overflow-y-auto">
+                      {savedSearches.map(savedSearch => (
+                        <div key={savedSearch.name} className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="flex-1 justify-start h-auto py-1 text-left"
+                            onClick={() => setSearchQuery(savedSearch.query)}
+                          >
+                            <div className="min-w-0">
+                              <div className="text-sm truncate">{savedSearch.name}</div>
+                              <div className="text-xs text-muted-foreground truncate">{savedSearch.query}</div>
+                            </div>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            title="Delete saved search"
+                            disabled={deleteSearchMutation.isPending}
+                            onClick={() => handleDeleteSearch(savedSearch.name)}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex gap-2 border-t pt-3">
+                    <Input
+                      placeholder="Name this search"
+                      value={savedSearchName}
+                      onChange={(e) => setSavedSearchName(e.target.value)}
+                      className="h-8 text-sm"
+                    />
+                    <Button
+                      size="sm"
+                      className="h-8"
+                      disabled={!savedSearchName.trim() || !searchQuery.trim() || saveSearchMutation.isPending}
+                      onClick={handleSaveSearch}
+                    >
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              </PopoverContent>
+            </Popover>
             <Select value={statusFilter} onValueChange={setStatusFilter}>
               <SelectTrigger className="w-[180px] bg-background border border-border text-sm">
                 <SelectValue placeholder="All Statuses" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Statuses</SelectItem>
-                <SelectItem value="open">Open</SelectItem>
-                <SelectItem value="closed">Closed</SelectItem>
+                <SelectItem value="open">All Active</SelectItem>
+                <SelectItem value="closed">Resolved or Closed</SelectItem>
+                {TICKET_STATUSES.map(status => (
+                  <SelectItem key={status} value={toTicketStatusSlug(status)}>{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+              <SelectTrigger className="w-[160px] bg-background border border-border text-sm">
+                <SelectValue placeholder="Anyone" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Anyone</SelectItem>
+                <SelectItem value="me">Assigned to me</SelectItem>
+                <SelectItem value="unassigned">Unassigned</SelectItem>
               </SelectContent>
             </Select>
+            <div className="flex items-center gap-2 pl-2" title="Ticket queues only assign tickets to staff that are on duty">
+              <Switch
+                checked={duty?.onDuty || false}
+                disabled={setDutyMutation.isPending}
+                onCheckedChange={handleDutyChange}
+              />
+              <Label className="text-sm">On duty</Label>
+            </div>
           </div>
         </div>
         
         <Card>
           <CardHeader className="p-0">
-            <Tabs defaultValue="support" className="w-full" onValueChange={setActiveTab}>
+            <Tabs value={activeTab} className="w-full" onValueChange={setActiveTab}>
               <div className="overflow-x-auto pb-1 border-b border-border">
-                <TabsList className="w-max flex rounded-none bg-transparent">                  <TabsTrigger 
-                    value="support" 
-                    className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:text-primary rounded-none px-3 py-0.5 flex-shrink-0 text-sm"
-                  >
-                    <MessageSquare className="h-4 w-4 mr-2" />
-                    Support                    <Badge variant="outline" className="ml-2 bg-muted/30 text-foreground border-none text-xs font-medium">{tickets ? tickets.filter((t: Ticket) => t.type === 'support').length : 0}</Badge>
-                  </TabsTrigger>
-                <TabsTrigger 
-                  value="bug" 
-                  className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:text-primary rounded-none px-2 py-0.5 flex-shrink-0 text-sm"
-                >
-                  <Bug className="h-4 w-4 mr-2" />
-                  Bug Reports
-                  <Badge variant="outline" className="ml-2 bg-muted/30 text-foreground border-none text-xs font-medium">{tickets ? tickets.filter((t: Ticket) => t.type === 'bug').length : 0}</Badge>
-                </TabsTrigger>
-                <TabsTrigger 
-                  value="player" 
-                  className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:text-primary rounded-none px-3 py-0.5 flex-shrink-0 text-sm"
-                >
-                  <Users className="h-4 w-4 mr-2" />
-                  Player Reports
-                  <Badge variant="outline" className="ml-2 bg-muted/30 text-foreground border-none text-xs font-medium">{tickets ? tickets.filter((t: Ticket) => t.type === 'player').length : 0}</Badge>
-                </TabsTrigger>
-                <TabsTrigger 
-                  value="chat" 
-                  className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:text-primary rounded-none px-3 py-0.5 flex-shrink-0 text-sm"
-                >
-                  <MessageSquare className="h-4 w-4 mr-2" />
-                  Chat Reports
-                  <Badge variant="outline" className="ml-2 bg-muted/30 text-foreground border-none text-xs font-medium">{tickets ? tickets.filter((t: Ticket) => t.type === 'chat').length : 0}</Badge>
-                </TabsTrigger>
-                <TabsTrigger 
-                  value="appeal" 
-                  className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:text-primary rounded-none px-3 py-0.5 flex-shrink-0 text-sm"
-                >
-                  <LockKeyhole className="h-4 w-4 mr-2" />
-                  Ban Appeals
-                  <Badge variant="outline" className="ml-2 bg-muted/30 text-foreground border-none text-xs font-medium">{tickets ? tickets.filter((t: Ticket) => t.type === 'appeal').length : 0}</Badge>
-                </TabsTrigger>
-                <TabsTrigger 
-                  value="staff" 
-                  className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:text-primary rounded-none px-3 py-0.5 flex-shrink-0 text-sm"
-                >
-                  <MessageSquare className="h-4 w-4 mr-2" />
-                  Staff Applications
-                  <Badge variant="outline" className="ml-2 bg-muted/30 text-foreground border-none text-xs font-medium">{tickets ? tickets.filter((t: Ticket) => t.type === 'staff').length : 0}</Badge>
-                </TabsTrigger>
-              
-              </TabsList>
+                <TabsList className="w-max flex rounded-none bg-transparent">
+                  {categories.map(category => {
+                    const Icon = CATEGORY_ICONS[category.id] || MessageSquare;
+                    return (
+                      <TabsTrigger 
+                        key={category.id}
+                        value={category.id} 
+                        className="data-[state=active]:border-b-2 data-[state=active]:border-primary data-[state=active]:text-primary rounded-none px-3 py-0.5 flex-shrink-0 text-sm"
+                      >
+                        <Icon className="h-4 w-4 mr-2" />
+                        {category.name}
+                        <Badge variant="outline" className="ml-2 bg-muted/30 text-foreground border-none text-xs font-medium">{tickets ? tickets.filter((t: Ticket) => t.type === category.id).length : 0}</Badge>
+                      </TabsTrigger>
+                    );
+                  })}
+                </TabsList>
               </div>
 
-              <TabsContent value="support" className="p-0 mt-0">
-                <CardContent className="p-4">
-                  {renderTicketTable()}
-                  {renderPagination()}
-                </CardContent>
-              </TabsContent>
-              
-              <TabsContent value="bug" className="p-0 mt-0">
-                <CardContent className="p-4">
-                  {renderTicketTable()}
-                  {renderPagination()}
-                </CardContent>
-              </TabsContent>
-              
-              <TabsContent value="player" className="p-0 mt-0">
-                <CardContent className="p-4">
-                  {renderTicketTable()}
-                  {renderPagination()}
-                </CardContent>
-              </TabsContent>
-              
-              <TabsContent value="chat" className="p-0 mt-0">
-                <CardContent className="p-4">
-                  {renderTicketTable()}
-                  {renderPagination()}
-                </CardContent>
-              </TabsContent>
-              
-              <TabsContent value="appeal" className="p-0 mt-0">
-                <CardContent className="p-4">
-                  {renderTicketTable()}
-                  {renderPagination()}
-                </CardContent>
-              </TabsContent>
-              
-              <TabsContent value="staff" className="p-0 mt-0">
-                <CardContent className="p-4">
-                  {renderTicketTable()}
-                  {renderPagination()}
-                </CardContent>
-              </TabsContent>
-          
+              {categories.map(category => (
+                <TabsContent key={category.id} value={category.id} className="p-0 mt-0">
+                  <CardContent className="p-4">
+                    {renderTicketTable()}
+                    {renderPagination()}
+                  </CardContent>
+                </TabsContent>
+              ))}
             </Tabs>
           </CardHeader>
         </Card>
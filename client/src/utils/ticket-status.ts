@@ -0,0 +1,27 @@
+// Ticket lifecycle, matching server/services/ticket-status-service.ts
+export const TICKET_STATUSES = ['New', 'Open', 'Waiting on Player', 'Waiting on Staff', 'Resolved', 'Closed'] as const;
+
+export type TicketStatus = typeof TICKET_STATUSES[number];
+
+export interface TicketStatusEvent {
+  from: string | null;
+  to: TicketStatus;
+  by: string;
+  at: string;
+  reason: string | null;
+}
+
+export const TICKET_STATUS_COLORS: Record<string, string> = {
+  'New': 'bg-blue-50 text-blue-700 border-blue-200',
+  'Open': 'bg-green-50 text-green-700 border-green-200',
+  'Waiting on Player': 'bg-purple-50 text-purple-700 border-purple-200',
+  'Waiting on Staff': 'bg-orange-50 text-orange-700 border-orange-200',
+  'Resolved': 'bg-teal-50 text-teal-700 border-teal-200',
+  'Closed': 'bg-gray-50 text-gray-700 border-gray-200',
+  'Unfinished': 'bg-gray-50 text-gray-500 border-gray-200'
+};
+
+// Status used in URLs and query parameters, like waiting_on_player
+export const toTicketStatusSlug = (status: string) => status.toLowerCase().replace(/\s+/g, '_');
+
+export const isActiveTicketStatus = (status: string) => status !== 'Resolved' && status !== 'Closed' && status !== 'Unfinished';
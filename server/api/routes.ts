@@ -3,6 +3,20 @@ import { createSystemLog } from '../routes/log-routes';
 import { v4 as uuidv4 } from 'uuid';
 import { setupMinecraftRoutes } from '../routes/minecraft-routes';
 import { Connection } from 'mongoose';
+import { createPunishmentRecord, findPunishmentsByPlayer, getPunishmentModel, withPunishments } from '../services/punishment-store-service';
+import { createIpEntry, recordLoginEvent, touchIpEntry } from '../services/login-history-service';
+import { DEFAULT_TICKET_CATEGORIES, findTicketCategory, generateTicketId, getTicketCategories, getTicketCategoryName } from '../services/ticket-category-service';
+import { queueTicketAssignment } from '../services/ticket-queue-service';
+import {
+  checkTicketStatusChange,
+  getReplyTicketStatus,
+  getTicketStatus,
+  getTicketStatusUpdate,
+  getTicketWorkflow,
+  normalizeTicketStatus,
+  setTicketStatus,
+  TicketStatus
+} from '../services/ticket-status-service';
 
 interface IUsername {
   username: string;
@@ -16,7 +30,9 @@ interface IIPAddress {
   asn?: string;
   proxy?: boolean;
   firstLogin: Date;
-  logins: Date[];
+  lastLogin?: Date;
+  loginCount?: number;
+  logins?: Date[];
 }
 
 interface IPunishment {
@@ -74,16 +90,16 @@ export function setupPlayerRoutes(app: Express) {
     try {
       const players = await Player.find({}, { 
         minecraftUuid: 1, 
-        'usernames': { $slice: -1 },
-        'punishments': 1 
+        'usernames': { $slice: -1 }
       }).lean(); 
+      const punishmentsByPlayer = await findPunishmentsByPlayer(req.serverDbConnection, players.map((player: any) => player.minecraftUuid));
       
       const transformedPlayers = players.map((player: any) => { 
         const latestUsername = player.usernames && player.usernames.length > 0 
           ? player.usernames[player.usernames.length - 1].username 
           : 'Unknown';
         
-        const status = player.punishments && player.punishments.some((p: IPunishment) => p.active)
+        const status = punishmentsByPlayer.get(player.minecraftUuid)?.some((p: any) => p.active)
           ? 'Banned'
           : 'Active';
         
@@ -134,23 +150,21 @@ export function setupPlayerRoutes(app: Express) {
       if (existingPlayer) {
         const existingIp = existingPlayer.ipList.find((ip: IIPAddress) => ip.ipAddress === ipAddress);
         if (existingIp) {
-          existingIp.logins.push(new Date());
+          touchIpEntry(existingIp);
         } else {
-          existingPlayer.ipList.push({
-            ipAddress,
+          existingPlayer.ipList.push(createIpEntry(ipAddress, {
             country: ipInfo.countryCode,
             region: ipInfo.regionName + ipInfo.city,
             asn: ipInfo.as,
-            proxy: ipInfo.proxy || ipInfo.hosting,
-            firstLogin: new Date(),
-            logins: [new Date()]
-          });
+            proxy: ipInfo.proxy || ipInfo.hosting
+          }));
         }
         const existingUsername = existingPlayer.usernames.find((u: IUsername) => u.username === username);
         if (!existingUsername) {
           existingPlayer.usernames.push({ username, date: new Date() });
         }
         await existingPlayer.save();
+        await recordLoginEvent(req.serverDbConnection, { minecraftUuid, username, ipAddress });
         return res.status(201).json(existingPlayer);
       }
   
@@ -159,19 +173,17 @@ export function setupPlayerRoutes(app: Express) {
         minecraftUuid,
         usernames: [{ username, date: new Date() }],
         notes: [],
-        ipList: [{
-          ipAddress,
+        ipList: [createIpEntry(ipAddress, {
           country: ipInfo.countryCode,
           region: ipInfo.regionName + ipInfo.city,
           asn: ipInfo.as,
-          proxy: ipInfo.proxy || ipInfo.hosting,
-          firstLogin: new Date(),
-          logins: [new Date()]
-        }],
+          proxy: ipInfo.proxy || ipInfo.hosting
+        })],
         punishments: [],
         pendingNotifications: []
       });
       await newPlayerDoc.save();
+      await recordLoginEvent(req.serverDbConnection, { minecraftUuid, username, ipAddress });
       res.status(201).json(newPlayerDoc);
     } catch (error) {
       console.error('Error processing player login:', error);
@@ -229,16 +241,14 @@ export function setupPlayerRoutes(app: Express) {
     try {
       const uuid = req.params.uuid;
       const punishment = req.body;
-      const player = await Player.findOneAndUpdate(
-        { minecraftUuid: uuid },
-        { $push: { punishments: punishment } },
-        { new: true }
-      );
+      const player = await Player.findOne({ minecraftUuid: uuid });
       if (!player) {
         return res.status(404).json({ error: 'Player not found' });
       }
+      await createPunishmentRecord(req.serverDbConnection, uuid, punishment);
       await createSystemLog(req.serverDbConnection, req.serverName, `Punishment added to player ${uuid}`);
-      res.json(player);
+      const [playerWithPunishments] = await withPunishments(req.serverDbConnection, [player]);
+      res.json(playerWithPunishments);
     } catch (error) {
       console.error('Error adding punishment:', error);
       res.status(500).json({ error: 'Failed to add punishment' });
@@ -277,21 +287,56 @@ export function setupPlayerRoutes(app: Express) {
   });
 }
 
-// Helper function to generate ticket ID
-async function generateTicketId(serverDbConnection: Connection, type: string): Promise<string> {
-  const Ticket = serverDbConnection.model('Ticket');
-  const prefix = type === 'bug' ? 'BUG' : 
-                type === 'player' ? 'PLAYER' :
-                type === 'chat' ? 'CHAT' :
-                type === 'appeal' ? 'APPEAL' :
-                type === 'staff' ? 'STAFF' : 'SUPPORT';
-  const randomId = Math.floor(100000 + Math.random() * 900000);
-  const ticketId = `${prefix}-${randomId}`;
-  const existingTicket = await Ticket.findById(ticketId);
-  if (existingTicket) {
-    return generateTicketId(serverDbConnection, type); // Recursive call with connection
+// Helper function to generate ticket ID for one of the built-in ticket types
+async function generateTicketIdForType(serverDbConnection: Connection, type: string): Promise<string> {
+  const category = findTicketCategory(await getTicketCategories(serverDbConnection), type)
+    || findTicketCategory(DEFAULT_TICKET_CATEGORIES, type)!;
+  return generateTicketId(serverDbConnection, category);
+}
+
+// Helper function to add a status change the workflow allows to a ticket update, returns why it isn't allowed otherwise
+async function addStatusChange(
+  req: Request,
+  ticket: any,
+  requested: unknown,
+  by: string,
+  reason: string | null,
+  updateOperations: { $set: Record<string, any>; $push: Record<string, any> }
+): Promise<{ code: number; error: string } | null> {
+  const status = normalizeTicketStatus(requested);
+  if (!status) return { code: 400, error: `Invalid status ${requested}` };
+  const currentStatus = getTicketStatus(ticket);
+  if (status === currentStatus) return null;
+
+  const statusError = await checkTicketStatusChange(req, await getTicketWorkflow(req.serverDbConnection!), currentStatus, status);
+  if (statusError) return { code: 403, error: statusError };
+  addStatusUpdate(ticket, status, by, reason, updateOperations);
+  return null;
+}
+
+function addStatusUpdate(
+  ticket: any,
+  status: TicketStatus,
+  by: string,
+  reason: string | null,
+  updateOperations: { $set: Record<string, any>; $push: Record<string, any> }
+): void {
+  const statusUpdate = getTicketStatusUpdate(ticket, status, by, reason);
+  if (statusUpdate) {
+    Object.assign(updateOperations.$set, statusUpdate.$set);
+    Object.assign(updateOperations.$push, statusUpdate.$push);
   }
-  return ticketId;
+}
+
+// Reply actions that resolve or close a ticket
+const RESOLVING_ACTIONS = ['Accepted', 'Completed', 'Pardon', 'Reduce'];
+const CLOSING_ACTIONS = ['Rejected', 'Stale', 'Duplicate', 'Reject', 'Close'];
+
+function getReplyActionStatus(action: string | undefined): TicketStatus | undefined {
+  if (!action) return undefined;
+  if (RESOLVING_ACTIONS.includes(action)) return 'Resolved';
+  if (CLOSING_ACTIONS.includes(action)) return 'Closed';
+  return action === 'Reopen' ? 'Open' : undefined;
 }
 
 // Helper function to get player by UUID
@@ -319,13 +364,14 @@ export function setupTicketRoutes(app: Express) {
     const Ticket = req.serverDbConnection.model('Ticket');
     try {
       const tickets = await Ticket.find({ status: { $ne: 'Unfinished' } });
+      const categories = await getTicketCategories(req.serverDbConnection);
       const transformedTickets = tickets.map((ticket: any) => ({
         id: ticket._id,
         subject: ticket.subject || 'No Subject',
-        status: ticket.status,
+        status: getTicketStatus(ticket),
         reportedBy: ticket.creator,
         date: ticket.created,
-        category: getCategoryFromType(ticket.type),
+        category: getTicketCategoryName(categories, ticket.type),
         locked: ticket.locked || false,
         type: ticket.type
       }));
@@ -336,18 +382,6 @@ export function setupTicketRoutes(app: Express) {
     }
   });
   
-  function getCategoryFromType(type: string): string {
-    switch(type) {
-      case 'bug': return 'Bug Report';
-      case 'player': return 'Player Report';
-      case 'chat': return 'Chat Report';
-      case 'appeal': return 'Ban Appeal';
-      case 'staff': return 'Staff Application';
-      case 'support': return 'General Support';
-      default: return 'Other';
-    }
-  }
-
   app.get('/api/tickets/:id', async (req: Request, res: Response) => {
     if (!req.serverDbConnection) {
       return res.status(503).json({ error: 'Server database not available' });
@@ -359,12 +393,13 @@ export function setupTicketRoutes(app: Express) {
       if (!ticket) {
         return res.status(404).json({ error: 'Ticket not found' });
       }
+      const categories = await getTicketCategories(req.serverDbConnection);
       const transformedTicket = {
         id: ticket._id,
         subject: ticket.subject || 'No Subject',
-        status: ticket.status,
+        status: getTicketStatus(ticket),
         type: ticket.type,
-        category: getCategoryFromType(ticket.type),
+        category: getTicketCategoryName(categories, ticket.type),
         reportedBy: ticket.creator,
         date: ticket.created,
         locked: ticket.locked || false,
@@ -403,7 +438,7 @@ export function setupTicketRoutes(app: Express) {
       const creatorInfo = await getPlayerByUuid(req.serverDbConnection, creatorUuid);
       if (!creatorInfo) return res.status(404).json({ error: 'Creator not found' });
       
-      const ticketId = await generateTicketId(req.serverDbConnection, 'bug');
+      const ticketId = await generateTicketIdForType(req.serverDbConnection, 'bug');
       const newTicket = new Ticket({
         _id: ticketId,
         type: 'bug',
@@ -438,7 +473,7 @@ export function setupTicketRoutes(app: Express) {
       const reportedPlayerInfo = await getPlayerByUuid(req.serverDbConnection, reportedPlayerUuid);
       if (!reportedPlayerInfo) return res.status(404).json({ error: 'Reported player not found' });
       
-      const ticketId = await generateTicketId(req.serverDbConnection, 'player');
+      const ticketId = await generateTicketIdForType(req.serverDbConnection, 'player');
       const newTicket = new Ticket({
         _id: ticketId,
         type: 'player',
@@ -478,7 +513,7 @@ export function setupTicketRoutes(app: Express) {
       const reportedPlayerInfo = await getPlayerByUuid(req.serverDbConnection, reportedPlayerUuid);
       if (!reportedPlayerInfo) return res.status(404).json({ error: 'Reported player not found' });
       
-      const ticketId = await generateTicketId(req.serverDbConnection, 'chat');
+      const ticketId = await generateTicketIdForType(req.serverDbConnection, 'chat');
       const newTicket = new Ticket({
         _id: ticketId,
         type: 'chat',
@@ -512,7 +547,7 @@ export function setupTicketRoutes(app: Express) {
       const creatorInfo = await getPlayerByUuid(req.serverDbConnection, creatorUuid);
       if (!creatorInfo) return res.status(404).json({ error: 'Creator not found' });
       
-      const ticketId = await generateTicketId(req.serverDbConnection, 'staff');
+      const ticketId = await generateTicketIdForType(req.serverDbConnection, 'staff');
       const newTicket = new Ticket({
         _id: ticketId,
         type: 'staff',
@@ -543,7 +578,7 @@ export function setupTicketRoutes(app: Express) {
       const creatorInfo = await getPlayerByUuid(req.serverDbConnection, creatorUuid);
       if (!creatorInfo) return res.status(404).json({ error: 'Creator not found' });
       
-      const ticketId = await generateTicketId(req.serverDbConnection, 'support');
+      const ticketId = await generateTicketIdForType(req.serverDbConnection, 'support');
       const newTicket = new Ticket({
         _id: ticketId,
         type: 'support',
@@ -589,19 +624,14 @@ export function setupTicketRoutes(app: Express) {
         staff: false
       };
       
-      const updatedTicket = await Ticket.findByIdAndUpdate(
-        id,
-        {
-          $set: {
-            status: 'Open',
-            subject: subject,
-            formData: formData
-          },
-          $push: { replies: initialMessage }
-        },
-        { new: true }
-      );
+      const updateOperations = {
+        $set: { subject: subject, formData: formData } as Record<string, any>,
+        $push: { replies: initialMessage } as Record<string, any>
+      };
+      addStatusUpdate(ticket, 'New', ticket.creator, null, updateOperations);
+      const updatedTicket = await Ticket.findByIdAndUpdate(id, updateOperations, { new: true });
       await createSystemLog(req.serverDbConnection, req.serverName, `Ticket ${id} submitted by ${ticket.creator}`);
+      queueTicketAssignment(req.serverDbConnection, req.serverName, id, ticket.type);
       res.json({ 
         success: true, 
         ticketId: id,
@@ -632,19 +662,21 @@ export function setupTicketRoutes(app: Express) {
         
         if (!updateOperations.$push.replies) updateOperations.$push.replies = [];
         updateOperations.$push.replies.push(reply);
+      }
 
-        if (reply.action) {
-          const closingActions = ['Accepted', 'Completed', 'Pardon', 'Reduce', 'Rejected', 'Stale', 'Duplicate', 'Reject', 'Close'];
-          const reopenAction = 'Reopen';
-          if (closingActions.includes(reply.action)) {
-            updateOperations.$set.status = (reply.action === 'Accepted' || reply.action === 'Completed' || reply.action === 'Pardon' || reply.action === 'Reduce') 
-                                          ? 'Resolved' : 'Closed';
-            updateOperations.$set.locked = true;
-          } else if (reply.action === reopenAction) {
-            updateOperations.$set.status = 'Open';
-            updateOperations.$set.locked = false;
-          }
-        }
+      // Reply actions resolve, close or reopen the ticket, other replies move it between the waiting statuses
+      const reply: IReply | undefined = req.body.newReply;
+      const statusActor = reply?.name || 'Staff';
+      let requestedStatus = req.body.status || getReplyActionStatus(reply?.action);
+      if (!requestedStatus && req.body.locked !== undefined) {
+        requestedStatus = req.body.locked ? 'Closed' : getTicketStatus(ticketToUpdate) === 'Closed' ? 'Open' : undefined;
+      }
+      if (requestedStatus) {
+        const statusError = await addStatusChange(req, ticketToUpdate, requestedStatus, statusActor, reply?.action || null, updateOperations);
+        if (statusError) return res.status(statusError.code).json({ error: statusError.error });
+      } else if (reply) {
+        const replyStatus = getReplyTicketStatus(ticketToUpdate, !!reply.staff);
+        if (replyStatus) addStatusUpdate(ticketToUpdate, replyStatus, statusActor, null, updateOperations);
       }
       
       if (req.body.newNote) {
@@ -657,8 +689,6 @@ export function setupTicketRoutes(app: Express) {
         updateOperations.$push.notes.push(note);
       }
       
-      if (req.body.status) updateOperations.$set.status = req.body.status;
-      if (req.body.locked !== undefined) updateOperations.$set.locked = req.body.locked;
       if (req.body.tags) updateOperations.$set.tags = req.body.tags;
       if (req.body.priority) updateOperations.$set['data.priority'] = req.body.priority;
       if (req.body.assignedTo) updateOperations.$set['data.assignedTo'] = req.body.assignedTo;
@@ -673,7 +703,7 @@ export function setupTicketRoutes(app: Express) {
       const updatedTicket = await Ticket.findByIdAndUpdate(id, updateOperations, { new: true });
       if (!updatedTicket) return res.status(404).json({ error: 'Ticket not found during update' });
 
-      console.log(`Updated ticket ${id} - Locked status: ${updatedTicket.locked}`);
+      console.log(`Updated ticket ${id} - Status: ${updatedTicket.status}`);
       await createSystemLog(req.serverDbConnection, req.serverName, `Ticket ${id} updated`);
       res.json(updatedTicket);
     } catch (error) {
@@ -772,12 +802,11 @@ export function setupAppealRoutes(app: Express) {
     const Ticket = req.serverDbConnection.model('Ticket');
     const Player = req.serverDbConnection.model('Player');
     try {
-      const ticketId = await generateTicketId(req.serverDbConnection, 'appeal');
+      const ticketId = await generateTicketIdForType(req.serverDbConnection, 'appeal');
       const appealData = {
         _id: ticketId,
         tags: ['appeal', ...(req.body.tags || [])],
         type: 'appeal',
-        status: 'Open',
         created: new Date(),
         creator: req.body.username,
         creatorUuid: req.body.playerUuid,
@@ -801,17 +830,18 @@ export function setupAppealRoutes(app: Express) {
       };
       
       const newAppeal = new Ticket(appealData);
+      setTicketStatus(newAppeal, 'New', req.body.username);
       await newAppeal.save();
       
-      // Link appeal to punishment on the Player document
+      // Link appeal to the punishment
       if (req.body.playerUuid && req.body.punishmentId) {
-        await Player.updateOne(
+        await getPunishmentModel(req.serverDbConnection).updateOne(
           { 
             minecraftUuid: req.body.playerUuid,
-            'punishments.id': req.body.punishmentId
+            id: req.body.punishmentId
           },
           { 
-            $push: { 'punishments.$.attachedTicketIds': newAppeal._id } 
+            $push: { attachedTicketIds: newAppeal._id } 
           }
         );
       }
@@ -846,26 +876,14 @@ export function setupAppealRoutes(app: Express) {
         return res.status(404).json({ error: 'Appeal not found or ticket is not an appeal' });
       }
 
-      if (replyContent.action) {
-        const closingActions = ['Accepted', 'Completed', 'Pardon', 'Reduce', 'Rejected', 'Stale', 'Duplicate', 'Reject', 'Close'];
-        const reopenAction = 'Reopen';
-        let newStatus = appealToUpdate.status;
-        let newLocked = appealToUpdate.locked;
-        let newDataStatus = appealToUpdate.data.get('status');
-
-        if (closingActions.includes(replyContent.action)) {
-          newStatus = (replyContent.action === 'Accepted' || replyContent.action === 'Completed' || replyContent.action === 'Pardon' || replyContent.action === 'Reduce') 
-                      ? 'Resolved' : 'Closed';
-          newLocked = true;
-          newDataStatus = newStatus; 
-        } else if (replyContent.action === reopenAction) {
-          newStatus = 'Open';
-          newLocked = false;
-          newDataStatus = 'Open';
-        }
-        updatePayload.$set.status = newStatus;
-        updatePayload.$set.locked = newLocked;
-        updatePayload.$set['data.status'] = newDataStatus;
+      const actionStatus = getReplyActionStatus(replyContent.action);
+      if (actionStatus) {
+        const statusError = await addStatusChange(req, appealToUpdate, actionStatus, replyContent.name, replyContent.action || null, updatePayload);
+        if (statusError) return res.status(statusError.code).json({ error: statusError.error });
+        updatePayload.$set['data.status'] = actionStatus;
+      } else {
+        const replyStatus = getReplyTicketStatus(appealToUpdate, replyContent.staff === true);
+        if (replyStatus) addStatusUpdate(appealToUpdate, replyStatus, replyContent.name, null, updatePayload);
       }
       if (Object.keys(updatePayload.$set).length === 0) delete updatePayload.$set;
 
@@ -902,17 +920,13 @@ export function setupAppealRoutes(app: Express) {
         staff: false
       };
 
-      const updatedAppeal = await Ticket.findByIdAndUpdate(
-        id,
-        {
-          $set: {
-            status: status,
-            'data.status': status
-          },
-          $push: { replies: systemMessage }
-        },
-        { new: true }
-      );
+      const updateOperations = {
+        $set: { 'data.status': status } as Record<string, any>,
+        $push: { replies: systemMessage } as Record<string, any>
+      };
+      const statusError = await addStatusChange(req, appeal, status, 'System', null, updateOperations);
+      if (statusError) return res.status(statusError.code).json({ error: statusError.error });
+      const updatedAppeal = await Ticket.findByIdAndUpdate(id, updateOperations, { new: true });
 
       if (!updatedAppeal) return res.status(404).json({ error: 'Appeal not found during status update' });
       
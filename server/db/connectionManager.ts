@@ -12,6 +12,15 @@ import {
   HomepageCardSchema
 } from 'modl-shared-web';
 import { ModlServerSchema } from 'modl-shared-web';
+import { migrateEmbeddedPunishments } from '../services/punishment-store-service';
+import { backfillPunishmentAuditEvents, resumeRollbackJobs } from '../services/rollback-service';
+import { resumeAltBackfillJobs } from '../services/alt-backfill-service';
+import { migrateIpLoginLists } from '../services/login-history-service';
+import { migrateTicketAccessTokens } from '../services/ticket-access-service';
+import { migrateTicketStatuses } from '../services/ticket-status-service';
+import { ensureTicketSearchIndex } from '../services/ticket-search-service';
+import { scheduleTicketAutomation } from '../services/ticket-sla-service';
+import { schedulePresenceExpiry } from '../services/player-presence-service';
 
 dotenv.config();
 
@@ -135,6 +144,55 @@ export async function connectToServerDb(serverName: string): Promise<Connection>
     // Register models after connection is established
     registerTenantModels(newConnection);
 
+    // Punishments used to be embedded in player documents
+    try {
+      await migrateEmbeddedPunishments(newConnection);
+    } catch (migrationError) {
+      console.error(`[connectionManager] Error migrating punishments for ${actualDbNameForConnection}:`, migrationError);
+    }
+
+    // Rollbacks and staff statistics select punishments by their audit events, which older punishments don't have
+    backfillPunishmentAuditEvents(newConnection).catch(migrationError => {
+      console.error(`[connectionManager] Error backfilling punishment audit events for ${actualDbNameForConnection}:`, migrationError);
+    });
+
+    // IP entries used to keep every login date
+    try {
+      await migrateIpLoginLists(newConnection);
+    } catch (migrationError) {
+      console.error(`[connectionManager] Error migrating IP login lists for ${actualDbNameForConnection}:`, migrationError);
+    }
+
+    // Tickets used to have free-form statuses and were closed by locking them
+    try {
+      await migrateTicketStatuses(newConnection);
+    } catch (migrationError) {
+      console.error(`[connectionManager] Error migrating ticket statuses for ${actualDbNameForConnection}:`, migrationError);
+    }
+
+    // Tickets used to be readable by ID alone. Creators are emailed their links, so this
+    // runs in the background instead of holding up the connection.
+    migrateTicketAccessTokens(newConnection, serverName).catch(migrationError => {
+      console.error(`[connectionManager] Error migrating ticket access for ${actualDbNameForConnection}:`, migrationError);
+    });
+
+    // Building the search index can take a while on large tenants, text searches fail with a 503 until it is ready
+    ensureTicketSearchIndex(newConnection).catch(indexError => {
+      console.error(`[connectionManager] Error building the ticket search index for ${actualDbNameForConnection}:`, indexError);
+    });
+
+    // SLA escalations, reminders and auto-closing of tickets waiting on the player
+    scheduleTicketAutomation(newConnection, serverName);
+
+    // Players of servers that stopped syncing go offline even when no other server syncs
+    schedulePresenceExpiry(newConnection, serverName);
+
+    // Rollback jobs that were running or being undone when the process last stopped
+    resumeRollbackJobs(newConnection, serverName);
+
+    // An alt detection backfill that was running when the process last stopped
+    resumeAltBackfillJobs(newConnection, serverName);
+
     serverConnections.set(connectionKeyInMap, newConnection);
     console.log(`Connected to server database: ${actualDbNameForConnection}`);
     return newConnection;
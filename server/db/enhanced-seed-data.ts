@@ -1,6 +1,7 @@
 import mongoose from 'mongoose';
 import { PlayerSchema, StaffSchema, TicketSchema, LogSchema, SettingsSchema } from 'modl-shared-web/schemas/TenantSchemas';
 import { createDefaultSettings, addDefaultPunishmentTypes } from '../routes/settings-routes';
+import { createPunishmentRecord, getPunishmentModel, IPunishmentRecord } from '../services/punishment-store-service';
 import { Connection } from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
 import crypto from 'crypto';
@@ -65,6 +66,7 @@ export async function seedEnhancedDatabase(dbConnection: Connection) {
     await Player.deleteMany({});
     await Ticket.deleteMany({});
     await Log.deleteMany({});
+    await getPunishmentModel(dbConnection).deleteMany({});
     
     // Keep staff and settings as they are
     
@@ -216,6 +218,7 @@ export async function seedEnhancedDatabase(dbConnection: Connection) {
     
     // Generate 20 players
     const players = [];
+    const punishments: IPunishmentRecord[] = [];
     
     for (let i = 0; i < 20; i++) {
       const uuid = generateUuid();
@@ -274,22 +277,15 @@ export async function seedEnhancedDatabase(dbConnection: Connection) {
       
       // Generate 0-2 punishments
       const punishmentCount = Math.floor(Math.random() * 3);
-      const punishments = [];
       
       for (let j = 0; j < punishmentCount; j++) {
-        const staffId = staffIds.length > 0 ? randomItem(staffIds) : defaultStaffId;
         const staffName = staffNames.length > 0 ? randomItem(staffNames) : defaultStaffName;
         const issueDate = randomDate(new Date(currentDate.getFullYear() - 1, 0, 1), currentDate);
         
         // Determine if it expires - 30% chance of permanent ban
         const isPermanent = Math.random() < 0.3;
-        let expiryDate = null;
-        
-        if (!isPermanent) {
-          // Random duration between 1 day and 30 days
-          const duration = (Math.floor(Math.random() * 30) + 1) * 24 * 60 * 60 * 1000;
-          expiryDate = new Date(issueDate.getTime() + duration);
-        }
+        // Random duration between 1 day and 30 days
+        const duration = isPermanent ? -1 : (Math.floor(Math.random() * 30) + 1) * 24 * 60 * 60 * 1000;
         
         // 50% chance the punishment is still active
         const isActive = Math.random() < 0.5;
@@ -297,21 +293,28 @@ export async function seedEnhancedDatabase(dbConnection: Connection) {
         // Select a random punishment type using ordinals
         const randomPunishmentType = punishmentTypes.length > 0 ? randomItem(punishmentTypes) : { ordinal: 1 };
         
-        const punishmentData = new Map<string, string | boolean | number>();
+        const punishmentData = new Map<string, string | boolean | number | Date>();
+        punishmentData.set('reason', randomItem(punishmentReasons));
+        punishmentData.set('duration', duration);
+        if (!isPermanent) {
+          punishmentData.set('expires', new Date(issueDate.getTime() + duration));
+        }
+        punishmentData.set('active', isActive);
         punishmentData.set('severity', randomItem(['Low', 'Medium', 'High']));
         punishmentData.set('autoDetected', Math.random() < 0.3);
         
         punishments.push({
           id: generatePunishmentId(),
-          type_ordinal: randomPunishmentType.ordinal,
-          issuerId: staffId,
+          minecraftUuid: uuid,
           issuerName: staffName,
-          reason: randomItem(punishmentReasons),
-          date: issueDate,
-          expires: expiryDate,
-          active: isActive,
-          data: punishmentData,
-          attachedTicketIds: []
+          issued: issueDate,
+          started: issueDate,
+          type_ordinal: randomPunishmentType.ordinal,
+          modifications: [],
+          notes: [],
+          evidence: [],
+          attachedTicketIds: [],
+          data: punishmentData
         });
       }
       
@@ -321,7 +324,6 @@ export async function seedEnhancedDatabase(dbConnection: Connection) {
         usernames,
         notes,
         ipList,
-        punishments,
         pendingNotifications: []
       });
     }
@@ -462,14 +464,11 @@ export async function seedEnhancedDatabase(dbConnection: Connection) {
       
       // If it's an appeal, always have a punishment ID
       if (category === 'Punishment Appeal') {
-        // Try to find a player with a punishment, otherwise generate random ID
+        // Use a seeded punishment if there is one, otherwise generate random ID
         let punishmentId = generatePunishmentId();
-        for (const player of players) {
-          if (player.punishments.length > 0) {
-            punishmentId = player.punishments[0].id;
-            data.set('playerUuid', player._id);
-            break;
-          }
+        if (punishments.length > 0) {
+          punishmentId = punishments[0].id;
+          data.set('playerUuid', punishments[0].minecraftUuid);
         }
         data.set('punishmentId', punishmentId);
       }
@@ -495,6 +494,9 @@ export async function seedEnhancedDatabase(dbConnection: Connection) {
     
     // Insert data into collections
     await Player.insertMany(players);
+    for (const { minecraftUuid, ...punishment } of punishments) {
+      await createPunishmentRecord(dbConnection, minecraftUuid, punishment);
+    }
     await Ticket.insertMany(tickets);
     
     // Create logs for all these actions
@@ -510,15 +512,15 @@ export async function seedEnhancedDatabase(dbConnection: Connection) {
       });
       
       // Logs for punishments
-      for (const punishment of player.punishments) {
+      for (const punishment of punishments.filter(punishment => punishment.minecraftUuid === player.minecraftUuid)) {
         const punishmentType = punishmentTypes.find(pt => pt.ordinal === punishment.type_ordinal);
         const typeName = punishmentType ? punishmentType.name : `Unknown Type (${punishment.type_ordinal})`;
         
         logs.push({
-          description: `Player ${player.usernames[player.usernames.length - 1].username} received ${typeName} punishment: ${punishment.reason}`,
+          description: `Player ${player.usernames[player.usernames.length - 1].username} received ${typeName} punishment: ${punishment.data.get('reason')}`,
           level: 'moderation',
           source: punishment.issuerName,
-          created: punishment.date
+          created: punishment.issued
         });
       }
     }
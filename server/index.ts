@@ -1,13 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
-import session from "express-session";
-import MongoStore from "connect-mongo";
-import path from "path";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { subdomainDbMiddleware } from "./middleware/subdomainDbMiddleware";
+import { tenantSessionMiddleware } from "./middleware/session-middleware";
 import { globalRateLimit } from "./middleware/rate-limiter";
 import { csrfProtection, csrfTokenProvider } from "./middleware/csrf-middleware";
 import { securityHeaders } from "./middleware/security-headers";
+import { getLocalStoragePath } from "./services/storage-service";
+import { isInlineMediaFile } from "./services/media-service";
 
 // SECURITY: Block development mode execution
 if (process.env.NODE_ENV === 'development') {
@@ -62,51 +62,12 @@ app.set('trust proxy', 1);
 app.use(globalRateLimit);
 
 const MONGODB_URI = process.env.GLOBAL_MODL_DB_URI;
-const isProduction = process.env.NODE_ENV === 'production';
 
 // Apply the subdomain DB middleware early in the stack.
 // It needs to run before any routes that depend on req.serverDbConnection.
 app.use(subdomainDbMiddleware);
 
-app.use((req: Request, res: Response, next: NextFunction) => {
-  // @ts-ignore
-  const serverDbConn = req.serverDbConnection;
-  // @ts-ignore
-  const mongoClient = serverDbConn && serverDbConn.getClient ? serverDbConn.getClient() : null;
-
-  const cookieSettings = {
-    httpOnly: true,
-    secure: isProduction,
-    sameSite: 'lax' as 'lax' | 'strict' | 'none' | undefined, // Type assertion for 'lax'
-    maxAge: 14 * 24 * 60 * 60 * 1000
-  };
-
-  if (serverDbConn && mongoClient) {
-    // Require SESSION_SECRET - mandatory for all environments
-    const sessionSecret = process.env.SESSION_SECRET;
-    if (!sessionSecret) {
-      console.error('SECURITY ERROR: SESSION_SECRET environment variable is required!');
-      process.exit(1);
-    }
-
-    const serverSpecificSession = session({
-      secret: sessionSecret,
-      resave: false,
-      saveUninitialized: false,
-      store: MongoStore.create({
-        client: mongoClient, // Use the mongoClient variable that was already retrieved and checked
-        ttl: 14 * 24 * 60 * 60,
-        autoRemove: 'native',
-      }),
-      cookie: cookieSettings
-    });
-    serverSpecificSession(req, res, next);
-  } else {
-    // @ts-ignore
-    log(`[Session] No valid serverDbConnection or mongoClient for path ${req.path} (serverDbConn: ${!!serverDbConn}, mongoClient: ${!!mongoClient}), skipping session initialization.`);
-    next();
-  }
-});
+app.use(tenantSessionMiddleware);
 
 // Add CSRF protection after session middleware but before routes
 app.use(csrfProtection);
@@ -119,8 +80,16 @@ app.get('/api/csrf-token', (req, res) => {
 });
 
 (async () => {
-  // Serve static files from uploads directory (for server icons)
-  app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
+  // Serve static files from uploads directory (server icons and the local storage driver).
+  // Uploads share the panel's origin, so only images and videos are shown inline.
+  app.use('/uploads', express.static(getLocalStoragePath(), {
+    setHeaders: (res, filePath) => {
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      if (!isInlineMediaFile(filePath)) {
+        res.setHeader('Content-Disposition', 'attachment');
+      }
+    }
+  }));
   
   const server = await registerRoutes(app);
 
@@ -1,70 +1,82 @@
 import { Request, Response, NextFunction } from 'express';
-import { generateTicketApiKey } from './ticket-api-auth';
-import { getSettingsValue } from '../routes/settings-routes';
+import { getRealClientIP } from './rate-limiter';
+import { API_KEY_SCOPES, ApiKeyScope, authenticateApiKey, runWithApiKey } from '../services/api-key-service';
+
+type ApiKeyErrorBody = (status: number, message: string) => Record<string, any>;
+
+interface ApiKeyAuthOptions {
+  headers: string[];
+  errorBody: ApiKeyErrorBody;
+  // Global key from the environment, accepted with every scope
+  envApiKey?: () => string | undefined;
+}
+
+const minecraftErrorBody: ApiKeyErrorBody = (status, message) => ({ status, message });
 
 /**
- * Middleware to verify API key for Minecraft routes
- * This ensures that only authorized Minecraft plugins can access these endpoints
- * Now uses the unified API key
+ * Build a middleware that authenticates the request with a named API key.
+ * The key is attached to req.apiKey and the rest of the request runs with it as
+ * context, so audit log entries record which key made the change.
  */
-export async function verifyMinecraftApiKey(req: Request, res: Response, next: NextFunction) {
-  try {
-    // Get API key from request header
-    const apiKey = req.header('X-API-Key');
-    
-    
-    // If no API key provided
-    if (!apiKey) {
-      return res.status(401).json({
-        status: 401,
-        message: 'Unauthorized - API key required'
-      });
-    }
-    
-    // First check environment variable for API key (global override)
-    const envApiKey = process.env.MINECRAFT_API_KEY;
-    if (envApiKey && apiKey === envApiKey) {
-      return next();
-    }
+export function createApiKeyAuth(options: ApiKeyAuthOptions) {
+  return async function apiKeyAuth(req: Request, res: Response, next: NextFunction) {
+    try {
+      const apiKey = options.headers.map(header => req.header(header)).find(Boolean);
 
-    // Check for serverDbConnection (should be populated by preceding middleware)
-    if (!req.serverDbConnection) {
-      console.error('[Unified API Auth] Error: serverDbConnection not found on request. Ensure subdomainDbMiddleware runs before this.');
-      return res.status(503).json({
-        status: 503,
-        message: 'Service unavailable. Database connection not configured for authentication.'
-      });
-    }
+      // If no API key provided
+      if (!apiKey) {
+        return res.status(401).json(options.errorBody(401, 'Unauthorized - API key required'));
+      }
 
-    // Use the same logic as settings page to retrieve API key
-    const apiKeysData = await getSettingsValue(req.serverDbConnection, 'apiKeys');
-    const configuredApiKey = apiKeysData?.api_key;
-    
-    
-    if (configuredApiKey === undefined || configuredApiKey === null) {
-      console.warn(`[Unified API Auth - ${req.serverName || 'Unknown Server'}] API key not configured in settings. Please generate an API key in the admin panel.`);
-      return res.status(401).json({
-        status: 401,
-        message: 'API key not configured in server settings. Please generate an API key in the admin panel.'
-      });
+      const envApiKey = options.envApiKey?.();
+      if (envApiKey && apiKey === envApiKey) {
+        req.apiKey = { id: 'env', name: 'Environment API key', scopes: [...API_KEY_SCOPES] };
+        return runWithApiKey(req.apiKey, next);
+      }
+
+      // Check for serverDbConnection (should be populated by preceding middleware)
+      if (!req.serverDbConnection) {
+        console.error('[API Key Auth] Error: serverDbConnection not found on request. Ensure subdomainDbMiddleware runs before this.');
+        return res.status(503).json(options.errorBody(503, 'Service unavailable. Database connection not configured for authentication.'));
+      }
+
+      const result = await authenticateApiKey(req.serverDbConnection, apiKey, getRealClientIP(req));
+      if ('error' in result) {
+        console.warn(`[API Key Auth - ${req.serverName || 'Unknown Server'}] Rejected API key: ${result.error}`);
+        return res.status(401).json(options.errorBody(401, result.error));
+      }
+
+      req.apiKey = result.apiKey;
+      return runWithApiKey(result.apiKey, next);
+    } catch (error) {
+      console.error(`[API Key Auth - ${req.serverName || 'Unknown Server'}] Error verifying API key:`, error);
+      return res.status(500).json(options.errorBody(500, 'Internal server error during authentication'));
     }
-    
-    // Verify the provided API key
-    if (configuredApiKey !== apiKey) {
-      console.warn(`[Unified API Auth - ${req.serverName || 'Unknown Server'}] Invalid API key provided.`);
-      return res.status(401).json({
-        status: 401, 
-        message: 'Invalid API key'
+  };
+}
+
+/**
+ * Middleware requiring the authenticated API key to have a scope
+ */
+export function requireApiKeyScope(scope: ApiKeyScope, errorBody: ApiKeyErrorBody = minecraftErrorBody) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.apiKey || !req.apiKey.scopes.includes(scope)) {
+      return res.status(403).json({
+        ...errorBody(403, `Forbidden - API key is missing the '${scope}' scope`),
+        required: [scope]
       });
     }
-    
-    // API key is valid, proceed
     next();
-  } catch (error) {
-    console.error(`[Unified API Auth - ${req.serverName || 'Unknown Server'}] Error verifying API key:`, error);
-    return res.status(500).json({
-      status: 500,
-      message: 'Internal server error during authentication'
-    });
-  }
+  };
 }
+
+/**
+ * Middleware to verify API key for Minecraft routes
+ * This ensures that only authorized Minecraft plugins can access these endpoints.
+ * Routes additionally require a scope with requireApiKeyScope.
+ */
+export const verifyMinecraftApiKey = createApiKeyAuth({
+  headers: ['X-API-Key'],
+  errorBody: minecraftErrorBody,
+  envApiKey: () => process.env.MINECRAFT_API_KEY
+});
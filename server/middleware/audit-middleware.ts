@@ -0,0 +1,41 @@
+import { Request, Response, NextFunction } from 'express';
+import { recordAuditEvent } from '../services/audit-service';
+
+const MUTATING_METHODS = new Set(['POST', 'PUT', 'PATCH', 'DELETE']);
+
+// Plugin telemetry and lookups sent as POST, these do not change anything staff would audit
+const UNAUDITED_ROUTES: RegExp[] = [
+  /^\/api\/minecraft\/player\/(login|disconnect)$/,
+  /^\/api\/minecraft\/sync$/,
+  /^\/api\/minecraft\/notification\/acknowledge$/,
+  /^\/api\/minecraft\/player-lookup$/,
+  /^\/api\/panel\/storage\/check-upload$/,
+  /^\/api\/panel\/players\/[^/]+\/find-linked$/
+];
+
+/**
+ * Make sure every successful mutating request leaves an audit event.
+ * Routes record detailed events themselves with recordAuditEvent; requests
+ * whose handler did not are recorded as a generic request event.
+ */
+export function auditMutatingRequests(req: Request, res: Response, next: NextFunction) {
+  const path = req.originalUrl.split('?')[0];
+  if (!MUTATING_METHODS.has(req.method) || UNAUDITED_ROUTES.some(route => route.test(path))) {
+    return next();
+  }
+
+  res.on('finish', () => {
+    if (req.auditRecorded || res.statusCode >= 400 || !req.serverDbConnection) {
+      return;
+    }
+
+    recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: `request.${req.method.toLowerCase()}`,
+      summary: `${req.method} ${path}`,
+      target: { type: 'route', id: path },
+      metadata: { statusCode: res.statusCode }
+    }, req);
+  });
+
+  next();
+}
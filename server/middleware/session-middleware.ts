@@ -0,0 +1,50 @@
+import { Request, Response, NextFunction } from 'express';
+import session from 'express-session';
+import MongoStore from 'connect-mongo';
+import { log } from '../vite';
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+/**
+ * Session middleware backed by the tenant database resolved by subdomainDbMiddleware.
+ * Shared by the HTTP stack and the WebSocket upgrade handler so both authenticate
+ * against the same panel session cookie.
+ */
+export function tenantSessionMiddleware(req: Request, res: Response, next: NextFunction) {
+  // @ts-ignore
+  const serverDbConn = req.serverDbConnection;
+  // @ts-ignore
+  const mongoClient = serverDbConn && serverDbConn.getClient ? serverDbConn.getClient() : null;
+
+  const cookieSettings = {
+    httpOnly: true,
+    secure: isProduction,
+    sameSite: 'lax' as 'lax' | 'strict' | 'none' | undefined, // Type assertion for 'lax'
+    maxAge: 14 * 24 * 60 * 60 * 1000
+  };
+
+  if (serverDbConn && mongoClient) {
+    // Require SESSION_SECRET - mandatory for all environments
+    const sessionSecret = process.env.SESSION_SECRET;
+    if (!sessionSecret) {
+      console.error('SECURITY ERROR: SESSION_SECRET environment variable is required!');
+      process.exit(1);
+    }
+
+    const serverSpecificSession = session({
+      secret: sessionSecret,
+      resave: false,
+      saveUninitialized: false,
+      store: MongoStore.create({
+        client: mongoClient, // Use the mongoClient variable that was already retrieved and checked
+        ttl: 14 * 24 * 60 * 60,
+        autoRemove: 'native',
+      }),
+      cookie: cookieSettings
+    });
+    serverSpecificSession(req, res, next);
+  } else {
+    log(`[Session] No valid serverDbConnection or mongoClient for path ${req.path} (serverDbConn: ${!!serverDbConn}, mongoClient: ${!!mongoClient}), skipping session initialization.`);
+    next();
+  }
+}
@@ -1,12 +1,13 @@
 import express, { type Express } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from 'ws';
 import { setupApiRoutes } from "./api/routes";
 import { setupVerificationAndProvisioningRoutes } from './routes/verify-provision';
 import { connectToGlobalModlDb } from './db/connectionManager';
 import { type Connection as MongooseConnection } from 'mongoose';
 import { isAuthenticated } from './middleware/auth-middleware';
 import { strictRateLimit } from './middleware/rate-limiter';
+import { auditMutatingRequests } from './middleware/audit-middleware';
+import { setupRealtimeServer } from './services/realtime-service';
 
 import appealRoutes from './routes/appeal-routes';
 import playerRoutes from './routes/player-routes';
@@ -30,6 +31,12 @@ import analyticsRoutes from './routes/analytics-routes'; // Import analytics rou
 import auditRoutes from './routes/audit-routes'; // Import audit routes
 import dashboardRoutes from './routes/dashboard-routes'; // Import dashboard routes
 import ticketSubscriptionRoutes from './routes/ticket-subscription-routes'; // Import ticket subscription routes
+import webhookRoutes from './routes/webhook-routes'; // Import outbound webhook routes
+import ipIntelligenceRoutes from './routes/ip-intelligence-routes'; // Import IP intelligence list routes
+import networkBanRoutes from './routes/network-ban-routes'; // Import IP, CIDR and ASN ban routes
+import connectionPolicyRoutes from './routes/connection-policy-routes'; // Import login connection policy routes
+import { getPunishmentModel } from './services/punishment-store-service';
+import { ACTIVE_TICKET_STATUSES } from './services/ticket-status-service';
 
 export async function registerRoutes(app: Express): Promise<Server> {
   let globalDbConnection: MongooseConnection | undefined = undefined;
@@ -46,6 +53,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   setupVerificationAndProvisioningRoutes(app);
   app.use('/api/auth', authRoutes);
   app.use('/stripe-public-webhooks', webhookRouter); // Stripe webhook on a distinct top-level public path
+  app.use('/api/public', auditMutatingRequests); // Record an audit event for every change made through the public API
   app.use('/api/public/knowledgebase', publicKnowledgebaseRoutes); // Public knowledgebase
   app.use('/api/public', publicHomepageCardRoutes); // Public homepage cards
   app.use('/api/public', publicTicketRoutes); // Public ticket routes (API key protected)
@@ -153,6 +161,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   panelRouter.use(isAuthenticated); // Apply authentication to all panel routes
+  panelRouter.use(auditMutatingRequests); // Record an audit event for every change made through the panel
 
   panelRouter.use('/appeals', appealRoutes);
   panelRouter.use('/players', playerRoutes); // Assuming player management is panel-specific
@@ -170,6 +179,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   panelRouter.use('/audit', auditRoutes); // Add audit routes to panel
   panelRouter.use('/dashboard', dashboardRoutes); // Add dashboard routes to panel
   panelRouter.use('/ticket-subscriptions', ticketSubscriptionRoutes); // Add ticket subscription routes to panel
+  panelRouter.use('/webhooks', webhookRoutes); // Add outbound webhook routes to panel
+  panelRouter.use('/ip-intelligence', ipIntelligenceRoutes); // Add IP intelligence list routes to panel
+  panelRouter.use('/network-bans', networkBanRoutes); // Add network ban routes to panel
+  panelRouter.use('/connection-policies', connectionPolicyRoutes); // Add connection policy routes to panel
 
   panelRouter.get('/activity/recent', async (req: any, res) => {
     try {
@@ -198,6 +211,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           $or: [
             { creator: staffUsername },
             { assignedTo: staffUsername },
+            { 'data.assignedTo': staffUsername },
             { 'messages.sender': staffUsername }
           ]
         });
@@ -264,34 +278,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get punishment activities
       try {
         const Player = req.serverDbConnection.model('Player');
-        const players = await Player.find({
-          'punishments.issuerName': staffUsername,
-          'punishments.issued': { $gte: cutoffDate }
-        });
-
-        for (const player of players) {
-          const staffPunishments = player.punishments.filter((p: any) => 
-            p.issuerName === staffUsername && 
-            new Date(p.issued) >= cutoffDate
-          );
-
-          for (const punishment of staffPunishments) {
-            const username = player.usernames?.length > 0 
-              ? player.usernames[player.usernames.length - 1].username 
-              : 'Unknown';
+        const staffPunishments = await getPunishmentModel(req.serverDbConnection).find({
+          issuerName: staffUsername,
+          issued: { $gte: cutoffDate }
+        }).lean();
+        const players = await Player.find(
+          { minecraftUuid: { $in: staffPunishments.map(punishment => punishment.minecraftUuid) } },
+          { minecraftUuid: 1, usernames: 1 }
+        ).lean();
+        const playersByUuid = new Map<string, any>(players.map((player: any) => [player.minecraftUuid, player]));
+
+        for (const punishment of staffPunishments) {
+          const player = playersByUuid.get(punishment.minecraftUuid);
+          const username = player?.usernames?.length > 0 
+            ? player.usernames[player.usernames.length - 1].username 
+            : 'Unknown';
 
-            activities.push({
-              id: `punishment-${punishment.id}`,
-              type: 'new_punishment',
-              color: 'red',
-              title: `Applied punishment to ${username}`,
-              time: new Date(punishment.issued).toISOString(),
-              description: `Applied punishment (Type: ${punishment.type_ordinal})`,
-              actions: [
-                { label: 'View Player', link: `/panel/players/${player.minecraftUuid}`, primary: true }
-              ]
-            });
-          }
+          activities.push({
+            id: `punishment-${punishment.id}`,
+            type: 'new_punishment',
+            color: 'red',
+            title: `Applied punishment to ${username}`,
+            time: new Date(punishment.issued).toISOString(),
+            description: `Applied punishment (Type: ${punishment.type_ordinal})`,
+            actions: [
+              { label: 'View Player', link: `/panel/players/${punishment.minecraftUuid}`, primary: true }
+            ]
+          });
         }
       } catch (error) {
         console.error('Error fetching punishment activities:', error);
@@ -420,27 +433,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         uniqueLoginsYesterday = Math.floor(totalPlayers * 0.04); // Slightly less for yesterday
       }
       
-      // Get open tickets (all non-closed tickets)
-      const openTicketsToday = await Ticket.countDocuments({ 
-        $or: [
-          { 'data.status': { $ne: 'Closed' } },
-          { status: { $ne: 'Closed' } },
-          { 'data.status': { $exists: false } } // Tickets without status are considered open
-        ]
-      });
+      // Get open tickets (all tickets that still need work)
+      const openTicketsToday = await Ticket.countDocuments({ status: { $in: ACTIVE_TICKET_STATUSES } });
       
       // Get tickets created yesterday that are still open for comparison
       // This provides a meaningful day-over-day comparison of new ticket creation
       const newTicketsYesterday = await Ticket.countDocuments({
         $and: [
           { createdAt: { $gte: startOfYesterday, $lt: startOfToday } },
-          {
-            $or: [
-              { 'data.status': { $ne: 'Closed' } },
-              { status: { $ne: 'Closed' } },
-              { 'data.status': { $exists: false } }
-            ]
-          }
+          { status: { $in: ACTIVE_TICKET_STATUSES } }
         ]
       });
       
@@ -448,34 +449,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const newTicketsToday = await Ticket.countDocuments({
         $and: [
           { createdAt: { $gte: startOfToday } },
-          {
-            $or: [
-              { 'data.status': { $ne: 'Closed' } },
-              { status: { $ne: 'Closed' } },
-              { 'data.status': { $exists: false } }
-            ]
-          }
+          { status: { $in: ACTIVE_TICKET_STATUSES } }
         ]
       });
       
       // Get total punishments (active ones)
       // TODO: This is a simplified active check. For full accuracy, this should use the same complex logic as elsewhere.
-      const playersForPunishments = await Player.find({ 'punishments.0': { $exists: true } }, 'punishments').lean();
-      let totalPunishments = 0;
-      for (const player of playersForPunishments) {
-        for (const punishment of player.punishments) {
-          if (punishment.data) {
-            const punishmentData = punishment.data as any;
-            // Active by default, only inactive if 'active' is explicitly false
-            if (punishmentData.active !== false) {
-              totalPunishments++;
-            }
-          } else {
-            // If no data field, assume active
-            totalPunishments++;
-          }
-        }
-      }
+      // Active by default, only inactive if 'active' is explicitly false
+      const totalPunishments = await getPunishmentModel(req.serverDbConnection).countDocuments({ 'data.active': { $ne: false } });
       
       // Calculate online players - try multiple approaches to find active players
       const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
@@ -549,25 +530,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           // Try to get open tickets with simplified query
           let openTicketCount = 0;
           try {
-            openTicketCount = await Ticket.countDocuments({
-              $or: [
-                { 'data.status': { $ne: 'Closed' } },
-                { status: { $ne: 'Closed' } },
-                { 'data.status': { $exists: false } }
-              ]
-            });
+            openTicketCount = await Ticket.countDocuments({ status: { $in: ACTIVE_TICKET_STATUSES } });
           } catch {
             openTicketCount = await Ticket.countDocuments({}).catch(() => 0);
           }
           
           // Try to get basic punishment count
-          const playersForPunishmentCount = await Player.find({ 'punishments.0': { $exists: true } }, 'punishments').lean().catch(() => []);
-          let basicPunishmentCount = 0;
-          for (const player of playersForPunishmentCount) {
-            if (player.punishments) {
-              basicPunishmentCount += player.punishments.length; // Count all punishments for fallback
-            }
-          }
+          // Count all punishments for fallback
+          const basicPunishmentCount = await getPunishmentModel(req.serverDbConnection).countDocuments().catch(() => 0);
           
           // Try to estimate online players from recent activity
           let estimatedOnline = 0;
@@ -638,6 +608,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Minecraft API routes - mounted directly on /api/minecraft (not under panel authentication)
   // These routes have their own API key authentication via verifyMinecraftApiKey middleware
+  app.use('/api/minecraft', auditMutatingRequests); // Record an audit event for every change made by the plugin
   setupMinecraftRoutes(app); // Setup Minecraft routes with /api/minecraft prefix
 
   // Public player lookup (if intended to be public)
@@ -684,8 +655,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           let status = 'Active';
           try {
-            if (player.punishments && player.punishments.length > 0) {
-              const hasPermanentBan = player.punishments.some((p: any) =>
+            const punishments: any[] = await getPunishmentModel(req.serverDbConnection).find({ minecraftUuid: player.minecraftUuid });
+            if (punishments.length > 0) {
+              const hasPermanentBan = punishments.some((p: any) =>
                 p.type === 'Ban' &&
                 p.active &&
                 (!p.data || !p.data.get || !p.data.get('expiry'))
@@ -693,7 +665,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               
               if (hasPermanentBan) {
                 status = 'Banned';
-              } else if (player.punishments.some((p: any) => p.active)) {
+              } else if (punishments.some((p: any) => p.active)) {
                 status = 'Restricted';
               }
             }
@@ -733,37 +705,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   const httpServer = createServer(app);
   
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
-  
-  wss.on('connection', (ws) => {
-    ws.send(JSON.stringify({ type: 'connection', status: 'connected' }));
-    
-    ws.on('message', (message) => {
-      try {
-        const data = JSON.parse(message.toString());
-        
-        if (data.type === 'subscribe') {
-          ws.send(JSON.stringify({ type: 'subscribed', channel: data.channel }));
-        }
-      } catch (error) {
-        console.error('WebSocket message parsing error:', error);
-      }
-    });
-    
-    ws.on('close', () => {
-      // Client disconnected
-    });
-  });
-  
-  const broadcastUpdate = (type: string, data: any) => {
-    wss.clients.forEach(client => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(JSON.stringify({ type, data }));
-      }
-    });
-  };
-  
-  app.set('broadcastUpdate', broadcastUpdate);
+  // Authenticated, tenant-scoped event stream for the panel
+  setupRealtimeServer(httpServer, app);
 
   return httpServer;
 }
@@ -1,6 +1,10 @@
 import express from 'express';
 import { startOfMonth, endOfMonth, subMonths, startOfDay, endOfDay, eachDayOfInterval, format } from 'date-fns';
 import { isAuthenticated } from '../middleware/auth-middleware';
+import { AUDIT_STAFF_USERNAME, getAuditEventModel } from '../services/audit-service';
+import { getPunishmentModel } from '../services/punishment-store-service';
+import { getTicketCategories, ITicketCategory } from '../services/ticket-category-service';
+import { ACTIVE_TICKET_STATUSES, FINISHED_TICKET_STATUSES, TICKET_STATUSES } from '../services/ticket-status-service';
 // Note: Permission functions will be imported dynamically to avoid circular dependency issues
 
 const router = express.Router();
@@ -122,7 +126,7 @@ router.get('/overview', async (req, res) => {
       Ticket.countDocuments(),
       Player.countDocuments(),
       Staff.countDocuments(),
-      Ticket.countDocuments({ status: 'Open' })
+      Ticket.countDocuments({ status: { $in: ACTIVE_TICKET_STATUSES } })
     ]);
 
     // Get previous period counts for comparison
@@ -157,6 +161,21 @@ router.get('/overview', async (req, res) => {
   }
 });
 
+/**
+ * Aggregation expression for the display name of a ticket's category, like getTicketCategoryName
+ */
+function ticketCategoryNameExpression(categories: ITicketCategory[]) {
+  return {
+    $switch: {
+      branches: categories.map(category => ({
+        case: { $eq: [{ $toLower: { $ifNull: ['$type', ''] } }, category.id] },
+        then: category.name
+      })),
+      default: 'Other'
+    }
+  };
+}
+
 // Get ticket analytics
 router.get('/tickets', async (req, res) => {
   try {
@@ -185,10 +204,13 @@ router.get('/tickets', async (req, res) => {
         break;
     }
 
-    // Get tickets by status (exclude unfinished statuses)
-    const finishedStatuses = ['Resolved', 'Closed', 'resolved', 'closed'];
+    const categories = await getTicketCategories(db);
+    const categoryName = ticketCategoryNameExpression(categories);
+
+    // Get tickets by status (exclude unfinished tickets)
+    const finishedStatuses = FINISHED_TICKET_STATUSES;
     const ticketsByStatus = await Ticket.aggregate([
-      { $match: { created: { $gte: startDate }, status: { $in: finishedStatuses } } },
+      { $match: { created: { $gte: startDate }, status: { $in: TICKET_STATUSES } } },
       { $group: { _id: '$status', count: { $sum: 1 } } }
     ]);
 
@@ -197,24 +219,7 @@ router.get('/tickets', async (req, res) => {
       { $match: { created: { $gte: startDate }, status: { $in: finishedStatuses } } },
       {
         $addFields: {
-          normalizedCategory: { 
-            $switch: {
-              branches: [
-                { case: { $eq: ['$type', 'bug'] }, then: 'Bug' },
-                { case: { $eq: ['$type', 'support'] }, then: 'Support' },
-                { case: { $eq: ['$type', 'appeal'] }, then: 'Appeal' },
-                { case: { $eq: ['$type', 'player'] }, then: 'Player Report' },
-                { case: { $eq: ['$type', 'chat'] }, then: 'Chat Report' },
-                { case: { $eq: ['$type', 'staff'] }, then: 'Application' },
-                { case: { $or: [
-                  { $eq: ['$type', null] }, 
-                  { $eq: ['$type', ''] },
-                  { $not: ['$type'] }
-                ]}, then: 'Other' }
-              ],
-              default: 'Other'
-            }
-          }
+          normalizedCategory: categoryName
         }
       },
       { $group: { _id: '$normalizedCategory', count: { $sum: 1 } } }
@@ -226,30 +231,14 @@ router.get('/tickets', async (req, res) => {
         $match: { 
           status: { $in: finishedStatuses },
           created: { $gte: startDate },
-          updatedAt: { $exists: true }
+          $or: [{ 'data.statusChangedAt': { $exists: true } }, { updatedAt: { $exists: true } }]
         } 
       },
       {
         $addFields: {
-          normalizedCategory: { 
-            $switch: {
-              branches: [
-                { case: { $eq: ['$type', 'bug'] }, then: 'Bug' },
-                { case: { $eq: ['$type', 'support'] }, then: 'Support' },
-                { case: { $eq: ['$type', 'appeal'] }, then: 'Appeal' },
-                { case: { $eq: ['$type', 'player'] }, then: 'Player Report' },
-                { case: { $eq: ['$type', 'chat'] }, then: 'Chat Report' },
-                { case: { $eq: ['$type', 'staff'] }, then: 'Application' },
-                { case: { $or: [
-                  { $eq: ['$type', null] }, 
-                  { $eq: ['$type', ''] },
-                  { $not: ['$type'] }
-                ]}, then: 'Other' }
-              ],
-              default: 'Other'
-            }
-          },
-          resolutionTimeMs: { $subtract: ['$updatedAt', '$created'] }
+          normalizedCategory: categoryName,
+          // Tickets are resolved when they last changed status, older tickets only have updatedAt
+          resolutionTimeMs: { $subtract: [{ $ifNull: ['$data.statusChangedAt', '$updatedAt'] }, '$created'] }
         }
       },
       {
@@ -267,12 +256,12 @@ router.get('/tickets', async (req, res) => {
         $match: { 
           status: { $in: finishedStatuses },
           created: { $gte: startDate },
-          updatedAt: { $exists: true }
+          $or: [{ 'data.statusChangedAt': { $exists: true } }, { updatedAt: { $exists: true } }]
         } 
       },
       {
         $addFields: {
-          resolutionTimeMs: { $subtract: ['$updatedAt', '$created'] }
+          resolutionTimeMs: { $subtract: [{ $ifNull: ['$data.statusChangedAt', '$updatedAt'] }, '$created'] }
         }
       },
       {
@@ -289,24 +278,7 @@ router.get('/tickets', async (req, res) => {
       { $match: { created: { $gte: startDate } } },
       {
         $addFields: {
-          normalizedCategory: { 
-            $switch: {
-              branches: [
-                { case: { $eq: ['$type', 'bug'] }, then: 'Bug' },
-                { case: { $eq: ['$type', 'support'] }, then: 'Support' },
-                { case: { $eq: ['$type', 'appeal'] }, then: 'Appeal' },
-                { case: { $eq: ['$type', 'player'] }, then: 'Player Report' },
-                { case: { $eq: ['$type', 'chat'] }, then: 'Chat Report' },
-                { case: { $eq: ['$type', 'staff'] }, then: 'Application' },
-                { case: { $or: [
-                  { $eq: ['$type', null] }, 
-                  { $eq: ['$type', ''] },
-                  { $not: ['$type'] }
-                ]}, then: 'Other' }
-              ],
-              default: 'Other'
-            }
-          }
+          normalizedCategory: categoryName
         }
       },
       {
@@ -332,24 +304,7 @@ router.get('/tickets', async (req, res) => {
       },
       {
         $addFields: {
-          normalizedCategory: { 
-            $switch: {
-              branches: [
-                { case: { $eq: ['$type', 'bug'] }, then: 'Bug' },
-                { case: { $eq: ['$type', 'support'] }, then: 'Support' },
-                { case: { $eq: ['$type', 'appeal'] }, then: 'Appeal' },
-                { case: { $eq: ['$type', 'player'] }, then: 'Player Report' },
-                { case: { $eq: ['$type', 'chat'] }, then: 'Chat Report' },
-                { case: { $eq: ['$type', 'staff'] }, then: 'Application' },
-                { case: { $or: [
-                  { $eq: ['$type', null] }, 
-                  { $eq: ['$type', ''] },
-                  { $not: ['$type'] }
-                ]}, then: 'Other' }
-              ],
-              default: 'Other'
-            }
-          },
+          normalizedCategory: categoryName,
           firstResponse: { $arrayElemAt: ['$messages', 0] },
           responseTimeMs: { 
             $subtract: [
@@ -425,7 +380,9 @@ router.get('/tickets', async (req, res) => {
       overallAvgResolution: overallAvg,
       dailyTrendByCategory,
       responseTimeByCategory,
-      totalFinishedTickets: overallAvgResolution.length > 0 ? overallAvgResolution[0].count : 0
+      totalFinishedTickets: overallAvgResolution.length > 0 ? overallAvgResolution[0].count : 0,
+      // Names the tickets above are grouped by, tickets of removed categories are grouped as Other
+      categories: [...categories.map(category => category.name), 'Other']
     });
   } catch (error) {
     console.error('Ticket analytics error:', error);
@@ -441,8 +398,6 @@ router.get('/staff-performance', async (req, res) => {
     }
     
     const db = req.serverDbConnection;
-    const Ticket = db.model('Ticket');
-    const Player = db.model('Player');
     const Staff = db.model('Staff');
     
     const { period = '30d' } = req.query;
@@ -460,29 +415,31 @@ router.get('/staff-performance', async (req, res) => {
         break;
     }
 
-    const staffMembers = await Staff.find({});
-    const staffPerformance = [];
-
-    for (const staff of staffMembers) {
-      // Count ticket responses
-      const ticketResponses = await Ticket.countDocuments({
-        'replies.name': staff.username,
-        'replies.created': { $gte: startDate }
-      });
-
-      // Count punishments issued
-      const punishmentsIssued = await Player.countDocuments({
-        'punishments.issuerName': staff.username,
-        'punishments.issued': { $gte: startDate }
-      });
+    // Count each staff member's actions from the audit trail, including punishments
+    // issued in game through their assigned Minecraft account
+    const actionCounts = await getAuditEventModel(db).aggregate([
+      { $match: { createdAt: { $gte: startDate } } },
+      { $addFields: { staffUsername: AUDIT_STAFF_USERNAME } },
+      { $match: { staffUsername: { $ne: null } } },
+      {
+        $group: {
+          _id: '$staffUsername',
+          ticketResponses: { $sum: { $cond: [{ $in: ['$action', ['ticket.replied', 'appeal.replied']] }, 1, 0] } },
+          punishmentsIssued: { $sum: { $cond: [{ $eq: ['$action', 'punishment.created'] }, 1, 0] } },
+          notesAdded: { $sum: { $cond: [{ $eq: ['$action', 'player.note_added'] }, 1, 0] } }
+        }
+      }
+    ]);
+    const countsByUsername = new Map(actionCounts.map(counts => [counts._id, counts]));
 
-      // Count notes added
-      const notesAdded = await Player.countDocuments({
-        'notes.issuerName': staff.username,
-        'notes.date': { $gte: startDate }
-      });
+    const staffMembers = await Staff.find({});
+    const staffPerformance = staffMembers.map(staff => {
+      const counts = countsByUsername.get(staff.username);
+      const ticketResponses = counts?.ticketResponses || 0;
+      const punishmentsIssued = counts?.punishmentsIssued || 0;
+      const notesAdded = counts?.notesAdded || 0;
 
-      staffPerformance.push({
+      return {
         id: staff._id,
         username: staff.username,
         role: staff.role,
@@ -490,8 +447,8 @@ router.get('/staff-performance', async (req, res) => {
         punishmentsIssued,
         notesAdded,
         totalActions: ticketResponses + punishmentsIssued + notesAdded
-      });
-    }
+      };
+    });
 
     // Sort by total actions
     staffPerformance.sort((a, b) => b.totalActions - a.totalActions);
@@ -511,7 +468,7 @@ router.get('/punishments', async (req, res) => {
     }
     
     const db = req.serverDbConnection;
-    const Player = db.model('Player');
+    const Punishment = getPunishmentModel(db);
     
     const { period = '30d' } = req.query;
     let startDate = new Date();
@@ -535,12 +492,11 @@ router.get('/punishments', async (req, res) => {
     const punishmentTypesConfig = await getPunishmentTypesConfig(db);
 
     // Get punishments by type using proper type mapping
-    const punishmentTypesData = await Player.aggregate([
-      { $unwind: '$punishments' },
-      { $match: { 'punishments.issued': { $gte: startDate } } },
+    const punishmentTypesData = await Punishment.aggregate([
+      { $match: { issued: { $gte: startDate } } },
       {
         $group: {
-          _id: '$punishments.type_ordinal',
+          _id: '$type_ordinal',
           count: { $sum: 1 }
         }
       }
@@ -553,12 +509,11 @@ router.get('/punishments', async (req, res) => {
     }));
 
     // Get daily punishment trend
-    const dailyPunishments = await Player.aggregate([
-      { $unwind: '$punishments' },
-      { $match: { 'punishments.issued': { $gte: startDate } } },
+    const dailyPunishments = await Punishment.aggregate([
+      { $match: { issued: { $gte: startDate } } },
       {
         $group: {
-          _id: { $dateToString: { format: '%Y-%m-%d', date: '$punishments.issued' } },
+          _id: { $dateToString: { format: '%Y-%m-%d', date: '$issued' } },
           count: { $sum: 1 }
         }
       },
@@ -566,26 +521,24 @@ router.get('/punishments', async (req, res) => {
     ]);
 
     // Get top punishment reasons
-    const topReasons = await Player.aggregate([
-      { $unwind: '$punishments' },
+    const topReasons = await Punishment.aggregate([
       { $match: { 
-        'punishments.issued': { $gte: startDate },
-        'punishments.data.reason': { $exists: true }
+        issued: { $gte: startDate },
+        'data.reason': { $exists: true }
       }},
-      { $group: { _id: '$punishments.data.reason', count: { $sum: 1 } } },
+      { $group: { _id: '$data.reason', count: { $sum: 1 } } },
       { $sort: { count: -1 } },
       { $limit: 10 }
     ]);
 
     // Get top punishers (staff members)
-    const topPunishersData = await Player.aggregate([
-      { $unwind: '$punishments' },
+    const topPunishersData = await Punishment.aggregate([
       { $match: { 
-        'punishments.issued': { $gte: startDate },
-        'punishments.issuerName': { $exists: true, $ne: null }
+        issued: { $gte: startDate },
+        issuerName: { $exists: true, $ne: null }
       }},
       { $group: { 
-        _id: '$punishments.issuerName', 
+        _id: '$issuerName', 
         punishmentCount: { $sum: 1 } 
       }},
       { $sort: { punishmentCount: -1 } },
@@ -1,6 +1,21 @@
 import express, { Request, Response, NextFunction } from 'express';
 import { Connection, Document, Types, Model } from 'mongoose';
 import { createSystemLog } from './log-routes';
+import { checkAIUsageLimit, getAIUsageInfo } from '../middleware/ai-usage-middleware';
+import AIModerationService from '../services/ai-moderation-service';
+import { triggerWebhookEvent } from '../services/webhook-service';
+import { recordAuditEvent, toAuditSnapshot } from '../services/audit-service';
+import { getPunishmentModel } from '../services/punishment-store-service';
+import { createTicketAccessToken, getTicketUrl, sendTicketAccessLink } from '../services/ticket-access-service';
+import { APPEAL_CATEGORY_ID, DEFAULT_TICKET_CATEGORIES, findTicketCategory, generateTicketId, getTicketCategories } from '../services/ticket-category-service';
+import { queueTicketAssignment } from '../services/ticket-queue-service';
+import {
+  checkTicketStatusChange,
+  getTicketStatus,
+  getTicketWorkflow,
+  normalizeTicketStatus,
+  setTicketStatus
+} from '../services/ticket-status-service';
 import { ITicket, IPlayer } from 'modl-shared-web/types';
 
 interface ITicketData extends Map<string, any> {
@@ -37,6 +52,9 @@ interface IPunishmentInPlayer {
 
 const router = express.Router();
 
+// Statuses that used to record the outcome of the appeal, they resolve it with that resolution now
+const APPEAL_DECISION_STATUSES = ['Approved', 'Denied', 'Accepted', 'Rejected'];
+
 // Middleware to check for serverDbConnection
 router.use((req: Request, res: Response, next: NextFunction) => {
   if (!req.serverDbConnection) {
@@ -115,16 +133,16 @@ router.post('/', async (req: Request, res: Response) => {
         return res.status(400).json({ error: 'Missing required fields: punishmentId, playerUuid, email' });
     }
     
-    const player = await Player.findOne({ minecraftUuid: playerUuid, 'punishments.id': punishmentId });
+    const player = await Player.findOne({ minecraftUuid: playerUuid });
     
     if (!player) {
       return res.status(404).json({ error: 'Punishment not found for the specified player or player not found.' });
     }
     
-    const punishment = player.punishments.find(p => p.id === punishmentId);
+    const punishment = await getPunishmentModel(req.serverDbConnection!).findOne({ minecraftUuid: playerUuid, id: punishmentId });
     
     if (!punishment) {
-      return res.status(404).json({ error: 'Punishment details not found on player object.' });
+      return res.status(404).json({ error: 'Punishment not found for the specified player or player not found.' });
     }
     
     const existingAppeal = await Ticket.findOne({ 'data.punishmentId': punishmentId, type: 'appeal' });
@@ -133,10 +151,14 @@ router.post('/', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'An appeal already exists for this punishment' });
     }
     
-    const randomDigits = Math.floor(100000 + Math.random() * 900000).toString();
-    const appealId = `APPEAL-${randomDigits}`;
+    const appealCategory = findTicketCategory(await getTicketCategories(req.serverDbConnection!), APPEAL_CATEGORY_ID)
+      || findTicketCategory(DEFAULT_TICKET_CATEGORIES, APPEAL_CATEGORY_ID)!;
+    const appealId = await generateTicketId(req.serverDbConnection!, appealCategory);
     
     const appealDataMap = new Map<string, any>();
+    if (appealCategory.defaultPriority) {
+      appealDataMap.set('priority', appealCategory.defaultPriority);
+    }
     appealDataMap.set('punishmentId', punishmentId);
     appealDataMap.set('playerUuid', playerUuid);
     appealDataMap.set('contactEmail', email);
@@ -147,18 +169,13 @@ router.post('/', async (req: Request, res: Response) => {
       }
     }
     
-    const punishmentTypeOrdinal = typeof punishment.type_ordinal === 'number' 
-        ? punishment.type_ordinal 
-        : (typeof punishment.type_ordinal.valueOf === 'function' 
-            ? punishment.type_ordinal.valueOf() 
-            : parseFloat(punishment.type_ordinal.toString()));
+    const punishmentTypeOrdinal = punishment.type_ordinal;
 
     const appealTicketDocument = new Ticket({
       _id: appealId,
-      type: 'appeal',
-      status: 'Open',
+      type: APPEAL_CATEGORY_ID,
       subject: `Appeal for Punishment: ${punishmentId}`,
-      tags: ['appeal', punishmentTypeOrdinal === 1 ? 'mute' : punishmentTypeOrdinal === 2 ? 'ban' : 'other'],
+      tags: [...appealCategory.defaultTags, punishmentTypeOrdinal === 1 ? 'mute' : punishmentTypeOrdinal === 2 ? 'ban' : 'other'],
       created: new Date(),
       creator: player.usernames[player.usernames.length - 1]?.username || playerUuid,
       creatorUuid: playerUuid,
@@ -166,6 +183,7 @@ router.post('/', async (req: Request, res: Response) => {
       replies: [],
       data: appealDataMap,
     });
+    setTicketStatus(appealTicketDocument, 'New', player.usernames[player.usernames.length - 1]?.username || playerUuid);
     
     let initialReplyContent = '';
     
@@ -246,11 +264,42 @@ router.post('/', async (req: Request, res: Response) => {
     punishment.attachedTicketIds.push(appealId);
     
     await appealTicketDocument.save();
-    await player.save();
+    await punishment.save();
+    const accessToken = await createTicketAccessToken(req.serverDbConnection!, appealId);
+    sendTicketAccessLink(req.serverDbConnection!, req.serverName!, appealTicketDocument, 'created', accessToken).catch(error => {
+      console.error(`[Server: ${req.serverName}] Failed to email access link for appeal ${appealId}:`, error);
+    });
+    queueTicketAssignment(req.serverDbConnection!, req.serverName, appealId, APPEAL_CATEGORY_ID);
 
     await createSystemLog(req.serverDbConnection, req.serverName, `Appeal ${appealId} created for punishment ${punishmentId}`, 'info', 'appeal-creation');
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'appeal.created',
+      summary: `Appeal ${appealId} created for punishment ${punishmentId}`,
+      target: { type: 'appeal', id: appealId },
+      after: appealTicketDocument,
+      metadata: { punishmentId, playerUuid: player.minecraftUuid }
+    }, req);
+
+    // Queue an AI review of the appeal for staff. Automatic reviews stop at the plan's AI
+    // request limit, staff can still run one from the appeal. Usage is logged by the service.
+    try {
+      const aiUsage = await getAIUsageInfo(req);
+      if (aiUsage.canUseAI && aiUsage.remainingRequests > 0) {
+        const aiModerationService = new AIModerationService(req.serverDbConnection!);
+        await aiModerationService.processNewAppeal(appealId, req.serverName!);
+      } else {
+        console.log(`[Server: ${req.serverName}] Skipping AI review of appeal ${appealId}, AI requests are unavailable or used up`);
+      }
+    } catch (aiError) {
+      console.error(`[Server: ${req.serverName}] AI review processing failed for appeal ${appealId}:`, aiError);
+      // Don't fail the appeal creation if AI processing fails
+    }
 
-    res.status(201).json(appealTicketDocument);
+    res.status(201).json({
+      ...appealTicketDocument.toObject(),
+      accessToken,
+      ticketUrl: getTicketUrl(req.serverName, appealId, accessToken)
+    });
   } catch (error) {
     console.error(`[Server: ${req.serverName}] Error creating appeal:`, error);
     await createSystemLog(req.serverDbConnection, req.serverName, `Failed to create appeal for punishment ${req.body.punishmentId}: ${(error as Error).message}`, 'error', 'appeal-creation');
@@ -292,6 +341,13 @@ router.post('/:id/replies', async (req: Request, res: Response) => {
     
     await appeal.save();
     await createSystemLog(req.serverDbConnection, req.serverName, `Reply added to appeal ${req.params.id} by ${name}`, 'info', 'appeal-update');
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'appeal.replied',
+      summary: `${name} replied to appeal ${req.params.id}`,
+      target: { type: 'appeal', id: req.params.id, name: appeal.subject },
+      after: appeal.replies[appeal.replies.length - 1],
+      metadata: { author: name, staff: staff || false, replyType: type }
+    }, req);
     res.json(appeal);
   } catch (error) {
     console.error(`[Server: ${req.serverName}] Error adding reply to appeal:`, error);
@@ -300,12 +356,52 @@ router.post('/:id/replies', async (req: Request, res: Response) => {
   }
 });
 
+// Re-run the AI review of an appeal
+router.post('/:id/ai-analysis', checkAIUsageLimit('appeal_analysis'), async (req: Request, res: Response) => {
+  const { hasPermission } = await import('../middleware/permission-middleware');
+  if (!(await hasPermission(req, 'ticket.reply.all'))) {
+    return res.status(403).json({
+      message: 'Forbidden: You do not have the required permissions.',
+      required: ['ticket.reply.all']
+    });
+  }
+
+  const Ticket: Model<ITicket> = req.serverDbConnection!.model<ITicket>('Ticket');
+  try {
+    const appeal = await Ticket.findById(req.params.id);
+    if (!appeal) {
+      return res.status(404).json({ error: 'Appeal not found' });
+    }
+
+    if (appeal.type !== 'appeal') {
+      return res.status(400).json({ error: 'Ticket is not an appeal' });
+    }
+
+    // Usage is logged by the service once the provider has been called
+    const aiModerationService = new AIModerationService(req.serverDbConnection!);
+    const analysis = await aiModerationService.analyzeAppeal(appeal._id, req.serverName!);
+    if (!analysis) {
+      return res.status(502).json({ error: 'AI review of the appeal failed' });
+    }
+
+    res.json({ success: true, data: analysis });
+  } catch (error) {
+    console.error(`[Server: ${req.serverName}] Error running AI review for appeal ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Update appeal status (and potentially other fields like locked)
 router.patch('/:id/status', async (req: Request, res: Response) => {
   const Ticket: Model<ITicket> = req.serverDbConnection!.model<ITicket>('Ticket');
   const Player: Model<IPlayer> = req.serverDbConnection!.model<IPlayer>('Player');
   try {
-    const { status, locked, staffUsername, resolution } = req.body;
+    const { locked, staffUsername } = req.body;
+    let { status, resolution } = req.body;
+    // Decisions sent as the status resolve the appeal with that resolution
+    if (APPEAL_DECISION_STATUSES.includes(status)) {
+      resolution = resolution || status;
+    }
     
     const appeal = await Ticket.findById(req.params.id);
     if (!appeal) {
@@ -317,14 +413,29 @@ router.patch('/:id/status', async (req: Request, res: Response) => {
     }
 
     const changes: string[] = [];
+    const previousStatus = appeal.status;
+    const previousResolution = appeal.data.get('resolution');
+    const previousState = toAuditSnapshot({ status: appeal.status, resolution: previousResolution, locked: appeal.locked || false });
+    let pardonedPunishment: { punishmentId: string; playerUuid: string } | null = null;
 
-    if (status && appeal.status !== status) {
-        const allowedAppealStatuses = ['Open', 'Closed', 'Under Review', 'Pending Player Response', 'Resolved', 'Approved', 'Denied', 'Accepted', 'Rejected'];
-        if (!allowedAppealStatuses.includes(status)) {
-            return res.status(400).json({ error: `Invalid status value: ${status}` });
+    const currentStatus = getTicketStatus(appeal);
+    if (status) {
+        status = normalizeTicketStatus(status);
+        if (!status) {
+            return res.status(400).json({ error: `Invalid status value: ${req.body.status}` });
+        }
+    } else if (typeof locked === 'boolean') {
+        // Locking closes the appeal, unlocking reopens it
+        status = locked ? 'Closed' : currentStatus === 'Closed' ? 'Open' : null;
+    }
+
+    if (status && currentStatus !== status) {
+        const statusError = await checkTicketStatusChange(req, await getTicketWorkflow(req.serverDbConnection!), currentStatus, status);
+        if (statusError) {
+            return res.status(403).json({ error: statusError });
         }
         changes.push(`status: '${appeal.status}' -> '${status}'`);
-        appeal.status = status;
+        setTicketStatus(appeal, status, staffUsername || 'System', resolution || null);
         
         appeal.replies.push({
             name: staffUsername || 'System',
@@ -349,44 +460,39 @@ router.patch('/:id/status', async (req: Request, res: Response) => {
         });
     }
 
-    if (typeof locked === 'boolean' && appeal.locked !== locked) {
-        changes.push(`locked: ${appeal.locked} -> ${locked}`);
-        appeal.locked = locked;
-        appeal.replies.push({
-            name: staffUsername || 'System',
-            content: `Ticket ${locked ? 'locked' : 'unlocked'}.`,
-            type: 'system',
-            created: new Date(),
-            staff: true,
-            action: locked ? 'LOCKED' : 'UNLOCKED'
-        });
-    }
     
     if ((status === 'Closed' || status === 'Resolved') && (resolution === 'Approved' || resolution === 'Accepted')) {
       const punishmentId = appeal.data.get('punishmentId');
       const playerUuid = appeal.data.get('playerUuid');
 
       if (punishmentId && playerUuid) {
-        const player = await Player.findOne({ minecraftUuid: playerUuid, 'punishments.id': punishmentId });
+        const punishment: any = await getPunishmentModel(req.serverDbConnection!).findOne({ minecraftUuid: playerUuid, id: punishmentId });
         
-        if (player) {
-          const punishment = player.punishments.find(p => p.id === punishmentId);
+        if (punishment) {
+          changes.push(`punishment ${punishmentId} modified due to appeal approval`);
+          const punishmentBefore = toAuditSnapshot(punishment);
+          punishment.modifications = punishment.modifications || [];
+          punishment.modifications.push({
+            type: 'Appeal Approved', 
+            issuerName: staffUsername || 'System',
+            issued: new Date(),
+          });
+          punishment.data = punishment.data || new Map<string, any>();
+          punishment.data.set('active', false); 
+          punishment.data.set('appealOutcome', resolution);
+          punishment.data.set('appealTicketId', appeal._id);
           
-          if (punishment) {
-            changes.push(`punishment ${punishmentId} modified due to appeal approval`);
-            punishment.modifications = punishment.modifications || [];
-            punishment.modifications.push({
-              type: 'Appeal Approved', 
-              issuerName: staffUsername || 'System',
-              issued: new Date(),
-            });
-            punishment.data = punishment.data || new Map<string, any>();
-            punishment.data.set('active', false); 
-            punishment.data.set('appealOutcome', resolution);
-            punishment.data.set('appealTicketId', appeal._id);
-            
-            await player.save();
-          }
+          await punishment.save();
+          pardonedPunishment = { punishmentId, playerUuid };
+
+          await recordAuditEvent(req.serverDbConnection, req.serverName, {
+            action: 'punishment.pardoned',
+            summary: `Punishment ${punishmentId} pardoned through appeal ${appeal._id} by ${staffUsername || 'System'}`,
+            target: { type: 'punishment', id: punishmentId },
+            before: punishmentBefore,
+            after: punishment,
+            metadata: { playerUuid, appealTicketId: appeal._id, issuerName: staffUsername || 'System', staffUsername: req.session?.username }
+          }, req);
         }
       }
     }
@@ -396,6 +502,40 @@ router.patch('/:id/status', async (req: Request, res: Response) => {
         await appeal.save();
         const logMessage = `Appeal ${appeal._id} updated by ${staffUsername || 'System'}. Changes: ${changes.join(', ')}`;
         await createSystemLog(req.serverDbConnection, req.serverName, logMessage, 'info', 'appeal-update');
+        await recordAuditEvent(req.serverDbConnection, req.serverName, {
+          action: 'appeal.updated',
+          summary: `Appeal ${appeal._id} updated by ${staffUsername || 'System'}`,
+          target: { type: 'appeal', id: appeal._id, name: appeal.subject },
+          before: previousState,
+          after: { status: appeal.status, resolution: appeal.data.get('resolution'), locked: appeal.locked || false },
+          metadata: { punishmentId: appeal.data.get('punishmentId'), staffUsername: req.session?.username }
+        }, req);
+
+        const decision = resolution && resolution !== previousResolution ? resolution : null;
+        if (decision) {
+          triggerWebhookEvent(req.serverDbConnection, req.serverName, 'appeal.decided', {
+            ticketId: appeal._id,
+            decision,
+            punishmentId: appeal.data.get('punishmentId'),
+            playerUuid: appeal.data.get('playerUuid'),
+            decidedBy: staffUsername || 'System'
+          });
+        }
+        if (pardonedPunishment) {
+          triggerWebhookEvent(req.serverDbConnection, req.serverName, 'punishment.pardoned', {
+            ...pardonedPunishment,
+            modificationType: 'Appeal Approved',
+            issuerName: staffUsername || 'System',
+            appealTicketId: appeal._id
+          });
+        }
+        if (appeal.status === 'Closed' && previousStatus !== 'Closed') {
+          triggerWebhookEvent(req.serverDbConnection, req.serverName, 'ticket.closed', {
+            ticketId: appeal._id,
+            subject: appeal.subject,
+            closedBy: staffUsername || 'System'
+          });
+        }
     }
 
     res.json(appeal);
@@ -1,5 +1,28 @@
 import express from 'express';
-import { format } from 'date-fns';
+import { Connection } from 'mongoose';
+import {
+  AUDIT_STAFF_USERNAME,
+  IAuditEvent,
+  formatAuditEvent,
+  getAuditEventModel,
+  isAuditActorType,
+  recordAuditEvent,
+  resolveAuditActor
+} from '../services/audit-service';
+import {
+  RollbackSelection,
+  findRolledBackIds,
+  formatRollbackJob,
+  getRollbackJobModel,
+  previewRollback,
+  rollbackPunishment,
+  rolledBackLookupStages,
+  staffEventFilter,
+  startRollbackJob,
+  undoRollbackJob
+} from '../services/rollback-service';
+import { getPunishmentModel } from '../services/punishment-store-service';
+import { getSettingsValue } from './settings-routes';
 
 const router = express.Router();
 
@@ -16,107 +39,192 @@ const requireAdmin = (req: express.Request, res: express.Response, next: express
 
 router.use(requireAdmin);
 
+const MAX_EVENTS = 500;
+
+const MODERATION_CATEGORIES = ['punishment', 'network_ban', 'connection_policy'];
+const TICKET_CATEGORIES = ['ticket', 'appeal'];
+const CONFIGURATION_CATEGORIES = ['settings', 'api_key', 'webhook', 'role', 'staff'];
+
+function getPeriodStart(period: unknown, fallbackDays: number = 30): Date {
+  const days: Record<string, number> = { '1h': 1 / 24, '6h': 0.25, '24h': 1, '7d': 7, '30d': 30, '90d': 90 };
+  if (period === 'all') {
+    return new Date('2020-01-01');
+  }
+  const periodDays = days[period as string] ?? fallbackDays;
+  return new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000);
+}
+
+async function loadPunishmentTypes(db: Connection): Promise<any[]> {
+  const punishmentTypes = await getSettingsValue(db, 'punishmentTypes');
+  if (typeof punishmentTypes === 'string') {
+    return JSON.parse(punishmentTypes);
+  }
+  return Array.isArray(punishmentTypes) ? punishmentTypes : [];
+}
+
+function getPunishmentTypeName(punishmentTypes: any[], typeOrdinal: unknown, typeName?: string): string {
+  if (typeName && typeName.trim() !== '') {
+    return typeName;
+  }
+  if (typeof typeOrdinal === 'number') {
+    const punishmentType = punishmentTypes.find(pt => pt.ordinal === typeOrdinal) || punishmentTypes.find(pt => pt.id === typeOrdinal);
+    return punishmentType ? punishmentType.name : `Type ${typeOrdinal}`;
+  }
+  return 'Unknown';
+}
+
+/**
+ * Roll back a single punishment from the request of the staff member doing it
+ */
+function rollbackFromRequest(req: express.Request, punishmentId: string, reason: string) {
+  const rollbackBy = req.currentUser?.username || 'system';
+  return rollbackPunishment(req.serverDbConnection!, req.serverName, punishmentId, {
+    reason,
+    modificationReason: `Rolled back by ${rollbackBy}: ${reason}`,
+    rollbackBy,
+    actor: resolveAuditActor(req),
+    req
+  });
+}
+
+/**
+ * Preview the selection when `dryRun` is set, otherwise start a tracked rollback job for it
+ */
+async function previewOrStartRollback(
+  req: express.Request,
+  res: express.Response,
+  selection: RollbackSelection,
+  description: string,
+  reason: string
+) {
+  const db = req.serverDbConnection!;
+
+  if (req.body.dryRun === true) {
+    const preview = await previewRollback(db, selection);
+    return res.json({ dryRun: true, description, ...preview });
+  }
+
+  const rollbackBy = req.currentUser?.username || 'system';
+  const job = await startRollbackJob(db, req.serverName, {
+    selection,
+    description,
+    reason,
+    modificationReason: `${description} by ${rollbackBy}: ${reason}`,
+    actor: resolveAuditActor(req)
+  });
+
+  await recordAuditEvent(db, req.serverName, {
+    action: 'punishment.rollback_started',
+    summary: `${description} started for ${job.progress.total} punishments`,
+    target: { type: 'rollback_job', id: job._id.toString(), name: description },
+    metadata: { ...selection, rollbackReason: reason, punishments: job.progress.total }
+  }, req);
+
+  res.status(202).json({
+    success: true,
+    message: `Rollback of ${job.progress.total} punishments started`,
+    job: formatRollbackJob(job)
+  });
+}
+
+// List audit events
+router.get('/events', async (req, res) => {
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(503).json({ error: 'Database connection not available' });
+    }
+
+    const { category, actorType, actor, action, targetType, targetId, from, to, search } = req.query;
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, MAX_EVENTS);
+    const skip = parseInt(req.query.skip as string) || 0;
+
+    const filter: Record<string, any> = {};
+    if (typeof category === 'string' && category) filter.category = category;
+    if (typeof action === 'string' && action) filter.action = action;
+    if (typeof actor === 'string' && actor) filter['actor.name'] = actor;
+    if (typeof targetType === 'string' && targetType) filter['target.type'] = targetType;
+    if (typeof targetId === 'string' && targetId) filter['target.id'] = targetId;
+    if (actorType !== undefined) {
+      if (!isAuditActorType(actorType)) {
+        return res.status(400).json({ error: 'Invalid actor type' });
+      }
+      filter['actor.type'] = actorType;
+    }
+    if (from || to) {
+      filter.createdAt = {};
+      if (from) filter.createdAt.$gte = new Date(from as string);
+      if (to) filter.createdAt.$lte = new Date(to as string);
+    }
+    if (typeof search === 'string' && search.trim()) {
+      const pattern = new RegExp(search.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      filter.$or = [{ summary: pattern }, { 'actor.name': pattern }, { 'target.id': pattern }, { 'target.name': pattern }];
+    }
+
+    const AuditEvent = getAuditEventModel(req.serverDbConnection);
+    const [events, total] = await Promise.all([
+      AuditEvent.find(filter).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      AuditEvent.countDocuments(filter)
+    ]);
+
+    res.json({
+      events: events.map(formatAuditEvent),
+      total,
+      hasMore: skip + events.length < total
+    });
+  } catch (error) {
+    console.error('Error fetching audit events:', error);
+    res.status(500).json({ error: 'Failed to fetch audit events' });
+  }
+});
+
 // Get staff performance analytics
 router.get('/staff-performance', async (req, res) => {
   try {
     const { period = '30d' } = req.query;
-    
+
     if (!req.serverDbConnection) {
       return res.status(503).json({ error: 'Database connection not available' });
     }
-    
+
     const db = req.serverDbConnection;
-    
-    // Calculate date range based on period
-    const now = new Date();
-    let startDate: Date;
-    
-    switch (period) {
-      case '7d':
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      case '30d':
-        startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        break;
-      case '90d':
-        startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-        break;
-      default:
-        startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-    }
+    const startDate = getPeriodStart(period);
 
-    // Aggregate staff performance data using mongoose model
-    const Log = db.model('Log');
-    const staffPerformance = await Log.aggregate([
-      {
-        $match: {
-          created: { $gte: startDate },
-          source: { $ne: 'system' }
-        }
-      },
+    const staffPerformance = await getAuditEventModel(db).aggregate([
+      { $match: { createdAt: { $gte: startDate } } },
+      { $addFields: { staffUsername: AUDIT_STAFF_USERNAME } },
+      { $match: { staffUsername: { $ne: null } } },
       {
         $group: {
-          _id: '$source',
+          _id: '$staffUsername',
           totalActions: { $sum: 1 },
-          ticketActions: {
-            $sum: {
-              $cond: [
-                { $regexMatch: { input: '$description', regex: /ticket/i } },
-                1,
-                0
-              ]
-            }
+          ticketResponses: {
+            $sum: { $cond: [{ $in: ['$action', ['ticket.replied', 'appeal.replied']] }, 1, 0] }
           },
-          moderationActions: {
-            $sum: {
-              $cond: [
-                { $or: [
-                  { $eq: ['$level', 'moderation'] },
-                  { $regexMatch: { input: '$description', regex: /ban|mute|kick|punishment/i } }
-                ]},
-                1,
-                0
-              ]
-            }
+          punishmentsIssued: {
+            $sum: { $cond: [{ $eq: ['$action', 'punishment.created'] }, 1, 0] }
           },
-          lastActive: { $max: '$created' },
+          lastActive: { $max: '$createdAt' },
           avgResponseTime: { $avg: '$metadata.responseTime' }
         }
       },
-      {
-        $project: {
-          username: '$_id',
-          totalActions: 1,
-          ticketResponses: '$ticketActions',
-          punishmentsIssued: '$moderationActions',
-          lastActive: 1,
-          avgResponseTime: { $ifNull: ['$avgResponseTime', 60] } // Default 60 minutes if no data
-        }
-      },
-      {
-        $sort: { totalActions: -1 }
-      }
+      { $sort: { totalActions: -1 } }
     ]);
 
     // Get staff roles from staff collection
     const Staff = db.model('Staff');
-    const staffWithRoles = await Promise.all(
-      staffPerformance.map(async (staff) => {
-        const userDoc = await Staff.findOne({ username: staff.username });
-        return {
-          id: staff._id,
-          username: staff.username,
-          role: userDoc?.role || 'User',
-          totalActions: staff.totalActions,
-          ticketResponses: staff.ticketResponses,
-          punishmentsIssued: staff.punishmentsIssued,
-          avgResponseTime: Math.round(staff.avgResponseTime),
-          lastActive: staff.lastActive
-        };
-      })
-    );
-
-    res.json(staffWithRoles);
+    const staffMembers = await Staff.find({ username: { $in: staffPerformance.map(staff => staff._id) } }).select('username role');
+    const roles = new Map(staffMembers.map((staff: any) => [staff.username, staff.role]));
+
+    res.json(staffPerformance.map(staff => ({
+      id: staff._id,
+      username: staff._id,
+      role: roles.get(staff._id) || 'User',
+      totalActions: staff.totalActions,
+      ticketResponses: staff.ticketResponses,
+      punishmentsIssued: staff.punishmentsIssued,
+      avgResponseTime: Math.round(staff.avgResponseTime ?? 60), // Default 60 minutes if no data
+      lastActive: staff.lastActive
+    })));
   } catch (error) {
     console.error('Error fetching staff performance:', error);
     res.status(500).json({ error: 'Failed to fetch staff performance data' });
@@ -128,330 +236,108 @@ router.get('/staff/:username/details', async (req, res) => {
   try {
     const { username } = req.params;
     const { period = '30d' } = req.query;
-    
+
     if (!req.serverDbConnection) {
       return res.status(503).json({ error: 'Database connection not available' });
     }
-    
-    const db = req.serverDbConnection;
-    
-    // Calculate date range
-    const now = new Date();
-    let startDate: Date;
-    
-    switch (period) {
-      case '7d':
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      case '30d':
-        startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        break;
-      case '90d':
-        startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-        break;
-      default:
-        startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-    }
 
-    const Log = db.model('Log');
-    const Player = db.model('Player');
+    const db = req.serverDbConnection;
+    const startDate = getPeriodStart(period);
+    const AuditEvent = getAuditEventModel(db);
     const Ticket = db.model('Ticket');
-    const Settings = db.model('Settings');
-
-    // Get punishment type settings for proper type mapping (using both storage methods)
-    let punishmentTypesConfig = [];
-    
-    // First try the dedicated punishmentTypes document
-    const punishmentTypesDoc = await Settings.findOne({ type: 'punishmentTypes' });
-    if (punishmentTypesDoc?.data) {
-      punishmentTypesConfig = typeof punishmentTypesDoc.data === 'string' 
-        ? JSON.parse(punishmentTypesDoc.data) 
-        : punishmentTypesDoc.data;
-    } else {
-      // Fallback to settings.punishmentTypes
-      const settings = await Settings.findOne({});
-      if (settings?.settings?.punishmentTypes) {
-        punishmentTypesConfig = typeof settings.settings.punishmentTypes === 'string' 
-          ? JSON.parse(settings.settings.punishmentTypes) 
-          : settings.settings.punishmentTypes;
-      }
-    }
-
-    // Helper function to map punishment type
-    const mapPunishmentType = (type: string, typeOrdinal: number) => {
-      // First try to use the direct type name if it exists
-      if (type && type.trim() !== '') {
-        return type;
-      }
-      
-      // Fall back to using ordinal with settings lookup
-      if (typeof typeOrdinal === 'number') {
-        // First try exact ordinal match (most reliable)
-        const punishmentTypeByOrdinal = punishmentTypesConfig.find(pt => pt.ordinal === typeOrdinal);
-        if (punishmentTypeByOrdinal) {
-          return punishmentTypeByOrdinal.name;
-        }
-        
-        // If no ordinal match, try ID match as fallback (for backward compatibility)
-        const punishmentTypeById = punishmentTypesConfig.find(pt => pt.id === typeOrdinal);
-        if (punishmentTypeById) {
-          return punishmentTypeById.name;
-        }
-        
-        // Return generic type name without error logging
-        return `Type ${typeOrdinal}`;
-      }
-      
-      return 'Unknown';
-    };
-
-    // Get detailed punishment data for this staff member
-    const punishments = await Player.aggregate([
-      { $unwind: '$punishments' },
-      { 
-        $match: { 
-          'punishments.issuerName': username,
-          'punishments.issued': { $gte: startDate }
-        }
-      },
-      {
-        $lookup: {
-          from: 'players',
-          localField: 'minecraftUuid',
-          foreignField: 'minecraftUuid',
-          as: 'playerInfo'
-        }
-      },
-      {
-        $project: {
-          playerId: '$minecraftUuid',
-          playerName: { 
-            $cond: {
-              if: { $gt: [{ $size: { $ifNull: ['$usernames', []] } }, 0] },
-              then: { $arrayElemAt: ['$usernames.username', -1] },
-              else: 'Unknown'
-            }
-          },
-          id: '$punishments.id',
-          type: '$punishments.type',
-          type_ordinal: '$punishments.type_ordinal',
-          reason: '$punishments.data.reason',
-          duration: '$punishments.data.duration',
-          issued: '$punishments.issued',
-          active: '$punishments.active',
-          evidence: '$punishments.evidence',
-          attachedTicketIds: '$punishments.attachedTicketIds',
-          rolledBack: '$punishments.data.rolledBack',
-          modifications: '$punishments.modifications'
-        }
-      },
-      { $sort: { issued: -1 } },
-      { $limit: 20 }
-    ]);
 
-    // Map punishment types using the helper function
-    const mappedPunishments = punishments.map(punishment => ({
-      ...punishment,
-      type: mapPunishmentType(null, punishment.type_ordinal)
-    }));
+    const staffFilter = { ...staffEventFilter(username), createdAt: { $gte: startDate } };
+    const punishmentTypes = await loadPunishmentTypes(db);
+
+    // Punishments issued by this staff member, with their current state from the punishment collection
+    const punishmentEvents = await AuditEvent.find({ ...staffFilter, action: 'punishment.created' })
+      .sort({ createdAt: -1 })
+      .limit(20);
+    const punishmentIds = punishmentEvents.map(event => event.target?.id).filter((id): id is string => !!id);
+    const rolledBackIds = await findRolledBackIds(db, punishmentIds);
+
+    const currentPunishments = await getPunishmentModel(db)
+      .find({ id: { $in: punishmentIds } }, { id: 1, active: 1, evidence: 1, attachedTicketIds: 1, modifications: 1 })
+      .lean<any[]>();
+    const currentById = new Map(currentPunishments.map(punishment => [punishment.id, punishment]));
+
+    const punishments = punishmentEvents.map(event => {
+      const current = currentById.get(event.target?.id);
+      return {
+        id: event.target?.id,
+        playerId: event.metadata?.playerUuid,
+        playerName: event.metadata?.playerName || event.target?.name || 'Unknown',
+        type: getPunishmentTypeName(punishmentTypes, event.metadata?.typeOrdinal, event.metadata?.typeName),
+        type_ordinal: event.metadata?.typeOrdinal,
+        reason: event.metadata?.reason,
+        duration: event.metadata?.duration,
+        issued: event.createdAt,
+        active: current?.active,
+        evidence: current?.evidence || [],
+        attachedTicketIds: current?.attachedTicketIds || [],
+        rolledBack: rolledBackIds.has(event.target?.id as string),
+        modifications: current?.modifications || []
+      };
+    });
 
-    // Get tickets that this staff member has replied to 
-    const tickets = await Ticket.find({
-      $or: [
-        { 'messages.sender': username },
-        { 'messages.name': username },
-        { 'replies.name': username },
-        { 'replies.sender': username }
-      ]
-    })
-    .sort({ created: -1 })
-    .limit(50)  // Get more tickets and filter later
-    .select('_id subject title category status created updated updatedAt priority messages replies');
-    
-
-    // Calculate response times for tickets where staff member replied
-    const ticketResponseTimes = [];
-    
-    for (const ticket of tickets) {
-      // Combine messages and replies arrays
-      const allMessages = [
-        ...(ticket.messages || []),
-        ...(ticket.replies || [])
-      ];
-      
-      if (allMessages.length > 0) {
-        const staffMessages = allMessages.filter(msg => {
-          // More flexible matching - check if sender/name matches and message is within time period
-          const msgDate = new Date(msg.timestamp || msg.created || msg.date);
-          const sender = msg.sender || msg.name;
-          return sender === username && msgDate >= startDate;
-        });
-        
-        if (staffMessages.length > 0) {
-          // Find the last message/reply in the ticket to determine last activity
-          const lastMessage = allMessages.sort((a, b) => {
-            const aDate = new Date(a.timestamp || a.created || a.date);
-            const bDate = new Date(b.timestamp || b.created || b.date);
-            return bDate.getTime() - aDate.getTime();
-          })[0];
-          
-          const lastActivityDate = new Date(lastMessage.timestamp || lastMessage.created || lastMessage.date);
-          const totalReplies = allMessages.length;
-          
-          ticketResponseTimes.push({
-            ticketId: ticket._id.toString(),
-            subject: ticket.subject || ticket.title || 'No Subject',
-            status: ticket.status,
-            replyCount: totalReplies,
-            created: ticket.created,
-            lastActivity: lastActivityDate,
-            updatedAt: ticket.updatedAt || ticket.updated || lastActivityDate
-          });
-        }
-      }
-    }
-    
-    // Limit to 20 most recent
-    ticketResponseTimes.splice(20);
-    
+    // Tickets this staff member replied to
+    const ticketIds = await AuditEvent.distinct('target.id', {
+      ...staffFilter,
+      action: { $in: ['ticket.replied', 'appeal.replied'] }
+    });
+    const tickets = await Ticket.find({ _id: { $in: ticketIds } })
+      .sort({ created: -1 })
+      .limit(20)
+      .select('_id subject title category status created updated updatedAt priority replies');
+
+    const ticketResponseTimes = tickets.map(ticket => {
+      const replies = ticket.replies || [];
+      const lastReply = replies[replies.length - 1];
+      const lastActivityDate = lastReply ? new Date(lastReply.created) : ticket.created;
+      return {
+        ticketId: ticket._id.toString(),
+        subject: ticket.subject || ticket.title || 'No Subject',
+        status: ticket.status,
+        replyCount: replies.length,
+        created: ticket.created,
+        lastActivity: lastActivityDate,
+        updatedAt: ticket.updatedAt || ticket.updated || lastActivityDate
+      };
+    });
 
-    // Get daily activity breakdown with error handling
-    let dailyActivity = [];
-    try {
-      dailyActivity = await Log.aggregate([
-        {
-          $match: {
-            source: username,
-            created: { $gte: startDate }
-          }
-        },
-        {
-          $addFields: {
-            parsedDate: {
-              $cond: {
-                if: { $eq: [{ $type: '$created' }, 'date'] },
-                then: '$created',
-                else: {
-                  $cond: {
-                    if: { $eq: [{ $type: '$created' }, 'string'] },
-                    then: { 
-                      $dateFromString: { 
-                        dateString: '$created',
-                        onError: new Date()
-                      }
-                    },
-                    else: new Date()
-                  }
-                }
-              }
-            }
-          }
-        },
-        {
-          $group: {
-            _id: {
-              $dateToString: {
-                format: '%Y-%m-%d',
-                date: '$parsedDate'
-              }
-            },
-            punishments: {
-              $sum: {
-                $cond: [
-                  { $or: [
-                    { $eq: ['$level', 'moderation'] },
-                    { $regexMatch: { input: '$description', regex: /ban|mute|kick|warn/i } }
-                  ]},
-                  1,
-                  0
-                ]
-              }
-            },
-            tickets: {
-              $sum: {
-                $cond: [
-                  { $regexMatch: { input: '$description', regex: /ticket/i } },
-                  1,
-                  0
-                ]
-              }
-            },
-            evidence: {
-              $sum: {
-                $cond: [
-                  { $regexMatch: { input: '$description', regex: /evidence|upload|file/i } },
-                  1,
-                  0
-                ]
-              }
-            }
-          }
-        },
-        { $sort: { _id: 1 } }
-      ]);
-    } catch (error) {
-      console.warn('Failed to aggregate daily activity, using fallback:', error.message);
-      // Fallback: get simple counts without daily breakdown
-      const totalLogs = await Log.countDocuments({
-        source: username,
-        created: { $gte: startDate }
-      });
-      
-      const moderationLogs = await Log.countDocuments({
-        source: username,
-        created: { $gte: startDate },
-        $or: [
-          { level: 'moderation' },
-          { description: { $regex: /ban|mute|kick|warn/i } }
-        ]
-      });
-      
-      // Create a simple single-day entry for the current period
-      dailyActivity = [{
-        _id: format(new Date(), 'yyyy-MM-dd'),
-        punishments: moderationLogs,
-        tickets: totalLogs - moderationLogs,
-        evidence: 0
-      }];
-    }
+    const evidenceActions = ['punishment.evidence_added', 'file.uploaded'];
 
-    // Get punishment type breakdown for this staff member
-    const punishmentTypeBreakdownData = await Player.aggregate([
-      { $unwind: '$punishments' },
-      { 
-        $match: { 
-          'punishments.issuerName': username,
-          'punishments.issued': { $gte: startDate }
-        }
-      },
+    // Daily activity breakdown
+    const dailyActivity = await AuditEvent.aggregate([
+      { $match: staffFilter },
       {
         $group: {
-          _id: '$punishments.type_ordinal',
-          count: { $sum: 1 }
+          _id: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } },
+          punishments: { $sum: { $cond: [{ $eq: ['$action', 'punishment.created'] }, 1, 0] } },
+          tickets: { $sum: { $cond: [{ $in: ['$category', TICKET_CATEGORIES] }, 1, 0] } },
+          evidence: { $sum: { $cond: [{ $in: ['$action', evidenceActions] }, 1, 0] } }
         }
-      }
+      },
+      { $sort: { _id: 1 } }
     ]);
 
-    // Map punishment type breakdown using the helper function
+    // Punishment type breakdown for this staff member
+    const punishmentTypeBreakdownData = await AuditEvent.aggregate([
+      { $match: { ...staffFilter, action: 'punishment.created' } },
+      { $group: { _id: '$metadata.typeOrdinal', count: { $sum: 1 } } }
+    ]);
     const punishmentTypeBreakdown = punishmentTypeBreakdownData.map(item => ({
-      type: mapPunishmentType(null, item._id),
+      type: getPunishmentTypeName(punishmentTypes, item._id),
       count: item.count
     }));
 
-    // Count evidence uploads (from logs)
-    const evidenceUploads = await Log.countDocuments({
-      source: username,
-      created: { $gte: startDate },
-      $or: [
-        { description: { $regex: /evidence|upload|file/i } },
-        { level: 'info', description: { $regex: /uploaded|attachment/i } }
-      ]
-    });
+    const evidenceUploads = await AuditEvent.countDocuments({ ...staffFilter, action: { $in: evidenceActions } });
+    const totalPunishments = await AuditEvent.countDocuments({ ...staffFilter, action: 'punishment.created' });
 
     res.json({
       username,
       period,
-      punishments: mappedPunishments,
+      punishments,
       tickets: ticketResponseTimes,
       dailyActivity: dailyActivity.map(day => ({
         date: day._id,
@@ -459,14 +345,12 @@ router.get('/staff/:username/details', async (req, res) => {
         tickets: day.tickets,
         evidence: day.evidence
       })),
-      punishmentTypeBreakdown: punishmentTypeBreakdown,
+      punishmentTypeBreakdown,
       evidenceUploads,
       summary: {
-        totalPunishments: mappedPunishments.length,
-        totalTickets: tickets.length,
-        avgResponseTime: ticketResponseTimes.length > 0 
-          ? Math.round(ticketResponseTimes.reduce((sum, t) => sum + t.responseTime, 0) / ticketResponseTimes.length)
-          : 0,
+        totalPunishments,
+        totalTickets: ticketIds.length,
+        avgResponseTime: 0,
         evidenceUploads
       }
     });
@@ -480,111 +364,80 @@ router.get('/staff/:username/details', async (req, res) => {
 router.get('/punishments', async (req, res) => {
   try {
     const { limit = 50, canRollback } = req.query;
-    
+
     if (!req.serverDbConnection) {
       return res.status(503).json({ error: 'Database connection not available' });
     }
-    
+
     const db = req.serverDbConnection;
+    const AuditEvent = getAuditEventModel(db);
 
-    // Get punishment logs from the last 30 days
+    // Punishments issued in the last 30 days
     const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-    
-    const Log = db.model('Log');
-    const punishments = await Log.find({
-      created: { $gte: thirtyDaysAgo },
-      $or: [
-        { level: 'moderation' },
-        { description: { $regex: /ban|mute|kick|warn/i } }
-      ],
-      ...(canRollback === 'true' && {
-        'metadata.canRollback': { $ne: false }
-      })
-    })
-    .sort({ created: -1 })
-    .limit(parseInt(limit as string));
-
-    const formattedPunishments = punishments.map(log => ({
-      id: log._id,
-      type: extractPunishmentType(log.description),
-      playerId: log.metadata?.playerId || 'unknown',
-      playerName: log.metadata?.playerName || extractPlayerName(log.description),
-      staffId: log.metadata?.staffId || log.source,
-      staffName: log.source,
-      reason: log.metadata?.reason || extractReason(log.description),
-      duration: log.metadata?.duration,
-      timestamp: log.created,
-      canRollback: log.metadata?.canRollback !== false
-    }));
-
-    res.json(formattedPunishments);
+    const filter: Record<string, any> = { action: 'punishment.created', createdAt: { $gte: thirtyDaysAgo } };
+
+    if (canRollback === 'true') {
+      const rolledBackIds = await findRolledBackIds(db, null, thirtyDaysAgo);
+      filter['target.id'] = { $nin: Array.from(rolledBackIds) };
+    }
+
+    const events = await AuditEvent.find(filter)
+      .sort({ createdAt: -1 })
+      .limit(Math.min(parseInt(limit as string) || 50, MAX_EVENTS));
+
+    const punishmentTypes = await loadPunishmentTypes(db);
+    const rolledBackIds = await findRolledBackIds(db, events.map(event => event.target?.id as string));
+
+    res.json(events.map(event => ({
+      id: event._id.toString(),
+      punishmentId: event.target?.id,
+      type: getPunishmentTypeName(punishmentTypes, event.metadata?.typeOrdinal, event.metadata?.typeName),
+      playerId: event.metadata?.playerUuid || 'unknown',
+      playerName: event.metadata?.playerName || event.target?.name || 'Unknown Player',
+      staffId: event.actor.id || event.actor.name,
+      staffName: event.metadata?.staffUsername || event.metadata?.issuerName || event.actor.name,
+      actorType: event.actor.type,
+      reason: event.metadata?.reason || 'No reason specified',
+      duration: event.metadata?.duration,
+      timestamp: event.createdAt,
+      canRollback: !rolledBackIds.has(event.target?.id as string)
+    })));
   } catch (error) {
     console.error('Error fetching punishments:', error);
     res.status(500).json({ error: 'Failed to fetch punishment data' });
   }
 });
 
-// Rollback a punishment
+// Rollback the punishment created by an audit event
 router.post('/punishments/:id/rollback', async (req, res) => {
   try {
     const { id } = req.params;
     const { reason = 'Admin rollback' } = req.body;
-    
+
     if (!req.serverDbConnection) {
       return res.status(503).json({ error: 'Database connection not available' });
     }
-    
-    const db = req.serverDbConnection;
 
-    // Find the original punishment
-    const Log = db.model('Log');
-    const punishment = await Log.findById(id);
-    
-    if (!punishment) {
+    let event: IAuditEvent | null = null;
+    try {
+      event = await getAuditEventModel(req.serverDbConnection).findById(id);
+    } catch {
+      // Not an event id
+    }
+
+    if (!event || event.action !== 'punishment.created' || !event.target?.id) {
       return res.status(404).json({ error: 'Punishment not found' });
     }
 
-    if (punishment.metadata?.canRollback === false) {
+    const rolledBack = await rollbackFromRequest(req, event.target.id, reason);
+    if (!rolledBack) {
       return res.status(400).json({ error: 'This punishment cannot be rolled back' });
     }
 
-    // Create rollback log entry
-    const rollbackLog = {
-      created: new Date().toISOString(),
-      level: 'moderation',
-      source: req.currentUser?.username || 'system',
-      description: `Rolled back ${extractPunishmentType(punishment.description)} for ${punishment.metadata?.playerName || 'unknown player'}`,
-      metadata: {
-        originalPunishmentId: id,
-        rollbackReason: reason,
-        originalPunishment: {
-          type: extractPunishmentType(punishment.description),
-          player: punishment.metadata?.playerName,
-          staff: punishment.source,
-          originalReason: punishment.metadata?.reason
-        }
-      }
-    };
-
-    // Insert rollback log
-    await Log.create(rollbackLog);
-
-    // Mark original punishment as rolled back
-    await Log.findByIdAndUpdate(id, { 
-      $set: { 
-        'metadata.rolledBack': true,
-        'metadata.rollbackDate': new Date().toISOString(),
-        'metadata.rollbackBy': req.currentUser?.username
-      }
-    });
-
-    // TODO: Integrate with Minecraft server to actually reverse the punishment
-    // This would involve calling the Minecraft API to unban/unmute the player
-
-    res.json({ 
-      success: true, 
+    res.json({
+      success: true,
       message: 'Punishment rolled back successfully',
-      rollbackId: rollbackLog.id
+      rollbackId: rolledBack.id
     });
   } catch (error) {
     console.error('Error rolling back punishment:', error);
@@ -597,11 +450,11 @@ router.get('/database/:table', async (req, res) => {
   try {
     const { table } = req.params;
     const { limit = 100, skip = 0 } = req.query;
-    
+
     if (!req.serverDbConnection) {
       return res.status(503).json({ error: 'Database connection not available' });
     }
-    
+
     const db = req.serverDbConnection;
 
     // Validate table name for security
@@ -621,7 +474,7 @@ router.get('/database/:table', async (req, res) => {
           {
             $project: {
               uuid: '$minecraftUuid',
-              username: { 
+              username: {
                 $cond: {
                   if: { $gt: [{ $size: { $ifNull: ['$usernames', []] } }, 0] },
                   then: { $arrayElemAt: ['$usernames.username', -1] },
@@ -630,7 +483,6 @@ router.get('/database/:table', async (req, res) => {
               },
               joinDate: { $arrayElemAt: ['$usernames.date', 0] },
               lastSeen: '$lastSeen',
-              punishmentCount: { $size: { $ifNull: ['$punishments', []] } },
               noteCount: { $size: { $ifNull: ['$notes', []] } }
             }
           }
@@ -653,30 +505,29 @@ router.get('/database/:table', async (req, res) => {
         ];
         break;
 
-      case 'punishments':
-        modelName = 'Log';
+      case 'punishments': {
+        const AuditEvent = getAuditEventModel(db);
+        modelName = AuditEvent.modelName;
         pipeline = [
-          {
-            $match: {
-              $or: [
-                { level: 'moderation' },
-                { description: { $regex: /ban|mute|kick|warn/i } }
-              ]
-            }
-          },
+          { $match: { action: 'punishment.created' } },
+          { $sort: { createdAt: -1 } },
+          ...rolledBackLookupStages(AuditEvent.collection.name),
           {
             $project: {
-              description: 1,
+              punishmentId: '$target.id',
+              description: '$summary',
               player: '$metadata.playerName',
-              staff: '$source',
+              staff: { $ifNull: [AUDIT_STAFF_USERNAME, '$actor.name'] },
+              actorType: '$actor.type',
               reason: '$metadata.reason',
               duration: '$metadata.duration',
-              created: 1,
-              rolledBack: '$metadata.rolledBack'
+              created: '$createdAt',
+              rolledBack: 1
             }
           }
         ];
         break;
+      }
 
       case 'tickets':
         modelName = 'Ticket';
@@ -722,6 +573,22 @@ router.get('/database/:table', async (req, res) => {
       { $limit: parseInt(limit as string) }
     );
 
+    // Punishments are counted for the current page only
+    if (table === 'players') {
+      pipeline.push(
+        {
+          $lookup: {
+            from: getPunishmentModel(db).collection.name,
+            let: { uuid: '$uuid' },
+            pipeline: [{ $match: { $expr: { $eq: ['$minecraftUuid', '$$uuid'] } } }, { $project: { _id: 1 } }],
+            as: 'punishmentRecords'
+          }
+        },
+        { $addFields: { punishmentCount: { $size: '$punishmentRecords' } } },
+        { $project: { punishmentRecords: 0 } }
+      );
+    }
+
     const Model = db.model(modelName);
     const data = await Model.aggregate(pipeline);
     const total = await Model.countDocuments(
@@ -745,102 +612,22 @@ router.post('/punishment/:id/rollback', async (req, res) => {
   try {
     const { id } = req.params;
     const { reason = 'Staff rollback from analytics panel' } = req.body;
-    
+
     if (!req.serverDbConnection) {
       return res.status(503).json({ error: 'Database connection not available' });
     }
-    
-    const db = req.serverDbConnection;
-    const Player = db.model('Player');
-    const Log = db.model('Log');
 
-    // Find the punishment in player documents
-    const player = await Player.findOne({ 'punishments.id': id });
-    if (!player) {
+    if (!(await getPunishmentModel(req.serverDbConnection).exists({ id }))) {
       return res.status(404).json({ error: 'Punishment not found' });
     }
 
-    const punishment = player.punishments.find(p => p.id === id);
-    if (!punishment) {
-      return res.status(404).json({ error: 'Punishment not found' });
-    }
-
-    // Check if already rolled back (handle both Map and Object data)
-    let isRolledBack = false;
-    if (punishment.data instanceof Map) {
-      isRolledBack = punishment.data.get('rolledBack') === true;
-    } else if (punishment.data && typeof punishment.data === 'object') {
-      isRolledBack = punishment.data.rolledBack === true;
-    }
-
-    if (isRolledBack) {
+    const rolledBack = await rollbackFromRequest(req, id, reason);
+    if (!rolledBack) {
       return res.status(400).json({ error: 'This punishment has already been rolled back' });
     }
 
-    // Mark punishment as rolled back and add pardon modification
-    const rollbackBy = req.currentUser?.username || 'system';
-    const rollbackDate = new Date();
-    
-    // Handle data field (Map vs Object)
-    if (punishment.data instanceof Map) {
-      punishment.data.set('rolledBack', true);
-      punishment.data.set('rollbackDate', rollbackDate);
-      punishment.data.set('rollbackBy', rollbackBy);
-      punishment.data.set('rollbackReason', reason);
-    } else {
-      // Initialize data as Map if it doesn't exist or convert object to Map
-      if (!punishment.data) {
-        punishment.data = new Map();
-      } else if (!(punishment.data instanceof Map)) {
-        const oldData = punishment.data;
-        punishment.data = new Map();
-        // Copy existing data
-        for (const [key, value] of Object.entries(oldData)) {
-          punishment.data.set(key, value);
-        }
-      }
-      punishment.data.set('rolledBack', true);
-      punishment.data.set('rollbackDate', rollbackDate);
-      punishment.data.set('rollbackBy', rollbackBy);
-      punishment.data.set('rollbackReason', reason);
-    }
-
-    // Add "Pardoned" modification to the punishment
-    if (!punishment.modifications) {
-      punishment.modifications = [];
-    }
-    
-    punishment.modifications.push({
-      type: 'MANUAL_PARDON',  // Use proper modification type
-      issuerName: rollbackBy,
-      issued: rollbackDate,   // Use 'issued' instead of 'created'
-      effectiveDuration: 0,   // Required for pardons
-      reason: `Rolled back by ${rollbackBy}: ${reason}`
-    });
-    
-    try {
-      await player.save({ validateBeforeSave: false });
-    } catch (saveError) {
-      console.error('Failed to save player during rollback:', saveError);
-      return res.status(500).json({ error: 'Failed to save rollback changes' });
-    }
-
-    // Create rollback log entry
-    await Log.create({
-      created: new Date(),
-      level: 'moderation',
-      source: req.currentUser?.username || 'system',
-      description: `Rolled back punishment ${id} for player ${player.usernames[0]?.username || 'Unknown'}`,
-      metadata: {
-        originalPunishmentId: id,
-        rollbackReason: reason,
-        playerId: player.minecraftUuid,
-        playerName: player.usernames[0]?.username || 'Unknown'
-      }
-    });
-
-    res.json({ 
-      success: true, 
+    res.json({
+      success: true,
       message: 'Punishment rolled back successfully'
     });
   } catch (error) {
@@ -849,118 +636,24 @@ router.post('/punishment/:id/rollback', async (req, res) => {
   }
 });
 
-// Bulk rollback all punishments by a staff member
+// Bulk rollback all punishments by a staff member. Send `dryRun: true` to preview it.
 router.post('/staff/:username/rollback-all', async (req, res) => {
   try {
     const { username } = req.params;
-    const { reason = 'Bulk rollback from analytics panel', period = '30d' } = req.body;
-    
+    const { reason = 'Bulk rollback from analytics panel', period = '30d', includeLinkedBans = true } = req.body;
+
     if (!req.serverDbConnection) {
       return res.status(503).json({ error: 'Database connection not available' });
     }
-    
-    const db = req.serverDbConnection;
-    const Player = db.model('Player');
-    const Log = db.model('Log');
-
-    // Calculate date range based on period
-    const now = new Date();
-    let startDate: Date;
-    
-    switch (period) {
-      case '7d':
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      case '30d':
-        startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        break;
-      case '90d':
-        startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-        break;
-      default:
-        // For 'all' or unknown periods, use a very old date
-        startDate = new Date('2020-01-01');
-    }
-
-    // Find all players with punishments issued by this staff member in the time period
-    const players = await Player.find({
-      'punishments.issuerName': username,
-      'punishments.issued': { $gte: startDate }
-    });
-
-    let rolledBackCount = 0;
-    const rolledBackPunishments = [];
-
-    for (const player of players) {
-      for (const punishment of player.punishments) {
-        // Check if punishment matches criteria and isn't already rolled back
-        if (punishment.issuerName === username && 
-            punishment.issued >= startDate && 
-            punishment.data?.get('rolledBack') !== true) {
-          
-          const rollbackBy = req.currentUser?.username || 'system';
-          const rollbackDate = new Date();
-          
-          // Mark punishment as rolled back
-          punishment.data.set('rolledBack', true);
-          punishment.data.set('rollbackDate', rollbackDate);
-          punishment.data.set('rollbackBy', rollbackBy);
-          punishment.data.set('rollbackReason', reason);
-          
-          // Add "Pardoned" modification to the punishment
-          if (!punishment.modifications) {
-            punishment.modifications = [];
-          }
-          
-          punishment.modifications.push({
-            type: 'MANUAL_PARDON',  // Use proper modification type
-            issuerName: rollbackBy,
-            issued: rollbackDate,   // Use 'issued' instead of 'created'
-            effectiveDuration: 0,   // Required for pardons
-            reason: `Bulk rollback by ${rollbackBy}: ${reason}`
-          });
-          
-          rolledBackCount++;
-          rolledBackPunishments.push({
-            id: punishment.id,
-            playerId: player.minecraftUuid,
-            playerName: player.usernames[0]?.username || 'Unknown'
-          });
-        }
-      }
-      
-      // Save player if any punishments were modified
-      if (player.isModified()) {
-        try {
-          await player.save({ validateBeforeSave: false });
-        } catch (saveError) {
-          console.warn(`Failed to save player ${player.minecraftUuid}, skipping:`, saveError.message);
-          // Continue with other players rather than failing the entire operation
-        }
-      }
-    }
-
-    // Create bulk rollback log entry
-    await Log.create({
-      created: new Date(),
-      level: 'moderation',
-      source: req.currentUser?.username || 'system',
-      description: `Bulk rollback: ${rolledBackCount} punishments by ${username} rolled back`,
-      metadata: {
-        bulkRollback: true,
-        staffMember: username,
-        rollbackReason: reason,
-        period: period,
-        punishmentsRolledBack: rolledBackCount,
-        rolledBackPunishments: rolledBackPunishments
-      }
-    });
 
-    res.json({ 
-      success: true, 
-      message: `Successfully rolled back ${rolledBackCount} punishments`,
-      count: rolledBackCount
-    });
+    // Unknown periods roll back everything
+    const from = getPeriodStart(['7d', '30d', '90d'].includes(period) ? period : 'all');
+    await previewOrStartRollback(req, res, {
+      staffUsername: username,
+      from,
+      to: null,
+      includeLinkedBans: includeLinkedBans !== false
+    }, `Bulk rollback of ${username} (${period})`, reason);
   } catch (error) {
     console.error('Error performing bulk rollback:', error);
     res.status(500).json({ error: 'Failed to perform bulk rollback' });
@@ -971,163 +664,80 @@ router.post('/staff/:username/rollback-all', async (req, res) => {
 router.get('/analytics', async (req, res) => {
   try {
     const { period = '7d' } = req.query;
-    
+
     if (!req.serverDbConnection) {
       return res.status(503).json({ error: 'Database connection not available' });
     }
-    
+
     const db = req.serverDbConnection;
+    const startDate = getPeriodStart(['7d', '30d', '90d'].includes(period as string) ? period : '7d');
+    const AuditEvent = getAuditEventModel(db);
+    const Log = db.model('Log');
 
-    // Calculate date range
-    const now = new Date();
-    let startDate: Date;
-    let days: number;
-    
-    switch (period) {
-      case '7d':
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        days = 7;
-        break;
-      case '30d':
-        startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        days = 30;
-        break;
-      case '90d':
-        startDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-        days = 90;
-        break;
-      default:
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        days = 7;
-    }
+    const isModeration = { $in: ['$category', MODERATION_CATEGORIES] };
+    const isTicket = { $in: ['$category', TICKET_CATEGORIES] };
 
     // Daily activity trends
-    const Log = db.model('Log');
-    const dailyActivity = await Log.aggregate([
-      {
-        $match: { created: { $gte: startDate } }
-      },
+    const dailyActivity = await AuditEvent.aggregate([
+      { $match: { createdAt: { $gte: startDate } } },
       {
         $group: {
-          _id: {
-            $dateToString: {
-              format: '%Y-%m-%d',
-              date: { $dateFromString: { dateString: '$created' } }
-            }
-          },
+          _id: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt' } },
           total: { $sum: 1 },
-          moderation: {
-            $sum: {
-              $cond: [
-                { $or: [
-                  { $eq: ['$level', 'moderation'] },
-                  { $regexMatch: { input: '$description', regex: /ban|mute|kick/i } }
-                ]},
-                1,
-                0
-              ]
-            }
-          },
-          tickets: {
-            $sum: {
-              $cond: [
-                { $regexMatch: { input: '$description', regex: /ticket/i } },
-                1,
-                0
-              ]
-            }
-          },
-          errors: {
-            $sum: {
-              $cond: [{ $eq: ['$level', 'error'] }, 1, 0]
-            }
-          }
+          moderation: { $sum: { $cond: [isModeration, 1, 0] } },
+          tickets: { $sum: { $cond: [isTicket, 1, 0] } }
         }
       },
       { $sort: { _id: 1 } }
     ]);
 
+    // Errors are not audit events, they still come from the system log
+    const dailyErrors = await Log.aggregate([
+      { $match: { created: { $gte: startDate }, level: 'error' } },
+      { $group: { _id: { $dateToString: { format: '%Y-%m-%d', date: '$created' } }, errors: { $sum: 1 } } }
+    ]);
+    const errorsByDay = new Map(dailyErrors.map(day => [day._id, day.errors]));
+    const totalErrors = dailyErrors.reduce((sum, day) => sum + day.errors, 0);
+
     // Action type distribution
-    const actionDistribution = await Log.aggregate([
-      {
-        $match: { created: { $gte: startDate } }
-      },
+    const actionDistribution = await AuditEvent.aggregate([
+      { $match: { createdAt: { $gte: startDate } } },
       {
         $group: {
           _id: null,
-          moderation: {
-            $sum: {
-              $cond: [
-                { $or: [
-                  { $eq: ['$level', 'moderation'] },
-                  { $regexMatch: { input: '$description', regex: /ban|mute|kick/i } }
-                ]},
-                1,
-                0
-              ]
-            }
-          },
-          tickets: {
-            $sum: {
-              $cond: [
-                { $regexMatch: { input: '$description', regex: /ticket/i } },
-                1,
-                0
-              ]
-            }
-          },
-          system: {
-            $sum: {
-              $cond: [{ $eq: ['$source', 'system'] }, 1, 0]
-            }
-          },
+          moderation: { $sum: { $cond: [isModeration, 1, 0] } },
+          tickets: { $sum: { $cond: [isTicket, 1, 0] } },
+          system: { $sum: { $cond: [{ $in: ['$actor.type', ['system', 'ai']] }, 1, 0] } },
           user: {
             $sum: {
               $cond: [
                 { $and: [
-                  { $ne: ['$source', 'system'] },
-                  { $ne: ['$level', 'moderation'] },
-                  { $not: { $regexMatch: { input: '$description', regex: /ticket|ban|mute|kick/i } } }
+                  { $not: [{ $in: ['$actor.type', ['system', 'ai']] }] },
+                  { $not: [isModeration] },
+                  { $not: [isTicket] }
                 ]},
                 1,
                 0
               ]
             }
           },
-          settings: {
-            $sum: {
-              $cond: [
-                { $regexMatch: { input: '$description', regex: /setting|config/i } },
-                1,
-                0
-              ]
-            }
-          },
-          errors: {
-            $sum: {
-              $cond: [{ $eq: ['$level', 'error'] }, 1, 0]
-            }
-          }
+          settings: { $sum: { $cond: [{ $in: ['$category', CONFIGURATION_CATEGORIES] }, 1, 0] } }
         }
       }
     ]);
 
+    const distribution = actionDistribution[0] || { moderation: 0, tickets: 0, system: 0, user: 0, settings: 0 };
+    delete distribution._id;
+
     res.json({
       dailyActivity: dailyActivity.map(day => ({
         date: day._id,
         total: day.total,
         moderation: day.moderation,
         tickets: day.tickets,
-        errors: day.errors
+        errors: errorsByDay.get(day._id) || 0
       })),
-      actionDistribution: actionDistribution[0] || {
-        moderation: 0,
-        tickets: 0,
-        system: 0,
-        user: 0,
-        settings: 0,
-        errors: 0
-      }
+      actionDistribution: { ...distribution, errors: totalErrors }
     });
   } catch (error) {
     console.error('Error fetching analytics:', error);
@@ -1135,186 +745,37 @@ router.get('/analytics', async (req, res) => {
   }
 });
 
-// Helper functions
-function extractPunishmentType(description: string): string {
-  const desc = description.toLowerCase();
-  if (desc.includes('ban')) return 'ban';
-  if (desc.includes('mute')) return 'mute';
-  if (desc.includes('kick')) return 'kick';
-  if (desc.includes('warn')) return 'warn';
-  return 'unknown';
-}
-
-function extractPlayerName(description: string): string {
-  // Try to extract player name from description
-  const matches = description.match(/player\s+(\w+)/i) || 
-                 description.match(/user\s+(\w+)/i) ||
-                 description.match(/(\w+)\s+(was|has been)/i);
-  
-  return matches ? matches[1] : 'Unknown Player';
-}
-
-function extractReason(description: string): string {
-  // Try to extract reason from description
-  const reasonMatch = description.match(/reason:\s*(.+?)(?:\.|$)/i) ||
-                     description.match(/for\s+(.+?)(?:\.|$)/i);
-  
-  return reasonMatch ? reasonMatch[1].trim() : 'No reason specified';
-}
-
-// Bulk rollback punishments by time range
+// Bulk rollback punishments by time range. Send `dryRun: true` to preview it.
 router.post('/punishments/bulk-rollback', async (req, res) => {
   try {
-    const { timeRange, reason = 'Bulk rollback from audit panel' } = req.body;
-    
+    const { timeRange, reason = 'Bulk rollback from audit panel', includeLinkedBans = true } = req.body;
+
     if (!req.serverDbConnection) {
       return res.status(503).json({ error: 'Database connection not available' });
     }
-    
-    const db = req.serverDbConnection;
-    const Player = db.model('Player');
-    const Log = db.model('Log');
-
-    // Calculate date range based on timeRange
-    const now = new Date();
-    let startDate: Date;
-    
-    switch (timeRange) {
-      case '1h':
-        startDate = new Date(now.getTime() - 1 * 60 * 60 * 1000);
-        break;
-      case '6h':
-        startDate = new Date(now.getTime() - 6 * 60 * 60 * 1000);
-        break;
-      case '24h':
-        startDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-        break;
-      case '7d':
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      case '30d':
-        startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        break;
-      case 'all':
-        startDate = new Date('2020-01-01');
-        break;
-      default:
-        startDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-    }
-
-    // Find all players with punishments in the time range that aren't already rolled back
-    const players = await Player.find({
-      'punishments.issued': { $gte: startDate }
-    });
-
-    let rolledBackCount = 0;
-    const rolledBackPunishments = [];
-
-    for (const player of players) {
-      for (const punishment of player.punishments) {
-        // Check if punishment is in time range and not already rolled back
-        if (punishment.issued >= startDate && 
-            punishment.data?.get('rolledBack') !== true) {
-          
-          const rollbackBy = req.currentUser?.username || 'system';
-          const rollbackDate = new Date();
-          
-          // Handle data field (Map vs Object)
-          if (punishment.data instanceof Map) {
-            punishment.data.set('rolledBack', true);
-            punishment.data.set('rollbackDate', rollbackDate);
-            punishment.data.set('rollbackBy', rollbackBy);
-            punishment.data.set('rollbackReason', reason);
-          } else {
-            // Initialize data as Map if it doesn't exist or convert object to Map
-            if (!punishment.data) {
-              punishment.data = new Map();
-            } else if (!(punishment.data instanceof Map)) {
-              const oldData = punishment.data;
-              punishment.data = new Map();
-              // Copy existing data
-              for (const [key, value] of Object.entries(oldData)) {
-                punishment.data.set(key, value);
-              }
-            }
-            punishment.data.set('rolledBack', true);
-            punishment.data.set('rollbackDate', rollbackDate);
-            punishment.data.set('rollbackBy', rollbackBy);
-            punishment.data.set('rollbackReason', reason);
-          }
-
-          // Add "Pardoned" modification to the punishment
-          if (!punishment.modifications) {
-            punishment.modifications = [];
-          }
-          
-          punishment.modifications.push({
-            type: 'MANUAL_PARDON',
-            issuerName: rollbackBy,
-            issued: rollbackDate,
-            effectiveDuration: 0,
-            reason: `Bulk rollback (${timeRange}): ${reason}`
-          });
-          
-          rolledBackCount++;
-          rolledBackPunishments.push({
-            id: punishment.id,
-            playerId: player.minecraftUuid,
-            playerName: player.usernames[0]?.username || 'Unknown'
-          });
-        }
-      }
-      
-      // Save player if any punishments were modified
-      if (player.isModified()) {
-        try {
-          await player.save({ validateBeforeSave: false });
-        } catch (saveError) {
-          console.warn(`Failed to save player ${player.minecraftUuid}, skipping:`, saveError.message);
-          // Continue with other players rather than failing the entire operation
-        }
-      }
-    }
-
-    // Create bulk rollback log entry
-    await Log.create({
-      created: new Date(),
-      level: 'moderation',
-      source: req.currentUser?.username || 'system',
-      description: `Bulk rollback: ${rolledBackCount} punishments from ${timeRange} rolled back`,
-      metadata: {
-        bulkRollback: true,
-        timeRange: timeRange,
-        rollbackReason: reason,
-        punishmentsRolledBack: rolledBackCount,
-        rolledBackPunishments: rolledBackPunishments
-      }
-    });
 
-    res.json({ 
-      success: true, 
-      message: `Successfully rolled back ${rolledBackCount} punishments`,
-      count: rolledBackCount
-    });
+    const period = ['1h', '6h', '24h', '7d', '30d', 'all'].includes(timeRange) ? timeRange : '24h';
+    await previewOrStartRollback(req, res, {
+      staffUsername: null,
+      from: getPeriodStart(period),
+      to: null,
+      includeLinkedBans: includeLinkedBans !== false
+    }, `Bulk rollback (${period})`, reason);
   } catch (error) {
     console.error('Error performing bulk rollback:', error);
     res.status(500).json({ error: 'Failed to perform bulk rollback' });
   }
 });
 
-// Rollback all punishments by a staff member within a date range
+// Rollback all punishments by a staff member within a date range. Send `dryRun: true` to preview it.
 router.post('/staff/:username/rollback-date-range', async (req, res) => {
   try {
     const { username } = req.params;
-    const { startDate, endDate, reason = 'Date range rollback from analytics panel' } = req.body;
-    
+    const { startDate, endDate, reason = 'Date range rollback from analytics panel', includeLinkedBans = true } = req.body;
+
     if (!req.serverDbConnection) {
       return res.status(503).json({ error: 'Database connection not available' });
     }
-    
-    const db = req.serverDbConnection;
-    const Player = db.model('Player');
-    const Log = db.model('Log');
 
     // Parse dates
     const startDateTime = new Date(startDate);
@@ -1329,109 +790,88 @@ router.post('/staff/:username/rollback-date-range', async (req, res) => {
       return res.status(400).json({ error: 'End date must be after start date' });
     }
 
-    // Find all players with punishments issued by this staff member in the date range
-    const players = await Player.find({
-      'punishments.issuerName': username,
-      'punishments.issued': { $gte: startDateTime, $lte: endDateTime }
-    });
+    await previewOrStartRollback(req, res, {
+      staffUsername: username,
+      from: startDateTime,
+      to: endDateTime,
+      includeLinkedBans: includeLinkedBans !== false
+    }, `Date range rollback of ${username}`, reason);
+  } catch (error) {
+    console.error('Error performing date range rollback:', error);
+    res.status(500).json({ error: 'Failed to perform date range rollback' });
+  }
+});
 
-    let rolledBackCount = 0;
-    const rolledBackPunishments = [];
-
-    for (const player of players) {
-      for (const punishment of player.punishments) {
-        // Check if punishment matches criteria and isn't already rolled back
-        if (punishment.issuerName === username && 
-            punishment.issued >= startDateTime && 
-            punishment.issued <= endDateTime &&
-            punishment.data?.get('rolledBack') !== true) {
-          
-          const rollbackBy = req.currentUser?.username || 'system';
-          const rollbackDate = new Date();
-          
-          // Handle data field (Map vs Object)
-          if (punishment.data instanceof Map) {
-            punishment.data.set('rolledBack', true);
-            punishment.data.set('rollbackDate', rollbackDate);
-            punishment.data.set('rollbackBy', rollbackBy);
-            punishment.data.set('rollbackReason', reason);
-          } else {
-            // Initialize data as Map if it doesn't exist or convert object to Map
-            if (!punishment.data) {
-              punishment.data = new Map();
-            } else if (!(punishment.data instanceof Map)) {
-              const oldData = punishment.data;
-              punishment.data = new Map();
-              // Copy existing data
-              for (const [key, value] of Object.entries(oldData)) {
-                punishment.data.set(key, value);
-              }
-            }
-            punishment.data.set('rolledBack', true);
-            punishment.data.set('rollbackDate', rollbackDate);
-            punishment.data.set('rollbackBy', rollbackBy);
-            punishment.data.set('rollbackReason', reason);
-          }
+// List rollback jobs, newest first
+router.get('/rollback-jobs', async (req, res) => {
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(503).json({ error: 'Database connection not available' });
+    }
 
-          // Add "Pardoned" modification to the punishment
-          if (!punishment.modifications) {
-            punishment.modifications = [];
-          }
-          
-          punishment.modifications.push({
-            type: 'MANUAL_PARDON',
-            issuerName: rollbackBy,
-            issued: rollbackDate,
-            effectiveDuration: 0,
-            reason: `Date range rollback by ${rollbackBy}: ${reason}`
-          });
-          
-          rolledBackCount++;
-          rolledBackPunishments.push({
-            id: punishment.id,
-            playerId: player.minecraftUuid,
-            playerName: player.usernames[0]?.username || 'Unknown'
-          });
-        }
-      }
-      
-      // Save player if any punishments were modified
-      if (player.isModified()) {
-        try {
-          await player.save({ validateBeforeSave: false });
-        } catch (saveError) {
-          console.warn(`Failed to save player ${player.minecraftUuid}, skipping:`, saveError.message);
-          // Continue with other players rather than failing the entire operation
-        }
-      }
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const jobs = await getRollbackJobModel(req.serverDbConnection).find({}, { items: 0 })
+      .sort({ startedAt: -1 })
+      .limit(limit);
+
+    res.json(jobs.map(job => formatRollbackJob(job)));
+  } catch (error) {
+    console.error('Error fetching rollback jobs:', error);
+    res.status(500).json({ error: 'Failed to fetch rollback jobs' });
+  }
+});
+
+// Rollback job progress and report, with the outcome for every punishment
+router.get('/rollback-jobs/:id', async (req, res) => {
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(503).json({ error: 'Database connection not available' });
     }
 
-    // Create rollback log entry
-    await Log.create({
-      created: new Date(),
-      level: 'moderation',
-      source: req.currentUser?.username || 'system',
-      description: `Date range rollback: ${rolledBackCount} punishments by ${username} rolled back (${startDate} to ${endDate})`,
-      metadata: {
-        dateRangeRollback: true,
-        staffMember: username,
-        rollbackReason: reason,
-        startDate: startDate,
-        endDate: endDate,
-        punishmentsRolledBack: rolledBackCount,
-        rolledBackPunishments: rolledBackPunishments
-      }
-    });
+    const job = await getRollbackJobModel(req.serverDbConnection).findById(req.params.id).catch(() => null);
+    if (!job) {
+      return res.status(404).json({ error: 'Rollback job not found' });
+    }
 
-    res.json({ 
-      success: true, 
-      message: `Successfully rolled back ${rolledBackCount} punishments`,
-      count: rolledBackCount
+    res.json(formatRollbackJob(job, true));
+  } catch (error) {
+    console.error('Error fetching rollback job:', error);
+    res.status(500).json({ error: 'Failed to fetch rollback job' });
+  }
+});
+
+// Undo a finished rollback job, restoring the punishments it rolled back
+router.post('/rollback-jobs/:id/undo', async (req, res) => {
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(503).json({ error: 'Database connection not available' });
+    }
+
+    const existing = await getRollbackJobModel(req.serverDbConnection).findById(req.params.id).catch(() => null);
+    if (!existing) {
+      return res.status(404).json({ error: 'Rollback job not found' });
+    }
+
+    const job = await undoRollbackJob(req.serverDbConnection, req.serverName, req.params.id, resolveAuditActor(req));
+    if (!job) {
+      return res.status(409).json({ error: `A rollback job that is ${existing.status} cannot be undone` });
+    }
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'punishment.rollback_undo_started',
+      summary: `Undo of ${job.description} started for ${job.progress.rolledBack} punishments`,
+      target: { type: 'rollback_job', id: job._id.toString(), name: job.description }
+    }, req);
+
+    res.status(202).json({
+      success: true,
+      message: `Restoring ${job.progress.rolledBack} punishments`,
+      job: formatRollbackJob(job)
     });
   } catch (error) {
-    console.error('Error performing date range rollback:', error);
-    res.status(500).json({ error: 'Failed to perform date range rollback' });
+    console.error('Error undoing rollback job:', error);
+    res.status(500).json({ error: 'Failed to undo rollback job' });
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
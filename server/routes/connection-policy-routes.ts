@@ -0,0 +1,291 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import {
+  CONNECTION_POLICY_ACTIONS,
+  CONNECTION_POLICY_CONDITIONS,
+  IConnectionPolicy,
+  formatConnectionAttempt,
+  formatConnectionPolicy,
+  getConnectionAttemptModel,
+  getConnectionPolicyModel,
+  isConnectionPolicyAction,
+  isConnectionPolicyCondition,
+  normalizePolicyValues
+} from '../services/connection-policy-service';
+import { createPlayerExemption } from '../services/network-ban-service';
+import { recordAuditEvent } from '../services/audit-service';
+
+const router = express.Router();
+
+const MAX_ATTEMPTS = 200;
+
+// Viewing policies and attempts requires admin.settings.view, everything else admin.settings.modify
+router.use(async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.serverDbConnection) {
+    return res.status(503).json({ error: 'Service unavailable. Database connection not established for this server.' });
+  }
+
+  const requiredPermission = req.method === 'GET' ? 'admin.settings.view' : 'admin.settings.modify';
+  try {
+    const { hasPermission } = await import('../middleware/permission-middleware');
+    if (!(await hasPermission(req, requiredPermission))) {
+      return res.status(403).json({
+        message: 'Forbidden: You do not have the required permissions.',
+        required: [requiredPermission]
+      });
+    }
+    next();
+  } catch (error) {
+    console.error('Error checking connection policy permissions:', error);
+    res.status(500).json({ message: 'Internal server error while checking permissions.' });
+  }
+});
+
+async function findPolicy(req: Request<{ id: string }>): Promise<IConnectionPolicy | null> {
+  if (!Types.ObjectId.isValid(req.params.id)) return null;
+  return getConnectionPolicyModel(req.serverDbConnection!).findById(req.params.id);
+}
+
+/**
+ * Validate a policy from the request body, falling back to the current policy for fields
+ * that are not sent when updating
+ */
+function parsePolicyBody(body: any, current?: IConnectionPolicy): { error: string } | { policy: Record<string, any> } {
+  const name = body.name ?? current?.name;
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: 'name is required' };
+  }
+
+  const condition = body.condition ?? current?.condition;
+  if (!isConnectionPolicyCondition(condition)) {
+    return { error: `condition must be one of: ${CONNECTION_POLICY_CONDITIONS.join(', ')}` };
+  }
+
+  const values = normalizePolicyValues(condition, body.values ?? current?.values);
+  if (!values) {
+    return { error: condition === 'country' ? 'values must be two letter country codes' : 'values must be AS numbers such as AS12345' };
+  }
+
+  const action = body.action ?? current?.action;
+  if (!isConnectionPolicyAction(action)) {
+    return { error: `action must be one of: ${CONNECTION_POLICY_ACTIONS.join(', ')}` };
+  }
+
+  const minAccountAgeDays = body.minAccountAgeDays ?? current?.minAccountAgeDays ?? 0;
+  if (typeof minAccountAgeDays !== 'number' || !Number.isFinite(minAccountAgeDays) || minAccountAgeDays < 0) {
+    return { error: 'minAccountAgeDays must be a positive number' };
+  }
+  if (action === 'require_account_age' && minAccountAgeDays <= 0) {
+    return { error: 'minAccountAgeDays is required for the require_account_age action' };
+  }
+
+  const negate = body.negate ?? current?.negate ?? false;
+  const enabled = body.enabled ?? current?.enabled ?? true;
+  const message = body.message ?? current?.message ?? '';
+  if (typeof negate !== 'boolean' || typeof enabled !== 'boolean') {
+    return { error: 'negate and enabled must be booleans' };
+  }
+  if (typeof message !== 'string') {
+    return { error: 'message must be a string' };
+  }
+
+  return {
+    policy: {
+      name: name.trim(),
+      condition,
+      values,
+      negate: condition === 'country' || condition === 'asn' ? negate : false,
+      action,
+      minAccountAgeDays: action === 'require_account_age' ? minAccountAgeDays : 0,
+      message: message.trim(),
+      enabled
+    }
+  };
+}
+
+// List connection policies, oldest first as they are evaluated
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const policies = await getConnectionPolicyModel(req.serverDbConnection!).find().sort({ createdAt: 1 });
+    res.json({ policies: policies.map(formatConnectionPolicy) });
+  } catch (error) {
+    console.error('Error fetching connection policies:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Denied and alerted logins, newest first
+router.get('/attempts', async (req: Request, res: Response) => {
+  try {
+    const filter: Record<string, any> = {};
+    if (typeof req.query.player === 'string' && req.query.player.trim()) {
+      const player = req.query.player.trim();
+      const escaped = player.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      filter.$or = [{ minecraftUuid: player }, { username: { $regex: new RegExp(`^${escaped}$`, 'i') } }];
+    }
+    if (req.query.decision === 'denied' || req.query.decision === 'alerted') {
+      filter.decision = req.query.decision;
+    }
+
+    const attempts = await getConnectionAttemptModel(req.serverDbConnection!)
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .limit(MAX_ATTEMPTS);
+    res.json({ attempts: attempts.map(formatConnectionAttempt) });
+  } catch (error) {
+    console.error('Error fetching connection attempts:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create a connection policy
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const parsed = parsePolicyBody(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const policy = await getConnectionPolicyModel(req.serverDbConnection!).create({
+      ...parsed.policy,
+      createdBy: req.session?.username || 'Unknown'
+    });
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'connection_policy.created',
+      summary: `Connection policy "${policy.name}" created`,
+      target: { type: 'connection_policy', id: policy._id.toString(), name: policy.name },
+      after: formatConnectionPolicy(policy)
+    }, req);
+
+    res.status(201).json({ policy: formatConnectionPolicy(policy) });
+  } catch (error) {
+    console.error('Error creating connection policy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update a connection policy
+router.patch('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const policy = await findPolicy(req);
+    if (!policy) {
+      return res.status(404).json({ error: 'Connection policy not found' });
+    }
+
+    const parsed = parsePolicyBody(req.body, policy);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const previousPolicy = formatConnectionPolicy(policy);
+    policy.set(parsed.policy);
+    await policy.save();
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'connection_policy.updated',
+      summary: `Connection policy "${policy.name}" updated`,
+      target: { type: 'connection_policy', id: policy._id.toString(), name: policy.name },
+      before: previousPolicy,
+      after: formatConnectionPolicy(policy)
+    }, req);
+
+    res.json({ policy: formatConnectionPolicy(policy) });
+  } catch (error) {
+    console.error('Error updating connection policy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a connection policy
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const policy = await findPolicy(req);
+    if (!policy) {
+      return res.status(404).json({ error: 'Connection policy not found' });
+    }
+
+    await policy.deleteOne();
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'connection_policy.deleted',
+      summary: `Connection policy "${policy.name}" deleted`,
+      target: { type: 'connection_policy', id: policy._id.toString(), name: policy.name },
+      before: formatConnectionPolicy(policy)
+    }, req);
+
+    res.json({ message: 'Connection policy deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting connection policy:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Exempt a player from a connection policy
+router.post('/:id/exemptions', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const policy = await findPolicy(req);
+    if (!policy) {
+      return res.status(404).json({ error: 'Connection policy not found' });
+    }
+
+    const { player: identifier } = req.body;
+    if (typeof identifier !== 'string' || !identifier.trim()) {
+      return res.status(400).json({ error: 'player must be a username or UUID' });
+    }
+
+    const exemption = await createPlayerExemption(req.serverDbConnection!, identifier, req.session?.username || 'Unknown');
+    if (!exemption) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+    if (policy.exemptions.some(item => item.minecraftUuid === exemption.minecraftUuid)) {
+      return res.status(409).json({ error: 'Player is already exempt from this policy' });
+    }
+
+    policy.exemptions.push(exemption);
+    await policy.save();
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'connection_policy.exemption_added',
+      summary: `${exemption.username} exempted from connection policy "${policy.name}"`,
+      target: { type: 'connection_policy', id: policy._id.toString(), name: policy.name },
+      metadata: { minecraftUuid: exemption.minecraftUuid, username: exemption.username }
+    }, req);
+
+    res.status(201).json({ policy: formatConnectionPolicy(policy) });
+  } catch (error) {
+    console.error('Error adding connection policy exemption:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/:id/exemptions/:minecraftUuid', async (req: Request<{ id: string; minecraftUuid: string }>, res: Response) => {
+  try {
+    const policy = await findPolicy(req);
+    if (!policy) {
+      return res.status(404).json({ error: 'Connection policy not found' });
+    }
+
+    const exemption = policy.exemptions.find(item => item.minecraftUuid === req.params.minecraftUuid);
+    if (!exemption) {
+      return res.status(404).json({ error: 'Player is not exempt from this policy' });
+    }
+
+    policy.exemptions = policy.exemptions.filter(item => item.minecraftUuid !== req.params.minecraftUuid);
+    await policy.save();
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'connection_policy.exemption_removed',
+      summary: `${exemption.username} no longer exempt from connection policy "${policy.name}"`,
+      target: { type: 'connection_policy', id: policy._id.toString(), name: policy.name },
+      metadata: { minecraftUuid: exemption.minecraftUuid, username: exemption.username }
+    }, req);
+
+    res.json({ policy: formatConnectionPolicy(policy) });
+  } catch (error) {
+    console.error('Error removing connection policy exemption:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
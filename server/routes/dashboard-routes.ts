@@ -1,5 +1,8 @@
 import express from 'express';
 import { startOfDay, endOfDay, subDays, subMonths, eachDayOfInterval, format } from 'date-fns';
+import { getPunishmentModel } from '../services/punishment-store-service';
+import { getSlaOverview } from '../services/ticket-sla-service';
+import { ACTIVE_TICKET_STATUSES, getTicketStatus, toTicketStatusSlug, UNFINISHED_TICKET_STATUS } from '../services/ticket-status-service';
 
 const router = express.Router();
 
@@ -82,6 +85,7 @@ router.get('/metrics', async (req, res) => {
     
     const Player = db.model('Player');
     const Ticket = db.model('Ticket');
+    const Punishment = getPunishmentModel(db);
     
     let startDate = new Date();
     let dateInterval = 'day';
@@ -121,14 +125,10 @@ router.get('/metrics', async (req, res) => {
         newPlayers,
         punishmentsIssued
       ] = await Promise.all([
-        // Open tickets (tickets that were open at the end of this day)
+        // Open tickets (tickets created by the end of this day that still need work)
         Ticket.countDocuments({
           created: { $lte: dayEnd },
-          $or: [
-            { status: { $in: ['Open', 'Under Review', 'Pending Player Response'] } },
-            { 'data.status': { $in: ['Open', 'Under Review', 'Pending Player Response'] } },
-            { status: { $exists: false }, 'data.status': { $exists: false } }
-          ]
+          status: { $in: ACTIVE_TICKET_STATUSES }
         }),
         
         // New tickets created on this day
@@ -151,8 +151,8 @@ router.get('/metrics', async (req, res) => {
         }),
         
         // Punishments issued on this day
-        Player.countDocuments({
-          'punishments.issued': { $gte: dayStart, $lte: dayEnd }
+        Punishment.countDocuments({
+          issued: { $gte: dayStart, $lte: dayEnd }
         })
       ]);
 
@@ -181,7 +181,7 @@ router.get('/recent-tickets', async (req, res) => {
     
     const Ticket = db.model('Ticket');
     
-    const tickets = await Ticket.find({})
+    const tickets = await Ticket.find({ status: { $ne: UNFINISHED_TICKET_STATUS } })
       .sort({ created: -1 })
       .limit(parseInt(limit as string))
       .lean();
@@ -235,11 +235,7 @@ router.get('/recent-tickets', async (req, res) => {
       }
 
       // Determine status
-      let status = ticket.status || ticket.data?.status || 'open';
-      if (status === 'Closed') status = 'closed';
-      else if (status === 'Under Review') status = 'under_review';
-      else if (status === 'Pending Player Response') status = 'pending_player_response';
-      else status = 'open';
+      const status = toTicketStatusSlug(getTicketStatus(ticket));
 
       // Determine priority
       let priority = ticket.priority || ticket.data?.priority || 'medium';
@@ -249,7 +245,7 @@ router.get('/recent-tickets', async (req, res) => {
         id: ticket._id.toString(),
         title: ticket.subject || ticket.title || 'Untitled Ticket',
         initialMessage: initialMessage, // Already properly truncated above
-        status: status as 'open' | 'closed' | 'under_review' | 'pending_player_response',
+        status,
         priority: priority as 'low' | 'medium' | 'high' | 'urgent',
         createdAt: ticket.created || ticket.createdAt,
         playerName: ticket.creator || ticket.playerName || 'Unknown',
@@ -264,6 +260,17 @@ router.get('/recent-tickets', async (req, res) => {
   }
 });
 
+// GET /api/panel/dashboard/sla?limit=5 - Open tickets that missed or are about to miss their SLA
+router.get('/sla', async (req, res) => {
+  try {
+    const { limit = 5 } = req.query;
+    res.json(await getSlaOverview(req.serverDbConnection, parseInt(limit as string)));
+  } catch (error) {
+    console.error('SLA overview error:', error);
+    res.status(500).json({ message: 'Failed to fetch SLA overview' });
+  }
+});
+
 // GET /api/panel/dashboard/recent-punishments?limit=10
 router.get('/recent-punishments', async (req, res) => {
   try {
@@ -273,95 +280,83 @@ router.get('/recent-punishments', async (req, res) => {
     const Player = db.model('Player');
     const punishmentTypesConfig = await getPunishmentTypesConfig(db);
     
-    // Find players with recent punishments
-    const players = await Player.find({
-      'punishments.issued': { $exists: true }
-    })
-    .sort({ 'punishments.issued': -1 })
-    .limit(parseInt(limit as string) * 3) // Get more to filter and sort properly
-    .lean();
+    // Most recently issued punishments
+    const punishments = await getPunishmentModel(db)
+      .find({ issued: { $exists: true } })
+      .sort({ issued: -1 })
+      .limit(parseInt(limit as string))
+      .lean<any[]>();
+    const players = await Player.find(
+      { minecraftUuid: { $in: Array.from(new Set(punishments.map(punishment => punishment.minecraftUuid))) } },
+      { minecraftUuid: 1, usernames: 1 }
+    ).lean<any[]>();
+    const playersByUuid = new Map(players.map(player => [player.minecraftUuid, player]));
 
     const recentPunishments = [];
 
-    for (const player of players) {
-      if (!player.punishments) continue;
-      
-      // Sort punishments by issued date (most recent first)
-      const sortedPunishments = player.punishments
-        .filter(p => p.issued)
-        .sort((a, b) => new Date(b.issued).getTime() - new Date(a.issued).getTime());
-
-      for (const punishment of sortedPunishments.slice(0, 2)) { // Max 2 per player
-        const playerName = player.usernames && player.usernames.length > 0
-          ? player.usernames[player.usernames.length - 1].username
-          : 'Unknown';
+    for (const punishment of punishments) {
+      const player = playersByUuid.get(punishment.minecraftUuid);
+      const playerName = player?.usernames && player.usernames.length > 0
+        ? player.usernames[player.usernames.length - 1].username
+        : 'Unknown';
 
-        // Determine punishment type
-        const type = mapPunishmentType(
-          punishment.type, 
-          punishment.type_ordinal, 
-          punishmentTypesConfig
-        ) as 'ban' | 'kick' | 'mute' | 'warn' | 'tempban';
+      // Determine punishment type
+      const type = mapPunishmentType(
+        punishment.type, 
+        punishment.type_ordinal, 
+        punishmentTypesConfig
+      ) as 'ban' | 'kick' | 'mute' | 'warn' | 'tempban';
 
-        // Get reason
-        let reason = 'No reason provided';
-        if (punishment.data?.reason) {
-          reason = punishment.data.reason;
-        } else if (punishment.reason) {
-          reason = punishment.reason;
-        }
+      // Get reason
+      let reason = 'No reason provided';
+      if (punishment.data?.reason) {
+        reason = punishment.data.reason;
+      } else if (punishment.reason) {
+        reason = punishment.reason;
+      }
 
-        // Get duration
-        let duration;
-        if (punishment.data?.duration) {
-          duration = punishment.data.duration;
-        } else if (punishment.data?.expiry && punishment.issued) {
-          const expiryTime = new Date(punishment.data.expiry).getTime();
-          const issuedTime = new Date(punishment.issued).getTime();
-          const durationMs = expiryTime - issuedTime;
+      // Get duration
+      let duration;
+      if (punishment.data?.duration) {
+        duration = punishment.data.duration;
+      } else if (punishment.data?.expiry && punishment.issued) {
+        const expiryTime = new Date(punishment.data.expiry).getTime();
+        const issuedTime = new Date(punishment.issued).getTime();
+        const durationMs = expiryTime - issuedTime;
+        
+        if (durationMs > 0) {
+          const days = Math.floor(durationMs / (1000 * 60 * 60 * 24));
+          const hours = Math.floor((durationMs % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
           
-          if (durationMs > 0) {
-            const days = Math.floor(durationMs / (1000 * 60 * 60 * 24));
-            const hours = Math.floor((durationMs % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-            
-            if (days > 0) {
-              duration = `${days}d`;
-            } else if (hours > 0) {
-              duration = `${hours}h`;
-            } else {
-              duration = '< 1h';
-            }
+          if (days > 0) {
+            duration = `${days}d`;
+          } else if (hours > 0) {
+            duration = `${hours}h`;
+          } else {
+            duration = '< 1h';
           }
         }
-
-        // Check if punishment is active
-        let active = true;
-        if (punishment.data?.active !== undefined) {
-          active = punishment.data.active;
-        } else if (punishment.data?.expiry) {
-          active = new Date(punishment.data.expiry) > new Date();
-        }
-
-        recentPunishments.push({
-          id: punishment.id || punishment._id?.toString() || Math.random().toString(),
-          type,
-          playerName,
-          playerUuid: player.minecraftUuid,
-          reason,
-          duration,
-          issuedBy: punishment.issuerName || 'System',
-          issuedAt: punishment.issued,
-          active
-        });
-
-        if (recentPunishments.length >= parseInt(limit as string)) {
-          break;
-        }
       }
 
-      if (recentPunishments.length >= parseInt(limit as string)) {
-        break;
+      // Check if punishment is active
+      let active = true;
+      if (punishment.data?.active !== undefined) {
+        active = punishment.data.active;
+      } else if (punishment.data?.expiry) {
+        active = new Date(punishment.data.expiry) > new Date();
       }
+
+      recentPunishments.push({
+        id: punishment.id || punishment._id?.toString() || Math.random().toString(),
+        type,
+        playerName,
+        playerUuid: punishment.minecraftUuid,
+        reason,
+        duration,
+        issuedBy: punishment.issuerName || 'System',
+        issuedAt: punishment.issued,
+        active
+      });
     }
 
     // Sort all punishments by issued date and limit
@@ -0,0 +1,140 @@
+import express, { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import {
+  IP_LIST_TYPES,
+  IIpRangeList,
+  countStaleIpIntelligence,
+  deleteIpRangeList,
+  formatIpRangeList,
+  getIpIntelligenceModel,
+  getIpRangeListModel,
+  importIpRangeList,
+  isIpListType,
+  lookupIpIntelligence,
+  parseIpAddress,
+  resumeIpReevaluation
+} from '../services/ip-intelligence-service';
+import { resolveAuditActor } from '../services/audit-service';
+
+const router = express.Router();
+
+// GeoIP databases exported as CSV can be large
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 200 * 1024 * 1024, // 200MB max file size
+  },
+});
+
+// Viewing the lists requires admin.settings.view, everything else admin.settings.modify
+router.use(async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.serverDbConnection) {
+    return res.status(503).json({ error: 'Service unavailable. Database connection not established for this server.' });
+  }
+
+  const requiredPermission = req.method === 'GET' ? 'admin.settings.view' : 'admin.settings.modify';
+  try {
+    const { hasPermission } = await import('../middleware/permission-middleware');
+    if (!(await hasPermission(req, requiredPermission))) {
+      return res.status(403).json({
+        message: 'Forbidden: You do not have the required permissions.',
+        required: [requiredPermission]
+      });
+    }
+    next();
+  } catch (error) {
+    console.error('Error checking IP intelligence permissions:', error);
+    res.status(500).json({ message: 'Internal server error while checking permissions.' });
+  }
+});
+
+/**
+ * The uploaded lists and how many cached IPs still have to be re-evaluated against them
+ */
+router.get('/lists', async (req: Request, res: Response) => {
+  try {
+    const db = req.serverDbConnection!;
+    resumeIpReevaluation(db, req.serverName);
+
+    const lists = await getIpRangeListModel(db).find().lean<IIpRangeList[]>();
+    const listsByType = new Map(lists.map(list => [list.type, list]));
+
+    res.json({
+      lists: IP_LIST_TYPES.map(type => {
+        const list = listsByType.get(type);
+        return list ? formatIpRangeList(list) : { type, fileName: null, entries: 0 };
+      }),
+      cachedIps: await getIpIntelligenceModel(db).estimatedDocumentCount(),
+      staleIps: await countStaleIpIntelligence(db)
+    });
+  } catch (error) {
+    console.error('Error fetching IP lists:', error);
+    res.status(500).json({ error: 'Failed to fetch IP lists' });
+  }
+});
+
+router.post('/lists/:type', upload.single('file'), async (req: Request, res: Response) => {
+  const { type } = req.params;
+  if (!isIpListType(type)) {
+    return res.status(400).json({ error: `Invalid list type. Must be one of: ${IP_LIST_TYPES.join(', ')}` });
+  }
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file provided' });
+  }
+
+  try {
+    const list = await importIpRangeList(
+      req.serverDbConnection!,
+      req.serverName,
+      type,
+      req.file.originalname,
+      req.file.buffer.toString('utf8'),
+      resolveAuditActor(req),
+      req
+    );
+    res.status(201).json({ list: formatIpRangeList(list) });
+  } catch (error) {
+    if ((error as Error).message === 'The file does not contain any IP ranges') {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    console.error('Error importing IP list:', error);
+    res.status(500).json({ error: 'Failed to import IP list' });
+  }
+});
+
+router.delete('/lists/:type', async (req: Request, res: Response) => {
+  const { type } = req.params;
+  if (!isIpListType(type)) {
+    return res.status(400).json({ error: `Invalid list type. Must be one of: ${IP_LIST_TYPES.join(', ')}` });
+  }
+
+  try {
+    const deleted = await deleteIpRangeList(req.serverDbConnection!, req.serverName, type, resolveAuditActor(req), req);
+    if (!deleted) {
+      return res.status(404).json({ error: 'No list has been uploaded for this type' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting IP list:', error);
+    res.status(500).json({ error: 'Failed to delete IP list' });
+  }
+});
+
+/**
+ * Evaluate a single IP against the uploaded lists
+ */
+router.get('/lookup/:ip', async (req: Request, res: Response) => {
+  const { ip } = req.params;
+  if (!parseIpAddress(ip)) {
+    return res.status(400).json({ error: 'Invalid IP address' });
+  }
+
+  try {
+    res.json({ ipAddress: ip, ...(await lookupIpIntelligence(req.serverDbConnection!, ip)) });
+  } catch (error) {
+    console.error('Error looking up IP:', error);
+    res.status(500).json({ error: 'Failed to look up IP' });
+  }
+});
+
+export default router;
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { Connection, Document } from 'mongoose';
 import { ISystemLog } from 'modl-shared-web/types';
+import { publishEvent } from '../services/realtime-service';
+import { getApiKeyAuditMetadata } from '../services/api-key-service';
 
 export async function createSystemLog(
   dbConnection: Connection | undefined | null,
@@ -22,10 +24,18 @@ export async function createSystemLog(
       level,
       source,
       created: new Date(),
+      metadata: getApiKeyAuditMetadata()
     });
     await logEntry.save();
     const serverIdMessage = serverName || dbConnection.name;
     console.log(`LOG (${serverIdMessage}): ${description} [${level}, ${source}]`);
+    publishEvent(serverName, 'audit', 'log.created', {
+      id: logEntry._id,
+      description,
+      level,
+      source,
+      created: logEntry.created
+    });
     return logEntry;
   } catch (error) {
     const serverIdMessage = serverName || (dbConnection ? dbConnection.name : 'Unknown Server');
@@ -1,7 +1,9 @@
 import { Router } from 'express';
 import multer from 'multer';
 import { isAuthenticated } from '../middleware/auth-middleware';
-import { uploadMedia, deleteMedia, isWasabiConfigured, isSecureFileKey, MediaUploadOptions } from '../services/wasabi-service';
+import { uploadMedia, deleteMedia, isSecureFileKey, MediaUploadOptions } from '../services/media-service';
+import { getStorageDriver, isStorageConfigured } from '../services/storage-service';
+import { recordAuditEvent } from '../services/audit-service';
 
 const router = Router();
 
@@ -13,71 +15,22 @@ const upload = multer({
   },
 });
 
-// Middleware to check if Wasabi is configured
-const requireWasabiConfig = (req: any, res: any, next: any) => {
-  if (!isWasabiConfigured()) {
+// Middleware to check if the storage driver is configured
+const requireStorageConfig = (req: any, res: any, next: any) => {
+  if (!isStorageConfigured()) {
     return res.status(503).json({
       error: 'Media storage not configured',
-      message: 'Wasabi cloud storage is not properly configured. Please contact your administrator.'
+      message: 'Media storage is not properly configured. Please contact your administrator.'
     });
   }
   next();
 };
 
-// Local file storage fallback
-import fs from 'fs/promises';
-import path from 'path';
-
-const LOCAL_UPLOADS_DIR = path.join(process.cwd(), 'uploads');
-
-// Ensure uploads directory exists
-const ensureUploadsDir = async () => {
-  try {
-    await fs.access(LOCAL_UPLOADS_DIR);
-  } catch {
-    await fs.mkdir(LOCAL_UPLOADS_DIR, { recursive: true });
-  }
-};
-
-// Save file locally as fallback when Wasabi isn't configured
-const saveFileLocally = async (file: any, folder: string, subFolder: string, serverName: string) => {
-  await ensureUploadsDir();
-  
-  // Create folder structure: uploads/server-name/folder/subfolder/
-  const serverDir = path.join(LOCAL_UPLOADS_DIR, serverName);
-  const folderDir = path.join(serverDir, folder);
-  const subFolderDir = subFolder ? path.join(folderDir, subFolder) : folderDir;
-  
-  await fs.mkdir(subFolderDir, { recursive: true });
-  
-  // Generate unique filename to avoid conflicts
-  const timestamp = Date.now();
-  const random = Math.random().toString(36).substring(2, 8);
-  const ext = path.extname(file.originalname);
-  const filename = `${timestamp}-${random}${ext}`;
-  
-  const filePath = path.join(subFolderDir, filename);
-  
-  // Save file
-  await fs.writeFile(filePath, file.buffer);
-  
-  // Return relative path from uploads directory for URL generation
-  const relativePath = path.relative(LOCAL_UPLOADS_DIR, filePath);
-  const url = `/uploads/${relativePath.replace(/\\/g, '/')}`;
-  
-  return {
-    success: true,
-    url,
-    key: relativePath,
-    localPath: filePath
-  };
-};
-
 /**
  * Upload evidence media (videos, images)
  * Used for player reports, ban appeals, etc.
  */
-router.post('/upload/evidence', isAuthenticated, upload.single('file'), async (req, res) => {
+router.post('/upload/evidence', isAuthenticated, requireStorageConfig, upload.single('file'), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No file provided' });
@@ -96,38 +49,32 @@ router.post('/upload/evidence', isAuthenticated, upload.single('file'), async (r
       subFolder = category;
     }
 
-    let result;
-
-    // Try Wasabi first if configured, otherwise fall back to local storage
-    if (isWasabiConfigured()) {
-      try {
-        const uploadOptions: MediaUploadOptions = {
-          file: req.file.buffer,
-          fileName: req.file.originalname,
-          contentType: req.file.mimetype,
-          folder: 'evidence',
-          subFolder,
-          serverName,
-        };
-
-        result = await uploadMedia(uploadOptions);
-      } catch (wasabiError) {
-        console.warn('Wasabi upload failed, falling back to local storage:', wasabiError);
-        result = await saveFileLocally(req.file, 'evidence', subFolder, serverName);
-      }
-    } else {
-      // Use local storage fallback
-      result = await saveFileLocally(req.file, 'evidence', subFolder, serverName);
-    }
+    const uploadOptions: MediaUploadOptions = {
+      file: req.file.buffer,
+      fileName: req.file.originalname,
+      contentType: req.file.mimetype,
+      folder: 'evidence',
+      subFolder,
+      serverName,
+    };
+
+    const result = await uploadMedia(uploadOptions);
 
     if (result.success) {
+      await recordAuditEvent(req.serverDbConnection, req.serverName, {
+        action: 'file.uploaded',
+        summary: `Evidence ${req.file.originalname} uploaded`,
+        target: { type: 'file', id: result.key || req.file.originalname, name: req.file.originalname },
+        metadata: { folder: 'evidence', playerId, ticketId, category, size: req.file.size, contentType: req.file.mimetype }
+      }, req);
+
       res.json({
         success: true,
         url: result.url,
         key: result.key,
         folderUuid: result.folderUuid,
         message: 'Evidence uploaded successfully',
-        storage: isWasabiConfigured() ? 'wasabi' : 'local'
+        storage: getStorageDriver().name
       });
     } else {
       res.status(400).json({
@@ -148,7 +95,7 @@ router.post('/upload/evidence', isAuthenticated, upload.single('file'), async (r
  * Upload ticket attachments
  * Used for support tickets, bug reports, etc.
  */
-router.post('/upload/ticket', isAuthenticated, requireWasabiConfig, upload.single('file'), async (req, res) => {
+router.post('/upload/ticket', isAuthenticated, requireStorageConfig, upload.single('file'), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No file provided' });
@@ -199,7 +146,7 @@ router.post('/upload/ticket', isAuthenticated, requireWasabiConfig, upload.singl
  * Upload article media (images, videos)
  * Used for knowledgebase articles
  */
-router.post('/upload/article', isAuthenticated, requireWasabiConfig, upload.single('file'), async (req, res) => {
+router.post('/upload/article', isAuthenticated, requireStorageConfig, upload.single('file'), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No file provided' });
@@ -248,7 +195,7 @@ router.post('/upload/article', isAuthenticated, requireWasabiConfig, upload.sing
  * Upload appeal attachments (public route - no authentication required)
  * Used for ban appeals submitted by players
  */
-router.post('/upload/appeal', requireWasabiConfig, upload.single('file'), async (req, res) => {
+router.post('/upload/appeal', requireStorageConfig, upload.single('file'), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No file provided' });
@@ -297,9 +244,9 @@ router.post('/upload/appeal', requireWasabiConfig, upload.single('file'), async
 
 /**
  * Upload server icons (backward compatibility with existing system)
- * Uploads to Wasabi instead of local storage
+ * Uploads through the configured storage driver
  */
-router.post('/upload/server-icon', isAuthenticated, requireWasabiConfig, upload.single('file'), async (req, res) => {
+router.post('/upload/server-icon', isAuthenticated, requireStorageConfig, upload.single('file'), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No file provided' });
@@ -350,7 +297,7 @@ router.post('/upload/server-icon', isAuthenticated, requireWasabiConfig, upload.
  * Delete media file
  * Can delete any media file by key (with proper permissions)
  */
-router.delete('/media/:key', isAuthenticated, requireWasabiConfig, async (req, res) => {
+router.delete('/media/:key', isAuthenticated, requireStorageConfig, async (req, res) => {
   try {
     const { key } = req.params;
     
@@ -372,6 +319,12 @@ router.delete('/media/:key', isAuthenticated, requireWasabiConfig, async (req, r
     const success = await deleteMedia(decodedKey);
 
     if (success) {
+      await recordAuditEvent(req.serverDbConnection, req.serverName, {
+        action: 'file.deleted',
+        summary: `File ${decodedKey} deleted`,
+        target: { type: 'file', id: decodedKey }
+      }, req);
+
       res.json({
         success: true,
         message: 'Media deleted successfully'
@@ -396,7 +349,8 @@ router.delete('/media/:key', isAuthenticated, requireWasabiConfig, async (req, r
  */
 router.get('/config', isAuthenticated, (req, res) => {
   res.json({
-    wasabiConfigured: isWasabiConfigured(),
+    storageConfigured: isStorageConfigured(),
+    storageDriver: getStorageDriver().name,
     supportedTypes: {
       evidence: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'video/mp4', 'video/webm', 'video/quicktime'],
       tickets: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'application/pdf', 'text/plain', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
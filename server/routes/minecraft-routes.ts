@@ -2,6 +2,26 @@ import { Connection, Types, Document } from 'mongoose'; // Added Types, Document
 import { Request, Response, NextFunction, Express } from 'express'; // Added Express for app type
 import { v4 as uuidv4 } from 'uuid'; // For generating new player UUIDs
 import { createSystemLog } from './log-routes'; // Import createSystemLog
+import { publishEvent } from '../services/realtime-service';
+import { getApiKeyAuditMetadata } from '../services/api-key-service';
+import { triggerWebhookEvent } from '../services/webhook-service';
+import { recordAuditEvent } from '../services/audit-service';
+import { lookupIpIntelligence, toIpListFields } from '../services/ip-intelligence-service';
+import { findNetworkBan, formatNetworkBanMessage, getNetworkBanSettings, recordNetworkBanHit } from '../services/network-ban-service';
+import {
+  ConnectionContext,
+  IConnectionAttemptReason,
+  evaluateConnectionPolicies,
+  recordConnectionAttempt
+} from '../services/connection-policy-service';
+import {
+  detectAccountLinks,
+  getAltDetectionSettings,
+  getLinkConfidence,
+  getLinkedAccountUuids,
+  getOtherPlayer,
+  getPlayerLinks
+} from '../services/account-link-service';
 
 /**
  * Create a punishment audit log entry with staff member resolution
@@ -18,12 +38,15 @@ async function createPunishmentAuditLog(
     reason: string;
     duration?: number;
     isDynamic?: boolean;
-  }
+  },
+  punishment: IPunishment,
+  req: Request
 ): Promise<void> {
   try {
     // Try to resolve issuer to staff member for proper audit tracking
     let auditSource = 'minecraft-api';
     let staffId = null;
+    let staffUsername: string | undefined;
     
     try {
       const Staff = serverDbConnection.model('Staff');
@@ -31,6 +54,7 @@ async function createPunishmentAuditLog(
       if (staffMember) {
         auditSource = staffMember.username;
         staffId = staffMember._id;
+        staffUsername = staffMember.username;
       }
     } catch (error) {
       console.warn('Failed to resolve staff member for audit log:', error.message);
@@ -47,6 +71,7 @@ async function createPunishmentAuditLog(
       source: auditSource,
       created: new Date(),
       metadata: {
+        ...getApiKeyAuditMetadata(),
         punishmentId: punishmentData.punishmentId,
         typeOrdinal: punishmentData.typeOrdinal,
         targetPlayer: punishmentData.targetPlayer,
@@ -63,13 +88,46 @@ async function createPunishmentAuditLog(
     
     await logEntry.save();
     console.log(`AUDIT LOG (${serverName}): ${description} [moderation, ${auditSource}]`);
+    publishEvent(serverName, 'audit', 'log.created', {
+      id: logEntry._id,
+      description,
+      level: 'moderation',
+      source: auditSource,
+      created: logEntry.created
+    });
+
+    await recordAuditEvent(serverDbConnection, serverName, {
+      action: 'punishment.created',
+      summary: `${punishmentType} punishment ${punishmentData.punishmentId} issued to ${punishmentData.targetPlayer} by ${punishmentData.issuerName}`,
+      target: { type: 'punishment', id: punishmentData.punishmentId, name: punishmentData.targetPlayer },
+      after: punishment,
+      metadata: {
+        playerUuid: punishmentData.targetUuid,
+        playerName: punishmentData.targetPlayer,
+        issuerName: punishmentData.issuerName,
+        staffUsername,
+        typeOrdinal: punishmentData.typeOrdinal,
+        reason: punishmentData.reason,
+        duration: punishmentData.duration,
+        isDynamic: punishmentData.isDynamic || false
+      }
+    }, req);
   } catch (error) {
     console.error('Error creating punishment audit log:', error);
     // Fallback to basic system log
     await createSystemLog(serverDbConnection, serverName, `Error logging punishment audit for ${punishmentData.punishmentId}`, 'error', 'system');
   }
 }
-import { verifyMinecraftApiKey } from '../middleware/api-auth';
+import { verifyMinecraftApiKey, requireApiKeyScope } from '../middleware/api-auth';
+import { expireStaleServers, markPlayerOffServer, markPlayerOnServer, resolveSourceServer, syncServerPresence } from '../services/player-presence-service';
+import { createPunishmentRecord, findPlayerPunishments, findPunishmentsByPlayer, getPunishmentModel, PunishmentDocument } from '../services/punishment-store-service';
+import { createIpEntry, recordLoginEvent, touchIpEntry } from '../services/login-history-service';
+import { calculatePlayerStatus } from '../utils/player-status-calculator';
+import { createTicketAccessToken, getTicketUrl } from '../services/ticket-access-service';
+import { findTicketCategory, generateTicketId, getTicketCategories } from '../services/ticket-category-service';
+import { queueTicketAssignment } from '../services/ticket-queue-service';
+import { queueTicketRules } from '../services/ticket-rule-service';
+import { getTicketStatus, setTicketStatus } from '../services/ticket-status-service';
 import { IIPAddress, IModification, INote, IPunishment, IPlayer, ITicket, IUsername } from 'modl-shared-web/types';
 
 // Import getUserPermissions from permission middleware
@@ -208,69 +266,6 @@ function setPunishmentData(punishment: IPunishment, key: string, value: any): vo
   }
 }
 
-/**
- * Calculate player status based on active punishment points (matching panel logic)
- */
-function calculatePlayerStatus(
-  punishments: IPunishment[],
-  punishmentTypes: any[],
-  thresholds: { social: { medium: number; habitual: number }, gameplay: { medium: number; habitual: number } }
-): { social: string; gameplay: string; socialPoints: number; gameplayPoints: number } {
-  let socialPoints = 0;
-  let gameplayPoints = 0;
-
-  // Calculate points from active punishments
-  for (const punishment of punishments) {
-    const isActive = isPunishmentActive(punishment);
-    if (!isActive) continue;
-
-    const punishmentType = punishmentTypes.find((pt: any) => pt.ordinal === punishment.type_ordinal);
-    if (!punishmentType) continue;
-
-    let points = 0;
-    const severity = getPunishmentData(punishment, 'severity')?.toLowerCase();
-    
-    if (punishmentType.customPoints !== undefined) {
-      points = punishmentType.customPoints;
-    } else if (punishmentType.singleSeverityPoints !== undefined) {
-      points = punishmentType.singleSeverityPoints;
-    } else if (punishmentType.points && severity) {
-      switch (severity) {
-        case 'low': case 'lenient':
-          points = punishmentType.points.low || 0;
-          break;
-        case 'regular': case 'medium':
-          points = punishmentType.points.regular || 0;
-          break;
-        case 'severe': case 'aggravated': case 'high':
-          points = punishmentType.points.severe || 0;
-          break;
-      }
-    }
-
-    // Add points to category
-    if (punishmentType.category === 'Social') {
-      socialPoints += points;
-    } else if (punishmentType.category === 'Gameplay') {
-      gameplayPoints += points;
-    }
-  }
-
-  // Determine status level based on thresholds
-  const getStatusLevel = (points: number, threshold: { medium: number; habitual: number }) => {
-    if (points >= threshold.habitual) return 'Habitual';
-    else if (points >= threshold.medium) return 'Medium';
-    else return 'Low';
-  };
-
-  return {
-    social: getStatusLevel(socialPoints, thresholds.social),
-    gameplay: getStatusLevel(gameplayPoints, thresholds.gameplay),
-    socialPoints,
-    gameplayPoints
-  };
-}
-
 /**
  * Check if a punishment is currently active (matching panel logic)
  */
@@ -451,6 +446,49 @@ function calculateExpiration(punishment: IPunishment): number | null {
   return nowTime + Number(duration);
 }
 
+/**
+ * Login response for a connection denied by a network ban or connection policy. The denial
+ * is also sent as an active ban so the plugin disconnects the player with the message.
+ */
+function buildDeniedLoginResponse(
+  denyMessage: string,
+  id: string,
+  expires: Date | null,
+  reasons: IConnectionAttemptReason[]
+) {
+  return {
+    status: 200,
+    allowed: false,
+    denyMessage,
+    activePunishments: [{
+      type: 'BAN',
+      started: true,
+      expiration: expires ? expires.getTime() : null,
+      description: denyMessage,
+      id
+    }],
+    pendingNotifications: [],
+    connectionPolicy: { action: 'deny', message: denyMessage, reasons }
+  };
+}
+
+/**
+ * Latest username of each player, keyed by UUID
+ */
+async function getLatestUsernames(dbConnection: Connection, minecraftUuids: string[]): Promise<Map<string, string>> {
+  const uniqueUuids = Array.from(new Set(minecraftUuids));
+  if (uniqueUuids.length === 0) return new Map();
+
+  const players = await dbConnection.model<IPlayer>('Player')
+    .find({ minecraftUuid: { $in: uniqueUuids } })
+    .select('minecraftUuid usernames')
+    .lean<IPlayer[]>();
+  return new Map(players.map(player => [
+    player.minecraftUuid,
+    player.usernames[player.usernames.length - 1]?.username || 'Unknown'
+  ]));
+}
+
 /**
  * Get and clear pending notifications for a player
  * Returns the notifications and removes them from the player's pendingNotifications array
@@ -495,146 +533,6 @@ async function getAndClearPlayerNotifications(
   }
 }
 
-/**
- * Find and link accounts by IP addresses
- * Links accounts that share IP addresses, considering proxy detection and timing
- * @param dbConnection Database connection
- * @param ipAddresses Array of IP addresses to check for linking
- * @param currentPlayerUuid UUID of the current player (to avoid self-linking)
- * @param serverName Server name for logging
- */
-async function findAndLinkAccounts(
-  dbConnection: Connection,
-  ipAddresses: string[],
-  currentPlayerUuid: string,
-  serverName: string
-): Promise<void> {
-  try {
-    const Player = dbConnection.model<IPlayer>('Player');
-    
-    if (!ipAddresses || ipAddresses.length === 0) {
-      return;
-    }
-
-    
-    // Find all players that have used any of these IP addresses
-    const potentialLinkedPlayers = await Player.find({
-      minecraftUuid: { $ne: currentPlayerUuid }, // Exclude current player
-      'ipList.ipAddress': { $in: ipAddresses }
-    }).lean<IPlayer[]>();
-
-    const currentPlayer = await Player.findOne({ minecraftUuid: currentPlayerUuid });
-    if (!currentPlayer) {
-      console.error(`[Account Linking] Current player ${currentPlayerUuid} not found`);
-      return;
-    }
-
-    const linkedAccounts: string[] = [];
-
-    for (const player of potentialLinkedPlayers) {
-      let shouldLink = false;
-      const matchingIPs: string[] = [];
-
-      // Check each IP address for linking criteria
-      for (const ipAddress of ipAddresses) {
-        const playerIpEntry = player.ipList?.find((ip: IIPAddress) => ip.ipAddress === ipAddress);
-        const currentPlayerIpEntry = currentPlayer.ipList?.find((ip: IIPAddress) => ip.ipAddress === ipAddress);
-        
-        if (playerIpEntry && currentPlayerIpEntry) {
-          // Both players have used this IP
-          const isProxy = playerIpEntry.proxy || currentPlayerIpEntry.proxy;
-          
-          if (!isProxy) {
-            // Non-proxy IP - always link
-            shouldLink = true;
-            matchingIPs.push(ipAddress);
-          } else {
-            // Proxy IP - only link if used within 6 hours of each other
-            const playerLastLogin = playerIpEntry.logins && playerIpEntry.logins.length > 0 
-              ? new Date(Math.max(...playerIpEntry.logins.map((d: any) => new Date(d).getTime())))
-              : playerIpEntry.firstLogin;
-            
-            const currentPlayerLastLogin = currentPlayerIpEntry.logins && currentPlayerIpEntry.logins.length > 0
-              ? new Date(Math.max(...currentPlayerIpEntry.logins.map((d: any) => new Date(d).getTime())))
-              : currentPlayerIpEntry.firstLogin;
-
-            if (playerLastLogin && currentPlayerLastLogin) {
-              const timeDiff = Math.abs(playerLastLogin.getTime() - currentPlayerLastLogin.getTime());
-              const sixHours = 6 * 60 * 60 * 1000;
-              
-              if (timeDiff <= sixHours) {
-                shouldLink = true;
-                matchingIPs.push(`${ipAddress} (proxy, within 6h)`);
-              }
-            }
-          }
-        }
-      }
-
-      if (shouldLink) {
-        linkedAccounts.push(player.minecraftUuid);
-        
-        // Update both players' linked accounts
-        await updatePlayerLinkedAccounts(dbConnection, currentPlayer.minecraftUuid, player.minecraftUuid);
-        await updatePlayerLinkedAccounts(dbConnection, player.minecraftUuid, currentPlayer.minecraftUuid);
-        
-        
-        // Create system log
-        await createSystemLog(
-          dbConnection,
-          serverName,
-          `Account linking detected: ${currentPlayer.usernames[0]?.username || 'Unknown'} (${currentPlayer.minecraftUuid}) linked to ${player.usernames[0]?.username || 'Unknown'} (${player.minecraftUuid}) via shared IPs: ${matchingIPs.join(', ')}`,
-          'info',
-          'account-linking'
-        );
-      }
-    }
-
-    // Account linking completed
-  } catch (error) {
-    console.error(`[Account Linking] Error finding linked accounts:`, error);
-  }
-}
-
-/**
- * Update a player's linked accounts list
- * @param dbConnection Database connection
- * @param playerUuid Player to update
- * @param linkedUuid Account to link
- */
-async function updatePlayerLinkedAccounts(
-  dbConnection: Connection,
-  playerUuid: string,
-  linkedUuid: string
-): Promise<void> {
-  try {
-    const Player = dbConnection.model<IPlayer>('Player');
-    
-    const player = await Player.findOne({ minecraftUuid: playerUuid });
-    if (!player) {
-      return;
-    }
-
-    // Initialize linkedAccounts if it doesn't exist
-    if (!player.data) {
-      player.data = new Map<string, any>();
-    }
-    
-    const existingLinkedAccounts = player.data.get('linkedAccounts') || [];
-    
-    // Only add if not already linked
-    if (!existingLinkedAccounts.includes(linkedUuid)) {
-      existingLinkedAccounts.push(linkedUuid);
-      player.data.set('linkedAccounts', existingLinkedAccounts);
-      player.data.set('lastLinkedAccountUpdate', new Date());
-      await player.save({ validateBeforeSave: false });
-      
-    }
-  } catch (error) {
-    console.error(`[Account Linking] Error updating player linked accounts:`, error);
-  }
-}
-
 /**
  * Check if an IP address is new for a player
  * @param player Player object
@@ -670,13 +568,16 @@ async function checkAndIssueLinkedBans(
       return;
     }
 
-    const linkedAccountUuids = player.data?.get('linkedAccounts') || [];
+    // Only act on accounts linked confidently enough to ban
+    const { linkedBanMinConfidence } = await getAltDetectionSettings(dbConnection);
+    const linkedAccountUuids = await getLinkedAccountUuids(dbConnection, playerUuid, linkedBanMinConfidence);
     if (linkedAccountUuids.length === 0) {
       return;
     }
 
 
     // Check each linked account for active alt-blocking bans
+    const linkedPunishments = await findPunishmentsByPlayer(dbConnection, linkedAccountUuids, { 'data.altBlocking': true });
     for (const linkedUuid of linkedAccountUuids) {
       const linkedPlayer = await Player.findOne({ minecraftUuid: linkedUuid });
       if (!linkedPlayer) {
@@ -685,7 +586,7 @@ async function checkAndIssueLinkedBans(
       }
 
       // Find active alt-blocking bans in linked account
-      const activeAltBlockingBans = linkedPlayer.punishments.filter((punishment: IPunishment) => {
+      const activeAltBlockingBans = (linkedPunishments.get(linkedUuid) || []).filter((punishment: IPunishment) => {
         // Must be a ban
         if (!isBanPunishment(punishment, punishmentTypeConfig)) {
           return false;
@@ -734,9 +635,9 @@ async function issueLinkedBan(
 ): Promise<void> {
   try {
     // Check if player already has a linked ban for this source punishment
-    const existingLinkedBan = targetPlayer.punishments.find((punishment: IPunishment) => {
-      const linkedBanId = getPunishmentData(punishment, 'linkedBanId');
-      return linkedBanId === sourceAltBlockingBan.id;
+    const existingLinkedBan = await getPunishmentModel(dbConnection).exists({
+      minecraftUuid: targetPlayer.minecraftUuid,
+      'data.linkedBanId': sourceAltBlockingBan.id
     });
 
     if (existingLinkedBan) {
@@ -785,8 +686,7 @@ async function issueLinkedBan(
     };
 
     // Add linked ban to target player
-    targetPlayer.punishments.push(linkedBanPunishment);
-    await targetPlayer.save();
+    await createPunishmentRecord(dbConnection, targetPlayer.minecraftUuid, linkedBanPunishment);
 
     // Create system log
     await createSystemLog(
@@ -947,19 +847,14 @@ async function checkAndProcessAutoUnbans(
     }
 
     // Find active punishments that should be auto-unbanned
-    const punishmentsToUnban: IPunishment[] = [];
+    const punishmentsToUnban: PunishmentDocument[] = [];
+    const startedPunishments = await getPunishmentModel(serverDbConnection).find({
+      minecraftUuid: player.minecraftUuid,
+      started: { $ne: null },
+      'data.active': { $ne: false }
+    });
     
-    for (const punishment of player.punishments) {
-      // Skip if punishment is already inactive
-      if (getPunishmentData(punishment, 'active') === false) {
-        continue;
-      }
-      
-      // Skip if punishment hasn't been started
-      if (!punishment.started) {
-        continue;
-      }
-      
+    for (const punishment of startedPunishments) {
       const punishmentTypeId = punishment.type_ordinal;
       
       // Check username change unbans
@@ -981,6 +876,7 @@ async function checkAndProcessAutoUnbans(
         
         // Set unban timestamp
         punishment.unbanned = new Date();
+        await punishment.save();
         
         // Create a log entry for the auto-unban
         const punishmentTypeId = punishment.type_ordinal;
@@ -1029,12 +925,14 @@ export function setupMinecraftRoutes(app: Express): void {
 
   /**
    * Player login
+   * - Deny connections from networks with an IP, CIDR or ASN ban
+   * - Apply country, network and proxy connection policies
    * - Update player's last_connect
    * - Update player's IP list
    * - Check for ban evasion
    * - Start inactive bans or return active punishments
    */
-  app.post('/api/minecraft/player/login', async (req: Request, res: Response) => {
+  app.post('/api/minecraft/player/login', requireApiKeyScope('minecraft:sync'), async (req: Request, res: Response) => {
     const { minecraftUuid, username, ipAddress, skinHash, ipInfo, serverName: requestServerName } = req.body;
     const serverDbConnection = req.serverDbConnection!;
     const serverName = req.serverName!;
@@ -1046,13 +944,60 @@ export function setupMinecraftRoutes(app: Express): void {
       
       let player = await Player.findOne({ minecraftUuid });
 
+      // Access is decided on the IP list entry of the address, looked up when the IP is new
+      const knownIp = player?.ipList.find((ip: IIPAddress) => ip.ipAddress === ipAddress);
+      const ipDetails = ipAddress
+        ? (knownIp || toIpListFields(await lookupIpIntelligence(serverDbConnection, ipAddress, ipInfo)))
+        : null;
+      const connectionContext: ConnectionContext = {
+        minecraftUuid,
+        username,
+        ipAddress,
+        ip: ipDetails,
+        firstJoin: player?.data?.get('firstJoin') ?? null
+      };
+
+      // Network bans and connection policies deny the connection before the player record is touched
+      const networkBan = ipAddress ? await findNetworkBan(serverDbConnection, minecraftUuid, ipAddress, ipDetails) : null;
+      if (networkBan) {
+        await recordNetworkBanHit(serverDbConnection, networkBan);
+        const denyMessage = formatNetworkBanMessage(await getNetworkBanSettings(serverDbConnection), networkBan);
+        const reasons: IConnectionAttemptReason[] = [{
+          source: 'network_ban',
+          id: networkBan._id.toString(),
+          name: networkBan.value,
+          action: 'deny',
+          detail: networkBan.reason || `Network ${networkBan.value} is banned`
+        }];
+        await recordConnectionAttempt(serverDbConnection, serverName, connectionContext, 'denied', reasons);
+        await createSystemLog(serverDbConnection, serverName, `Login of ${username} (${minecraftUuid}) from ${ipAddress} denied by network ban on ${networkBan.value}`, 'moderation', 'system-login');
+
+        return res.status(200).json(
+          buildDeniedLoginResponse(denyMessage, `network-${networkBan._id.toString()}`, networkBan.expires, reasons)
+        );
+      }
+
+      const policyDecision = await evaluateConnectionPolicies(serverDbConnection, connectionContext);
+      if (policyDecision.action === 'deny') {
+        const [denyingPolicy] = policyDecision.reasons.filter(reason => reason.action !== 'alert');
+        await recordConnectionAttempt(serverDbConnection, serverName, connectionContext, 'denied', policyDecision.reasons);
+        await createSystemLog(serverDbConnection, serverName, `Login of ${username} (${minecraftUuid}) from ${ipAddress} denied by connection policy "${denyingPolicy.name}": ${denyingPolicy.detail}`, 'moderation', 'system-login');
+
+        return res.status(200).json(
+          buildDeniedLoginResponse(policyDecision.message!, `policy-${denyingPolicy.id}`, null, policyDecision.reasons)
+        );
+      }
+      if (policyDecision.action === 'alert') {
+        await recordConnectionAttempt(serverDbConnection, serverName, connectionContext, 'alerted', policyDecision.reasons);
+      }
+
       if (player) {
         // Update last connect and IP list for existing player
         player.data = player.data || new Map<string, any>();
         player.data.set('lastConnect', new Date());
         
         // Update last server and session tracking
-        const currentServer = requestServerName || serverName;
+        const currentServer = resolveSourceServer(requestServerName, serverName);
         player.data.set('lastServer', currentServer);
         player.data.set('isOnline', true);
         
@@ -1070,22 +1015,12 @@ export function setupMinecraftRoutes(app: Express): void {
         // Start new session
         player.data.set('currentSessionStart', new Date());
 
-        const existingIp = player.ipList.find((ip: IIPAddress) => ip.ipAddress === ipAddress);
-        const isNewIP = !existingIp;
+        const isNewIP = !knownIp;
         
-        if (existingIp) {
-          existingIp.logins.push(new Date());
-        } else if (ipInfo) { // Only add if ipInfo is available
-          player.ipList.push({
-            ipAddress,
-            country: ipInfo.countryCode || 'Unknown',
-            region: ipInfo.regionName && ipInfo.city ? `${ipInfo.regionName}, ${ipInfo.city}` : (ipInfo.regionName || ipInfo.city || 'Unknown'),
-            asn: ipInfo.as || 'Unknown',
-            proxy: ipInfo.proxy || ipInfo.hosting || false, // Assuming proxy/hosting indicates VPN/proxy
-            hosting: ipInfo.hosting || false,
-            firstLogin: new Date(),
-            logins: [new Date()]
-          });
+        if (knownIp) {
+          touchIpEntry(knownIp);
+        } else if (ipAddress && ipDetails) {
+          player.ipList.push(createIpEntry(ipAddress, ipDetails) as IIPAddress);
         }
 
         // Update username list if it's a new username (similar to Java code handling username)
@@ -1110,12 +1045,17 @@ export function setupMinecraftRoutes(app: Express): void {
         // Don't auto-start punishments on login - they should only be started when server acknowledges
 
         await player.save({ validateBeforeSave: false });
+        if (ipAddress) {
+          await recordLoginEvent(serverDbConnection, { minecraftUuid, username, ipAddress, server: currentServer });
+        }
+        await markPlayerOnServer(serverDbConnection, minecraftUuid, currentServer, new Date(), { username, ipAddress: ipAddress || null });
+        publishEvent(serverName, 'players', 'player.joined', { minecraftUuid, server: currentServer });
         
         // Check for linked accounts if this is a new IP address
         if (isNewIP && ipAddress) {
           // Run account linking asynchronously to avoid blocking login
           setImmediate(() => {
-            findAndLinkAccounts(serverDbConnection, [ipAddress], minecraftUuid, serverName)
+            detectAccountLinks(serverDbConnection, serverName, minecraftUuid, [ipAddress])
               .then(() => {
                 // After linking accounts, check for linked bans
                 return checkAndIssueLinkedBans(serverDbConnection, minecraftUuid, serverName);
@@ -1126,34 +1066,19 @@ export function setupMinecraftRoutes(app: Express): void {
           });
         }
       } else {
-        // For new players, we need to get the IP information
-        if (!ipInfo) {
-          console.warn(`No IP info for new player ${username} (${minecraftUuid}) at IP ${ipAddress}. Skipping IP-based checks.`);
-          // Decide if you want to allow login without IP info or return an error
-        }
-
         // Create a new player (similar to Java code: account = new Account(...))
         player = new Player({
           _id: uuidv4(),
           minecraftUuid,
           usernames: [{ username, date: new Date() } as IUsername],
           notes: [] as INote[],
-          ipList: ipInfo ? [{ // Only add IP if ipInfo is available
-            ipAddress,
-            country: ipInfo.countryCode || 'Unknown',
-            region: ipInfo.regionName && ipInfo.city ? `${ipInfo.regionName}, ${ipInfo.city}` : (ipInfo.regionName || ipInfo.city || 'Unknown'),
-            asn: ipInfo.as || 'Unknown',
-            proxy: ipInfo.proxy || ipInfo.hosting || false,
-            hosting: ipInfo.hosting || false,
-            firstLogin: new Date(),
-            logins: [new Date()]
-          } as IIPAddress] : [] as IIPAddress[],
+          ipList: ipAddress && ipDetails ? [createIpEntry(ipAddress, ipDetails) as IIPAddress] : [] as IIPAddress[],
           punishments: [] as IPunishment[],
           pendingNotifications: [] as string[],
           data: new Map<string, any>([
             ['firstJoin', new Date()],
             ['lastConnect', new Date()],
-            ['lastServer', requestServerName || serverName],
+            ['lastServer', resolveSourceServer(requestServerName, serverName)],
             ['isOnline', true],
             ['currentSessionStart', new Date()],
             ['totalPlaytime', 0]
@@ -1162,13 +1087,19 @@ export function setupMinecraftRoutes(app: Express): void {
 
 
         await player.save({ validateBeforeSave: false });
+        const joinedServer = resolveSourceServer(requestServerName, serverName);
+        if (ipAddress) {
+          await recordLoginEvent(serverDbConnection, { minecraftUuid, username, ipAddress, server: joinedServer });
+        }
+        await markPlayerOnServer(serverDbConnection, minecraftUuid, joinedServer, new Date(), { username, ipAddress: ipAddress || null });
+        publishEvent(serverName, 'players', 'player.joined', { minecraftUuid, server: joinedServer, isNew: true });
         await createSystemLog(serverDbConnection, serverName, `New player ${username} (${minecraftUuid}) registered`, 'info', 'system-login');
         
         // Check for linked accounts for new players
         if (ipAddress) {
           // Run account linking asynchronously to avoid blocking login
           setImmediate(() => {
-            findAndLinkAccounts(serverDbConnection, [ipAddress], minecraftUuid, serverName)
+            detectAccountLinks(serverDbConnection, serverName, minecraftUuid, [ipAddress])
               .then(() => {
                 // After linking accounts, check for linked bans
                 return checkAndIssueLinkedBans(serverDbConnection, minecraftUuid, serverName);
@@ -1183,7 +1114,8 @@ export function setupMinecraftRoutes(app: Express): void {
       // Include:
       // 1. Started punishments that are still active
       // 2. Unstarted punishments that are valid (for immediate execution)
-      const startedActivePunishments = player.punishments.filter((punishment: IPunishment) => {
+      const playerPunishments = await findPlayerPunishments(serverDbConnection, minecraftUuid);
+      const startedActivePunishments = playerPunishments.filter((punishment: IPunishment) => {
         // Must be started
         if (!punishment.started || punishment.started === null || punishment.started === undefined) return false;
         
@@ -1209,7 +1141,7 @@ export function setupMinecraftRoutes(app: Express): void {
       });
 
       // Get valid unstarted punishments (for immediate execution by server)
-      const unstartedValidPunishments = player.punishments
+      const unstartedValidPunishments = playerPunishments
         .filter((p: IPunishment) => (!p.started || p.started === null || p.started === undefined) && isPunishmentValid(p))
         .sort((a: IPunishment, b: IPunishment) => new Date(a.issued).getTime() - new Date(b.issued).getTime());
 
@@ -1243,8 +1175,11 @@ export function setupMinecraftRoutes(app: Express): void {
 
       return res.status(200).json({
         status: 200,
+        allowed: true,
         activePunishments: formattedPunishments,
         pendingNotifications: pendingNotifications,
+        // 'alert' asks the plugin to notify online staff with the message
+        connectionPolicy: policyDecision,
       });
     } catch (error: any) {
       console.error('Error in player login:', error);
@@ -1261,10 +1196,11 @@ export function setupMinecraftRoutes(app: Express): void {
 
   /**
    * Player disconnect
-   * - Update player's last_disconnect to current time
+   * - Remove the player from the reporting server
+   * - Update player's last_disconnect to current time once they left every server
    */
-  app.post('/api/minecraft/player/disconnect', async (req: Request, res: Response) => {
-    const { minecraftUuid } = req.body;
+  app.post('/api/minecraft/player/disconnect', requireApiKeyScope('minecraft:sync'), async (req: Request, res: Response) => {
+    const { minecraftUuid, serverName: requestServerName } = req.body;
     const serverDbConnection = req.serverDbConnection!;
     const serverName = req.serverName!;
     const Player = serverDbConnection.model<IPlayer>('Player');
@@ -1275,6 +1211,18 @@ export function setupMinecraftRoutes(app: Express): void {
         return res.status(404).json({ status: 404, message: 'Player not found' });
       }
 
+      const sourceServer = resolveSourceServer(requestServerName, serverName);
+      const { stillOnline, remainingServers } = await markPlayerOffServer(serverDbConnection, minecraftUuid, sourceServer);
+      publishEvent(serverName, 'players', 'player.left', { minecraftUuid, server: sourceServer, stillOnline, currentServers: remainingServers });
+      if (stillOnline) {
+        // Server switch on a network - the player is still connected elsewhere
+        return res.status(200).json({
+          status: 200,
+          message: `Player left ${sourceServer}`,
+          currentServers: remainingServers
+        });
+      }
+
       player.data = player.data || new Map<string, any>();
       player.data.set('lastDisconnect', new Date());
       player.data.set('isOnline', false);
@@ -1315,7 +1263,7 @@ export function setupMinecraftRoutes(app: Express): void {
    * Create ticket
    * - Create a new ticket
    */
-  app.post('/api/minecraft/ticket/create', async (req: Request, res: Response) => {
+  app.post('/api/minecraft/ticket/create', requireApiKeyScope('tickets:create'), async (req: Request, res: Response) => {
     const { creatorUuid, creatorUsername, type, subject, reportedPlayerUuid, reportedPlayerUsername, chatMessages, formData } = req.body;
     const serverDbConnection = req.serverDbConnection!;
     const serverName = req.serverName!;
@@ -1329,8 +1277,16 @@ export function setupMinecraftRoutes(app: Express): void {
         return res.status(400).json({ status: 400, message: 'Ticket creator not found.' });
       }
       
-      // Generate a unique ticket ID (example format, adjust as needed)
-      const ticketId = `${type.toUpperCase()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
+      const categories = await getTicketCategories(serverDbConnection);
+      const category = findTicketCategory(categories, type);
+      if (!category) {
+        return res.status(400).json({ status: 400, message: `Invalid ticket type. Must be one of: ${categories.map(c => c.id).join(', ')}` });
+      }
+      if (category.targetsPlayer && !reportedPlayerUuid && !reportedPlayerUsername) {
+        return res.status(400).json({ status: 400, message: `${category.name} tickets require the reported player.` });
+      }
+
+      const ticketId = await generateTicketId(serverDbConnection, category);
 
       // Build content string for initial message
       let contentString = '';
@@ -1420,7 +1376,7 @@ export function setupMinecraftRoutes(app: Express): void {
       // Prepare ticket data
       const ticketData = {
         _id: ticketId,
-        type,
+        type: category.id,
         subject,
         creator: creatorUsername,
         creatorUuid,
@@ -1428,13 +1384,11 @@ export function setupMinecraftRoutes(app: Express): void {
         reportedPlayerUuid,
         chatMessages: chatMessages || [],
         formData: formData || {},
-        status: 'Open', // Default status for new tickets
         created: new Date(),
         replies: [],
         notes: [],
-        tags: [],
-        locked: false,
-        data: new Map<string, any>()
+        tags: category.defaultTags,
+        data: new Map<string, any>(category.defaultPriority ? [['priority', category.defaultPriority]] : [])
       };
 
       // Add initial message if there's content
@@ -1450,14 +1404,35 @@ export function setupMinecraftRoutes(app: Express): void {
       }
 
       const newTicket = new Ticket(ticketData);
+      setTicketStatus(newTicket, 'New', creatorUsername);
 
       await newTicket.save();
+      const accessToken = await createTicketAccessToken(serverDbConnection, ticketId);
       await createSystemLog(serverDbConnection, serverName, `New ticket ${ticketId} created by ${creatorUsername} (${creatorUuid}). Type: ${type}.`, 'info', 'minecraft-api');
+      publishEvent(serverName, 'tickets', 'ticket.created', { ticketId, type, status: 'New' });
+      queueTicketAssignment(serverDbConnection, serverName, ticketId, category.id);
+      queueTicketRules(serverDbConnection, serverName, ticketId, [{ trigger: 'ticket.created' }]);
+      triggerWebhookEvent(serverDbConnection, serverName, 'ticket.created', {
+        ticketId,
+        type,
+        subject,
+        creator: creatorUsername,
+        reportedPlayer: reportedPlayerUsername
+      });
+      await recordAuditEvent(serverDbConnection, serverName, {
+        action: 'ticket.created',
+        summary: `Ticket ${ticketId} (${type}) created by ${creatorUsername}`,
+        target: { type: 'ticket', id: ticketId, name: subject },
+        after: newTicket,
+        metadata: { creator: creatorUsername, creatorUuid, reportedPlayer: reportedPlayerUsername }
+      }, req);
 
       return res.status(201).json({
         status: 201,
         message: 'Ticket created successfully',
-        ticketId: newTicket._id
+        ticketId: newTicket._id,
+        accessToken,
+        ticketUrl: getTicketUrl(serverName, ticketId, accessToken)
       });
     } catch (error: any) {
       console.error('Error creating ticket:', error);
@@ -1473,7 +1448,7 @@ export function setupMinecraftRoutes(app: Express): void {
    * Create punishment
    * - Create a new punishment and update player profile
    */
-  app.post('/api/minecraft/punishment/create', async (req: Request, res: Response) => {
+  app.post('/api/minecraft/punishment/create', requireApiKeyScope('punishments:write'), async (req: Request, res: Response) => {
     const { targetUuid, issuerName, type, type_ordinal, reason, duration, data, notes, attachedTicketIds } = req.body;
     const serverDbConnection = req.serverDbConnection!;
     const serverName = req.serverName!;
@@ -1530,8 +1505,7 @@ export function setupMinecraftRoutes(app: Express): void {
         data: newPunishmentData
       };
 
-      player.punishments.push(newPunishment);
-      await player.save({ validateBeforeSave: false });
+      await createPunishmentRecord(serverDbConnection, player.minecraftUuid, newPunishment);
       
       // Create enhanced audit log
       await createPunishmentAuditLog(serverDbConnection, serverName, {
@@ -1543,6 +1517,22 @@ export function setupMinecraftRoutes(app: Express): void {
         reason,
         duration,
         isDynamic: false
+      }, newPunishment, req);
+
+      publishEvent(serverName, 'punishments', 'punishment.created', {
+        minecraftUuid: targetUuid,
+        punishmentId,
+        typeOrdinal: finalTypeOrdinal,
+        issuerName
+      });
+      triggerWebhookEvent(serverDbConnection, serverName, 'punishment.issued', {
+        punishmentId,
+        playerUuid: targetUuid,
+        playerName: player.usernames[0]?.username,
+        typeOrdinal: finalTypeOrdinal,
+        issuerName,
+        reason,
+        duration
       });
 
       return res.status(201).json({
@@ -1564,7 +1554,7 @@ export function setupMinecraftRoutes(app: Express): void {
    * Create player note
    * - Add a note to the player's profile
    */
-  app.post('/api/minecraft/player/note/create', async (req: Request, res: Response) => {
+  app.post('/api/minecraft/player/note/create', requireApiKeyScope('players:write'), async (req: Request, res: Response) => {
     const { targetUuid, issuerName, text } = req.body;
     const serverDbConnection = req.serverDbConnection!;
     const serverName = req.serverName!;
@@ -1586,6 +1576,12 @@ export function setupMinecraftRoutes(app: Express): void {
       player.notes.push(newNote);
       await player.save({ validateBeforeSave: false });
       await createSystemLog(serverDbConnection, serverName, `Note added to player ${player.usernames[0].username} (${targetUuid}) by ${issuerName}.`, 'info', 'minecraft-api');
+      await recordAuditEvent(serverDbConnection, serverName, {
+        action: 'player.note_added',
+        summary: `Note added to ${player.usernames[0].username} by ${issuerName}`,
+        target: { type: 'player', id: targetUuid, name: player.usernames[0].username },
+        after: newNote
+      }, req);
 
       return res.status(201).json({ status: 201, message: 'Note created successfully' });
     } catch (error: any) {
@@ -1602,7 +1598,7 @@ export function setupMinecraftRoutes(app: Express): void {
    * Get player profile
    * - Get player information including punishments and notes
    */
-  app.get('/api/minecraft/player', async (req: Request, res: Response) => {
+  app.get('/api/minecraft/player', requireApiKeyScope('players:read'), async (req: Request, res: Response) => {
     const { minecraftUuid } = req.query;
     const serverDbConnection = req.serverDbConnection!;
     const Player = serverDbConnection.model<IPlayer>('Player');
@@ -1619,12 +1615,13 @@ export function setupMinecraftRoutes(app: Express): void {
       if (!player) {
         return res.status(404).json({ status: 404, message: 'Player not found' });
       }
+      const punishments = await findPlayerPunishments(serverDbConnection, minecraftUuid);
       const responsePlayer = {
         ...player,
-        punishments: player.punishments ? player.punishments.map((p: IPunishment) => ({
+        punishments: punishments.map((p: IPunishment) => ({
           ...p,
           type: getPunishmentType(p, punishmentTypeConfig),
-        })) : [],
+        })),
       };
       return res.status(200).json({ status: 200, player: responsePlayer });
     } catch (error: any) {
@@ -1640,7 +1637,7 @@ export function setupMinecraftRoutes(app: Express): void {
    * Get linked accounts
    * - Find accounts linked by IP addresses
    */
-  app.get('/api/minecraft/player/linked', async (req: Request, res: Response) => {
+  app.get('/api/minecraft/player/linked', requireApiKeyScope('players:read'), async (req: Request, res: Response) => {
     const { minecraftUuid } = req.query;
     const serverDbConnection = req.serverDbConnection!;
     const Player = serverDbConnection.model<IPlayer>('Player');
@@ -1658,37 +1655,31 @@ export function setupMinecraftRoutes(app: Express): void {
         return res.status(200).json({ status: 200, linkedAccounts: [] });
       }
 
-      const linkedAccountUuids = new Set<string>();
-
-      // Method 1: Get linked accounts from stored data (new system)
-      const storedLinkedAccounts = player.data?.get ? player.data.get('linkedAccounts') : player.data?.linkedAccounts;
-      if (storedLinkedAccounts && Array.isArray(storedLinkedAccounts)) {
-        storedLinkedAccounts.forEach((uuid: string) => linkedAccountUuids.add(uuid));
-      }
-
-      // Method 2: Get linked accounts by IP addresses (legacy/fallback system)
-      if (player.ipList && player.ipList.length > 0) {
-        const playerIps = player.ipList.map((ip: IIPAddress) => ip.ipAddress);
-        const ipLinkedPlayers = await Player.find({
-          minecraftUuid: { $ne: minecraftUuid },
-          'ipList.ipAddress': { $in: playerIps }
-        }).select('minecraftUuid').lean();
-        
-        ipLinkedPlayers.forEach((p: any) => linkedAccountUuids.add(p.minecraftUuid));
-      }
+      // Linked accounts from the account link graph, rejected and weak links are left out
+      const { minLinkConfidence } = await getAltDetectionSettings(serverDbConnection);
+      const links = (await getPlayerLinks(serverDbConnection, minecraftUuid))
+        .filter(link => getLinkConfidence(link) >= minLinkConfidence);
 
-      if (linkedAccountUuids.size === 0) {
+      if (links.length === 0) {
         return res.status(200).json({ status: 200, linkedAccounts: [] });
       }
 
+      const confidenceByUuid = new Map(links.map(link => [getOtherPlayer(link, minecraftUuid), getLinkConfidence(link)]));
+
       // Get full player data for all linked accounts
       const linkedPlayers = await Player.find({
-        minecraftUuid: { $in: Array.from(linkedAccountUuids) }
-      }).select('minecraftUuid usernames punishments data').lean<IPlayer[]>();
+        minecraftUuid: { $in: Array.from(confidenceByUuid.keys()) }
+      }).select('minecraftUuid usernames data').lean<IPlayer[]>();
+      const linkedPunishments = await findPunishmentsByPlayer(
+        serverDbConnection,
+        linkedPlayers.map(acc => acc.minecraftUuid),
+        { started: { $ne: null } }
+      );
 
       const formattedLinkedAccounts = linkedPlayers.map((acc: IPlayer) => {
-        const activeBans = acc.punishments ? acc.punishments.filter((p: IPunishment) => isBanPunishment(p, punishmentTypeConfig) && isPunishmentActive(p, punishmentTypeConfig)).length : 0;
-        const activeMutes = acc.punishments ? acc.punishments.filter((p: IPunishment) => isMutePunishment(p, punishmentTypeConfig) && isPunishmentActive(p, punishmentTypeConfig)).length : 0;
+        const punishments = linkedPunishments.get(acc.minecraftUuid) || [];
+        const activeBans = punishments.filter((p: IPunishment) => isBanPunishment(p, punishmentTypeConfig) && isPunishmentActive(p, punishmentTypeConfig)).length;
+        const activeMutes = punishments.filter((p: IPunishment) => isMutePunishment(p, punishmentTypeConfig) && isPunishmentActive(p, punishmentTypeConfig)).length;
         const lastLinkedUpdate = acc.data?.get ? acc.data.get('lastLinkedAccountUpdate') : acc.data?.lastLinkedAccountUpdate;
         
         return {
@@ -1696,6 +1687,7 @@ export function setupMinecraftRoutes(app: Express): void {
           username: acc.usernames && acc.usernames.length > 0 ? acc.usernames[acc.usernames.length - 1].username : 'N/A',
           activeBans,
           activeMutes,
+          confidence: confidenceByUuid.get(acc.minecraftUuid) ?? 0,
           lastLinkedUpdate: lastLinkedUpdate || null
         };
       });
@@ -1714,7 +1706,7 @@ export function setupMinecraftRoutes(app: Express): void {
    * Get player profile by username
    * - Get player information by username (most recent player to use that username)
    */
-  app.get('/api/minecraft/player-name', async (req: Request, res: Response) => {
+  app.get('/api/minecraft/player-name', requireApiKeyScope('players:read'), async (req: Request, res: Response) => {
     const { username } = req.query;
     const serverDbConnection = req.serverDbConnection!;
     const Player = serverDbConnection.model<IPlayer>('Player');
@@ -1754,12 +1746,13 @@ export function setupMinecraftRoutes(app: Express): void {
         return res.status(404).json({ status: 404, message: 'Player not found' });
       }      
       
+      const punishments = await findPlayerPunishments(serverDbConnection, mostRecentPlayer.minecraftUuid);
       const responsePlayer = {
         ...mostRecentPlayer,
-        punishments: mostRecentPlayer.punishments ? mostRecentPlayer.punishments.map((p: IPunishment) => ({
+        punishments: punishments.map((p: IPunishment) => ({
           ...p,
           type: getPunishmentType(p, punishmentTypeConfig),
-        })) : [],
+        })),
       };
 
       return res.status(200).json({ status: 200, player: responsePlayer });
@@ -1779,8 +1772,8 @@ export function setupMinecraftRoutes(app: Express): void {
    * - Return new punishments since last sync
    * Called every 5 seconds by Minecraft server
    */
-  app.post('/api/minecraft/sync', async (req: Request, res: Response) => {
-    const { onlinePlayers, lastSyncTimestamp } = req.body;
+  app.post('/api/minecraft/sync', requireApiKeyScope('minecraft:sync'), async (req: Request, res: Response) => {
+    const { onlinePlayers, lastSyncTimestamp, serverName: requestServerName } = req.body;
     const serverDbConnection = req.serverDbConnection!;
     const serverName = req.serverName!;
     const Player = serverDbConnection.model<IPlayer>('Player');
@@ -1792,38 +1785,38 @@ export function setupMinecraftRoutes(app: Express): void {
       const now = new Date();
       const lastSync = lastSyncTimestamp ? new Date(lastSyncTimestamp) : new Date(now.getTime() - 24 * 60 * 60 * 1000); // Default to 24 hours ago if no timestamp
 
-      // 1. Update online status for all players
+      // 1. Update online status for players on the reporting server only
+      const sourceServer = resolveSourceServer(requestServerName, serverName);
       if (onlinePlayers && Array.isArray(onlinePlayers)) {
-        // Set all players to offline first
-        await Player.updateMany(
-          {},
-          { $set: { 'data.isOnline': false, 'data.lastSeen': now } }
-        );
+        const reportedUuids = onlinePlayers.map((p: any) => p.uuid || p.minecraftUuid).filter(Boolean);
+        await syncServerPresence(serverDbConnection, sourceServer, reportedUuids, now);
+      }
 
-        // Set online players to online
-        const onlineUuids = onlinePlayers.map((p: any) => p.uuid || p.minecraftUuid);
-        if (onlineUuids.length > 0) {
-          await Player.updateMany(
-            { minecraftUuid: { $in: onlineUuids } },
-            { $set: { 'data.isOnline': true, 'data.lastSeen': now } }
-          );
-        }
+      // Release players held by servers on the network that stopped syncing
+      const timedOutServers = await expireStaleServers(serverDbConnection, now);
+      if (timedOutServers.length > 0) {
+        await createSystemLog(serverDbConnection, serverName, `Servers timed out, players released: ${timedOutServers.join(', ')}`, 'info', 'minecraft-sync');
       }
+      publishEvent(serverName, 'players', 'presence.updated', {
+        server: sourceServer,
+        onlineCount: Array.isArray(onlinePlayers) ? onlinePlayers.length : 0,
+        timedOutServers
+      });
 
       // 2. Find pending punishments for online players specifically
       const onlineUuids = onlinePlayers ? onlinePlayers.map((p: any) => p.uuid || p.minecraftUuid) : [];
       const pendingPunishments: any[] = [];
 
       if (onlineUuids.length > 0) {
-        // Get online players with unstarted punishments or recently issued punishments
-        const onlinePlayersWithPendingPunishments = await Player.find({
-          minecraftUuid: { $in: onlineUuids },
-          $or: [
-            { 'punishments.started': null }, // Unstarted punishments (null)
-            { 'punishments.started': { $exists: false } }, // Unstarted punishments (missing field)
-            { 'punishments.issued': { $gte: lastSync } }    // Recently issued punishments
-          ]
-        }).lean();
+        // Get online players with unstarted punishments (null also matches a missing field)
+        const unstartedByPlayer = await findPunishmentsByPlayer(serverDbConnection, onlineUuids, { started: null });
+        const pendingUuids = onlineUuids.filter((uuid: string) => (unstartedByPlayer.get(uuid) || []).length > 0);
+        const onlinePlayersWithPendingPunishments = pendingUuids.length === 0 ? [] : (await Player.find({
+          minecraftUuid: { $in: pendingUuids }
+        }).select('minecraftUuid usernames').lean<IPlayer[]>()).map(player => ({
+          ...player,
+          punishments: unstartedByPlayer.get(player.minecraftUuid) || []
+        }));
 
         for (const player of onlinePlayersWithPendingPunishments) {
           // Get all valid unstarted punishments for this player, prioritizing recently issued ones
@@ -1900,59 +1893,28 @@ export function setupMinecraftRoutes(app: Express): void {
       }
 
       // 3. Find recently started punishments that need to be applied
-      const recentlyStartedPlayers = await Player.find({
-        'punishments.started': { $gte: lastSync }
-      }).lean();
-
-      const recentlyStartedPunishments: any[] = [];
-
-      for (const player of recentlyStartedPlayers) {
-        const recentlyStarted = player.punishments
-          .filter((p: IPunishment) => p.started && new Date(p.started) >= lastSync);
-
-        for (const punishment of recentlyStarted) {
-          const description = await getPunishmentDescription(punishment, serverDbConnection);
-          const punishmentType = getPunishmentType(punishment, punishmentTypeConfig);
-
-          recentlyStartedPunishments.push({
-            minecraftUuid: player.minecraftUuid,
-            username: player.usernames[player.usernames.length - 1]?.username || 'Unknown',
-            punishment: {
-              type: punishmentType,
-              started: true,
-              expiration: calculateExpiration(punishment),
-              description: description,
-              id: punishment.id
-            }
-          });
-        }
-      }
+      const Punishment = getPunishmentModel(serverDbConnection);
+      const recentlyStarted = await Punishment.find({
+        started: { $gte: lastSync }
+      }).lean<IPunishment[]>();
 
       // 4. Find recently modified punishments (pardons, duration changes, etc.)
-      const recentlyModifiedPunishments = await Player.aggregate([
-        {
-          $match: {
-            'punishments.modifications.issued': { $gte: lastSync }
-          }
-        },
-        {
-          $unwind: '$punishments'
-        },
+      const recentlyModified = await Punishment.aggregate([
         {
           $match: {
-            'punishments.modifications.issued': { $gte: lastSync }
+            'modifications.issued': { $gte: lastSync }
           }
         },
         {
           $project: {
+            _id: 0,
             minecraftUuid: 1,
-            username: { $arrayElemAt: ['$usernames.username', -1] },
             punishment: {
-              id: '$punishments.id',
-              type: '$punishments.type_ordinal',
+              id: '$id',
+              type: '$type_ordinal',
               modifications: {
                 $filter: {
-                  input: '$punishments.modifications',
+                  input: '$modifications',
                   cond: { $gte: ['$$this.issued', lastSync] }
                 }
               }
@@ -1961,27 +1923,54 @@ export function setupMinecraftRoutes(app: Express): void {
         }
       ]);
 
+      const usernames = await getLatestUsernames(serverDbConnection, [
+        ...recentlyStarted.map((punishment: any) => punishment.minecraftUuid),
+        ...recentlyModified.map(entry => entry.minecraftUuid)
+      ]);
+
+      const recentlyStartedPunishments: any[] = [];
+
+      for (const punishment of recentlyStarted) {
+        const description = await getPunishmentDescription(punishment, serverDbConnection);
+        const punishmentType = getPunishmentType(punishment, punishmentTypeConfig);
+
+        recentlyStartedPunishments.push({
+          minecraftUuid: (punishment as any).minecraftUuid,
+          username: usernames.get((punishment as any).minecraftUuid) || 'Unknown',
+          punishment: {
+            type: punishmentType,
+            started: true,
+            expiration: calculateExpiration(punishment),
+            description: description,
+            id: punishment.id
+          }
+        });
+      }
+
+      const recentlyModifiedPunishments = recentlyModified.map(entry => ({
+        ...entry,
+        username: usernames.get(entry.minecraftUuid) || 'Unknown'
+      }));
+
       // 5. Get server statistics
+      const activeRestriction = {
+        started: { $ne: null },
+        $or: [
+          { 'data.expires': { $exists: false } },
+          { 'data.expires': { $gt: now } }
+        ],
+        'data.active': { $ne: false }
+      };
       const stats = {
         totalPlayers: await Player.countDocuments({}),
         onlinePlayers: onlinePlayers ? onlinePlayers.length : 0,
-        activeBans: await Player.countDocuments({
-          'punishments.type_ordinal': { $in: [2, 3, 4, 5] }, // Manual Ban, Security Ban, Linked Ban, Blacklist
-          'punishments.started': { $exists: true },
-          $or: [
-            { 'punishments.data.expires': { $exists: false } },
-            { 'punishments.data.expires': { $gt: now } }
-          ],
-          'punishments.data.active': { $ne: false }
+        activeBans: await Punishment.countDocuments({
+          ...activeRestriction,
+          type_ordinal: { $in: [2, 3, 4, 5] } // Manual Ban, Security Ban, Linked Ban, Blacklist
         }),
-        activeMutes: await Player.countDocuments({
-          'punishments.type_ordinal': 1, // Manual Mute
-          'punishments.started': { $exists: true },
-          $or: [
-            { 'punishments.data.expires': { $exists: false } },
-            { 'punishments.data.expires': { $gt: now } }
-          ],
-          'punishments.data.active': { $ne: false }
+        activeMutes: await Punishment.countDocuments({
+          ...activeRestriction,
+          type_ordinal: 1 // Manual Mute
         })
       };
 
@@ -2027,6 +2016,7 @@ export function setupMinecraftRoutes(app: Express): void {
           playerNotifications,
           stats,
           serverStatus: {
+            serverName: sourceServer,
             lastSync: now.toISOString(),
             onlinePlayerCount: stats.onlinePlayers
           }
@@ -2047,7 +2037,7 @@ export function setupMinecraftRoutes(app: Express): void {
    * - Returns all staff members with their permissions
    * - Used on plugin startup and punishment type refresh
    */
-  app.get('/api/minecraft/staff-permissions', verifyMinecraftApiKey, async (req: Request, res: Response) => {
+  app.get('/api/minecraft/staff-permissions', requireApiKeyScope('minecraft:sync'), async (req: Request, res: Response) => {
     const serverDbConnection = req.serverDbConnection!;
     
     try {
@@ -2110,7 +2100,7 @@ export function setupMinecraftRoutes(app: Express): void {
    * Acknowledge notification delivery
    * - Remove notifications from player's pendingNotifications after delivery
    */
-  app.post('/api/minecraft/notification/acknowledge', async (req: Request, res: Response) => {
+  app.post('/api/minecraft/notification/acknowledge', requireApiKeyScope('minecraft:sync'), async (req: Request, res: Response) => {
     const { playerUuid, notificationIds, timestamp } = req.body;
     const serverDbConnection = req.serverDbConnection!;
     const serverName = req.serverName!;
@@ -2174,7 +2164,7 @@ export function setupMinecraftRoutes(app: Express): void {
     }
   });
 
-  app.post('/api/minecraft/punishment/acknowledge', async (req: Request, res: Response) => {
+  app.post('/api/minecraft/punishment/acknowledge', requireApiKeyScope('minecraft:sync'), async (req: Request, res: Response) => {
     const { punishmentId, playerUuid, executedAt, success, errorMessage } = req.body;
     const serverDbConnection = req.serverDbConnection!;
     const serverName = req.serverName!;
@@ -2186,7 +2176,7 @@ export function setupMinecraftRoutes(app: Express): void {
         return res.status(404).json({ status: 404, message: 'Player not found' });
       }
 
-      const punishment = player.punishments.find((p: IPunishment) => p.id === punishmentId);
+      const punishment = await getPunishmentModel(serverDbConnection).findOne({ minecraftUuid: playerUuid, id: punishmentId });
       if (!punishment) {
         return res.status(404).json({ status: 404, message: 'Punishment not found' });
       }
@@ -2227,13 +2217,19 @@ export function setupMinecraftRoutes(app: Express): void {
         setPunishmentData(punishment, 'executionAttemptedAt', new Date(executedAt || Date.now()));
       }
 
-      await player.save({ validateBeforeSave: false });
+      await punishment.save({ validateBeforeSave: false });
 
       const logMessage = success 
         ? `Punishment ${punishmentId} executed successfully on server for ${player.usernames[0]?.username} (${playerUuid})`
         : `Punishment ${punishmentId} execution failed for ${player.usernames[0]?.username} (${playerUuid}): ${errorMessage}`;
       
       await createSystemLog(serverDbConnection, serverName, logMessage, success ? 'info' : 'error', 'minecraft-sync');
+      await recordAuditEvent(serverDbConnection, serverName, {
+        action: success ? 'punishment.executed' : 'punishment.execution_failed',
+        summary: logMessage,
+        target: { type: 'punishment', id: punishmentId, name: player.usernames[0]?.username },
+        metadata: { playerUuid, executedAt, errorMessage: success ? undefined : errorMessage }
+      }, req);
 
       return res.status(200).json({
         status: 200,
@@ -2253,7 +2249,7 @@ export function setupMinecraftRoutes(app: Express): void {
    * Get punishment types for Minecraft plugin
    * - Returns punishment types excluding ordinals 0-2 (kick, manual_mute, manual_ban)
    */
-  app.get('/api/minecraft/punishment-types', async (req: Request, res: Response) => {
+  app.get('/api/minecraft/punishment-types', requireApiKeyScope('minecraft:sync'), async (req: Request, res: Response) => {
     const serverDbConnection = req.serverDbConnection!;
     
     try {
@@ -2302,7 +2298,7 @@ export function setupMinecraftRoutes(app: Express): void {
    * Create dynamic punishment for Minecraft plugin
    * - Creates punishments using type_ordinal for dynamic punishment types (ordinals > 2)
    */
-  app.post('/api/minecraft/punishment/dynamic', async (req: Request, res: Response) => {
+  app.post('/api/minecraft/punishment/dynamic', requireApiKeyScope('punishments:write'), async (req: Request, res: Response) => {
     const { targetUuid, issuerName, type_ordinal, reason, duration, data, notes, attachedTicketIds, severity, status } = req.body;
     const serverDbConnection = req.serverDbConnection!;
     const serverName = req.serverName!;
@@ -2356,7 +2352,7 @@ export function setupMinecraftRoutes(app: Express): void {
       }
       
       // Calculate player status automatically (matching panel logic)
-      const playerStatus = calculatePlayerStatus(player.punishments || [], punishmentTypes, statusThresholds);
+      const playerStatus = calculatePlayerStatus(await findPlayerPunishments(serverDbConnection, targetUuid), punishmentTypes, statusThresholds);
       
       // Determine offense level based on punishment category and player status
       const punishmentCategory = punishmentType.category?.toLowerCase();
@@ -2447,8 +2443,7 @@ export function setupMinecraftRoutes(app: Express): void {
         data: newPunishmentData
       };
 
-      player.punishments.push(newPunishment);
-      await player.save({ validateBeforeSave: false });
+      await createPunishmentRecord(serverDbConnection, player.minecraftUuid, newPunishment);
       
       // Create enhanced audit log
       await createPunishmentAuditLog(serverDbConnection, serverName, {
@@ -2460,6 +2455,22 @@ export function setupMinecraftRoutes(app: Express): void {
         reason,
         duration: calculatedDuration,
         isDynamic: true
+      }, newPunishment, req);
+
+      publishEvent(serverName, 'punishments', 'punishment.created', {
+        minecraftUuid: targetUuid,
+        punishmentId,
+        typeOrdinal: parseInt(type_ordinal),
+        issuerName
+      });
+      triggerWebhookEvent(serverDbConnection, serverName, 'punishment.issued', {
+        punishmentId,
+        playerUuid: targetUuid,
+        playerName: player.usernames[0]?.username,
+        typeOrdinal: parseInt(type_ordinal),
+        issuerName,
+        reason,
+        duration: calculatedDuration
       });
 
       return res.status(201).json({
@@ -2478,7 +2489,7 @@ export function setupMinecraftRoutes(app: Express): void {
   });
 
   // Player lookup endpoint for detailed player information
-  app.post('/api/minecraft/player-lookup', async (req: Request, res: Response) => {
+  app.post('/api/minecraft/player-lookup', requireApiKeyScope('players:read'), async (req: Request, res: Response) => {
     // Helper function to calculate player points (simplified)
     function calculateSimplePlayerPoints(punishments: any[]): number {
       let points = 0;
@@ -2546,7 +2557,7 @@ export function setupMinecraftRoutes(app: Express): void {
       }
 
       // Get punishment statistics
-      const punishments = player.punishments || [];
+      const punishments: any[] = await findPlayerPunishments(req.serverDbConnection!, player.minecraftUuid);
       const activePunishments = punishments.filter(p => 
         p.isActive && (!p.expiresAt || new Date(p.expiresAt) > new Date())
       );
@@ -2567,7 +2578,7 @@ export function setupMinecraftRoutes(app: Express): void {
         .sort((a, b) => new Date(b.issuedAt || b.issued).getTime() - new Date(a.issuedAt || a.issued).getTime())
         .slice(0, 5)
         .map(p => ({
-          id: p._id || p.id,
+          id: p.id,
           type: p.type || 'Unknown',
           issuer: p.issuer || p.issuerName || 'System',
           issuedAt: p.issuedAt || p.issued,
@@ -2579,14 +2590,14 @@ export function setupMinecraftRoutes(app: Express): void {
       const recentTickets = await Ticket.find({ creatorUuid: player.minecraftUuid })
         .sort({ createdAt: -1 })
         .limit(3)
-        .select('_id title category status createdAt updatedAt')
+        .select('_id title category status locked createdAt updatedAt')
         .lean();
 
       const ticketsFormatted = recentTickets.map(ticket => ({
         id: ticket._id,
         title: ticket.title || 'No title',
         category: ticket.category || 'General',
-        status: ticket.status || 'Open',
+        status: getTicketStatus(ticket),
         createdAt: ticket.createdAt,
         lastUpdated: ticket.updatedAt
       }));
@@ -2601,11 +2612,11 @@ export function setupMinecraftRoutes(app: Express): void {
         ? player.usernames.slice(0, -1).map(u => u.username)
         : [];
 
-      // Check if player is currently online (basic check)
+      // Online state comes from per-server presence tracking
       const lastSeenData = player.data?.get ? player.data.get('lastConnect') : player.data?.lastConnect;
       const lastSeen = lastSeenData ? new Date(lastSeenData) : null;
-      const isOnline = lastSeen && 
-        new Date().getTime() - lastSeen.getTime() < 5 * 60 * 1000; // 5 minutes
+      const currentServers: string[] = (player.data?.get ? player.data.get('currentServers') : player.data?.currentServers) || [];
+      const isOnline = currentServers.length > 0;
 
       // Build profile URLs
       const baseUrl = process.env.PANEL_URL || 'https://123.cobl.gg';
@@ -2619,7 +2630,8 @@ export function setupMinecraftRoutes(app: Express): void {
         previousUsernames: previousUsernames,
         firstSeen: player.firstSeen,
         lastSeen: lastSeen,
-        currentServer: player.currentServer || null,
+        currentServer: currentServers[currentServers.length - 1] || null,
+        currentServers: currentServers,
         isOnline: isOnline,
         ipAddress: player.ipHistory && player.ipHistory.length > 0 
           ? player.ipHistory[player.ipHistory.length - 1].ip 
@@ -0,0 +1,249 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import {
+  INetworkBan,
+  NETWORK_BAN_KINDS,
+  createPlayerExemption,
+  formatNetworkBan,
+  getNetworkBanModel,
+  isNetworkBanKind,
+  parseNetworkBanTarget
+} from '../services/network-ban-service';
+import { createSystemLog } from './log-routes';
+import { recordAuditEvent } from '../services/audit-service';
+
+const router = express.Router();
+
+// Viewing network bans requires admin.settings.view, everything else admin.settings.modify
+router.use(async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.serverDbConnection) {
+    return res.status(503).json({ error: 'Service unavailable. Database connection not established for this server.' });
+  }
+
+  const requiredPermission = req.method === 'GET' ? 'admin.settings.view' : 'admin.settings.modify';
+  try {
+    const { hasPermission } = await import('../middleware/permission-middleware');
+    if (!(await hasPermission(req, requiredPermission))) {
+      return res.status(403).json({
+        message: 'Forbidden: You do not have the required permissions.',
+        required: [requiredPermission]
+      });
+    }
+    next();
+  } catch (error) {
+    console.error('Error checking network ban permissions:', error);
+    res.status(500).json({ message: 'Internal server error while checking permissions.' });
+  }
+});
+
+/**
+ * Validate an expiry from the request body. Returns undefined when it is invalid.
+ */
+function parseExpires(expires: unknown): Date | null | undefined {
+  if (expires === null || expires === undefined || expires === '') return null;
+  if (typeof expires !== 'string' && typeof expires !== 'number') return undefined;
+  const date = new Date(expires);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+async function findNetworkBan(req: Request<{ id: string }>): Promise<INetworkBan | null> {
+  if (!Types.ObjectId.isValid(req.params.id)) return null;
+  return getNetworkBanModel(req.serverDbConnection!).findById(req.params.id);
+}
+
+function describeBan(ban: INetworkBan): string {
+  return ban.kind === 'asn' ? `ASN ban on ${ban.value}` : `IP ban on ${ban.value}`;
+}
+
+// List network bans, newest first
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const bans = await getNetworkBanModel(req.serverDbConnection!).find().sort({ createdAt: -1 });
+    res.json({ bans: bans.map(formatNetworkBan) });
+  } catch (error) {
+    console.error('Error fetching network bans:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create a network ban
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { kind, value, reason } = req.body;
+    if (!isNetworkBanKind(kind)) {
+      return res.status(400).json({ error: `kind must be one of: ${NETWORK_BAN_KINDS.join(', ')}` });
+    }
+
+    const target = typeof value === 'string' ? parseNetworkBanTarget(kind, value) : null;
+    if (!target) {
+      const expected = kind === 'asn' ? 'an AS number such as AS12345' : kind === 'cidr' ? 'a CIDR range such as 1.2.3.0/24' : 'an IPv4 or IPv6 address';
+      return res.status(400).json({ error: `value must be ${expected}` });
+    }
+
+    const expires = parseExpires(req.body.expires);
+    if (expires === undefined) {
+      return res.status(400).json({ error: 'expires must be a valid date' });
+    }
+
+    const createdBy = req.session?.username || 'Unknown';
+    const ban = await getNetworkBanModel(req.serverDbConnection!).create({
+      kind,
+      ...target,
+      reason: typeof reason === 'string' ? reason.trim() : '',
+      expires,
+      createdBy
+    });
+
+    await createSystemLog(req.serverDbConnection, req.serverName, `${describeBan(ban)} created by ${createdBy}`, 'moderation', 'network-ban');
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'network_ban.created',
+      summary: `${describeBan(ban)} created`,
+      target: { type: 'network_ban', id: ban._id.toString(), name: ban.value },
+      after: formatNetworkBan(ban)
+    }, req);
+
+    res.status(201).json({ ban: formatNetworkBan(ban) });
+  } catch (error) {
+    console.error('Error creating network ban:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update the reason, expiry or state of a network ban
+router.patch('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const ban = await findNetworkBan(req);
+    if (!ban) {
+      return res.status(404).json({ error: 'Network ban not found' });
+    }
+
+    const { reason, active } = req.body;
+    if (reason !== undefined && typeof reason !== 'string') {
+      return res.status(400).json({ error: 'reason must be a string' });
+    }
+    if (active !== undefined && typeof active !== 'boolean') {
+      return res.status(400).json({ error: 'active must be a boolean' });
+    }
+    const expires = req.body.expires === undefined ? ban.expires : parseExpires(req.body.expires);
+    if (expires === undefined) {
+      return res.status(400).json({ error: 'expires must be a valid date' });
+    }
+
+    const previousBan = formatNetworkBan(ban);
+    if (reason !== undefined) ban.reason = reason.trim();
+    if (active !== undefined) ban.active = active;
+    ban.expires = expires;
+    await ban.save();
+
+    const summary = active === false && previousBan.active
+      ? `${describeBan(ban)} lifted`
+      : `${describeBan(ban)} updated`;
+    await createSystemLog(req.serverDbConnection, req.serverName, `${summary} by ${req.session?.username || 'Unknown'}`, 'moderation', 'network-ban');
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'network_ban.updated',
+      summary,
+      target: { type: 'network_ban', id: ban._id.toString(), name: ban.value },
+      before: previousBan,
+      after: formatNetworkBan(ban)
+    }, req);
+
+    res.json({ ban: formatNetworkBan(ban) });
+  } catch (error) {
+    console.error('Error updating network ban:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a network ban
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const ban = await findNetworkBan(req);
+    if (!ban) {
+      return res.status(404).json({ error: 'Network ban not found' });
+    }
+
+    await ban.deleteOne();
+
+    await createSystemLog(req.serverDbConnection, req.serverName, `${describeBan(ban)} deleted by ${req.session?.username || 'Unknown'}`, 'moderation', 'network-ban');
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'network_ban.deleted',
+      summary: `${describeBan(ban)} deleted`,
+      target: { type: 'network_ban', id: ban._id.toString(), name: ban.value },
+      before: formatNetworkBan(ban)
+    }, req);
+
+    res.json({ message: 'Network ban deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting network ban:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Let a player connect from a banned network
+router.post('/:id/exemptions', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const ban = await findNetworkBan(req);
+    if (!ban) {
+      return res.status(404).json({ error: 'Network ban not found' });
+    }
+
+    const { player: identifier } = req.body;
+    if (typeof identifier !== 'string' || !identifier.trim()) {
+      return res.status(400).json({ error: 'player must be a username or UUID' });
+    }
+
+    const exemption = await createPlayerExemption(req.serverDbConnection!, identifier, req.session?.username || 'Unknown');
+    if (!exemption) {
+      return res.status(404).json({ error: 'Player not found' });
+    }
+    if (ban.exemptions.some(item => item.minecraftUuid === exemption.minecraftUuid)) {
+      return res.status(409).json({ error: 'Player is already exempt from this ban' });
+    }
+
+    ban.exemptions.push(exemption);
+    await ban.save();
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'network_ban.exemption_added',
+      summary: `${exemption.username} exempted from ${describeBan(ban)}`,
+      target: { type: 'network_ban', id: ban._id.toString(), name: ban.value },
+      metadata: { minecraftUuid: exemption.minecraftUuid, username: exemption.username }
+    }, req);
+
+    res.status(201).json({ ban: formatNetworkBan(ban) });
+  } catch (error) {
+    console.error('Error adding network ban exemption:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.delete('/:id/exemptions/:minecraftUuid', async (req: Request<{ id: string; minecraftUuid: string }>, res: Response) => {
+  try {
+    const ban = await findNetworkBan(req);
+    if (!ban) {
+      return res.status(404).json({ error: 'Network ban not found' });
+    }
+
+    const exemption = ban.exemptions.find(item => item.minecraftUuid === req.params.minecraftUuid);
+    if (!exemption) {
+      return res.status(404).json({ error: 'Player is not exempt from this ban' });
+    }
+
+    ban.exemptions = ban.exemptions.filter(item => item.minecraftUuid !== req.params.minecraftUuid);
+    await ban.save();
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'network_ban.exemption_removed',
+      summary: `${exemption.username} no longer exempt from ${describeBan(ban)}`,
+      target: { type: 'network_ban', id: ban._id.toString(), name: ban.value },
+      metadata: { minecraftUuid: exemption.minecraftUuid, username: exemption.username }
+    }, req);
+
+    res.json({ ban: formatNetworkBan(ban) });
+  } catch (error) {
+    console.error('Error removing network ban exemption:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
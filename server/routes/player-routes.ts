@@ -1,10 +1,51 @@
 import express, { Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
-import { Connection, Document } from 'mongoose';
+import { Connection, Document, Types } from 'mongoose';
 import { createSystemLog } from './log-routes';
+import { publishEvent } from '../services/realtime-service';
+import { triggerWebhookEvent } from '../services/webhook-service';
+import { recordAuditEvent, resolveAuditActor, toAuditSnapshot } from '../services/audit-service';
+import {
+  annotateLink,
+  createManualLink,
+  detectAccountLinks,
+  formatAccountLink,
+  getAccountLinkModel,
+  getAltDetectionSettings,
+  getLinkedAccountUuids,
+  getOtherPlayer,
+  getPlayerLinks,
+  isLinkStatus,
+  reviewLink
+} from '../services/account-link-service';
 import { calculatePlayerStatus, updatePunishmentDataStructure } from '../utils/player-status-calculator';
 import { checkPermission } from '../middleware/permission-middleware';
 import { checkRole } from '../middleware/role-middleware';
+import { getMultipleSettingsValues } from './settings-routes';
+import { getCachedIpIntelligence, lookupIpIntelligence, toIpListFields } from '../services/ip-intelligence-service';
+import {
+  MAX_SESSION_RANGE_MS,
+  findOnlinePlayers,
+  findSessionsInRange,
+  formatPlayerSession,
+  listSessionServers
+} from '../services/player-session-service';
+import {
+  createPunishmentRecord,
+  findPlayerPunishments,
+  findPunishmentById,
+  findPunishmentsByPlayer,
+  getPunishmentModel,
+  withPunishments
+} from '../services/punishment-store-service';
+import {
+  createIpEntry,
+  findLoginEvents,
+  formatLoginEvent,
+  getIpLastLogin,
+  recordLoginEvent,
+  touchIpEntry
+} from '../services/login-history-service';
 
 // Local type definitions (temporary replacement for missing shared types)
 interface IIPAddress {
@@ -15,7 +56,10 @@ interface IIPAddress {
   proxy?: boolean;
   hosting?: boolean;
   firstLogin: Date;
-  logins: Date[];
+  lastLogin?: Date;
+  loginCount?: number;
+  // Only on entries stored before login summaries
+  logins?: Date[];
 }
 
 interface IUsername {
@@ -60,23 +104,14 @@ interface IPlayer {
   _id?: any;
   minecraftUuid: string;
   usernames: IUsername[];
+  ipList: IIPAddress[];
   ipAddresses: IIPAddress[];
   notes: INote[];
   punishments: IPunishment[];
+  data: Map<string, any>;
   save(): Promise<IPlayer>;
 }
 
-interface IIPInfo {
-  status?: string;
-  message?: string;
-  countryCode?: string;
-  regionName?: string;
-  city?: string;
-  as?: string;
-  proxy?: boolean;
-  hosting?: boolean;
-}
-
 const router = express.Router();
 
 router.use((req: Request, res: Response, next: NextFunction): void => {
@@ -120,12 +155,13 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
     }
     
     const players = await Player.find(query);
+    const punishmentsByPlayer = await findPunishmentsByPlayer(req.serverDbConnection!, players.map(player => player.minecraftUuid));
     const formattedPlayers = players.map(player => {
       // Check if player is currently online
       const isOnline = player.data?.get('isOnline') === true;
       
       // Check if player is banned
-      const isBanned = player.punishments?.some((p: any) => p.type === 'BAN' && p.active);
+      const isBanned = punishmentsByPlayer.get(player.minecraftUuid)?.some((p: any) => p.type === 'BAN' && p.active);
       
       // Determine status
       let status = 'Offline';
@@ -141,6 +177,8 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
           ? player.usernames[player.usernames.length - 1].username 
           : 'Unknown',
         status: status,
+        isOnline: isOnline,
+        currentServers: player.data?.get('currentServers') || [],
         lastOnline: player.data?.get('lastLogin') || null
       };
     });
@@ -159,18 +197,21 @@ router.get('/:uuid', async (req: Request<{ uuid: string }>, res: Response): Prom
       res.status(404).json({ error: 'Player not found' });
       return;
     }
+    const punishments = await findPlayerPunishments(req.serverDbConnection!, player.minecraftUuid);
 
     // Calculate player status
     try {
       const Settings = req.serverDbConnection!.model('Settings');
-      const settings = await Settings.findOne({});
+      const statusSettings = await getMultipleSettingsValues(req.serverDbConnection!, ['punishmentTypes', 'statusThresholds']);
       
-      let punishmentTypes = [];
-      let thresholds = {
+      let punishmentTypes = statusSettings.punishmentTypes || [];
+      let thresholds = statusSettings.statusThresholds || {
         gameplay: { medium: 5, habitual: 10 },
         social: { medium: 4, habitual: 8 }
       };
 
+      // Fallback: legacy single settings document
+      const settings = punishmentTypes.length === 0 ? await Settings.findOne({}) : null;
       if (settings?.settings) {
         // Get punishment types
         if (settings.settings.punishmentTypes) {
@@ -193,7 +234,7 @@ router.get('/:uuid', async (req: Request<{ uuid: string }>, res: Response): Prom
 
       // Calculate status using the player's punishments
       const playerStatus = calculatePlayerStatus(
-        player.punishments || [],
+        punishments,
         punishmentTypes,
         thresholds
       );      // Calculate latest IP data with proxy/non-proxy priority
@@ -202,12 +243,8 @@ router.get('/:uuid', async (req: Request<{ uuid: string }>, res: Response): Prom
       if (ipList && ipList.length > 0) {
         // Sort IPs by recency first
         const sortedIPs = ipList.sort((a, b) => {
-          const aLatest = a.logins && a.logins.length > 0 ? 
-            Math.max(...a.logins.map(login => new Date(login).getTime())) : 
-            new Date(a.firstLogin).getTime();
-          const bLatest = b.logins && b.logins.length > 0 ? 
-            Math.max(...b.logins.map(login => new Date(login).getTime())) : 
-            new Date(b.firstLogin).getTime();
+          const aLatest = getIpLastLogin(a)?.getTime() || 0;
+          const bLatest = getIpLastLogin(b)?.getTime() || 0;
           return bLatest - aLatest;
         });
         
@@ -230,6 +267,7 @@ router.get('/:uuid', async (req: Request<{ uuid: string }>, res: Response): Prom
       // Calculate additional player metrics
       const totalPlaytime = player.data?.get('totalPlaytime') || 0; // in milliseconds
       const lastServer = player.data?.get('lastServer') || 'Unknown';
+      const currentServers = player.data?.get('currentServers') || [];
       
       // Convert player data Map to plain object for JSON serialization
       const playerObj = player.toObject();
@@ -242,19 +280,29 @@ router.get('/:uuid', async (req: Request<{ uuid: string }>, res: Response): Prom
         Object.assign(dataObj, playerObj.data);
       }
 
+      // Show where the values of each IP came from and when they were last evaluated
+      const intelligence = await getCachedIpIntelligence(req.serverDbConnection!, (playerObj.ipList || []).map((ip: IIPAddress) => ip.ipAddress));
+
       // Add calculated status to player data
       const enhancedPlayer = {
         ...playerObj,
         data: dataObj, // Use converted plain object
+        ipList: (playerObj.ipList || []).map((ip: IIPAddress) => {
+          const cached = intelligence.get(ip.ipAddress);
+          return cached ? { ...ip, sources: cached.sources, evaluatedAt: cached.evaluatedAt } : ip;
+        }),
         social: playerStatus.social,
         gameplay: playerStatus.gameplay,
         socialPoints: playerStatus.socialPoints,
         gameplayPoints: playerStatus.gameplayPoints,
+        pointBreakdown: playerStatus.breakdown,
+        statusThresholds: thresholds,
         latestIPData: latestIPData,
         lastServer: lastServer,
+        currentServers: currentServers,
         playtime: Math.round(totalPlaytime / (1000 * 60 * 60 * 100)) / 100, // Convert to hours with 2 decimal places
         // Transform punishments to include properly extracted data from Maps
-        punishments: player.punishments.map((punishment: any) => {
+        punishments: punishments.map((punishment: any) => {
           const punishmentObj = punishment.toObject ? punishment.toObject() : punishment;
           
           // If data is a Map, convert it to a plain object
@@ -289,12 +337,8 @@ router.get('/:uuid', async (req: Request<{ uuid: string }>, res: Response): Prom
       if (ipList && ipList.length > 0) {
         // Sort IPs by recency first
         const sortedIPs = ipList.sort((a, b) => {
-          const aLatest = a.logins && a.logins.length > 0 ? 
-            Math.max(...a.logins.map(login => new Date(login).getTime())) : 
-            new Date(a.firstLogin).getTime();
-          const bLatest = b.logins && b.logins.length > 0 ? 
-            Math.max(...b.logins.map(login => new Date(login).getTime())) : 
-            new Date(b.firstLogin).getTime();
+          const aLatest = getIpLastLogin(a)?.getTime() || 0;
+          const bLatest = getIpLastLogin(b)?.getTime() || 0;
           return bLatest - aLatest;
         });
         
@@ -317,6 +361,7 @@ router.get('/:uuid', async (req: Request<{ uuid: string }>, res: Response): Prom
       // Calculate additional player metrics (same as above)
       const totalPlaytime = player.data?.get('totalPlaytime') || 0; // in milliseconds
       const lastServer = player.data?.get('lastServer') || 'Unknown';
+      const currentServers = player.data?.get('currentServers') || [];
       
       // Convert player data Map to plain object for JSON serialization (same as above)
       const playerObj = player.toObject();
@@ -335,9 +380,10 @@ router.get('/:uuid', async (req: Request<{ uuid: string }>, res: Response): Prom
         data: dataObj, // Use converted plain object
         latestIPData: latestIPData,
         lastServer: lastServer,
+        currentServers: currentServers,
         playtime: Math.round(totalPlaytime / (1000 * 60 * 60 * 100)) / 100, // Convert to hours with 2 decimal places
         // Transform punishments to include properly extracted data from Maps
-        punishments: player.punishments.map((punishment: any) => {
+        punishments: punishments.map((punishment: any) => {
           const punishmentObj = punishment.toObject ? punishment.toObject() : punishment;
           
           // If data is a Map, convert it to a plain object
@@ -386,32 +432,14 @@ router.post('/login', async (req: Request<{}, {}, PlayerLoginBody>, res: Respons
         return res.status(400).json({ error: 'Missing minecraftUuid, username, or ipAddress' });
     }
 
-    let ipInfo: IIPInfo = {};
-    try {
-        const response = await fetch(`http://ip-api.com/json/${ipAddress}?fields=status,message,countryCode,regionName,city,as,proxy,hosting`);
-        ipInfo = await response.json() as IIPInfo;
-        if (ipInfo.status !== 'success') {
-            console.warn(`Failed to fetch IP info for ${ipAddress}: ${ipInfo.message}`);
-        }
-    } catch (fetchError) {
-        console.error(`Error fetching IP info for ${ipAddress}:`, fetchError);
-    }
+    const intelligence = await lookupIpIntelligence(req.serverDbConnection!, ipAddress);
 
     let player = await Player.findOne({ minecraftUuid });    if (player) {
       const existingIp = player.ipAddresses.find((ip: any) => ip.ipAddress === ipAddress);
       if (existingIp) {
-        existingIp.logins.push(new Date());
+        touchIpEntry(existingIp);
       } else {
-        player.ipAddresses.push({
-          ipAddress,
-          country: ipInfo.countryCode,
-          region: ipInfo.city ? `${ipInfo.regionName}, ${ipInfo.city}` : ipInfo.regionName,
-          asn: ipInfo.as,
-          proxy: ipInfo.proxy || false,
-          hosting: ipInfo.hosting || false,
-          firstLogin: new Date(),
-          logins: [new Date()]
-        });
+        player.ipAddresses.push(createIpEntry(ipAddress, toIpListFields(intelligence)));
       }
 
       const existingUsername = player.usernames.find((u: any) => u.username.toLowerCase() === username.toLowerCase());
@@ -422,6 +450,7 @@ router.post('/login', async (req: Request<{}, {}, PlayerLoginBody>, res: Respons
       player.data.set('lastLogin', new Date());
       
       await player.save({ validateBeforeSave: false });
+      await recordLoginEvent(req.serverDbConnection!, { minecraftUuid, username, ipAddress });
       await createSystemLog(req.serverDbConnection, req.serverName, `Player ${username} (${minecraftUuid}) logged in. IP: ${ipAddress}.`, 'info', 'player-api');
       return res.status(200).json(player);
     }    player = new Player({
@@ -429,22 +458,14 @@ router.post('/login', async (req: Request<{}, {}, PlayerLoginBody>, res: Respons
       minecraftUuid,
       usernames: [{ username, date: new Date() }],
       notes: [],
-      ipAddresses: [{
-        ipAddress,
-        country: ipInfo.countryCode,
-        region: ipInfo.city ? `${ipInfo.regionName}, ${ipInfo.city}` : ipInfo.regionName,
-        asn: ipInfo.as,
-        proxy: ipInfo.proxy || false,
-        hosting: ipInfo.hosting || false,
-        firstLogin: new Date(),
-        logins: [new Date()]
-      }],
+      ipAddresses: [createIpEntry(ipAddress, toIpListFields(intelligence))],
       punishments: [],
       pendingNotifications: [],
       data: new Map<string, any>([['firstJoin', new Date()], ['lastLogin', new Date()]])
     });
 
     await player.save({ validateBeforeSave: false });
+    await recordLoginEvent(req.serverDbConnection!, { minecraftUuid, username, ipAddress });
     await createSystemLog(req.serverDbConnection, req.serverName, `New player ${username} (${minecraftUuid}) created and logged in. IP: ${ipAddress}.`, 'info', 'player-api');
     res.status(201).json(player);
   } catch (error) {
@@ -535,9 +556,16 @@ router.post('/:uuid/notes', async (req: Request<{ uuid: string }, {}, AddNoteBod
       return res.status(404).json({ error: 'Player not found' });
     }
     
-    player.notes.push({ text, issuerName, issuerId, date: new Date() });
+    const note = { text, issuerName, issuerId, date: new Date() };
+    player.notes.push(note);
     await player.save({ validateBeforeSave: false });
     await createSystemLog(req.serverDbConnection, req.serverName, `Note added to player ${req.params.uuid} by ${issuerName}.`, 'info', 'player-api');
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'player.note_added',
+      summary: `Note added to ${player.usernames[player.usernames.length - 1]?.username || req.params.uuid} by ${issuerName}`,
+      target: { type: 'player', id: req.params.uuid, name: player.usernames[player.usernames.length - 1]?.username },
+      after: note
+    }, req);
     res.json(player);
   } catch (error) {
     console.error('Error adding note:', error);
@@ -554,16 +582,7 @@ router.post('/:uuid/ips', async (req: Request<{ uuid: string }, {}, AddIpBody>,
     const { ipAddress } = req.body; 
     if (!ipAddress) return res.status(400).json({ error: 'ipAddress is required' });
 
-    let ipInfo: IIPInfo = {};
-    try {
-        const response = await fetch(`http://ip-api.com/json/${ipAddress}?fields=status,message,countryCode,regionName,city,as,proxy,hosting`);
-        ipInfo = await response.json() as IIPInfo;
-        if (ipInfo.status !== 'success') {
-            console.warn(`Failed to fetch IP info for ${ipAddress}: ${ipInfo.message}`);
-        }
-    } catch (fetchError) {
-        console.error(`Error fetching IP info for ${ipAddress}:`, fetchError);
-    }
+    const intelligence = await lookupIpIntelligence(req.serverDbConnection!, ipAddress);
     
     const player = await Player.findOne({ minecraftUuid: req.params.uuid });
     if (!player) {
@@ -571,17 +590,9 @@ router.post('/:uuid/ips', async (req: Request<{ uuid: string }, {}, AddIpBody>,
     }
       const existingIp = player.ipAddresses.find((ip: any) => ip.ipAddress === ipAddress);
     if (existingIp) {
-      existingIp.logins.push(new Date());
+      touchIpEntry(existingIp);
     } else {
-      player.ipAddresses.push({
-        ipAddress,
-        country: ipInfo.countryCode,
-        region: ipInfo.city ? `${ipInfo.regionName}, ${ipInfo.city}` : ipInfo.regionName,
-        asn: ipInfo.as,
-        proxy: ipInfo.proxy || ipInfo.hosting,
-        firstLogin: new Date(),
-        logins: [new Date()]
-      });
+      player.ipAddresses.push(createIpEntry(ipAddress, toIpListFields(intelligence)));
     }
     
     await player.save({ validateBeforeSave: false });
@@ -623,10 +634,10 @@ router.post('/:uuid/punishments', async (req: Request<{ uuid: string }, {}, AddP
     }
 
     // Check permission based on punishment type
+    let punishmentTypeName = 'Unknown';
     try {
       const Settings = req.serverDbConnection!.model('Settings');
       const punishmentTypesDoc = await Settings.findOne({ type: 'punishmentTypes' });
-      let punishmentTypeName = 'Unknown';
       
       if (punishmentTypesDoc?.data) {
         const punishmentTypes = punishmentTypesDoc.data;
@@ -709,10 +720,39 @@ router.post('/:uuid/punishments', async (req: Request<{ uuid: string }, {}, AddP
       data: punishmentData
     };
 
-    player.punishments.push(newPunishment);
-    await player.save({ validateBeforeSave: false });
+    await createPunishmentRecord(req.serverDbConnection!, player.minecraftUuid, newPunishment);
     await createSystemLog(req.serverDbConnection, req.serverName, `Punishment ID ${id} (Type: ${type_ordinal}) added to player ${req.params.uuid} by ${issuerName}.`, 'moderation', 'player-api');
-    res.json(player);
+    publishEvent(req.serverName, 'punishments', 'punishment.created', {
+      minecraftUuid: req.params.uuid,
+      punishmentId: id,
+      typeOrdinal: type_ordinal,
+      issuerName
+    });
+    triggerWebhookEvent(req.serverDbConnection, req.serverName, 'punishment.issued', {
+      punishmentId: id,
+      playerUuid: req.params.uuid,
+      playerName: player.usernames[player.usernames.length - 1]?.username,
+      typeOrdinal: type_ordinal,
+      issuerName,
+      duration: punishmentData.get('duration') || undefined
+    });
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'punishment.created',
+      summary: `${punishmentTypeName} ${id} issued to ${player.usernames[player.usernames.length - 1]?.username || req.params.uuid} by ${issuerName}`,
+      target: { type: 'punishment', id, name: player.usernames[player.usernames.length - 1]?.username },
+      after: newPunishment,
+      metadata: {
+        playerUuid: req.params.uuid,
+        playerName: player.usernames[player.usernames.length - 1]?.username,
+        issuerName,
+        typeOrdinal: type_ordinal,
+        typeName: punishmentTypeName,
+        duration: punishmentData.get('duration'),
+        reason: typeof newPunishment.notes[0] === 'object' ? (newPunishment.notes[0] as any)?.text : newPunishment.notes[0]
+      }
+    }, req);
+    const [playerWithPunishments] = await withPunishments(req.serverDbConnection!, [player]);
+    res.json(playerWithPunishments);
   } catch (error) {
     console.error('Error adding punishment:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -737,10 +777,11 @@ router.post('/:uuid/punishments/:punishmentId/modifications', async (req: Reques
       return res.status(404).json({ error: 'Player not found' });
     }
     
-    const punishment = player.punishments.find((p: any) => p.id === req.params.punishmentId);
+    const punishment = await getPunishmentModel(req.serverDbConnection!).findOne({ minecraftUuid: player.minecraftUuid, id: req.params.punishmentId });
     if (!punishment) {
       return res.status(404).json({ error: 'Punishment not found' });
     }
+    const before = toAuditSnapshot(punishment);
       punishment.modifications.push({
       type,
       issuerName,
@@ -782,9 +823,34 @@ router.post('/:uuid/punishments/:punishmentId/modifications', async (req: Reques
       punishment.data.set('wiping', false);
     }
     
-    await player.save({ validateBeforeSave: false });
+    await punishment.save({ validateBeforeSave: false });
     await createSystemLog(req.serverDbConnection, req.serverName, `Modification of type '${type}' added to punishment ${req.params.punishmentId} for player ${req.params.uuid} by ${issuerName}.`, 'moderation', 'player-api');
-    res.json(player);
+    publishEvent(req.serverName, 'punishments', 'punishment.modified', {
+      minecraftUuid: req.params.uuid,
+      punishmentId: req.params.punishmentId,
+      modificationType: type,
+      issuerName
+    });
+    const isPardon = type === 'MANUAL_PARDON' || type === 'APPEAL_ACCEPT';
+    triggerWebhookEvent(req.serverDbConnection, req.serverName, isPardon ? 'punishment.pardoned' : 'punishment.modified', {
+      punishmentId: req.params.punishmentId,
+      playerUuid: req.params.uuid,
+      playerName: player.usernames[player.usernames.length - 1]?.username,
+      modificationType: type,
+      issuerName,
+      reason,
+      effectiveDuration
+    });
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: isPardon ? 'punishment.pardoned' : 'punishment.modified',
+      summary: `${type} applied to punishment ${req.params.punishmentId} of ${player.usernames[player.usernames.length - 1]?.username || req.params.uuid} by ${issuerName}`,
+      target: { type: 'punishment', id: req.params.punishmentId, name: player.usernames[player.usernames.length - 1]?.username },
+      before,
+      after: toAuditSnapshot(punishment),
+      metadata: { playerUuid: req.params.uuid, modificationType: type, reason, effectiveDuration, appealTicketId }
+    }, req);
+    const [playerWithPunishments] = await withPunishments(req.serverDbConnection!, [player]);
+    res.json(playerWithPunishments);
   } catch (error) {
     console.error('Error adding modification:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -798,7 +864,8 @@ router.get('/:uuid/activePunishments', async (req: Request<{ uuid: string }>, re
     if (!player) {
       return res.status(404).json({ error: 'Player not found' });
     }
-      const activePunishments = player.punishments.filter((punishment: any) => {
+    const punishments = await getPunishmentModel(req.serverDbConnection!).find({ minecraftUuid: player.minecraftUuid }).sort({ issued: 1 });
+      const activePunishments = punishments.filter((punishment: any) => {
       if (punishment.data && punishment.data.get('active') === false) return false;
       if (!punishment.started) return false;
 
@@ -847,17 +914,13 @@ router.get('/punishment/:punishmentId', async (req: Request<{ punishmentId: stri
   try {
     const punishmentId = req.params.punishmentId;
     
-    // Search for the punishment across all players
-    const player = await Player.findOne({ 'punishments.id': punishmentId });
-    
-    if (!player) {
+    const punishment = await findPunishmentById(req.serverDbConnection!, punishmentId);
+    if (!punishment) {
       return res.status(404).json({ error: 'Punishment not found' });
     }
-    
-    // Find the specific punishment within the player's punishments
-    const punishment = player.punishments.find((p: any) => p.id === punishmentId);
-    
-    if (!punishment) {
+
+    const player = await Player.findOne({ minecraftUuid: punishment.minecraftUuid });
+    if (!player) {
       return res.status(404).json({ error: 'Punishment not found' });
     }
       // Get the punishment type name from settings if available
@@ -975,9 +1038,9 @@ router.get('/punishments/search', async (req: Request, res: Response): Promise<v
     const results: any[] = [];
     
     // Search by punishment ID first (exact match)
-    const playerByPunishmentId = await Player.findOne({ 'punishments.id': searchTerm });
+    const punishment = await findPunishmentById(req.serverDbConnection!, searchTerm);
+    const playerByPunishmentId = punishment ? await Player.findOne({ minecraftUuid: punishment.minecraftUuid }) : null;
     if (playerByPunishmentId) {
-      const punishment = playerByPunishmentId.punishments.find((p: any) => p.id === searchTerm);
       if (punishment) {
         const isActive = punishment.data?.get ? punishment.data.get('active') !== false : punishment.data?.active !== false;
         const playerName = playerByPunishmentId.usernames.length > 0 
@@ -1001,14 +1064,15 @@ router.get('/punishments/search', async (req: Request, res: Response): Promise<v
       const playersByName = await Player.find({
         'usernames.username': { $regex: new RegExp(searchTerm, 'i') }
       }).limit(10);
+      const punishmentsByPlayer = await findPunishmentsByPlayer(req.serverDbConnection!, playersByName.map(player => player.minecraftUuid));
       
       for (const player of playersByName) {
         const playerName = player.usernames.length > 0 
           ? player.usernames[player.usernames.length - 1].username 
           : 'Unknown';
         
-        for (const punishment of player.punishments) {
-          const isActive = punishment.data?.get ? punishment.data.get('active') !== false : punishment.data?.active !== false;
+        for (const punishment of punishmentsByPlayer.get(player.minecraftUuid) || []) {
+          const isActive = (punishment.data as any)?.active !== false;
           
           if (!activeOnly || isActive) {
             // Avoid duplicates if we already found this punishment by ID
@@ -1055,7 +1119,7 @@ router.post('/:uuid/punishments/:punishmentId/notes', async (req: Request<{ uuid
       return;
     }
     
-    const punishment = player.punishments.find((p: any) => p.id === req.params.punishmentId);
+    const punishment = await getPunishmentModel(req.serverDbConnection!).findOne({ minecraftUuid: player.minecraftUuid, id: req.params.punishmentId });
     if (!punishment) {
       res.status(404).json({ error: 'Punishment not found' });
       return;
@@ -1070,9 +1134,17 @@ router.post('/:uuid/punishments/:punishmentId/notes', async (req: Request<{ uuid
     
     punishment.notes.push(newNote);
     
-    await player.save({ validateBeforeSave: false });
+    await punishment.save({ validateBeforeSave: false });
     await createSystemLog(req.serverDbConnection, req.serverName, `Note added to punishment ${req.params.punishmentId} for player ${req.params.uuid} by ${issuerName}.`, 'moderation', 'player-api');
-    res.json(player);
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'punishment.note_added',
+      summary: `Note added to punishment ${req.params.punishmentId} by ${issuerName}`,
+      target: { type: 'punishment', id: req.params.punishmentId, name: player.usernames[player.usernames.length - 1]?.username },
+      after: newNote,
+      metadata: { playerUuid: req.params.uuid }
+    }, req);
+    const [playerWithPunishments] = await withPunishments(req.serverDbConnection!, [player]);
+    res.json(playerWithPunishments);
   } catch (error) {
     console.error('Error adding punishment note:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -1085,71 +1157,54 @@ router.get('/:uuid/linked', async (req: Request<{ uuid: string }>, res: Response
   const minecraftUuid = req.params.uuid;
   
   try {
-    const player = await Player.findOne({ minecraftUuid }).lean<IPlayer>();
-    if (!player) {
-      res.status(200).json({ linkedAccounts: [] });
-      return;
-    }
-
-    const linkedAccountUuids = new Set<string>();
+    const { minLinkConfidence } = await getAltDetectionSettings(req.serverDbConnection!);
+    const links = await getPlayerLinks(req.serverDbConnection!, minecraftUuid);
 
-    // Method 1: Get linked accounts from stored data (new system)
-    const storedLinkedAccounts = player.data?.linkedAccounts || [];
-    if (storedLinkedAccounts && Array.isArray(storedLinkedAccounts)) {
-      storedLinkedAccounts.forEach((uuid: string) => linkedAccountUuids.add(uuid));
-      console.log(`[Panel Linked Accounts API] Found ${storedLinkedAccounts.length} stored linked accounts for ${minecraftUuid}`);
-    }
-
-    // Method 2: Get linked accounts by IP addresses (legacy/fallback system)
-    if (player.ipAddresses && player.ipAddresses.length > 0) {
-      const playerIps = player.ipAddresses.map((ip: any) => ip.ipAddress);
-      const ipLinkedPlayers = await Player.find({
-        minecraftUuid: { $ne: minecraftUuid },
-        'ipAddresses.ipAddress': { $in: playerIps }
-      }).select('minecraftUuid').lean();
-      
-      ipLinkedPlayers.forEach((p: any) => linkedAccountUuids.add(p.minecraftUuid));
-      console.log(`[Panel Linked Accounts API] Found ${ipLinkedPlayers.length} IP-linked accounts for ${minecraftUuid}`);
-    }
-
-    if (linkedAccountUuids.size === 0) {
-      console.log(`[Panel Linked Accounts API] No linked accounts found for ${minecraftUuid}`);
-      res.status(200).json({ linkedAccounts: [] });
+    if (links.length === 0) {
+      res.status(200).json({ linkedAccounts: [], minLinkConfidence });
       return;
     }
 
     // Get full player data for all linked accounts
     const linkedPlayers = await Player.find({
-      minecraftUuid: { $in: Array.from(linkedAccountUuids) }
-    }).select('minecraftUuid usernames punishments data').lean<IPlayer[]>();
-
-    const formattedLinkedAccounts = linkedPlayers.map((acc: IPlayer) => {
-      // Count active punishments (simplified - just check for recent punishments)
-      const activeBans = acc.punishments ? acc.punishments.filter((p: any) => 
-        (p.type_ordinal === 2 || p.type_ordinal === 4) && 
-        p.started && 
-        (!p.data?.expires || new Date(p.data.expires) > new Date())
-      ).length : 0;
-      
-      const activeMutes = acc.punishments ? acc.punishments.filter((p: any) => 
-        p.type_ordinal === 1 && 
-        p.started && 
-        (!p.data?.expires || new Date(p.data.expires) > new Date())
-      ).length : 0;
-      
-      const lastLinkedUpdate = acc.data?.lastLinkedAccountUpdate;
-      
-      return {
-        minecraftUuid: acc.minecraftUuid,
-        username: acc.usernames && acc.usernames.length > 0 ? acc.usernames[acc.usernames.length - 1].username : 'N/A',
-        activeBans,
-        activeMutes,
-        lastLinkedUpdate: lastLinkedUpdate || null
-      };
-    });
+      minecraftUuid: { $in: links.map(link => getOtherPlayer(link, minecraftUuid)) }
+    }).select('minecraftUuid usernames data').lean<IPlayer[]>();
+    const playersByUuid = new Map(linkedPlayers.map(acc => [acc.minecraftUuid, acc]));
+    const punishmentsByPlayer = await findPunishmentsByPlayer(req.serverDbConnection!, linkedPlayers.map(acc => acc.minecraftUuid), { started: { $ne: null } });
+
+    const formattedLinkedAccounts = links
+      .map(link => formatAccountLink(link, minecraftUuid))
+      .filter(link => playersByUuid.has(link.linkedUuid))
+      .sort((a, b) => b.confidence - a.confidence)
+      .map(link => {
+        const acc = playersByUuid.get(link.linkedUuid)!;
+
+        // Count active punishments (simplified - just check for recent punishments)
+        const punishments = punishmentsByPlayer.get(acc.minecraftUuid) || [];
+        const activeBans = punishments.filter((p: any) => 
+          (p.type_ordinal === 2 || p.type_ordinal === 4) && 
+          p.started && 
+          (!p.data?.expires || new Date(p.data.expires) > new Date())
+        ).length;
+        
+        const activeMutes = punishments.filter((p: any) => 
+          p.type_ordinal === 1 && 
+          p.started && 
+          (!p.data?.expires || new Date(p.data.expires) > new Date())
+        ).length;
+
+        return {
+          ...link,
+          minecraftUuid: acc.minecraftUuid,
+          username: acc.usernames && acc.usernames.length > 0 ? acc.usernames[acc.usernames.length - 1].username : 'N/A',
+          activeBans,
+          activeMutes,
+          linked: link.confidence >= minLinkConfidence,
+          lastLinkedUpdate: acc.data?.lastLinkedAccountUpdate || null
+        };
+      });
     
-    console.log(`[Panel Linked Accounts API] Returning ${formattedLinkedAccounts.length} linked accounts for ${minecraftUuid}`);
-    res.status(200).json({ linkedAccounts: formattedLinkedAccounts });
+    res.status(200).json({ linkedAccounts: formattedLinkedAccounts, minLinkConfidence });
   } catch (error: any) {
     console.error('Error getting linked accounts:', error);
     res.status(500).json({
@@ -1158,6 +1213,81 @@ router.get('/:uuid/linked', async (req: Request<{ uuid: string }>, res: Response
   }
 });
 
+/**
+ * Parse a from/to time range from the query, or return an error message
+ */
+function parseSessionRange(query: Request['query'], defaultRangeMs: number): { from: Date; to: Date } | string {
+  const to = typeof query.to === 'string' ? new Date(query.to) : new Date();
+  const from = typeof query.from === 'string' ? new Date(query.from) : new Date(to.getTime() - defaultRangeMs);
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return 'from and to must be valid dates';
+  }
+  if (from >= to) {
+    return 'from must be before to';
+  }
+  if (to.getTime() - from.getTime() > MAX_SESSION_RANGE_MS) {
+    return 'The time range can be at most 90 days';
+  }
+  return { from, to };
+}
+
+// Who was online during a time range, optionally on one server
+router.get('/sessions/online', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const range = parseSessionRange(req.query, 30 * 60 * 1000);
+    if (typeof range === 'string') {
+      res.status(400).json({ error: range });
+      return;
+    }
+
+    const server = typeof req.query.server === 'string' && req.query.server.trim() ? req.query.server.trim() : undefined;
+    const [players, servers] = await Promise.all([
+      findOnlinePlayers(req.serverDbConnection!, range.from, range.to, server),
+      listSessionServers(req.serverDbConnection!)
+    ]);
+
+    res.status(200).json({ from: range.from, to: range.to, server: server || null, servers, players });
+  } catch (error: any) {
+    console.error('Error finding online players:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Session history of a player, 30 days by default
+router.get('/:uuid/sessions', async (req: Request<{ uuid: string }>, res: Response): Promise<void> => {
+  try {
+    const range = parseSessionRange(req.query, 30 * 24 * 60 * 60 * 1000);
+    if (typeof range === 'string') {
+      res.status(400).json({ error: range });
+      return;
+    }
+
+    const sessions = await findSessionsInRange(req.serverDbConnection!, range.from, range.to, { minecraftUuid: req.params.uuid });
+    res.status(200).json({ from: range.from, to: range.to, sessions: sessions.map(formatPlayerSession) });
+  } catch (error: any) {
+    console.error('Error getting player sessions:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Recent raw login events of a player, newest first. Older logins only count towards
+// the summaries on the player's IP entries.
+router.get('/:uuid/logins', async (req: Request<{ uuid: string }>, res: Response): Promise<void> => {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 100, 1), 500);
+    const filter: Record<string, any> = { minecraftUuid: req.params.uuid };
+    if (typeof req.query.ipAddress === 'string' && req.query.ipAddress) {
+      filter.ipAddress = req.query.ipAddress;
+    }
+
+    const events = await findLoginEvents(req.serverDbConnection!, filter, limit);
+    res.status(200).json({ logins: events.map(formatLoginEvent) });
+  } catch (error: any) {
+    console.error('Error getting player logins:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Find and link accounts endpoint for player window
 router.post('/:uuid/find-linked', async (req: Request<{ uuid: string }>, res: Response): Promise<void> => {
   const Player = req.serverDbConnection!.model<IPlayer>('Player');
@@ -1165,47 +1295,25 @@ router.post('/:uuid/find-linked', async (req: Request<{ uuid: string }>, res: Re
   const serverName = req.serverName!;
   
   try {
-    const player = await Player.findOne({ minecraftUuid });
+    const player = await Player.findOne({ minecraftUuid }).select('minecraftUuid').lean();
     if (!player) {
       res.status(404).json({ error: 'Player not found' });
       return;
     }
 
-    // Get player's IP addresses for linking
-    const playerIPs = player.ipAddresses?.map((ip: any) => ip.ipAddress) || [];
-    
-    if (playerIPs.length === 0) {
-      res.status(200).json({ 
-        success: true,
-        message: 'No IP addresses found for player',
-        linkedAccountsFound: 0
-      });
-      return;
-    }
-
-    console.log(`[Panel Find Linked] Triggering account linking search for ${minecraftUuid} with ${playerIPs.length} IP addresses`);
-
-    // Call the minecraft routes function (we need to import it)
-    // For now, let's implement a simplified version here
-    await findAndLinkAccountsForPanel(req.serverDbConnection!, playerIPs, minecraftUuid, serverName);
-
-    // Get updated linked accounts count
-    const updatedPlayer = await Player.findOne({ minecraftUuid });
-    const linkedAccounts = updatedPlayer?.data?.get ? updatedPlayer.data.get('linkedAccounts') : updatedPlayer?.data?.linkedAccounts || [];
+    const { added, removed } = await detectAccountLinks(req.serverDbConnection!, serverName, minecraftUuid);
+    const { minLinkConfidence } = await getAltDetectionSettings(req.serverDbConnection!);
+    const linkedAccounts = await getLinkedAccountUuids(req.serverDbConnection!, minecraftUuid, minLinkConfidence);
 
     res.status(200).json({ 
       success: true,
       message: 'Account linking search completed',
-      linkedAccountsFound: Array.isArray(linkedAccounts) ? linkedAccounts.length : 0
+      linkedAccountsFound: linkedAccounts.length,
+      added,
+      removed
     });
   } catch (error) {
     console.error('Error triggering account linking search:', error);
-    console.error('Error details:', {
-      message: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : undefined,
-      uuid: minecraftUuid,
-      serverName: serverName
-    });
     res.status(500).json({ 
       error: 'Failed to trigger linked account search',
       details: error instanceof Error ? error.message : 'Unknown error'
@@ -1213,156 +1321,109 @@ router.post('/:uuid/find-linked', async (req: Request<{ uuid: string }>, res: Re
   }
 });
 
-/**
- * Find and link accounts for panel (simplified version of minecraft-routes function)
- */
-async function findAndLinkAccountsForPanel(
-  dbConnection: any,
-  ipAddresses: string[],
-  currentPlayerUuid: string,
-  serverName: string
-): Promise<void> {
+// Link two accounts by hand
+router.post('/:uuid/links', async (req: Request<{ uuid: string }, {}, { targetUuid?: string; note?: string }>, res: Response): Promise<void> => {
+  const Player = req.serverDbConnection!.model<IPlayer>('Player');
+  const minecraftUuid = req.params.uuid;
+
   try {
-    const Player = dbConnection.model('Player');
-    
-    if (!ipAddresses || ipAddresses.length === 0) {
+    const { targetUuid, note } = req.body;
+    if (!targetUuid || typeof targetUuid !== 'string') {
+      res.status(400).json({ error: 'targetUuid is required' });
       return;
     }
-
-    console.log(`[Panel Account Linking] Checking for linked accounts with IPs: ${ipAddresses.join(', ')}`);
-    
-    // Find all players that have used any of these IP addresses
-    const potentialLinkedPlayers = await Player.find({
-      minecraftUuid: { $ne: currentPlayerUuid }, // Exclude current player
-      'ipAddresses.ipAddress': { $in: ipAddresses }
-    }).lean();
-
-    const currentPlayer = await Player.findOne({ minecraftUuid: currentPlayerUuid });
-    if (!currentPlayer) {
-      console.error(`[Panel Account Linking] Current player ${currentPlayerUuid} not found`);
+    if (targetUuid === minecraftUuid) {
+      res.status(400).json({ error: 'An account cannot be linked to itself' });
       return;
     }
 
-    const linkedAccounts: string[] = [];
-
-    for (const player of potentialLinkedPlayers) {
-      let shouldLink = false;
-      const matchingIPs: string[] = [];
+    const playerCount = await Player.countDocuments({ minecraftUuid: { $in: [minecraftUuid, targetUuid] } });
+    if (playerCount < 2) {
+      res.status(404).json({ error: 'Player not found' });
+      return;
+    }
 
-      // Check each IP address for linking criteria
-      for (const ipAddress of ipAddresses) {
-        const playerIpEntry = player.ipAddresses?.find((ip: any) => ip.ipAddress === ipAddress);
-        const currentPlayerIpEntry = currentPlayer.ipAddresses?.find((ip: any) => ip.ipAddress === ipAddress);
-        
-        if (playerIpEntry && currentPlayerIpEntry) {
-          // Both players have used this IP
-          const isProxy = playerIpEntry.proxy || currentPlayerIpEntry.proxy;
-          
-          if (!isProxy) {
-            // Non-proxy IP - always link
-            shouldLink = true;
-            matchingIPs.push(ipAddress);
-          } else {
-            // Proxy IP - only link if used within 6 hours of each other
-            const playerLastLogin = playerIpEntry.logins && playerIpEntry.logins.length > 0 
-              ? new Date(Math.max(...playerIpEntry.logins.map((d: any) => new Date(d).getTime())))
-              : playerIpEntry.firstLogin;
-            
-            const currentPlayerLastLogin = currentPlayerIpEntry.logins && currentPlayerIpEntry.logins.length > 0
-              ? new Date(Math.max(...currentPlayerIpEntry.logins.map((d: any) => new Date(d).getTime())))
-              : currentPlayerIpEntry.firstLogin;
-
-            if (playerLastLogin && currentPlayerLastLogin) {
-              const timeDiff = Math.abs(playerLastLogin.getTime() - currentPlayerLastLogin.getTime());
-              const sixHours = 6 * 60 * 60 * 1000;
-              
-              if (timeDiff <= sixHours) {
-                shouldLink = true;
-                matchingIPs.push(`${ipAddress} (proxy, within 6h)`);
-              }
-            }
-          }
-        }
-      }
+    const link = await createManualLink(
+      req.serverDbConnection!,
+      req.serverName,
+      minecraftUuid,
+      targetUuid,
+      resolveAuditActor(req),
+      typeof note === 'string' ? note.trim() || undefined : undefined,
+      req
+    );
+    res.status(201).json({ link: formatAccountLink(link, minecraftUuid) });
+  } catch (error) {
+    console.error('Error creating account link:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-      if (shouldLink) {
-        linkedAccounts.push(player.minecraftUuid);
-        
-        // Update both players' linked accounts
-        await updatePlayerLinkedAccountsForPanel(dbConnection, currentPlayer.minecraftUuid, player.minecraftUuid);
-        await updatePlayerLinkedAccountsForPanel(dbConnection, player.minecraftUuid, currentPlayer.minecraftUuid);
-        
-        console.log(`[Panel Account Linking] Linked ${currentPlayer.minecraftUuid} with ${player.minecraftUuid} via IPs: ${matchingIPs.join(', ')}`);
-        
-        // Create system log
-        await createSystemLog(
-          dbConnection,
-          serverName,
-          `Panel account linking: ${currentPlayer.usernames[0]?.username || 'Unknown'} (${currentPlayer.minecraftUuid}) linked to ${player.usernames[0]?.username || 'Unknown'} (${player.minecraftUuid}) via shared IPs: ${matchingIPs.join(', ')}`,
-          'info',
-          'panel-linking'
-        );
-      }
+// Confirm, reject or reset a detected link
+router.patch('/:uuid/links/:linkId', async (req: Request<{ uuid: string; linkId: string }, {}, { status?: string; note?: string }>, res: Response): Promise<void> => {
+  try {
+    const { status, note } = req.body;
+    if (!isLinkStatus(status)) {
+      res.status(400).json({ error: 'status must be one of detected, confirmed or rejected' });
+      return;
     }
 
-    if (linkedAccounts.length > 0) {
-      console.log(`[Panel Account Linking] Found ${linkedAccounts.length} linked accounts for ${currentPlayerUuid}`);
-    } else {
-      console.log(`[Panel Account Linking] No linked accounts found for ${currentPlayerUuid}`);
+    const link = await findPlayerLink(req.serverDbConnection!, req.params.uuid, req.params.linkId);
+    if (!link) {
+      res.status(404).json({ error: 'Link not found' });
+      return;
     }
+
+    const updated = await reviewLink(
+      req.serverDbConnection!,
+      req.serverName,
+      link,
+      status,
+      resolveAuditActor(req),
+      typeof note === 'string' ? note.trim() || undefined : undefined,
+      req
+    );
+    res.json({ link: formatAccountLink(updated, req.params.uuid) });
   } catch (error) {
-    console.error(`[Panel Account Linking] Error finding linked accounts:`, error);
-    console.error(`[Panel Account Linking] Error details:`, {
-      message: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : undefined,
-      currentPlayerUuid,
-      ipAddresses,
-      serverName
-    });
-    throw error; // Re-throw to be caught by the endpoint handler
+    console.error('Error reviewing account link:', error);
+    res.status(500).json({ error: 'Internal server error' });
   }
-}
+});
 
-/**
- * Update a player's linked accounts list for panel
- */
-async function updatePlayerLinkedAccountsForPanel(
-  dbConnection: any,
-  playerUuid: string,
-  linkedUuid: string
-): Promise<void> {
+// Add a note to a link
+router.post('/:uuid/links/:linkId/notes', async (req: Request<{ uuid: string; linkId: string }, {}, { text?: string }>, res: Response): Promise<void> => {
   try {
-    const Player = dbConnection.model('Player');
-    
-    const player = await Player.findOne({ minecraftUuid: playerUuid });
-    if (!player) {
+    const text = typeof req.body.text === 'string' ? req.body.text.trim() : '';
+    if (!text) {
+      res.status(400).json({ error: 'Text is required for notes' });
       return;
     }
 
-    // Initialize linkedAccounts if it doesn't exist
-    if (!player.data) {
-      player.data = new Map<string, any>();
-    }
-    
-    const existingLinkedAccounts = player.data.get ? player.data.get('linkedAccounts') : player.data.linkedAccounts || [];
-    
-    // Only add if not already linked
-    if (!existingLinkedAccounts.includes(linkedUuid)) {
-      const updatedLinkedAccounts = [...existingLinkedAccounts, linkedUuid];
-      if (player.data.set) {
-        player.data.set('linkedAccounts', updatedLinkedAccounts);
-        player.data.set('lastLinkedAccountUpdate', new Date());
-      } else {
-        player.data.linkedAccounts = updatedLinkedAccounts;
-        player.data.lastLinkedAccountUpdate = new Date();
-      }
-      await player.save({ validateBeforeSave: false });
-      
-      console.log(`[Panel Account Linking] Updated ${playerUuid} linked accounts: added ${linkedUuid}`);
+    const link = await findPlayerLink(req.serverDbConnection!, req.params.uuid, req.params.linkId);
+    if (!link) {
+      res.status(404).json({ error: 'Link not found' });
+      return;
     }
+
+    const updated = await annotateLink(req.serverDbConnection!, req.serverName, link, resolveAuditActor(req), text, req);
+    res.json({ link: formatAccountLink(updated, req.params.uuid) });
   } catch (error) {
-    console.error(`[Panel Account Linking] Error updating player linked accounts:`, error);
+    console.error('Error annotating account link:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * A link of the given player, or null if the id is invalid or belongs to another player
+ */
+async function findPlayerLink(dbConnection: Connection, playerUuid: string, linkId: string) {
+  if (!Types.ObjectId.isValid(linkId)) {
+    return null;
   }
+  return getAccountLinkModel(dbConnection).findOne({
+    _id: linkId,
+    $or: [{ playerA: playerUuid }, { playerB: playerUuid }]
+  });
 }
 
 // Add evidence to a punishment
@@ -1383,7 +1444,7 @@ router.post('/:uuid/punishments/:punishmentId/evidence', async (req: Request<{ u
     }
     
     // Find the punishment
-    const punishment = player.punishments.find((p: any) => p.id === punishmentId);
+    const punishment = await getPunishmentModel(req.serverDbConnection!).findOne({ minecraftUuid: player.minecraftUuid, id: punishmentId });
     if (!punishment) {
       return res.status(404).json({ error: 'Punishment not found' });
     }
@@ -1421,8 +1482,15 @@ router.post('/:uuid/punishments/:punishmentId/evidence', async (req: Request<{ u
     
     punishment.evidence.push(evidenceItem);
     
-    // Save the player
-    await player.save({ validateBeforeSave: false });
+    await punishment.save({ validateBeforeSave: false });
+    
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'punishment.evidence_added',
+      summary: `${evidenceType === 'file' ? 'File' : 'Evidence'} added to punishment ${punishmentId} by ${evidenceItem.issuerName}`,
+      target: { type: 'punishment', id: punishmentId, name: player.usernames[player.usernames.length - 1]?.username },
+      after: evidenceItem,
+      metadata: { playerUuid: uuid, evidenceType }
+    }, req);
     
     res.json({ message: 'Evidence added successfully', evidence: evidenceItem });
   } catch (error) {
@@ -1443,18 +1511,14 @@ router.get('/punishment-lookup/:punishmentId', async (req: Request<{ punishmentI
     
     const Player = req.serverDbConnection.model<IPlayer>('Player');
     
-    // Search for the punishment across all players
-    const player = await Player.findOne({ 'punishments.id': punishmentId });
-    
-    if (!player) {
+    const punishment: any = await findPunishmentById(req.serverDbConnection, punishmentId);
+    if (!punishment) {
       res.status(404).json({ error: 'Punishment not found' });
       return;
     }
-    
-    // Find the specific punishment within the player's punishments
-    const punishment = player.punishments?.find((p: any) => p.id === punishmentId);
-    
-    if (!punishment) {
+
+    const player = await Player.findOne({ minecraftUuid: punishment.minecraftUuid });
+    if (!player) {
       res.status(404).json({ error: 'Punishment not found' });
       return;
     }
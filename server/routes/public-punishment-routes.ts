@@ -1,10 +1,12 @@
 import express, { Request, Response } from 'express';
+import { findPunishmentById } from '../services/punishment-store-service';
 
 const router = express.Router();
 
 // Local type definitions (matching other route files)
 interface IPunishment {
   id: string;
+  minecraftUuid: string;
   issuerName: string;
   issued: Date;
   started?: Date;
@@ -25,7 +27,6 @@ interface IModification {
 interface IPlayer {
   minecraftUuid: string;
   usernames: Array<{ username: string }>;
-  punishments: IPunishment[];
 }
 
 /**
@@ -105,18 +106,14 @@ router.get('/punishment/:punishmentId/appeal-info', async (req: Request<{ punish
     
     const Player = req.serverDbConnection.model<IPlayer>('Player');
     
-    // Search for the punishment across all players
-    const player = await Player.findOne({ 'punishments.id': punishmentId });
-    
-    if (!player) {
+    const punishment = await findPunishmentById(req.serverDbConnection, punishmentId) as IPunishment | null;
+    if (!punishment) {
       res.status(404).json({ error: 'Punishment not found' });
       return;
     }
-    
-    // Find the specific punishment within the player's punishments
-    const punishment = player.punishments.find((p: any) => p.id === punishmentId);
-    
-    if (!punishment) {
+
+    const player = await Player.findOne({ minecraftUuid: punishment.minecraftUuid });
+    if (!player) {
       res.status(404).json({ error: 'Punishment not found' });
       return;
     }
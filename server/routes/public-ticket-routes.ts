@@ -2,6 +2,24 @@ import express, { Request, Response } from 'express';
 import { verifyTicketApiKey } from '../middleware/ticket-api-auth';
 import { getSettingsValue } from './settings-routes';
 import { strictRateLimit } from '../middleware/rate-limiter';
+import { publishEvent } from '../services/realtime-service';
+import { triggerWebhookEvent } from '../services/webhook-service';
+import {
+  createTicketAccessToken,
+  getTicketCreatorEmail,
+  getTicketUrl,
+  hasTicketAccess,
+  sendTicketAccessLink
+} from '../services/ticket-access-service';
+import {
+  findTicketCategory,
+  formatPublicTicketCategory,
+  generateTicketId,
+  getTicketCategories
+} from '../services/ticket-category-service';
+import { checkClaimBeforeReply, queueTicketAssignment } from '../services/ticket-queue-service';
+import { queueTicketRules } from '../services/ticket-rule-service';
+import { getReplyTicketStatus, getTicketStatus, setTicketStatus } from '../services/ticket-status-service';
 
 const router = express.Router();
 
@@ -12,7 +30,8 @@ interface CreateTicketRequest {
   creatorUuid?: string;
   creatorName?: string;
   creatorEmail?: string;
-  type: 'bug' | 'player' | 'chat' | 'appeal' | 'staff' | 'support';
+  // ID of a configured ticket category
+  type: string;
   subject: string;
   description?: string;
   reportedPlayerUuid?: string;
@@ -23,24 +42,8 @@ interface CreateTicketRequest {
   priority?: 'low' | 'medium' | 'high';
 }
 
-// Helper function to generate ticket ID
-async function generateTicketId(serverDbConnection: any, type: string): Promise<string> {
-  const Ticket = serverDbConnection.model('Ticket');
-  const prefix = type === 'bug' ? 'BUG' : 
-                type === 'player' ? 'PLAYER' :
-                type === 'chat' ? 'CHAT' :
-                type === 'appeal' ? 'APPEAL' :
-                type === 'staff' ? 'STAFF' : 'SUPPORT';
-  const randomId = Math.floor(100000 + Math.random() * 900000);
-  const ticketId = `${prefix}-${randomId}`;
-  const existingTicket = await Ticket.findById(ticketId);
-  if (existingTicket) {
-    return generateTicketId(serverDbConnection, type);
-  }  return ticketId;
-}
-
 // Create a new ticket via API (with API key authentication)
-router.post('/tickets', verifyTicketApiKey, async (req: Request, res: Response) => {
+router.post('/tickets', verifyTicketApiKey('tickets:create'), async (req: Request, res: Response) => {
   if (!req.serverDbConnection || !req.serverName) {
     return res.status(503).json({ 
       error: 'Service unavailable',
@@ -74,24 +77,25 @@ router.post('/tickets', verifyTicketApiKey, async (req: Request, res: Response)
       });
     }
     
-    // If no subject provided, create as Unfinished ticket
-    const ticketStatus = subject ? 'Open' : 'Unfinished';
-    const ticketSubject = subject || `${type.charAt(0).toUpperCase() + type.slice(1)} Ticket`;
-    
     // Validate ticket type
-    const validTypes = ['bug', 'player', 'chat', 'appeal', 'staff', 'support'];
-    if (!validTypes.includes(type)) {
+    const categories = await getTicketCategories(req.serverDbConnection);
+    const category = findTicketCategory(categories, type);
+    if (!category) {
       return res.status(400).json({
         error: 'Bad request',
-        message: `Invalid ticket type. Must be one of: ${validTypes.join(', ')}`
+        message: `Invalid ticket type. Must be one of: ${categories.map(c => c.id).join(', ')}`
       });
     }
     
+    // If no subject provided, create as Unfinished ticket
+    const ticketStatus = subject ? 'New' : 'Unfinished';
+    const ticketSubject = subject || `${category.name} Ticket`;
+    
     // Type-specific validation
-    if (['player', 'chat'].includes(type) && !reportedPlayerUuid && !reportedPlayerName) {
+    if (category.targetsPlayer && !reportedPlayerUuid && !reportedPlayerName) {
       return res.status(400).json({
         error: 'Bad request',
-        message: `${type} reports require either reportedPlayerUuid or reportedPlayerName`
+        message: `${category.name} tickets require either reportedPlayerUuid or reportedPlayerName`
       });
     }
     
@@ -103,7 +107,7 @@ router.post('/tickets', verifyTicketApiKey, async (req: Request, res: Response)
     }
     
     // Generate ticket ID
-    const ticketId = await generateTicketId(req.serverDbConnection, type);
+    const ticketId = await generateTicketId(req.serverDbConnection, category);
     
     // Create initial message content
     let contentString = '';
@@ -147,13 +151,14 @@ router.post('/tickets', verifyTicketApiKey, async (req: Request, res: Response)
       const fieldMap: Record<string, any> = {};
       let orderedFields: any[] = [];
       
-      if (ticketForms && ticketForms[type] && ticketForms[type].fields) {
-        ticketForms[type].fields.forEach((field: any) => {
+      const form = ticketForms && category.formId ? ticketForms[category.formId] : null;
+      if (form && form.fields) {
+        form.fields.forEach((field: any) => {
           fieldLabels[field.id] = field.label;
           fieldMap[field.id] = field;
         });
         // Sort fields by order
-        orderedFields = ticketForms[type].fields.sort((a: any, b: any) => (a.order || 0) - (b.order || 0));
+        orderedFields = form.fields.sort((a: any, b: any) => (a.order || 0) - (b.order || 0));
       }
       
       // Process fields in order
@@ -213,11 +218,11 @@ router.post('/tickets', verifyTicketApiKey, async (req: Request, res: Response)
       // Prepare ticket data
     const ticketData: any = {
       _id: ticketId,
-      type,
-      category: type, // Also set category for compatibility with panel interface
+      type: category.id,
+      category: category.id, // Also set category for compatibility with panel interface
       subject: ticketSubject,
       status: ticketStatus,
-      tags: tags || [type],
+      tags: tags || category.defaultTags,
       creator: creatorName || 'API User',
       creatorUuid: creatorUuid || 'unknown-uuid',
       created: new Date(),
@@ -231,7 +236,7 @@ router.post('/tickets', verifyTicketApiKey, async (req: Request, res: Response)
     if (reportedPlayerUuid) ticketData.reportedPlayerUuid = reportedPlayerUuid;
     if (reportedPlayerName) ticketData.reportedPlayer = reportedPlayerName;
     if (chatMessages) ticketData.chatMessages = chatMessages;
-    if (priority) ticketData.data.set('priority', priority);
+    if (priority || category.defaultPriority) ticketData.data.set('priority', priority || category.defaultPriority);
     if (creatorEmail) ticketData.data.set('creatorEmail', creatorEmail);
     
     // Store formData in ticket.data Map
@@ -259,7 +264,27 @@ router.post('/tickets', verifyTicketApiKey, async (req: Request, res: Response)
     
     // Create and save ticket
     const newTicket = new Ticket(ticketData);
+    if (ticketStatus === 'New') {
+      setTicketStatus(newTicket, 'New', creatorName || 'API User');
+    }
     await newTicket.save();
+    const accessToken = await createTicketAccessToken(req.serverDbConnection, ticketId);
+    
+    if (ticketStatus === 'New') {
+      sendTicketAccessLink(req.serverDbConnection, req.serverName, newTicket, 'created', accessToken).catch(error => {
+        console.error(`[Public Ticket API] Failed to email access link for ticket ${ticketId}:`, error);
+      });
+      publishEvent(req.serverName, 'tickets', 'ticket.created', { ticketId, type, subject: ticketSubject, status: ticketStatus });
+      queueTicketAssignment(req.serverDbConnection, req.serverName, ticketId, category.id);
+      queueTicketRules(req.serverDbConnection, req.serverName, ticketId, [{ trigger: 'ticket.created' }]);
+      triggerWebhookEvent(req.serverDbConnection, req.serverName, 'ticket.created', {
+        ticketId,
+        type,
+        subject: ticketSubject,
+        creator: creatorName,
+        reportedPlayer: reportedPlayerName
+      });
+    }
     
     // Trigger AI analysis for Player Report tickets with chat messages
     if (req.serverDbConnection && type === 'chat' && chatMessages && chatMessages.length > 0) {
@@ -279,6 +304,8 @@ router.post('/tickets', verifyTicketApiKey, async (req: Request, res: Response)
       success: true,
       ticketId: ticketId,
       message: 'Ticket created successfully',
+      accessToken,
+      ticketUrl: getTicketUrl(req.serverName, ticketId, accessToken),
       ticket: {
         id: ticketId,
         type,
@@ -334,19 +361,20 @@ router.post('/tickets/unfinished', strictRateLimit, async (req: Request, res: Re
     }
     
     // Validate ticket type
-    const validTypes = ['bug', 'player', 'chat', 'appeal', 'staff', 'support'];
-    if (!validTypes.includes(type)) {
+    const categories = await getTicketCategories(req.serverDbConnection);
+    const category = findTicketCategory(categories, type);
+    if (!category) {
       return res.status(400).json({
         error: 'Bad request',
-        message: `Invalid ticket type. Must be one of: ${validTypes.join(', ')}`
+        message: `Invalid ticket type. Must be one of: ${categories.map(c => c.id).join(', ')}`
       });
     }
     
     // Type-specific validation
-    if (['player', 'chat'].includes(type) && !reportedPlayerUuid && !reportedPlayerName) {
+    if (category.targetsPlayer && !reportedPlayerUuid && !reportedPlayerName) {
       return res.status(400).json({
         error: 'Bad request',
-        message: `${type} reports require either reportedPlayerUuid or reportedPlayerName`
+        message: `${category.name} tickets require either reportedPlayerUuid or reportedPlayerName`
       });
     }
     
@@ -358,7 +386,7 @@ router.post('/tickets/unfinished', strictRateLimit, async (req: Request, res: Re
     }
     
     // Generate ticket ID
-    const ticketId = await generateTicketId(req.serverDbConnection, type);
+    const ticketId = await generateTicketId(req.serverDbConnection, category);
     
     // Create initial message content
     let contentString = '';
@@ -399,8 +427,9 @@ router.post('/tickets/unfinished', strictRateLimit, async (req: Request, res: Re
       
       // Create a map of field IDs to labels
       const fieldLabels: Record<string, string> = {};
-      if (ticketForms && ticketForms[type] && ticketForms[type].fields) {
-        ticketForms[type].fields.forEach((field: any) => {
+      const form = ticketForms && category.formId ? ticketForms[category.formId] : null;
+      if (form && form.fields) {
+        form.fields.forEach((field: any) => {
           fieldLabels[field.id] = field.label;
         });
       }
@@ -418,10 +447,11 @@ router.post('/tickets/unfinished', strictRateLimit, async (req: Request, res: Re
     // Prepare ticket data
     const ticketData: any = {
       _id: ticketId,
-      type,
+      type: category.id,
+      category: category.id,
       subject,
       status: 'Unfinished',
-      tags: tags || [type],
+      tags: tags || category.defaultTags,
       creator: creatorName || 'API User',
       creatorUuid: creatorUuid || undefined,
       created: new Date(),
@@ -435,7 +465,7 @@ router.post('/tickets/unfinished', strictRateLimit, async (req: Request, res: Re
     if (reportedPlayerUuid) ticketData.reportedPlayerUuid = reportedPlayerUuid;
     if (reportedPlayerName) ticketData.reportedPlayer = reportedPlayerName;
     if (chatMessages) ticketData.chatMessages = chatMessages;
-    if (priority) ticketData.data.set('priority', priority);
+    if (priority || category.defaultPriority) ticketData.data.set('priority', priority || category.defaultPriority);
     if (creatorEmail) ticketData.data.set('creatorEmail', creatorEmail);
     
     // Store formData in ticket.data Map
@@ -464,6 +494,7 @@ router.post('/tickets/unfinished', strictRateLimit, async (req: Request, res: Re
     // Create and save ticket
     const newTicket = new Ticket(ticketData);
     await newTicket.save();
+    const accessToken = await createTicketAccessToken(req.serverDbConnection, ticketId);
     
     // Trigger AI analysis for Player Report tickets with chat messages
     if (req.serverDbConnection && type === 'chat' && chatMessages && chatMessages.length > 0) {
@@ -483,6 +514,8 @@ router.post('/tickets/unfinished', strictRateLimit, async (req: Request, res: Re
       success: true,
       ticketId: ticketId,
       message: 'Ticket created successfully (Unfinished)',
+      accessToken,
+      ticketUrl: getTicketUrl(req.serverName, ticketId, accessToken),
       ticket: {
         id: ticketId,
         type,
@@ -501,8 +534,29 @@ router.post('/tickets/unfinished', strictRateLimit, async (req: Request, res: Re
   }
 });
 
+// Ticket categories players can open tickets in
+router.get('/ticket-categories', async (req: Request, res: Response) => {
+  if (!req.serverDbConnection) {
+    return res.status(503).json({ 
+      error: 'Service unavailable',
+      message: 'Server database not available' 
+    });
+  }
+  
+  try {
+    const categories = await getTicketCategories(req.serverDbConnection);
+    res.json({ categories: categories.map(formatPublicTicketCategory) });
+  } catch (error) {
+    console.error('Error fetching ticket categories:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch ticket categories'
+    });
+  }
+});
+
 // Get ticket status (useful for checking if ticket was created successfully)
-router.get('/tickets/:id/status', verifyTicketApiKey, async (req: Request, res: Response) => {
+router.get('/tickets/:id/status', verifyTicketApiKey('tickets:read'), async (req: Request, res: Response) => {
   if (!req.serverDbConnection) {
     return res.status(503).json({ 
       error: 'Service unavailable',
@@ -527,7 +581,7 @@ router.get('/tickets/:id/status', verifyTicketApiKey, async (req: Request, res:
       id: ticket._id,
       type: ticket.type,
       subject: ticket.subject,
-      status: ticket.status,
+      status: getTicketStatus(ticket),
       created: ticket.created,
       locked: ticket.locked || false
     });
@@ -541,8 +595,14 @@ router.get('/tickets/:id/status', verifyTicketApiKey, async (req: Request, res:
   }
 });
 
-// Public ticket viewing routes (no authentication required)
-// Get full ticket details (public access)
+// Public ticket viewing routes, these need the ticket's access token or a staff session
+const TOKEN_REQUIRED_RESPONSE = {
+  error: 'Unauthorized',
+  message: 'A valid access link is required for this ticket',
+  tokenRequired: true
+};
+
+// Get full ticket details
 router.get('/tickets/:id', async (req: Request, res: Response) => {
   if (!req.serverDbConnection) {
     return res.status(503).json({ 
@@ -556,6 +616,10 @@ router.get('/tickets/:id', async (req: Request, res: Response) => {
   
   try {
     const { id } = req.params;
+    if (!(await hasTicketAccess(req, id))) {
+      return res.status(401).json(TOKEN_REQUIRED_RESPONSE);
+    }
+
     const ticket = await Ticket.findById(id);
     
     if (!ticket) {
@@ -620,7 +684,7 @@ router.get('/tickets/:id', async (req: Request, res: Response) => {
       _id: ticket._id,
       type: ticket.type,
       subject: ticket.subject,
-      status: ticket.status,
+      status: getTicketStatus(ticket),
       creator: ticket.creator,
       creatorUuid: ticket.creatorUuid,
       reportedBy: ticket.creator, // Alias for compatibility
@@ -648,7 +712,7 @@ router.get('/tickets/:id', async (req: Request, res: Response) => {
   }
 });
 
-// Add reply to ticket (public access)
+// Add reply to ticket
 router.post('/tickets/:id/replies', async (req: Request, res: Response) => {
   if (!req.serverDbConnection) {
     return res.status(503).json({ 
@@ -661,7 +725,13 @@ router.post('/tickets/:id/replies', async (req: Request, res: Response) => {
   
   try {
     const { id } = req.params;
-    const { name, content, type = 'user', staff = false, attachments = [] } = req.body;
+    const { name, content, type = 'user', attachments = [] } = req.body;
+    // Only staff sessions can reply as staff, a ticket token only grants the creator's access
+    const staff = Boolean(req.session?.userId && req.body.staff);
+    
+    if (!(await hasTicketAccess(req, id))) {
+      return res.status(401).json(TOKEN_REQUIRED_RESPONSE);
+    }
     
     if (!name || !content) {
       return res.status(400).json({
@@ -679,13 +749,17 @@ router.post('/tickets/:id/replies', async (req: Request, res: Response) => {
       });
     }
     
-    if (ticket.locked) {
+    if (getTicketStatus(ticket) === 'Closed') {
       return res.status(403).json({
         error: 'Forbidden',
-        message: 'This ticket is locked and cannot accept new replies'
+        message: 'This ticket is closed and cannot accept new replies'
       });
     }
     
+    if (staff && !checkClaimBeforeReply(req, res, ticket, req.body.overrideClaim)) {
+      return;
+    }
+    
     // Create new reply
     const newReply = {
       id: Date.now().toString(),
@@ -706,9 +780,26 @@ router.post('/tickets/:id/replies', async (req: Request, res: Response) => {
       ticket.replies = [];
     }
     ticket.replies.push(newReply);
+    const replyStatus = getReplyTicketStatus(ticket, staff);
+    const statusEvent = replyStatus ? setTicketStatus(ticket, replyStatus, name) : null;
     
     await ticket.save();
     
+    publishEvent(req.serverName, 'tickets', 'ticket.reply', { ticketId: id, reply: newReply });
+    if (statusEvent) {
+      publishEvent(req.serverName, 'tickets', 'ticket.updated', { ticketId: id, status: statusEvent.to });
+    }
+    queueTicketRules(req.serverDbConnection, req.serverName, id, [
+      { trigger: 'reply.added', replyFromStaff: staff },
+      ...(statusEvent ? [{ trigger: 'status.changed' as const, value: statusEvent.to }] : [])
+    ]);
+    triggerWebhookEvent(req.serverDbConnection, req.serverName, 'ticket.replied', {
+      ticketId: id,
+      author: name,
+      staff,
+      content
+    });
+    
     // Handle ticket subscription for staff replies
     if (staff && name) {
       try {
@@ -742,7 +833,8 @@ router.post('/tickets/:id/replies', async (req: Request, res: Response) => {
           replyAuthor: name,
           isStaffReply: staff,
           serverName: req.serverName,
-          serverDisplayName: serverDisplayName
+          serverDisplayName: serverDisplayName,
+          accessToken: await createTicketAccessToken(req.serverDbConnection!, ticket._id, 'magic_link')
         });
       } catch (emailError) {
         console.error(`[Public Reply] Failed to send email notification for ticket ${id}:`, emailError);
@@ -765,6 +857,49 @@ router.post('/tickets/:id/replies', async (req: Request, res: Response) => {
   }
 });
 
+// Email a magic link to the ticket's creator. The response is the same whether or not
+// the address matches so it can't be used to find out who created a ticket.
+router.post('/tickets/:id/access-link', strictRateLimit, async (req: Request, res: Response) => {
+  if (!req.serverDbConnection || !req.serverName) {
+    return res.status(503).json({ 
+      error: 'Service unavailable',
+      message: 'Server database not available' 
+    });
+  }
+  
+  const Ticket = req.serverDbConnection.model('Ticket');
+  
+  try {
+    const { id } = req.params;
+    const { email } = req.body;
+    
+    if (typeof email !== 'string' || !email.trim()) {
+      return res.status(400).json({
+        error: 'Bad request',
+        message: 'Email is required'
+      });
+    }
+    
+    const ticket = await Ticket.findById(id);
+    const creatorEmail = ticket ? getTicketCreatorEmail(ticket) : null;
+    if (ticket && creatorEmail && creatorEmail.trim().toLowerCase() === email.trim().toLowerCase()) {
+      await sendTicketAccessLink(req.serverDbConnection, req.serverName, ticket, 'requested');
+    }
+    
+    res.json({
+      success: true,
+      message: 'If this email address belongs to the ticket, a link to it has been sent'
+    });
+    
+  } catch (error) {
+    console.error('Error sending ticket access link:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to send access link'
+    });
+  }
+});
+
 // Submit ticket form (convert from Unfinished to Open)
 router.post('/tickets/:id/submit', async (req: Request, res: Response) => {
   if (!req.serverDbConnection) {
@@ -780,6 +915,10 @@ router.post('/tickets/:id/submit', async (req: Request, res: Response) => {
     const { id } = req.params;
     const { subject, formData } = req.body;
     
+    if (!(await hasTicketAccess(req, id))) {
+      return res.status(401).json(TOKEN_REQUIRED_RESPONSE);
+    }
+    
     const ticket = await Ticket.findById(id);
     
     if (!ticket) {
@@ -820,8 +959,10 @@ router.post('/tickets/:id/submit', async (req: Request, res: Response) => {
       
       // Create a map of field IDs to labels
       const fieldLabels: Record<string, string> = {};
-      if (ticketForms && ticketForms[ticket.type] && ticketForms[ticket.type].fields) {
-        ticketForms[ticket.type].fields.forEach((field: any) => {
+      const category = findTicketCategory(await getTicketCategories(req.serverDbConnection!), ticket.type);
+      const form = ticketForms ? ticketForms[category?.formId || ticket.type] : null;
+      if (form && form.fields) {
+        form.fields.forEach((field: any) => {
           fieldLabels[field.id] = field.label;
         });
       }
@@ -886,11 +1027,33 @@ router.post('/tickets/:id/submit', async (req: Request, res: Response) => {
       }
     }
     
-    // Change status from Unfinished to Open
-    ticket.status = 'Open';
+    // Submitted tickets start the lifecycle
+    const wasUnfinished = ticket.status === 'Unfinished';
+    if (wasUnfinished) {
+      setTicketStatus(ticket, 'New', ticket.creator || 'User');
+    }
     
     await ticket.save();
     
+    // The form may have added an email address, send the creator a link to come back to
+    if (wasUnfinished && getTicketCreatorEmail(ticket)) {
+      sendTicketAccessLink(req.serverDbConnection, req.serverName!, ticket, 'created').catch(error => {
+        console.error(`[Public Ticket API] Failed to email access link for ticket ${id}:`, error);
+      });
+    }
+    
+    publishEvent(req.serverName, 'tickets', 'ticket.created', { ticketId: ticket._id, type: ticket.type, subject: ticket.subject, status: ticket.status });
+    if (wasUnfinished) {
+      queueTicketAssignment(req.serverDbConnection, req.serverName, ticket._id, ticket.type);
+      queueTicketRules(req.serverDbConnection, req.serverName, ticket._id, [{ trigger: 'ticket.created' }]);
+    }
+    triggerWebhookEvent(req.serverDbConnection, req.serverName, 'ticket.created', {
+      ticketId: ticket._id,
+      type: ticket.type,
+      subject: ticket.subject,
+      creator: ticket.creator
+    });
+    
     res.json({
       success: true,
       message: 'Ticket submitted successfully',
@@ -3,6 +3,7 @@ import { Connection, Schema } from 'mongoose';
 import { isAuthenticated } from '../middleware/auth-middleware';
 // Note: Permission functions will be imported dynamically to avoid circular dependency issues
 import { strictRateLimit } from '../middleware/rate-limiter';
+import { recordAuditEvent } from '../services/audit-service';
 
 const router = express.Router();
 
@@ -241,6 +242,13 @@ router.post('/', strictRateLimit, async (req: Request, res: Response) => {
     });
     
     await newRole.save();
+
+    await recordAuditEvent(db, req.serverName, {
+      action: 'role.created',
+      summary: `Role ${name} created`,
+      target: { type: 'role', id, name },
+      after: { name, description, permissions }
+    }, req);
     
     res.status(201).json({ 
       message: 'Role created successfully',
@@ -290,19 +298,27 @@ router.put('/:id', strictRateLimit, async (req: Request, res: Response) => {
       });
     }
     
-    const updatedRole = await StaffRoles.findOneAndUpdate(
+    const previousRole = await StaffRoles.findOneAndUpdate(
       { id },
-      { name, description, permissions },
-      { new: true }
+      { name, description, permissions }
     );
     
-    if (!updatedRole) {
+    if (!previousRole) {
       return res.status(404).json({ error: 'Role not found' });
     }
+    const updatedRole = await StaffRoles.findOne({ id });
+
+    await recordAuditEvent(db, req.serverName, {
+      action: 'role.updated',
+      summary: `Role ${name} updated`,
+      target: { type: 'role', id, name },
+      before: { name: previousRole.name, description: previousRole.description, permissions: previousRole.permissions },
+      after: { name, description, permissions }
+    }, req);
     
     res.json({ 
       message: 'Role updated successfully',
-      role: updatedRole.toObject()
+      role: updatedRole!.toObject()
     });
   } catch (error) {
     console.error('Error updating role:', error);
@@ -341,6 +357,13 @@ router.delete('/:id', strictRateLimit, async (req: Request, res: Response) => {
     if (!deletedRole) {
       return res.status(404).json({ error: 'Role not found' });
     }
+
+    await recordAuditEvent(db, req.serverName, {
+      action: 'role.deleted',
+      summary: `Role ${deletedRole.name} deleted`,
+      target: { type: 'role', id, name: deletedRole.name },
+      before: { name: deletedRole.name, description: deletedRole.description, permissions: deletedRole.permissions }
+    }, req);
     
     res.json({ message: 'Role deleted successfully' });
   } catch (error) {
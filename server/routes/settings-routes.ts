@@ -1,15 +1,37 @@
 import express, { Request, Response, NextFunction } from 'express';
-import { Connection, Document as MongooseDocument, HydratedDocument, Schema } from 'mongoose';
+import { Connection, Document as MongooseDocument, HydratedDocument, Schema, Types } from 'mongoose';
 import { isAuthenticated } from '../middleware/auth-middleware';
 // Note: Permission functions will be imported dynamically to avoid circular dependency issues
 // Note: checkRole replaced with permission-based checks
 import domainRoutes from './domain-routes';
 import PunishmentService from '../services/punishment-service';
+import {
+  DEFAULT_LLM_SETTINGS,
+  createLLMProvider,
+  mergeSubmittedLLMSettings,
+  resolveLLMSettings,
+  testLLMConnection,
+  toPublicLLMSettings,
+  validateLLMSettings
+} from '../services/llm-provider-service';
+import { API_KEY_SCOPES, IApiKey, createApiKey, getInvalidIpEntries, isApiKeyScope, listApiKeys, revokeApiKey } from '../services/api-key-service';
+import { createSystemLog } from './log-routes';
+import { getLocalStoragePath } from '../services/storage-service';
+import { getFileExtension, SUPPORTED_FILE_TYPES } from '../services/media-service';
+import { recordAuditEvent, resolveAuditActor } from '../services/audit-service';
+import { getAltDetectionSettings } from '../services/account-link-service';
+import { formatAltBackfillJob, getAltBackfillJobModel, startAltBackfillJob } from '../services/alt-backfill-service';
+import { getNetworkBanSettings } from '../services/network-ban-service';
+import { getLoginHistorySettings, MAX_RETENTION_DAYS, MIN_RETENTION_DAYS } from '../services/login-history-service';
+import { getTicketCategories, normalizeTicketCategories } from '../services/ticket-category-service';
+import { getTicketQueues, normalizeTicketQueues } from '../services/ticket-queue-service';
+import { getTicketSlaSettings, normalizeTicketSlaSettings } from '../services/ticket-sla-service';
+import { getTicketRules, listTicketRuleExecutions, normalizeTicketRules } from '../services/ticket-rule-service';
+import { getTicketWorkflow, normalizeTicketWorkflow } from '../services/ticket-status-service';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import { promisify } from 'util';
-import { generateTicketApiKey } from '../middleware/ticket-api-auth';
 // Removed unused imports - interfaces are defined locally below
 
 const writeFile = promisify(fs.writeFile);
@@ -88,9 +110,14 @@ interface IAppealFormSettings {
   sections: IAppealFormSection[];
 }
 
+interface IPointDecay {
+  mode: 'none' | 'half-life' | 'linear';
+  days: number;
+}
+
 interface IStatusThresholds {
-  gameplay: { medium: number; habitual: number };
-  social: { medium: number; habitual: number };
+  gameplay: { medium: number; habitual: number; decay?: IPointDecay };
+  social: { medium: number; habitual: number; decay?: IPointDecay };
 }
 
 interface ISystemSettings {
@@ -843,8 +870,8 @@ export async function createDefaultSettings(dbConnection: Connection, serverName
       { 
         type: 'statusThresholds',
         data: {
-          gameplay: { medium: 5, habitual: 10 },
-          social: { medium: 4, habitual: 8 }
+          gameplay: { medium: 5, habitual: 10, decay: { mode: 'half-life', days: 30 } },
+          social: { medium: 4, habitual: 8, decay: { mode: 'half-life', days: 30 } }
         }
       },
       { upsert: true, new: true }
@@ -902,6 +929,7 @@ export async function createDefaultSettings(dbConnection: Connection, serverName
           enableAIReview: true,
           enableAutomatedActions: true,
           strictnessLevel: 'standard',
+          llm: { ...DEFAULT_LLM_SETTINGS },
           aiPunishmentConfigs: {
             'chat-abuse': {
               id: 'chat-abuse',
@@ -919,18 +947,6 @@ export async function createDefaultSettings(dbConnection: Connection, serverName
         }
       },
       { upsert: true, new: true }
-    ),
-    
-    // API Keys document with default unified API key
-    models.Settings.findOneAndUpdate(
-      { type: 'apiKeys' },
-      {
-        type: 'apiKeys',
-        data: {
-          api_key: generateTicketApiKey()
-        }
-      },
-      { upsert: true, new: true }
     )
   ]);
   
@@ -1037,12 +1053,8 @@ export async function getAllSettings(dbConnection: Connection): Promise<any> {
           settings.general = doc.data;
           break;
         case 'aiModerationSettings':
-          settings.aiModerationSettings = doc.data;
-          break;
-        case 'apiKeys':
-          settings.api_key = doc.data.api_key;
-          settings.ticket_api_key = doc.data.ticket_api_key;
-          settings.minecraft_api_key = doc.data.minecraft_api_key;
+          // The LLM API key stays on the server
+          settings.aiModerationSettings = doc.data?.llm ? { ...doc.data, llm: toPublicLLMSettings(doc.data.llm) } : doc.data;
           break;
       }
     }
@@ -1056,10 +1068,7 @@ export async function getAllSettings(dbConnection: Connection): Promise<any> {
       quickResponses: settings.quickResponses || { categories: [] },
       ticketForms: settings.ticketForms || { bug: { fields: [], sections: [] }, support: { fields: [], sections: [] }, application: { fields: [], sections: [] } },
       general: settings.general || {},
-      aiModerationSettings: settings.aiModerationSettings || {},
-      api_key: settings.api_key,
-      ticket_api_key: settings.ticket_api_key,
-      minecraft_api_key: settings.minecraft_api_key
+      aiModerationSettings: settings.aiModerationSettings || {}
     };
   } catch (error) {
     console.error('Error retrieving settings from separate documents:', error);
@@ -1168,6 +1177,13 @@ export async function updateSettings(dbConnection: Connection, requestBody: any)
   }
   
   if (requestBody.aiModerationSettings !== undefined) {
+    if (requestBody.aiModerationSettings?.llm) {
+      const savedDoc = await models.Settings.findOne({ type: 'aiModerationSettings' });
+      requestBody.aiModerationSettings = {
+        ...requestBody.aiModerationSettings,
+        llm: mergeSubmittedLLMSettings(requestBody.aiModerationSettings.llm, savedDoc?.data?.llm)
+      };
+    }
     updates.push(
       models.Settings.findOneAndUpdate(
         { type: 'aiModerationSettings' },
@@ -1177,32 +1193,6 @@ export async function updateSettings(dbConnection: Connection, requestBody: any)
     );
   }
   
-  // Handle API keys separately
-  const apiKeyUpdates: any = {};
-  if (requestBody.api_key !== undefined) {
-    apiKeyUpdates.api_key = requestBody.api_key;
-  }
-  if (requestBody.ticket_api_key !== undefined) {
-    apiKeyUpdates.ticket_api_key = requestBody.ticket_api_key;
-  }
-  if (requestBody.minecraft_api_key !== undefined) {
-    apiKeyUpdates.minecraft_api_key = requestBody.minecraft_api_key;
-  }
-  
-  if (Object.keys(apiKeyUpdates).length > 0) {
-    // Get existing API keys data
-    const existingApiKeysDoc = await models.Settings.findOne({ type: 'apiKeys' });
-    const currentApiKeys = existingApiKeysDoc?.data || {};
-    
-    updates.push(
-      models.Settings.findOneAndUpdate(
-        { type: 'apiKeys' },
-        { type: 'apiKeys', data: { ...currentApiKeys, ...apiKeyUpdates } },
-        { upsert: true, new: true }
-      )
-    );
-  }
-  
   if (updates.length > 0) {
     await Promise.all(updates);
   }
@@ -1403,8 +1393,8 @@ export async function createDefaultSettingsDocument(dbConnection: Connection, se
     ];
     
     const statusThresholds: IStatusThresholds = {
-      gameplay: { medium: 5, habitual: 10 },
-      social: { medium: 4, habitual: 8 }
+      gameplay: { medium: 5, habitual: 10, decay: { mode: 'half-life', days: 30 } },
+      social: { medium: 4, habitual: 8, decay: { mode: 'half-life', days: 30 } }
     };
     
     defaultSettingsMap.set('punishmentTypes', corePunishmentTypes);
@@ -1535,6 +1525,7 @@ export async function createDefaultSettingsDocument(dbConnection: Connection, se
       enableAIReview: true,
       enableAutomatedActions: true,
       strictnessLevel: 'standard',
+      llm: { ...DEFAULT_LLM_SETTINGS },
       aiPunishmentConfigs: {
         'chat-abuse': {
           id: 'chat-abuse',
@@ -2515,6 +2506,15 @@ router.get('/', async (req: Request, res: Response) => {
 router.patch('/', async (req: Request, res: Response) => {
   if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
   try {
+    const changedKeys = Object.keys(req.body || {});
+    if (req.body?.aiModerationSettings?.llm) {
+      const llmError = validateLLMSettings(req.body.aiModerationSettings.llm);
+      if (llmError) {
+        return res.status(400).json({ error: llmError });
+      }
+    }
+    const previousSettings = await getMultipleSettingsValues(req.serverDbConnection!, changedKeys);
+
     // Update settings documents
     await updateSettings(req.serverDbConnection!, req.body);
     
@@ -2523,6 +2523,14 @@ router.patch('/', async (req: Request, res: Response) => {
       await cleanupOrphanedAIPunishmentConfigs(req.serverDbConnection!);
     }
     
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'settings.updated',
+      summary: `Settings updated: ${changedKeys.join(', ')}`,
+      target: { type: 'settings', id: changedKeys.join(',') },
+      before: previousSettings,
+      after: await getMultipleSettingsValues(req.serverDbConnection!, changedKeys)
+    }, req);
+
     const allSettings = await getAllSettings(req.serverDbConnection!);
     res.json({ settings: allSettings });
   } catch (error) {
@@ -2544,6 +2552,12 @@ router.post('/reset', async (req: Request, res: Response) => {
     
     // Ensure all default punishment types are added
     await addDefaultPunishmentTypes(req.serverDbConnection!);
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'settings.reset',
+      summary: 'Settings reset to defaults',
+      target: { type: 'settings', id: 'all' }
+    }, req);
     
     // Return the new settings
     const allSettings = await getAllSettings(req.serverDbConnection!);
@@ -2566,359 +2580,146 @@ router.post('/migrate-ticket-forms', async (req: Request, res: Response) => {
   }
 });
 
-// Unified API Key Management Routes - Moved before generic /:key route to prevent interception
+// API Key Management Routes - Moved before generic /:key route to prevent interception
 
-// Get current unified API key (masked for security)
-router.get('/api-key', async (req: Request, res: Response) => {
+function formatApiKey(apiKey: IApiKey) {
+  return {
+    id: apiKey._id.toString(),
+    name: apiKey.name,
+    keyPrefix: apiKey.keyPrefix,
+    scopes: apiKey.scopes,
+    allowedIps: apiKey.allowedIps,
+    expiresAt: apiKey.expiresAt,
+    createdBy: apiKey.createdBy,
+    createdAt: apiKey.createdAt,
+    lastUsedAt: apiKey.lastUsedAt,
+    lastUsedIp: apiKey.lastUsedIp
+  };
+}
+
+// List API keys (hashes are never returned, only the key prefix)
+router.get('/api-keys', async (req: Request, res: Response) => {
   if (!(await checkRoutePermission(req, res, 'admin.settings.view'))) return;
   try {
-    console.log('[Unified API Key GET] Request received');
-    console.log('[Unified API Key GET] Server name:', req.serverName);
-    console.log('[Unified API Key GET] DB connection exists:', !!req.serverDbConnection);
-    
-    const apiKeysData = await getSettingsValue(req.serverDbConnection!, 'apiKeys');
-    const apiKey = apiKeysData?.api_key;
-    
-    console.log('[Unified API Key GET] API key found:', !!apiKey);
-    console.log('[Unified API Key GET] API key exists:', !!apiKey);
-    console.log('[Unified API Key GET] API key length:', apiKey ? apiKey.length : 0);
-    
-    if (!apiKey) {
-      return res.json({ 
-        hasApiKey: false,
-        maskedKey: null
-      });
-    }
-    
-    // Return masked key for security (show only first 8 and last 4 characters)
-    const maskedKey = apiKey.length > 12 
-      ? `${apiKey.substring(0, 8)}...${apiKey.substring(apiKey.length - 4)}`
-      : apiKey; // For very short keys, don't mask
-    
-    console.log('[Unified API Key GET] Returning masked key:', maskedKey);
-    
-    res.json({ 
-      hasApiKey: true,
-      maskedKey: maskedKey
+    const apiKeys = await listApiKeys(req.serverDbConnection!);
+
+    res.json({
+      apiKeys: apiKeys.map(formatApiKey),
+      availableScopes: API_KEY_SCOPES
     });
   } catch (error) {
-    console.error('[Unified API Key GET] Error:', error);
+    console.error('Error listing API keys:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Generate new unified API key
-router.post('/api-key/generate', async (req: Request, res: Response) => {
+// Create a new API key
+router.post('/api-keys', async (req: Request, res: Response) => {
   if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
   try {
-    console.log('[Unified API Key GENERATE] Request received');
-    console.log('[Unified API Key GENERATE] Server name:', req.serverName);
-    console.log('[Unified API Key GENERATE] DB connection exists:', !!req.serverDbConnection);
-    
-    const Settings = req.serverDbConnection!.model('Settings');
-    
-    // Generate new API key
-    const newApiKey = generateTicketApiKey();
-    console.log('[Unified API Key GENERATE] Generated new API key with length:', newApiKey.length);
-    
-    // Update or create API keys document (only store unified api_key)
-    const apiKeysDoc = await Settings.findOneAndUpdate(
-      { type: 'apiKeys' },
-      { 
-        type: 'apiKeys', 
-        data: { 
-          api_key: newApiKey 
-        } 
-      },
-      { upsert: true, new: true }
-    );
-    
-    console.log(`[Unified API Key GENERATE] Created/Updated API Keys Document:`, apiKeysDoc ? 'Success' : 'Failed');
-    console.log(`[Unified API Key GENERATE] Stored API Key:`, apiKeysDoc?.data?.api_key ? 'Success' : 'Failed');
-    
-    console.log('[Unified API Key GENERATE] Saved new API key to apiKeys document');
-    
-    console.log('[Unified API Key GENERATE] Saved new API key to settings');
-    
-    // Return the full key only once (for copying)
-    res.json({ 
-      apiKey: newApiKey,
-      message: 'New API key generated successfully. Please save this key as it will not be shown again.' 
-    });
-  } catch (error) {
-    console.error('[Unified API Key GENERATE] Error:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+    const { name, scopes, allowedIps = [], expiresAt } = req.body;
 
-// Get full unified API key (for revealing/copying)
-router.get('/api-key/reveal', async (req: Request, res: Response) => {
-  if (!(await checkRoutePermission(req, res, 'admin.settings.view'))) return;
-  try {
-    console.log('[Unified API Key REVEAL] Request received');
-    console.log('[Unified API Key REVEAL] Server name:', req.serverName);
-    
-    const apiKeysData = await getSettingsValue(req.serverDbConnection!, 'apiKeys');
-    const apiKey = apiKeysData?.api_key;
-    
-    if (!apiKey) {
-      return res.status(404).json({ 
-        error: 'API key not found'
-      });
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ error: 'A name is required' });
     }
-    
-    // Return the full key
-    res.json({ 
-      apiKey: apiKey
-    });
-  } catch (error) {
-    console.error('[Unified API Key REVEAL] Error:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
 
-// Revoke unified API key
-router.delete('/api-key', async (req: Request, res: Response) => {
-  if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
-  try {
-    const Settings = req.serverDbConnection!.model('Settings');
-    
-    // Update API keys document to remove the api_key
-    const apiKeysDoc = await Settings.findOne({ type: 'apiKeys' });
-    if (apiKeysDoc && apiKeysDoc.data) {
-      delete apiKeysDoc.data.api_key;
-      await Settings.findOneAndUpdate(
-        { type: 'apiKeys' },
-        { type: 'apiKeys', data: apiKeysDoc.data },
-        { new: true }
-      );
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      return res.status(400).json({ error: 'At least one scope is required' });
     }
-    
-    res.json({ 
-      message: 'API key revoked successfully' 
-    });
-  } catch (error) {
-    console.error('Error revoking API key:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
 
-// Legacy API Key Management Routes (for backward compatibility)
+    const invalidScopes = scopes.filter((scope: unknown) => !isApiKeyScope(scope));
+    if (invalidScopes.length > 0) {
+      return res.status(400).json({ error: `Invalid scopes: ${invalidScopes.join(', ')}` });
+    }
 
-// Get current ticket API key (masked for security)
-router.get('/ticket-api-key', async (req: Request, res: Response) => {
-  if (!(await checkRoutePermission(req, res, 'admin.settings.view'))) return;
-  try {
-    console.log('[Ticket API Key GET] Request received');
-    console.log('[Ticket API Key GET] Server name:', req.serverName);
-    console.log('[Ticket API Key GET] DB connection exists:', !!req.serverDbConnection);
-    
-    const Settings = req.serverDbConnection!.model<ISettingsDocument>('Settings');
-    const settingsDoc = await Settings.findOne({});
-    
-    console.log('[Ticket API Key GET] Settings doc found:', !!settingsDoc);
-    console.log('[Ticket API Key GET] Settings map exists:', !!settingsDoc?.settings);
-    
-    if (!settingsDoc || !settingsDoc.settings) {
-      console.log('[Ticket API Key GET] No settings found, returning 404');
-      return res.status(404).json({ error: 'Settings not found' });
+    if (!Array.isArray(allowedIps) || allowedIps.some((ip: unknown) => typeof ip !== 'string')) {
+      return res.status(400).json({ error: 'allowedIps must be a list of IP addresses or CIDR ranges' });
     }
-    
-    const apiKey = settingsDoc.settings.get('ticket_api_key');
-    console.log('[Ticket API Key GET] API key exists:', !!apiKey);
-    console.log('[Ticket API Key GET] API key length:', apiKey ? apiKey.length : 0);
-    
-    if (!apiKey) {
-      console.log('[Ticket API Key GET] No API key found, returning hasApiKey: false');
-      return res.json({ 
-        hasApiKey: false,
-        maskedKey: null
-      });
+
+    const normalizedIps = allowedIps.map((ip: string) => ip.trim()).filter(Boolean);
+    const invalidIps = getInvalidIpEntries(normalizedIps);
+    if (invalidIps.length > 0) {
+      return res.status(400).json({ error: `Invalid IP addresses or CIDR ranges: ${invalidIps.join(', ')}` });
     }
-    
-    // Return masked key for security (show only first 8 and last 4 characters)
-    const maskedKey = apiKey.length > 12 
-      ? `${apiKey.substring(0, 8)}...${apiKey.substring(apiKey.length - 4)}`
-      : `${apiKey.substring(0, 4)}...`;
-    
-    console.log('[Ticket API Key GET] Returning masked key:', maskedKey);
-    res.json({ 
-      hasApiKey: true,
-      maskedKey 
+
+    let expiryDate: Date | null = null;
+    if (expiresAt) {
+      expiryDate = new Date(expiresAt);
+      if (isNaN(expiryDate.getTime()) || expiryDate.getTime() <= Date.now()) {
+        return res.status(400).json({ error: 'Expiry date must be in the future' });
+      }
+    }
+
+    const createdBy = req.session?.username || 'Unknown';
+    const { apiKey, record } = await createApiKey(req.serverDbConnection!, {
+      name: name.trim(),
+      scopes: Array.from(new Set(scopes)),
+      allowedIps: normalizedIps,
+      expiresAt: expiryDate,
+      createdBy
     });
-  } catch (error) {
-    console.error('Error fetching ticket API key:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
 
-// Generate new ticket API key
-router.post('/ticket-api-key/generate', async (req: Request, res: Response) => {
-  if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
-  try {
-    console.log('[Ticket API Key GENERATE] Request received');
-    console.log('[Ticket API Key GENERATE] Server name:', req.serverName);
-    console.log('[Ticket API Key GENERATE] DB connection exists:', !!req.serverDbConnection);
-    
-    const Settings = req.serverDbConnection!.model('Settings');
-    
-    // Generate new API key
-    const newApiKey = generateTicketApiKey();
-    console.log('[Ticket API Key GENERATE] Generated new API key with length:', newApiKey.length);
-    
-    // Get existing API keys data
-    const existingApiKeysDoc = await Settings.findOne({ type: 'apiKeys' });
-    const currentApiKeys = existingApiKeysDoc?.data || {};
-    
-    // Update or create API keys document
-    await Settings.findOneAndUpdate(
-      { type: 'apiKeys' },
-      { 
-        type: 'apiKeys', 
-        data: { 
-          ...currentApiKeys,
-          ticket_api_key: newApiKey 
-        } 
-      },
-      { upsert: true, new: true }
+    await createSystemLog(
+      req.serverDbConnection,
+      req.serverName,
+      `API key "${record.name}" created by ${createdBy} with scopes: ${record.scopes.join(', ')}`,
+      'info',
+      'settings'
     );
-    console.log('[Ticket API Key GENERATE] Saved API key to database');
-    
-    // Verify it was saved
-    const verifyDoc = await Settings.findOne({});
-    const savedKey = verifyDoc?.settings.get('ticket_api_key');
-    console.log('[Ticket API Key GENERATE] Verification - API key saved correctly:', !!savedKey);
-    console.log('[Ticket API Key GENERATE] Verification - API key matches:', savedKey === newApiKey);
-    
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'api_key.created',
+      summary: `API key "${record.name}" created with scopes: ${record.scopes.join(', ')}`,
+      target: { type: 'api_key', id: formatApiKey(record).id, name: record.name },
+      after: formatApiKey(record)
+    }, req);
+
     // Return the full key only once (for copying)
-    res.json({ 
-      apiKey: newApiKey,
-      message: 'New ticket API key generated successfully. Please save this key as it will not be shown again.' 
+    res.status(201).json({
+      apiKey,
+      key: formatApiKey(record),
+      message: 'API key created successfully. Please save this key as it will not be shown again.'
     });
   } catch (error) {
-    console.error('Error generating ticket API key:', error);
+    console.error('Error creating API key:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Revoke ticket API key
-router.delete('/ticket-api-key', async (req: Request, res: Response) => {
+// Revoke an API key
+router.delete('/api-keys/:id', async (req: Request, res: Response) => {
   if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
   try {
-    const Settings = req.serverDbConnection!.model<ISettingsDocument>('Settings');
-    const settingsDoc = await Settings.findOne({});
-    
-    if (!settingsDoc || !settingsDoc.settings) {
-      return res.status(404).json({ error: 'Settings not found' });
+    if (!Types.ObjectId.isValid(req.params.id)) {
+      return res.status(404).json({ error: 'API key not found' });
     }
-    
-    // Remove the API key
-    settingsDoc.settings.delete('ticket_api_key');
-    await settingsDoc.save();
-    
-    res.json({ 
-      message: 'Ticket API key revoked successfully' 
-    });
-  } catch (error) {
-    console.error('Error revoking ticket API key:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
 
-// Minecraft API Key Management Routes
+    const revokedBy = req.session?.username || 'Unknown';
+    const record = await revokeApiKey(req.serverDbConnection!, req.params.id, revokedBy);
 
-// Get current minecraft API key (masked for security)
-router.get('/minecraft-api-key', async (req: Request, res: Response) => {
-  if (!(await checkRoutePermission(req, res, 'admin.settings.view'))) return;
-  try {
-    const Settings = req.serverDbConnection!.model<ISettingsDocument>('Settings');
-    const settingsDoc = await Settings.findOne({});
-    
-    if (!settingsDoc || !settingsDoc.settings) {
-      return res.status(404).json({ error: 'Settings not found' });
-    }
-    
-    const apiKey = settingsDoc.settings.get('minecraft_api_key');
-    
-    if (!apiKey) {
-      return res.json({ 
-        hasApiKey: false,
-        maskedKey: null
-      });
+    if (!record) {
+      return res.status(404).json({ error: 'API key not found' });
     }
-    
-    // Return masked key for security (show only first 8 and last 4 characters)
-    const maskedKey = apiKey.length > 12 
-      ? `${apiKey.substring(0, 8)}...${apiKey.substring(apiKey.length - 4)}`
-      : `${apiKey.substring(0, 4)}...`;
-    
-    res.json({ 
-      hasApiKey: true,
-      maskedKey 
-    });
-  } catch (error) {
-    console.error('Error fetching minecraft API key:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
 
-// Generate new minecraft API key
-router.post('/minecraft-api-key/generate', async (req: Request, res: Response) => {
-  if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
-  try {
-    const Settings = req.serverDbConnection!.model('Settings');
-    
-    // Generate new API key (using same function as ticket API key)
-    const newApiKey = generateTicketApiKey();
-    
-    // Get existing API keys data
-    const existingApiKeysDoc = await Settings.findOne({ type: 'apiKeys' });
-    const currentApiKeys = existingApiKeysDoc?.data || {};
-    
-    // Update or create API keys document
-    await Settings.findOneAndUpdate(
-      { type: 'apiKeys' },
-      { 
-        type: 'apiKeys', 
-        data: { 
-          ...currentApiKeys,
-          minecraft_api_key: newApiKey 
-        } 
-      },
-      { upsert: true, new: true }
+    await createSystemLog(
+      req.serverDbConnection,
+      req.serverName,
+      `API key "${record.name}" revoked by ${revokedBy}`,
+      'info',
+      'settings'
     );
-    
-    // Return the full key only once (for copying)
-    res.json({ 
-      apiKey: newApiKey,
-      message: 'New minecraft API key generated successfully. Please save this key as it will not be shown again.' 
-    });
-  } catch (error) {
-    console.error('Error generating minecraft API key:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
-
-// Revoke minecraft API key
-router.delete('/minecraft-api-key', async (req: Request, res: Response) => {
-  if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
-  try {
-    const Settings = req.serverDbConnection!.model<ISettingsDocument>('Settings');
-    const settingsDoc = await Settings.findOne({});
-    
-    if (!settingsDoc || !settingsDoc.settings) {
-      return res.status(404).json({ error: 'Settings not found' });
-    }
-    
-    // Remove the API key
-    settingsDoc.settings.delete('minecraft_api_key');
-    await settingsDoc.save();
-    
-    res.json({ 
-      message: 'Minecraft API key revoked successfully' 
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'api_key.revoked',
+      summary: `API key "${record.name}" revoked`,
+      target: { type: 'api_key', id: req.params.id, name: record.name },
+      before: { revoked: false },
+      after: { revoked: true }
+    }, req);
+
+    res.json({
+      message: 'API key revoked successfully'
     });
   } catch (error) {
-    console.error('Error revoking minecraft API key:', error);
+    console.error('Error revoking API key:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -3247,7 +3048,7 @@ router.get('/ai-moderation-settings', async (req: Request, res: Response) => {
       strictnessLevel: 'standard'
     };
 
-    res.json({ success: true, data: aiSettings });
+    res.json({ success: true, data: { ...aiSettings, llm: toPublicLLMSettings(aiSettings.llm) } });
   } catch (error) {
     console.error('Error fetching AI moderation settings:', error);
     res.status(500).json({ error: 'Failed to fetch AI moderation settings' });
@@ -3256,12 +3057,13 @@ router.get('/ai-moderation-settings', async (req: Request, res: Response) => {
 
 // Update AI moderation settings
 router.put('/ai-moderation-settings', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
   try {
     if (!req.serverDbConnection) {
       return res.status(500).json({ error: 'Database connection not available' });
     }
 
-    const { enableAIReview, enableAutomatedActions, strictnessLevel, aiPunishmentConfigs } = req.body;
+    const { enableAIReview, enableAutomatedActions, strictnessLevel, aiPunishmentConfigs, llm } = req.body;
 
     // Validate input
     if (enableAIReview !== undefined && typeof enableAIReview !== 'boolean') {
@@ -3276,6 +3078,13 @@ router.put('/ai-moderation-settings', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'strictnessLevel must be lenient, standard, or strict' });
     }
 
+    if (llm !== undefined) {
+      const llmError = validateLLMSettings(llm);
+      if (llmError) {
+        return res.status(400).json({ error: llmError });
+      }
+    }
+
     const SettingsModel = req.serverDbConnection.model('Settings');
     
     // Get current AI moderation settings
@@ -3292,6 +3101,7 @@ router.put('/ai-moderation-settings', async (req: Request, res: Response) => {
       enableAIReview: enableAIReview !== undefined ? enableAIReview : currentSettings.enableAIReview,
       enableAutomatedActions,
       strictnessLevel,
+      llm: llm ? mergeSubmittedLLMSettings(llm, currentSettings.llm) : resolveLLMSettings(currentSettings.llm),
       aiPunishmentConfigs: aiPunishmentConfigs || currentSettings.aiPunishmentConfigs || {}
     };
 
@@ -3311,6 +3121,41 @@ router.put('/ai-moderation-settings', async (req: Request, res: Response) => {
   }
 });
 
+// Test the configured LLM provider
+router.post('/ai-moderation-settings/test-connection', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    // Test the settings from the request if provided, otherwise the saved ones
+    const savedSettings = await getSettingsValue(req.serverDbConnection, 'aiModerationSettings');
+    if (req.body?.llm) {
+      const llmError = validateLLMSettings(req.body.llm);
+      if (llmError) {
+        return res.status(400).json({ success: false, error: llmError });
+      }
+    }
+    const llmSettings = req.body?.llm
+      ? mergeSubmittedLLMSettings(req.body.llm, savedSettings?.llm)
+      : resolveLLMSettings(savedSettings?.llm);
+
+    let provider;
+    try {
+      provider = createLLMProvider(llmSettings);
+    } catch (error) {
+      return res.status(400).json({ success: false, error: (error as Error).message });
+    }
+
+    const connected = await testLLMConnection(provider);
+    res.json({ success: connected, provider: provider.name, model: provider.model });
+  } catch (error) {
+    console.error('Error testing LLM provider connection:', error);
+    res.status(500).json({ error: 'Failed to test LLM provider connection' });
+  }
+});
+
 // Manual cleanup endpoint for orphaned AI punishment configurations
 router.post('/cleanup-ai-configs', async (req: Request, res: Response) => {
   try {
@@ -3401,7 +3246,9 @@ router.post('/ai-apply-punishment/:ticketId', async (req: Request, res: Response
       aiAnalysis.suggestedAction.severity,
       `AI-suggested moderation (applied by ${staffName}) - ${aiAnalysis.analysis}`,
       ticketId,
-      staffName
+      staffName,
+      false,
+      req
     );
 
     if (!punishmentResult.success) {
@@ -3587,6 +3434,516 @@ router.post('/ai-dismiss-suggestion/:ticketId', async (req: Request, res: Respon
   }
 });
 
+// Get alt detection settings
+router.get('/alt-detection', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.view'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    res.json({ success: true, data: await getAltDetectionSettings(req.serverDbConnection) });
+  } catch (error) {
+    console.error('Error fetching alt detection settings:', error);
+    res.status(500).json({ error: 'Failed to fetch alt detection settings' });
+  }
+});
+
+// Update alt detection settings
+router.put('/alt-detection', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    const { minLinkConfidence, linkedBanMinConfidence } = req.body;
+    const isConfidence = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+
+    if (!isConfidence(minLinkConfidence)) {
+      return res.status(400).json({ error: 'minLinkConfidence must be a number between 0 and 100' });
+    }
+    if (!isConfidence(linkedBanMinConfidence)) {
+      return res.status(400).json({ error: 'linkedBanMinConfidence must be a number between 0 and 100' });
+    }
+
+    const previousSettings = await getAltDetectionSettings(req.serverDbConnection);
+    const updatedSettings = { minLinkConfidence, linkedBanMinConfidence };
+
+    await req.serverDbConnection.model('Settings').findOneAndUpdate(
+      { type: 'altDetection' },
+      { type: 'altDetection', data: updatedSettings },
+      { upsert: true }
+    );
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'settings.updated',
+      summary: 'Settings updated: altDetection',
+      target: { type: 'settings', id: 'altDetection' },
+      before: previousSettings,
+      after: updatedSettings
+    }, req);
+
+    res.json({ success: true, data: updatedSettings });
+  } catch (error) {
+    console.error('Error updating alt detection settings:', error);
+    res.status(500).json({ error: 'Failed to update alt detection settings' });
+  }
+});
+
+// List alt detection backfill jobs, newest first
+router.get('/alt-detection/backfill-jobs', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.view'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    const jobs = await getAltBackfillJobModel(req.serverDbConnection).find({}, { changes: 0 })
+      .sort({ startedAt: -1 })
+      .limit(20);
+
+    res.json({ jobs: jobs.map(job => formatAltBackfillJob(job)) });
+  } catch (error) {
+    console.error('Error fetching alt detection backfill jobs:', error);
+    res.status(500).json({ error: 'Failed to fetch alt detection backfill jobs' });
+  }
+});
+
+// Alt detection backfill progress and the links it added and removed
+router.get('/alt-detection/backfill-jobs/:id', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.view'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    const job = await getAltBackfillJobModel(req.serverDbConnection).findById(req.params.id).catch(() => null);
+    if (!job) {
+      return res.status(404).json({ error: 'Backfill job not found' });
+    }
+
+    res.json({ job: formatAltBackfillJob(job, true) });
+  } catch (error) {
+    console.error('Error fetching alt detection backfill job:', error);
+    res.status(500).json({ error: 'Failed to fetch alt detection backfill job' });
+  }
+});
+
+// Rescan every player and rebuild their linked accounts in the background
+router.post('/alt-detection/backfill-jobs', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    const { issueLinkedBans } = req.body;
+    if (issueLinkedBans !== undefined && typeof issueLinkedBans !== 'boolean') {
+      return res.status(400).json({ error: 'issueLinkedBans must be a boolean' });
+    }
+
+    const job = await startAltBackfillJob(req.serverDbConnection, req.serverName, {
+      issueLinkedBans: issueLinkedBans === true,
+      actor: resolveAuditActor(req)
+    });
+    if (!job) {
+      return res.status(409).json({ error: 'An alt detection backfill is already running' });
+    }
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'player.links_backfill_started',
+      summary: `Alt detection backfill started for ${job.progress.total} players${job.issueLinkedBans ? ', issuing linked bans' : ''}`,
+      target: { type: 'alt_backfill_job', id: job._id.toString() },
+      metadata: { issueLinkedBans: job.issueLinkedBans, players: job.progress.total }
+    }, req);
+
+    res.status(202).json({ job: formatAltBackfillJob(job) });
+  } catch (error) {
+    console.error('Error starting alt detection backfill:', error);
+    res.status(500).json({ error: 'Failed to start alt detection backfill' });
+  }
+});
+
+// Get the message shown to connections denied by a network ban
+router.get('/network-bans', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.view'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    res.json({ success: true, data: await getNetworkBanSettings(req.serverDbConnection) });
+  } catch (error) {
+    console.error('Error fetching network ban settings:', error);
+    res.status(500).json({ error: 'Failed to fetch network ban settings' });
+  }
+});
+
+// Update network ban settings
+router.put('/network-bans', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    const { denyMessage } = req.body;
+    if (typeof denyMessage !== 'string' || !denyMessage.trim()) {
+      return res.status(400).json({ error: 'denyMessage must be a non-empty string' });
+    }
+
+    const previousSettings = await getNetworkBanSettings(req.serverDbConnection);
+    const updatedSettings = { denyMessage: denyMessage.trim() };
+
+    await req.serverDbConnection.model('Settings').findOneAndUpdate(
+      { type: 'networkBans' },
+      { type: 'networkBans', data: updatedSettings },
+      { upsert: true }
+    );
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'settings.updated',
+      summary: 'Settings updated: networkBans',
+      target: { type: 'settings', id: 'networkBans' },
+      before: previousSettings,
+      after: updatedSettings
+    }, req);
+
+    res.json({ success: true, data: updatedSettings });
+  } catch (error) {
+    console.error('Error updating network ban settings:', error);
+    res.status(500).json({ error: 'Failed to update network ban settings' });
+  }
+});
+
+// Get how long raw login events are kept
+router.get('/login-history', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.view'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    res.json({ success: true, data: await getLoginHistorySettings(req.serverDbConnection) });
+  } catch (error) {
+    console.error('Error fetching login history settings:', error);
+    res.status(500).json({ error: 'Failed to fetch login history settings' });
+  }
+});
+
+// Update login history settings
+router.put('/login-history', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    const { retentionDays } = req.body;
+    if (!Number.isInteger(retentionDays) || retentionDays < MIN_RETENTION_DAYS || retentionDays > MAX_RETENTION_DAYS) {
+      return res.status(400).json({ error: `retentionDays must be a whole number between ${MIN_RETENTION_DAYS} and ${MAX_RETENTION_DAYS}` });
+    }
+
+    const previousSettings = await getLoginHistorySettings(req.serverDbConnection);
+    const updatedSettings = { retentionDays };
+
+    await req.serverDbConnection.model('Settings').findOneAndUpdate(
+      { type: 'loginHistory' },
+      { type: 'loginHistory', data: updatedSettings },
+      { upsert: true }
+    );
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'settings.updated',
+      summary: 'Settings updated: loginHistory',
+      target: { type: 'settings', id: 'loginHistory' },
+      before: previousSettings,
+      after: updatedSettings
+    }, req);
+
+    res.json({ success: true, data: updatedSettings });
+  } catch (error) {
+    console.error('Error updating login history settings:', error);
+    res.status(500).json({ error: 'Failed to update login history settings' });
+  }
+});
+
+// Get ticket categories
+router.get('/ticket-categories', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.view'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    res.json({ success: true, data: { categories: await getTicketCategories(req.serverDbConnection) } });
+  } catch (error) {
+    console.error('Error fetching ticket categories:', error);
+    res.status(500).json({ error: 'Failed to fetch ticket categories' });
+  }
+});
+
+// Update ticket categories
+router.put('/ticket-categories', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    const { categories, error } = normalizeTicketCategories(req.body.categories);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const previousCategories = await getTicketCategories(req.serverDbConnection);
+    const updatedSettings = { categories: categories! };
+
+    await req.serverDbConnection.model('Settings').findOneAndUpdate(
+      { type: 'ticketCategories' },
+      { type: 'ticketCategories', data: updatedSettings },
+      { upsert: true }
+    );
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'settings.updated',
+      summary: 'Settings updated: ticketCategories',
+      target: { type: 'settings', id: 'ticketCategories' },
+      before: { categories: previousCategories },
+      after: updatedSettings
+    }, req);
+
+    res.json({ success: true, data: updatedSettings });
+  } catch (error) {
+    console.error('Error updating ticket categories:', error);
+    res.status(500).json({ error: 'Failed to update ticket categories' });
+  }
+});
+
+// Get ticket queues
+router.get('/ticket-queues', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.view'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    res.json({ success: true, data: { queues: await getTicketQueues(req.serverDbConnection) } });
+  } catch (error) {
+    console.error('Error fetching ticket queues:', error);
+    res.status(500).json({ error: 'Failed to fetch ticket queues' });
+  }
+});
+
+// Update ticket queues
+router.put('/ticket-queues', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    const { queues, error } = normalizeTicketQueues(req.body.queues, await getTicketCategories(req.serverDbConnection));
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const previousQueues = await getTicketQueues(req.serverDbConnection);
+    const updatedSettings = { queues: queues! };
+
+    await req.serverDbConnection.model('Settings').findOneAndUpdate(
+      { type: 'ticketQueues' },
+      { type: 'ticketQueues', data: updatedSettings },
+      { upsert: true }
+    );
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'settings.updated',
+      summary: 'Settings updated: ticketQueues',
+      target: { type: 'settings', id: 'ticketQueues' },
+      before: { queues: previousQueues },
+      after: updatedSettings
+    }, req);
+
+    res.json({ success: true, data: updatedSettings });
+  } catch (error) {
+    console.error('Error updating ticket queues:', error);
+    res.status(500).json({ error: 'Failed to update ticket queues' });
+  }
+});
+
+// Get ticket SLA and inactivity settings
+router.get('/ticket-sla', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.view'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    res.json({ success: true, data: await getTicketSlaSettings(req.serverDbConnection) });
+  } catch (error) {
+    console.error('Error fetching ticket SLA settings:', error);
+    res.status(500).json({ error: 'Failed to fetch ticket SLA settings' });
+  }
+});
+
+// Update ticket SLA and inactivity settings
+router.put('/ticket-sla', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    const { settings, error } = normalizeTicketSlaSettings(req.body, await getTicketCategories(req.serverDbConnection));
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const previousSettings = await getTicketSlaSettings(req.serverDbConnection);
+
+    await req.serverDbConnection.model('Settings').findOneAndUpdate(
+      { type: 'ticketSla' },
+      { type: 'ticketSla', data: settings },
+      { upsert: true }
+    );
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'settings.updated',
+      summary: 'Settings updated: ticketSla',
+      target: { type: 'settings', id: 'ticketSla' },
+      before: previousSettings,
+      after: settings
+    }, req);
+
+    res.json({ success: true, data: settings });
+  } catch (error) {
+    console.error('Error updating ticket SLA settings:', error);
+    res.status(500).json({ error: 'Failed to update ticket SLA settings' });
+  }
+});
+
+// Get ticket automation rules
+router.get('/ticket-rules', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.view'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    res.json({ success: true, data: { rules: await getTicketRules(req.serverDbConnection) } });
+  } catch (error) {
+    console.error('Error fetching ticket rules:', error);
+    res.status(500).json({ error: 'Failed to fetch ticket rules' });
+  }
+});
+
+// Update ticket automation rules
+router.put('/ticket-rules', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    const { rules, error } = normalizeTicketRules(req.body.rules, await getTicketCategories(req.serverDbConnection));
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const previousRules = await getTicketRules(req.serverDbConnection);
+    const updatedSettings = { rules: rules! };
+
+    await req.serverDbConnection.model('Settings').findOneAndUpdate(
+      { type: 'ticketRules' },
+      { type: 'ticketRules', data: updatedSettings },
+      { upsert: true }
+    );
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'settings.updated',
+      summary: 'Settings updated: ticketRules',
+      target: { type: 'settings', id: 'ticketRules' },
+      before: { rules: previousRules },
+      after: updatedSettings
+    }, req);
+
+    res.json({ success: true, data: updatedSettings });
+  } catch (error) {
+    console.error('Error updating ticket rules:', error);
+    res.status(500).json({ error: 'Failed to update ticket rules' });
+  }
+});
+
+// Recent executions of a ticket rule
+router.get('/ticket-rules/:id/executions', async (req: Request<{ id: string }>, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.view'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    const limit = parseInt(req.query.limit as string) || 50;
+    const executions = await listTicketRuleExecutions(req.serverDbConnection, { ruleId: req.params.id }, limit);
+    res.json({ success: true, data: { executions } });
+  } catch (error) {
+    console.error('Error fetching ticket rule executions:', error);
+    res.status(500).json({ error: 'Failed to fetch ticket rule executions' });
+  }
+});
+
+// Get the ticket status workflow
+router.get('/ticket-workflow', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.view'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    res.json({ success: true, data: await getTicketWorkflow(req.serverDbConnection) });
+  } catch (error) {
+    console.error('Error fetching ticket workflow:', error);
+    res.status(500).json({ error: 'Failed to fetch ticket workflow' });
+  }
+});
+
+// Update the ticket status workflow
+router.put('/ticket-workflow', async (req: Request, res: Response) => {
+  if (!(await checkRoutePermission(req, res, 'admin.settings.modify'))) return;
+  try {
+    if (!req.serverDbConnection) {
+      return res.status(500).json({ error: 'Database connection not available' });
+    }
+
+    const { workflow, error } = normalizeTicketWorkflow(req.body.transitions);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const previousWorkflow = await getTicketWorkflow(req.serverDbConnection);
+
+    await req.serverDbConnection.model('Settings').findOneAndUpdate(
+      { type: 'ticketWorkflow' },
+      { type: 'ticketWorkflow', data: workflow },
+      { upsert: true }
+    );
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'settings.updated',
+      summary: 'Settings updated: ticketWorkflow',
+      target: { type: 'settings', id: 'ticketWorkflow' },
+      before: previousWorkflow,
+      after: workflow
+    }, req);
+
+    res.json({ success: true, data: workflow });
+  } catch (error) {
+    console.error('Error updating ticket workflow:', error);
+    res.status(500).json({ error: 'Failed to update ticket workflow' });
+  }
+});
+
 // Get AI analysis for a specific ticket
 router.get('/ai-analysis/:ticketId', async (req: Request, res: Response) => {
   try {
@@ -3644,8 +4001,17 @@ router.put('/:key', async (req: Request<{ key: string }, {}, { value: any }>, re
     if (!settingsDoc || !settingsDoc.settings) { // Should not happen
         return res.status(500).json({ error: 'Failed to retrieve or create settings document for update' });
     }
+    const previousValue = settingsDoc.settings.get(req.params.key);
     settingsDoc.settings.set(req.params.key, req.body.value);
     await settingsDoc.save();
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'settings.updated',
+      summary: `Setting ${req.params.key} updated`,
+      target: { type: 'settings', id: req.params.key },
+      before: { [req.params.key]: previousValue },
+      after: { [req.params.key]: req.body.value }
+    }, req);
     
     // Clean up orphaned AI punishment configs if punishment types were updated
     if (req.params.key === 'punishmentTypes') {
@@ -3694,15 +4060,19 @@ router.post('/upload-icon', upload.single('icon'), async (req: Request, res: Res
     }
 
     // Create uploads directory if it doesn't exist
-    const uploadsDir = path.join(process.cwd(), 'uploads', serverName);
+    const uploadsDir = path.join(getLocalStoragePath(), serverName);
     try {
       await mkdir(uploadsDir, { recursive: true });
     } catch (error) {
       // Directory might already exist, ignore error
     }
 
-    // Generate filename with timestamp to avoid caching issues
-    const fileExtension = path.extname(req.file.originalname) || '.png';
+    // Generate filename with timestamp to avoid caching issues, typed by the checked
+    // content type rather than the uploaded name
+    const fileExtension = getFileExtension(req.file.mimetype);
+    if (!fileExtension || !SUPPORTED_FILE_TYPES['server-icons'].includes(req.file.mimetype)) {
+      return res.status(400).json({ error: 'Server icons must be JPEG, PNG, GIF or WebP images' });
+    }
     const fileName = `${iconType}-icon-${Date.now()}${fileExtension}`;
     const filePath = path.join(uploadsDir, fileName);
 
@@ -10,6 +10,8 @@ import { getModlServersModel } from '../db/connectionManager';
 import { strictRateLimit, authRateLimit } from '../middleware/rate-limiter';
 import { getSettingsValue } from './settings-routes';
 import EmailTemplateService from '../services/email-template-service';
+import { triggerWebhookEvent } from '../services/webhook-service';
+import { recordAuditEvent } from '../services/audit-service';
 
 const router = express.Router();
 
@@ -166,6 +168,13 @@ router.post('/invite', authRateLimit, async (req: Request, res: Response) => {
       role: role
     });
 
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'staff.invited',
+      summary: `${email} invited as ${role}`,
+      target: { type: 'invitation', id: newInvitation._id.toString(), name: email },
+      after: { email, role, expiresAt }
+    }, req);
+
     res.status(201).json({ message: 'Invitation sent successfully.' });
   } catch (error) {
     console.error('Error inviting staff:', error);
@@ -239,9 +248,15 @@ router.delete('/:id', async (req: Request, res: Response) => {
 
     try {
         const InvitationModel = req.serverDbConnection!.model('Invitation');
-        const invitationResult = await InvitationModel.deleteOne({ _id: id });
-
-        if (invitationResult.deletedCount > 0) {
+        const invitation = await InvitationModel.findByIdAndDelete(id);
+
+        if (invitation) {
+            await recordAuditEvent(req.serverDbConnection, req.serverName, {
+                action: 'staff.invitation_cancelled',
+                summary: `Invitation for ${invitation.email} cancelled`,
+                target: { type: 'invitation', id, name: invitation.email },
+                before: { email: invitation.email, role: invitation.role, status: invitation.status }
+            }, req);
             return res.status(200).json({ message: 'Invitation cancelled successfully.' });
         }
 
@@ -282,6 +297,13 @@ router.delete('/:id', async (req: Request, res: Response) => {
 
         await Staff.findByIdAndDelete(id);
 
+        await recordAuditEvent(req.serverDbConnection, req.serverName, {
+            action: 'staff.removed',
+            summary: `Staff member ${userToRemove.username} removed`,
+            target: { type: 'staff', id, name: userToRemove.username },
+            before: { username: userToRemove.username, email: userToRemove.email, role: userToRemove.role }
+        }, req);
+
         // Invalidate sessions for the removed user
         const sessionStore = req.sessionStore;
         sessionStore.all((err: any, sessions: { [x: string]: any; }) => {
@@ -395,6 +417,13 @@ router.post('/', isAuthenticated, async (req: Request<{}, {}, CreateStaffBody>,
     });
     
     await newStaff.save();
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'staff.created',
+      summary: `Staff member ${username} created with role ${finalRole}`,
+      target: { type: 'staff', id: newStaff._id.toString(), name: username },
+      after: { username, email, role: finalRole }
+    }, req);
     
     const safeStaff = newStaff.toObject() as Partial<IStaff>;    delete safeStaff.twoFaSecret;
     
@@ -430,6 +459,7 @@ router.patch('/:username', async (req: Request<{ username: string }, {}, UpdateS
     // Ensure req.session.username and req.session.admin are available from the session.
 
     let changesMade = false;
+    const previousState = { email: staffMember.email, role: staffMember.role };
 
     if (email !== undefined && email !== staffMember.email) {
       if (req.currentUser!.username !== staffMember.username) {
@@ -452,6 +482,14 @@ router.patch('/:username', async (req: Request<{ username: string }, {}, UpdateS
 
     if (changesMade) {
       await staffMember.save();
+
+      await recordAuditEvent(req.serverDbConnection, req.serverName, {
+        action: previousState.role !== staffMember.role ? 'staff.role_changed' : 'staff.updated',
+        summary: `Staff member ${staffMember.username} updated`,
+        target: { type: 'staff', id: staffMember._id.toString(), name: staffMember.username },
+        before: previousState,
+        after: { email: staffMember.email, role: staffMember.role }
+      }, req);
     }
     
     const safeStaff = staffMember.toObject() as Partial<IStaff>;    delete safeStaff.twoFaSecret;
@@ -538,9 +576,25 @@ router.patch('/:id/role', async (req: Request<{ id: string }, {}, { role: IStaff
       return res.status(200).json({ message: 'Role is already set to the specified value.', staffMember: staffToUpdate });
     }
 
+    const previousRole = staffToUpdate.role;
     staffToUpdate.role = newRole;
     await staffToUpdate.save();
 
+    triggerWebhookEvent(req.serverDbConnection, req.serverName, 'staff.role_changed', {
+      staffId: staffToUpdate._id.toString(),
+      username: staffToUpdate.username,
+      previousRole,
+      newRole,
+      changedBy: req.session?.username
+    });
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'staff.role_changed',
+      summary: `Role of ${staffToUpdate.username} changed from ${previousRole} to ${newRole}`,
+      target: { type: 'staff', id: staffToUpdate._id.toString(), name: staffToUpdate.username },
+      before: { role: previousRole },
+      after: { role: newRole }
+    }, req);
+
     // Invalidate sessions for the user if their role changed, forcing re-login for new permissions
     // This is important if session-based permissions are granular.
     // For simplicity, we might skip direct session invalidation here if role changes are infrequent
@@ -590,11 +644,24 @@ router.patch('/:username/minecraft-player', async (req: Request<{ username: stri
       return res.status(404).json({ error: 'Staff member not found' });
     }
 
+    const previousAssignment = {
+      assignedMinecraftUuid: staffMember.assignedMinecraftUuid || null,
+      assignedMinecraftUsername: staffMember.assignedMinecraftUsername || null
+    };
+
     // If clearing assignment
     if (!minecraftUuid && !minecraftUsername) {
       staffMember.assignedMinecraftUuid = undefined;
       staffMember.assignedMinecraftUsername = undefined;
       await staffMember.save();
+
+      await recordAuditEvent(req.serverDbConnection, req.serverName, {
+        action: 'staff.minecraft_assignment_changed',
+        summary: `Minecraft player assignment of ${staffMember.username} cleared`,
+        target: { type: 'staff', id: staffMember._id.toString(), name: staffMember.username },
+        before: previousAssignment,
+        after: { assignedMinecraftUuid: null, assignedMinecraftUsername: null }
+      }, req);
       
       return res.json({ 
         message: 'Minecraft player assignment cleared successfully',
@@ -644,6 +711,14 @@ router.patch('/:username/minecraft-player', async (req: Request<{ username: stri
     staffMember.assignedMinecraftUsername = currentUsername;
     await staffMember.save();
 
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'staff.minecraft_assignment_changed',
+      summary: `Minecraft player ${currentUsername} assigned to ${staffMember.username}`,
+      target: { type: 'staff', id: staffMember._id.toString(), name: staffMember.username },
+      before: previousAssignment,
+      after: { assignedMinecraftUuid: player.minecraftUuid, assignedMinecraftUsername: currentUsername }
+    }, req);
+
     res.json({ 
       message: 'Minecraft player assigned successfully',
       staffMember: {
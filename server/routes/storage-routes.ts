@@ -3,79 +3,24 @@ import { Request, Response } from 'express';
 import { z } from 'zod';
 import { getStorageQuota, getStorageBreakdown, formatBytes, STORAGE_LIMITS } from '../services/storage-quota-service';
 import { getStorageSettings, updateStorageSettings, getCurrentMonthAIUsage } from '../services/storage-settings-service';
+import { getStorageDriver } from '../services/storage-service';
+import { recordAuditEvent } from '../services/audit-service';
 
 const router = Router();
 
-// Wasabi S3 Configuration
-const WASABI_ENDPOINT = 'https://s3.wasabisys.com';
-const WASABI_REGION = 'us-east-1';
-
-// Dynamic imports for AWS SDK to avoid constructor issues
-let S3Client: any;
-let DeleteObjectCommand: any;
-let DeleteObjectsCommand: any;
-let ListObjectsV2Command: any;
-let HeadObjectCommand: any;
-let GetObjectCommand: any;
-let getSignedUrl: any;
-let s3Client: any;
-
-// Initialize AWS SDK components
-async function initializeAwsSdk() {
-  if (S3Client) return; // Already initialized
-  
-  try {
-    const { 
-      S3Client: S3, 
-      DeleteObjectCommand: Delete, 
-      DeleteObjectsCommand: DeleteMultiple,
-      ListObjectsV2Command: List,
-      HeadObjectCommand: Head,
-      GetObjectCommand: Get 
-    } = await import('@aws-sdk/client-s3');
-    const { getSignedUrl: signUrl } = await import('@aws-sdk/s3-request-presigner');
-    
-    S3Client = S3;
-    DeleteObjectCommand = Delete;
-    DeleteObjectsCommand = DeleteMultiple;
-    ListObjectsV2Command = List;
-    HeadObjectCommand = Head;
-    GetObjectCommand = Get;
-    getSignedUrl = signUrl;
-    
-    s3Client = new S3Client({
-      region: WASABI_REGION,
-      endpoint: WASABI_ENDPOINT,
-      credentials: {
-        accessKeyId: process.env.WASABI_ACCESS_KEY || '',
-        secretAccessKey: process.env.WASABI_SECRET_KEY || '',
-      },
-      forcePathStyle: true, // Required for Wasabi compatibility
-    });
-  } catch (error) {
-    console.error('Failed to initialize AWS SDK:', error);
-    throw error;
-  }
-}
-
-const BUCKET_NAME = process.env.WASABI_BUCKET_NAME || '';
-
 // Debug endpoint to check configuration
 router.get('/debug', async (req: Request, res: Response) => {
   try {
     const serverName = getServerName(req);
     const isPaidUser = isPremiumUser(req);
-    const hasCredentials = !!(process.env.WASABI_ACCESS_KEY && process.env.WASABI_SECRET_KEY);
+    const driver = getStorageDriver();
     const server = (req as any).modlServer;
     
     res.json({
-      configured: hasCredentials && !!BUCKET_NAME,
+      configured: driver.isConfigured(),
       serverName,
-      bucketName: BUCKET_NAME || 'Not configured',
-      hasAccessKey: !!process.env.WASABI_ACCESS_KEY,
-      hasSecretKey: !!process.env.WASABI_SECRET_KEY,
-      endpoint: WASABI_ENDPOINT,
-      region: WASABI_REGION,
+      driver: driver.name,
+      ...driver.describe(),
       // Billing/subscription debug info
       billing: {
         isPremium: isPaidUser,
@@ -168,7 +113,7 @@ router.get('/usage', async (req: Request, res: Response) => {
   try {
     const serverName = getServerName(req);
     
-    // Always get AI usage data, even if Wasabi is not configured
+    // Always get AI usage data, even if storage is not configured
     const isPaidUser = isPremiumUser(req);
     const aiUsage = await getCurrentMonthAIUsage(serverName);
     
@@ -182,8 +127,8 @@ router.get('/usage', async (req: Request, res: Response) => {
       usagePercentage: isPaidUser ? Math.round((aiUsage.totalRequests / 1000) * 100) : 0,
     };
 
-    if (!BUCKET_NAME) {
-      // Return minimal response with AI quota when Wasabi is not configured
+    if (!getStorageDriver().isConfigured()) {
+      // Return minimal response with AI quota when storage is not configured
       return res.json({
         totalUsed: 0,
         totalQuota: isPaidUser ? STORAGE_LIMITS.PAID_TIER : STORAGE_LIMITS.FREE_TIER,
@@ -309,7 +254,7 @@ router.get('/usage', async (req: Request, res: Response) => {
   } catch (error) {
     console.error('Error fetching storage usage:', error);
     console.error('Server name:', getServerName(req));
-    console.error('Bucket name:', BUCKET_NAME);
+    console.error('Storage driver:', getStorageDriver().name);
     res.status(500).json({ 
       error: 'Failed to fetch storage usage',
       details: error instanceof Error ? error.message : 'Unknown error'
@@ -320,48 +265,32 @@ router.get('/usage', async (req: Request, res: Response) => {
 // Get list of files
 router.get('/files', async (req: Request, res: Response) => {
   try {
-    // Initialize AWS SDK
-    await initializeAwsSdk();
-    
-    if (!BUCKET_NAME) {
-      return res.status(500).json({ error: 'Wasabi storage not configured' });
+    const driver = getStorageDriver();
+    if (!driver.isConfigured()) {
+      return res.status(500).json({ error: 'Media storage not configured' });
     }
 
     const serverName = getServerName(req);
     
-    const listParams = {
-      Bucket: BUCKET_NAME,
-      Prefix: serverName,
-      MaxKeys: 1000,
-    };
-
-    const command = new ListObjectsV2Command(listParams);
-    const response = await s3Client.send(command);
-    
-    const objects = response.Contents || [];
+    const objects = await driver.list(`${serverName}/`, 1000);
     
     const files: StorageFile[] = await Promise.all(
       objects.map(async (obj) => {
-        const key = obj.Key || '';
+        const key = obj.key;
         const pathWithoutServer = key.replace(`${serverName}/`, '');
         const fileName = pathWithoutServer.split('/').pop() || '';
         
         // Generate presigned URL for download
-        const getObjectCommand = new GetObjectCommand({
-          Bucket: BUCKET_NAME,
-          Key: key,
-        });
-        
-        const url = await getSignedUrl(s3Client, getObjectCommand, { expiresIn: 3600 });
+        const url = await driver.presign(key, 3600);
         
         return {
           id: key,
           name: fileName,
           path: pathWithoutServer,
-          size: obj.Size || 0,
+          size: obj.size,
           type: getFileType(key),
-          createdAt: obj.LastModified?.toISOString() || new Date().toISOString(),
-          lastModified: obj.LastModified?.toISOString() || new Date().toISOString(),
+          createdAt: obj.lastModified.toISOString(),
+          lastModified: obj.lastModified.toISOString(),
           url,
         };
       })
@@ -371,7 +300,7 @@ router.get('/files', async (req: Request, res: Response) => {
   } catch (error) {
     console.error('Error fetching files:', error);
     console.error('Server name:', getServerName(req));
-    console.error('Bucket name:', BUCKET_NAME);
+    console.error('Storage driver:', getStorageDriver().name);
     res.status(500).json({ 
       error: 'Failed to fetch files',
       details: error instanceof Error ? error.message : 'Unknown error'
@@ -382,28 +311,26 @@ router.get('/files', async (req: Request, res: Response) => {
 // Delete single file
 router.delete('/files/:fileId(*)', async (req: Request, res: Response) => {
   try {
-    // Initialize AWS SDK
-    await initializeAwsSdk();
-    
-    if (!BUCKET_NAME) {
-      return res.status(500).json({ error: 'Wasabi storage not configured' });
+    const driver = getStorageDriver();
+    if (!driver.isConfigured()) {
+      return res.status(500).json({ error: 'Media storage not configured' });
     }
 
     const fileId = req.params.fileId;
     const serverName = getServerName(req);
     
     // Ensure the file belongs to the current server
-    if (!fileId.startsWith(serverName)) {
+    if (!fileId.startsWith(`${serverName}/`)) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    const deleteParams = {
-      Bucket: BUCKET_NAME,
-      Key: fileId,
-    };
+    await driver.delete(fileId);
 
-    const command = new DeleteObjectCommand(deleteParams);
-    await s3Client.send(command);
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'file.deleted',
+      summary: `File ${fileId} deleted`,
+      target: { type: 'file', id: fileId }
+    }, req);
     
     res.json({ success: true, message: 'File deleted successfully' });
   } catch (error) {
@@ -415,35 +342,30 @@ router.delete('/files/:fileId(*)', async (req: Request, res: Response) => {
 // Delete multiple files
 router.delete('/files/batch', async (req: Request, res: Response) => {
   try {
-    // Initialize AWS SDK
-    await initializeAwsSdk();
-    
-    if (!BUCKET_NAME) {
-      return res.status(500).json({ error: 'Wasabi storage not configured' });
+    const driver = getStorageDriver();
+    if (!driver.isConfigured()) {
+      return res.status(500).json({ error: 'Media storage not configured' });
     }
 
     const { fileIds } = deleteFilesSchema.parse(req.body);
     const serverName = getServerName(req);
     
     // Ensure all files belong to the current server
-    const invalidFiles = fileIds.filter(id => !id.startsWith(serverName));
+    const invalidFiles = fileIds.filter(id => !id.startsWith(`${serverName}/`));
     if (invalidFiles.length > 0) {
       return res.status(403).json({ error: 'Access denied to some files' });
     }
 
-    const deleteParams = {
-      Bucket: BUCKET_NAME,
-      Delete: {
-        Objects: fileIds.map(id => ({ Key: id })),
-        Quiet: false,
-      },
-    };
+    const { deleted, failed: errors } = await driver.deleteMany(fileIds);
 
-    const command = new DeleteObjectsCommand(deleteParams);
-    const response = await s3Client.send(command);
-    
-    const deleted = response.Deleted || [];
-    const errors = response.Errors || [];
+    if (deleted.length > 0) {
+      await recordAuditEvent(req.serverDbConnection, req.serverName, {
+        action: 'file.deleted',
+        summary: `${deleted.length} files deleted`,
+        target: { type: 'file', id: deleted.length === 1 ? deleted[0] : `${serverName}/` },
+        metadata: { files: deleted, failed: errors.length }
+      }, req);
+    }
     
     if (errors.length > 0) {
       console.error('Some files failed to delete:', errors);
@@ -469,28 +391,23 @@ router.delete('/files/batch', async (req: Request, res: Response) => {
 // Get file metadata
 router.get('/files/:fileId(*)/metadata', async (req: Request, res: Response) => {
   try {
-    // Initialize AWS SDK
-    await initializeAwsSdk();
-    
-    if (!BUCKET_NAME) {
-      return res.status(500).json({ error: 'Wasabi storage not configured' });
+    const driver = getStorageDriver();
+    if (!driver.isConfigured()) {
+      return res.status(500).json({ error: 'Media storage not configured' });
     }
 
     const fileId = req.params.fileId;
     const serverName = getServerName(req);
     
     // Ensure the file belongs to the current server
-    if (!fileId.startsWith(serverName)) {
+    if (!fileId.startsWith(`${serverName}/`)) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
-    const headParams = {
-      Bucket: BUCKET_NAME,
-      Key: fileId,
-    };
-
-    const command = new HeadObjectCommand(headParams);
-    const response = await s3Client.send(command);
+    const object = await driver.head(fileId);
+    if (!object) {
+      return res.status(404).json({ error: 'File not found' });
+    }
     
     const pathWithoutServer = fileId.replace(`${serverName}/`, '');
     const fileName = pathWithoutServer.split('/').pop() || '';
@@ -499,11 +416,11 @@ router.get('/files/:fileId(*)/metadata', async (req: Request, res: Response) =>
       id: fileId,
       name: fileName,
       path: pathWithoutServer,
-      size: response.ContentLength || 0,
+      size: object.size,
       type: getFileType(fileId),
-      contentType: response.ContentType,
-      lastModified: response.LastModified?.toISOString() || new Date().toISOString(),
-      etag: response.ETag,
+      contentType: object.contentType,
+      lastModified: object.lastModified.toISOString(),
+      etag: object.etag,
     };
 
     res.json(metadata);
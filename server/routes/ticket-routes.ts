@@ -5,6 +5,54 @@ import { isAuthenticated } from '../middleware/auth-middleware';
 import AIModerationService from '../services/ai-moderation-service';
 import { IReply, ITicket } from 'modl-shared-web/types';
 import { getSettingsValue } from './settings-routes';
+import { publishEvent } from '../services/realtime-service';
+import { triggerWebhookEvent } from '../services/webhook-service';
+import { diffAuditSnapshots, recordAuditEvent, toAuditSnapshot } from '../services/audit-service';
+import { getPunishmentModel } from '../services/punishment-store-service';
+import { createTicketAccessToken, getTicketUrl } from '../services/ticket-access-service';
+import {
+  APPEAL_CATEGORY_ID,
+  findTicketCategory,
+  generateTicketId,
+  getHiddenTicketCategoryIds,
+  getTicketCategories,
+  getTicketCategoryName
+} from '../services/ticket-category-service';
+import {
+  checkClaimBeforeReply,
+  claimTicket,
+  clearReplying,
+  getReplyingStaff,
+  getStaffDuty,
+  getTicketAssignment,
+  listOnDutyStaff,
+  markReplying,
+  queueTicketAssignment,
+  releaseTicket,
+  setStaffDuty
+} from '../services/ticket-queue-service';
+import { findTicketSlaPolicy, getTicketSlaSettings, getTicketSlaStatus, getTicketSlaStatuses } from '../services/ticket-sla-service';
+import { getFieldChangeEvents, queueTicketRules, TicketRuleEvent } from '../services/ticket-rule-service';
+import {
+  deleteSavedTicketSearch,
+  getTicketSearchConditions,
+  getTicketSearchMatches,
+  getTicketTextCondition,
+  listSavedTicketSearches,
+  parseTicketSearch,
+  saveTicketSearch
+} from '../services/ticket-search-service';
+import {
+  checkTicketStatusChange,
+  getAllowedTicketStatuses,
+  getReplyTicketStatus,
+  getTicketStatus,
+  getTicketStatusFilter,
+  getTicketStatusHistory,
+  getTicketWorkflow,
+  isTicketStatus,
+  setTicketStatus
+} from '../services/ticket-status-service';
 
 interface INote {
   content: string;
@@ -25,6 +73,7 @@ interface IReply {
 
 interface ITicket extends MongooseDocument {
   _id: string; // Ticket ID, e.g., CATEGORY-123456
+  type: string; // ID of the ticket category
   category: string;
   tags: string[];
   created: Date;
@@ -34,10 +83,10 @@ interface ITicket extends MongooseDocument {
   notes: INote[];
   replies: IReply[];
   data: Map<string, any>; // For custom fields
-  status: string; // e.g., 'Open', 'Closed', 'In Progress'
+  status: string; // See TICKET_STATUSES, or 'Unfinished' for unsubmitted tickets
   assignedTo?: string; // Staff username or ID
   priority?: string; // e.g., 'Low', 'Medium', 'High'
-  locked?: boolean;
+  locked?: boolean; // Kept in sync with the Closed status
 }
 
 /**
@@ -123,7 +172,7 @@ async function addNotificationToPlayer(
  * Create a notification for a staff reply to a ticket
  * Returns the notification object that can be stored in pendingNotifications
  */
-function createTicketReplyNotification(ticketId: string, staffName: string, replyContent: string, panelUrl: string): any {
+function createTicketReplyNotification(ticketId: string, staffName: string, replyContent: string, ticketUrl: string): any {
   // Create notification object with actual data
   const notification = {
     id: `ticket-reply-${ticketId}-${Date.now()}`,
@@ -134,7 +183,7 @@ function createTicketReplyNotification(ticketId: string, staffName: string, repl
       ticketId: ticketId,
       staffName: staffName,
       replyContent: replyContent,
-      ticketUrl: `${panelUrl}/ticket/${ticketId}`
+      ticketUrl
     }
   };
   
@@ -186,17 +235,95 @@ router.use((req: Request, res: Response, next: NextFunction) => {
 
 router.use(isAuthenticated);
 
-function getCategoryFromType(type: string): string {
-  switch(type) {
-    case 'bug': return 'Bug Report';
-    case 'player': return 'Player Report';
-    case 'chat': return 'Chat Report';
-    case 'appeal': return 'Ban Appeal';
-    case 'staff': return 'Staff Application';
-    case 'support': return 'General Support';
-    default: return 'Other';
+// Searches the staff member saved on the tickets page
+router.get('/saved-searches', async (req: Request, res: Response) => {
+  try {
+    const searches = await listSavedTicketSearches(req.serverDbConnection!, req.session!.username);
+    res.json({ searches: searches.map(search => ({ name: search.name, query: search.query, created: search.created })) });
+  } catch (error: any) {
+    console.error('Error fetching saved ticket searches:', error);
+    res.status(500).json({ error: 'Internal server error', details: error.message });
   }
-}
+});
+
+router.put('/saved-searches', async (req: Request, res: Response) => {
+  try {
+    const result = await saveTicketSearch(req.serverDbConnection!, req.session!.username, req.body || {});
+    if (result.error) {
+      return res.status(400).json({ error: result.error });
+    }
+    res.json({ name: result.search!.name, query: result.search!.query, created: result.search!.created });
+  } catch (error: any) {
+    console.error('Error saving ticket search:', error);
+    res.status(500).json({ error: 'Internal server error', details: error.message });
+  }
+});
+
+router.delete('/saved-searches/:name', async (req: Request<{ name: string }>, res: Response) => {
+  try {
+    if (!(await deleteSavedTicketSearch(req.serverDbConnection!, req.session!.username, req.params.name))) {
+      return res.status(404).json({ error: 'Saved search not found' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    console.error('Error deleting saved ticket search:', error);
+    res.status(500).json({ error: 'Internal server error', details: error.message });
+  }
+});
+
+// Ticket categories the staff member can see, for filters and ticket creation
+router.get('/categories', async (req: Request, res: Response) => {
+  try {
+    const categories = await getTicketCategories(req.serverDbConnection!);
+    const hiddenIds = await getHiddenTicketCategoryIds(req, categories);
+    res.json({ categories: categories.filter(category => !hiddenIds.includes(category.id)) });
+  } catch (error: any) {
+    console.error('Error fetching ticket categories:', error);
+    res.status(500).json({ error: 'Internal server error', details: error.message });
+  }
+});
+
+// Whether the staff member is on duty for ticket queues, and who else is
+router.get('/duty', async (req: Request, res: Response) => {
+  try {
+    const duty = await getStaffDuty(req.serverDbConnection!, req.session!.username);
+    const onDutyStaff = await listOnDutyStaff(req.serverDbConnection!);
+    res.json({
+      onDuty: duty?.onDuty || false,
+      since: duty?.onDuty ? duty.since : null,
+      onDutyStaff: onDutyStaff.map(staff => ({ username: staff.username, since: staff.since }))
+    });
+  } catch (error: any) {
+    console.error('Error fetching duty status:', error);
+    res.status(500).json({ error: 'Internal server error', details: error.message });
+  }
+});
+
+router.put('/duty', async (req: Request, res: Response) => {
+  const { hasPermission } = await import('../middleware/permission-middleware');
+  if (!(await hasPermission(req, 'ticket.reply.all'))) {
+    return res.status(403).json({ 
+      message: 'Forbidden: You do not have the required permissions.',
+      required: ['ticket.reply.all']
+    });
+  }
+  if (typeof req.body.onDuty !== 'boolean') {
+    return res.status(400).json({ error: 'onDuty must be a boolean' });
+  }
+  try {
+    const duty = await setStaffDuty(req.serverDbConnection!, req.session!.username, req.body.onDuty);
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: duty.onDuty ? 'ticket.duty_started' : 'ticket.duty_ended',
+      summary: `${duty.username} went ${duty.onDuty ? 'on' : 'off'} duty`,
+      target: { type: 'staff', id: duty.username }
+    }, req);
+
+    res.json({ onDuty: duty.onDuty, since: duty.onDuty ? duty.since : null });
+  } catch (error: any) {
+    console.error('Error updating duty status:', error);
+    res.status(500).json({ error: 'Internal server error', details: error.message });
+  }
+});
 
 router.get('/', async (req: Request, res: Response) => {
   // Check permissions
@@ -215,69 +342,93 @@ router.get('/', async (req: Request, res: Response) => {
     // Parse query parameters
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
-    const search = req.query.search as string || '';
+    if (req.query.search !== undefined && typeof req.query.search !== 'string') {
+      return res.status(400).json({ error: 'search can only be given once' });
+    }
+    const search = req.query.search || '';
     const status = req.query.status as string || '';
     const type = req.query.type as string || '';
+    const assignee = req.query.assignee as string || '';
     
     // Calculate skip value for pagination
     const skip = (page - 1) * limit;
     
+    const categories = await getTicketCategories(req.serverDbConnection!);
+    const hiddenCategoryIds = await getHiddenTicketCategoryIds(req, categories);
+
     // Build search query
     const query: any = { status: { $ne: 'Unfinished' } };
+    if (hiddenCategoryIds.length > 0) {
+      query.type = { $nin: hiddenCategoryIds };
+    }
     
-    // Add search filters
-    if (search) {
-      const searchRegex = new RegExp(search, 'i');
-      query.$or = [
-        { _id: searchRegex }, // Search by ticket ID
-        { subject: searchRegex }, // Search by subject
-        { creator: searchRegex }, // Search by creator UUID
-        { creatorName: searchRegex }, // Search by creator name
-        { 'replies.name': searchRegex }, // Search by staff member who replied
-        { 'replies.content': searchRegex }, // Search by message content
-        { reason: searchRegex }, // Search by reason
-      ];
+    // Add search filters, see ticket-search-service for the query language
+    const parsedSearch = parseTicketSearch(search);
+    if (parsedSearch.error) {
+      return res.status(400).json({ error: parsedSearch.error });
+    }
+    const ticketSearch = parsedSearch.search!;
+    const searchConditions = getTicketSearchConditions(ticketSearch, req.session?.username);
+    if (searchConditions.length > 0) {
+      query.$and = searchConditions;
+    }
+    const textCondition = getTicketTextCondition(ticketSearch);
+    if (textCondition) {
+      Object.assign(query, textCondition);
     }
     
     // Add status filter
     if (status && status !== 'all') {
-      if (status === 'open') {
-        query.locked = { $ne: true };
-      } else if (status === 'closed') {
-        query.locked = true;
+      const statuses = getTicketStatusFilter(status);
+      if (!statuses) {
+        return res.status(400).json({ error: `Unknown status filter ${status}` });
       }
+      query.status = { $in: statuses };
     }
     
     // Add type filter
     if (type && type !== 'all') {
-      query.type = type;
+      query.type = { ...query.type, $eq: type };
+    }
+
+    // Add assignee filter
+    if (assignee === 'unassigned') {
+      query['data.assignedTo'] = null;
+    } else if (assignee === 'me') {
+      query['data.assignedTo'] = req.session?.username;
+    } else if (assignee && assignee !== 'all') {
+      query['data.assignedTo'] = assignee;
     }
     
     // Get total count for pagination
     const totalTickets = await Ticket.countDocuments(query);
     
-    // Fetch tickets with pagination and sorting
-    const tickets = await Ticket.find(query)
-      .sort({ created: -1 }) // Sort by creation date, newest first
+    // Fetch tickets with pagination and sorting, best matches first when searching text
+    const tickets = await Ticket.find(query, ticketSearch.text ? { score: { $meta: 'textScore' } } : {})
+      .sort(ticketSearch.text ? { score: { $meta: 'textScore' }, created: -1 } : { created: -1 })
       .skip(skip)
       .limit(limit)
       .lean();
+    const slaStatuses = await getTicketSlaStatuses(req.serverDbConnection!, tickets);
     
     const transformedTickets = tickets.map((ticket: any) => ({
       id: ticket._id,
       subject: ticket.subject || 'No Subject',
-      status: ticket.status,
+      status: getTicketStatus(ticket),
       reportedBy: ticket.creator,
       reportedByName: ticket.creatorName || ticket.creator,
       date: ticket.created,
-      category: getCategoryFromType(ticket.type),
+      category: getTicketCategoryName(categories, ticket.type),
       locked: ticket.locked || false,
       type: ticket.type,
+      assignedTo: getTicketAssignment(ticket).assignedTo,
+      sla: slaStatuses.get(String(ticket._id)),
       // Add additional fields for search results
       lastReply: ticket.replies && ticket.replies.length > 0 
         ? ticket.replies[ticket.replies.length - 1] 
         : null,
       replyCount: ticket.replies ? ticket.replies.length : 0,
+      matches: getTicketSearchMatches(ticket, ticketSearch),
     }));
     
     // Calculate pagination metadata
@@ -299,9 +450,14 @@ router.get('/', async (req: Request, res: Response) => {
         search,
         status,
         type,
+        assignee,
       },
     });
-  } catch (error) {
+  } catch (error: any) {
+    // Text searches fail until the search index has been built for the tenant
+    if (error?.codeName === 'IndexNotFound') {
+      return res.status(503).json({ error: 'Ticket search is still being set up, try again in a few minutes' });
+    }
     console.error('Error fetching tickets:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -316,6 +472,12 @@ router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
       return res.status(404).json({ error: 'Ticket not found' });
     }
 
+    const categories = await getTicketCategories(req.serverDbConnection!);
+    const hiddenCategoryIds = await getHiddenTicketCategoryIds(req, categories);
+    if (hiddenCategoryIds.includes(ticket.type || ticket.category)) {
+      return res.status(403).json({ message: 'Forbidden: You do not have permission to view tickets in this category.' });
+    }
+
     // Mark ticket as read for the current staff member
     if (req.session?.username) {
       try {
@@ -327,13 +489,18 @@ router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
       }
     }
 
+    const status = getTicketStatus(ticket);
+
     // Manually construct the object to send, ensuring Maps are converted
     const transformedTicket = {
       id: ticket._id,
       subject: ticket.subject || 'No Subject',
-      status: ticket.status,
+      status,
+      // Statuses this staff member can move the ticket to
+      allowedStatuses: await getAllowedTicketStatuses(req, await getTicketWorkflow(req.serverDbConnection!), status),
+      statusHistory: getTicketStatusHistory(ticket),
       type: ticket.type,
-      category: getCategoryFromType(ticket.type),
+      category: getTicketCategoryName(categories, ticket.type || ticket.category),
       reportedBy: ticket.creator || 'Unknown',
       date: ticket.created,
       locked: ticket.locked || false,
@@ -355,6 +522,10 @@ router.get('/:id', async (req: Request<{ id: string }>, res: Response) => {
       })) || [],
       notes: ticket.notes || [],
       tags: ticket.tags || [],
+      ...getTicketAssignment(ticket),
+      sla: getTicketSlaStatus(ticket, findTicketSlaPolicy(await getTicketSlaSettings(req.serverDbConnection!), ticket.type)),
+      // Other staff writing a reply right now
+      replying: getReplyingStaff(req.serverName!, ticket._id).filter(username => username !== req.session?.username),
       data: ticket.data ? Object.fromEntries(ticket.data) : {} // Correctly convert Map to object
     };
     
@@ -377,27 +548,53 @@ interface CreateTicketBody {
 router.post('/', async (req: Request<{}, {}, CreateTicketBody>, res: Response) => {
   try {
     const Ticket = req.serverDbConnection!.model<ITicket>('Ticket');
-    const { category, creator, tags, data, creatorName, creatorAvatar } = req.body;
-    
-    const randomDigits = Math.floor(100000 + Math.random() * 900000).toString();
-    const ticketId = `${category.toUpperCase()}-${randomDigits}`;
+    const { creator, tags, data, creatorName, creatorAvatar } = req.body;
+
+    const ticketCategory = findTicketCategory(await getTicketCategories(req.serverDbConnection!), req.body.category);
+    if (!ticketCategory) {
+      return res.status(400).json({ error: 'Unknown ticket category' });
+    }
+    const category = ticketCategory.id;
+    const ticketId = await generateTicketId(req.serverDbConnection!, ticketCategory);
+
+    const ticketData = new Map(Object.entries(data || {}));
+    if (ticketCategory.defaultPriority && !ticketData.has('priority')) {
+      ticketData.set('priority', ticketCategory.defaultPriority);
+    }
 
     const newTicket = new Ticket({
       _id: ticketId,
+      type: category,
       category,
-      tags: tags || [],
+      tags: tags || ticketCategory.defaultTags,
       created: new Date(),
       creator, // UUID
       creatorName,
       creatorAvatar,
       notes: [],
       replies: [],
-      data: data || new Map(),
-      status: 'Open', // Default status
+      data: ticketData,
     });
+    setTicketStatus(newTicket, 'New', creatorName || creator);
 
     await newTicket.save();
 
+    publishEvent(req.serverName, 'tickets', 'ticket.created', { ticketId, category, status: 'New' });
+    queueTicketAssignment(req.serverDbConnection!, req.serverName, ticketId, category);
+    queueTicketRules(req.serverDbConnection!, req.serverName, ticketId, [{ trigger: 'ticket.created' }]);
+    triggerWebhookEvent(req.serverDbConnection, req.serverName, 'ticket.created', {
+      ticketId,
+      category,
+      creator: creatorName || creator
+    });
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'ticket.created',
+      summary: `Ticket ${ticketId} (${category}) created`,
+      target: { type: 'ticket', id: ticketId },
+      after: newTicket,
+      metadata: { creator: creatorName || creator }
+    }, req);
+
     // Trigger AI analysis for Player Report tickets with chat messages
     if (req.serverDbConnection) {
       try {
@@ -415,6 +612,141 @@ router.post('/', async (req: Request<{}, {}, CreateTicketBody>, res: Response) =
   }
 });
 
+// A new link staff can share with the player so they can view and reply to the ticket
+router.post('/:id/access-link', async (req: Request<{ id: string }>, res: Response) => {
+  const { hasPermission } = await import('../middleware/permission-middleware');
+  if (!(await hasPermission(req, 'ticket.reply.all'))) {
+    return res.status(403).json({ 
+      message: 'Forbidden: You do not have the required permissions.',
+      required: ['ticket.reply.all']
+    });
+  }
+  try {
+    const Ticket = req.serverDbConnection!.model<ITicket>('Ticket');
+    if (!(await Ticket.exists({ _id: req.params.id }))) {
+      return res.status(404).json({ error: 'Ticket not found' });
+    }
+
+    const accessToken = await createTicketAccessToken(req.serverDbConnection!, req.params.id, 'access', req.session?.username || null);
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'ticket.access_link_created',
+      summary: `Access link created for ticket ${req.params.id}`,
+      target: { type: 'ticket', id: req.params.id }
+    }, req);
+
+    res.status(201).json({ url: getTicketUrl(req.serverName, req.params.id, accessToken) });
+  } catch (error: any) {
+    res.status(500).json({ error: 'Internal server error', details: error.message });
+  }
+});
+
+// Claim a ticket so other staff know it is being handled
+router.post('/:id/claim', async (req: Request<{ id: string }, {}, { force?: boolean }>, res: Response) => {
+  const { hasPermission } = await import('../middleware/permission-middleware');
+  if (!(await hasPermission(req, 'ticket.reply.all'))) {
+    return res.status(403).json({ 
+      message: 'Forbidden: You do not have the required permissions.',
+      required: ['ticket.reply.all']
+    });
+  }
+  // Taking over a ticket someone else claimed
+  const force = req.body.force === true;
+  if (force && !(await hasPermission(req, 'ticket.close.all'))) {
+    return res.status(403).json({ 
+      message: 'Forbidden: You do not have the required permissions.',
+      required: ['ticket.close.all']
+    });
+  }
+  try {
+    const username = req.session!.username;
+    const result = await claimTicket(req.serverDbConnection!, req.serverName, req.params.id, username, force);
+    if (!result) {
+      return res.status(404).json({ error: 'Ticket not found' });
+    }
+    if (!result.claimed) {
+      return res.status(409).json({
+        error: 'Ticket claimed',
+        message: `${result.previous.assignedTo} has already claimed this ticket`,
+        claimedBy: result.previous.assignedTo
+      });
+    }
+
+    if (result.previous.assignedTo !== username) {
+      await recordAuditEvent(req.serverDbConnection, req.serverName, {
+        action: 'ticket.claimed',
+        summary: result.previous.assignedTo
+          ? `${username} took ticket ${req.params.id} over from ${result.previous.assignedTo}`
+          : `${username} claimed ticket ${req.params.id}`,
+        target: { type: 'ticket', id: req.params.id },
+        before: { assignedTo: result.previous.assignedTo },
+        after: { assignedTo: username }
+      }, req);
+    }
+
+    res.json({ assignedTo: username });
+  } catch (error: any) {
+    res.status(500).json({ error: 'Internal server error', details: error.message });
+  }
+});
+
+// Give a claimed ticket back to the queue
+router.post('/:id/release', async (req: Request<{ id: string }, {}, { force?: boolean }>, res: Response) => {
+  const { hasPermission } = await import('../middleware/permission-middleware');
+  if (!(await hasPermission(req, 'ticket.reply.all'))) {
+    return res.status(403).json({ 
+      message: 'Forbidden: You do not have the required permissions.',
+      required: ['ticket.reply.all']
+    });
+  }
+  // Releasing a ticket someone else claimed
+  const force = req.body.force === true;
+  if (force && !(await hasPermission(req, 'ticket.close.all'))) {
+    return res.status(403).json({ 
+      message: 'Forbidden: You do not have the required permissions.',
+      required: ['ticket.close.all']
+    });
+  }
+  try {
+    const Ticket = req.serverDbConnection!.model<ITicket>('Ticket');
+    const ticket = await Ticket.findById(req.params.id, { data: 1 });
+    if (!ticket) {
+      return res.status(404).json({ error: 'Ticket not found' });
+    }
+
+    const { assignedTo } = getTicketAssignment(ticket);
+    if (!(await releaseTicket(req.serverDbConnection!, req.serverName, req.params.id, req.session!.username, force))) {
+      return res.status(409).json({
+        error: 'Ticket not claimed by you',
+        message: assignedTo ? `${assignedTo} has claimed this ticket` : 'Nobody has claimed this ticket',
+        claimedBy: assignedTo
+      });
+    }
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'ticket.released',
+      summary: `${req.session!.username} released ticket ${req.params.id}`,
+      target: { type: 'ticket', id: req.params.id },
+      before: { assignedTo },
+      after: { assignedTo: null }
+    }, req);
+
+    res.json({ assignedTo: null });
+  } catch (error: any) {
+    res.status(500).json({ error: 'Internal server error', details: error.message });
+  }
+});
+
+// Let other staff know a reply is being written, sent again while the staff member keeps typing
+router.post('/:id/replying', async (req: Request<{ id: string }, {}, { replying?: boolean }>, res: Response) => {
+  const username = req.session!.username;
+  if (req.body.replying === false) {
+    clearReplying(req.serverName!, req.params.id, username);
+  } else {
+    markReplying(req.serverName!, req.params.id, username);
+  }
+  res.json({ replying: getReplyingStaff(req.serverName!, req.params.id).filter(name => name !== username) });
+});
+
 interface AddNoteBody {
   text: string;
   issuerName: string;
@@ -439,6 +771,13 @@ router.post('/:id/notes', async (req: Request<{ id: string }, {}, AddNoteBody>,
     ticket.notes.push(newNote);
     await ticket.save();
 
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'ticket.note_added',
+      summary: `Note added to ticket ${ticket._id} by ${req.body.issuerName}`,
+      target: { type: 'ticket', id: ticket._id },
+      after: newNote
+    }, req);
+
     res.status(201).json(newNote);
   } catch (error: any) {
     res.status(500).json({ error: 'Internal server error', details: error.message });
@@ -452,6 +791,8 @@ interface AddReplyBody {
   staff?: boolean;
   avatar?: string;
   attachments?: any[];
+  // Reply even though another staff member claimed the ticket
+  overrideClaim?: boolean;
 }
 
 router.post('/:id/replies', async (req: Request<{ id: string }, {}, AddReplyBody>, res: Response) => {
@@ -471,6 +812,9 @@ router.post('/:id/replies', async (req: Request<{ id: string }, {}, AddReplyBody
     if (!ticket) {
       return res.status(404).json({ error: 'Ticket not found' });
     }
+    if (req.body.staff && !checkClaimBeforeReply(req, res, ticket, req.body.overrideClaim)) {
+      return;
+    }
 
     const newReply: IReply = {
       name: req.body.name,
@@ -483,8 +827,35 @@ router.post('/:id/replies', async (req: Request<{ id: string }, {}, AddReplyBody
     };
 
     ticket.replies.push(newReply);
+    const replyStatus = getReplyTicketStatus(ticket, newReply.staff);
+    const statusEvent = replyStatus ? setTicketStatus(ticket, replyStatus, newReply.name) : null;
     await ticket.save();
 
+    if (req.session?.username) {
+      clearReplying(req.serverName!, req.params.id, req.session.username);
+    }
+    publishEvent(req.serverName, 'tickets', 'ticket.reply', { ticketId: req.params.id, reply: newReply });
+    if (statusEvent) {
+      publishEvent(req.serverName, 'tickets', 'ticket.updated', { ticketId: req.params.id, status: statusEvent.to });
+    }
+    queueTicketRules(req.serverDbConnection!, req.serverName, req.params.id, [
+      { trigger: 'reply.added', replyFromStaff: newReply.staff },
+      ...(statusEvent ? [{ trigger: 'status.changed' as const, value: statusEvent.to }] : [])
+    ]);
+    triggerWebhookEvent(req.serverDbConnection, req.serverName, 'ticket.replied', {
+      ticketId: req.params.id,
+      author: newReply.name,
+      staff: newReply.staff,
+      content: newReply.content
+    });
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'ticket.replied',
+      summary: `${newReply.name} replied to ticket ${req.params.id}`,
+      target: { type: 'ticket', id: req.params.id },
+      after: newReply,
+      metadata: { author: newReply.name, staff: newReply.staff, replyType: newReply.type }
+    }, req);
+
     // Auto-subscribe staff member to ticket when they reply
     if (newReply.staff && req.session?.username) {
       try {
@@ -500,16 +871,14 @@ router.post('/:id/replies', async (req: Request<{ id: string }, {}, AddReplyBody
 
     // Add notification for staff replies
     if (newReply.staff && ticket.creatorUuid) {
-      // Build panel URL from server name
-      const panelUrl = process.env.NODE_ENV === 'development' 
-        ? `http://localhost:5173`
-        : `https://${req.serverName}.${process.env.DOMAIN || 'modl.gg'}`;
+      // The player opens the ticket through a magic link
+      const accessToken = await createTicketAccessToken(req.serverDbConnection!, req.params.id, 'magic_link');
       
       const notification = createTicketReplyNotification(
         req.params.id, 
         newReply.name, 
         newReply.content,
-        panelUrl
+        getTicketUrl(req.serverName, req.params.id, accessToken)
       );
       await addNotificationToPlayer(req.serverDbConnection!, ticket.creatorUuid, notification);
       
@@ -533,7 +902,8 @@ router.post('/:id/replies', async (req: Request<{ id: string }, {}, AddReplyBody
             replyAuthor: newReply.name,
             isStaffReply: newReply.staff,
             serverName: req.serverName,
-            serverDisplayName: serverDisplayName
+            serverDisplayName: serverDisplayName,
+            accessToken
           });
         } catch (emailError) {
           console.error(`[Staff Reply] Failed to send email notification for ticket ${req.params.id}:`, emailError);
@@ -563,9 +933,18 @@ router.post('/:id/tags', async (req: Request<{ id: string }, {}, AddTagBody>, re
 
     const tagToAdd = req.body.tag;
     if (!ticket.tags.includes(tagToAdd)) {
+      const previousTags = [...ticket.tags];
       ticket.tags.push(tagToAdd);
       await ticket.save();
-
+      queueTicketRules(req.serverDbConnection!, req.serverName, ticket._id, [{ trigger: 'tag.added', value: tagToAdd }]);
+
+      await recordAuditEvent(req.serverDbConnection, req.serverName, {
+        action: 'ticket.updated',
+        summary: `Tag "${tagToAdd}" added to ticket ${ticket._id}`,
+        target: { type: 'ticket', id: ticket._id },
+        before: { tags: previousTags },
+        after: { tags: ticket.tags }
+      }, req);
     }
 
     res.status(200).json(ticket.tags);
@@ -587,11 +966,19 @@ router.delete('/:id/tags/:tag', async (req: Request<{ id: string, tag: string },
     }
 
     const tagToRemove = req.params.tag;
-    const initialLength = ticket.tags.length;
+    const previousTags = [...ticket.tags];
     ticket.tags = ticket.tags.filter(tag => tag !== tagToRemove);
 
-    if (ticket.tags.length < initialLength) {
+    if (ticket.tags.length < previousTags.length) {
       await ticket.save();
+
+      await recordAuditEvent(req.serverDbConnection, req.serverName, {
+        action: 'ticket.updated',
+        summary: `Tag "${tagToRemove}" removed from ticket ${ticket._id}`,
+        target: { type: 'ticket', id: ticket._id },
+        before: { tags: previousTags },
+        after: { tags: ticket.tags }
+      }, req);
     }
 
     res.status(200).json(ticket.tags);  } catch (error: any) {
@@ -612,6 +999,8 @@ interface UpdateTicketBody {
     action?: string;
     attachments?: any[];
   };
+  // Reply even though another staff member claimed the ticket
+  overrideClaim?: boolean;
   newNote?: {
     content: string;
     author: string;
@@ -644,21 +1033,36 @@ router.patch('/:id', async (req: Request<{ id: string }, {}, UpdateTicketBody>,
     }
 
     const updates = req.body;
-
-    // Update status if provided (requires close permission for closing)
-    if (updates.status !== undefined) {
-      if (updates.status === 'Closed' && !req.session?.permissions?.includes('ticket.close.all')) {
-        return res.status(403).json({ error: 'Insufficient permissions to close tickets' });
-      }
-      ticket.status = updates.status;
+    if (updates.newReply?.staff && !checkClaimBeforeReply(req, res, ticket, updates.overrideClaim)) {
+      return;
     }
-
-    // Update locked status if provided (requires close permission)
-    if (updates.locked !== undefined) {
-      if (updates.locked && !req.session?.permissions?.includes('ticket.close.all')) {
-        return res.status(403).json({ error: 'Insufficient permissions to lock tickets' });
+    const previousStatus = ticket.status;
+    const previousState = toAuditSnapshot({ status: ticket.status, locked: ticket.locked || false, tags: ticket.tags, data: ticket.data });
+    const previousTags = [...ticket.tags];
+    const previousData = Object.fromEntries(ticket.data);
+
+    // Status changes have to be allowed by the workflow
+    const currentStatus = getTicketStatus(ticket);
+    let requestedStatus: string | undefined = updates.status;
+    // Clients that lock tickets instead of closing them
+    if (requestedStatus === undefined && updates.locked !== undefined) {
+      requestedStatus = updates.locked ? 'Closed' : currentStatus === 'Closed' ? 'Open' : currentStatus;
+    }
+    const statusActor = req.session?.username || updates.newReply?.name || 'Staff';
+    if (requestedStatus !== undefined && requestedStatus !== currentStatus) {
+      if (!isTicketStatus(requestedStatus)) {
+        return res.status(400).json({ error: `Invalid status ${requestedStatus}` });
+      }
+      const statusError = await checkTicketStatusChange(req, await getTicketWorkflow(req.serverDbConnection!), currentStatus, requestedStatus);
+      if (statusError) {
+        return res.status(403).json({ error: statusError });
+      }
+      setTicketStatus(ticket, requestedStatus, statusActor, updates.newReply?.action || null);
+    } else if (updates.newReply) {
+      const replyStatus = getReplyTicketStatus(ticket, updates.newReply.staff);
+      if (replyStatus) {
+        setTicketStatus(ticket, replyStatus, statusActor);
       }
-      ticket.locked = updates.locked;
     }
 
     // Add new reply if provided
@@ -673,6 +1077,9 @@ router.patch('/:id', async (req: Request<{ id: string }, {}, UpdateTicketBody>,
         attachments: updates.newReply.attachments || []
       };
       ticket.replies.push(newReply);
+      if (req.session?.username) {
+        clearReplying(req.serverName!, req.params.id, req.session.username);
+      }
 
       // Auto-subscribe staff member to ticket when they reply
       if (newReply.staff && req.session?.username) {
@@ -692,16 +1099,14 @@ router.patch('/:id', async (req: Request<{ id: string }, {}, UpdateTicketBody>,
       if (newReply.staff && ticket.creatorUuid) {
         console.log(`[Ticket PATCH] Staff reply detected from ${newReply.name}`);
         
-        // Build panel URL from server name
-        const panelUrl = process.env.NODE_ENV === 'development' 
-          ? `http://localhost:5173`
-          : `https://${req.serverName}.${process.env.DOMAIN || 'modl.gg'}`;
+        // The player opens the ticket through a magic link
+        const accessToken = await createTicketAccessToken(req.serverDbConnection!, req.params.id, 'magic_link');
         
         const notification = createTicketReplyNotification(
           req.params.id, 
           newReply.name, 
           newReply.content,
-          panelUrl
+          getTicketUrl(req.serverName, req.params.id, accessToken)
         );
         await addNotificationToPlayer(req.serverDbConnection!, ticket.creatorUuid, notification);
         
@@ -729,7 +1134,8 @@ router.patch('/:id', async (req: Request<{ id: string }, {}, UpdateTicketBody>,
               replyAuthor: newReply.name,
               isStaffReply: newReply.staff,
               serverName: req.serverName,
-              serverDisplayName: serverDisplayName
+              serverDisplayName: serverDisplayName,
+              accessToken
             });
             console.log(`[Ticket PATCH] Email notification sent successfully to ${emailField}`);
           } catch (emailError) {
@@ -765,6 +1171,72 @@ router.patch('/:id', async (req: Request<{ id: string }, {}, UpdateTicketBody>,
 
     await ticket.save();
 
+    const ruleEvents: TicketRuleEvent[] = [];
+    if (updates.newReply) {
+      ruleEvents.push({ trigger: 'reply.added', replyFromStaff: updates.newReply.staff });
+    }
+    if (ticket.status !== previousStatus) {
+      ruleEvents.push({ trigger: 'status.changed', value: ticket.status });
+    }
+    for (const tag of ticket.tags.filter(tag => !previousTags.includes(tag))) {
+      ruleEvents.push({ trigger: 'tag.added', value: tag });
+    }
+    if (updates.data && typeof updates.data === 'object') {
+      ruleEvents.push(...getFieldChangeEvents(previousData, updates.data));
+    }
+    queueTicketRules(req.serverDbConnection!, req.serverName, ticket._id, ruleEvents);
+
+    publishEvent(req.serverName, 'tickets', updates.newReply ? 'ticket.reply' : 'ticket.updated', {
+      ticketId: ticket._id,
+      status: ticket.status,
+      locked: ticket.locked || false,
+      tags: ticket.tags
+    });
+    if (updates.newReply) {
+      triggerWebhookEvent(req.serverDbConnection, req.serverName, 'ticket.replied', {
+        ticketId: ticket._id,
+        author: updates.newReply.name,
+        staff: updates.newReply.staff,
+        content: updates.newReply.content
+      });
+    }
+    if (ticket.status === 'Closed' && previousStatus !== 'Closed') {
+      triggerWebhookEvent(req.serverDbConnection, req.serverName, 'ticket.closed', {
+        ticketId: ticket._id,
+        subject: ticket.subject,
+        closedBy: req.session?.username
+      });
+    }
+
+    if (updates.newReply) {
+      await recordAuditEvent(req.serverDbConnection, req.serverName, {
+        action: 'ticket.replied',
+        summary: `${updates.newReply.name} replied to ticket ${ticket._id}`,
+        target: { type: 'ticket', id: ticket._id },
+        after: updates.newReply,
+        metadata: { author: updates.newReply.name, staff: updates.newReply.staff, replyType: updates.newReply.type, replyAction: updates.newReply.action }
+      }, req);
+    }
+    if (updates.newNote) {
+      await recordAuditEvent(req.serverDbConnection, req.serverName, {
+        action: 'ticket.note_added',
+        summary: `Note added to ticket ${ticket._id} by ${updates.newNote.author}`,
+        target: { type: 'ticket', id: ticket._id },
+        after: updates.newNote
+      }, req);
+    }
+    const currentState = toAuditSnapshot({ status: ticket.status, locked: ticket.locked || false, tags: ticket.tags, data: ticket.data });
+    if (diffAuditSnapshots(previousState, currentState).length > 0) {
+      const closed = ticket.status === 'Closed' && previousStatus !== 'Closed';
+      await recordAuditEvent(req.serverDbConnection, req.serverName, {
+        action: closed ? 'ticket.closed' : 'ticket.updated',
+        summary: closed ? `Ticket ${ticket._id} closed` : `Ticket ${ticket._id} updated`,
+        target: { type: 'ticket', id: ticket._id },
+        before: previousState,
+        after: currentState
+      }, req);
+    }
+
     // Return the updated ticket
     res.status(200).json({
       id: ticket._id,
@@ -798,11 +1270,21 @@ router.patch('/:id/data', async (req: Request<{ id: string }, {}, UpdateTicketDa
 
     // Assuming req.body.data is an object with key-value pairs to update in ticket.data (Map)
     if (req.body.data && typeof req.body.data === 'object') {
+      const previousData = toAuditSnapshot(ticket.data);
+      const ruleEvents = getFieldChangeEvents(Object.fromEntries(ticket.data), req.body.data);
       for (const [key, value] of Object.entries(req.body.data)) {
         ticket.data.set(key, value);
       }
       await ticket.save();
-
+      queueTicketRules(req.serverDbConnection!, req.serverName, ticket._id, ruleEvents);
+
+      await recordAuditEvent(req.serverDbConnection, req.serverName, {
+        action: 'ticket.updated',
+        summary: `Data of ticket ${ticket._id} updated`,
+        target: { type: 'ticket', id: ticket._id },
+        before: { data: previousData },
+        after: { data: ticket.data }
+      }, req);
     }
 
     res.status(200).json(Object.fromEntries(ticket.data)); // Convert Map to object for JSON response
@@ -886,6 +1368,9 @@ router.post('/:id/quick-response', async (req: Request<{ id: string }, {}, Quick
       return res.status(404).json({ error: 'Ticket not found' });
     }
 
+    const previousStatus = ticket.status;
+    const previousTicket = toAuditSnapshot(ticket);
+
     // Get quick responses configuration from settings
     const settingsDoc = await Settings.findOne();
     if (!settingsDoc || !settingsDoc.settings) {
@@ -920,9 +1405,9 @@ router.post('/:id/quick-response', async (req: Request<{ id: string }, {}, Quick
 
     ticket.replies.push(responseReply);
 
-    // Handle punishment issuance for report tickets only (player_report or chat_report)
-    const isReportTicket = ['player_report', 'chat_report'].includes(ticket.category.toLowerCase()) || 
-                          ticket.category.toLowerCase().includes('report');
+    // Handle punishment issuance for tickets in report categories only
+    const ticketCategory = findTicketCategory(await getTicketCategories(req.serverDbConnection!), ticket.type || ticket.category);
+    const isReportTicket = ticketCategory?.isReport === true;
     
     if (action.issuePunishment && isReportTicket) {
       if (req.body.punishmentTypeId && ticket.data.get('reported_player')) {
@@ -940,7 +1425,9 @@ router.post('/:id/quick-response', async (req: Request<{ id: string }, {}, Quick
             severity,
             reason,
             ticket._id,
-            req.user?.displayName || 'System'
+            req.user?.displayName || 'System',
+            false,
+            req
           );
 
           // Add a note about the punishment
@@ -960,7 +1447,9 @@ router.post('/:id/quick-response', async (req: Request<{ id: string }, {}, Quick
     }
 
     // Handle appeal actions
-    if (action.appealAction && ticket.category.toLowerCase().includes('appeal')) {
+    let closeTicket = action.closeTicket === true;
+    let appealDecision: { decision: string; punishmentModified: boolean } | null = null;
+    if (action.appealAction && ticketCategory?.id === APPEAL_CATEGORY_ID) {
       const appealAction = req.body.appealAction || action.appealAction;
       
       if (appealAction === 'pardon') {
@@ -970,36 +1459,33 @@ router.post('/:id/quick-response', async (req: Request<{ id: string }, {}, Quick
         
         if (punishmentId && playerUuid) {
           try {
-            const Player = req.serverDbConnection!.model('Player');
-            const player = await Player.findOne({ minecraftUuid: playerUuid, 'punishments.id': punishmentId });
-            
-            if (player) {
-              const punishment = player.punishments.find((p: any) => p.id === punishmentId);
-              if (punishment) {
-                // Add pardon modification
-                punishment.modifications = punishment.modifications || [];
-                punishment.modifications.push({
-                  type: 'APPEAL_ACCEPT',
-                  issuerName: req.user?.displayName || 'System',
-                  issued: new Date(),
-                });
-                
-                // Mark punishment as inactive
-                punishment.data = punishment.data || new Map();
-                punishment.data.set('active', false);
-                punishment.data.set('appealOutcome', 'Approved');
-                punishment.data.set('appealTicketId', ticket._id);
-                
-                await player.save();
-                
-                const pardonNote: INote = {
-                  text: `Appeal approved - Full pardon granted. Punishment ${punishmentId} has been pardoned.`,
-                  issuerName: req.user?.displayName || 'System',
-                  issuerAvatar: req.user?.avatar,
-                  date: new Date(),
-                };
-                ticket.notes.push(pardonNote);
-              }
+            const punishment: any = await getPunishmentModel(req.serverDbConnection!).findOne({ minecraftUuid: playerUuid, id: punishmentId });
+
+            if (punishment) {
+              // Add pardon modification
+              punishment.modifications = punishment.modifications || [];
+              punishment.modifications.push({
+                type: 'APPEAL_ACCEPT',
+                issuerName: req.user?.displayName || 'System',
+                issued: new Date(),
+              });
+              
+              // Mark punishment as inactive
+              punishment.data = punishment.data || new Map();
+              punishment.data.set('active', false);
+              punishment.data.set('appealOutcome', 'Approved');
+              punishment.data.set('appealTicketId', ticket._id);
+              
+              await punishment.save();
+              appealDecision = { decision: 'pardon', punishmentModified: true };
+              
+              const pardonNote: INote = {
+                text: `Appeal approved - Full pardon granted. Punishment ${punishmentId} has been pardoned.`,
+                issuerName: req.user?.displayName || 'System',
+                issuerAvatar: req.user?.avatar,
+                date: new Date(),
+              };
+              ticket.notes.push(pardonNote);
             }
           } catch (error) {
             console.error('Error executing pardon:', error);
@@ -1013,7 +1499,8 @@ router.post('/:id/quick-response', async (req: Request<{ id: string }, {}, Quick
           }
         }
         
-        ticket.status = 'Closed';
+        appealDecision = appealDecision || { decision: 'pardon', punishmentModified: false };
+        closeTicket = true;
       } else if (appealAction === 'reduce') {
         // Execute reduction action on the actual punishment
         const punishmentId = ticket.data?.get('punishmentId');
@@ -1021,44 +1508,41 @@ router.post('/:id/quick-response', async (req: Request<{ id: string }, {}, Quick
         
         if (punishmentId && playerUuid && req.body.customValues) {
           try {
-            const Player = req.serverDbConnection!.model('Player');
-            const player = await Player.findOne({ minecraftUuid: playerUuid, 'punishments.id': punishmentId });
-            
-            if (player) {
-              const punishment = player.punishments.find((p: any) => p.id === punishmentId);
-              if (punishment) {
-                // Get reduction details from custom values
-                const newDuration = req.body.customValues.duration;
-                const isPermanent = req.body.customValues.isPermanent;
-                
-                // Add reduction modification
-                punishment.modifications = punishment.modifications || [];
-                punishment.modifications.push({
-                  type: 'MANUAL_DURATION_CHANGE',
-                  issuerName: req.user?.displayName || 'System',
-                  issued: new Date(),
-                  data: new Map([
-                    ['effectiveDuration', isPermanent ? -1 : newDuration],
-                    ['reason', 'Appeal partially approved - duration reduced']
-                  ])
-                });
-                
-                // Update punishment data
-                punishment.data = punishment.data || new Map();
-                punishment.data.set('appealOutcome', 'Reduced');
-                punishment.data.set('appealTicketId', ticket._id);
-                
-                await player.save();
-                
-                const reductionText = isPermanent ? 'permanent' : `${newDuration} milliseconds`;
-                const reductionNote: INote = {
-                  text: `Appeal partially approved - Punishment ${punishmentId} duration reduced to ${reductionText}.`,
-                  issuerName: req.user?.displayName || 'System',
-                  issuerAvatar: req.user?.avatar,
-                  date: new Date(),
-                };
-                ticket.notes.push(reductionNote);
-              }
+            const punishment: any = await getPunishmentModel(req.serverDbConnection!).findOne({ minecraftUuid: playerUuid, id: punishmentId });
+
+            if (punishment) {
+              // Get reduction details from custom values
+              const newDuration = req.body.customValues.duration;
+              const isPermanent = req.body.customValues.isPermanent;
+              
+              // Add reduction modification
+              punishment.modifications = punishment.modifications || [];
+              punishment.modifications.push({
+                type: 'MANUAL_DURATION_CHANGE',
+                issuerName: req.user?.displayName || 'System',
+                issued: new Date(),
+                data: new Map([
+                  ['effectiveDuration', isPermanent ? -1 : newDuration],
+                  ['reason', 'Appeal partially approved - duration reduced']
+                ])
+              });
+              
+              // Update punishment data
+              punishment.data = punishment.data || new Map();
+              punishment.data.set('appealOutcome', 'Reduced');
+              punishment.data.set('appealTicketId', ticket._id);
+              
+              await punishment.save();
+              appealDecision = { decision: 'reduce', punishmentModified: true };
+              
+              const reductionText = isPermanent ? 'permanent' : `${newDuration} milliseconds`;
+              const reductionNote: INote = {
+                text: `Appeal partially approved - Punishment ${punishmentId} duration reduced to ${reductionText}.`,
+                issuerName: req.user?.displayName || 'System',
+                issuerAvatar: req.user?.avatar,
+                date: new Date(),
+              };
+              ticket.notes.push(reductionNote);
             }
           } catch (error) {
             console.error('Error executing reduction:', error);
@@ -1072,6 +1556,7 @@ router.post('/:id/quick-response', async (req: Request<{ id: string }, {}, Quick
           }
         }
         
+        appealDecision = appealDecision || { decision: 'reduce', punishmentModified: false };
         // Don't automatically close for reduction - staff may want to add more details
       } else if (appealAction === 'reject') {
         const rejectionNote: INote = {
@@ -1081,17 +1566,88 @@ router.post('/:id/quick-response', async (req: Request<{ id: string }, {}, Quick
           date: new Date(),
         };
         ticket.notes.push(rejectionNote);
-        ticket.status = 'Closed';
+        closeTicket = true;
+        appealDecision = { decision: 'reject', punishmentModified: false };
       }
     }
 
-    // Update ticket status based on action's closeTicket property
-    if (action.closeTicket) {
-      ticket.status = 'Closed';
+    // Close the ticket if the action or appeal decision does, otherwise it waits on the player
+    const staffName = req.user?.displayName || 'System';
+    const quickResponseStatus = closeTicket ? 'Closed' : getReplyTicketStatus(ticket, true);
+    if (quickResponseStatus) {
+      setTicketStatus(ticket, quickResponseStatus, staffName, action.name);
     }
 
     await ticket.save();
 
+    publishEvent(req.serverName, 'tickets', 'ticket.updated', { ticketId: ticket._id, status: ticket.status });
+    queueTicketRules(req.serverDbConnection!, req.serverName, ticket._id, [
+      { trigger: 'reply.added', replyFromStaff: true },
+      ...(ticket.status !== previousStatus ? [{ trigger: 'status.changed' as const, value: ticket.status }] : [])
+    ]);
+
+    triggerWebhookEvent(req.serverDbConnection, req.serverName, 'ticket.replied', {
+      ticketId: ticket._id,
+      author: staffName,
+      staff: true,
+      content: action.message
+    });
+    if (appealDecision) {
+      const punishmentId = ticket.data?.get('punishmentId');
+      const playerUuid = ticket.data?.get('playerUuid');
+      triggerWebhookEvent(req.serverDbConnection, req.serverName, 'appeal.decided', {
+        ticketId: ticket._id,
+        decision: appealDecision.decision,
+        punishmentId,
+        playerUuid,
+        decidedBy: staffName
+      });
+      if (appealDecision.punishmentModified) {
+        triggerWebhookEvent(req.serverDbConnection, req.serverName, appealDecision.decision === 'pardon' ? 'punishment.pardoned' : 'punishment.modified', {
+          punishmentId,
+          playerUuid,
+          modificationType: appealDecision.decision === 'pardon' ? 'APPEAL_ACCEPT' : 'MANUAL_DURATION_CHANGE',
+          issuerName: staffName,
+          appealTicketId: ticket._id
+        });
+      }
+    }
+    if (ticket.status === 'Closed' && previousStatus !== 'Closed') {
+      triggerWebhookEvent(req.serverDbConnection, req.serverName, 'ticket.closed', {
+        ticketId: ticket._id,
+        subject: ticket.subject,
+        closedBy: staffName
+      });
+    }
+
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'ticket.replied',
+      summary: `Quick response "${action.name}" applied to ticket ${ticket._id} by ${staffName}`,
+      target: { type: 'ticket', id: ticket._id },
+      before: previousTicket,
+      after: ticket,
+      metadata: {
+        author: staffName,
+        staff: true,
+        quickResponse: action.name,
+        appealDecision: appealDecision?.decision,
+        punishmentId: appealDecision ? ticket.data?.get('punishmentId') : undefined
+      }
+    }, req);
+    if (appealDecision?.punishmentModified) {
+      await recordAuditEvent(req.serverDbConnection, req.serverName, {
+        action: appealDecision.decision === 'pardon' ? 'punishment.pardoned' : 'punishment.modified',
+        summary: `Punishment ${ticket.data?.get('punishmentId')} ${appealDecision.decision === 'pardon' ? 'pardoned' : 'reduced'} through appeal ${ticket._id} by ${staffName}`,
+        target: { type: 'punishment', id: ticket.data?.get('punishmentId') },
+        metadata: {
+          playerUuid: ticket.data?.get('playerUuid'),
+          appealTicketId: ticket._id,
+          issuerName: staffName,
+          staffUsername: req.session?.username
+        }
+      }, req);
+    }
+
     res.json({ 
       success: true, 
       message: 'Quick response applied successfully',
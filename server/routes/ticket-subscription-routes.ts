@@ -1,4 +1,5 @@
 import express from 'express';
+import { getTicketEscalations } from '../services/ticket-sla-service';
 
 const router = express.Router();
 
@@ -151,7 +152,8 @@ router.get('/updates', async (req, res) => {
       _id: { $in: subscribedTicketIds },
       $or: [
         { 'replies.0': { $exists: true } },
-        { 'messages.0': { $exists: true } }
+        { 'messages.0': { $exists: true } },
+        { 'data.escalations.0': { $exists: true } }
       ]
     }).sort({ updatedAt: -1 }).limit(parseInt(limit as string) * 2).lean();
 
@@ -198,6 +200,27 @@ router.get('/updates', async (req, res) => {
         });
       }
 
+      // Missed SLA targets staff are notified about
+      const unreadEscalations = getTicketEscalations(ticket).filter(escalation => {
+        const escalatedAt = new Date(escalation.at);
+        return escalation.notified &&
+          escalatedAt > new Date(subscription.subscribedAt) &&
+          (!subscription.lastReadAt || escalatedAt > new Date(subscription.lastReadAt));
+      });
+      for (const escalation of unreadEscalations) {
+        const target = escalation.timer === 'firstResponse' ? 'first response' : 'resolution';
+        updatesWithDetails.push({
+          id: `${ticket._id}-sla-${new Date(escalation.at).getTime()}`,
+          ticketId: ticket._id.toString(),
+          ticketTitle: `${ticket._id}: ${ticket.subject || ticket.title || 'Untitled Ticket'}`,
+          replyContent: `Missed its ${target} target${escalation.actions.length > 0 ? `, ${escalation.actions.join(', ')}` : ''}`,
+          replyBy: 'SLA',
+          replyAt: new Date(escalation.at),
+          isStaffReply: true,
+          isRead: false
+        });
+      }
+
       if (updatesWithDetails.length >= parseInt(limit as string)) {
         break;
       }
@@ -0,0 +1,290 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import {
+  IWebhook,
+  IWebhookDelivery,
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  getWebhookDeliveryModel,
+  getWebhookModel,
+  isWebhookEvent,
+  sendTestWebhook,
+  validateWebhookUrl
+} from '../services/webhook-service';
+import { createSystemLog } from './log-routes';
+import { recordAuditEvent } from '../services/audit-service';
+
+const router = express.Router();
+
+const MAX_DELIVERIES = 50;
+
+// Viewing webhooks requires admin.settings.view, everything else admin.settings.modify
+router.use(async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.serverDbConnection) {
+    return res.status(503).json({ error: 'Service unavailable. Database connection not established for this server.' });
+  }
+
+  const requiredPermission = req.method === 'GET' ? 'admin.settings.view' : 'admin.settings.modify';
+  try {
+    const { hasPermission } = await import('../middleware/permission-middleware');
+    if (!(await hasPermission(req, requiredPermission))) {
+      return res.status(403).json({
+        message: 'Forbidden: You do not have the required permissions.',
+        required: [requiredPermission]
+      });
+    }
+    next();
+  } catch (error) {
+    console.error('Error checking webhook permissions:', error);
+    res.status(500).json({ message: 'Internal server error while checking permissions.' });
+  }
+});
+
+function formatWebhook(webhook: IWebhook) {
+  return {
+    id: webhook._id.toString(),
+    name: webhook.name,
+    url: webhook.url,
+    events: webhook.events,
+    format: webhook.format,
+    enabled: webhook.enabled,
+    createdBy: webhook.createdBy,
+    createdAt: webhook.createdAt,
+    updatedAt: webhook.updatedAt
+  };
+}
+
+function formatDelivery(delivery: IWebhookDelivery) {
+  return {
+    id: delivery._id.toString(),
+    event: delivery.event,
+    status: delivery.status,
+    attempts: delivery.attempts,
+    responseStatus: delivery.responseStatus,
+    error: delivery.error,
+    payload: delivery.payload,
+    nextAttemptAt: delivery.nextAttemptAt,
+    lastAttemptAt: delivery.lastAttemptAt,
+    createdAt: delivery.createdAt
+  };
+}
+
+/**
+ * Validate the editable fields of a webhook, returns an error message or null
+ */
+function validateWebhookBody(body: any, partial: boolean): string | null {
+  const { name, url, events, format, enabled } = body;
+
+  if ((!partial || name !== undefined) && (typeof name !== 'string' || !name.trim())) {
+    return 'A name is required';
+  }
+
+  if (!partial || url !== undefined) {
+    if (typeof url !== 'string') return 'A URL is required';
+    const urlError = validateWebhookUrl(url.trim());
+    if (urlError) return urlError;
+  }
+
+  if (!partial || events !== undefined) {
+    if (!Array.isArray(events) || events.length === 0) {
+      return 'At least one event is required';
+    }
+    const invalidEvents = events.filter((event: unknown) => !isWebhookEvent(event));
+    if (invalidEvents.length > 0) {
+      return `Invalid events: ${invalidEvents.join(', ')}`;
+    }
+  }
+
+  if (format !== undefined && format !== 'json' && format !== 'discord') {
+    return "Format must be 'json' or 'discord'";
+  }
+
+  if (enabled !== undefined && typeof enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+
+  return null;
+}
+
+async function findWebhook(req: Request<{ id: string }>): Promise<IWebhook | null> {
+  if (!Types.ObjectId.isValid(req.params.id)) return null;
+  return getWebhookModel(req.serverDbConnection!).findById(req.params.id);
+}
+
+// List webhooks
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const webhooks = await getWebhookModel(req.serverDbConnection!).find().sort({ createdAt: -1 });
+    res.json({
+      webhooks: webhooks.map(formatWebhook),
+      availableEvents: WEBHOOK_EVENTS
+    });
+  } catch (error) {
+    console.error('Error listing webhooks:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create a webhook, the signing secret is only returned here and when it is rotated
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const validationError = validateWebhookBody(req.body, false);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const createdBy = req.session?.username || 'Unknown';
+    const webhook = await getWebhookModel(req.serverDbConnection!).create({
+      name: req.body.name.trim(),
+      url: req.body.url.trim(),
+      events: Array.from(new Set(req.body.events)),
+      format: req.body.format || 'json',
+      enabled: req.body.enabled ?? true,
+      secret: generateWebhookSecret(),
+      createdBy
+    });
+
+    await createSystemLog(req.serverDbConnection, req.serverName, `Webhook "${webhook.name}" created by ${createdBy} for events: ${webhook.events.join(', ')}`, 'info', 'settings');
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'webhook.created',
+      summary: `Webhook "${webhook.name}" created`,
+      target: { type: 'webhook', id: webhook._id.toString(), name: webhook.name },
+      after: formatWebhook(webhook)
+    }, req);
+
+    res.status(201).json({
+      webhook: formatWebhook(webhook),
+      secret: webhook.secret
+    });
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update a webhook
+router.put('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const webhook = await findWebhook(req);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const validationError = validateWebhookBody(req.body, true);
+    if (validationError) {
+      return res.status(400).json({ error: validationError });
+    }
+
+    const previousWebhook = formatWebhook(webhook);
+    const { name, url, events, format, enabled } = req.body;
+    if (name !== undefined) webhook.name = name.trim();
+    if (url !== undefined) webhook.url = url.trim();
+    if (events !== undefined) webhook.events = Array.from(new Set(events));
+    if (format !== undefined) webhook.format = format;
+    if (enabled !== undefined) webhook.enabled = enabled;
+    await webhook.save();
+
+    await createSystemLog(req.serverDbConnection, req.serverName, `Webhook "${webhook.name}" updated by ${req.session?.username || 'Unknown'}`, 'info', 'settings');
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'webhook.updated',
+      summary: `Webhook "${webhook.name}" updated`,
+      target: { type: 'webhook', id: webhook._id.toString(), name: webhook.name },
+      before: previousWebhook,
+      after: formatWebhook(webhook)
+    }, req);
+
+    res.json({ webhook: formatWebhook(webhook) });
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a webhook and its delivery log
+router.delete('/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const webhook = await findWebhook(req);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    await webhook.deleteOne();
+    await getWebhookDeliveryModel(req.serverDbConnection!).deleteMany({ webhookId: webhook._id });
+
+    await createSystemLog(req.serverDbConnection, req.serverName, `Webhook "${webhook.name}" deleted by ${req.session?.username || 'Unknown'}`, 'info', 'settings');
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'webhook.deleted',
+      summary: `Webhook "${webhook.name}" deleted`,
+      target: { type: 'webhook', id: webhook._id.toString(), name: webhook.name },
+      before: formatWebhook(webhook)
+    }, req);
+
+    res.json({ message: 'Webhook deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Generate a new signing secret
+router.post('/:id/rotate-secret', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const webhook = await findWebhook(req);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    webhook.secret = generateWebhookSecret();
+    await webhook.save();
+
+    await createSystemLog(req.serverDbConnection, req.serverName, `Signing secret of webhook "${webhook.name}" rotated by ${req.session?.username || 'Unknown'}`, 'info', 'settings');
+    await recordAuditEvent(req.serverDbConnection, req.serverName, {
+      action: 'webhook.secret_rotated',
+      summary: `Signing secret of webhook "${webhook.name}" rotated`,
+      target: { type: 'webhook', id: webhook._id.toString(), name: webhook.name }
+    }, req);
+
+    res.json({ secret: webhook.secret });
+  } catch (error) {
+    console.error('Error rotating webhook secret:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Send a test event
+router.post('/:id/test', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const webhook = await findWebhook(req);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const delivery = await sendTestWebhook(req.serverDbConnection!, req.serverName, webhook, req.session?.username || 'Unknown');
+    res.json({ delivery: formatDelivery(delivery) });
+  } catch (error) {
+    console.error('Error sending test webhook:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Recent deliveries of a webhook
+router.get('/:id/deliveries', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const webhook = await findWebhook(req);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const deliveries = await getWebhookDeliveryModel(req.serverDbConnection!)
+      .find({ webhookId: webhook._id })
+      .sort({ createdAt: -1 })
+      .limit(MAX_DELIVERIES);
+
+    res.json({ deliveries: deliveries.map(formatDelivery) });
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,449 @@
+import { Request } from 'express';
+import { Connection, Document, Model, Schema, Types } from 'mongoose';
+import { AuditActor, recordAuditEvent } from './audit-service';
+import { getIpLastLogin } from './login-history-service';
+
+/**
+ * Linked-account graph.
+ *
+ * Each pair of accounts suspected to belong to the same person is an edge carrying the
+ * evidence for the link and a confidence score. Detection only adds evidence, staff can
+ * confirm, reject or annotate a link and their decision is kept when it is re-detected.
+ * The `linkedAccounts` list on player data is kept in sync as a cache of the graph.
+ */
+
+export const LINK_EVIDENCE_TYPES = ['shared_ip', 'proxy_ip_timing', 'asn', 'skin_hash', 'manual'] as const;
+export const LINK_STATUSES = ['detected', 'confirmed', 'rejected'] as const;
+
+export type LinkEvidenceType = typeof LINK_EVIDENCE_TYPES[number];
+export type LinkStatus = typeof LINK_STATUSES[number];
+
+export interface ILinkEvidence {
+  type: LinkEvidenceType;
+  detail: string;
+  weight: number; // 0-1, how strongly this evidence alone suggests the same person
+  ipAddress?: string | null;
+  observedAt: Date;
+}
+
+export interface ILinkNote {
+  author: string;
+  text: string;
+  createdAt: Date;
+}
+
+export interface IAccountLink extends Document<Types.ObjectId> {
+  // Stored in sorted order so each pair has a single edge
+  playerA: string;
+  playerB: string;
+  evidence: ILinkEvidence[];
+  score: number; // 0-100, combined from the evidence
+  status: LinkStatus;
+  notes: ILinkNote[];
+  reviewedBy: string | null;
+  reviewedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AltDetectionSettings {
+  // Links below this confidence are kept in the graph but not treated as linked accounts
+  minLinkConfidence: number;
+  // Linked bans and alt-blocking bans are only issued to accounts linked with at least this confidence
+  linkedBanMinConfidence: number;
+}
+
+export const DEFAULT_ALT_DETECTION_SETTINGS: AltDetectionSettings = {
+  minLinkConfidence: 20,
+  linkedBanMinConfidence: 60
+};
+
+const LinkEvidenceSchema = new Schema<ILinkEvidence>({
+  type: { type: String, enum: LINK_EVIDENCE_TYPES, required: true },
+  detail: { type: String, required: true },
+  weight: { type: Number, required: true },
+  ipAddress: { type: String, default: null },
+  observedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const AccountLinkSchema = new Schema<IAccountLink>({
+  playerA: { type: String, required: true },
+  playerB: { type: String, required: true },
+  evidence: { type: [LinkEvidenceSchema], default: [] },
+  score: { type: Number, default: 0 },
+  status: { type: String, enum: LINK_STATUSES, default: 'detected' },
+  notes: {
+    type: [{
+      author: { type: String, required: true },
+      text: { type: String, required: true },
+      createdAt: { type: Date, default: Date.now }
+    }],
+    default: []
+  },
+  reviewedBy: { type: String, default: null },
+  reviewedAt: { type: Date, default: null }
+}, {
+  timestamps: true
+});
+
+AccountLinkSchema.index({ playerA: 1, playerB: 1 }, { unique: true });
+AccountLinkSchema.index({ playerB: 1 });
+
+// Evidence weights. Shared IPs are the only evidence that finds candidates, ASN and skin
+// matches only strengthen a link because many unrelated players share them.
+const SHARED_IP_WEIGHT = 0.6;
+const PROXY_WITHIN_HOUR_WEIGHT = 0.4;
+const PROXY_WITHIN_SIX_HOURS_WEIGHT = 0.2;
+const SHARED_ASN_WEIGHT = 0.1;
+const SKIN_HASH_WEIGHT = 0.3;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function getAccountLinkModel(dbConnection: Connection): Model<IAccountLink> {
+  return (dbConnection.models.AccountLink as Model<IAccountLink>) ||
+    dbConnection.model<IAccountLink>('AccountLink', AccountLinkSchema);
+}
+
+export function isLinkStatus(status: unknown): status is LinkStatus {
+  return typeof status === 'string' && (LINK_STATUSES as readonly string[]).includes(status);
+}
+
+export async function getAltDetectionSettings(dbConnection: Connection): Promise<AltDetectionSettings> {
+  const Settings = dbConnection.model('Settings');
+  const settingsDoc = await Settings.findOne({ type: 'altDetection' });
+  return { ...DEFAULT_ALT_DETECTION_SETTINGS, ...(settingsDoc?.data || {}) };
+}
+
+/**
+ * Combine independent evidence into a 0-100 score: each piece removes its weight's share
+ * of the remaining doubt
+ */
+export function scoreEvidence(evidence: ILinkEvidence[]): number {
+  const doubt = evidence.reduce((remaining, item) => remaining * (1 - Math.min(Math.max(item.weight, 0), 1)), 1);
+  return Math.round((1 - doubt) * 100);
+}
+
+/**
+ * How confident we are that the two accounts of a link belong to the same person,
+ * after staff review
+ */
+export function getLinkConfidence(link: Pick<IAccountLink, 'status' | 'score'>): number {
+  if (link.status === 'rejected') return 0;
+  if (link.status === 'confirmed') return 100;
+  return link.score;
+}
+
+function orderPair(uuid: string, otherUuid: string): [string, string] {
+  return uuid < otherUuid ? [uuid, otherUuid] : [otherUuid, uuid];
+}
+
+function getPlayerData(player: any, key: string): any {
+  return player.data instanceof Map ? player.data.get(key) : player.data?.[key];
+}
+
+function getPlayerName(player: any): string {
+  return player.usernames?.[player.usernames.length - 1]?.username || 'Unknown';
+}
+
+// IP entries only summarize their logins, so the first and last use stand in for them
+function getLoginTimes(ipEntry: any): number[] {
+  const logins: any[] = ipEntry.logins && ipEntry.logins.length > 0 ? ipEntry.logins : [ipEntry.firstLogin, getIpLastLogin(ipEntry)];
+  return logins.filter(Boolean).map(login => new Date(login).getTime()).sort((a, b) => a - b);
+}
+
+// Smallest gap between a login of one account and a login of the other
+function closestLoginGap(times: number[], otherTimes: number[]): number {
+  let gap = Infinity;
+  let i = 0;
+  let j = 0;
+  while (i < times.length && j < otherTimes.length) {
+    gap = Math.min(gap, Math.abs(times[i] - otherTimes[j]));
+    if (times[i] < otherTimes[j]) i++; else j++;
+  }
+  return gap;
+}
+
+/**
+ * Evidence that two players are the same person, from their IP history and skins
+ */
+export function collectLinkEvidence(player: any, otherPlayer: any): ILinkEvidence[] {
+  const evidence: ILinkEvidence[] = [];
+  const now = new Date();
+  const otherIps = new Map<string, any>((otherPlayer.ipList || []).map((ip: any) => [ip.ipAddress, ip]));
+
+  for (const ipEntry of player.ipList || []) {
+    const otherEntry = otherIps.get(ipEntry.ipAddress);
+    if (!otherEntry) continue;
+
+    if (!ipEntry.proxy && !otherEntry.proxy) {
+      evidence.push({ type: 'shared_ip', detail: `Both accounts used ${ipEntry.ipAddress}`, weight: SHARED_IP_WEIGHT, ipAddress: ipEntry.ipAddress, observedAt: now });
+      continue;
+    }
+
+    // Many people share a proxy or VPN exit, it only counts when the accounts used it at about the same time
+    const gap = closestLoginGap(getLoginTimes(ipEntry), getLoginTimes(otherEntry));
+    if (gap <= HOUR_MS) {
+      evidence.push({ type: 'proxy_ip_timing', detail: `Both accounts used proxy ${ipEntry.ipAddress} within an hour`, weight: PROXY_WITHIN_HOUR_WEIGHT, ipAddress: ipEntry.ipAddress, observedAt: now });
+    } else if (gap <= 6 * HOUR_MS) {
+      evidence.push({ type: 'proxy_ip_timing', detail: `Both accounts used proxy ${ipEntry.ipAddress} within 6 hours`, weight: PROXY_WITHIN_SIX_HOURS_WEIGHT, ipAddress: ipEntry.ipAddress, observedAt: now });
+    }
+  }
+
+  if (evidence.length === 0) {
+    return evidence;
+  }
+
+  const usableAsn = (ip: any) => ip.asn && ip.asn !== 'Unknown' && !ip.hosting && !ip.proxy;
+  const asns = new Set((player.ipList || []).filter(usableAsn).map((ip: any) => ip.asn));
+  const sharedAsn = (otherPlayer.ipList || []).find((ip: any) => usableAsn(ip) && asns.has(ip.asn));
+  if (sharedAsn) {
+    evidence.push({ type: 'asn', detail: `Both accounts connect from ${sharedAsn.asn}`, weight: SHARED_ASN_WEIGHT, ipAddress: null, observedAt: now });
+  }
+
+  const skinHash = getPlayerData(player, 'lastSkinHash');
+  if (skinHash && skinHash === getPlayerData(otherPlayer, 'lastSkinHash')) {
+    evidence.push({ type: 'skin_hash', detail: 'Both accounts use the same skin', weight: SKIN_HASH_WEIGHT, ipAddress: null, observedAt: now });
+  }
+
+  return evidence;
+}
+
+export interface LinkDetectionResult {
+  added: string[]; // Accounts that became linked
+  removed: string[]; // Accounts that are no longer linked after their evidence changed
+}
+
+/**
+ * Re-evaluate the links of a player against every account that shares one of the given
+ * IP addresses. Without addresses the player is fully rescanned: all of its addresses and
+ * every existing link are checked, so links whose evidence is gone are dropped too.
+ * Detected evidence replaces the previous detected evidence, manual evidence and staff
+ * decisions are kept.
+ */
+export async function detectAccountLinks(
+  dbConnection: Connection,
+  serverName: string | undefined | null,
+  playerUuid: string,
+  ipAddresses?: string[]
+): Promise<LinkDetectionResult> {
+  const result: LinkDetectionResult = { added: [], removed: [] };
+  const Player = dbConnection.model('Player');
+  const AccountLink = getAccountLinkModel(dbConnection);
+
+  const player = await Player.findOne({ minecraftUuid: playerUuid }).lean<any>();
+  if (!player) {
+    return result;
+  }
+
+  const fullScan = !ipAddresses || ipAddresses.length === 0;
+  const ips = fullScan ? (player.ipList || []).map((ip: any) => ip.ipAddress) : ipAddresses;
+  const linkedUuids = fullScan
+    ? (await getPlayerLinks(dbConnection, playerUuid)).map(link => getOtherPlayer(link, playerUuid))
+    : [];
+  if (ips.length === 0 && linkedUuids.length === 0) {
+    return result;
+  }
+
+  const settings = await getAltDetectionSettings(dbConnection);
+  const candidates = await Player.find({
+    minecraftUuid: { $ne: playerUuid },
+    $or: [{ 'ipList.ipAddress': { $in: ips } }, { minecraftUuid: { $in: linkedUuids } }]
+  }).lean<any[]>();
+
+  for (const candidate of candidates) {
+    const evidence = collectLinkEvidence(player, candidate);
+    const [playerA, playerB] = orderPair(playerUuid, candidate.minecraftUuid);
+    const existing = await AccountLink.findOne({ playerA, playerB });
+
+    if (!existing && evidence.length === 0) continue;
+
+    const wasLinked = !!existing && getLinkConfidence(existing) >= settings.minLinkConfidence;
+    const link = existing || new AccountLink({ playerA, playerB });
+    link.evidence = [...link.evidence.filter(item => item.type === 'manual'), ...evidence];
+    link.score = scoreEvidence(link.evidence);
+    await link.save();
+
+    const isLinked = getLinkConfidence(link) >= settings.minLinkConfidence;
+    if (isLinked === wasLinked) continue;
+
+    (isLinked ? result.added : result.removed).push(candidate.minecraftUuid);
+    await syncLinkedAccounts(dbConnection, [playerUuid, candidate.minecraftUuid], settings);
+
+    if (isLinked) {
+      await recordAuditEvent(dbConnection, serverName, {
+        action: 'player.link_detected',
+        summary: `${getPlayerName(player)} linked to ${getPlayerName(candidate)} with ${link.score}% confidence`,
+        target: { type: 'player', id: playerUuid, name: getPlayerName(player) },
+        actor: { type: 'system', id: null, name: 'Alt Detection' },
+        metadata: {
+          linkId: link._id.toString(),
+          linkedUuid: candidate.minecraftUuid,
+          linkedName: getPlayerName(candidate),
+          score: link.score,
+          evidence: evidence.map(item => item.detail)
+        }
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Rewrite the cached `linkedAccounts` list of each player from the graph
+ */
+export async function syncLinkedAccounts(
+  dbConnection: Connection,
+  playerUuids: string[],
+  settings?: AltDetectionSettings
+): Promise<void> {
+  const Player = dbConnection.model('Player');
+  const { minLinkConfidence } = settings || await getAltDetectionSettings(dbConnection);
+
+  for (const playerUuid of playerUuids) {
+    const linkedAccounts = await getLinkedAccountUuids(dbConnection, playerUuid, minLinkConfidence);
+    await Player.updateOne(
+      { minecraftUuid: playerUuid },
+      { $set: { 'data.linkedAccounts': linkedAccounts, 'data.lastLinkedAccountUpdate': new Date() } }
+    );
+  }
+}
+
+/**
+ * Accounts linked to a player with at least the given confidence
+ */
+export async function getLinkedAccountUuids(
+  dbConnection: Connection,
+  playerUuid: string,
+  minConfidence: number
+): Promise<string[]> {
+  const links = await getPlayerLinks(dbConnection, playerUuid);
+  return links
+    .filter(link => getLinkConfidence(link) >= minConfidence)
+    .map(link => getOtherPlayer(link, playerUuid));
+}
+
+export async function getPlayerLinks(dbConnection: Connection, playerUuid: string): Promise<IAccountLink[]> {
+  return getAccountLinkModel(dbConnection).find({ $or: [{ playerA: playerUuid }, { playerB: playerUuid }] });
+}
+
+export function getOtherPlayer(link: Pick<IAccountLink, 'playerA' | 'playerB'>, playerUuid: string): string {
+  return link.playerA === playerUuid ? link.playerB : link.playerA;
+}
+
+/**
+ * Link two accounts by hand. The link is confirmed immediately.
+ */
+export async function createManualLink(
+  dbConnection: Connection,
+  serverName: string | undefined | null,
+  playerUuid: string,
+  otherUuid: string,
+  actor: AuditActor,
+  note?: string,
+  req?: Request | null
+): Promise<IAccountLink> {
+  const AccountLink = getAccountLinkModel(dbConnection);
+  const [playerA, playerB] = orderPair(playerUuid, otherUuid);
+
+  const link = await AccountLink.findOne({ playerA, playerB }) || new AccountLink({ playerA, playerB });
+  const before = link.isNew ? null : link.toObject();
+  link.evidence = [
+    ...link.evidence.filter(item => item.type !== 'manual'),
+    { type: 'manual', detail: `Linked by ${actor.name}`, weight: 1, ipAddress: null, observedAt: new Date() }
+  ];
+  link.score = scoreEvidence(link.evidence);
+  link.status = 'confirmed';
+  link.reviewedBy = actor.name;
+  link.reviewedAt = new Date();
+  if (note) {
+    link.notes.push({ author: actor.name, text: note, createdAt: new Date() });
+  }
+  await link.save();
+
+  await syncLinkedAccounts(dbConnection, [playerA, playerB]);
+  await recordAuditEvent(dbConnection, serverName, {
+    action: 'player.link_created',
+    summary: `${actor.name} linked ${playerUuid} to ${otherUuid}`,
+    target: { type: 'player', id: playerUuid },
+    before,
+    after: link,
+    actor,
+    metadata: { linkId: link._id.toString(), linkedUuid: otherUuid, note }
+  }, req);
+
+  return link;
+}
+
+/**
+ * Confirm, reject or reset a link and optionally annotate it
+ */
+export async function reviewLink(
+  dbConnection: Connection,
+  serverName: string | undefined | null,
+  link: IAccountLink,
+  status: LinkStatus,
+  actor: AuditActor,
+  note?: string,
+  req?: Request | null
+): Promise<IAccountLink> {
+  const before = link.toObject();
+  link.status = status;
+  link.reviewedBy = actor.name;
+  link.reviewedAt = new Date();
+  if (note) {
+    link.notes.push({ author: actor.name, text: note, createdAt: new Date() });
+  }
+  await link.save();
+
+  await syncLinkedAccounts(dbConnection, [link.playerA, link.playerB]);
+  await recordAuditEvent(dbConnection, serverName, {
+    action: status === 'confirmed' ? 'player.link_confirmed' : status === 'rejected' ? 'player.link_rejected' : 'player.link_updated',
+    summary: `Link between ${link.playerA} and ${link.playerB} marked ${status} by ${actor.name}`,
+    target: { type: 'player', id: link.playerA },
+    before,
+    after: link,
+    actor,
+    metadata: { linkId: link._id.toString(), linkedUuid: link.playerB, note }
+  }, req);
+
+  return link;
+}
+
+export async function annotateLink(
+  dbConnection: Connection,
+  serverName: string | undefined | null,
+  link: IAccountLink,
+  actor: AuditActor,
+  text: string,
+  req?: Request | null
+): Promise<IAccountLink> {
+  link.notes.push({ author: actor.name, text, createdAt: new Date() });
+  await link.save();
+
+  await recordAuditEvent(dbConnection, serverName, {
+    action: 'player.link_annotated',
+    summary: `${actor.name} annotated the link between ${link.playerA} and ${link.playerB}`,
+    target: { type: 'player', id: link.playerA },
+    actor,
+    metadata: { linkId: link._id.toString(), linkedUuid: link.playerB, note: text }
+  }, req);
+
+  return link;
+}
+
+export function formatAccountLink(link: IAccountLink, playerUuid: string) {
+  return {
+    id: link._id.toString(),
+    linkedUuid: getOtherPlayer(link, playerUuid),
+    evidence: link.evidence,
+    score: link.score,
+    confidence: getLinkConfidence(link),
+    status: link.status,
+    notes: link.notes,
+    reviewedBy: link.reviewedBy,
+    reviewedAt: link.reviewedAt,
+    createdAt: link.createdAt,
+    updatedAt: link.updatedAt
+  };
+}
@@ -1,8 +1,20 @@
 import { Connection } from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
-import GeminiService from './gemini-service';
+import {
+  analyzeAppeal,
+  analyzeChatMessages,
+  AppealAnalysisResponse,
+  createLLMProvider,
+  formatChatTranscript,
+  LLMSettings,
+  resolveLLMSettings,
+  testLLMConnection
+} from './llm-provider-service';
 import SystemPromptsService from './system-prompts-service';
 import PunishmentService from './punishment-service';
+import { logAIRequest } from './storage-settings-service';
+import { getPunishmentModel } from './punishment-store-service';
+import { publishEvent } from './realtime-service';
 
 interface ChatMessage {
   username: string;
@@ -28,21 +40,39 @@ interface AIAnalysisResult {
   createdAt: Date;
 }
 
+interface AIAppealAnalysisResult extends AppealAnalysisResponse {
+  createdAt: Date;
+}
+
 interface AISettings {
   enableAIReview: boolean;
   enableAutomatedActions: boolean;
   strictnessLevel: 'lenient' | 'standard' | 'strict';
+  llm?: Partial<LLMSettings>;
 }
 
+// Core administrative punishment types, not stored in the punishmentTypes settings
+const CORE_PUNISHMENT_TYPE_NAMES: Record<number, string> = {
+  0: 'Kick',
+  1: 'Manual Mute',
+  2: 'Manual Ban',
+  3: 'Security Ban',
+  4: 'Linked Ban',
+  5: 'Blacklist'
+};
+
+// Keep the appeal prompt bounded for players with long histories or reports with long chat logs
+const MAX_HISTORY_PUNISHMENTS = 20;
+const MAX_ATTACHED_REPORTS = 5;
+const MAX_SECTION_LENGTH = 2000;
+
 export class AIModerationService {
   private dbConnection: Connection;
-  private geminiService: GeminiService;
   private systemPromptsService: SystemPromptsService;
   private punishmentService: PunishmentService;
 
   constructor(dbConnection: Connection) {
     this.dbConnection = dbConnection;
-    this.geminiService = new GeminiService();
     this.systemPromptsService = new SystemPromptsService(dbConnection);
     this.punishmentService = new PunishmentService(dbConnection);
   }
@@ -84,8 +114,12 @@ export class AIModerationService {
         punishmentTypes
       );
 
-      // Analyze with Gemini
-      const geminiResponse = await this.geminiService.analyzeChatMessages(
+      // Analyze with the provider configured for this server
+      const llmSettings = resolveLLMSettings(aiSettings.llm);
+      const provider = createLLMProvider(llmSettings);
+      const aiResponse = await analyzeChatMessages(
+        provider,
+        llmSettings,
         chatMessages,
         systemPrompt,
         playerNameForAI
@@ -93,37 +127,37 @@ export class AIModerationService {
 
       // Map AI punishment type ID to actual punishment type ID for storage
       let mappedPunishmentTypeId: number | null = null;
-      if (geminiResponse.suggestedAction) {
-        console.log(`[AI Moderation] AI returned punishment type ID: ${geminiResponse.suggestedAction.punishmentTypeId} (type: ${typeof geminiResponse.suggestedAction.punishmentTypeId})`);
-        console.log(`[AI Moderation] Full AI response: ${JSON.stringify(geminiResponse)}`);
+      if (aiResponse.suggestedAction) {
+        console.log(`[AI Moderation] AI returned punishment type ID: ${aiResponse.suggestedAction.punishmentTypeId} (type: ${typeof aiResponse.suggestedAction.punishmentTypeId})`);
+        console.log(`[AI Moderation] Full AI response: ${JSON.stringify(aiResponse)}`);
         
-        mappedPunishmentTypeId = await this.mapAIPunishmentTypeToActual(geminiResponse.suggestedAction.punishmentTypeId);
+        mappedPunishmentTypeId = await this.mapAIPunishmentTypeToActual(aiResponse.suggestedAction.punishmentTypeId);
         if (!mappedPunishmentTypeId) {
-          console.error(`[AI Moderation] No mapping found for AI punishment type ${geminiResponse.suggestedAction.punishmentTypeId}`);
+          console.error(`[AI Moderation] No mapping found for AI punishment type ${aiResponse.suggestedAction.punishmentTypeId}`);
         }
       }
 
       // Prepare AI analysis result with mapped punishment type ID
       const analysisResult: AIAnalysisResult = {
-        analysis: geminiResponse.analysis,
-        suggestedAction: geminiResponse.suggestedAction ? {
-          punishmentTypeId: mappedPunishmentTypeId || parseInt(geminiResponse.suggestedAction.punishmentTypeId) || geminiResponse.suggestedAction.punishmentTypeId, // Use mapped ID if available
-          severity: geminiResponse.suggestedAction.severity,
-          originalAITypeId: geminiResponse.suggestedAction.punishmentTypeId // Store original for reference
+        analysis: aiResponse.analysis,
+        suggestedAction: aiResponse.suggestedAction ? {
+          punishmentTypeId: mappedPunishmentTypeId || parseInt(aiResponse.suggestedAction.punishmentTypeId) || aiResponse.suggestedAction.punishmentTypeId, // Use mapped ID if available
+          severity: aiResponse.suggestedAction.severity,
+          originalAITypeId: aiResponse.suggestedAction.punishmentTypeId // Store original for reference
         } : null,
         wasAppliedAutomatically: false,
         createdAt: new Date()
       };
 
       // Apply punishment automatically if enabled and action is suggested
-      if (aiSettings.enableAutomatedActions && geminiResponse.suggestedAction && playerIdentifier && mappedPunishmentTypeId) {
+      if (aiSettings.enableAutomatedActions && aiResponse.suggestedAction && playerIdentifier && mappedPunishmentTypeId) {
         try {
 
           const punishmentResult = await this.punishmentService.applyPunishment(
             playerIdentifier,
             mappedPunishmentTypeId,
-            geminiResponse.suggestedAction.severity,
-            `Automated AI moderation - ${geminiResponse.analysis}`,
+            aiResponse.suggestedAction.severity,
+            `Automated AI moderation - ${aiResponse.analysis}`,
             ticketId
           );
 
@@ -131,7 +165,7 @@ export class AIModerationService {
             analysisResult.wasAppliedAutomatically = true;
             
             // Create an "Accept Report" reply for automated actions
-            await this.createAcceptReportReply(ticketId, geminiResponse.suggestedAction.severity, geminiResponse.analysis, punishmentResult.punishmentId, 'AI Moderation System');
+            await this.createAcceptReportReply(ticketId, aiResponse.suggestedAction.severity, aiResponse.analysis, punishmentResult.punishmentId, 'AI Moderation System');
             
             console.log(`[AI Moderation] Automatically applied punishment ${punishmentResult.punishmentId} for ticket ${ticketId}`);
           } else {
@@ -153,6 +187,206 @@ export class AIModerationService {
     }
   }
 
+  /**
+   * Review an appeal ticket using AI and store the recommendation in the ticket data
+   */
+  async analyzeAppeal(ticketId: string, serverName: string): Promise<AIAppealAnalysisResult | null> {
+    try {
+      const aiSettings = await this.getAISettings();
+      if (!aiSettings) {
+        return null;
+      }
+
+      const appealContext = await this.buildAppealContext(ticketId);
+      if (!appealContext) {
+        console.log(`[AI Moderation] No punishment found for appeal ${ticketId}, skipping analysis`);
+        return null;
+      }
+
+      const systemPrompt = this.systemPromptsService.getAppealReviewPrompt(aiSettings.strictnessLevel || 'standard');
+      const llmSettings = resolveLLMSettings(aiSettings.llm);
+      const provider = createLLMProvider(llmSettings);
+
+      let aiResponse: AppealAnalysisResponse;
+      try {
+        aiResponse = await analyzeAppeal(provider, llmSettings, appealContext, systemPrompt);
+      } finally {
+        // The request reached the provider, count it even if the response was unusable
+        await logAIRequest(serverName, 'appeal_analysis');
+      }
+
+      const analysisResult: AIAppealAnalysisResult = {
+        ...aiResponse,
+        createdAt: new Date()
+      };
+
+      const TicketModel = this.dbConnection.model('Ticket');
+      await TicketModel.updateOne(
+        { _id: ticketId },
+        {
+          $set: {
+            'data.aiAppealAnalysis': analysisResult
+          }
+        }
+      );
+
+      publishEvent(serverName, 'tickets', 'ticket.updated', { ticketId });
+
+      console.log(`[AI Moderation] Stored appeal recommendation '${analysisResult.recommendation}' for ticket ${ticketId}`);
+
+      return analysisResult;
+    } catch (error) {
+      console.error(`[AI Moderation] Error analyzing appeal ${ticketId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Build the appeal context given to the AI: the appealed punishment, its evidence,
+   * the reports attached to it, the player's punishment history and the appeal itself
+   */
+  private async buildAppealContext(ticketId: string): Promise<string | null> {
+    const TicketModel = this.dbConnection.model('Ticket');
+    const PunishmentModel = getPunishmentModel(this.dbConnection);
+
+    const ticket = await TicketModel.findById(ticketId);
+    if (!ticket || ticket.type !== 'appeal') {
+      return null;
+    }
+
+    const punishmentId = ticket.data?.get ? ticket.data.get('punishmentId') : ticket.data?.punishmentId;
+    const playerUuid = (ticket.data?.get ? ticket.data.get('playerUuid') : ticket.data?.playerUuid) || ticket.creatorUuid;
+    if (!punishmentId) {
+      return null;
+    }
+
+    const punishment: any = await PunishmentModel.findOne(
+      playerUuid
+        ? { minecraftUuid: playerUuid, id: punishmentId }
+        : { id: punishmentId }
+    );
+    if (!punishment) {
+      return null;
+    }
+
+    const typeNames = await this.getPunishmentTypeNames();
+    const sections: string[] = [];
+
+    sections.push(`ORIGINAL PUNISHMENT:\n${this.describePunishment(punishment, typeNames)}`);
+
+    const evidence = (punishment.evidence || []).map((item: any) => {
+      if (typeof item === 'string') return `- ${item}`;
+      return `- ${item.text || item.url || item.fileName || 'Attachment'}${item.issuerName ? ` (added by ${item.issuerName})` : ''}`;
+    });
+    sections.push(`EVIDENCE:\n${evidence.length > 0 ? evidence.join('\n') : 'No evidence attached.'}`);
+
+    const reportIds = (punishment.attachedTicketIds || []).filter((id: string) => id !== ticketId);
+    const reports = reportIds.length > 0
+      ? await TicketModel.find({ _id: { $in: reportIds.slice(0, MAX_ATTACHED_REPORTS) } })
+      : [];
+    const reportDescriptions = reports.map((report: any) => {
+      const lines = [`Report ${report._id} (${report.type}): ${report.subject || 'No subject'}`];
+      if (report.chatMessages && report.chatMessages.length > 0) {
+        const chatMessages = report.chatMessages
+          .map((msg: any) => typeof msg === 'string' ? this.parseChatMessage(msg) : msg)
+          .filter((msg: any) => msg && msg.username && msg.message);
+        lines.push(`Chat log:\n${formatChatTranscript(chatMessages, report.reportedPlayer)}`);
+      }
+      const firstReply = report.replies?.[0]?.content;
+      if (firstReply) {
+        lines.push(`Report content:\n${firstReply}`);
+      }
+      return this.truncate(lines.join('\n'), MAX_SECTION_LENGTH);
+    });
+    sections.push(`ATTACHED REPORTS:\n${reportDescriptions.length > 0 ? reportDescriptions.join('\n\n') : 'No reports attached.'}`);
+
+    const otherPunishments = await PunishmentModel
+      .find({ minecraftUuid: punishment.minecraftUuid, id: { $ne: punishmentId } })
+      .sort({ issued: -1 })
+      .limit(MAX_HISTORY_PUNISHMENTS);
+    const history = otherPunishments
+      .map((p: any) => `- ${this.describePunishment(p, typeNames).replace(/\n/g, '; ')}`);
+    sections.push(`PLAYER PUNISHMENT HISTORY (most recent first):\n${history.length > 0 ? history.join('\n') : 'No other punishments.'}`);
+
+    // The first player reply holds the appeal form answers, later replies are the follow-up conversation
+    const conversation = (ticket.replies || [])
+      .filter((reply: any) => reply.type !== 'system')
+      .map((reply: any) => `${reply.staff ? 'Staff' : 'Player'} (${reply.name}): ${reply.content}`);
+    sections.push(`APPEAL:\n${this.truncate(conversation.length > 0 ? conversation.join('\n\n') : 'The player did not provide an appeal statement.', MAX_SECTION_LENGTH * 2)}`);
+
+    return sections.join('\n\n');
+  }
+
+  /**
+   * Describe a punishment for the appeal prompt
+   */
+  private describePunishment(punishment: any, typeNames: Map<number, string>): string {
+    const getData = (key: string) => punishment.data?.get ? punishment.data.get(key) : punishment.data?.[key];
+    const typeName = typeNames.get(Number(punishment.type_ordinal)) || `Type ${punishment.type_ordinal}`;
+    const reason = getData('reason') || punishment.notes?.[0]?.text || 'No reason provided';
+    const duration = getData('duration');
+    const modifications = (punishment.modifications || []).map((mod: any) => mod.type).filter(Boolean);
+
+    const lines = [
+      `${typeName} (${punishment.id}) issued by ${punishment.issuerName} on ${new Date(punishment.issued).toISOString().split('T')[0]}`,
+      `Reason: ${reason}`,
+      `Duration: ${duration && duration > 0 ? this.formatDuration(duration) : 'permanent'}`
+    ];
+    if (getData('severity')) {
+      lines.push(`Severity: ${getData('severity')}`);
+    }
+    if (getData('offenseLevel')) {
+      lines.push(`Offense level: ${getData('offenseLevel')}`);
+    }
+    lines.push(`Active: ${getData('active') === false ? 'no' : 'yes'}`);
+    if (modifications.length > 0) {
+      lines.push(`Modifications: ${modifications.join(', ')}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Get punishment type names by ordinal, including the core administrative types
+   */
+  private async getPunishmentTypeNames(): Promise<Map<number, string>> {
+    const typeNames = new Map<number, string>(
+      Object.entries(CORE_PUNISHMENT_TYPE_NAMES).map(([ordinal, name]) => [Number(ordinal), name])
+    );
+
+    try {
+      const SettingsModel = this.dbConnection.model('Settings');
+      const punishmentTypesDoc = await SettingsModel.findOne({ type: 'punishmentTypes' });
+      if (Array.isArray(punishmentTypesDoc?.data)) {
+        punishmentTypesDoc.data.forEach((pt: any) => typeNames.set(pt.ordinal, pt.name));
+      }
+    } catch (error) {
+      console.error('[AI Moderation] Error fetching punishment type names:', error);
+    }
+
+    return typeNames;
+  }
+
+  private formatDuration(durationMs: number): string {
+    const hours = Math.round(durationMs / (60 * 60 * 1000));
+    if (hours < 48) {
+      return `${hours} hour${hours === 1 ? '' : 's'}`;
+    }
+    const days = Math.round(hours / 24);
+    return `${days} days`;
+  }
+
+  private parseChatMessage(message: string): ChatMessage | null {
+    try {
+      return JSON.parse(message);
+    } catch {
+      return null;
+    }
+  }
+
+  private truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.slice(0, maxLength)}... [truncated]` : text;
+  }
+
   /**
    * Store AI analysis result in ticket data
    */
@@ -394,12 +628,14 @@ export class AIModerationService {
       // Initialize default system prompts
       await this.systemPromptsService.initializeDefaultPrompts();
       
-      // Test Gemini connection
-      const connectionTest = await this.geminiService.testConnection();
+      // Test connection to the configured provider
+      const aiSettings = await this.getAISettings();
+      const provider = createLLMProvider(resolveLLMSettings(aiSettings?.llm));
+      const connectionTest = await testLLMConnection(provider);
       if (connectionTest) {
-        console.log('[AI Moderation] Successfully connected to Gemini API');
+        console.log(`[AI Moderation] Successfully connected to ${provider.name} (${provider.model})`);
       } else {
-        console.warn('[AI Moderation] Failed to connect to Gemini API - check API key');
+        console.warn(`[AI Moderation] Failed to connect to ${provider.name} (${provider.model}) - check provider settings`);
       }
       
       console.log('[AI Moderation] Service initialized');
@@ -408,6 +644,31 @@ export class AIModerationService {
     }
   }
 
+  /**
+   * Process a new appeal for AI review (called after appeal creation)
+   */
+  async processNewAppeal(ticketId: string, serverName: string): Promise<void> {
+    try {
+      const aiSettings = await this.getAISettings();
+      if (!aiSettings || !aiSettings.enableAIReview) {
+        console.log(`[AI Moderation] AI review is disabled, skipping analysis for appeal ${ticketId}`);
+        return;
+      }
+
+      // Run analysis asynchronously
+      setImmediate(() => {
+        this.analyzeAppeal(ticketId, serverName)
+          .catch(error => {
+            console.error(`[AI Moderation] Async analysis failed for appeal ${ticketId}:`, error);
+          });
+      });
+
+      console.log(`[AI Moderation] Queued analysis for appeal ${ticketId}`);
+    } catch (error) {
+      console.error(`[AI Moderation] Error processing new appeal ${ticketId}:`, error);
+    }
+  }
+
   /**
    * Process a ticket for AI analysis (called after ticket creation)
    */
@@ -0,0 +1,263 @@
+import { Connection, Document, Model, Schema, Types } from 'mongoose';
+import { publishEvent } from './realtime-service';
+import { AuditActor, recordAuditEvent } from './audit-service';
+import { detectAccountLinks } from './account-link-service';
+import PunishmentService from './punishment-service';
+
+/**
+ * Alt detection backfill.
+ *
+ * Links are normally only detected when a player logs in from a new IP address. A
+ * backfill job rescans every player of the tenant, for example after importing old
+ * data or changing how evidence is weighed, and reports which links were added or
+ * removed. The job saves its position after every batch and continues from there
+ * when the process restarts.
+ */
+
+export type AltBackfillJobStatus = 'running' | 'completed' | 'failed';
+
+export interface IAltBackfillChange {
+  change: 'added' | 'removed';
+  playerUuid: string;
+  playerName: string;
+  linkedUuid: string;
+  linkedName: string;
+}
+
+export interface IAltBackfillJob extends Document<Types.ObjectId> {
+  status: AltBackfillJobStatus;
+  // Issue the linked bans owed by alt-blocking punishments to newly linked accounts
+  issueLinkedBans: boolean;
+  actor: AuditActor;
+  createdBy: string;
+  // Last player processed, players are scanned in _id order
+  cursor: Types.ObjectId | null;
+  progress: {
+    total: number;
+    processed: number;
+    linksAdded: number;
+    linksRemoved: number;
+    linkedBansIssued: number;
+    failed: number;
+  };
+  changes: IAltBackfillChange[];
+  // More links changed than are kept in the report
+  changesTruncated: boolean;
+  error: string | null;
+  startedAt: Date;
+  completedAt: Date | null;
+}
+
+const AltBackfillJobSchema = new Schema<IAltBackfillJob>({
+  status: { type: String, enum: ['running', 'completed', 'failed'], default: 'running' },
+  issueLinkedBans: { type: Boolean, default: false },
+  actor: {
+    type: { type: String, required: true },
+    id: { type: String, default: null },
+    name: { type: String, required: true }
+  },
+  createdBy: { type: String, required: true },
+  cursor: { type: Schema.Types.ObjectId, default: null },
+  progress: {
+    total: { type: Number, default: 0 },
+    processed: { type: Number, default: 0 },
+    linksAdded: { type: Number, default: 0 },
+    linksRemoved: { type: Number, default: 0 },
+    linkedBansIssued: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 }
+  },
+  changes: {
+    type: [{
+      _id: false,
+      change: { type: String, enum: ['added', 'removed'], required: true },
+      playerUuid: { type: String, required: true },
+      playerName: { type: String, required: true },
+      linkedUuid: { type: String, required: true },
+      linkedName: { type: String, required: true }
+    }],
+    default: []
+  },
+  changesTruncated: { type: Boolean, default: false },
+  error: { type: String, default: null },
+  startedAt: { type: Date, default: Date.now },
+  completedAt: { type: Date, default: null }
+});
+
+AltBackfillJobSchema.index({ startedAt: -1 });
+AltBackfillJobSchema.index({ status: 1 });
+
+const BATCH_SIZE = 100;
+// Keep the job document well below the document size limit on large tenants
+const MAX_RECORDED_CHANGES = 2000;
+
+const resumedConnections = new WeakSet<Connection>();
+
+export function getAltBackfillJobModel(dbConnection: Connection): Model<IAltBackfillJob> {
+  return (dbConnection.models.AltBackfillJob as Model<IAltBackfillJob>) ||
+    dbConnection.model<IAltBackfillJob>('AltBackfillJob', AltBackfillJobSchema);
+}
+
+function getPlayerName(player: any): string {
+  return player?.usernames?.[player.usernames.length - 1]?.username || 'Unknown';
+}
+
+/**
+ * Start a backfill in the background. Returns null when a backfill is already running.
+ */
+export async function startAltBackfillJob(
+  dbConnection: Connection,
+  serverName: string | undefined | null,
+  options: { issueLinkedBans: boolean; actor: AuditActor }
+): Promise<IAltBackfillJob | null> {
+  const AltBackfillJob = getAltBackfillJobModel(dbConnection);
+  if (await AltBackfillJob.exists({ status: 'running' })) {
+    return null;
+  }
+
+  const job = await AltBackfillJob.create({
+    issueLinkedBans: options.issueLinkedBans,
+    actor: options.actor,
+    createdBy: options.actor.name,
+    progress: { total: await dbConnection.model('Player').countDocuments() }
+  });
+
+  runInBackground(serverName, job._id, () => runAltBackfillJob(dbConnection, serverName, job._id));
+  return job;
+}
+
+function runInBackground(serverName: string | undefined | null, jobId: Types.ObjectId, task: () => Promise<void>): void {
+  task().catch(error => {
+    console.error(`[Alt Backfill - ${serverName || 'Unknown Server'}] Failed to run backfill job ${jobId}:`, error);
+  });
+}
+
+async function runAltBackfillJob(
+  dbConnection: Connection,
+  serverName: string | undefined | null,
+  jobId: Types.ObjectId
+): Promise<void> {
+  const Player = dbConnection.model('Player');
+  const job = await getAltBackfillJobModel(dbConnection).findById(jobId);
+  if (!job || job.status !== 'running') return;
+
+  const punishmentService = new PunishmentService(dbConnection);
+
+  const recordChanges = async (change: IAltBackfillChange['change'], player: any, linkedUuids: string[]) => {
+    if (linkedUuids.length === 0) return;
+
+    const linkedPlayers = await Player.find({ minecraftUuid: { $in: linkedUuids } })
+      .select('minecraftUuid usernames')
+      .lean<any[]>();
+    const namesByUuid = new Map(linkedPlayers.map(linked => [linked.minecraftUuid, getPlayerName(linked)]));
+
+    for (const linkedUuid of linkedUuids) {
+      if (job.changes.length >= MAX_RECORDED_CHANGES) {
+        job.changesTruncated = true;
+        break;
+      }
+      job.changes.push({
+        change,
+        playerUuid: player.minecraftUuid,
+        playerName: getPlayerName(player),
+        linkedUuid,
+        linkedName: namesByUuid.get(linkedUuid) || 'Unknown'
+      });
+    }
+  };
+
+  try {
+    while (true) {
+      const players = await Player.find(job.cursor ? { _id: { $gt: job.cursor } } : {})
+        .sort({ _id: 1 })
+        .limit(BATCH_SIZE)
+        .select('_id minecraftUuid usernames')
+        .lean<any[]>();
+      if (players.length === 0) break;
+
+      for (const player of players) {
+        try {
+          const { added, removed } = await detectAccountLinks(dbConnection, serverName, player.minecraftUuid);
+          job.progress.linksAdded += added.length;
+          job.progress.linksRemoved += removed.length;
+          await recordChanges('added', player, added);
+          await recordChanges('removed', player, removed);
+
+          if (job.issueLinkedBans && added.length > 0) {
+            // Bans flow both ways: either side of a new link may have an alt-blocking punishment
+            for (const uuid of [player.minecraftUuid, ...added]) {
+              job.progress.linkedBansIssued += await punishmentService.issueLinkedBansForPlayer(uuid);
+            }
+          }
+        } catch (error) {
+          // Continue with other players rather than failing the entire job
+          console.error(`[Alt Backfill] Error rescanning player ${player.minecraftUuid}:`, error);
+          job.progress.failed += 1;
+        }
+        job.progress.processed += 1;
+      }
+
+      job.cursor = players[players.length - 1]._id;
+      await job.save();
+      publishEvent(serverName, 'players', 'alt_backfill.progress', formatAltBackfillJob(job));
+    }
+
+    job.status = 'completed';
+  } catch (error) {
+    job.status = 'failed';
+    job.error = (error as Error).message;
+  }
+
+  // Players created while the job ran can make the count drift
+  job.progress.total = Math.max(job.progress.total, job.progress.processed);
+  job.completedAt = new Date();
+  await job.save();
+  publishEvent(serverName, 'players', 'alt_backfill.progress', formatAltBackfillJob(job));
+
+  await recordAuditEvent(dbConnection, serverName, {
+    action: 'player.links_backfilled',
+    summary: `Alt detection backfill ${job.status}: ${job.progress.linksAdded} links added, ${job.progress.linksRemoved} removed`,
+    target: { type: 'alt_backfill_job', id: job._id.toString() },
+    actor: job.actor,
+    metadata: {
+      playersScanned: job.progress.processed,
+      linksAdded: job.progress.linksAdded,
+      linksRemoved: job.progress.linksRemoved,
+      issueLinkedBans: job.issueLinkedBans,
+      linkedBansIssued: job.progress.linkedBansIssued,
+      failed: job.progress.failed,
+      error: job.error
+    }
+  });
+}
+
+/**
+ * Continue a backfill that was running when the process last stopped
+ */
+export function resumeAltBackfillJobs(dbConnection: Connection, serverName: string | undefined | null): void {
+  if (resumedConnections.has(dbConnection)) return;
+  resumedConnections.add(dbConnection);
+
+  getAltBackfillJobModel(dbConnection)
+    .find({ status: 'running' })
+    .then(jobs => {
+      for (const job of jobs) {
+        runInBackground(serverName, job._id, () => runAltBackfillJob(dbConnection, serverName, job._id));
+      }
+    })
+    .catch(error => console.error('[Alt Backfill] Failed to resume backfill jobs:', error));
+}
+
+export function formatAltBackfillJob(job: IAltBackfillJob, includeChanges: boolean = false) {
+  return {
+    id: job._id.toString(),
+    status: job.status,
+    issueLinkedBans: job.issueLinkedBans,
+    createdBy: job.createdBy,
+    progress: job.progress,
+    error: job.error,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    changesTruncated: job.changesTruncated,
+    changes: includeChanges ? job.changes : undefined
+  };
+}
@@ -0,0 +1,285 @@
+import crypto from 'crypto';
+import net from 'net';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Connection, Schema, Document, Model } from 'mongoose';
+
+/**
+ * Named, scoped API keys for external integrations (Minecraft plugins, ticket forms, ...).
+ *
+ * Only a SHA-256 hash of each key is stored; the key itself is shown once when it is
+ * created. Requests authenticated with a key run inside an async context so audit log
+ * entries written while handling them can record which key made the change.
+ */
+
+export const API_KEY_SCOPES = [
+  'minecraft:sync',
+  'players:read',
+  'players:write',
+  'punishments:write',
+  'tickets:create',
+  'tickets:read'
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface IApiKey extends Document {
+  name: string;
+  keyHash: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  allowedIps: string[];
+  expiresAt?: Date | null;
+  createdBy: string;
+  createdAt: Date;
+  lastUsedAt?: Date | null;
+  lastUsedIp?: string | null;
+  revokedAt?: Date | null;
+  revokedBy?: string | null;
+}
+
+// The identity of the key that authenticated a request
+export interface AuthenticatedApiKey {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+export interface CreateApiKeyOptions {
+  name: string;
+  scopes: ApiKeyScope[];
+  allowedIps?: string[];
+  expiresAt?: Date | null;
+  createdBy: string;
+}
+
+const ApiKeySchema = new Schema<IApiKey>({
+  name: { type: String, required: true },
+  keyHash: { type: String, required: true, unique: true },
+  keyPrefix: { type: String, required: true },
+  scopes: { type: [String], enum: API_KEY_SCOPES, default: [] },
+  allowedIps: { type: [String], default: [] },
+  expiresAt: { type: Date, default: null },
+  createdBy: { type: String, required: true },
+  createdAt: { type: Date, default: Date.now },
+  lastUsedAt: { type: Date, default: null },
+  lastUsedIp: { type: String, default: null },
+  revokedAt: { type: Date, default: null },
+  revokedBy: { type: String, default: null }
+});
+
+const KEY_PREFIX = 'modl_';
+const KEY_PREFIX_DISPLAY_LENGTH = KEY_PREFIX.length + 6;
+// Avoid a database write on every request, last-used timestamps only need to be roughly accurate
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+// Plaintext keys from the single-key settings document, migrated to hashed keys on first use
+const LEGACY_KEYS: { field: string; name: string; scopes: ApiKeyScope[] }[] = [
+  { field: 'api_key', name: 'Default API key', scopes: [...API_KEY_SCOPES] },
+  { field: 'ticket_api_key', name: 'Ticket API key', scopes: ['tickets:create', 'tickets:read'] },
+  { field: 'minecraft_api_key', name: 'Minecraft API key', scopes: ['minecraft:sync', 'players:read', 'players:write', 'punishments:write', 'tickets:create'] }
+];
+
+const migratedConnections = new WeakSet<Connection>();
+const apiKeyContext = new AsyncLocalStorage<AuthenticatedApiKey>();
+
+export function isApiKeyScope(scope: unknown): scope is ApiKeyScope {
+  return typeof scope === 'string' && (API_KEY_SCOPES as readonly string[]).includes(scope);
+}
+
+export function getApiKeyModel(dbConnection: Connection): Model<IApiKey> {
+  return (dbConnection.models.ApiKey as Model<IApiKey>) || dbConnection.model<IApiKey>('ApiKey', ApiKeySchema);
+}
+
+export function hashApiKey(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey).digest('hex');
+}
+
+/**
+ * Generate a new random API key
+ */
+export function generateApiKey(): string {
+  // 32 random bytes encoded as base64url, prefixed so keys are recognisable in configs and secret scanners
+  return `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * Run a function with the API key that authenticated the current request as context
+ */
+export function runWithApiKey<T>(apiKey: AuthenticatedApiKey, fn: () => T): T {
+  return apiKeyContext.run(apiKey, fn);
+}
+
+/**
+ * The API key that authenticated the request currently being handled, if any
+ */
+export function getCurrentApiKey(): AuthenticatedApiKey | undefined {
+  return apiKeyContext.getStore();
+}
+
+/**
+ * Audit log metadata identifying the API key of the current request
+ */
+export function getApiKeyAuditMetadata(): { apiKey: { id: string; name: string } } | undefined {
+  const apiKey = getCurrentApiKey();
+  return apiKey ? { apiKey: { id: apiKey.id, name: apiKey.name } } : undefined;
+}
+
+/**
+ * Validate an IP allowlist, returns the entries that are neither an IP address nor a CIDR range
+ */
+export function getInvalidIpEntries(allowedIps: string[]): string[] {
+  return allowedIps.filter(entry => {
+    const [address, prefix] = entry.split('/');
+    const version = net.isIP(address);
+    if (!version) return true;
+    if (prefix === undefined) return false;
+    const prefixLength = Number(prefix);
+    return !Number.isInteger(prefixLength) || prefixLength < 0 || prefixLength > (version === 4 ? 32 : 128);
+  });
+}
+
+export function isIpAllowed(ip: string, allowedIps: string[]): boolean {
+  if (!allowedIps || allowedIps.length === 0) {
+    return true;
+  }
+
+  // IPv4 clients on a dual-stack socket show up as IPv4-mapped IPv6 addresses
+  const address = ip.startsWith('::ffff:') ? ip.substring(7) : ip;
+  const version = net.isIP(address);
+  if (!version) {
+    return false;
+  }
+
+  const blockList = new net.BlockList();
+  for (const entry of allowedIps) {
+    const [entryAddress, prefix] = entry.split('/');
+    const entryVersion = net.isIP(entryAddress);
+    if (!entryVersion) continue;
+    const type = entryVersion === 4 ? 'ipv4' : 'ipv6';
+    if (prefix !== undefined) {
+      blockList.addSubnet(entryAddress, Number(prefix), type);
+    } else {
+      blockList.addAddress(entryAddress, type);
+    }
+  }
+
+  return blockList.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Move plaintext keys of the legacy apiKeys settings document into hashed API keys
+ */
+export async function migrateLegacyApiKeys(dbConnection: Connection): Promise<void> {
+  if (migratedConnections.has(dbConnection)) {
+    return;
+  }
+
+  const Settings = dbConnection.model('Settings');
+  const ApiKey = getApiKeyModel(dbConnection);
+  const legacyDoc = await Settings.findOne({ type: 'apiKeys' });
+  const legacyData = legacyDoc?.data || {};
+
+  for (const legacyKey of LEGACY_KEYS) {
+    const plaintextKey = legacyData[legacyKey.field];
+    if (typeof plaintextKey !== 'string' || !plaintextKey) continue;
+
+    const keyHash = hashApiKey(plaintextKey);
+    if (!(await ApiKey.exists({ keyHash }))) {
+      await ApiKey.create({
+        name: legacyKey.name,
+        keyHash,
+        keyPrefix: plaintextKey.substring(0, KEY_PREFIX_DISPLAY_LENGTH),
+        scopes: legacyKey.scopes,
+        createdBy: 'System'
+      });
+      console.log(`[API Keys] Migrated legacy ${legacyKey.field} to a hashed API key`);
+    }
+  }
+
+  if (legacyDoc) {
+    await Settings.deleteOne({ type: 'apiKeys' });
+  }
+
+  migratedConnections.add(dbConnection);
+}
+
+/**
+ * Create a named API key. The returned plaintext key is not stored and cannot be retrieved later.
+ */
+export async function createApiKey(
+  dbConnection: Connection,
+  options: CreateApiKeyOptions
+): Promise<{ apiKey: string; record: IApiKey }> {
+  const ApiKey = getApiKeyModel(dbConnection);
+  const apiKey = generateApiKey();
+
+  const record = await ApiKey.create({
+    name: options.name,
+    keyHash: hashApiKey(apiKey),
+    keyPrefix: apiKey.substring(0, KEY_PREFIX_DISPLAY_LENGTH),
+    scopes: options.scopes,
+    allowedIps: options.allowedIps || [],
+    expiresAt: options.expiresAt || null,
+    createdBy: options.createdBy
+  });
+
+  return { apiKey, record };
+}
+
+/**
+ * List the API keys that have not been revoked
+ */
+export async function listApiKeys(dbConnection: Connection): Promise<IApiKey[]> {
+  await migrateLegacyApiKeys(dbConnection);
+  return getApiKeyModel(dbConnection).find({ revokedAt: null }).sort({ createdAt: -1 });
+}
+
+/**
+ * Revoke an API key. The record is kept so audit log entries can still be traced back to it.
+ */
+export async function revokeApiKey(dbConnection: Connection, id: string, revokedBy: string): Promise<IApiKey | null> {
+  return getApiKeyModel(dbConnection).findOneAndUpdate(
+    { _id: id, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedBy } },
+    { new: true }
+  );
+}
+
+/**
+ * Look up the key presented by a request
+ */
+export async function authenticateApiKey(
+  dbConnection: Connection,
+  presentedKey: string,
+  ip: string
+): Promise<{ apiKey: AuthenticatedApiKey } | { error: string }> {
+  await migrateLegacyApiKeys(dbConnection);
+
+  const ApiKey = getApiKeyModel(dbConnection);
+  const record = await ApiKey.findOne({ keyHash: hashApiKey(presentedKey), revokedAt: null });
+
+  if (!record) {
+    return { error: 'Invalid API key' };
+  }
+
+  if (record.expiresAt && record.expiresAt.getTime() <= Date.now()) {
+    return { error: 'API key has expired' };
+  }
+
+  if (!isIpAllowed(ip, record.allowedIps)) {
+    return { error: 'API key is not allowed from this IP address' };
+  }
+
+  if (!record.lastUsedAt || Date.now() - record.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS || record.lastUsedIp !== ip) {
+    ApiKey.updateOne({ _id: record._id }, { $set: { lastUsedAt: new Date(), lastUsedIp: ip } })
+      .catch(error => console.error('[API Keys] Failed to update last used timestamp:', error));
+  }
+
+  return {
+    apiKey: {
+      id: String(record._id),
+      name: record.name,
+      scopes: record.scopes
+    }
+  };
+}
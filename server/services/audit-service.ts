@@ -0,0 +1,280 @@
+import { Request } from 'express';
+import { Connection, Document, Model, Schema, Types } from 'mongoose';
+import { publishEvent } from './realtime-service';
+import { getCurrentApiKey } from './api-key-service';
+import { getRealClientIP } from '../middleware/rate-limiter';
+
+/**
+ * Structured audit trail.
+ *
+ * Every change made through the panel, the plugin API or an automated process is
+ * recorded as a typed event with who made it, what it touched and a field level
+ * diff of the change, instead of being reconstructed from log descriptions.
+ */
+
+export const AUDIT_ACTOR_TYPES = ['staff', 'api_key', 'plugin', 'system', 'ai'] as const;
+
+export type AuditActorType = typeof AUDIT_ACTOR_TYPES[number];
+
+export interface AuditActor {
+  type: AuditActorType;
+  id?: string | null;
+  name: string;
+}
+
+export interface AuditTarget {
+  type: string; // punishment, player, ticket, appeal, staff, role, settings, api_key, webhook, file, route
+  id: string;
+  name?: string | null;
+}
+
+export interface AuditChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditRequestMetadata {
+  method: string;
+  path: string;
+  ip: string | null;
+  userAgent: string | null;
+}
+
+export interface IAuditEvent extends Document<Types.ObjectId> {
+  action: string; // <category>.<verb>, e.g. punishment.created
+  category: string;
+  summary: string;
+  actor: AuditActor;
+  target: AuditTarget | null;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  changes: AuditChange[];
+  request: AuditRequestMetadata | null;
+  metadata: Record<string, any>;
+  createdAt: Date;
+}
+
+export interface AuditEventInput {
+  action: string;
+  summary: string;
+  target?: AuditTarget | null;
+  before?: unknown;
+  after?: unknown;
+  metadata?: Record<string, any>;
+  // Defaults to the staff member, API key or plugin behind the request, or the system
+  actor?: AuditActor;
+}
+
+const AuditEventSchema = new Schema<IAuditEvent>({
+  action: { type: String, required: true },
+  category: { type: String, required: true },
+  summary: { type: String, required: true },
+  actor: {
+    type: { type: String, enum: AUDIT_ACTOR_TYPES, required: true },
+    id: { type: String, default: null },
+    name: { type: String, required: true }
+  },
+  target: {
+    type: {
+      type: { type: String },
+      id: { type: String },
+      name: { type: String, default: null }
+    },
+    default: null
+  },
+  before: { type: Schema.Types.Mixed, default: null },
+  after: { type: Schema.Types.Mixed, default: null },
+  changes: {
+    type: [{
+      _id: false,
+      path: { type: String, required: true },
+      before: { type: Schema.Types.Mixed },
+      after: { type: Schema.Types.Mixed }
+    }],
+    default: []
+  },
+  request: {
+    type: {
+      method: String,
+      path: String,
+      ip: String,
+      userAgent: String
+    },
+    default: null
+  },
+  metadata: { type: Schema.Types.Mixed, default: {} },
+  createdAt: { type: Date, default: Date.now }
+}, { minimize: false });
+
+AuditEventSchema.index({ createdAt: -1 });
+AuditEventSchema.index({ action: 1, createdAt: -1 });
+AuditEventSchema.index({ category: 1, createdAt: -1 });
+AuditEventSchema.index({ 'actor.name': 1, createdAt: -1 });
+AuditEventSchema.index({ 'target.type': 1, 'target.id': 1, createdAt: -1 });
+
+// Never copy credentials into the audit trail
+const REDACTED_KEYS = new Set(['password', 'secret', 'keyHash', 'token', 'apiKey', 'api_key', 'ticket_api_key', 'minecraft_api_key', 'totpSecret', 'twoFaSecret', 'passkeys']);
+const MAX_SNAPSHOT_DEPTH = 6;
+
+export function getAuditEventModel(dbConnection: Connection): Model<IAuditEvent> {
+  return (dbConnection.models.AuditEvent as Model<IAuditEvent>) || dbConnection.model<IAuditEvent>('AuditEvent', AuditEventSchema);
+}
+
+/**
+ * Aggregation expression for the panel account behind an event: the staff actor,
+ * or the staff member an in-game punishment was resolved to
+ */
+export const AUDIT_STAFF_USERNAME = {
+  $ifNull: [
+    '$metadata.staffUsername',
+    { $cond: [{ $eq: ['$actor.type', 'staff'] }, '$actor.name', null] }
+  ]
+};
+
+export function isAuditActorType(type: unknown): type is AuditActorType {
+  return typeof type === 'string' && (AUDIT_ACTOR_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Convert a document or value into plain JSON for storage in an event,
+ * unwrapping Mongoose documents and Maps and dropping credentials
+ */
+export function toAuditSnapshot(value: unknown, depth: number = 0): any {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof Types.ObjectId) return value.toString();
+  if (typeof value !== 'object') return value;
+  if (depth >= MAX_SNAPSHOT_DEPTH) return '[truncated]';
+
+  if (typeof (value as any).toObject === 'function') {
+    return toAuditSnapshot((value as any).toObject({ flattenMaps: true }), depth);
+  }
+  if (value instanceof Map) {
+    return toAuditSnapshot(Object.fromEntries(value), depth);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => toAuditSnapshot(item, depth + 1));
+  }
+
+  const snapshot: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    if (key === '__v' || item === undefined) continue;
+    snapshot[key] = REDACTED_KEYS.has(key) ? '[redacted]' : toAuditSnapshot(item, depth + 1);
+  }
+  return snapshot;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Field level differences between two snapshots. Objects are compared key by key,
+ * arrays and scalars as a whole.
+ */
+export function diffAuditSnapshots(before: unknown, after: unknown, path: string = ''): AuditChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: AuditChange[] = [];
+    const keys = Object.keys(before).concat(Object.keys(after).filter(key => !(key in before)));
+    for (const key of keys) {
+      changes.push(...diffAuditSnapshots(before[key], after[key], path ? `${path}.${key}` : key));
+    }
+    return changes;
+  }
+
+  if (JSON.stringify(before ?? null) === JSON.stringify(after ?? null)) {
+    return [];
+  }
+  return [{ path: path || '(root)', before: before ?? null, after: after ?? null }];
+}
+
+/**
+ * The staff member, API key or plugin responsible for the request being handled
+ */
+export function resolveAuditActor(req?: Request | null): AuditActor {
+  const apiKey = req?.apiKey || getCurrentApiKey();
+  if (apiKey) {
+    // The Minecraft plugin authenticates with an API key against its own routes
+    const isPlugin = !!req?.originalUrl?.startsWith('/api/minecraft');
+    return { type: isPlugin ? 'plugin' : 'api_key', id: apiKey.id, name: apiKey.name };
+  }
+
+  const session = req?.session as any;
+  if (session?.username) {
+    return { type: 'staff', id: session.userId || null, name: session.username };
+  }
+
+  return { type: 'system', id: null, name: 'System' };
+}
+
+function getRequestMetadata(req: Request): AuditRequestMetadata {
+  return {
+    method: req.method,
+    path: req.originalUrl.split('?')[0],
+    ip: getRealClientIP(req),
+    userAgent: req.headers['user-agent'] || null
+  };
+}
+
+/**
+ * Record an audit event. Failures are logged and never interrupt the change
+ * being audited.
+ */
+export async function recordAuditEvent(
+  dbConnection: Connection | undefined | null,
+  serverName: string | undefined | null,
+  input: AuditEventInput,
+  req?: Request | null
+): Promise<IAuditEvent | null> {
+  if (req) {
+    req.auditRecorded = true;
+  }
+
+  if (!dbConnection) {
+    console.error(`recordAuditEvent called without a dbConnection. Event ${input.action} will not be saved.`);
+    return null;
+  }
+
+  try {
+    const before = input.before === undefined ? null : toAuditSnapshot(input.before);
+    const after = input.after === undefined ? null : toAuditSnapshot(input.after);
+    const changes = before !== null || after !== null ? diffAuditSnapshots(before, after) : [];
+
+    const event = await getAuditEventModel(dbConnection).create({
+      action: input.action,
+      category: input.action.split('.')[0],
+      summary: input.summary,
+      actor: input.actor || resolveAuditActor(req),
+      target: input.target || null,
+      before,
+      after,
+      changes,
+      request: req ? getRequestMetadata(req) : null,
+      metadata: toAuditSnapshot(input.metadata || {})
+    });
+
+    publishEvent(serverName, 'audit', 'audit.event', formatAuditEvent(event));
+    return event;
+  } catch (error) {
+    console.error(`Error recording audit event ${input.action} for ${serverName || dbConnection.name}:`, error);
+    return null;
+  }
+}
+
+export function formatAuditEvent(event: IAuditEvent) {
+  return {
+    id: event._id.toString(),
+    action: event.action,
+    category: event.category,
+    summary: event.summary,
+    actor: event.actor,
+    target: event.target,
+    before: event.before,
+    after: event.after,
+    changes: event.changes,
+    request: event.request,
+    metadata: event.metadata,
+    createdAt: event.createdAt
+  };
+}
@@ -0,0 +1,283 @@
+import { Connection, Document, Model, Schema, Types } from 'mongoose';
+import { publishEvent } from './realtime-service';
+import { IPlayerExemption, PlayerExemptionSchema } from './network-ban-service';
+
+/**
+ * Connection policies.
+ *
+ * Policies match logins by the country, network or proxy/hosting status of the IP in
+ * the player's IP list and decide what happens to them: deny the connection, allow it
+ * but alert staff, or only allow accounts that first joined at least N days ago.
+ * Denied and alerted attempts are logged with the reasons so staff can see why a
+ * player could not join.
+ */
+
+export const CONNECTION_POLICY_CONDITIONS = ['country', 'asn', 'proxy', 'hosting'] as const;
+export const CONNECTION_POLICY_ACTIONS = ['deny', 'alert', 'require_account_age'] as const;
+
+export type ConnectionPolicyCondition = typeof CONNECTION_POLICY_CONDITIONS[number];
+export type ConnectionPolicyAction = typeof CONNECTION_POLICY_ACTIONS[number];
+
+export interface IConnectionPolicy extends Document<Types.ObjectId> {
+  name: string;
+  enabled: boolean;
+  condition: ConnectionPolicyCondition;
+  // Country codes or AS numbers, unused for proxy and hosting conditions
+  values: string[];
+  // Match every known country or network except the listed ones
+  negate: boolean;
+  action: ConnectionPolicyAction;
+  minAccountAgeDays: number;
+  // Shown to denied players instead of the default message
+  message: string;
+  exemptions: IPlayerExemption[];
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IConnectionAttemptReason {
+  source: 'policy' | 'network_ban';
+  id: string;
+  name: string;
+  action: ConnectionPolicyAction;
+  detail: string;
+}
+
+export interface IConnectionAttempt extends Document<Types.ObjectId> {
+  minecraftUuid: string;
+  username: string;
+  ipAddress: string;
+  country: string | null;
+  asn: string | null;
+  proxy: boolean;
+  hosting: boolean;
+  decision: 'denied' | 'alerted';
+  reasons: IConnectionAttemptReason[];
+  createdAt: Date;
+}
+
+export interface ConnectionContext {
+  minecraftUuid: string;
+  username: string;
+  ipAddress: string;
+  // The player's IP list entry for the address
+  ip: { country?: string; asn?: string; proxy?: boolean; hosting?: boolean } | null;
+  firstJoin: Date | null;
+}
+
+export interface ConnectionPolicyDecision {
+  action: 'allow' | 'alert' | 'deny';
+  // Message for the player when denied, or for staff when alerted
+  message: string | null;
+  reasons: IConnectionAttemptReason[];
+}
+
+const ConnectionPolicySchema = new Schema<IConnectionPolicy>({
+  name: { type: String, required: true },
+  enabled: { type: Boolean, default: true },
+  condition: { type: String, enum: CONNECTION_POLICY_CONDITIONS, required: true },
+  values: { type: [String], default: [] },
+  negate: { type: Boolean, default: false },
+  action: { type: String, enum: CONNECTION_POLICY_ACTIONS, required: true },
+  minAccountAgeDays: { type: Number, default: 0 },
+  message: { type: String, default: '' },
+  exemptions: { type: [PlayerExemptionSchema], default: [] },
+  createdBy: { type: String, required: true }
+}, { timestamps: true });
+
+const ConnectionAttemptSchema = new Schema<IConnectionAttempt>({
+  minecraftUuid: { type: String, required: true },
+  username: { type: String, required: true },
+  ipAddress: { type: String, required: true },
+  country: { type: String, default: null },
+  asn: { type: String, default: null },
+  proxy: { type: Boolean, default: false },
+  hosting: { type: Boolean, default: false },
+  decision: { type: String, enum: ['denied', 'alerted'], required: true },
+  reasons: {
+    type: [{
+      _id: false,
+      source: { type: String, enum: ['policy', 'network_ban'], required: true },
+      id: { type: String, required: true },
+      name: { type: String, required: true },
+      action: { type: String, enum: CONNECTION_POLICY_ACTIONS, required: true },
+      detail: { type: String, required: true }
+    }],
+    default: []
+  },
+  createdAt: { type: Date, default: Date.now }
+});
+
+ConnectionAttemptSchema.index({ minecraftUuid: 1, createdAt: -1 });
+// Attempts are kept for 90 days
+ConnectionAttemptSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+const DEFAULT_DENY_MESSAGE = 'You are not allowed to join from your current connection.';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getConnectionPolicyModel(dbConnection: Connection): Model<IConnectionPolicy> {
+  return (dbConnection.models.ConnectionPolicy as Model<IConnectionPolicy>) ||
+    dbConnection.model<IConnectionPolicy>('ConnectionPolicy', ConnectionPolicySchema);
+}
+
+export function getConnectionAttemptModel(dbConnection: Connection): Model<IConnectionAttempt> {
+  return (dbConnection.models.ConnectionAttempt as Model<IConnectionAttempt>) ||
+    dbConnection.model<IConnectionAttempt>('ConnectionAttempt', ConnectionAttemptSchema);
+}
+
+export function isConnectionPolicyCondition(condition: unknown): condition is ConnectionPolicyCondition {
+  return typeof condition === 'string' && (CONNECTION_POLICY_CONDITIONS as readonly string[]).includes(condition);
+}
+
+export function isConnectionPolicyAction(action: unknown): action is ConnectionPolicyAction {
+  return typeof action === 'string' && (CONNECTION_POLICY_ACTIONS as readonly string[]).includes(action);
+}
+
+/**
+ * Normalize the listed values of a policy: upper case country codes or AS numbers
+ * without the AS prefix. Returns null when a value is invalid.
+ */
+export function normalizePolicyValues(condition: ConnectionPolicyCondition, values: unknown): string[] | null {
+  if (condition === 'proxy' || condition === 'hosting') return [];
+  if (!Array.isArray(values) || values.length === 0) return null;
+
+  const normalized: string[] = [];
+  for (const value of values) {
+    if (typeof value !== 'string') return null;
+    if (condition === 'country') {
+      if (!/^[a-z]{2}$/i.test(value.trim())) return null;
+      normalized.push(value.trim().toUpperCase());
+    } else {
+      const match = value.trim().match(/^(?:AS)?(\d+)$/i);
+      if (!match) return null;
+      normalized.push(match[1]);
+    }
+  }
+  return Array.from(new Set(normalized));
+}
+
+/**
+ * Why a policy matches a connection, or null when it does not. Unknown countries and
+ * networks never match, so a missing lookup doesn't lock players out.
+ */
+function matchPolicy(policy: IConnectionPolicy, ip: NonNullable<ConnectionContext['ip']>): string | null {
+  switch (policy.condition) {
+    case 'proxy':
+      return ip.proxy ? 'Connecting through a proxy or VPN' : null;
+    case 'hosting':
+      return ip.hosting ? 'Connecting from a hosting provider' : null;
+    case 'country': {
+      const country = ip.country && ip.country !== 'Unknown' ? ip.country.toUpperCase() : null;
+      if (!country || policy.values.includes(country) === policy.negate) return null;
+      return policy.negate ? `Country ${country} is not allowed` : `Country ${country} is restricted`;
+    }
+    case 'asn': {
+      const asn = ip.asn?.match(/^AS(\d+)/i)?.[1];
+      if (!asn || policy.values.includes(asn) === policy.negate) return null;
+      return policy.negate ? `Network AS${asn} is not allowed` : `Network AS${asn} is restricted`;
+    }
+  }
+}
+
+/**
+ * Decide what happens to a login. Any denying policy denies the connection, otherwise
+ * alerting policies alert staff.
+ */
+export async function evaluateConnectionPolicies(
+  dbConnection: Connection,
+  context: ConnectionContext
+): Promise<ConnectionPolicyDecision> {
+  const decision: ConnectionPolicyDecision = { action: 'allow', message: null, reasons: [] };
+  if (!context.ip) return decision;
+
+  const policies = await getConnectionPolicyModel(dbConnection)
+    .find({ enabled: true, 'exemptions.minecraftUuid': { $ne: context.minecraftUuid } })
+    .sort({ createdAt: 1 });
+  const accountAgeDays = context.firstJoin ? (Date.now() - new Date(context.firstJoin).getTime()) / DAY_MS : 0;
+  let denyingPolicy: IConnectionPolicy | null = null;
+
+  for (const policy of policies) {
+    let detail = matchPolicy(policy, context.ip);
+    if (!detail) continue;
+
+    if (policy.action === 'require_account_age') {
+      if (accountAgeDays >= policy.minAccountAgeDays) continue;
+      detail = `${detail}, account must have joined at least ${policy.minAccountAgeDays} days ago`;
+    }
+
+    decision.reasons.push({ source: 'policy', id: policy._id.toString(), name: policy.name, action: policy.action, detail });
+    if (policy.action !== 'alert' && !denyingPolicy) {
+      denyingPolicy = policy;
+    }
+  }
+
+  if (denyingPolicy) {
+    decision.action = 'deny';
+    decision.message = denyingPolicy.message || DEFAULT_DENY_MESSAGE;
+  } else if (decision.reasons.length > 0) {
+    decision.action = 'alert';
+    decision.message = `${context.username} joined from ${context.ipAddress}: ${decision.reasons.map(reason => reason.detail).join('; ')}`;
+  }
+  return decision;
+}
+
+/**
+ * Log a denied or alerted login and notify staff on the panel
+ */
+export async function recordConnectionAttempt(
+  dbConnection: Connection,
+  serverName: string | undefined | null,
+  context: ConnectionContext,
+  decision: 'denied' | 'alerted',
+  reasons: IConnectionAttemptReason[]
+): Promise<IConnectionAttempt> {
+  const attempt = await getConnectionAttemptModel(dbConnection).create({
+    minecraftUuid: context.minecraftUuid,
+    username: context.username,
+    ipAddress: context.ipAddress,
+    country: context.ip?.country || null,
+    asn: context.ip?.asn || null,
+    proxy: !!context.ip?.proxy,
+    hosting: !!context.ip?.hosting,
+    decision,
+    reasons
+  });
+
+  publishEvent(serverName, 'players', decision === 'denied' ? 'connection.denied' : 'connection.alerted', formatConnectionAttempt(attempt));
+  return attempt;
+}
+
+export function formatConnectionPolicy(policy: IConnectionPolicy) {
+  return {
+    id: policy._id.toString(),
+    name: policy.name,
+    enabled: policy.enabled,
+    condition: policy.condition,
+    values: policy.values,
+    negate: policy.negate,
+    action: policy.action,
+    minAccountAgeDays: policy.minAccountAgeDays,
+    message: policy.message,
+    exemptions: policy.exemptions,
+    createdBy: policy.createdBy,
+    createdAt: policy.createdAt,
+    updatedAt: policy.updatedAt
+  };
+}
+
+export function formatConnectionAttempt(attempt: IConnectionAttempt) {
+  return {
+    id: attempt._id.toString(),
+    minecraftUuid: attempt.minecraftUuid,
+    username: attempt.username,
+    ipAddress: attempt.ipAddress,
+    country: attempt.country,
+    asn: attempt.asn,
+    proxy: attempt.proxy,
+    hosting: attempt.hosting,
+    decision: attempt.decision,
+    reasons: attempt.reasons,
+    createdAt: attempt.createdAt
+  };
+}
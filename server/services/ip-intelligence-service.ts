@@ -0,0 +1,742 @@
+import { Request } from 'express';
+import { Connection, Document, Model, Schema, Types } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { AuditActor, recordAuditEvent } from './audit-service';
+
+/**
+ * Server-side IP intelligence.
+ *
+ * Country, region, ASN, VPN and hosting information for player IPs comes from range
+ * lists the admins upload: a GeoIP database, an ASN database and VPN and hosting range
+ * lists. Ranges are stored per tenant and looked up by their start address, results are
+ * cached per IP and re-evaluated when a list is replaced. Values the Minecraft plugin
+ * sends are only used for the kinds of information no list has been uploaded for.
+ */
+
+export const IP_LIST_TYPES = ['geo', 'asn', 'vpn', 'hosting'] as const;
+
+export type IpListType = typeof IP_LIST_TYPES[number];
+
+export interface IIpRangeList extends Document<Types.ObjectId> {
+  type: IpListType;
+  fileName: string;
+  // Ranges of the current upload share its version, replaced uploads are deleted
+  version: string;
+  entries: number;
+  skipped: number;
+  uploadedBy: string;
+  uploadedAt: Date;
+}
+
+export interface IIpRange extends Document<Types.ObjectId> {
+  list: IpListType;
+  version: string;
+  family: 4 | 6;
+  // Fixed width hex so ranges compare as strings: 8 digits for IPv4, 32 for IPv6
+  start: string;
+  end: string;
+  country: string | null;
+  region: string | null;
+  city: string | null;
+  asn: string | null;
+}
+
+export interface IpIntelligenceResult {
+  country: string;
+  region: string;
+  asn: string;
+  proxy: boolean;
+  hosting: boolean;
+  // Where each value came from: a list type, 'plugin' or 'none'
+  sources: { geo: string; asn: string; vpn: string; hosting: string };
+}
+
+export interface IIpIntelligence extends Document<Types.ObjectId>, IpIntelligenceResult {
+  ipAddress: string;
+  listsVersion: string;
+  evaluatedAt: Date;
+}
+
+// Information about an IP as sent by the Minecraft plugin (ip-api.com fields)
+export interface PluginIpInfo {
+  countryCode?: string;
+  regionName?: string;
+  city?: string;
+  as?: string;
+  proxy?: boolean;
+  hosting?: boolean;
+}
+
+const IpRangeListSchema = new Schema<IIpRangeList>({
+  type: { type: String, enum: IP_LIST_TYPES, required: true, unique: true },
+  fileName: { type: String, required: true },
+  version: { type: String, required: true },
+  entries: { type: Number, default: 0 },
+  skipped: { type: Number, default: 0 },
+  uploadedBy: { type: String, required: true },
+  uploadedAt: { type: Date, default: Date.now }
+});
+
+const IpRangeSchema = new Schema<IIpRange>({
+  list: { type: String, enum: IP_LIST_TYPES, required: true },
+  version: { type: String, required: true },
+  family: { type: Number, enum: [4, 6], required: true },
+  start: { type: String, required: true },
+  end: { type: String, required: true },
+  country: { type: String, default: null },
+  region: { type: String, default: null },
+  city: { type: String, default: null },
+  asn: { type: String, default: null }
+}, { versionKey: false });
+
+IpRangeSchema.index({ list: 1, version: 1, family: 1, start: -1 });
+
+const IpIntelligenceSchema = new Schema<IIpIntelligence>({
+  ipAddress: { type: String, required: true, unique: true },
+  country: { type: String, default: 'Unknown' },
+  region: { type: String, default: 'Unknown' },
+  asn: { type: String, default: 'Unknown' },
+  proxy: { type: Boolean, default: false },
+  hosting: { type: Boolean, default: false },
+  sources: {
+    geo: { type: String, default: 'none' },
+    asn: { type: String, default: 'none' },
+    vpn: { type: String, default: 'none' },
+    hosting: { type: String, default: 'none' }
+  },
+  listsVersion: { type: String, default: '' },
+  evaluatedAt: { type: Date, default: Date.now }
+});
+
+IpIntelligenceSchema.index({ listsVersion: 1 });
+
+const INSERT_BATCH_SIZE = 5000;
+const REEVALUATION_BATCH_SIZE = 200;
+
+const resumedConnections = new WeakSet<Connection>();
+const reevaluatingConnections = new WeakSet<Connection>();
+
+export function getIpRangeListModel(dbConnection: Connection): Model<IIpRangeList> {
+  return (dbConnection.models.IpRangeList as Model<IIpRangeList>) ||
+    dbConnection.model<IIpRangeList>('IpRangeList', IpRangeListSchema);
+}
+
+export function getIpRangeModel(dbConnection: Connection): Model<IIpRange> {
+  return (dbConnection.models.IpRange as Model<IIpRange>) ||
+    dbConnection.model<IIpRange>('IpRange', IpRangeSchema);
+}
+
+export function getIpIntelligenceModel(dbConnection: Connection): Model<IIpIntelligence> {
+  return (dbConnection.models.IpIntelligence as Model<IIpIntelligence>) ||
+    dbConnection.model<IIpIntelligence>('IpIntelligence', IpIntelligenceSchema);
+}
+
+export function isIpListType(type: unknown): type is IpListType {
+  return typeof type === 'string' && (IP_LIST_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Parse an IPv4 or IPv6 address into its family and fixed width hex form.
+ * IPv4-mapped IPv6 addresses are treated as IPv4.
+ */
+export function parseIpAddress(ipAddress: string): { family: 4 | 6; hex: string } | null {
+  const ip = ipAddress.trim().replace(/^\[|\]$/g, '').split('%')[0];
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+  if (mapped) {
+    return parseIpAddress(mapped[1]);
+  }
+
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(ip)) {
+    const octets = ip.split('.').map(Number);
+    if (octets.some(octet => octet > 255)) return null;
+    return { family: 4, hex: octets.map(octet => octet.toString(16).padStart(2, '0')).join('') };
+  }
+
+  if (!ip.includes(':') || !/^[0-9a-f:.]+$/i.test(ip)) return null;
+
+  let groups: string[];
+  const halves = ip.split('::');
+  if (halves.length > 2) return null;
+  if (halves.length === 2) {
+    const head = halves[0] ? halves[0].split(':') : [];
+    const tail = halves[1] ? halves[1].split(':') : [];
+    if (head.length + tail.length > 7) return null;
+    groups = [...head, ...Array(8 - head.length - tail.length).fill('0'), ...tail];
+  } else {
+    groups = ip.split(':');
+  }
+
+  if (groups.length !== 8 || groups.some(group => !/^[0-9a-f]{1,4}$/i.test(group))) return null;
+  return { family: 6, hex: groups.map(group => group.toLowerCase().padStart(4, '0')).join('') };
+}
+
+/**
+ * Parse a single address or CIDR block into the first and last address it covers
+ */
+export function parseIpRange(value: string): { family: 4 | 6; start: string; end: string } | null {
+  const [addressText, prefixText, ...rest] = value.trim().split('/');
+  const parsed = parseIpAddress(addressText);
+  if (!parsed || rest.length > 0) return null;
+  // Number('') is 0, an empty prefix must not become a block covering every address
+  if (prefixText !== undefined && !/^\d{1,3}$/.test(prefixText)) return null;
+
+  const bits = parsed.family === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (prefix > bits) return null;
+
+  const address = BigInt(`0x${parsed.hex}`);
+  const hostMask = (BigInt(1) << BigInt(bits - prefix)) - BigInt(1);
+  const width = parsed.hex.length;
+  return {
+    family: parsed.family,
+    start: (address & ~hostMask).toString(16).padStart(width, '0'),
+    end: (address | hostMask).toString(16).padStart(width, '0')
+  };
+}
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+// Header names of the common free databases (MaxMind GeoLite2, DB-IP, IP2Location) mapped to our fields
+const COLUMN_ALIASES: Record<string, string[]> = {
+  network: ['network', 'cidr', 'range', 'prefix', 'ip'],
+  start: ['start_ip', 'ip_start', 'range_start', 'ip_from', 'first_ip'],
+  end: ['end_ip', 'ip_end', 'range_end', 'ip_to', 'last_ip'],
+  country: ['country_iso_code', 'country_code', 'country'],
+  region: ['region', 'region_name', 'subdivision_1_name', 'state'],
+  city: ['city', 'city_name'],
+  asn: ['autonomous_system_number', 'asn', 'as_number'],
+  organization: ['autonomous_system_organization', 'as_org', 'as_organization', 'organization', 'org', 'as_name']
+};
+
+// Column order assumed for files without a header row, after the network or start/end columns
+const POSITIONAL_COLUMNS: Record<IpListType, string[]> = {
+  geo: ['country', 'region', 'city'],
+  asn: ['asn', 'organization'],
+  vpn: [],
+  hosting: []
+};
+
+export interface ParsedIpRange {
+  family: 4 | 6;
+  start: string;
+  end: string;
+  country: string | null;
+  region: string | null;
+  city: string | null;
+  asn: string | null;
+}
+
+function formatAsn(asn: string | undefined, organization: string | undefined): string | null {
+  const number = asn ? asn.replace(/^AS/i, '') : '';
+  const label = [number ? `AS${number}` : '', organization || ''].join(' ').trim();
+  return label || null;
+}
+
+/**
+ * Parse an uploaded list. GeoIP and ASN databases are CSV files with a network (CIDR) or
+ * start and end address column, VPN and hosting lists may also be plain text with one
+ * address or CIDR per line. Lines starting with # are comments.
+ */
+export function parseIpRangeList(type: IpListType, text: string): { ranges: ParsedIpRange[]; skipped: number } {
+  const ranges: ParsedIpRange[] = [];
+  let skipped = 0;
+  let columns: Record<string, number> | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue;
+
+    const fields = splitCsvLine(line);
+
+    // The first line is a header when it does not start with an address
+    if (columns === null) {
+      columns = {};
+      if (!parseIpRange(fields[0])) {
+        fields.forEach((name, index) => {
+          const normalized = name.toLowerCase().replace(/[\s-]+/g, '_');
+          for (const [column, aliases] of Object.entries(COLUMN_ALIASES)) {
+            if (aliases.includes(normalized) && columns![column] === undefined) {
+              columns![column] = index;
+            }
+          }
+        });
+        continue;
+      }
+      const hasEnd = fields.length > 1 && !!parseIpAddress(fields[1]);
+      columns = hasEnd ? { start: 0, end: 1 } : { network: 0 };
+      POSITIONAL_COLUMNS[type].forEach((column, index) => {
+        columns![column] = index + (hasEnd ? 2 : 1);
+      });
+    }
+
+    const field = (column: string) => {
+      const index = columns![column];
+      const value = index === undefined ? undefined : fields[index];
+      return value && value !== '-' ? value : undefined;
+    };
+
+    let range: { family: 4 | 6; start: string; end: string } | null = null;
+    if (columns.network !== undefined) {
+      range = parseIpRange(fields[columns.network] || '');
+    } else if (columns.start !== undefined && columns.end !== undefined) {
+      const start = parseIpAddress(fields[columns.start] || '');
+      const end = parseIpAddress(fields[columns.end] || '');
+      if (start && end && start.family === end.family && start.hex <= end.hex) {
+        range = { family: start.family, start: start.hex, end: end.hex };
+      }
+    }
+
+    if (!range) {
+      skipped++;
+      continue;
+    }
+
+    ranges.push({
+      ...range,
+      country: type === 'geo' ? field('country')?.toUpperCase() || null : null,
+      region: type === 'geo' ? field('region') || null : null,
+      city: type === 'geo' ? field('city') || null : null,
+      asn: type === 'asn' ? formatAsn(field('asn'), field('organization')) : null
+    });
+  }
+
+  return { ranges: type === 'vpn' || type === 'hosting' ? mergeRanges(ranges) : ranges, skipped };
+}
+
+/**
+ * Merge overlapping ranges. Lookups only check the closest range starting at or before
+ * an address, so flag lists must not contain ranges nested inside each other.
+ */
+function mergeRanges(ranges: ParsedIpRange[]): ParsedIpRange[] {
+  const sorted = [...ranges].sort((a, b) => a.family - b.family || (a.start < b.start ? -1 : a.start > b.start ? 1 : 0));
+  const merged: ParsedIpRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && last.family === range.family && range.start <= last.end) {
+      if (range.end > last.end) last.end = range.end;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+/**
+ * The lists in use and a version identifying them. Cached results from other versions are stale.
+ */
+async function loadLists(dbConnection: Connection): Promise<{ lists: Map<IpListType, IIpRangeList>; version: string }> {
+  const lists = await getIpRangeListModel(dbConnection).find().lean<IIpRangeList[]>();
+  return {
+    lists: new Map(lists.map(list => [list.type, list])),
+    version: lists.map(list => `${list.type}:${list.version}`).sort().join(',')
+  };
+}
+
+async function findRange(dbConnection: Connection, list: IIpRangeList | undefined, ip: { family: 4 | 6; hex: string }) {
+  if (!list) return null;
+  const range = await getIpRangeModel(dbConnection)
+    .findOne({ list: list.type, version: list.version, family: ip.family, start: { $lte: ip.hex } })
+    .sort({ start: -1 })
+    .lean<IIpRange>();
+  return range && range.end >= ip.hex ? range : null;
+}
+
+function pluginRegion(ipInfo: PluginIpInfo): string | undefined {
+  if (ipInfo.regionName && ipInfo.city) return `${ipInfo.regionName}, ${ipInfo.city}`;
+  return ipInfo.regionName || ipInfo.city || undefined;
+}
+
+async function evaluateIp(
+  dbConnection: Connection,
+  listByType: Map<IpListType, IIpRangeList>,
+  ipAddress: string,
+  fallback: Partial<IpIntelligenceResult> & { sources?: Partial<IpIntelligenceResult['sources']> }
+): Promise<IpIntelligenceResult> {
+  const ip = parseIpAddress(ipAddress);
+
+  const result: IpIntelligenceResult = {
+    country: 'Unknown',
+    region: 'Unknown',
+    asn: 'Unknown',
+    proxy: false,
+    hosting: false,
+    sources: { geo: 'none', asn: 'none', vpn: 'none', hosting: 'none' }
+  };
+
+  if (listByType.has('geo')) {
+    const range = ip ? await findRange(dbConnection, listByType.get('geo'), ip) : null;
+    if (range) {
+      result.country = range.country || 'Unknown';
+      result.region = range.region && range.city ? `${range.region}, ${range.city}` : (range.region || range.city || 'Unknown');
+    }
+    result.sources.geo = 'geo';
+  } else if (fallback.country) {
+    result.country = fallback.country;
+    result.region = fallback.region || 'Unknown';
+    result.sources.geo = fallback.sources?.geo || 'plugin';
+  }
+
+  if (listByType.has('asn')) {
+    const range = ip ? await findRange(dbConnection, listByType.get('asn'), ip) : null;
+    result.asn = range?.asn || 'Unknown';
+    result.sources.asn = 'asn';
+  } else if (fallback.asn) {
+    result.asn = fallback.asn;
+    result.sources.asn = fallback.sources?.asn || 'plugin';
+  }
+
+  if (listByType.has('hosting')) {
+    result.hosting = ip ? !!(await findRange(dbConnection, listByType.get('hosting'), ip)) : false;
+    result.sources.hosting = 'hosting';
+  } else if (fallback.hosting !== undefined) {
+    result.hosting = fallback.hosting;
+    result.sources.hosting = fallback.sources?.hosting || 'plugin';
+  }
+
+  if (listByType.has('vpn')) {
+    result.proxy = ip ? !!(await findRange(dbConnection, listByType.get('vpn'), ip)) : false;
+    result.sources.vpn = 'vpn';
+  } else if (fallback.proxy !== undefined) {
+    result.proxy = fallback.proxy;
+    result.sources.vpn = fallback.sources?.vpn || 'plugin';
+  }
+
+  // Hosting providers are treated as proxies by alt detection, as before
+  result.proxy = result.proxy || result.hosting;
+  return result;
+}
+
+/**
+ * Look up an IP, using the cached result unless the lists changed since it was evaluated.
+ * Information the plugin sent is used for anything no list has been uploaded for.
+ */
+export async function lookupIpIntelligence(
+  dbConnection: Connection,
+  ipAddress: string,
+  ipInfo?: PluginIpInfo | null
+): Promise<IpIntelligenceResult> {
+  const IpIntelligence = getIpIntelligenceModel(dbConnection);
+  const { lists, version: listsVersion } = await loadLists(dbConnection);
+  const cached = await IpIntelligence.findOne({ ipAddress }).lean<IIpIntelligence>();
+
+  // Values the plugin sends now take precedence over values it sent before
+  const fallback = ipInfo ? {
+    country: ipInfo.countryCode,
+    region: pluginRegion(ipInfo),
+    asn: ipInfo.as,
+    proxy: ipInfo.proxy === undefined ? undefined : !!ipInfo.proxy,
+    hosting: ipInfo.hosting === undefined ? undefined : !!ipInfo.hosting
+  } : cached ? pluginFallback(cached) : {};
+
+  if (cached && cached.listsVersion === listsVersion && (!ipInfo || matchesPluginValues(cached, fallback, lists))) {
+    return toIpIntelligenceResult(cached);
+  }
+
+  const result = await evaluateIp(dbConnection, lists, ipAddress, fallback);
+  await IpIntelligence.updateOne(
+    { ipAddress },
+    { $set: { ...result, listsVersion, evaluatedAt: new Date() } },
+    { upsert: true }
+  );
+  return result;
+}
+
+/**
+ * The plugin supplied values of a cached result, to keep them when it is re-evaluated
+ */
+function pluginFallback(cached: IIpIntelligence) {
+  const sources = cached.sources || { geo: 'none', asn: 'none', vpn: 'none', hosting: 'none' };
+  return {
+    country: sources.geo === 'plugin' ? cached.country : undefined,
+    region: sources.geo === 'plugin' ? cached.region : undefined,
+    asn: sources.asn === 'plugin' ? cached.asn : undefined,
+    proxy: sources.vpn === 'plugin' ? cached.proxy : undefined,
+    hosting: sources.hosting === 'plugin' ? cached.hosting : undefined
+  };
+}
+
+/**
+ * Whether the plugin sent the same values the cached result has, for everything no list covers
+ */
+function matchesPluginValues(
+  cached: IIpIntelligence,
+  fallback: Partial<IpIntelligenceResult>,
+  lists: Map<IpListType, IIpRangeList>
+): boolean {
+  const stored = pluginFallback(cached);
+  // Evaluating stores the region as Unknown when only the country was sent, and the proxy flag including hosting
+  const region = fallback.country ? fallback.region || 'Unknown' : undefined;
+  const proxy = fallback.proxy === undefined ? undefined : fallback.proxy || cached.hosting;
+
+  return (lists.has('geo') || (fallback.country === stored.country && region === stored.region)) &&
+    (lists.has('asn') || fallback.asn === stored.asn) &&
+    (lists.has('vpn') || proxy === stored.proxy) &&
+    (lists.has('hosting') || fallback.hosting === stored.hosting);
+}
+
+function toIpIntelligenceResult(intelligence: IIpIntelligence): IpIntelligenceResult {
+  return {
+    country: intelligence.country,
+    region: intelligence.region,
+    asn: intelligence.asn,
+    proxy: intelligence.proxy,
+    hosting: intelligence.hosting,
+    sources: intelligence.sources
+  };
+}
+
+/**
+ * The fields stored on an entry of a player's IP list
+ */
+export function toIpListFields(result: IpIntelligenceResult) {
+  return {
+    country: result.country,
+    region: result.region,
+    asn: result.asn,
+    proxy: result.proxy,
+    hosting: result.hosting
+  };
+}
+
+/**
+ * Cached results for a set of IPs, keyed by address
+ */
+export async function getCachedIpIntelligence(
+  dbConnection: Connection,
+  ipAddresses: string[]
+): Promise<Map<string, IIpIntelligence>> {
+  const cached = await getIpIntelligenceModel(dbConnection)
+    .find({ ipAddress: { $in: ipAddresses } })
+    .lean<IIpIntelligence[]>();
+  return new Map(cached.map(intelligence => [intelligence.ipAddress, intelligence]));
+}
+
+/**
+ * Replace a list with an uploaded file. The new ranges are inserted before the old ones
+ * are removed so lookups keep working during the import.
+ */
+export async function importIpRangeList(
+  dbConnection: Connection,
+  serverName: string | undefined | null,
+  type: IpListType,
+  fileName: string,
+  text: string,
+  actor: AuditActor,
+  req?: Request | null
+): Promise<IIpRangeList> {
+  const { ranges, skipped } = parseIpRangeList(type, text);
+  if (ranges.length === 0) {
+    throw new Error('The file does not contain any IP ranges');
+  }
+
+  const IpRange = getIpRangeModel(dbConnection);
+  const IpRangeList = getIpRangeListModel(dbConnection);
+  const version = uuidv4();
+
+  try {
+    for (let i = 0; i < ranges.length; i += INSERT_BATCH_SIZE) {
+      await IpRange.insertMany(
+        ranges.slice(i, i + INSERT_BATCH_SIZE).map(range => ({ ...range, list: type, version })),
+        { ordered: false }
+      );
+    }
+  } catch (error) {
+    await IpRange.deleteMany({ list: type, version });
+    throw error;
+  }
+
+  const previous = await IpRangeList.findOne({ type }).lean<IIpRangeList>();
+  const list = await IpRangeList.findOneAndUpdate(
+    { type },
+    { $set: { type, fileName, version, entries: ranges.length, skipped, uploadedBy: actor.name, uploadedAt: new Date() } },
+    { upsert: true, new: true }
+  );
+  await IpRange.deleteMany({ list: type, version: { $ne: version } });
+
+  await recordAuditEvent(dbConnection, serverName, {
+    action: 'settings.ip_list_uploaded',
+    summary: `${type} IP list replaced with ${fileName} (${ranges.length} ranges)`,
+    target: { type: 'settings', id: `ipIntelligence.${type}`, name: fileName },
+    before: previous ? { fileName: previous.fileName, entries: previous.entries } : null,
+    after: { fileName, entries: ranges.length },
+    actor,
+    metadata: { skipped }
+  }, req);
+
+  startIpReevaluation(dbConnection, serverName);
+  return list!;
+}
+
+export async function deleteIpRangeList(
+  dbConnection: Connection,
+  serverName: string | undefined | null,
+  type: IpListType,
+  actor: AuditActor,
+  req?: Request | null
+): Promise<boolean> {
+  const list = await getIpRangeListModel(dbConnection).findOneAndDelete({ type });
+  if (!list) return false;
+
+  await getIpRangeModel(dbConnection).deleteMany({ list: type });
+  await recordAuditEvent(dbConnection, serverName, {
+    action: 'settings.ip_list_deleted',
+    summary: `${type} IP list ${list.fileName} removed`,
+    target: { type: 'settings', id: `ipIntelligence.${type}`, name: list.fileName },
+    before: { fileName: list.fileName, entries: list.entries },
+    actor
+  }, req);
+
+  startIpReevaluation(dbConnection, serverName);
+  return true;
+}
+
+/**
+ * Number of cached IPs still evaluated against older lists
+ */
+export async function countStaleIpIntelligence(dbConnection: Connection): Promise<number> {
+  const { version } = await loadLists(dbConnection);
+  return getIpIntelligenceModel(dbConnection).countDocuments({ listsVersion: { $ne: version } });
+}
+
+/**
+ * Re-evaluate every cached IP against the current lists in the background and update the
+ * IP lists of the players that used them. Stale results are found by their version, so
+ * an interrupted run simply continues where it stopped the next time it is started.
+ */
+export function startIpReevaluation(dbConnection: Connection, serverName: string | undefined | null): void {
+  if (reevaluatingConnections.has(dbConnection)) return;
+  reevaluatingConnections.add(dbConnection);
+
+  reevaluateIps(dbConnection)
+    .catch(error => {
+      console.error(`[IP Intelligence - ${serverName || 'Unknown Server'}] Failed to re-evaluate IPs:`, error);
+    })
+    .finally(() => reevaluatingConnections.delete(dbConnection));
+}
+
+async function reevaluateIps(dbConnection: Connection): Promise<void> {
+  const IpIntelligence = getIpIntelligenceModel(dbConnection);
+  const Player = dbConnection.model('Player');
+
+  await seedIpIntelligence(dbConnection);
+
+  while (true) {
+    const { lists, version: listsVersion } = await loadLists(dbConnection);
+    const stale = await IpIntelligence.find({ listsVersion: { $ne: listsVersion } })
+      .limit(REEVALUATION_BATCH_SIZE)
+      .lean<IIpIntelligence[]>();
+    if (stale.length === 0) return;
+
+    for (const cached of stale) {
+      const result = await evaluateIp(dbConnection, lists, cached.ipAddress, pluginFallback(cached));
+      await IpIntelligence.updateOne(
+        { _id: cached._id },
+        { $set: { ...result, listsVersion, evaluatedAt: new Date() } }
+      );
+
+      const fields = toIpListFields(result);
+      await Player.updateMany(
+        { 'ipList.ipAddress': cached.ipAddress },
+        { $set: Object.fromEntries(Object.entries(fields).map(([key, value]) => [`ipList.$[entry].${key}`, value])) },
+        { arrayFilters: [{ 'entry.ipAddress': cached.ipAddress }] }
+      );
+    }
+  }
+}
+
+/**
+ * Add the IPs players used before lookups were made by the panel to the cache, with the
+ * values the plugin sent for them, so they are evaluated against the lists as well
+ */
+async function seedIpIntelligence(dbConnection: Connection): Promise<void> {
+  const IpIntelligence = getIpIntelligenceModel(dbConnection);
+  const Player = dbConnection.model('Player');
+  let cursor: unknown = null;
+
+  while (true) {
+    const players = await Player.find(cursor ? { _id: { $gt: cursor } } : {})
+      .sort({ _id: 1 })
+      .limit(REEVALUATION_BATCH_SIZE)
+      .select('_id ipList')
+      .lean<any[]>();
+    if (players.length === 0) return;
+    cursor = players[players.length - 1]._id;
+
+    const entries = new Map<string, any>();
+    for (const player of players) {
+      for (const ip of player.ipList || []) {
+        if (ip.ipAddress) entries.set(ip.ipAddress, ip);
+      }
+    }
+
+    const cached = await getCachedIpIntelligence(dbConnection, Array.from(entries.keys()));
+    const missing = Array.from(entries.values()).filter(ip => !cached.has(ip.ipAddress));
+    if (missing.length === 0) continue;
+
+    await IpIntelligence.insertMany(missing.map(ip => ({
+      ipAddress: ip.ipAddress,
+      country: ip.country || 'Unknown',
+      region: ip.region || 'Unknown',
+      asn: ip.asn || 'Unknown',
+      proxy: !!ip.proxy,
+      hosting: !!ip.hosting,
+      sources: {
+        geo: ip.country ? 'plugin' : 'none',
+        asn: ip.asn ? 'plugin' : 'none',
+        vpn: ip.proxy !== undefined ? 'plugin' : 'none',
+        hosting: ip.hosting !== undefined ? 'plugin' : 'none'
+      },
+      listsVersion: ''
+    })), { ordered: false }).catch(error => {
+      // Another lookup may have cached the same IP in the meantime
+      if (error?.code !== 11000 && !error?.writeErrors) throw error;
+    });
+  }
+}
+
+/**
+ * Continue a re-evaluation that was interrupted when the process last stopped
+ */
+export function resumeIpReevaluation(dbConnection: Connection, serverName: string | undefined | null): void {
+  if (resumedConnections.has(dbConnection)) return;
+  resumedConnections.add(dbConnection);
+  startIpReevaluation(dbConnection, serverName);
+}
+
+export function formatIpRangeList(list: IIpRangeList) {
+  return {
+    type: list.type,
+    fileName: list.fileName,
+    entries: list.entries,
+    skipped: list.skipped,
+    uploadedBy: list.uploadedBy,
+    uploadedAt: list.uploadedAt
+  };
+}
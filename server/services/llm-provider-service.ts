@@ -0,0 +1,465 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { publicRequest, validatePublicUrl } from '../utils/public-http';
+
+/**
+ * LLM provider layer for AI moderation.
+ *
+ * Providers only turn a prompt into text. Prompt construction and validation of
+ * the structured JSON response happen here, once, so every provider is held to
+ * the same output contract.
+ */
+
+export type LLMProviderName = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface LLMSettings {
+  provider: LLMProviderName;
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+  apiKey?: string;  // Falls back to the provider's environment variable
+  mockResponse?: string; // Fixed response returned by the mock provider
+}
+
+export interface LLMGenerateOptions {
+  temperature: number;
+  maxOutputTokens: number;
+  jsonOutput?: boolean;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  generate(prompt: string, options: LLMGenerateOptions): Promise<string>;
+}
+
+export interface ChatMessage {
+  username: string;
+  message: string;
+  timestamp: string;
+}
+
+export interface ChatAnalysisResponse {
+  analysis: string;
+  suggestedAction: {
+    punishmentTypeId: string;
+    severity: 'low' | 'regular' | 'severe';
+  } | null;
+  confidence: number;
+}
+
+export type AppealRecommendation = 'pardon' | 'reduce' | 'reject';
+
+export interface AppealAnalysisResponse {
+  recommendation: AppealRecommendation;
+  reasoning: string;
+  // Only set when the recommendation is 'reduce', same shape as the duration picker of the ticket page
+  suggestedDuration: {
+    value: number;
+    unit: 'hours' | 'days' | 'weeks' | 'months';
+  } | null;
+  confidence: number;
+}
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: 'gemini',
+  model: 'gemini-2.5-flash-lite-preview-06-17',
+  temperature: 0.1, // Lower temperature for more consistent responses
+  maxOutputTokens: 1024
+};
+
+const LLM_PROVIDERS: LLMProviderName[] = ['gemini', 'openai-compatible', 'mock'];
+const REQUEST_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Merge tenant LLM settings (aiModerationSettings.llm) with the defaults
+ */
+export function resolveLLMSettings(settings?: Partial<LLMSettings> | null): LLMSettings {
+  const provider = settings?.provider && LLM_PROVIDERS.includes(settings.provider)
+    ? settings.provider
+    : DEFAULT_LLM_SETTINGS.provider;
+
+  const temperature = Number(settings?.temperature);
+  const maxOutputTokens = Number(settings?.maxOutputTokens);
+
+  return {
+    ...settings,
+    provider,
+    // A model configured for another provider is meaningless, only keep the default for Gemini
+    model: settings?.model || (provider === 'gemini' ? DEFAULT_LLM_SETTINGS.model : ''),
+    temperature: Number.isFinite(temperature) && temperature >= 0 && temperature <= 2
+      ? temperature
+      : DEFAULT_LLM_SETTINGS.temperature,
+    maxOutputTokens: Number.isInteger(maxOutputTokens) && maxOutputTokens > 0
+      ? maxOutputTokens
+      : DEFAULT_LLM_SETTINGS.maxOutputTokens
+  };
+}
+
+/**
+ * Check LLM settings submitted by a tenant, returns an error message or null when they are acceptable
+ */
+export function validateLLMSettings(llm: any): string | null {
+  if (typeof llm !== 'object' || llm === null) {
+    return 'llm must be an object';
+  }
+  if (!LLM_PROVIDERS.includes(llm.provider)) {
+    return 'llm.provider must be gemini, openai-compatible, or mock';
+  }
+  if (llm.baseUrl) {
+    return typeof llm.baseUrl === 'string' ? validatePublicUrl(llm.baseUrl, 'llm.baseUrl') : 'llm.baseUrl must be an http(s) URL';
+  }
+  return null;
+}
+
+/**
+ * LLM settings as sent to the settings page. The API key is never sent back, only whether one is saved.
+ */
+export function toPublicLLMSettings(settings?: Partial<LLMSettings> | null): Omit<LLMSettings, 'apiKey'> & { hasApiKey: boolean } {
+  const { apiKey, ...publicSettings } = resolveLLMSettings(settings);
+  return { ...publicSettings, hasApiKey: !!apiKey };
+}
+
+/**
+ * LLM settings submitted from the settings page. A blank API key keeps the saved one,
+ * unless clearApiKey is set or the base URL changed, so a saved key is never sent to
+ * an endpoint it wasn't entered for.
+ */
+export function mergeSubmittedLLMSettings(submitted: any, saved?: Partial<LLMSettings> | null): LLMSettings {
+  const { apiKey, hasApiKey, clearApiKey, ...settings } = submitted || {};
+  const newApiKey = typeof apiKey === 'string' ? apiKey.trim() : '';
+  const sameBaseUrl = (settings.baseUrl || '') === (saved?.baseUrl || '');
+  return resolveLLMSettings({
+    ...settings,
+    apiKey: newApiKey || (clearApiKey || !sameBaseUrl ? undefined : saved?.apiKey)
+  });
+}
+
+/**
+ * Create the provider configured for a tenant
+ */
+export function createLLMProvider(settings: LLMSettings): LLMProvider {
+  switch (settings.provider) {
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(settings);
+    case 'mock':
+      return new MockLLMProvider(settings);
+    case 'gemini':
+    default:
+      return new GeminiProvider(settings);
+  }
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  readonly model: string;
+  private genAI: GoogleGenerativeAI;
+
+  constructor(settings: LLMSettings) {
+    const apiKey = settings.apiKey || process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY environment variable is required');
+    }
+    this.model = settings.model || DEFAULT_LLM_SETTINGS.model;
+    this.genAI = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generate(prompt: string, options: LLMGenerateOptions): Promise<string> {
+    const model = this.genAI.getGenerativeModel({
+      model: this.model,
+      generationConfig: {
+        temperature: options.temperature,
+        topP: 0.8,
+        maxOutputTokens: options.maxOutputTokens,
+        ...(options.jsonOutput ? { responseMimeType: 'application/json' } : {})
+      }
+    });
+
+    const result = await model.generateContent(prompt);
+    const response = await result.response;
+    return response.text();
+  }
+}
+
+/**
+ * Any endpoint implementing the OpenAI chat completions API (OpenAI, Ollama, vLLM, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible' as const;
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  // Endpoints set by a tenant may not reach the panel's network, the one from the environment can
+  private publicOnly: boolean;
+
+  constructor(settings: LLMSettings) {
+    const baseUrl = settings.baseUrl || process.env.OPENAI_COMPATIBLE_BASE_URL;
+    if (!baseUrl) {
+      throw new Error('A base URL is required for the OpenAI-compatible provider');
+    }
+    if (!settings.model) {
+      throw new Error('A model is required for the OpenAI-compatible provider');
+    }
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.publicOnly = !!settings.baseUrl;
+    this.model = settings.model;
+    // The key from the environment belongs to the endpoint from the environment
+    this.apiKey = settings.apiKey || (this.publicOnly ? undefined : process.env.OPENAI_COMPATIBLE_API_KEY);
+  }
+
+  async generate(prompt: string, options: LLMGenerateOptions): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const url = `${this.baseUrl}/chat/completions`;
+    const body = JSON.stringify({
+      model: this.model,
+      messages: [{ role: 'user', content: prompt }],
+      temperature: options.temperature,
+      max_tokens: options.maxOutputTokens,
+      ...(options.jsonOutput ? { response_format: { type: 'json_object' } } : {})
+    });
+    const response = this.publicOnly
+      ? await publicRequest(url, { method: 'POST', headers, body, timeoutMs: REQUEST_TIMEOUT_MS })
+      : await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`OpenAI-compatible endpoint returned ${response.status}: ${body.slice(0, 200)}`);
+    }
+
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('OpenAI-compatible endpoint returned no message content');
+    }
+    return content;
+  }
+}
+
+/**
+ * Deterministic provider for tests and local development, never calls out
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  readonly model: string;
+  private response: string;
+
+  constructor(settings: Partial<LLMSettings> = {}) {
+    this.model = settings.model || 'mock';
+    this.response = settings.mockResponse || JSON.stringify({
+      analysis: 'Mock analysis: no rule violations detected.',
+      suggestedAction: null,
+      confidence: 1
+    });
+  }
+
+  async generate(_prompt: string, options: LLMGenerateOptions): Promise<string> {
+    return options.jsonOutput ? this.response : 'OK';
+  }
+}
+
+/**
+ * Analyze chat messages for rule violations with the given provider
+ */
+export async function analyzeChatMessages(
+  provider: LLMProvider,
+  settings: LLMSettings,
+  chatMessages: ChatMessage[],
+  systemPrompt: string,
+  reportedPlayer?: string
+): Promise<ChatAnalysisResponse> {
+  try {
+    // Format chat messages into a readable transcript
+    const chatTranscript = formatChatTranscript(chatMessages, reportedPlayer);
+
+    // Construct the full prompt (punishment types are now included in systemPrompt)
+    const fullPrompt = `${systemPrompt}
+
+CHAT TRANSCRIPT TO ANALYZE:
+${chatTranscript}
+
+${reportedPlayer ? `REPORTED PLAYER: ${reportedPlayer}` : ''}
+
+Please analyze the chat transcript and respond with a JSON object following the exact format specified in the system prompt.`;
+
+    const text = await provider.generate(fullPrompt, {
+      temperature: settings.temperature,
+      maxOutputTokens: settings.maxOutputTokens,
+      jsonOutput: true
+    });
+
+    return parseAnalysisResponse(text);
+  } catch (error) {
+    console.error(`[LLM Provider] Error analyzing chat messages with ${provider.name} (${provider.model}):`, error);
+    throw new Error(`Failed to analyze chat messages: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Review a punishment appeal with the given provider
+ */
+export async function analyzeAppeal(
+  provider: LLMProvider,
+  settings: LLMSettings,
+  appealContext: string,
+  systemPrompt: string
+): Promise<AppealAnalysisResponse> {
+  try {
+    const fullPrompt = `${systemPrompt}
+
+APPEAL TO REVIEW:
+${appealContext}
+
+Please review the appeal and respond with a JSON object following the exact format specified in the system prompt.`;
+
+    const text = await provider.generate(fullPrompt, {
+      temperature: settings.temperature,
+      maxOutputTokens: settings.maxOutputTokens,
+      jsonOutput: true
+    });
+
+    return parseAppealAnalysisResponse(text);
+  } catch (error) {
+    console.error(`[LLM Provider] Error analyzing appeal with ${provider.name} (${provider.model}):`, error);
+    throw new Error(`Failed to analyze appeal: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Test the provider connection
+ */
+export async function testLLMConnection(provider: LLMProvider): Promise<boolean> {
+  try {
+    const text = await provider.generate("Test connection. Respond with 'OK'.", {
+      temperature: 0,
+      maxOutputTokens: 16
+    });
+    return text.toLowerCase().includes('ok');
+  } catch (error) {
+    console.error(`[LLM Provider] Connection test failed for ${provider.name} (${provider.model}):`, error);
+    return false;
+  }
+}
+
+/**
+ * Format chat messages into a readable transcript
+ */
+export function formatChatTranscript(chatMessages: ChatMessage[], reportedPlayer?: string): string {
+  if (!chatMessages || chatMessages.length === 0) {
+    return 'No chat messages provided.';
+  }
+
+  return [...chatMessages]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .map(msg => {
+      const timestamp = new Date(msg.timestamp).toLocaleTimeString();
+      const playerIndicator = reportedPlayer && msg.username === reportedPlayer ? ' [REPORTED]' : '';
+      return `[${timestamp}] ${msg.username}${playerIndicator}: ${msg.message}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Parse and validate the structured JSON response of a provider
+ */
+export function parseAnalysisResponse(responseText: string): ChatAnalysisResponse {
+  try {
+    const parsed = extractJsonObject(responseText);
+
+    // Validate the response structure
+    if (typeof parsed.analysis !== 'string') {
+      throw new Error('Missing or invalid analysis field');
+    }
+
+    const suggestedAction = parsed.suggestedAction ?? null;
+    if (suggestedAction !== null) {
+      if (typeof suggestedAction !== 'object' || suggestedAction.punishmentTypeId === undefined || !suggestedAction.severity) {
+        throw new Error('Invalid suggestedAction structure');
+      }
+
+      if (!['low', 'regular', 'severe'].includes(suggestedAction.severity)) {
+        throw new Error('Invalid severity level');
+      }
+    }
+
+    return {
+      analysis: parsed.analysis,
+      suggestedAction: suggestedAction ? {
+        punishmentTypeId: String(suggestedAction.punishmentTypeId),
+        severity: suggestedAction.severity
+      } : null,
+      confidence: parseConfidence(parsed.confidence)
+    };
+  } catch (error) {
+    console.error('[LLM Provider] Failed to parse response:', responseText);
+    throw new Error(`Failed to parse LLM response: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Parse and validate the structured JSON response of an appeal review
+ */
+export function parseAppealAnalysisResponse(responseText: string): AppealAnalysisResponse {
+  try {
+    const parsed = extractJsonObject(responseText);
+
+    if (!['pardon', 'reduce', 'reject'].includes(parsed.recommendation)) {
+      throw new Error('Missing or invalid recommendation field');
+    }
+
+    if (typeof parsed.reasoning !== 'string' || !parsed.reasoning.trim()) {
+      throw new Error('Missing or invalid reasoning field');
+    }
+
+    let suggestedDuration: AppealAnalysisResponse['suggestedDuration'] = null;
+    if (parsed.recommendation === 'reduce' && parsed.suggestedDuration) {
+      const value = Number(parsed.suggestedDuration.value);
+      const unit = parsed.suggestedDuration.unit;
+      // A malformed duration is not fatal, staff pick the duration when applying a reduction anyway
+      if (Number.isFinite(value) && value > 0 && ['hours', 'days', 'weeks', 'months'].includes(unit)) {
+        suggestedDuration = { value: Math.round(value), unit };
+      }
+    }
+
+    return {
+      recommendation: parsed.recommendation,
+      reasoning: parsed.reasoning.trim(),
+      suggestedDuration,
+      confidence: parseConfidence(parsed.confidence)
+    };
+  } catch (error) {
+    console.error('[LLM Provider] Failed to parse appeal response:', responseText);
+    throw new Error(`Failed to parse LLM response: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Extract the JSON object from a provider response, tolerating markdown code blocks and surrounding text
+ */
+function extractJsonObject(responseText: string): any {
+  // Clean up the response text - remove markdown code blocks if present
+  let cleanedResponse = responseText.trim();
+
+  if (cleanedResponse.startsWith('```json')) {
+    cleanedResponse = cleanedResponse.replace(/```json\s*/, '').replace(/```\s*$/, '');
+  } else if (cleanedResponse.startsWith('```')) {
+    cleanedResponse = cleanedResponse.replace(/```\s*/, '').replace(/```\s*$/, '');
+  }
+
+  // Try to find JSON within the response if it's not pure JSON
+  const jsonMatch = cleanedResponse.match(/\{[\s\S]*\}/);
+  if (jsonMatch) {
+    cleanedResponse = jsonMatch[0];
+  }
+
+  return JSON.parse(cleanedResponse);
+}
+
+function parseConfidence(value: unknown): number {
+  const confidence = Number(value);
+  // Default confidence if not provided
+  return Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0.8;
+}
@@ -0,0 +1,258 @@
+import { Connection, FilterQuery, Model, Schema } from 'mongoose';
+import { ensureModel } from '../utils/schema-utils';
+
+/**
+ * Login history.
+ *
+ * Every login is appended to its own time-indexed collection instead of a list of dates
+ * on the player's IP entry. The IP entries only keep a summary of their logins: when the
+ * address was first and last used and how many times. Raw events older than the
+ * retention period are compacted away, the summaries still account for them.
+ */
+
+export interface ILoginEvent {
+  minecraftUuid: string;
+  username: string | null;
+  ipAddress: string;
+  server: string | null;
+  at: Date;
+}
+
+export interface LoginHistorySettings {
+  // Days raw login events are kept for
+  retentionDays: number;
+}
+
+const LoginEventSchema = new Schema<ILoginEvent>({
+  minecraftUuid: { type: String, required: true },
+  username: { type: String, default: null },
+  ipAddress: { type: String, required: true },
+  server: { type: String, default: null },
+  at: { type: Date, required: true }
+});
+
+LoginEventSchema.index({ minecraftUuid: 1, at: -1 });
+LoginEventSchema.index({ ipAddress: 1, at: -1 });
+LoginEventSchema.index({ at: 1 });
+
+export const DEFAULT_LOGIN_HISTORY_SETTINGS: LoginHistorySettings = {
+  retentionDays: 180
+};
+export const MIN_RETENTION_DAYS = 7;
+export const MAX_RETENTION_DAYS = 3650;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Compaction runs at most this often per tenant
+const COMPACTION_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const MIGRATION_BATCH_SIZE = 200;
+const MIGRATION_SETTINGS_TYPE = 'loginHistoryStorage';
+
+const lastCompaction = new WeakMap<Connection, number>();
+const migrations = new WeakMap<Connection, Promise<void>>();
+
+export function getLoginEventModel(connection: Connection): Model<ILoginEvent> {
+  return ensureModel<ILoginEvent>(connection, 'LoginEvent', LoginEventSchema);
+}
+
+export async function getLoginHistorySettings(connection: Connection): Promise<LoginHistorySettings> {
+  const settingsDoc = await connection.model('Settings').findOne({ type: 'loginHistory' });
+  return { ...DEFAULT_LOGIN_HISTORY_SETTINGS, ...(settingsDoc?.data || {}) };
+}
+
+/**
+ * When an IP entry was last used. Entries written before login summaries existed only
+ * have their list of login dates.
+ */
+export function getIpLastLogin(ipEntry: any): Date | null {
+  if (ipEntry?.lastLogin) {
+    return new Date(ipEntry.lastLogin);
+  }
+  const times = (ipEntry?.logins || []).map((login: Date) => new Date(login).getTime()).filter((time: number) => !isNaN(time));
+  if (times.length > 0) {
+    return new Date(times.reduce((latest: number, time: number) => Math.max(latest, time), 0));
+  }
+  return ipEntry?.firstLogin ? new Date(ipEntry.firstLogin) : null;
+}
+
+/**
+ * How many times an IP entry was used to log in
+ */
+export function getIpLoginCount(ipEntry: any): number {
+  if (typeof ipEntry?.loginCount === 'number') {
+    return ipEntry.loginCount;
+  }
+  return Math.max(ipEntry?.logins?.length || 0, 1);
+}
+
+/**
+ * A new IP entry for a player's IP list
+ */
+export function createIpEntry(ipAddress: string, fields: Record<string, any>, at: Date = new Date()) {
+  return {
+    ipAddress,
+    ...fields,
+    firstLogin: at,
+    lastLogin: at,
+    loginCount: 1
+  };
+}
+
+/**
+ * Count another login on an existing IP entry
+ */
+export function touchIpEntry(ipEntry: any, at: Date = new Date()): void {
+  ipEntry.loginCount = getIpLoginCount(ipEntry) + 1;
+  ipEntry.lastLogin = at;
+}
+
+/**
+ * Append a login to the history. Compacts old events now and then.
+ */
+export async function recordLoginEvent(
+  connection: Connection,
+  event: { minecraftUuid: string; ipAddress: string; username?: string | null; server?: string | null; at?: Date }
+): Promise<void> {
+  await getLoginEventModel(connection).create({
+    minecraftUuid: event.minecraftUuid,
+    username: event.username || null,
+    ipAddress: event.ipAddress,
+    server: event.server || null,
+    at: event.at || new Date()
+  });
+
+  const last = lastCompaction.get(connection) || 0;
+  if (Date.now() - last >= COMPACTION_INTERVAL_MS) {
+    lastCompaction.set(connection, Date.now());
+    compactLoginEvents(connection).catch(error => {
+      console.error(`[Login History] Error compacting login events for ${connection.name}:`, error);
+    });
+  }
+}
+
+/**
+ * Login events of a player, newest first
+ */
+export async function findLoginEvents(
+  connection: Connection,
+  filter: FilterQuery<ILoginEvent>,
+  limit: number
+): Promise<ILoginEvent[]> {
+  return getLoginEventModel(connection)
+    .find(filter)
+    .sort({ at: -1 })
+    .limit(limit)
+    .lean<ILoginEvent[]>();
+}
+
+/**
+ * Remove raw events older than the retention period. Returns how many were removed.
+ */
+export async function compactLoginEvents(connection: Connection): Promise<number> {
+  const { retentionDays } = await getLoginHistorySettings(connection);
+  const cutoff = new Date(Date.now() - retentionDays * DAY_MS);
+  const result = await getLoginEventModel(connection).deleteMany({ at: { $lt: cutoff } });
+  return result.deletedCount || 0;
+}
+
+export function formatLoginEvent(event: ILoginEvent & { _id?: any }) {
+  return {
+    id: event._id?.toString(),
+    minecraftUuid: event.minecraftUuid,
+    username: event.username,
+    ipAddress: event.ipAddress,
+    server: event.server,
+    at: event.at
+  };
+}
+
+/**
+ * Replace the login date lists on player IP entries with summaries. Dates still within
+ * the retention period become login events. Runs once per connection, every player is
+ * updated right after their events are written so an interrupted migration continues
+ * where it stopped.
+ */
+export function migrateIpLoginLists(connection: Connection): Promise<void> {
+  let migration = migrations.get(connection);
+  if (!migration) {
+    migration = runMigration(connection).catch(error => {
+      migrations.delete(connection);
+      throw error;
+    });
+    migrations.set(connection, migration);
+  }
+  return migration;
+}
+
+async function runMigration(connection: Connection): Promise<void> {
+  const Settings = connection.model('Settings');
+  if (await Settings.exists({ type: MIGRATION_SETTINGS_TYPE, 'data.migratedAt': { $ne: null } })) {
+    return;
+  }
+
+  const Player = connection.model('Player');
+  const LoginEvent = getLoginEventModel(connection);
+  const { retentionDays } = await getLoginHistorySettings(connection);
+  const cutoff = Date.now() - retentionDays * DAY_MS;
+  let migratedPlayers = 0;
+
+  for (;;) {
+    const players = await Player.find(
+      { 'ipList.logins.0': { $exists: true } },
+      { minecraftUuid: 1, ipList: 1 }
+    ).limit(MIGRATION_BATCH_SIZE).lean<any[]>();
+    if (players.length === 0) break;
+
+    const events: ILoginEvent[] = [];
+    const updates = players.map(player => {
+      // Players keep logging in while this runs, so entries are updated in place and only
+      // while they still lack a summary. Entries counted by a login since already have one.
+      const $set: Record<string, any> = {};
+      const arrayFilters: Record<string, any>[] = [];
+      const summarized = new Set<string>();
+      (player.ipList || []).forEach((ipEntry: any, index: number) => {
+        for (const login of ipEntry.logins || []) {
+          const at = new Date(login);
+          if (at.getTime() >= cutoff) {
+            events.push({ minecraftUuid: player.minecraftUuid, username: null, ipAddress: ipEntry.ipAddress, server: null, at });
+          }
+        }
+        // A filter per address, two filters matching the same entry would conflict
+        if (typeof ipEntry.loginCount === 'number' || summarized.has(ipEntry.ipAddress)) return;
+        summarized.add(ipEntry.ipAddress);
+
+        $set[`ipList.$[entry${index}].lastLogin`] = getIpLastLogin(ipEntry);
+        $set[`ipList.$[entry${index}].loginCount`] = getIpLoginCount(ipEntry);
+        arrayFilters.push({ [`entry${index}.ipAddress`]: ipEntry.ipAddress, [`entry${index}.loginCount`]: { $exists: false } });
+      });
+      return {
+        updateOne: {
+          filter: { _id: player._id },
+          update: { ...(arrayFilters.length > 0 ? { $set } : {}), $unset: { 'ipList.$[].logins': '' } },
+          ...(arrayFilters.length > 0 ? { arrayFilters } : {})
+        }
+      };
+    });
+
+    // Upserted, a batch interrupted before its players were updated writes its events again when it reruns
+    if (events.length > 0) {
+      await LoginEvent.bulkWrite(events.map(event => ({
+        updateOne: {
+          filter: { minecraftUuid: event.minecraftUuid, ipAddress: event.ipAddress, at: event.at },
+          update: { $setOnInsert: event },
+          upsert: true
+        }
+      })), { ordered: false });
+    }
+    await Player.bulkWrite(updates, { ordered: false });
+    migratedPlayers += players.length;
+  }
+
+  await Settings.updateOne(
+    { type: MIGRATION_SETTINGS_TYPE },
+    { $set: { 'data.migratedAt': new Date(), 'data.migratedPlayers': migratedPlayers } },
+    { upsert: true }
+  );
+  if (migratedPlayers > 0) {
+    console.log(`[Login History] Summarized IP logins of ${migratedPlayers} players for ${connection.name}`);
+  }
+}
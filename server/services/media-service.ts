@@ -1,56 +1,6 @@
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
-import crypto from 'crypto';
-
-// Wasabi S3 Configuration
-const WASABI_ENDPOINT = 'https://s3.wasabisys.com';
-const WASABI_REGION = 'us-east-1'; // Wasabi uses us-east-1 as default region
-
-// Dynamic imports for AWS SDK to avoid constructor issues
-let S3Client: any;
-let PutObjectCommand: any;
-let DeleteObjectCommand: any;
-let GetObjectCommand: any;
-let HeadObjectCommand: any;
-let getSignedUrl: any;
-let s3Client: any;
-
-// Initialize AWS SDK components
-async function initializeAwsSdk() {
-  if (S3Client) return; // Already initialized
-  
-  try {
-    const { S3Client: S3, PutObjectCommand: Put, DeleteObjectCommand: Delete, GetObjectCommand: Get, HeadObjectCommand: Head } = await import('@aws-sdk/client-s3');
-    const { getSignedUrl: signUrl } = await import('@aws-sdk/s3-request-presigner');
-    
-    S3Client = S3;
-    PutObjectCommand = Put;
-    DeleteObjectCommand = Delete;
-    GetObjectCommand = Get;
-    HeadObjectCommand = Head;
-    getSignedUrl = signUrl;
-    
-    s3Client = new S3Client({
-      region: WASABI_REGION,
-      endpoint: WASABI_ENDPOINT,
-      credentials: {
-        accessKeyId: process.env.WASABI_ACCESS_KEY || '',
-        secretAccessKey: process.env.WASABI_SECRET_KEY || '',
-      },
-      forcePathStyle: true, // Required for Wasabi compatibility
-    });
-  } catch (error) {
-    console.error('Failed to initialize AWS SDK:', error);
-    throw error;
-  }
-}
-
-const BUCKET_NAME = process.env.WASABI_BUCKET_NAME || '';
-
-// Validate environment variables
-if (!process.env.WASABI_ACCESS_KEY || !process.env.WASABI_SECRET_KEY || !process.env.WASABI_BUCKET_NAME) {
-  console.warn('Warning: Wasabi environment variables not configured. Media uploads will be disabled.');
-}
+import { getStorageDriver, isStorageConfigured } from './storage-service';
 
 export interface MediaUploadOptions {
   file: Buffer;
@@ -80,6 +30,39 @@ export const SUPPORTED_FILE_TYPES = {
   'server-icons': ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
 };
 
+// Stored files take their extension from the validated content type, never from the
+// name the client sent, so an upload can't be served back as HTML
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'video/quicktime': '.mov',
+  'application/pdf': '.pdf',
+  'text/plain': '.txt',
+  'application/msword': '.doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx'
+};
+
+/**
+ * Extension for a supported content type, null for anything else
+ */
+export function getFileExtension(contentType: string): string | null {
+  return CONTENT_TYPE_EXTENSIONS[contentType] || null;
+}
+
+/**
+ * Whether a stored file can be shown in the browser, everything else is served as a download
+ */
+export function isInlineMediaFile(filePath: string): boolean {
+  const ext = path.extname(filePath).toLowerCase();
+  return Object.entries(CONTENT_TYPE_EXTENSIONS).some(([contentType, typeExt]) =>
+    typeExt === ext && (contentType.startsWith('image/') || contentType.startsWith('video/'))
+  );
+}
+
 // File size limits (in bytes)
 export const FILE_SIZE_LIMITS = {
   evidence: 100 * 1024 * 1024, // 100MB for evidence (videos can be large)
@@ -99,12 +82,12 @@ export const FILE_SIZE_LIMITS = {
  * - gameserver/articles/9a8b7c6d-5e4f-3210-fedc-ba9876543210/article-789/banner-1234567890-ghi789.jpg
  * - coolserver/server-icons/8c7d6e5f-4a3b-2109-8765-43210fedcba9/homepage/logo-1234567890-jkl012.png
  */
-export function generateSecureFileNameWithUuid(originalName: string, folder: string, subFolder?: string, serverName?: string): { key: string; folderUuid: string } {
+export function generateSecureFileNameWithUuid(originalName: string, contentType: string, folder: string, subFolder?: string, serverName?: string): { key: string; folderUuid: string } {
   const timestamp = Date.now();
   const fileUuid = uuidv4(); // UUID for filename
   const folderUuid = uuidv4(); // Random UUID folder to prevent guessing
-  const ext = path.extname(originalName).toLowerCase();
-  const baseName = path.basename(originalName, ext).replace(/[^a-zA-Z0-9]/g, '-');
+  const ext = getFileExtension(contentType) || '';
+  const baseName = path.basename(originalName, path.extname(originalName)).replace(/[^a-zA-Z0-9]/g, '-');
   
   const fileName = `${baseName}-${timestamp}-${fileUuid}${ext}`;
   
@@ -136,8 +119,8 @@ export function generateSecureFileNameWithUuid(originalName: string, folder: str
  * Legacy function for backward compatibility - calls the new UUID function
  * @deprecated Use generateSecureFileNameWithUuid instead
  */
-function generateSecureFileName(originalName: string, folder: string, subFolder?: string, serverName?: string): string {
-  return generateSecureFileNameWithUuid(originalName, folder, subFolder, serverName).key;
+function generateSecureFileName(originalName: string, contentType: string, folder: string, subFolder?: string, serverName?: string): string {
+  return generateSecureFileNameWithUuid(originalName, contentType, folder, subFolder, serverName).key;
 }
 
 /**
@@ -152,7 +135,7 @@ function validateFile(file: Buffer, contentType: string, folder: string, options
 
   // Check file type
   const allowedTypes = options.allowedTypes || SUPPORTED_FILE_TYPES[folder];
-  if (!allowedTypes.includes(contentType)) {
+  if (!allowedTypes.includes(contentType) || !getFileExtension(contentType)) {
     return `File type ${contentType} not supported. Allowed types: ${allowedTypes.join(', ')}`;
   }
 
@@ -160,21 +143,13 @@ function validateFile(file: Buffer, contentType: string, folder: string, options
 }
 
 /**
- * Upload media file to Wasabi S3
+ * Upload media file to the active storage driver
  */
 export async function uploadMedia(options: MediaUploadOptions): Promise<MediaUploadResult> {
   try {
-    // Initialize AWS SDK
-    await initializeAwsSdk();
-    
-    // Validate environment variables
-    if (!BUCKET_NAME) {
-      return { success: false, error: 'Wasabi bucket not configured' };
-    }
-
-    // Check if S3 client is properly initialized
-    if (!s3Client || !s3Client.send) {
-      return { success: false, error: 'S3 client not properly initialized' };
+    const driver = getStorageDriver();
+    if (!driver.isConfigured()) {
+      return { success: false, error: 'Media storage not configured' };
     }
 
     // Validate file
@@ -184,16 +159,12 @@ export async function uploadMedia(options: MediaUploadOptions): Promise<MediaUpl
     }
 
     // Generate secure file name with server hierarchy and random UUID folder
-    const { key, folderUuid } = generateSecureFileNameWithUuid(options.fileName, options.folder, options.subFolder, options.serverName);
-
-    // Upload to Wasabi
-    const uploadCommand = new PutObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key,
-      Body: options.file,
-      ContentType: options.contentType,
-      CacheControl: 'public, max-age=31536000', // 1 year cache
-      Metadata: {
+    const { key, folderUuid } = generateSecureFileNameWithUuid(options.fileName, options.contentType, options.folder, options.subFolder, options.serverName);
+
+    await driver.upload(key, options.file, {
+      contentType: options.contentType,
+      cacheControl: 'public, max-age=31536000', // 1 year cache
+      metadata: {
         'original-name': options.fileName,
         'uploaded-at': new Date().toISOString(),
         'folder': options.folder,
@@ -203,20 +174,15 @@ export async function uploadMedia(options: MediaUploadOptions): Promise<MediaUpl
       }
     });
 
-    await s3Client.send(uploadCommand);
-
-    // Generate public URL using bucket name as domain (CDN)
-    const url = `https://${BUCKET_NAME}/${key}`;
-
     return {
       success: true,
-      url,
+      url: driver.getPublicUrl(key),
       key,
       folderUuid
     };
 
   } catch (error) {
-    console.error('Error uploading media to Wasabi:', error);
+    console.error(`Error uploading media to ${getStorageDriver().name} storage:`, error);
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown upload error'
@@ -225,28 +191,21 @@ export async function uploadMedia(options: MediaUploadOptions): Promise<MediaUpl
 }
 
 /**
- * Delete media file from Wasabi S3
+ * Delete media file from the active storage driver
  */
 export async function deleteMedia(key: string): Promise<boolean> {
   try {
-    // Initialize AWS SDK
-    await initializeAwsSdk();
-    
-    if (!BUCKET_NAME) {
-      console.warn('Wasabi bucket not configured');
+    const driver = getStorageDriver();
+    if (!driver.isConfigured()) {
+      console.warn('Media storage not configured');
       return false;
     }
 
-    const deleteCommand = new DeleteObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key
-    });
-
-    await s3Client.send(deleteCommand);
+    await driver.delete(key);
     return true;
 
   } catch (error) {
-    console.error('Error deleting media from Wasabi:', error);
+    console.error(`Error deleting media from ${getStorageDriver().name} storage:`, error);
     return false;
   }
 }
@@ -256,20 +215,11 @@ export async function deleteMedia(key: string): Promise<boolean> {
  */
 export async function generatePresignedUrl(key: string, expiresInSeconds: number = 3600): Promise<string | null> {
   try {
-    // Initialize AWS SDK
-    await initializeAwsSdk();
-    
-    if (!BUCKET_NAME) {
+    if (!isStorageConfigured()) {
       return null;
     }
 
-    const command = new GetObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key
-    });
-
-    const url = await getSignedUrl(s3Client, command, { expiresIn: expiresInSeconds });
-    return url;
+    return await getStorageDriver().presign(key, expiresInSeconds);
 
   } catch (error) {
     console.error('Error generating presigned URL:', error);
@@ -282,20 +232,11 @@ export async function generatePresignedUrl(key: string, expiresInSeconds: number
  */
 export async function mediaExists(key: string): Promise<boolean> {
   try {
-    // Initialize AWS SDK
-    await initializeAwsSdk();
-    
-    if (!BUCKET_NAME) {
+    if (!isStorageConfigured()) {
       return false;
     }
 
-    const command = new HeadObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key
-    });
-
-    await s3Client.send(command);
-    return true;
+    return (await getStorageDriver().head(key)) !== null;
 
   } catch (error) {
     return false;
@@ -307,24 +248,19 @@ export async function mediaExists(key: string): Promise<boolean> {
  */
 export async function getMediaInfo(key: string): Promise<{ size: number; contentType: string; lastModified: Date } | null> {
   try {
-    // Initialize AWS SDK
-    await initializeAwsSdk();
-    
-    if (!BUCKET_NAME) {
+    if (!isStorageConfigured()) {
       return null;
     }
 
-    const command = new HeadObjectCommand({
-      Bucket: BUCKET_NAME,
-      Key: key
-    });
+    const object = await getStorageDriver().head(key);
+    if (!object) {
+      return null;
+    }
 
-    const response = await s3Client.send(command);
-    
     return {
-      size: response.ContentLength || 0,
-      contentType: response.ContentType || '',
-      lastModified: response.LastModified || new Date()
+      size: object.size,
+      contentType: object.contentType || '',
+      lastModified: object.lastModified
     };
 
   } catch (error) {
@@ -370,10 +306,3 @@ export function extractFolderUuidFromKey(key: string): string | null {
 export function isSecureFileKey(key: string): boolean {
   return extractFolderUuidFromKey(key) !== null;
 }
-
-/**
- * Check if Wasabi is configured and available
- */
-export function isWasabiConfigured(): boolean {
-  return !!(process.env.WASABI_ACCESS_KEY && process.env.WASABI_SECRET_KEY && process.env.WASABI_BUCKET_NAME);
-}
\ No newline at end of file
@@ -0,0 +1,221 @@
+import { Connection, Document, Model, Schema, Types } from 'mongoose';
+import { lookupIpIntelligence, parseIpAddress, parseIpRange } from './ip-intelligence-service';
+
+/**
+ * Network bans.
+ *
+ * Punishments only apply to player accounts, so a banned player can come back on a
+ * fresh account from the same network. Network bans deny every connection from a
+ * single IP, a CIDR range or an autonomous system at login, except for the players
+ * on the ban's exemption list.
+ */
+
+export const NETWORK_BAN_KINDS = ['ip', 'cidr', 'asn'] as const;
+
+export type NetworkBanKind = typeof NETWORK_BAN_KINDS[number];
+
+// A player allowed to connect despite a network ban or connection policy
+export interface IPlayerExemption {
+  minecraftUuid: string;
+  username: string;
+  addedBy: string;
+  addedAt: Date;
+}
+
+export interface INetworkBan extends Document<Types.ObjectId> {
+  kind: NetworkBanKind;
+  value: string; // 1.2.3.4, 1.2.3.0/24 or AS12345
+  // Address range covered by ip and cidr bans, as fixed-width hex so they compare as strings
+  family: 4 | 6 | null;
+  start: string | null;
+  end: string | null;
+  asn: number | null;
+  reason: string;
+  expires: Date | null;
+  active: boolean;
+  exemptions: IPlayerExemption[];
+  hits: number;
+  lastHitAt: Date | null;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NetworkBanSettings {
+  // Shown to denied connections, supports {reason}, {expires} and {ban-id}
+  denyMessage: string;
+}
+
+export const PlayerExemptionSchema = new Schema<IPlayerExemption>({
+  minecraftUuid: { type: String, required: true },
+  username: { type: String, required: true },
+  addedBy: { type: String, required: true },
+  addedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const NetworkBanSchema = new Schema<INetworkBan>({
+  kind: { type: String, enum: NETWORK_BAN_KINDS, required: true },
+  value: { type: String, required: true },
+  family: { type: Number, enum: [4, 6, null], default: null },
+  start: { type: String, default: null },
+  end: { type: String, default: null },
+  asn: { type: Number, default: null },
+  reason: { type: String, default: '' },
+  expires: { type: Date, default: null },
+  active: { type: Boolean, default: true },
+  exemptions: { type: [PlayerExemptionSchema], default: [] },
+  hits: { type: Number, default: 0 },
+  lastHitAt: { type: Date, default: null },
+  createdBy: { type: String, required: true }
+}, { timestamps: true });
+
+NetworkBanSchema.index({ active: 1, kind: 1, family: 1, start: 1 });
+NetworkBanSchema.index({ active: 1, kind: 1, asn: 1 });
+
+export const DEFAULT_NETWORK_BAN_SETTINGS: NetworkBanSettings = {
+  denyMessage: 'Your network is banned from this server.\nReason: {reason}\nExpires: {expires}'
+};
+
+export function getNetworkBanModel(dbConnection: Connection): Model<INetworkBan> {
+  return (dbConnection.models.NetworkBan as Model<INetworkBan>) ||
+    dbConnection.model<INetworkBan>('NetworkBan', NetworkBanSchema);
+}
+
+export function isNetworkBanKind(kind: unknown): kind is NetworkBanKind {
+  return typeof kind === 'string' && (NETWORK_BAN_KINDS as readonly string[]).includes(kind);
+}
+
+function parseAsn(value: string | null | undefined): number | null {
+  const match = value?.trim().match(/^(?:AS)?(\d+)\b/i);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Parse what staff entered into the fields stored on a ban, or null when it is not a
+ * valid IP, CIDR range or AS number
+ */
+export function parseNetworkBanTarget(kind: NetworkBanKind, value: string) {
+  if (kind === 'asn') {
+    const asn = parseAsn(value);
+    return asn === null ? null : { value: `AS${asn}`, family: null, start: null, end: null, asn };
+  }
+
+  if (kind === 'ip') {
+    const ip = parseIpAddress(value.trim());
+    return ip ? { value: value.trim(), family: ip.family, start: ip.hex, end: ip.hex, asn: null } : null;
+  }
+
+  if (!value.includes('/')) return null;
+  const range = parseIpRange(value);
+  return range ? { value: value.trim(), ...range, asn: null } : null;
+}
+
+export async function getNetworkBanSettings(dbConnection: Connection): Promise<NetworkBanSettings> {
+  const settingsDoc = await dbConnection.model('Settings').findOne({ type: 'networkBans' });
+  return { ...DEFAULT_NETWORK_BAN_SETTINGS, ...(settingsDoc?.data || {}) };
+}
+
+/**
+ * Build an exemption for the player with a username or UUID, or null when no such player exists
+ */
+export async function createPlayerExemption(
+  dbConnection: Connection,
+  identifier: string,
+  addedBy: string
+): Promise<IPlayerExemption | null> {
+  const escaped = identifier.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const player = await dbConnection.model('Player').findOne({
+    $or: [
+      { minecraftUuid: identifier.trim() },
+      { 'usernames.username': { $regex: new RegExp(`^${escaped}$`, 'i') } }
+    ]
+  }).lean<any>();
+  if (!player) return null;
+
+  return {
+    minecraftUuid: player.minecraftUuid,
+    username: player.usernames?.[player.usernames.length - 1]?.username || player.minecraftUuid,
+    addedBy,
+    addedAt: new Date()
+  };
+}
+
+function activeBanFilter(now: Date) {
+  return { active: true, $or: [{ expires: null }, { expires: { $gt: now } }] };
+}
+
+/**
+ * The ban denying a player connecting from an IP, if any. IP and CIDR bans are checked
+ * before ASN bans, which use the network of the IP from `ip` when the caller already
+ * has it, or look it up.
+ */
+export async function findNetworkBan(
+  dbConnection: Connection,
+  minecraftUuid: string,
+  ipAddress: string,
+  ip?: { asn?: string | null } | null
+): Promise<INetworkBan | null> {
+  const NetworkBan = getNetworkBanModel(dbConnection);
+  const now = new Date();
+  const notExempt = { 'exemptions.minecraftUuid': { $ne: minecraftUuid } };
+
+  const parsed = parseIpAddress(ipAddress);
+  if (parsed) {
+    const rangeBan = await NetworkBan.findOne({
+      ...activeBanFilter(now),
+      ...notExempt,
+      kind: { $in: ['ip', 'cidr'] },
+      family: parsed.family,
+      start: { $lte: parsed.hex },
+      end: { $gte: parsed.hex }
+    });
+    if (rangeBan) return rangeBan;
+  }
+
+  if (!(await NetworkBan.exists({ ...activeBanFilter(now), kind: 'asn' }))) {
+    return null;
+  }
+
+  const asn = parseAsn(ip ? ip.asn : (await lookupIpIntelligence(dbConnection, ipAddress)).asn);
+  if (asn === null) return null;
+
+  return NetworkBan.findOne({ ...activeBanFilter(now), ...notExempt, kind: 'asn', asn });
+}
+
+/**
+ * Record that a ban denied a connection
+ */
+export async function recordNetworkBanHit(dbConnection: Connection, ban: INetworkBan): Promise<void> {
+  await getNetworkBanModel(dbConnection).updateOne(
+    { _id: ban._id },
+    { $inc: { hits: 1 }, $set: { lastHitAt: new Date() } }
+  );
+}
+
+/**
+ * The message shown to a connection denied by a ban
+ */
+export function formatNetworkBanMessage(settings: NetworkBanSettings, ban: INetworkBan): string {
+  return settings.denyMessage
+    .replace(/\{reason\}/g, ban.reason || 'No reason provided')
+    .replace(/\{expires\}/g, ban.expires ? ban.expires.toUTCString() : 'Never')
+    .replace(/\{ban-id\}/g, ban._id.toString());
+}
+
+export function formatNetworkBan(ban: INetworkBan) {
+  return {
+    id: ban._id.toString(),
+    kind: ban.kind,
+    value: ban.value,
+    reason: ban.reason,
+    expires: ban.expires,
+    active: ban.active,
+    expired: !!ban.expires && ban.expires.getTime() <= Date.now(),
+    exemptions: ban.exemptions,
+    hits: ban.hits,
+    lastHitAt: ban.lastHitAt,
+    createdBy: ban.createdBy,
+    createdAt: ban.createdAt,
+    updatedAt: ban.updatedAt
+  };
+}
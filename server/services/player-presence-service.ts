@@ -0,0 +1,273 @@
+import { Connection, Model, Schema } from 'mongoose';
+import { ensureModel } from '../utils/schema-utils';
+import { closePlayerSessions, openPlayerSessions } from './player-session-service';
+import { publishEvent } from './realtime-service';
+
+/**
+ * Per-server presence tracking for networks where several Minecraft servers
+ * (proxy + backends) report to the same panel. Each plugin instance identifies
+ * itself with a server name; players carry the set of servers they are
+ * currently connected to in `data.currentServers` and one session entry per
+ * server in `data.serverSessions`. Joins and leaves are also recorded in the session
+ * history.
+ */
+
+// A server that has not synced for this long is considered offline and its players are released
+export const SERVER_PRESENCE_TIMEOUT_MS = 30 * 1000;
+
+const expirySchedules = new WeakMap<Connection, NodeJS.Timeout>();
+
+export interface IServerHeartbeat {
+  serverName: string;
+  lastSync: Date;
+  onlinePlayerCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IServerSession {
+  server: string;
+  since: Date;
+}
+
+const ServerHeartbeatSchema = new Schema<IServerHeartbeat>({
+  serverName: { type: String, required: true, unique: true },
+  lastSync: { type: Date, required: true },
+  onlinePlayerCount: { type: Number, default: 0 }
+}, { timestamps: true });
+
+export function getServerHeartbeatModel(connection: Connection): Model<IServerHeartbeat> {
+  return ensureModel<IServerHeartbeat>(connection, 'ServerHeartbeat', ServerHeartbeatSchema);
+}
+
+/**
+ * Resolve the identity of the calling plugin instance.
+ * Falls back to the tenant name for single-server setups that do not send one.
+ */
+export function resolveSourceServer(requestServerName: unknown, fallback: string): string {
+  if (typeof requestServerName === 'string' && requestServerName.trim()) {
+    return requestServerName.trim();
+  }
+  return fallback;
+}
+
+/**
+ * Mark a player as connected to a server (login / server switch)
+ */
+export async function markPlayerOnServer(
+  connection: Connection,
+  minecraftUuid: string,
+  server: string,
+  now: Date = new Date(),
+  session: { username?: string; ipAddress?: string | null } = {}
+): Promise<void> {
+  const Player = connection.model('Player');
+
+  const joined = await Player.updateOne(
+    { minecraftUuid, 'data.currentServers': { $ne: server } },
+    {
+      $addToSet: { 'data.currentServers': server },
+      $push: { 'data.serverSessions': { server, since: now } }
+    }
+  );
+  if (joined.modifiedCount > 0) {
+    await openPlayerSessions(connection, server, [{ minecraftUuid, ...session }], now);
+  }
+
+  await Player.updateOne(
+    { minecraftUuid },
+    { $set: { 'data.isOnline': true, 'data.lastSeen': now, 'data.lastServer': server } }
+  );
+}
+
+/**
+ * Remove a player from a single server. The player only goes offline once
+ * they are no longer connected to any server.
+ */
+export async function markPlayerOffServer(
+  connection: Connection,
+  minecraftUuid: string,
+  server: string,
+  now: Date = new Date()
+): Promise<{ stillOnline: boolean; remainingServers: string[] }> {
+  const Player = connection.model('Player');
+
+  const updated = await Player.findOneAndUpdate(
+    { minecraftUuid },
+    {
+      $pull: {
+        'data.currentServers': server,
+        'data.serverSessions': { server }
+      },
+      $set: { 'data.lastSeen': now }
+    },
+    { new: true }
+  ).lean<any>();
+  await closePlayerSessions(connection, { minecraftUuid, server }, now);
+
+  const remainingServers: string[] = updated?.data?.currentServers || [];
+  const stillOnline = remainingServers.length > 0;
+
+  if (!stillOnline) {
+    await Player.updateOne({ minecraftUuid }, { $set: { 'data.isOnline': false } });
+  }
+
+  return { stillOnline, remainingServers };
+}
+
+/**
+ * Reconcile the online player list reported by one server.
+ * Only players attached to that server are touched, so concurrent syncs from
+ * other servers on the network do not overwrite each other.
+ */
+export async function syncServerPresence(
+  connection: Connection,
+  server: string,
+  onlineUuids: string[],
+  now: Date = new Date()
+): Promise<void> {
+  const Player = connection.model('Player');
+
+  // Players that left this server since its last sync
+  await closePlayerSessions(connection, { server, minecraftUuid: { $nin: onlineUuids } }, now);
+  await Player.updateMany(
+    { 'data.currentServers': server, minecraftUuid: { $nin: onlineUuids } },
+    {
+      $pull: {
+        'data.currentServers': server,
+        'data.serverSessions': { server }
+      },
+      $set: { 'data.lastSeen': now }
+    }
+  );
+
+  if (onlineUuids.length > 0) {
+    // Players that joined this server since its last sync
+    const joined = await Player.find(
+      { minecraftUuid: { $in: onlineUuids }, 'data.currentServers': { $ne: server } },
+      { minecraftUuid: 1 }
+    ).lean<Array<{ minecraftUuid: string }>>();
+    await openPlayerSessions(connection, server, joined.map(player => ({ minecraftUuid: player.minecraftUuid })), now);
+    // Only joins move the last server, players already here may have been seen on a backend since
+    await Player.updateMany(
+      { minecraftUuid: { $in: onlineUuids }, 'data.currentServers': { $ne: server } },
+      {
+        $addToSet: { 'data.currentServers': server },
+        $push: { 'data.serverSessions': { server, since: now } },
+        $set: { 'data.lastServer': server }
+      }
+    );
+
+    await Player.updateMany(
+      { minecraftUuid: { $in: onlineUuids } },
+      { $set: { 'data.isOnline': true, 'data.lastSeen': now } }
+    );
+  }
+
+  await markDisconnectedPlayersOffline(connection);
+
+  await getServerHeartbeatModel(connection).updateOne(
+    { serverName: server },
+    { $set: { lastSync: now, onlinePlayerCount: onlineUuids.length } },
+    { upsert: true }
+  );
+}
+
+/**
+ * Release every player held by servers that stopped syncing.
+ * Returns the names of the servers that were timed out.
+ */
+export async function expireStaleServers(
+  connection: Connection,
+  now: Date = new Date(),
+  timeoutMs: number = SERVER_PRESENCE_TIMEOUT_MS
+): Promise<string[]> {
+  const ServerHeartbeat = getServerHeartbeatModel(connection);
+  const staleServers = await ServerHeartbeat.find({
+    lastSync: { $lt: new Date(now.getTime() - timeoutMs) }
+  }).lean();
+
+  if (staleServers.length === 0) {
+    return [];
+  }
+
+  const staleNames = staleServers.map(s => s.serverName);
+  const Player = connection.model('Player');
+
+  // Sessions on a server that stopped syncing end at its last sync
+  for (const staleServer of staleServers) {
+    await closePlayerSessions(connection, { server: staleServer.serverName }, staleServer.lastSync);
+  }
+
+  await Player.updateMany(
+    { 'data.currentServers': { $in: staleNames } },
+    {
+      $pull: {
+        'data.currentServers': { $in: staleNames },
+        'data.serverSessions': { server: { $in: staleNames } }
+      }
+    }
+  );
+
+  await markDisconnectedPlayersOffline(connection);
+  await ServerHeartbeat.deleteMany({ serverName: { $in: staleNames } });
+
+  return staleNames;
+}
+
+/**
+ * Release players of stale servers for as long as the tenant's connection is open,
+ * so they go offline even when no server on the network syncs anymore
+ */
+export function schedulePresenceExpiry(connection: Connection, serverName: string): void {
+  if (expirySchedules.has(connection)) return;
+
+  const interval = setInterval(() => {
+    expireStaleServers(connection)
+      .then(timedOutServers => {
+        if (timedOutServers.length > 0) {
+          publishEvent(serverName, 'players', 'presence.updated', { server: null, timedOutServers });
+        }
+      })
+      .catch(error => {
+        console.error(`[Presence] Error expiring stale servers for ${connection.name}:`, error);
+      });
+  }, SERVER_PRESENCE_TIMEOUT_MS);
+  interval.unref();
+  expirySchedules.set(connection, interval);
+
+  connection.once('close', () => {
+    clearInterval(interval);
+    expirySchedules.delete(connection);
+  });
+}
+
+/**
+ * List servers that are currently syncing with the panel
+ */
+export async function getActiveServers(
+  connection: Connection,
+  now: Date = new Date(),
+  timeoutMs: number = SERVER_PRESENCE_TIMEOUT_MS
+): Promise<IServerHeartbeat[]> {
+  return getServerHeartbeatModel(connection).find({
+    lastSync: { $gte: new Date(now.getTime() - timeoutMs) }
+  }).sort({ serverName: 1 }).lean<IServerHeartbeat[]>();
+}
+
+/**
+ * Players flagged online without any current server are offline
+ */
+async function markDisconnectedPlayersOffline(connection: Connection): Promise<void> {
+  const Player = connection.model('Player');
+  await Player.updateMany(
+    {
+      'data.isOnline': true,
+      $or: [
+        { 'data.currentServers': { $size: 0 } },
+        { 'data.currentServers': { $exists: false } }
+      ]
+    },
+    { $set: { 'data.isOnline': false } }
+  );
+}
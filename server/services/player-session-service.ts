@@ -0,0 +1,190 @@
+import { Connection, FilterQuery, Model, Schema } from 'mongoose';
+import { ensureModel } from '../utils/schema-utils';
+import { getIpLastLogin } from './login-history-service';
+
+/**
+ * Session history.
+ *
+ * Every stay of a player on one server is stored as a session with its start, end,
+ * username and IP. Sessions are opened and closed by the presence tracking, so logins,
+ * disconnects, periodic syncs and servers that stop syncing are all covered. Open
+ * sessions have no end.
+ */
+
+export interface IPlayerSession {
+  minecraftUuid: string;
+  username: string;
+  server: string;
+  ipAddress: string | null;
+  start: Date;
+  end: Date | null;
+}
+
+export interface PlayerSessionDetails {
+  minecraftUuid: string;
+  username?: string;
+  ipAddress?: string | null;
+}
+
+const PlayerSessionSchema = new Schema<IPlayerSession>({
+  minecraftUuid: { type: String, required: true },
+  username: { type: String, required: true },
+  server: { type: String, required: true },
+  ipAddress: { type: String, default: null },
+  start: { type: Date, required: true },
+  end: { type: Date, default: null }
+});
+
+PlayerSessionSchema.index({ minecraftUuid: 1, start: -1 });
+PlayerSessionSchema.index({ server: 1, start: 1, end: 1 });
+PlayerSessionSchema.index({ end: 1, server: 1, minecraftUuid: 1 });
+
+// Longest range that can be queried at once
+export const MAX_SESSION_RANGE_MS = 90 * 24 * 60 * 60 * 1000;
+
+export function getPlayerSessionModel(connection: Connection): Model<IPlayerSession> {
+  return ensureModel<IPlayerSession>(connection, 'PlayerSession', PlayerSessionSchema);
+}
+
+/**
+ * Start sessions for players that joined a server. The username and IP default to the
+ * player's latest name and most recently used IP.
+ */
+export async function openPlayerSessions(
+  connection: Connection,
+  server: string,
+  players: PlayerSessionDetails[],
+  start: Date = new Date()
+): Promise<void> {
+  if (players.length === 0) return;
+
+  const uuids = players.map(player => player.minecraftUuid);
+  const missingDetails = players.filter(player => !player.username || player.ipAddress === undefined).map(player => player.minecraftUuid);
+  const storedPlayers = missingDetails.length > 0
+    ? await connection.model('Player')
+      .find({ minecraftUuid: { $in: missingDetails } }, { minecraftUuid: 1, usernames: 1, ipList: 1 })
+      .lean<any[]>()
+    : [];
+  const storedByUuid = new Map(storedPlayers.map(player => [player.minecraftUuid, player]));
+
+  const PlayerSession = getPlayerSessionModel(connection);
+
+  // A session left open by a missed disconnect ends where the new one starts
+  await closePlayerSessions(connection, { server, minecraftUuid: { $in: uuids } }, start);
+
+  await PlayerSession.insertMany(players.map(player => {
+    const stored = storedByUuid.get(player.minecraftUuid);
+    return {
+      minecraftUuid: player.minecraftUuid,
+      username: player.username || stored?.usernames?.[stored.usernames.length - 1]?.username || player.minecraftUuid,
+      server,
+      ipAddress: player.ipAddress !== undefined ? player.ipAddress : latestIpAddress(stored),
+      start,
+      end: null
+    };
+  }));
+}
+
+/**
+ * End the open sessions matching a filter
+ */
+export async function closePlayerSessions(
+  connection: Connection,
+  filter: FilterQuery<IPlayerSession>,
+  end: Date = new Date()
+): Promise<void> {
+  await getPlayerSessionModel(connection).updateMany({ ...filter, end: null }, { $set: { end } });
+}
+
+function latestIpAddress(player: any): string | null {
+  let latest: { ipAddress: string; lastLogin: number } | null = null;
+  for (const ip of player?.ipList || []) {
+    const lastLogin = getIpLastLogin(ip)?.getTime() || 0;
+    if (!latest || lastLogin > latest.lastLogin) {
+      latest = { ipAddress: ip.ipAddress, lastLogin };
+    }
+  }
+  return latest?.ipAddress || null;
+}
+
+/**
+ * Sessions overlapping a time range, optionally on a single server
+ */
+export async function findSessionsInRange(
+  connection: Connection,
+  from: Date,
+  to: Date,
+  filter: FilterQuery<IPlayerSession> = {}
+): Promise<IPlayerSession[]> {
+  return getPlayerSessionModel(connection)
+    .find({
+      ...filter,
+      start: { $lt: to },
+      $or: [{ end: null }, { end: { $gt: from } }]
+    })
+    .sort({ start: 1 })
+    .lean<IPlayerSession[]>();
+}
+
+/**
+ * Who was online during a time range, one entry per player with their sessions
+ */
+export async function findOnlinePlayers(
+  connection: Connection,
+  from: Date,
+  to: Date,
+  server?: string
+) {
+  const sessions = await findSessionsInRange(connection, from, to, server ? { server } : {});
+
+  const players = new Map<string, { minecraftUuid: string; username: string; servers: string[]; onlineMs: number; sessions: ReturnType<typeof formatPlayerSession>[] }>();
+  for (const session of sessions) {
+    const player = players.get(session.minecraftUuid) || {
+      minecraftUuid: session.minecraftUuid,
+      username: session.username,
+      servers: [],
+      onlineMs: 0,
+      sessions: []
+    };
+    if (!player.servers.includes(session.server)) {
+      player.servers.push(session.server);
+    }
+    player.username = session.username;
+    player.onlineMs += overlapMs(session, from, to);
+    player.sessions.push(formatPlayerSession(session));
+    players.set(session.minecraftUuid, player);
+  }
+
+  return Array.from(players.values()).sort((a, b) => a.username.localeCompare(b.username));
+}
+
+/**
+ * How long a session was open within a time range
+ */
+export function overlapMs(session: IPlayerSession, from: Date, to: Date): number {
+  const start = Math.max(new Date(session.start).getTime(), from.getTime());
+  const end = Math.min(session.end ? new Date(session.end).getTime() : Date.now(), to.getTime());
+  return Math.max(0, end - start);
+}
+
+/**
+ * Servers that players have had sessions on
+ */
+export async function listSessionServers(connection: Connection): Promise<string[]> {
+  const servers = await getPlayerSessionModel(connection).distinct('server');
+  return (servers as string[]).sort();
+}
+
+export function formatPlayerSession(session: IPlayerSession & { _id?: any }) {
+  const end = session.end ? new Date(session.end) : null;
+  return {
+    id: session._id?.toString(),
+    minecraftUuid: session.minecraftUuid,
+    username: session.username,
+    server: session.server,
+    ipAddress: session.ipAddress,
+    start: session.start,
+    end,
+    durationMs: (end ? end.getTime() : Date.now()) - new Date(session.start).getTime()
+  };
+}
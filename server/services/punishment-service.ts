@@ -1,6 +1,12 @@
+import { Request } from 'express';
 import { Connection } from 'mongoose';
 import { v4 as uuidv4 } from 'uuid';
 import { calculatePlayerStatus } from '../utils/player-status-calculator';
+import { getApiKeyAuditMetadata } from './api-key-service';
+import { triggerWebhookEvent } from './webhook-service';
+import { recordAuditEvent } from './audit-service';
+import { detectAccountLinks, getAltDetectionSettings, getLinkedAccountUuids } from './account-link-service';
+import { createPunishmentRecord, findPlayerPunishments, getPunishmentModel } from './punishment-store-service';
 
 interface PunishmentType {
   id: number;
@@ -48,6 +54,7 @@ export class PunishmentService {
    * @param ticketId The ticket ID this punishment is associated with
    * @param issuerName The name of the issuer (defaults to AI Moderation System)
    * @param altBlocking Whether this punishment should block alt accounts (optional)
+   * @param req The staff request applying the punishment, omitted for automated moderation
    */
   async applyPunishment(
     playerIdentifier: string,
@@ -56,7 +63,8 @@ export class PunishmentService {
     reason: string,
     ticketId: string,
     issuerName: string = 'AI Moderation System',
-    altBlocking: boolean = false
+    altBlocking: boolean = false,
+    req?: Request
   ): Promise<{ success: boolean; punishmentId?: string; error?: string }> {
     try {
       console.log(`[Punishment Service] Attempting to apply punishment - Player: ${playerIdentifier}, Type: ${punishmentTypeId}, Severity: ${severity}, Issuer: ${issuerName}`);
@@ -133,9 +141,7 @@ export class PunishmentService {
         data: dataMap
       };
 
-      // Add punishment to player
-      player.punishments.push(newPunishment);
-      await player.save();
+      await createPunishmentRecord(this.dbConnection, player.minecraftUuid, newPunishment);
 
       // Create system log
       await this.createSystemLog(
@@ -144,15 +150,51 @@ export class PunishmentService {
         issuerName === 'AI Moderation System' ? 'ai-moderation' : 'player-api'
       );
 
+      triggerWebhookEvent(this.dbConnection, undefined, 'punishment.issued', {
+        punishmentId,
+        playerUuid: player.minecraftUuid,
+        playerName: player.usernames?.[player.usernames.length - 1]?.username,
+        type: punishmentData.typeName,
+        severity,
+        issuerName,
+        reason,
+        duration: punishmentData.duration || undefined,
+        ticketId
+      });
+
+      const playerName = player.usernames?.[player.usernames.length - 1]?.username;
+      await recordAuditEvent(this.dbConnection, req?.serverName, {
+        action: 'punishment.created',
+        summary: `${punishmentData.typeName} punishment ${punishmentId} issued to ${playerName || playerIdentifier} by ${issuerName}`,
+        target: { type: 'punishment', id: punishmentId, name: playerName },
+        after: newPunishment,
+        metadata: {
+          playerUuid: player.minecraftUuid,
+          playerName,
+          issuerName,
+          staffUsername: req?.session?.username,
+          typeOrdinal: punishmentTypeId,
+          typeName: punishmentData.typeName,
+          severity,
+          reason,
+          duration: punishmentData.duration || undefined,
+          ticketId
+        },
+        actor: req ? undefined : { type: 'ai', id: null, name: issuerName }
+      }, req);
+
       console.log(`[Punishment Service] Successfully applied punishment ${punishmentId} to ${playerIdentifier}`);
       
       // Apply alt-blocking if enabled and trigger account linking
       if (altBlocking) {
         // First, trigger account linking to ensure we have the most up-to-date linked accounts
-        const playerIPs = player.ipList?.map((ip: any) => ip.ipAddress) || [];
-        if (playerIPs.length > 0) {
+        if (player.ipList?.length > 0) {
           console.log(`[Alt-Blocking] Triggering account linking for alt-blocking punishment ${punishmentId}`);
-          await this.findAndLinkAccountsForAltBlocking(playerIPs, player.minecraftUuid);
+          try {
+            await detectAccountLinks(this.dbConnection, req?.serverName, player.minecraftUuid);
+          } catch (error) {
+            console.error(`[Alt-Blocking Account Linking] Error finding linked accounts:`, error);
+          }
         }
         
         // Then apply alt-blocking punishments to linked accounts
@@ -238,7 +280,7 @@ export class PunishmentService {
         
         // Calculate player status based on existing punishments
         const playerStatus = calculatePlayerStatus(
-          player.punishments || [],
+          await findPlayerPunishments(this.dbConnection, player.minecraftUuid),
           punishmentTypes,
           statusThresholds
         );
@@ -339,144 +381,6 @@ export class PunishmentService {
     return durationConfig.value * multiplier;
   }
 
-  /**
-   * Find and link accounts for alt-blocking punishment
-   * @param ipAddresses Array of IP addresses to check for linking
-   * @param currentPlayerUuid UUID of the current player
-   */
-  private async findAndLinkAccountsForAltBlocking(
-    ipAddresses: string[],
-    currentPlayerUuid: string
-  ): Promise<void> {
-    try {
-      const Player = this.dbConnection.model('Player');
-      
-      if (!ipAddresses || ipAddresses.length === 0) {
-        return;
-      }
-
-      console.log(`[Alt-Blocking Account Linking] Checking for linked accounts with IPs: ${ipAddresses.join(', ')}`);
-      
-      // Find all players that have used any of these IP addresses
-      const potentialLinkedPlayers = await Player.find({
-        minecraftUuid: { $ne: currentPlayerUuid }, // Exclude current player
-        'ipList.ipAddress': { $in: ipAddresses }
-      }).lean();
-
-      const currentPlayer = await Player.findOne({ minecraftUuid: currentPlayerUuid });
-      if (!currentPlayer) {
-        console.error(`[Alt-Blocking Account Linking] Current player ${currentPlayerUuid} not found`);
-        return;
-      }
-
-      const linkedAccounts: string[] = [];
-
-      for (const player of potentialLinkedPlayers) {
-        let shouldLink = false;
-        const matchingIPs: string[] = [];
-
-        // Check each IP address for linking criteria
-        for (const ipAddress of ipAddresses) {
-          const playerIpEntry = player.ipList?.find((ip: any) => ip.ipAddress === ipAddress);
-          const currentPlayerIpEntry = currentPlayer.ipList?.find((ip: any) => ip.ipAddress === ipAddress);
-          
-          if (playerIpEntry && currentPlayerIpEntry) {
-            // Both players have used this IP
-            const isProxy = playerIpEntry.proxy || currentPlayerIpEntry.proxy;
-            
-            if (!isProxy) {
-              // Non-proxy IP - always link
-              shouldLink = true;
-              matchingIPs.push(ipAddress);
-            } else {
-              // Proxy IP - only link if used within 6 hours of each other
-              const playerLastLogin = playerIpEntry.logins && playerIpEntry.logins.length > 0 
-                ? new Date(Math.max(...playerIpEntry.logins.map((d: any) => new Date(d).getTime())))
-                : playerIpEntry.firstLogin;
-              
-              const currentPlayerLastLogin = currentPlayerIpEntry.logins && currentPlayerIpEntry.logins.length > 0
-                ? new Date(Math.max(...currentPlayerIpEntry.logins.map((d: any) => new Date(d).getTime())))
-                : currentPlayerIpEntry.firstLogin;
-
-              if (playerLastLogin && currentPlayerLastLogin) {
-                const timeDiff = Math.abs(playerLastLogin.getTime() - currentPlayerLastLogin.getTime());
-                const sixHours = 6 * 60 * 60 * 1000;
-                
-                if (timeDiff <= sixHours) {
-                  shouldLink = true;
-                  matchingIPs.push(`${ipAddress} (proxy, within 6h)`);
-                }
-              }
-            }
-          }
-        }
-
-        if (shouldLink) {
-          linkedAccounts.push(player.minecraftUuid);
-          
-          // Update both players' linked accounts
-          await this.updatePlayerLinkedAccounts(currentPlayer.minecraftUuid, player.minecraftUuid);
-          await this.updatePlayerLinkedAccounts(player.minecraftUuid, currentPlayer.minecraftUuid);
-          
-          console.log(`[Alt-Blocking Account Linking] Linked ${currentPlayer.minecraftUuid} with ${player.minecraftUuid} via IPs: ${matchingIPs.join(', ')}`);
-          
-          // Create system log
-          await this.createSystemLog(
-            `Alt-blocking account linking: ${currentPlayer.usernames[0]?.username || 'Unknown'} (${currentPlayer.minecraftUuid}) linked to ${player.usernames[0]?.username || 'Unknown'} (${player.minecraftUuid}) via shared IPs: ${matchingIPs.join(', ')}`,
-            'info',
-            'alt-blocking'
-          );
-        }
-      }
-
-      if (linkedAccounts.length > 0) {
-        console.log(`[Alt-Blocking Account Linking] Found ${linkedAccounts.length} linked accounts for ${currentPlayerUuid}`);
-      } else {
-        console.log(`[Alt-Blocking Account Linking] No linked accounts found for ${currentPlayerUuid}`);
-      }
-    } catch (error) {
-      console.error(`[Alt-Blocking Account Linking] Error finding linked accounts:`, error);
-    }
-  }
-  
-  /**
-   * Update a player's linked accounts list
-   * @param playerUuid Player to update
-   * @param linkedUuid Account to link
-   */
-  private async updatePlayerLinkedAccounts(
-    playerUuid: string,
-    linkedUuid: string
-  ): Promise<void> {
-    try {
-      const Player = this.dbConnection.model('Player');
-      
-      const player = await Player.findOne({ minecraftUuid: playerUuid });
-      if (!player) {
-        return;
-      }
-
-      // Initialize linkedAccounts if it doesn't exist
-      if (!player.data) {
-        player.data = new Map<string, any>();
-      }
-      
-      const existingLinkedAccounts = player.data.get('linkedAccounts') || [];
-      
-      // Only add if not already linked
-      if (!existingLinkedAccounts.includes(linkedUuid)) {
-        existingLinkedAccounts.push(linkedUuid);
-        player.data.set('linkedAccounts', existingLinkedAccounts);
-        player.data.set('lastLinkedAccountUpdate', new Date());
-        await player.save();
-        
-        console.log(`[Alt-Blocking Account Linking] Updated ${playerUuid} linked accounts: added ${linkedUuid}`);
-      }
-    } catch (error) {
-      console.error(`[Alt-Blocking Account Linking] Error updating player linked accounts:`, error);
-    }
-  }
-
   /**
    * Apply alt-blocking punishments to linked accounts
    * @param originalPlayer The player who received the original punishment
@@ -493,8 +397,9 @@ export class PunishmentService {
     try {
       const Player = this.dbConnection.model('Player');
       
-      // Get linked accounts from player data
-      const linkedAccountUuids = originalPlayer.data?.get('linkedAccounts') || [];
+      // Only accounts linked with enough confidence are banned automatically
+      const { linkedBanMinConfidence } = await getAltDetectionSettings(this.dbConnection);
+      const linkedAccountUuids = await getLinkedAccountUuids(this.dbConnection, originalPlayer.minecraftUuid, linkedBanMinConfidence);
       
       if (linkedAccountUuids.length === 0) {
         console.log(`[Alt-Blocking] No linked accounts found for ${originalPlayer.minecraftUuid}`);
@@ -538,9 +443,7 @@ export class PunishmentService {
             data: altBlockingDataMap
           };
           
-          // Add punishment to linked player
-          linkedPlayer.punishments.push(altBlockingPunishment);
-          await linkedPlayer.save();
+          await createPunishmentRecord(this.dbConnection, linkedPlayer.minecraftUuid, altBlockingPunishment);
           
           // Create system log
           await this.createSystemLog(
@@ -566,20 +469,22 @@ export class PunishmentService {
    * @param originalPlayer The player who received the original alt-blocking punishment
    * @param originalPunishmentId The ID of the original alt-blocking punishment
    * @param issuerName The name of the issuer
+   * @returns The number of linked bans issued
    */
   private async issueLinkedBansForAltBlocking(
     originalPlayer: any,
     originalPunishmentId: string,
     issuerName: string
-  ): Promise<void> {
+  ): Promise<number> {
+    let issued = 0;
     try {
       const Player = this.dbConnection.model('Player');
       
       // Get the original alt-blocking punishment to determine expiry
-      const originalPunishment = originalPlayer.punishments.find((p: any) => p.id === originalPunishmentId);
+      const originalPunishment = await getPunishmentModel(this.dbConnection).findOne({ minecraftUuid: originalPlayer.minecraftUuid, id: originalPunishmentId });
       if (!originalPunishment) {
         console.error(`[Linked Bans] Original punishment ${originalPunishmentId} not found`);
-        return;
+        return issued;
       }
       
       // Calculate expiry based on original punishment
@@ -604,12 +509,13 @@ export class PunishmentService {
         linkedBanExpiry = null;
       }
       
-      // Get linked accounts from player data
-      const linkedAccountUuids = originalPlayer.data?.get('linkedAccounts') || [];
+      // Only accounts linked with enough confidence are banned automatically
+      const { linkedBanMinConfidence } = await getAltDetectionSettings(this.dbConnection);
+      const linkedAccountUuids = await getLinkedAccountUuids(this.dbConnection, originalPlayer.minecraftUuid, linkedBanMinConfidence);
       
       if (linkedAccountUuids.length === 0) {
         console.log(`[Linked Bans] No linked accounts found for ${originalPlayer.minecraftUuid}`);
-        return;
+        return issued;
       }
       
       console.log(`[Linked Bans] Issuing linked bans to ${linkedAccountUuids.length} accounts based on alt-blocking punishment ${originalPunishmentId}`);
@@ -624,9 +530,9 @@ export class PunishmentService {
           }
           
           // Check if player already has a linked ban for this source punishment
-          const existingLinkedBan = linkedPlayer.punishments.find((punishment: any) => {
-            const linkedBanId = punishment.data?.get ? punishment.data.get('linkedBanId') : punishment.data?.linkedBanId;
-            return linkedBanId === originalPunishmentId;
+          const existingLinkedBan = await getPunishmentModel(this.dbConnection).exists({
+            minecraftUuid: linkedUuid,
+            'data.linkedBanId': originalPunishmentId
           });
 
           if (existingLinkedBan) {
@@ -666,9 +572,7 @@ export class PunishmentService {
             data: linkedBanDataMap
           };
           
-          // Add linked ban to linked player
-          linkedPlayer.punishments.push(linkedBanPunishment);
-          await linkedPlayer.save();
+          await createPunishmentRecord(this.dbConnection, linkedPlayer.minecraftUuid, linkedBanPunishment);
           
           // Create system log
           await this.createSystemLog(
@@ -677,6 +581,7 @@ export class PunishmentService {
             'linked-ban'
           );
           
+          issued += 1;
           console.log(`[Linked Bans] Issued linked ban ${linkedBanId} to linked account ${linkedUuid}`);
         } catch (error) {
           console.error(`[Linked Bans] Error issuing linked ban to ${linkedUuid}:`, error);
@@ -687,8 +592,48 @@ export class PunishmentService {
     } catch (error) {
       console.error(`[Linked Bans] Error issuing linked bans for alt-blocking:`, error);
     }
+    return issued;
   }
   
+  /**
+   * Issue the linked bans owed for every active alt-blocking punishment of a player,
+   * e.g. after new accounts were linked to it. Accounts that already have a linked
+   * ban for a punishment are skipped.
+   * @param playerUuid The player whose alt-blocking punishments should be enforced
+   * @returns The number of linked bans issued
+   */
+  async issueLinkedBansForPlayer(playerUuid: string): Promise<number> {
+    const Player = this.dbConnection.model('Player');
+    const player = await Player.findOne({ minecraftUuid: playerUuid });
+    if (!player) {
+      return 0;
+    }
+
+    let issued = 0;
+    for (const punishment of await getPunishmentModel(this.dbConnection).find({ minecraftUuid: playerUuid })) {
+      const altBlocking = punishment.data?.get ? punishment.data.get('altBlocking') : punishment.data?.altBlocking;
+      if (altBlocking !== true || !this.isPunishmentInEffect(punishment)) continue;
+
+      issued += await this.issueLinkedBansForAltBlocking(player, punishment.id, punishment.issuerName);
+    }
+    return issued;
+  }
+
+  /**
+   * Whether a punishment has not been pardoned and has not expired
+   */
+  private isPunishmentInEffect(punishment: any): boolean {
+    const pardoned = (punishment.modifications || []).some((modification: any) =>
+      modification.type === 'MANUAL_PARDON' || modification.type === 'AUTO_PARDON'
+    );
+    if (pardoned) {
+      return false;
+    }
+
+    const expiry = this.calculatePunishmentExpiration(punishment);
+    return expiry === null || expiry > Date.now();
+  }
+
   /**
    * Calculate punishment expiration timestamp
    * @param punishment The punishment to calculate expiration for
@@ -729,7 +674,8 @@ export class PunishmentService {
         created: new Date(),
         description,
         level,
-        source
+        source,
+        metadata: getApiKeyAuditMetadata()
       });
       
       await logEntry.save();
@@ -0,0 +1,211 @@
+import { Connection, Document, FilterQuery, Model, Schema } from 'mongoose';
+import { ensureModel } from '../utils/schema-utils';
+
+/**
+ * Punishment storage.
+ *
+ * Punishments, with their modifications, notes and evidence, are stored in their own
+ * collection keyed by the player's UUID instead of an array on the player document,
+ * so they can be indexed and updated without loading and saving whole players.
+ * Tenants that still have embedded punishments are migrated the first time their
+ * database is connected.
+ */
+
+export interface IPunishmentRecord {
+  id: string;
+  minecraftUuid: string;
+  issuerName: string;
+  issued: Date;
+  started?: Date;
+  type_ordinal: number;
+  modifications: any[];
+  notes: any[];
+  evidence: any[];
+  attachedTicketIds: string[];
+  // A Map on documents, a plain object on lean results
+  data: any;
+  // Set when a punishment is lifted automatically after a username or skin change
+  unbanned?: Date;
+}
+
+export type PunishmentDocument = IPunishmentRecord & Document;
+
+const PunishmentModificationSchema = new Schema({
+  type: { type: String, required: true },
+  issuerName: { type: String, required: true },
+  issued: { type: Date, default: Date.now },
+  effectiveDuration: { type: Number },
+  reason: { type: String },
+  appealTicketId: { type: String },
+  data: { type: Map, of: Schema.Types.Mixed, default: () => new Map() }
+}, { _id: false, strict: false });
+
+const PunishmentSchema = new Schema<IPunishmentRecord>({
+  id: { type: String, required: true },
+  minecraftUuid: { type: String, required: true },
+  issuerName: { type: String, required: true },
+  issued: { type: Date, required: true },
+  started: { type: Date, default: null },
+  type_ordinal: { type: Number, required: true },
+  modifications: [PunishmentModificationSchema],
+  notes: [Schema.Types.Mixed],
+  evidence: [Schema.Types.Mixed],
+  attachedTicketIds: { type: [String], default: [] },
+  data: { type: Map, of: Schema.Types.Mixed, default: () => new Map() },
+  unbanned: { type: Date }
+}, { minimize: false });
+
+PunishmentSchema.index({ id: 1 });
+PunishmentSchema.index({ minecraftUuid: 1, issued: 1 });
+PunishmentSchema.index({ issued: -1 });
+PunishmentSchema.index({ started: 1, type_ordinal: 1 });
+PunishmentSchema.index({ 'modifications.issued': 1 });
+PunishmentSchema.index({ issuerName: 1, issued: -1 });
+PunishmentSchema.index({ attachedTicketIds: 1 });
+
+const MIGRATION_BATCH_SIZE = 200;
+const MIGRATION_SETTINGS_TYPE = 'punishmentStorage';
+
+const migrations = new WeakMap<Connection, Promise<void>>();
+
+export function getPunishmentModel(connection: Connection): Model<IPunishmentRecord> {
+  return ensureModel<IPunishmentRecord>(connection, 'Punishment', PunishmentSchema);
+}
+
+/**
+ * Punishments of a player, oldest first
+ */
+export async function findPlayerPunishments(connection: Connection, minecraftUuid: string): Promise<IPunishmentRecord[]> {
+  return getPunishmentModel(connection)
+    .find({ minecraftUuid })
+    .sort({ issued: 1 })
+    .lean<IPunishmentRecord[]>();
+}
+
+/**
+ * Punishments of several players, oldest first, grouped by player UUID
+ */
+export async function findPunishmentsByPlayer(
+  connection: Connection,
+  minecraftUuids: string[],
+  filter: FilterQuery<IPunishmentRecord> = {}
+): Promise<Map<string, IPunishmentRecord[]>> {
+  const byPlayer = new Map<string, IPunishmentRecord[]>(minecraftUuids.map(uuid => [uuid, []]));
+  if (minecraftUuids.length === 0) return byPlayer;
+
+  const punishments = await getPunishmentModel(connection)
+    .find({ ...filter, minecraftUuid: { $in: minecraftUuids } })
+    .sort({ issued: 1 })
+    .lean<IPunishmentRecord[]>();
+  for (const punishment of punishments) {
+    byPlayer.get(punishment.minecraftUuid)?.push(punishment);
+  }
+  return byPlayer;
+}
+
+/**
+ * Plain player objects with their punishments, for responses that still include them
+ */
+export async function withPunishments<T extends { minecraftUuid: string }>(
+  connection: Connection,
+  players: T[]
+): Promise<Array<T & { punishments: IPunishmentRecord[] }>> {
+  const byPlayer = await findPunishmentsByPlayer(connection, players.map(player => player.minecraftUuid));
+  return players.map(player => {
+    const plain = typeof (player as any).toObject === 'function' ? (player as any).toObject() : player;
+    return { ...plain, punishments: byPlayer.get(player.minecraftUuid) || [] };
+  });
+}
+
+/**
+ * A punishment by its ID
+ */
+export async function findPunishmentById(connection: Connection, punishmentId: string) {
+  return getPunishmentModel(connection).findOne({ id: punishmentId });
+}
+
+/**
+ * Store a new punishment for a player
+ */
+export async function createPunishmentRecord(
+  connection: Connection,
+  minecraftUuid: string,
+  punishment: Omit<IPunishmentRecord, 'minecraftUuid'>
+) {
+  return getPunishmentModel(connection).create({ ...punishment, minecraftUuid });
+}
+
+/**
+ * Move punishments embedded in player documents into the punishment collection.
+ * Runs once per connection, every player is cleared right after their punishments
+ * are copied so an interrupted migration continues where it stopped.
+ */
+export function migrateEmbeddedPunishments(connection: Connection): Promise<void> {
+  let migration = migrations.get(connection);
+  if (!migration) {
+    migration = runMigration(connection).catch(error => {
+      migrations.delete(connection);
+      throw error;
+    });
+    migrations.set(connection, migration);
+  }
+  return migration;
+}
+
+async function runMigration(connection: Connection): Promise<void> {
+  const Settings = connection.model('Settings');
+  if (await Settings.exists({ type: MIGRATION_SETTINGS_TYPE, 'data.migratedAt': { $ne: null } })) {
+    return;
+  }
+
+  const Player = connection.model('Player');
+  const Punishment = getPunishmentModel(connection);
+  let migrated = 0;
+  let skipped = 0;
+
+  for (;;) {
+    const players = await Player.find(
+      { 'punishments.0': { $exists: true } },
+      { minecraftUuid: 1, punishments: 1 }
+    ).limit(MIGRATION_BATCH_SIZE).lean<any[]>();
+    if (players.length === 0) break;
+
+    const operations = players.flatMap(player => (player.punishments || []).flatMap((punishment: any) => {
+      const { _id, ...fields } = punishment;
+      // Very old punishments may have no ID, their subdocument ID keeps them apart
+      const id = punishment.id || (_id ? String(_id) : null);
+      if (!id) {
+        skipped += 1;
+        return [];
+      }
+      return [{
+        updateOne: {
+          filter: { minecraftUuid: player.minecraftUuid, id },
+          update: { $setOnInsert: { ...fields, id, minecraftUuid: player.minecraftUuid } },
+          upsert: true
+        }
+      }];
+    }));
+    if (operations.length > 0) {
+      await Punishment.bulkWrite(operations, { ordered: false });
+    }
+
+    await Player.updateMany(
+      { _id: { $in: players.map(player => player._id) } },
+      { $set: { punishments: [] } }
+    );
+    migrated += operations.length;
+  }
+
+  await Settings.updateOne(
+    { type: MIGRATION_SETTINGS_TYPE },
+    { $set: { 'data.migratedAt': new Date(), 'data.migratedPunishments': migrated, 'data.skippedPunishments': skipped } },
+    { upsert: true }
+  );
+  if (migrated > 0) {
+    console.log(`[Punishments] Moved ${migrated} embedded punishments to the punishment collection for ${connection.name}`);
+  }
+  if (skipped > 0) {
+    console.warn(`[Punishments] Skipped ${skipped} embedded punishments without an ID for ${connection.name}`);
+  }
+}
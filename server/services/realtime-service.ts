@@ -0,0 +1,266 @@
+import { type Express, type Request, type Response, type NextFunction } from 'express';
+import { type IncomingMessage, type Server, ServerResponse } from 'http';
+import { type Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { subdomainDbMiddleware } from '../middleware/subdomainDbMiddleware';
+import { tenantSessionMiddleware } from '../middleware/session-middleware';
+import { getUserPermissions } from '../middleware/permission-middleware';
+
+/**
+ * Tenant-scoped real-time event bus for the panel.
+ *
+ * Connections are authenticated with the panel session cookie during the
+ * WebSocket upgrade and are bound to the tenant (req.serverName) they connected
+ * through. Clients subscribe to channels; each channel requires a permission and
+ * events are only delivered to subscribers of the same tenant.
+ */
+
+export type RealtimeChannel = 'tickets' | 'punishments' | 'players' | 'audit';
+
+// Permission required to subscribe to a channel (null = any authenticated staff member,
+// like the panel's player and punishment reads)
+const CHANNEL_PERMISSIONS: Record<RealtimeChannel, string | null> = {
+  tickets: 'ticket.view.all',
+  punishments: null,
+  players: null,
+  audit: 'admin.analytics.view'
+};
+
+// Events only delivered to subscribers with a permission, matching the reads they come from
+const EVENT_PERMISSIONS: Record<string, string> = {
+  'connection.denied': 'admin.settings.view',
+  'connection.alerted': 'admin.settings.view',
+  'alt_backfill.progress': 'admin.settings.view'
+};
+
+const WEBSOCKET_PATH = '/ws';
+const AUTH_TIMEOUT_MS = 10 * 1000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+interface RealtimeClient {
+  socket: WebSocket;
+  serverName: string;
+  username: string;
+  permissions: string[];
+  channels: Set<RealtimeChannel>;
+  isAlive: boolean;
+}
+
+// Connected clients grouped by tenant
+const clientsByServer = new Map<string, Set<RealtimeClient>>();
+
+export function isRealtimeChannel(channel: unknown): channel is RealtimeChannel {
+  return typeof channel === 'string' && Object.prototype.hasOwnProperty.call(CHANNEL_PERMISSIONS, channel);
+}
+
+/**
+ * Publish an event to every subscriber of a channel on one tenant
+ */
+export function publishEvent(
+  serverName: string | undefined | null,
+  channel: RealtimeChannel,
+  event: string,
+  data: any
+): void {
+  if (!serverName) return;
+
+  const clients = clientsByServer.get(serverName);
+  if (!clients || clients.size === 0) return;
+
+  const payload = JSON.stringify({
+    type: 'event',
+    channel,
+    event,
+    data,
+    timestamp: new Date().toISOString()
+  });
+
+  const requiredPermission = EVENT_PERMISSIONS[event];
+  clients.forEach(client => {
+    if (requiredPermission && !client.permissions.includes(requiredPermission)) return;
+    if (client.channels.has(channel) && client.socket.readyState === WebSocket.OPEN) {
+      client.socket.send(payload);
+    }
+  });
+}
+
+/**
+ * Run a connect-style middleware against the upgrade request
+ */
+function runMiddleware(
+  middleware: (req: Request, res: Response, next: NextFunction) => unknown,
+  req: Request,
+  res: Response
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Middleware did not complete')), AUTH_TIMEOUT_MS);
+    try {
+      middleware(req, res, (err?: any) => {
+        clearTimeout(timer);
+        if (err) reject(err);
+        else resolve();
+      });
+    } catch (error) {
+      clearTimeout(timer);
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Resolve tenant and session for an upgrade request.
+ * Returns null when the request does not belong to an authenticated staff member.
+ */
+async function authenticateUpgrade(app: Express, rawReq: IncomingMessage): Promise<Omit<RealtimeClient, 'socket' | 'channels' | 'isAlive'> | null> {
+  // Give the raw request the express request/response prototypes so the HTTP middlewares can run on it
+  const rawRes = new ServerResponse(rawReq);
+  Object.setPrototypeOf(rawReq, app.request);
+  Object.setPrototypeOf(rawRes, app.response);
+  const req = rawReq as unknown as Request;
+  const res = rawRes as unknown as Response;
+  (req as any).res = res;
+  (res as any).req = req;
+
+  await runMiddleware(subdomainDbMiddleware, req, res);
+  if (!req.serverName || !req.serverDbConnection) {
+    return null;
+  }
+
+  await runMiddleware(tenantSessionMiddleware, req, res);
+  const sessionData = req.session;
+  if (!sessionData || !sessionData.userId || !sessionData.username || sessionData.role === undefined) {
+    return null;
+  }
+
+  const permissions = await getUserPermissions(req, sessionData.role);
+
+  return {
+    serverName: req.serverName,
+    username: sessionData.username,
+    permissions
+  };
+}
+
+function rejectUpgrade(socket: Duplex, statusLine: string): void {
+  socket.write(`HTTP/1.1 ${statusLine}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+function registerClient(client: RealtimeClient): void {
+  if (!clientsByServer.has(client.serverName)) {
+    clientsByServer.set(client.serverName, new Set());
+  }
+  clientsByServer.get(client.serverName)!.add(client);
+}
+
+function unregisterClient(client: RealtimeClient): void {
+  const clients = clientsByServer.get(client.serverName);
+  if (!clients) return;
+  clients.delete(client);
+  if (clients.size === 0) {
+    clientsByServer.delete(client.serverName);
+  }
+}
+
+function handleClientMessage(client: RealtimeClient, message: any): void {
+  const send = (body: any) => client.socket.send(JSON.stringify(body));
+
+  if (message.type === 'subscribe' || message.type === 'unsubscribe') {
+    const { channel } = message;
+    if (!isRealtimeChannel(channel)) {
+      send({ type: 'error', channel, message: 'Unknown channel' });
+      return;
+    }
+
+    if (message.type === 'unsubscribe') {
+      client.channels.delete(channel);
+      send({ type: 'unsubscribed', channel });
+      return;
+    }
+
+    const requiredPermission = CHANNEL_PERMISSIONS[channel];
+    if (requiredPermission && !client.permissions.includes(requiredPermission)) {
+      send({ type: 'error', channel, message: 'Forbidden: You do not have the required permissions.' });
+      return;
+    }
+
+    client.channels.add(channel);
+    send({ type: 'subscribed', channel });
+  } else if (message.type === 'ping') {
+    send({ type: 'pong' });
+  }
+}
+
+/**
+ * Attach the authenticated WebSocket server to the HTTP server
+ */
+export function setupRealtimeServer(httpServer: Server, app: Express): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on('upgrade', (rawReq: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const pathname = (rawReq.url || '').split('?')[0];
+    if (pathname !== WEBSOCKET_PATH) {
+      return; // Leave other upgrade requests (e.g. Vite HMR) to their own handlers
+    }
+
+    authenticateUpgrade(app, rawReq)
+      .then(identity => {
+        if (!identity) {
+          rejectUpgrade(socket, '401 Unauthorized');
+          return;
+        }
+
+        wss.handleUpgrade(rawReq, socket, head, (ws) => {
+          const client: RealtimeClient = {
+            ...identity,
+            socket: ws,
+            channels: new Set(),
+            isAlive: true
+          };
+          registerClient(client);
+
+          ws.send(JSON.stringify({ type: 'connection', status: 'connected' }));
+
+          ws.on('pong', () => {
+            client.isAlive = true;
+          });
+
+          ws.on('message', (message) => {
+            try {
+              handleClientMessage(client, JSON.parse(message.toString()));
+            } catch (error) {
+              console.error('WebSocket message parsing error:', error);
+            }
+          });
+
+          ws.on('close', () => {
+            unregisterClient(client);
+          });
+        });
+      })
+      .catch(error => {
+        console.error('[Realtime] Error authenticating WebSocket upgrade:', error);
+        rejectUpgrade(socket, '500 Internal Server Error');
+      });
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    clientsByServer.forEach(clients => {
+      clients.forEach(client => {
+        if (!client.isAlive) {
+          client.socket.terminate();
+          unregisterClient(client);
+          return;
+        }
+        client.isAlive = false;
+        client.socket.ping();
+      });
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  return wss;
+}
@@ -0,0 +1,831 @@
+import { Request } from 'express';
+import { Connection, Document, Model, Schema, Types } from 'mongoose';
+import { publishEvent } from './realtime-service';
+import { triggerWebhookEvent } from './webhook-service';
+import { AuditActor, getAuditEventModel, recordAuditEvent, toAuditSnapshot } from './audit-service';
+import { findPunishmentById, getPunishmentModel } from './punishment-store-service';
+
+/**
+ * Punishment rollback.
+ *
+ * Bulk rollbacks can be previewed before anything changes, then run as tracked jobs
+ * that report what happened to every punishment. A rollback only adds a pardon to the
+ * punishment, its evidence, notes and history are kept so a job can be undone.
+ */
+
+export type RollbackJobStatus = 'running' | 'completed' | 'failed' | 'undoing' | 'undone';
+export type RollbackItemStatus = 'pending' | 'rolled_back' | 'skipped' | 'failed' | 'restored';
+
+export interface RollbackSelection {
+  staffUsername?: string | null;
+  from: Date;
+  to?: Date | null;
+  // Also roll back the linked and alt-blocking bans issued to alts because of the selected punishments
+  includeLinkedBans: boolean;
+}
+
+export interface RollbackPreviewPunishment {
+  id: string;
+  playerUuid: string;
+  playerName: string;
+  typeOrdinal: number;
+  issuerName: string;
+  issued: Date;
+  reason: string | null;
+  evidenceCount: number;
+  alreadyRolledBack: boolean;
+  // Source punishment for linked and alt-blocking bans, null for selected punishments
+  linkedTo: string | null;
+}
+
+export interface RollbackPreview {
+  punishments: RollbackPreviewPunishment[];
+  linkedBans: RollbackPreviewPunishment[];
+  players: { uuid: string; name: string; punishments: number }[];
+  totals: {
+    punishments: number;
+    linkedBans: number;
+    players: number;
+    alreadyRolledBack: number;
+    // Punishments with an audit event that no longer exist
+    missing: number;
+  };
+}
+
+export interface IRollbackJobItem {
+  punishmentId: string;
+  playerUuid: string;
+  playerName: string;
+  linkedTo: string | null;
+  status: RollbackItemStatus;
+  error: string | null;
+  rolledBackAt: Date | null;
+  restoredAt: Date | null;
+}
+
+export interface IRollbackJob extends Document<Types.ObjectId> {
+  description: string;
+  selection: RollbackSelection;
+  reason: string;
+  // Reason written on the pardon added to each punishment
+  modificationReason: string;
+  status: RollbackJobStatus;
+  actor: AuditActor;
+  createdBy: string;
+  items: IRollbackJobItem[];
+  progress: {
+    total: number;
+    processed: number;
+    rolledBack: number;
+    skipped: number;
+    failed: number;
+    restored: number;
+  };
+  error: string | null;
+  startedAt: Date;
+  completedAt: Date | null;
+  undoneBy: string | null;
+  undoneAt: Date | null;
+}
+
+const RollbackJobSchema = new Schema<IRollbackJob>({
+  description: { type: String, required: true },
+  selection: {
+    staffUsername: { type: String, default: null },
+    from: { type: Date, required: true },
+    to: { type: Date, default: null },
+    includeLinkedBans: { type: Boolean, default: true }
+  },
+  reason: { type: String, required: true },
+  modificationReason: { type: String, required: true },
+  status: { type: String, enum: ['running', 'completed', 'failed', 'undoing', 'undone'], default: 'running' },
+  actor: {
+    type: { type: String, required: true },
+    id: { type: String, default: null },
+    name: { type: String, required: true }
+  },
+  createdBy: { type: String, required: true },
+  items: {
+    type: [{
+      _id: false,
+      punishmentId: { type: String, required: true },
+      playerUuid: { type: String, required: true },
+      playerName: { type: String, required: true },
+      linkedTo: { type: String, default: null },
+      status: { type: String, enum: ['pending', 'rolled_back', 'skipped', 'failed', 'restored'], default: 'pending' },
+      error: { type: String, default: null },
+      rolledBackAt: { type: Date, default: null },
+      restoredAt: { type: Date, default: null }
+    }],
+    default: []
+  },
+  progress: {
+    total: { type: Number, default: 0 },
+    processed: { type: Number, default: 0 },
+    rolledBack: { type: Number, default: 0 },
+    skipped: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 },
+    restored: { type: Number, default: 0 }
+  },
+  error: { type: String, default: null },
+  startedAt: { type: Date, default: Date.now },
+  completedAt: { type: Date, default: null },
+  undoneBy: { type: String, default: null },
+  undoneAt: { type: Date, default: null }
+});
+
+RollbackJobSchema.index({ startedAt: -1 });
+RollbackJobSchema.index({ status: 1 });
+
+// Events that end a punishment issued through the panel or the plugin
+export const ROLLBACK_ACTIONS = ['punishment.rolled_back', 'punishment.pardoned'];
+const ROLLBACK_UNDONE_ACTION = 'punishment.rollback_undone';
+
+// Publish progress to the audit channel every this many punishments
+const PROGRESS_INTERVAL = 10;
+
+const resumedConnections = new WeakSet<Connection>();
+
+const BACKFILL_BATCH_SIZE = 500;
+const BACKFILL_SETTINGS_TYPE = 'punishmentAuditBackfill';
+
+const backfills = new WeakMap<Connection, Promise<void>>();
+
+export function getRollbackJobModel(dbConnection: Connection): Model<IRollbackJob> {
+  return (dbConnection.models.RollbackJob as Model<IRollbackJob>) ||
+    dbConnection.model<IRollbackJob>('RollbackJob', RollbackJobSchema);
+}
+
+/**
+ * Match events made by a staff member, either from the panel or in game through an assigned Minecraft account
+ */
+export function staffEventFilter(username: string) {
+  return {
+    $or: [
+      { 'metadata.staffUsername': username },
+      { 'actor.type': 'staff', 'actor.name': username },
+      { 'metadata.issuerName': username }
+    ]
+  };
+}
+
+/**
+ * IDs of the punishments created by events matching the filter
+ */
+export async function findPunishmentIds(dbConnection: Connection, filter: Record<string, any>): Promise<string[]> {
+  const ids = await getAuditEventModel(dbConnection).distinct('target.id', { action: 'punishment.created', ...filter });
+  return ids.filter((id): id is string => typeof id === 'string');
+}
+
+/**
+ * Record punishment.created events for punishments issued before the audit trail
+ * existed, so rollbacks and staff statistics find them. Runs once per connection,
+ * punishments that already have an event are left alone so it can be interrupted.
+ */
+export function backfillPunishmentAuditEvents(dbConnection: Connection): Promise<void> {
+  let backfill = backfills.get(dbConnection);
+  if (!backfill) {
+    backfill = runPunishmentAuditBackfill(dbConnection).catch(error => {
+      backfills.delete(dbConnection);
+      throw error;
+    });
+    backfills.set(dbConnection, backfill);
+  }
+  return backfill;
+}
+
+async function runPunishmentAuditBackfill(dbConnection: Connection): Promise<void> {
+  const Settings = dbConnection.model('Settings');
+  if (await Settings.exists({ type: BACKFILL_SETTINGS_TYPE, 'data.completedAt': { $ne: null } })) {
+    return;
+  }
+
+  const Player = dbConnection.model('Player');
+  const Staff = dbConnection.model('Staff');
+  const Punishment = getPunishmentModel(dbConnection);
+  const AuditEvent = getAuditEventModel(dbConnection);
+  let lastId: Types.ObjectId | null = null;
+  let backfilled = 0;
+
+  for (;;) {
+    const batch: any[] = await Punishment.find(lastId ? { _id: { $gt: lastId } } : {})
+      .sort({ _id: 1 })
+      .limit(BACKFILL_BATCH_SIZE)
+      .lean<any[]>();
+    if (batch.length === 0) break;
+    lastId = batch[batch.length - 1]._id;
+
+    const recorded = new Set(await AuditEvent.distinct('target.id', {
+      action: 'punishment.created',
+      'target.id': { $in: batch.map(punishment => punishment.id) }
+    }));
+    const missing = batch.filter(punishment => !recorded.has(punishment.id));
+    if (missing.length === 0) continue;
+
+    const issuerNames = Array.from(new Set(missing.map(punishment => punishment.issuerName)));
+    const [players, staffMembers] = await Promise.all([
+      Player.find({ minecraftUuid: { $in: Array.from(new Set(missing.map(punishment => punishment.minecraftUuid))) } }, { minecraftUuid: 1, usernames: 1 }).lean<any[]>(),
+      Staff.find({ $or: [{ username: { $in: issuerNames } }, { assignedMinecraftUsername: { $in: issuerNames } }] }, { username: 1, assignedMinecraftUsername: 1 }).lean<any[]>()
+    ]);
+    const playersByUuid = new Map(players.map(player => [player.minecraftUuid, player]));
+    const findStaff = (issuerName: string) => staffMembers.find(staff => staff.username === issuerName) ||
+      staffMembers.find(staff => staff.assignedMinecraftUsername === issuerName);
+
+    await AuditEvent.insertMany(missing.map(punishment => {
+      const player = playersByUuid.get(punishment.minecraftUuid);
+      const playerName = player ? getPlayerName(player) : punishment.minecraftUuid;
+      const staff = findStaff(punishment.issuerName);
+      const firstNote = punishment.notes?.[0];
+      return {
+        action: 'punishment.created',
+        category: 'punishment',
+        summary: `Punishment ${punishment.id} issued to ${playerName} by ${punishment.issuerName}`,
+        actor: staff
+          ? { type: 'staff', id: staff._id.toString(), name: staff.username }
+          : { type: 'system', id: null, name: punishment.issuerName },
+        target: { type: 'punishment', id: punishment.id, name: playerName },
+        before: null,
+        after: toAuditSnapshot(punishment),
+        changes: [],
+        request: null,
+        metadata: toAuditSnapshot({
+          playerUuid: punishment.minecraftUuid,
+          playerName,
+          issuerName: punishment.issuerName,
+          staffUsername: staff?.username,
+          typeOrdinal: punishment.type_ordinal,
+          reason: getPunishmentData(punishment, 'reason') || (typeof firstNote === 'object' ? firstNote?.text : firstNote),
+          duration: getPunishmentData(punishment, 'duration'),
+          backfilled: true
+        }),
+        createdAt: punishment.issued
+      };
+    }), { ordered: false });
+    backfilled += missing.length;
+  }
+
+  await Settings.updateOne(
+    { type: BACKFILL_SETTINGS_TYPE },
+    { $set: { 'data.completedAt': new Date(), 'data.backfilledEvents': backfilled } },
+    { upsert: true }
+  );
+  if (backfilled > 0) {
+    console.log(`[Rollback] Recorded ${backfilled} punishment.created events for punishments issued before the audit trail for ${dbConnection.name}`);
+  }
+}
+
+/**
+ * Of the given punishments, the ones currently rolled back or pardoned. A punishment
+ * whose latest rollback was undone by a job undo counts as active again.
+ */
+export async function findRolledBackIds(
+  dbConnection: Connection,
+  punishmentIds: string[] | null,
+  since?: Date
+): Promise<Set<string>> {
+  if (punishmentIds && punishmentIds.length === 0) return new Set();
+
+  const match: Record<string, any> = {
+    action: { $in: [...ROLLBACK_ACTIONS, ROLLBACK_UNDONE_ACTION] },
+    'target.type': 'punishment'
+  };
+  if (punishmentIds) match['target.id'] = { $in: punishmentIds };
+  if (since) match.createdAt = { $gte: since };
+
+  const latest = await getAuditEventModel(dbConnection).aggregate([
+    { $match: match },
+    { $sort: { createdAt: -1 } },
+    { $group: { _id: '$target.id', action: { $first: '$action' } } },
+    { $match: { action: { $ne: ROLLBACK_UNDONE_ACTION } } }
+  ]);
+  return new Set(latest.map(entry => entry._id as string));
+}
+
+/**
+ * Aggregation stages adding a `rolledBack` flag to punishment.created events
+ */
+export function rolledBackLookupStages(auditCollectionName: string) {
+  return [
+    {
+      $lookup: {
+        from: auditCollectionName,
+        let: { punishmentId: '$target.id' },
+        pipeline: [
+          {
+            $match: {
+              $expr: {
+                $and: [
+                  { $eq: ['$target.id', '$$punishmentId'] },
+                  { $in: ['$action', [...ROLLBACK_ACTIONS, ROLLBACK_UNDONE_ACTION]] }
+                ]
+              }
+            }
+          },
+          { $sort: { createdAt: -1 } },
+          { $limit: 1 }
+        ],
+        as: 'rollbacks'
+      }
+    },
+    {
+      $addFields: {
+        rolledBack: {
+          $and: [
+            { $gt: [{ $size: '$rollbacks' }, 0] },
+            { $ne: [{ $arrayElemAt: ['$rollbacks.action', 0] }, ROLLBACK_UNDONE_ACTION] }
+          ]
+        }
+      }
+    }
+  ];
+}
+
+function getPunishmentData(punishment: any, key: string): any {
+  return punishment.data instanceof Map ? punishment.data.get(key) : punishment.data?.[key];
+}
+
+function getPlayerName(player: any): string {
+  return player.usernames?.[player.usernames.length - 1]?.username || 'Unknown';
+}
+
+function toPreviewPunishment(player: any, punishment: any, linkedTo: string | null): RollbackPreviewPunishment {
+  return {
+    id: punishment.id,
+    playerUuid: player.minecraftUuid,
+    playerName: getPlayerName(player),
+    typeOrdinal: punishment.type_ordinal,
+    issuerName: punishment.issuerName,
+    issued: punishment.issued,
+    reason: getPunishmentData(punishment, 'reason') || null,
+    evidenceCount: punishment.evidence?.length || 0,
+    alreadyRolledBack: getPunishmentData(punishment, 'rolledBack') === true,
+    linkedTo
+  };
+}
+
+/**
+ * Everything a rollback of the selection would touch, without changing anything
+ */
+export async function previewRollback(dbConnection: Connection, selection: RollbackSelection): Promise<RollbackPreview> {
+  const Player = dbConnection.model('Player');
+
+  const createdAt: Record<string, Date> = { $gte: selection.from };
+  if (selection.to) createdAt.$lte = selection.to;
+  const punishmentIds = await findPunishmentIds(dbConnection, {
+    ...(selection.staffUsername ? staffEventFilter(selection.staffUsername) : {}),
+    createdAt
+  });
+
+  const selectedIds = new Set(punishmentIds);
+  const punishments: RollbackPreviewPunishment[] = [];
+  const linkedBans: RollbackPreviewPunishment[] = [];
+  const players = new Map<string, { uuid: string; name: string; punishments: number }>();
+
+  const addPunishment = (player: any, punishment: any, linkedTo: string | null) => {
+    const item = toPreviewPunishment(player, punishment, linkedTo);
+    (linkedTo ? linkedBans : punishments).push(item);
+
+    const entry = players.get(item.playerUuid) || { uuid: item.playerUuid, name: item.playerName, punishments: 0 };
+    entry.punishments += 1;
+    players.set(item.playerUuid, entry);
+  };
+
+  if (punishmentIds.length > 0) {
+    const Punishment = getPunishmentModel(dbConnection);
+    const selectedPunishments = await Punishment.find({ id: { $in: punishmentIds } }).sort({ issued: 1 }).lean<any[]>();
+    const linkedPunishments = selection.includeLinkedBans
+      ? await Punishment.find({
+        $or: [
+          { 'data.linkedBanId': { $in: punishmentIds } },
+          { 'data.altBlockingSource': { $in: punishmentIds } }
+        ]
+      }).sort({ issued: 1 }).lean<any[]>()
+      : [];
+
+    const playerUuids = Array.from(new Set([...selectedPunishments, ...linkedPunishments].map(punishment => punishment.minecraftUuid)));
+    const punishedPlayers = await Player.find({ minecraftUuid: { $in: playerUuids } }, { minecraftUuid: 1, usernames: 1 }).lean<any[]>();
+    const playersByUuid = new Map(punishedPlayers.map(player => [player.minecraftUuid, player]));
+
+    for (const punishment of selectedPunishments) {
+      const player = playersByUuid.get(punishment.minecraftUuid);
+      if (player) {
+        addPunishment(player, punishment, null);
+      }
+    }
+
+    for (const punishment of linkedPunishments) {
+      const player = playersByUuid.get(punishment.minecraftUuid);
+      const source = getPunishmentData(punishment, 'linkedBanId') || getPunishmentData(punishment, 'altBlockingSource');
+      // A linked ban that was itself selected is already listed as a punishment
+      if (player && source && selectedIds.has(source) && !selectedIds.has(punishment.id)) {
+        addPunishment(player, punishment, source);
+      }
+    }
+  }
+
+  return {
+    punishments,
+    linkedBans,
+    players: Array.from(players.values()).sort((a, b) => b.punishments - a.punishments),
+    totals: {
+      punishments: punishments.length,
+      linkedBans: linkedBans.length,
+      players: players.size,
+      alreadyRolledBack: [...punishments, ...linkedBans].filter(item => item.alreadyRolledBack).length,
+      missing: punishmentIds.length - punishments.length
+    }
+  };
+}
+
+export interface RollbackOptions {
+  reason: string;
+  modificationReason: string;
+  rollbackBy: string;
+  actor: AuditActor;
+  jobId?: string;
+  // The request a single rollback is made from, jobs run without one
+  req?: Request;
+}
+
+export interface RolledBackPunishment {
+  id: string;
+  playerId: string;
+  playerName: string;
+  rolledBackAt: Date;
+}
+
+/**
+ * Pardon a punishment and record the rollback. Returns null when the punishment
+ * does not exist or was already rolled back.
+ */
+export async function rollbackPunishment(
+  dbConnection: Connection,
+  serverName: string | undefined | null,
+  punishmentId: string,
+  options: RollbackOptions
+): Promise<RolledBackPunishment | null> {
+  const Player = dbConnection.model('Player');
+
+  const punishment: any = await findPunishmentById(dbConnection, punishmentId);
+  const player = punishment ? await Player.findOne({ minecraftUuid: punishment.minecraftUuid }) : null;
+  if (!player || !punishment) {
+    return null;
+  }
+
+  // Handle data field (Map vs Object)
+  if (!(punishment.data instanceof Map)) {
+    const oldData = punishment.data || {};
+    punishment.data = new Map(Object.entries(oldData));
+  }
+  if (punishment.data.get('rolledBack') === true) {
+    return null;
+  }
+
+  const before = toAuditSnapshot(punishment);
+  const rollbackDate = new Date();
+
+  // Remember the state the pardon replaces so an undo can restore it
+  punishment.data.set('rollbackPreviousActive', punishment.data.has('active') ? punishment.data.get('active') : null);
+  punishment.data.set('rolledBack', true);
+  punishment.data.set('rollbackDate', rollbackDate);
+  punishment.data.set('rollbackBy', options.rollbackBy);
+  punishment.data.set('rollbackReason', options.reason);
+  punishment.data.set('rollbackJobId', options.jobId || null);
+  punishment.data.set('active', false);
+
+  // Add "Pardoned" modification to the punishment
+  punishment.modifications = punishment.modifications || [];
+  punishment.modifications.push({
+    type: 'MANUAL_PARDON',
+    issuerName: options.rollbackBy,
+    issued: rollbackDate,
+    effectiveDuration: 0,   // Required for pardons
+    reason: options.modificationReason
+  });
+
+  await punishment.save({ validateBeforeSave: false });
+
+  const playerName = getPlayerName(player);
+  triggerWebhookEvent(dbConnection, serverName, 'punishment.pardoned', {
+    punishmentId,
+    playerUuid: player.minecraftUuid,
+    playerName,
+    modificationType: 'MANUAL_PARDON',
+    issuerName: options.rollbackBy,
+    reason: options.reason
+  });
+
+  await recordAuditEvent(dbConnection, serverName, {
+    action: 'punishment.rolled_back',
+    summary: `Punishment ${punishmentId} of ${playerName} rolled back`,
+    target: { type: 'punishment', id: punishmentId, name: playerName },
+    before,
+    after: punishment,
+    actor: options.actor,
+    metadata: { playerUuid: player.minecraftUuid, playerName, reason: options.reason, rollbackJobId: options.jobId || null }
+  }, options.req);
+
+  return { id: punishmentId, playerId: player.minecraftUuid, playerName, rolledBackAt: rollbackDate };
+}
+
+/**
+ * Reverse a rollback: remove the pardon it added and restore the punishment's previous
+ * state. Returns false when the punishment is gone or no longer rolled back.
+ */
+async function restorePunishment(
+  dbConnection: Connection,
+  serverName: string | undefined | null,
+  item: IRollbackJobItem,
+  actor: AuditActor,
+  jobId: string
+): Promise<boolean> {
+  const Player = dbConnection.model('Player');
+
+  const punishment: any = await findPunishmentById(dbConnection, item.punishmentId);
+  const player = punishment ? await Player.findOne({ minecraftUuid: punishment.minecraftUuid }) : null;
+  if (!player || !punishment || !(punishment.data instanceof Map) || punishment.data.get('rolledBack') !== true) {
+    return false;
+  }
+
+  const before = toAuditSnapshot(punishment);
+  const rolledBackAt = item.rolledBackAt?.getTime();
+
+  // Only the pardon added by the rollback is removed, later pardons and appeals stay
+  punishment.modifications = (punishment.modifications || []).filter((modification: any) =>
+    !(modification.type === 'MANUAL_PARDON' && new Date(modification.issued).getTime() === rolledBackAt)
+  );
+
+  const previousActive = punishment.data.get('rollbackPreviousActive');
+  if (previousActive === null || previousActive === undefined) {
+    punishment.data.delete('active');
+  } else {
+    punishment.data.set('active', previousActive);
+  }
+  punishment.data.delete('rollbackPreviousActive');
+  punishment.data.set('rolledBack', false);
+  punishment.data.set('rollbackUndoneAt', new Date());
+  punishment.data.set('rollbackUndoneBy', actor.name);
+
+  await punishment.save({ validateBeforeSave: false });
+
+  const playerName = getPlayerName(player);
+  triggerWebhookEvent(dbConnection, serverName, 'punishment.modified', {
+    punishmentId: item.punishmentId,
+    playerUuid: player.minecraftUuid,
+    playerName,
+    modificationType: 'ROLLBACK_UNDONE',
+    issuerName: actor.name
+  });
+
+  await recordAuditEvent(dbConnection, serverName, {
+    action: ROLLBACK_UNDONE_ACTION,
+    summary: `Rollback of punishment ${item.punishmentId} of ${playerName} undone`,
+    target: { type: 'punishment', id: item.punishmentId, name: playerName },
+    before,
+    after: punishment,
+    actor,
+    metadata: { playerUuid: player.minecraftUuid, playerName, rollbackJobId: jobId }
+  });
+
+  return true;
+}
+
+export interface StartRollbackJobOptions {
+  selection: RollbackSelection;
+  description: string;
+  reason: string;
+  modificationReason: string;
+  actor: AuditActor;
+}
+
+/**
+ * Preview the selection again and roll it back in the background. The job is
+ * returned as soon as it is created, progress is saved on it as it runs.
+ */
+export async function startRollbackJob(
+  dbConnection: Connection,
+  serverName: string | undefined | null,
+  options: StartRollbackJobOptions
+): Promise<IRollbackJob> {
+  const preview = await previewRollback(dbConnection, options.selection);
+  const items = [...preview.punishments, ...preview.linkedBans].map((punishment): IRollbackJobItem => ({
+    punishmentId: punishment.id,
+    playerUuid: punishment.playerUuid,
+    playerName: punishment.playerName,
+    linkedTo: punishment.linkedTo,
+    status: punishment.alreadyRolledBack ? 'skipped' : 'pending',
+    error: punishment.alreadyRolledBack ? 'Already rolled back' : null,
+    rolledBackAt: null,
+    restoredAt: null
+  }));
+
+  const job = await getRollbackJobModel(dbConnection).create({
+    description: options.description,
+    selection: options.selection,
+    reason: options.reason,
+    modificationReason: options.modificationReason,
+    actor: options.actor,
+    createdBy: options.actor.name,
+    items,
+    progress: {
+      total: items.length,
+      processed: preview.totals.alreadyRolledBack,
+      skipped: preview.totals.alreadyRolledBack
+    }
+  });
+
+  runInBackground(serverName, `rollback job ${job._id}`, () => runRollbackJob(dbConnection, serverName, job._id));
+  return job;
+}
+
+/**
+ * Undo a finished rollback job, restoring every punishment it rolled back
+ */
+export async function undoRollbackJob(
+  dbConnection: Connection,
+  serverName: string | undefined | null,
+  jobId: string,
+  actor: AuditActor
+): Promise<IRollbackJob | null> {
+  const job = await getRollbackJobModel(dbConnection).findOneAndUpdate(
+    { _id: jobId, status: { $in: ['completed', 'failed'] } },
+    { $set: { status: 'undoing', undoneBy: actor.name, error: null } },
+    { new: true }
+  );
+  if (!job) return null;
+
+  runInBackground(serverName, `undo of rollback job ${job._id}`, () => runUndo(dbConnection, serverName, job._id, actor));
+  return job;
+}
+
+function runInBackground(serverName: string | undefined | null, label: string, task: () => Promise<void>): void {
+  task().catch(error => {
+    console.error(`[Rollback - ${serverName || 'Unknown Server'}] Failed to run ${label}:`, error);
+  });
+}
+
+/**
+ * When a punishment was rolled back by the given job, the date it was rolled back
+ */
+async function getJobRollbackDate(dbConnection: Connection, punishmentId: string, jobId: string): Promise<Date | null> {
+  const punishment: any = await findPunishmentById(dbConnection, punishmentId);
+  if (!punishment || !(punishment.data instanceof Map) || punishment.data.get('rolledBack') !== true || punishment.data.get('rollbackJobId') !== jobId) {
+    return null;
+  }
+  return new Date(punishment.data.get('rollbackDate'));
+}
+
+async function runRollbackJob(
+  dbConnection: Connection,
+  serverName: string | undefined | null,
+  jobId: Types.ObjectId
+): Promise<void> {
+  const RollbackJob = getRollbackJobModel(dbConnection);
+  const job = await RollbackJob.findById(jobId);
+  if (!job || job.status !== 'running') return;
+
+  try {
+    for (const item of job.items) {
+      if (item.status !== 'pending') continue;
+
+      try {
+        const rolledBack = await rollbackPunishment(dbConnection, serverName, item.punishmentId, {
+          reason: job.reason,
+          modificationReason: job.modificationReason,
+          rollbackBy: job.createdBy,
+          actor: job.actor,
+          jobId: job._id.toString()
+        });
+        // A punishment this job already rolled back was saved before the job stopped
+        const rolledBackAt = rolledBack ? rolledBack.rolledBackAt : await getJobRollbackDate(dbConnection, item.punishmentId, job._id.toString());
+        if (rolledBackAt) {
+          item.status = 'rolled_back';
+          item.rolledBackAt = rolledBackAt;
+          job.progress.rolledBack += 1;
+        } else {
+          item.status = 'skipped';
+          item.error = 'Punishment not found or already rolled back';
+          job.progress.skipped += 1;
+        }
+      } catch (error) {
+        // Continue with other punishments rather than failing the entire job
+        item.status = 'failed';
+        item.error = (error as Error).message;
+        job.progress.failed += 1;
+      }
+
+      job.progress.processed += 1;
+      await job.save();
+      if (job.progress.processed % PROGRESS_INTERVAL === 0) {
+        publishEvent(serverName, 'audit', 'rollback.progress', formatRollbackJob(job));
+      }
+    }
+
+    job.status = 'completed';
+  } catch (error) {
+    job.status = 'failed';
+    job.error = (error as Error).message;
+  }
+
+  job.completedAt = new Date();
+  await job.save();
+  publishEvent(serverName, 'audit', 'rollback.progress', formatRollbackJob(job));
+
+  await recordAuditEvent(dbConnection, serverName, {
+    action: 'punishment.bulk_rolled_back',
+    summary: `${job.description}: ${job.progress.rolledBack} punishments rolled back`,
+    target: { type: 'rollback_job', id: job._id.toString(), name: job.description },
+    actor: job.actor,
+    metadata: {
+      staffMember: job.selection.staffUsername,
+      rollbackReason: job.reason,
+      from: job.selection.from,
+      to: job.selection.to,
+      includeLinkedBans: job.selection.includeLinkedBans,
+      punishmentsRolledBack: job.progress.rolledBack,
+      skipped: job.progress.skipped,
+      failed: job.progress.failed
+    }
+  });
+}
+
+async function runUndo(
+  dbConnection: Connection,
+  serverName: string | undefined | null,
+  jobId: Types.ObjectId,
+  actor: AuditActor
+): Promise<void> {
+  const job = await getRollbackJobModel(dbConnection).findById(jobId);
+  if (!job || job.status !== 'undoing') return;
+
+  for (const item of job.items) {
+    if (item.status !== 'rolled_back') continue;
+
+    try {
+      if (await restorePunishment(dbConnection, serverName, item, actor, job._id.toString())) {
+        item.status = 'restored';
+        item.restoredAt = new Date();
+        job.progress.restored += 1;
+      } else {
+        item.error = 'Punishment not found or no longer rolled back';
+      }
+    } catch (error) {
+      item.error = (error as Error).message;
+    }
+    await job.save();
+  }
+
+  job.status = 'undone';
+  job.undoneAt = new Date();
+  await job.save();
+  publishEvent(serverName, 'audit', 'rollback.progress', formatRollbackJob(job));
+
+  await recordAuditEvent(dbConnection, serverName, {
+    action: 'punishment.bulk_rollback_undone',
+    summary: `${job.description} undone: ${job.progress.restored} punishments restored`,
+    target: { type: 'rollback_job', id: job._id.toString(), name: job.description },
+    actor,
+    metadata: { punishmentsRestored: job.progress.restored }
+  });
+}
+
+/**
+ * Continue jobs that were running or undoing when the process last stopped
+ */
+export function resumeRollbackJobs(dbConnection: Connection, serverName: string | undefined | null): void {
+  if (resumedConnections.has(dbConnection)) return;
+  resumedConnections.add(dbConnection);
+
+  getRollbackJobModel(dbConnection)
+    .find({ status: { $in: ['running', 'undoing'] } })
+    .then(jobs => {
+      for (const job of jobs) {
+        if (job.status === 'running') {
+          runInBackground(serverName, `rollback job ${job._id}`, () => runRollbackJob(dbConnection, serverName, job._id));
+        } else {
+          const actor: AuditActor = { type: 'staff', id: null, name: job.undoneBy || job.createdBy };
+          runInBackground(serverName, `undo of rollback job ${job._id}`, () => runUndo(dbConnection, serverName, job._id, actor));
+        }
+      }
+    })
+    .catch(error => console.error('[Rollback] Failed to resume rollback jobs:', error));
+}
+
+export function formatRollbackJob(job: IRollbackJob, includeItems: boolean = false) {
+  return {
+    id: job._id.toString(),
+    description: job.description,
+    selection: job.selection,
+    reason: job.reason,
+    status: job.status,
+    createdBy: job.createdBy,
+    progress: job.progress,
+    error: job.error,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+    undoneBy: job.undoneBy,
+    undoneAt: job.undoneAt,
+    canUndo: (job.status === 'completed' || job.status === 'failed') && job.progress.rolledBack > 0,
+    items: includeItems ? job.items : undefined
+  };
+}
@@ -1,32 +1,4 @@
-// Dynamic imports for AWS SDK to avoid constructor issues
-let S3Client: any;
-let ListObjectsV2Command: any;
-let s3Client: any;
-
-// Initialize AWS SDK components
-async function initializeAwsSdk() {
-  if (S3Client) return; // Already initialized
-  
-  try {
-    const { S3Client: S3, ListObjectsV2Command: List } = await import('@aws-sdk/client-s3');
-    
-    S3Client = S3;
-    ListObjectsV2Command = List;
-    
-    s3Client = new S3Client({
-      region: 'us-east-1',
-      endpoint: 'https://s3.wasabisys.com',
-      credentials: {
-        accessKeyId: process.env.WASABI_ACCESS_KEY || '',
-        secretAccessKey: process.env.WASABI_SECRET_KEY || '',
-      },
-      forcePathStyle: true, // Required for Wasabi compatibility
-    });
-  } catch (error) {
-    console.error('Failed to initialize AWS SDK:', error);
-    throw error;
-  }
-}
+import { getStorageDriver } from './storage-service';
 
 // Storage limits in bytes
 export const STORAGE_LIMITS = {
@@ -61,7 +33,7 @@ export async function getStorageQuota(
   customOverageLimit?: number
 ): Promise<StorageQuota> {
   try {
-    // Get current usage from Wasabi
+    // Get current usage from the storage driver
     const currentUsage = await getCurrentStorageUsage(serverName);
     
     // Calculate limits
@@ -102,44 +74,16 @@ export async function getStorageQuota(
   }
 }
 
-// Get current storage usage from Wasabi
+// Get current storage usage from the active storage driver
 async function getCurrentStorageUsage(serverName: string): Promise<number> {
   try {
-    // Initialize AWS SDK
-    await initializeAwsSdk();
-    
-    // AWS SDK already initialized in initializeAwsSdk function
-    
-    const BUCKET_NAME = process.env.WASABI_BUCKET_NAME || '';
-    if (!BUCKET_NAME) {
+    const driver = getStorageDriver();
+    if (!driver.isConfigured()) {
       return 0;
     }
     
-    // s3Client already initialized in initializeAwsSdk function
-    
-    const listParams = {
-      Bucket: BUCKET_NAME,
-      Prefix: serverName,
-      MaxKeys: 1000,
-    };
-    
-    let totalSize = 0;
-    let continuationToken: string | undefined;
-    
-    do {
-      const command = new ListObjectsV2Command({
-        ...listParams,
-        ContinuationToken: continuationToken,
-      });
-      
-      const response = await s3Client.send(command);
-      const objects = response.Contents || [];
-      
-      totalSize += objects.reduce((sum, obj) => sum + (obj.Size || 0), 0);
-      continuationToken = response.NextContinuationToken;
-    } while (continuationToken);
-    
-    return totalSize;
+    const objects = await driver.list(`${serverName}/`);
+    return objects.reduce((sum, obj) => sum + obj.size, 0);
   } catch (error) {
     console.error('Error getting current storage usage:', error);
     return 0;
@@ -209,23 +153,11 @@ export async function getStorageBreakdown(serverName: string): Promise<{
   byType: Record<string, number>;
 }> {
   try {
-    await initializeAwsSdk();
-    
-    // AWS SDK already initialized in initializeAwsSdk function
-    
-    const BUCKET_NAME = process.env.WASABI_BUCKET_NAME || '';
-    if (!BUCKET_NAME) {
+    const driver = getStorageDriver();
+    if (!driver.isConfigured()) {
       return { total: 0, byType: {} };
     }
     
-    // s3Client already initialized in initializeAwsSdk function
-    
-    const listParams = {
-      Bucket: BUCKET_NAME,
-      Prefix: serverName,
-      MaxKeys: 1000,
-    };
-    
     let totalSize = 0;
     const breakdown: Record<string, number> = {
       evidence: 0,
@@ -236,34 +168,22 @@ export async function getStorageBreakdown(serverName: string): Promise<{
       other: 0,
     };
     
-    let continuationToken: string | undefined;
+    const objects = await driver.list(`${serverName}/`);
     
-    do {
-      const command = new ListObjectsV2Command({
-        ...listParams,
-        ContinuationToken: continuationToken,
-      });
-      
-      const response = await s3Client.send(command);
-      const objects = response.Contents || [];
+    objects.forEach(obj => {
+      const size = obj.size;
+      const key = obj.key;
       
-      objects.forEach(obj => {
-        const size = obj.Size || 0;
-        const key = obj.Key || '';
-        
-        totalSize += size;
-        
-        // Categorize by folder
-        if (key.includes('/evidence/')) breakdown.evidence += size;
-        else if (key.includes('/tickets/')) breakdown.tickets += size;
-        else if (key.includes('/articles/')) breakdown.articles += size;
-        else if (key.includes('/appeals/')) breakdown.appeals += size;
-        else if (key.includes('/server-icons/')) breakdown['server-icons'] += size;
-        else breakdown.other += size;
-      });
+      totalSize += size;
       
-      continuationToken = response.NextContinuationToken;
-    } while (continuationToken);
+      // Categorize by folder
+      if (key.includes('/evidence/')) breakdown.evidence += size;
+      else if (key.includes('/tickets/')) breakdown.tickets += size;
+      else if (key.includes('/articles/')) breakdown.articles += size;
+      else if (key.includes('/appeals/')) breakdown.appeals += size;
+      else if (key.includes('/server-icons/')) breakdown['server-icons'] += size;
+      else breakdown.other += size;
+    });
     
     return { total: totalSize, byType: breakdown };
   } catch (error) {
@@ -0,0 +1,427 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Storage driver layer for uploaded media.
+ *
+ * Drivers only move bytes around by key. Key layout, validation and quota
+ * accounting live in the callers so every driver stores files the same way.
+ *
+ * The active driver is picked from STORAGE_DRIVER (local, s3 or wasabi). When it
+ * is not set, Wasabi is used if its credentials are present, then a generic S3
+ * bucket, and local disk otherwise.
+ */
+
+export type StorageDriverName = 'local' | 's3' | 'wasabi';
+
+export interface StorageObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+  contentType?: string;
+  etag?: string;
+}
+
+export interface StorageUploadOptions {
+  contentType: string;
+  cacheControl?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface StorageDeleteResult {
+  deleted: string[];
+  failed: string[];
+}
+
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  isConfigured(): boolean;
+  upload(key: string, body: Buffer, options: StorageUploadOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+  deleteMany(keys: string[]): Promise<StorageDeleteResult>;
+  presign(key: string, expiresInSeconds: number): Promise<string>;
+  head(key: string): Promise<StorageObject | null>;
+  list(prefix: string, maxKeys?: number): Promise<StorageObject[]>;
+  getPublicUrl(key: string): string;
+  // Non-secret configuration details for the storage debug endpoint
+  describe(): Record<string, unknown>;
+}
+
+// Content types of the extensions we accept uploads for, see SUPPORTED_FILE_TYPES
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+};
+
+/**
+ * Stores files on the local disk. Files are served by the /uploads static route,
+ * so the public URL doubles as the presigned URL; the random UUID folder in every
+ * key is what keeps them from being guessed, same as with the public bucket URLs.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local' as const;
+
+  constructor(private readonly rootDir: string, private readonly publicBaseUrl: string = '/uploads') {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  private resolveKey(key: string): string {
+    // Keys are scoped per server, so never let one climb out of its own folder
+    if (key.split(/[\\/]/).includes('..')) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    const resolved = path.resolve(this.rootDir, key);
+    if (resolved !== this.rootDir && !resolved.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async upload(key: string, body: Buffer, _options: StorageUploadOptions): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolveKey(key), { force: true });
+  }
+
+  async deleteMany(keys: string[]): Promise<StorageDeleteResult> {
+    const result: StorageDeleteResult = { deleted: [], failed: [] };
+    for (const key of keys) {
+      try {
+        await this.delete(key);
+        result.deleted.push(key);
+      } catch (error) {
+        console.error(`Error deleting ${key} from local storage:`, error);
+        result.failed.push(key);
+      }
+    }
+    return result;
+  }
+
+  async presign(key: string, _expiresInSeconds: number): Promise<string> {
+    return this.getPublicUrl(key);
+  }
+
+  async head(key: string): Promise<StorageObject | null> {
+    try {
+      const stats = await fs.stat(this.resolveKey(key));
+      if (!stats.isFile()) return null;
+      return {
+        key,
+        size: stats.size,
+        lastModified: stats.mtime,
+        contentType: CONTENT_TYPES_BY_EXTENSION[path.extname(key).toLowerCase()] || 'application/octet-stream'
+      };
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async list(prefix: string, maxKeys?: number): Promise<StorageObject[]> {
+    const objects: StorageObject[] = [];
+    // Only walk the directory the prefix points into, then filter on the full prefix
+    const prefixDir = prefix.endsWith('/') ? prefix : path.posix.dirname(prefix);
+    const startDir = this.resolveKey(prefixDir === '.' ? '' : prefixDir);
+
+    const walk = async (dir: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return;
+        throw error;
+      }
+
+      for (const entry of entries) {
+        if (maxKeys !== undefined && objects.length >= maxKeys) return;
+
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else if (entry.isFile()) {
+          const key = path.relative(this.rootDir, entryPath).split(path.sep).join('/');
+          if (!key.startsWith(prefix)) continue;
+          const stats = await fs.stat(entryPath);
+          objects.push({ key, size: stats.size, lastModified: stats.mtime });
+        }
+      }
+    };
+
+    await walk(startDir);
+    return objects;
+  }
+
+  getPublicUrl(key: string): string {
+    return `${this.publicBaseUrl}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  describe(): Record<string, unknown> {
+    return { path: this.rootDir, publicBaseUrl: this.publicBaseUrl };
+  }
+}
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string; // Leave empty for AWS itself
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+  publicBaseUrl?: string; // CDN or custom domain in front of the bucket
+}
+
+/**
+ * Any S3-compatible bucket: AWS, Wasabi, MinIO, Cloudflare R2, ...
+ */
+export class S3StorageDriver implements StorageDriver {
+  // AWS SDK is imported dynamically to avoid constructor issues
+  private sdk: any = null;
+  private presigner: any = null;
+  private client: any = null;
+
+  constructor(readonly name: 's3' | 'wasabi', private readonly config: S3StorageConfig) {}
+
+  isConfigured(): boolean {
+    return !!(this.config.bucket && this.config.accessKeyId && this.config.secretAccessKey);
+  }
+
+  private async getClient(): Promise<any> {
+    if (this.client) return this.client;
+
+    if (!this.isConfigured()) {
+      throw new Error(`${this.name} storage is not configured`);
+    }
+
+    try {
+      this.sdk = await import('@aws-sdk/client-s3');
+      this.presigner = await import('@aws-sdk/s3-request-presigner');
+      this.client = new this.sdk.S3Client({
+        region: this.config.region,
+        endpoint: this.config.endpoint || undefined,
+        credentials: {
+          accessKeyId: this.config.accessKeyId,
+          secretAccessKey: this.config.secretAccessKey,
+        },
+        forcePathStyle: this.config.forcePathStyle,
+      });
+      return this.client;
+    } catch (error) {
+      console.error('Failed to initialize AWS SDK:', error);
+      throw error;
+    }
+  }
+
+  async upload(key: string, body: Buffer, options: StorageUploadOptions): Promise<void> {
+    const client = await this.getClient();
+    await client.send(new this.sdk.PutObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key,
+      Body: body,
+      ContentType: options.contentType,
+      CacheControl: options.cacheControl,
+      Metadata: options.metadata
+    }));
+  }
+
+  async delete(key: string): Promise<void> {
+    const client = await this.getClient();
+    await client.send(new this.sdk.DeleteObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key
+    }));
+  }
+
+  async deleteMany(keys: string[]): Promise<StorageDeleteResult> {
+    const client = await this.getClient();
+    const result: StorageDeleteResult = { deleted: [], failed: [] };
+
+    // DeleteObjects accepts at most 1000 keys per request
+    for (let i = 0; i < keys.length; i += 1000) {
+      const response = await client.send(new this.sdk.DeleteObjectsCommand({
+        Bucket: this.config.bucket,
+        Delete: {
+          Objects: keys.slice(i, i + 1000).map(key => ({ Key: key })),
+          Quiet: false,
+        },
+      }));
+
+      result.deleted.push(...(response.Deleted || []).map((object: any) => object.Key));
+      result.failed.push(...(response.Errors || []).map((object: any) => object.Key));
+    }
+
+    return result;
+  }
+
+  async presign(key: string, expiresInSeconds: number): Promise<string> {
+    const client = await this.getClient();
+    const command = new this.sdk.GetObjectCommand({
+      Bucket: this.config.bucket,
+      Key: key
+    });
+    return this.presigner.getSignedUrl(client, command, { expiresIn: expiresInSeconds });
+  }
+
+  async head(key: string): Promise<StorageObject | null> {
+    const client = await this.getClient();
+    try {
+      const response = await client.send(new this.sdk.HeadObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key
+      }));
+      return {
+        key,
+        size: response.ContentLength || 0,
+        lastModified: response.LastModified || new Date(),
+        contentType: response.ContentType || '',
+        etag: response.ETag
+      };
+    } catch (error: any) {
+      if (error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404) return null;
+      throw error;
+    }
+  }
+
+  async list(prefix: string, maxKeys?: number): Promise<StorageObject[]> {
+    const client = await this.getClient();
+    const objects: StorageObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await client.send(new this.sdk.ListObjectsV2Command({
+        Bucket: this.config.bucket,
+        Prefix: prefix,
+        MaxKeys: maxKeys !== undefined ? Math.min(1000, maxKeys - objects.length) : 1000,
+        ContinuationToken: continuationToken,
+      }));
+
+      for (const object of response.Contents || []) {
+        objects.push({
+          key: object.Key || '',
+          size: object.Size || 0,
+          lastModified: object.LastModified || new Date(),
+          etag: object.ETag
+        });
+      }
+
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken && (maxKeys === undefined || objects.length < maxKeys));
+
+    return objects;
+  }
+
+  getPublicUrl(key: string): string {
+    if (this.config.publicBaseUrl) {
+      return `${this.config.publicBaseUrl.replace(/\/+$/, '')}/${key}`;
+    }
+    if (this.config.endpoint) {
+      const endpoint = this.config.endpoint.replace(/\/+$/, '');
+      if (this.config.forcePathStyle) {
+        return `${endpoint}/${this.config.bucket}/${key}`;
+      }
+      const url = new URL(endpoint);
+      return `${url.protocol}//${this.config.bucket}.${url.host}/${key}`;
+    }
+    return `https://${this.config.bucket}.s3.${this.config.region}.amazonaws.com/${key}`;
+  }
+
+  describe(): Record<string, unknown> {
+    return {
+      bucket: this.config.bucket || 'Not configured',
+      region: this.config.region,
+      endpoint: this.config.endpoint || 'AWS default',
+      forcePathStyle: this.config.forcePathStyle,
+      publicBaseUrl: this.config.publicBaseUrl || null,
+      hasAccessKey: !!this.config.accessKeyId,
+      hasSecretKey: !!this.config.secretAccessKey,
+    };
+  }
+}
+
+export function getLocalStoragePath(): string {
+  return path.resolve(process.env.STORAGE_LOCAL_PATH || path.join(process.cwd(), 'uploads'));
+}
+
+function resolveStorageDriverName(): StorageDriverName {
+  const configured = process.env.STORAGE_DRIVER?.toLowerCase();
+  if (configured === 'local' || configured === 's3' || configured === 'wasabi') {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown STORAGE_DRIVER "${configured}", falling back to automatic detection.`);
+  }
+
+  if (process.env.WASABI_ACCESS_KEY && process.env.WASABI_SECRET_KEY && process.env.WASABI_BUCKET_NAME) {
+    return 'wasabi';
+  }
+  if (process.env.S3_BUCKET) {
+    return 's3';
+  }
+  return 'local';
+}
+
+export function createStorageDriver(name: StorageDriverName): StorageDriver {
+  switch (name) {
+    case 'wasabi': {
+      const bucket = process.env.WASABI_BUCKET_NAME || '';
+      return new S3StorageDriver('wasabi', {
+        bucket,
+        region: 'us-east-1', // Wasabi uses us-east-1 as default region
+        endpoint: 'https://s3.wasabisys.com',
+        accessKeyId: process.env.WASABI_ACCESS_KEY || '',
+        secretAccessKey: process.env.WASABI_SECRET_KEY || '',
+        forcePathStyle: true, // Required for Wasabi compatibility
+        publicBaseUrl: `https://${bucket}`, // The bucket name is also the CDN domain
+      });
+    }
+    case 's3': {
+      const endpoint = process.env.S3_ENDPOINT || undefined;
+      return new S3StorageDriver('s3', {
+        bucket: process.env.S3_BUCKET || '',
+        region: process.env.S3_REGION || 'us-east-1',
+        endpoint,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+        // MinIO and most self-hosted endpoints need path-style addressing
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE ? process.env.S3_FORCE_PATH_STYLE === 'true' : !!endpoint,
+        publicBaseUrl: process.env.S3_PUBLIC_URL || undefined,
+      });
+    }
+    case 'local':
+      return new LocalStorageDriver(getLocalStoragePath());
+  }
+}
+
+let activeDriver: StorageDriver | null = null;
+
+/**
+ * The storage driver selected for this process
+ */
+export function getStorageDriver(): StorageDriver {
+  if (!activeDriver) {
+    activeDriver = createStorageDriver(resolveStorageDriverName());
+    if (!activeDriver.isConfigured()) {
+      console.warn(`Warning: ${activeDriver.name} storage is selected but not fully configured. Media uploads will be disabled.`);
+    }
+  }
+  return activeDriver;
+}
+
+export function isStorageConfigured(): boolean {
+  return getStorageDriver().isConfigured();
+}
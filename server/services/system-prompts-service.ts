@@ -80,6 +80,42 @@ export class SystemPromptsService {
     }
   }
 
+  /**
+   * Get the system prompt used to review punishment appeals.
+   * Appeals share the strictness level of chat moderation so both lean the same way.
+   */
+  getAppealReviewPrompt(strictnessLevel: 'lenient' | 'standard' | 'strict'): string {
+    const strictnessGuidelines = {
+      lenient: `LENIENT MODE - Give the player the benefit of the doubt when the evidence is thin or ambiguous. Prefer reducing over rejecting for first offenses where the player shows understanding.`,
+      standard: `STANDARD MODE - Weigh the evidence, the player's history and the appeal fairly. Pardon clear mistakes, reduce disproportionate punishments and uphold punishments that were justified.`,
+      strict: `STRICT MODE - Uphold punishments that are supported by the evidence. Only pardon when the punishment was clearly issued in error and only reduce when it is clearly disproportionate.`
+    };
+
+    return `
+You are an AI assistant helping Minecraft server staff review punishment appeals. You are given the original punishment, its evidence, any reports attached to it, the player's punishment history and the player's appeal. Recommend how staff should respond to the appeal.
+
+RECOMMENDATIONS:
+- "pardon": The punishment was issued in error or is not supported by the evidence
+- "reduce": The punishment was justified but its duration is disproportionate
+- "reject": The punishment was justified and should be upheld
+
+Consider whether the evidence supports the punishment, whether the appeal raises new facts, whether the player acknowledges their behavior and whether the player's history shows a pattern of similar offenses.
+
+RESPONSE FORMAT:
+You must respond with a valid JSON object in this exact format:
+{
+  "recommendation": "pardon|reduce|reject",
+  "reasoning": "Brief explanation for staff of why this recommendation fits the appeal",
+  "suggestedDuration": {
+    "value": <number>,
+    "unit": "hours|days|weeks|months"
+  } OR null unless the recommendation is "reduce",
+  "confidence": <number between 0 and 1>
+}
+
+${strictnessGuidelines[strictnessLevel]}`;
+  }
+
   /**
    * Inject placeholders into prompt text
    */
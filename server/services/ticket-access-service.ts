@@ -0,0 +1,253 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { Connection, Model, Schema } from 'mongoose';
+import { ensureModel } from '../utils/schema-utils';
+import { findTicketCategory, getTicketCategories } from './ticket-category-service';
+import { ACTIVE_TICKET_STATUSES, UNFINISHED_TICKET_STATUS } from './ticket-status-service';
+
+/**
+ * Player access to tickets.
+ *
+ * Ticket IDs are short and easy to guess, so viewing or replying to a ticket without a
+ * staff session needs a token for it. Every ticket gets a permanent access token when it
+ * is created, handed to whoever created it. Magic links sent by email carry a token of
+ * their own that expires. Only a SHA-256 hash of each token is stored.
+ */
+
+export const TICKET_TOKEN_KINDS = ['access', 'magic_link'] as const;
+
+export type TicketTokenKind = typeof TICKET_TOKEN_KINDS[number];
+
+export interface ITicketAccessToken {
+  ticketId: string;
+  tokenHash: string;
+  kind: TicketTokenKind;
+  // Staff member that shared the link, null when issued automatically
+  createdBy: string | null;
+  createdAt: Date;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+}
+
+const TicketAccessTokenSchema = new Schema<ITicketAccessToken>({
+  ticketId: { type: String, required: true },
+  tokenHash: { type: String, required: true, unique: true },
+  kind: { type: String, enum: TICKET_TOKEN_KINDS, required: true },
+  createdBy: { type: String, default: null },
+  createdAt: { type: Date, default: Date.now },
+  expiresAt: { type: Date, default: null },
+  lastUsedAt: { type: Date, default: null }
+});
+
+TicketAccessTokenSchema.index({ ticketId: 1 });
+// Expired magic links are removed by MongoDB
+TicketAccessTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const MAGIC_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Avoid a database write on every request, last-used timestamps only need to be roughly accurate
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+const MIGRATION_BATCH_SIZE = 100;
+const MIGRATION_SETTINGS_TYPE = 'ticketAccessTokens';
+// Tickets that are still worth emailing a link for when access tokens are introduced
+const MIGRATION_EMAIL_STATUSES: string[] = [...ACTIVE_TICKET_STATUSES, UNFINISHED_TICKET_STATUS];
+
+const migrations = new WeakMap<Connection, Promise<void>>();
+
+export function getTicketAccessTokenModel(connection: Connection): Model<ITicketAccessToken> {
+  return ensureModel<ITicketAccessToken>(connection, 'TicketAccessToken', TicketAccessTokenSchema);
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a token for a ticket. Returns the token, it can't be recovered later.
+ */
+export async function createTicketAccessToken(
+  connection: Connection,
+  ticketId: string,
+  kind: TicketTokenKind = 'access',
+  createdBy: string | null = null
+): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  await getTicketAccessTokenModel(connection).create({
+    ticketId,
+    tokenHash: hashToken(token),
+    kind,
+    createdBy,
+    expiresAt: kind === 'magic_link' ? new Date(Date.now() + MAGIC_LINK_TTL_MS) : null
+  });
+  return token;
+}
+
+/**
+ * Whether a token grants access to a ticket
+ */
+export async function verifyTicketAccessToken(connection: Connection, ticketId: string, token: string | null): Promise<boolean> {
+  if (!token) return false;
+
+  const TicketAccessToken = getTicketAccessTokenModel(connection);
+  const accessToken = await TicketAccessToken.findOne({ tokenHash: hashToken(token), ticketId });
+  if (!accessToken) return false;
+  // The TTL monitor only runs every minute
+  if (accessToken.expiresAt && accessToken.expiresAt.getTime() <= Date.now()) return false;
+
+  if (!accessToken.lastUsedAt || Date.now() - accessToken.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+    await TicketAccessToken.updateOne({ _id: accessToken._id }, { $set: { lastUsedAt: new Date() } });
+  }
+  return true;
+}
+
+/**
+ * The ticket token sent with a request, from the `X-Ticket-Token` header or the `token`
+ * query parameter of links
+ */
+export function getRequestTicketToken(req: Request): string | null {
+  const header = req.headers['x-ticket-token'];
+  if (typeof header === 'string' && header) return header;
+  return typeof req.query.token === 'string' && req.query.token ? req.query.token : null;
+}
+
+/**
+ * Whether a request may act on a ticket as its creator. Staff sessions can when they may
+ * view the ticket in the panel, anyone else needs a token for it.
+ */
+export async function hasTicketAccess(req: Request, ticketId: string): Promise<boolean> {
+  if (req.session?.userId && req.session.role !== undefined && (await canStaffViewTicket(req, ticketId))) {
+    return true;
+  }
+  return verifyTicketAccessToken(req.serverDbConnection!, ticketId, getRequestTicketToken(req));
+}
+
+/**
+ * Whether the staff member behind a request has ticket.view.all and may see the ticket's category
+ */
+async function canStaffViewTicket(req: Request, ticketId: string): Promise<boolean> {
+  const { getUserPermissions } = await import('../middleware/permission-middleware');
+  const permissions = await getUserPermissions(req, req.session!.role);
+  if (!permissions.includes('ticket.view.all')) return false;
+
+  const ticket = await req.serverDbConnection!.model('Ticket').findById(ticketId, { type: 1 }).lean<{ type?: string }>();
+  // Missing tickets are reported as such by the route
+  if (!ticket) return true;
+
+  const category = findTicketCategory(await getTicketCategories(req.serverDbConnection!), ticket.type);
+  return !category || category.viewPermissions.length === 0 ||
+    category.viewPermissions.some(permission => permissions.includes(permission));
+}
+
+/**
+ * Player-facing URL of a ticket, with a token when one is given
+ */
+export function getTicketUrl(serverName: string | undefined, ticketId: string, token?: string | null): string {
+  const baseUrl = process.env.NODE_ENV === 'development'
+    ? 'http://localhost:5173'
+    : `https://${serverName || 'app'}.${process.env.DOMAIN || 'modl.gg'}`;
+  const url = `${baseUrl}/ticket/${encodeURIComponent(ticketId)}`;
+  return token ? `${url}?token=${encodeURIComponent(token)}` : url;
+}
+
+/**
+ * The email address a ticket's creator left, if any
+ */
+export function getTicketCreatorEmail(ticket: any): string | null {
+  const data = ticket?.data;
+  const get = (key: string) => data instanceof Map ? data.get(key) : data?.[key];
+  return get('creatorEmail') || get('contactEmail') || get('contact_email') || null;
+}
+
+/**
+ * Email a link for a ticket to the address its creator left. Without a token a magic
+ * link is issued.
+ */
+export async function sendTicketAccessLink(
+  connection: Connection,
+  serverName: string,
+  ticket: any,
+  reason: 'requested' | 'migration' | 'created' | 'reminder',
+  token?: string
+): Promise<boolean> {
+  const email = getTicketCreatorEmail(ticket);
+  if (!email) return false;
+
+  token = token || await createTicketAccessToken(connection, ticket._id, 'magic_link');
+  const generalSettings = await connection.model('Settings').findOne({ type: 'general' });
+  const TicketEmailService = (await import('./ticket-email-service')).default;
+  await new TicketEmailService().sendTicketAccessLink({
+    ticketId: ticket._id,
+    ticketSubject: ticket.subject,
+    playerName: ticket.creator,
+    playerEmail: email,
+    ticketUrl: getTicketUrl(serverName, ticket._id, token),
+    reason,
+    serverDisplayName: generalSettings?.data?.serverDisplayName || 'modl'
+  });
+  return true;
+}
+
+/**
+ * Give tickets created before access tokens existed a token, and email it to the
+ * creators of tickets that are still open. Runs once per connection, tickets that
+ * already have a token are skipped so an interrupted migration continues where it stopped.
+ */
+export function migrateTicketAccessTokens(connection: Connection, serverName: string): Promise<void> {
+  let migration = migrations.get(connection);
+  if (!migration) {
+    migration = runMigration(connection, serverName).catch(error => {
+      migrations.delete(connection);
+      throw error;
+    });
+    migrations.set(connection, migration);
+  }
+  return migration;
+}
+
+async function runMigration(connection: Connection, serverName: string): Promise<void> {
+  const Settings = connection.model('Settings');
+  if (await Settings.exists({ type: MIGRATION_SETTINGS_TYPE, 'data.migratedAt': { $ne: null } })) {
+    return;
+  }
+
+  const Ticket = connection.model('Ticket');
+  const TicketAccessToken = getTicketAccessTokenModel(connection);
+  let lastId: string | null = null;
+  let migratedTickets = 0;
+  let emailedTickets = 0;
+
+  for (;;) {
+    const tickets: any[] = await Ticket.find(lastId ? { _id: { $gt: lastId } } : {}, { subject: 1, creator: 1, status: 1, data: 1 })
+      .sort({ _id: 1 })
+      .limit(MIGRATION_BATCH_SIZE)
+      .lean();
+    if (tickets.length === 0) break;
+    lastId = tickets[tickets.length - 1]._id;
+
+    const protectedIds = new Set(await TicketAccessToken.distinct('ticketId', { ticketId: { $in: tickets.map(ticket => ticket._id) } }));
+    for (const ticket of tickets) {
+      if (protectedIds.has(ticket._id)) continue;
+
+      const token = await createTicketAccessToken(connection, ticket._id);
+      migratedTickets++;
+
+      if (MIGRATION_EMAIL_STATUSES.includes(ticket.status)) {
+        try {
+          if (await sendTicketAccessLink(connection, serverName, ticket, 'migration', token)) {
+            emailedTickets++;
+          }
+        } catch (error) {
+          console.error(`[Ticket Access] Failed to email access link for ticket ${ticket._id}:`, error);
+        }
+      }
+    }
+  }
+
+  await Settings.updateOne(
+    { type: MIGRATION_SETTINGS_TYPE },
+    { $set: { 'data.migratedAt': new Date(), 'data.migratedTickets': migratedTickets, 'data.emailedTickets': emailedTickets } },
+    { upsert: true }
+  );
+  if (migratedTickets > 0) {
+    console.log(`[Ticket Access] Issued access tokens for ${migratedTickets} tickets and emailed ${emailedTickets} links for ${connection.name}`);
+  }
+}
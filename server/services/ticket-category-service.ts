@@ -0,0 +1,208 @@
+import { Request } from 'express';
+import { Connection, Model, Schema } from 'mongoose';
+import { ensureModel } from '../utils/schema-utils';
+
+/**
+ * Ticket categories.
+ *
+ * Admins define the kinds of tickets players can open. A category's ID is what tickets
+ * store as their type; its prefix and numbering decide the ticket IDs it hands out.
+ * Behaviour that used to depend on hardcoded types, like punishing the reported player
+ * from a quick response, is driven by the category's flags instead.
+ */
+
+export const TICKET_PRIORITIES = ['low', 'medium', 'high'] as const;
+
+export type TicketPriority = typeof TICKET_PRIORITIES[number];
+
+export interface ITicketCategory {
+  // Stored as the type of tickets in this category
+  id: string;
+  name: string;
+  // Ticket IDs look like PREFIX-123456
+  prefix: string;
+  // Number tickets PREFIX-1, PREFIX-2, ... instead of random numbers
+  sequentialNumbering: boolean;
+  // Key of the form in the ticketForms settings players fill in
+  formId: string | null;
+  defaultTags: string[];
+  defaultPriority: TicketPriority | null;
+  // Staff need one of these permissions to see the category, anyone that can view tickets when empty
+  viewPermissions: string[];
+  // Reports can end in a punishment for the reported player
+  isReport: boolean;
+  // Tickets have to name the player they are about
+  targetsPlayer: boolean;
+}
+
+interface ITicketCounter {
+  _id: string;
+  seq: number;
+}
+
+const TicketCounterSchema = new Schema<ITicketCounter>({
+  _id: { type: String, required: true },
+  seq: { type: Number, default: 0 }
+});
+
+export const DEFAULT_TICKET_CATEGORIES: ITicketCategory[] = [
+  { id: 'support', name: 'General Support', prefix: 'SUPPORT', sequentialNumbering: false, formId: 'support', defaultTags: ['support'], defaultPriority: null, viewPermissions: [], isReport: false, targetsPlayer: false },
+  { id: 'bug', name: 'Bug Report', prefix: 'BUG', sequentialNumbering: false, formId: 'bug', defaultTags: ['bug'], defaultPriority: null, viewPermissions: [], isReport: false, targetsPlayer: false },
+  { id: 'player', name: 'Player Report', prefix: 'PLAYER', sequentialNumbering: false, formId: null, defaultTags: ['player'], defaultPriority: null, viewPermissions: [], isReport: true, targetsPlayer: true },
+  { id: 'chat', name: 'Chat Report', prefix: 'CHAT', sequentialNumbering: false, formId: null, defaultTags: ['chat'], defaultPriority: null, viewPermissions: [], isReport: true, targetsPlayer: true },
+  { id: 'appeal', name: 'Ban Appeal', prefix: 'APPEAL', sequentialNumbering: false, formId: null, defaultTags: ['appeal'], defaultPriority: null, viewPermissions: [], isReport: false, targetsPlayer: false },
+  { id: 'staff', name: 'Staff Application', prefix: 'STAFF', sequentialNumbering: false, formId: 'application', defaultTags: ['staff'], defaultPriority: null, viewPermissions: [], isReport: false, targetsPlayer: false }
+];
+
+// Appeals are created from the appeal form, which always files them under this category
+export const APPEAL_CATEGORY_ID = 'appeal';
+export const MAX_TICKET_CATEGORIES = 50;
+
+const CATEGORY_ID_PATTERN = /^[a-z0-9_-]{1,32}$/;
+const PREFIX_PATTERN = /^[A-Z0-9]{1,16}$/;
+const RANDOM_ID_ATTEMPTS = 10;
+
+export function getTicketCounterModel(connection: Connection): Model<ITicketCounter> {
+  return ensureModel<ITicketCounter>(connection, 'TicketCounter', TicketCounterSchema);
+}
+
+export async function getTicketCategories(connection: Connection): Promise<ITicketCategory[]> {
+  const settingsDoc = await connection.model('Settings').findOne({ type: 'ticketCategories' });
+  const categories = settingsDoc?.data?.categories;
+  return Array.isArray(categories) && categories.length > 0 ? categories : DEFAULT_TICKET_CATEGORIES;
+}
+
+/**
+ * The category a ticket type belongs to. Tickets created from the panel only have a category.
+ */
+export function findTicketCategory(categories: ITicketCategory[], type: string | null | undefined): ITicketCategory | null {
+  if (!type) return null;
+  const normalized = type.toLowerCase();
+  return categories.find(category => category.id === normalized) || null;
+}
+
+/**
+ * Display name of a ticket type, types of removed categories show as 'Other'
+ */
+export function getTicketCategoryName(categories: ITicketCategory[], type: string | null | undefined): string {
+  return findTicketCategory(categories, type)?.name || 'Other';
+}
+
+/**
+ * A new ticket ID for a category, checked against existing tickets
+ */
+export async function generateTicketId(connection: Connection, category: ITicketCategory): Promise<string> {
+  const Ticket = connection.model('Ticket');
+
+  if (category.sequentialNumbering) {
+    const TicketCounter = getTicketCounterModel(connection);
+    // Tickets numbered at random before numbering was switched on can take a number, skip those
+    for (;;) {
+      const counter = await TicketCounter.findOneAndUpdate(
+        { _id: category.id },
+        { $inc: { seq: 1 } },
+        { upsert: true, new: true }
+      );
+      const ticketId = `${category.prefix}-${counter!.seq}`;
+      if (!(await Ticket.exists({ _id: ticketId }))) {
+        return ticketId;
+      }
+    }
+  }
+
+  for (let attempt = 0; attempt < RANDOM_ID_ATTEMPTS; attempt++) {
+    const ticketId = `${category.prefix}-${Math.floor(100000 + Math.random() * 900000)}`;
+    if (!(await Ticket.exists({ _id: ticketId }))) {
+      return ticketId;
+    }
+  }
+  throw new Error(`Could not find a free ticket ID for category ${category.id}`);
+}
+
+/**
+ * Check categories submitted from the settings page. Returns the cleaned up categories
+ * or why they were rejected.
+ */
+export function normalizeTicketCategories(input: unknown): { categories?: ITicketCategory[]; error?: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'categories must be a non-empty array' };
+  }
+  if (input.length > MAX_TICKET_CATEGORIES) {
+    return { error: `At most ${MAX_TICKET_CATEGORIES} ticket categories can be configured` };
+  }
+
+  const categories: ITicketCategory[] = [];
+  for (const raw of input) {
+    const id = typeof raw?.id === 'string' ? raw.id.trim().toLowerCase() : '';
+    if (!CATEGORY_ID_PATTERN.test(id)) {
+      return { error: `Invalid category ID "${raw?.id}". Use up to 32 lowercase letters, numbers, dashes or underscores.` };
+    }
+    const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+    if (!name) {
+      return { error: `Category ${id} needs a name` };
+    }
+    const prefix = typeof raw.prefix === 'string' ? raw.prefix.trim().toUpperCase() : '';
+    if (!PREFIX_PATTERN.test(prefix)) {
+      return { error: `Invalid prefix for category ${id}. Use up to 16 letters or numbers.` };
+    }
+    if (raw.defaultPriority != null && !TICKET_PRIORITIES.includes(raw.defaultPriority)) {
+      return { error: `Invalid default priority for category ${id}` };
+    }
+    if (categories.some(category => category.id === id)) {
+      return { error: `Duplicate category ID ${id}` };
+    }
+    if (categories.some(category => category.prefix === prefix)) {
+      return { error: `Prefix ${prefix} is used by more than one category` };
+    }
+
+    const toStrings = (value: unknown) => Array.isArray(value)
+      ? Array.from(new Set(value.filter((item): item is string => typeof item === 'string').map(item => item.trim()).filter(Boolean)))
+      : [];
+
+    categories.push({
+      id,
+      name,
+      prefix,
+      sequentialNumbering: raw.sequentialNumbering === true,
+      formId: typeof raw.formId === 'string' && raw.formId.trim() ? raw.formId.trim() : null,
+      defaultTags: toStrings(raw.defaultTags),
+      defaultPriority: raw.defaultPriority || null,
+      viewPermissions: toStrings(raw.viewPermissions),
+      isReport: raw.isReport === true,
+      targetsPlayer: raw.targetsPlayer === true
+    });
+  }
+
+  if (!categories.some(category => category.id === APPEAL_CATEGORY_ID)) {
+    return { error: `The ${APPEAL_CATEGORY_ID} category is used for ban appeals and can't be removed` };
+  }
+  return { categories };
+}
+
+/**
+ * IDs of the categories the staff member behind a request isn't allowed to see
+ */
+export async function getHiddenTicketCategoryIds(req: Request, categories?: ITicketCategory[]): Promise<string[]> {
+  const restricted = (categories || await getTicketCategories(req.serverDbConnection!))
+    .filter(category => category.viewPermissions.length > 0);
+  if (restricted.length === 0) return [];
+
+  const { getUserPermissions } = await import('../middleware/permission-middleware');
+  const permissions = req.currentUser?.role ? await getUserPermissions(req, req.currentUser.role) : [];
+  return restricted
+    .filter(category => !category.viewPermissions.some(permission => permissions.includes(permission)))
+    .map(category => category.id);
+}
+
+/**
+ * The fields of a category players get to see
+ */
+export function formatPublicTicketCategory(category: ITicketCategory) {
+  return {
+    id: category.id,
+    name: category.name,
+    formId: category.formId,
+    isReport: category.isReport,
+    targetsPlayer: category.targetsPlayer
+  };
+}
@@ -1,4 +1,5 @@
 import nodemailer from 'nodemailer';
+import { getTicketUrl } from './ticket-access-service';
 
 // Email service configuration
 const transporter = nodemailer.createTransport({
@@ -21,13 +22,24 @@ interface TicketEmailData {
   isStaffReply: boolean;
   serverName?: string;
   serverDisplayName?: string;
+  // Lets the player open the ticket from the email
+  accessToken?: string;
+}
+
+interface TicketAccessLinkData {
+  ticketId: string;
+  ticketSubject: string;
+  playerName: string;
+  playerEmail: string;
+  ticketUrl: string;
+  reason: 'requested' | 'migration' | 'created' | 'reminder';
+  serverDisplayName?: string;
 }
 
 class TicketEmailService {
   async sendTicketReplyNotification(data: TicketEmailData): Promise<void> {
     try {
-      const domain = process.env.DOMAIN || 'modl.gg';
-      const ticketUrl = `https://${data.serverName || 'app'}.${domain}/ticket/${data.ticketId}`;
+      const ticketUrl = getTicketUrl(data.serverName, data.ticketId, data.accessToken);
       const displayName = data.serverDisplayName || 'modl';
       const fromAddress = `"${displayName}" <noreply@cobl.gg>`;
       
@@ -107,6 +119,68 @@ This is an automated message. Please do not reply to this email.`;
     </div>`;
   }
 
+  async sendTicketAccessLink(data: TicketAccessLinkData): Promise<void> {
+    try {
+      const displayName = data.serverDisplayName || 'modl';
+      const intro = data.reason === 'requested'
+        ? `Here is the link you requested to view and reply to your ticket #${data.ticketId}: "${data.ticketSubject}".`
+        : data.reason === 'migration'
+          ? `Tickets can now only be viewed and replied to through a private link. Here is the link to your ticket #${data.ticketId}: "${data.ticketSubject}".`
+          : data.reason === 'reminder'
+            ? `We're still waiting for your reply to ticket #${data.ticketId}: "${data.ticketSubject}". Reply through this private link so your ticket isn't closed.`
+            : `Thank you for your ticket #${data.ticketId}: "${data.ticketSubject}". You can view it and reply through this private link.`;
+      const expiry = data.reason === 'requested' || data.reason === 'reminder' ? ' The link expires in 7 days.' : '';
+
+      const textContent = `Hello ${data.playerName},
+
+${intro}${expiry}
+
+${data.ticketUrl}
+
+Do not share this link, anyone with it can read and reply to your ticket.
+
+Thank you,
+The ${displayName} Team
+
+---
+This is an automated message. Please do not reply to this email.`;
+
+      const htmlContent = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background-color: #f9f9f9; padding: 20px;">
+      <div style="background-color: white; padding: 30px; border-radius: 8px; box-shadow: 0 2px 4px rgba(0,0,0,0.1);">
+        <h2 style="color: #333; margin-bottom: 20px;">Your Ticket Link</h2>
+        <p style="color: #555; font-size: 16px;">Hello <strong>${data.playerName}</strong>,</p>
+        <p style="color: #555; font-size: 16px;">${intro}${expiry}</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${data.ticketUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; display: inline-block; font-weight: bold;">View Ticket</a>
+        </div>
+        <p style="color: #6c757d; font-size: 14px;">Do not share this link, anyone with it can read and reply to your ticket.</p>
+        <div style="border-top: 1px solid #e9ecef; padding-top: 20px; margin-top: 30px;">
+          <p style="color: #6c757d; font-size: 14px; margin: 0;">
+            Thank you,<br>
+            <strong>The ${displayName} Team</strong>
+          </p>
+          <p style="color: #6c757d; font-size: 12px; margin: 15px 0 0 0;">
+            This is an automated message. Please do not reply to this email.
+          </p>
+        </div>
+      </div>
+    </div>`;
+
+      await transporter.sendMail({
+        from: `"${displayName}" <noreply@cobl.gg>`,
+        to: data.playerEmail,
+        subject: data.reason === 'reminder' ? `Waiting for your reply to ticket #${data.ticketId}` : `Your link to ticket #${data.ticketId}`,
+        text: textContent,
+        html: htmlContent,
+      });
+      console.log(`[Ticket Email] Access link sent to ${data.playerEmail} for ticket ${data.ticketId}`);
+    } catch (error) {
+      console.error(`[Ticket Email] Failed to send access link for ticket ${data.ticketId}:`, error);
+      throw error;
+    }
+  }
+
   async testEmailConfiguration(): Promise<boolean> {
     try {
       await transporter.verify();
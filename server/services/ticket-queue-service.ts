@@ -0,0 +1,342 @@
+import { Request, Response } from 'express';
+import { Connection, Model, Schema } from 'mongoose';
+import { ensureModel } from '../utils/schema-utils';
+import { publishEvent } from './realtime-service';
+import { recordAuditEvent } from './audit-service';
+import { findTicketCategory, getTicketCategories, ITicketCategory } from './ticket-category-service';
+import { ACTIVE_TICKET_STATUSES } from './ticket-status-service';
+
+/**
+ * Ticket assignment.
+ *
+ * A ticket is assigned to one staff member through `data.assignedTo`, either by staff
+ * claiming it or by its category's queue handing it to someone that is on duty. Claims
+ * are made with a conditional update so two staff members can't claim the same ticket.
+ * Staff also announce while they are writing a reply, so others see someone is already
+ * answering.
+ */
+
+export const TICKET_QUEUE_STRATEGIES = ['round_robin', 'least_loaded'] as const;
+
+export type TicketQueueStrategy = typeof TICKET_QUEUE_STRATEGIES[number];
+
+export interface ITicketQueue {
+  categoryId: string;
+  autoAssign: boolean;
+  strategy: TicketQueueStrategy;
+  // Staff usernames in the queue, every on-duty staff member when empty
+  members: string[];
+}
+
+export interface IStaffDuty {
+  username: string;
+  onDuty: boolean;
+  since: Date;
+  // When the queue last handed this staff member a ticket, for round robin
+  lastAssignedAt: Date | null;
+}
+
+export interface TicketAssignment {
+  assignedTo: string | null;
+  assignedAt: Date | null;
+}
+
+const StaffDutySchema = new Schema<IStaffDuty>({
+  username: { type: String, required: true, unique: true },
+  onDuty: { type: Boolean, default: false },
+  since: { type: Date, default: Date.now },
+  lastAssignedAt: { type: Date, default: null }
+});
+
+StaffDutySchema.index({ onDuty: 1, lastAssignedAt: 1 });
+
+// How long a "replying" announcement lasts without being renewed
+export const REPLYING_TTL_MS = 15 * 1000;
+
+// Staff writing a reply, by tenant and ticket
+const replyingStaff = new Map<string, Map<string, number>>();
+
+export function getStaffDutyModel(connection: Connection): Model<IStaffDuty> {
+  return ensureModel<IStaffDuty>(connection, 'StaffDuty', StaffDutySchema);
+}
+
+export async function getTicketQueues(connection: Connection): Promise<ITicketQueue[]> {
+  const settingsDoc = await connection.model('Settings').findOne({ type: 'ticketQueues' });
+  return Array.isArray(settingsDoc?.data?.queues) ? settingsDoc!.data.queues : [];
+}
+
+/**
+ * Check queues submitted from the settings page against the configured categories.
+ * Returns the cleaned up queues or why they were rejected.
+ */
+export function normalizeTicketQueues(input: unknown, categories: ITicketCategory[]): { queues?: ITicketQueue[]; error?: string } {
+  if (!Array.isArray(input)) {
+    return { error: 'queues must be an array' };
+  }
+
+  const queues: ITicketQueue[] = [];
+  for (const raw of input) {
+    const category = findTicketCategory(categories, raw?.categoryId);
+    if (!category) {
+      return { error: `Unknown ticket category ${raw?.categoryId}` };
+    }
+    if (queues.some(queue => queue.categoryId === category.id)) {
+      return { error: `Category ${category.id} has more than one queue` };
+    }
+    if (!TICKET_QUEUE_STRATEGIES.includes(raw.strategy)) {
+      return { error: `Invalid strategy for the ${category.name} queue` };
+    }
+
+    queues.push({
+      categoryId: category.id,
+      autoAssign: raw.autoAssign === true,
+      strategy: raw.strategy,
+      members: Array.isArray(raw.members)
+        ? Array.from(new Set(raw.members.filter((member: unknown): member is string => typeof member === 'string').map((member: string) => member.trim()).filter(Boolean)))
+        : []
+    });
+  }
+  return { queues };
+}
+
+/**
+ * The assignment stored on a ticket document or lean ticket
+ */
+export function getTicketAssignment(ticket: any): TicketAssignment {
+  const data = ticket?.data;
+  const get = (key: string) => data instanceof Map ? data.get(key) : data?.[key];
+  return {
+    assignedTo: get('assignedTo') || null,
+    assignedAt: get('assignedAt') ? new Date(get('assignedAt')) : null
+  };
+}
+
+/**
+ * Whether a staff reply may go into a ticket. Sends a conflict response when another
+ * staff member claimed the ticket and the reply wasn't confirmed.
+ */
+export function checkClaimBeforeReply(req: Request, res: Response, ticket: any, overrideClaim?: boolean): boolean {
+  const { assignedTo } = getTicketAssignment(ticket);
+  if (!assignedTo || assignedTo === req.session?.username || overrideClaim) return true;
+
+  res.status(409).json({
+    error: 'Ticket claimed',
+    message: `${assignedTo} has claimed this ticket. Confirm to reply anyway.`,
+    claimedBy: assignedTo,
+    requiresConfirmation: true
+  });
+  return false;
+}
+
+export async function getStaffDuty(connection: Connection, username: string): Promise<IStaffDuty | null> {
+  return getStaffDutyModel(connection).findOne({ username }).lean<IStaffDuty>();
+}
+
+export async function setStaffDuty(connection: Connection, username: string, onDuty: boolean): Promise<IStaffDuty> {
+  return (await getStaffDutyModel(connection).findOneAndUpdate(
+    { username },
+    { $set: { onDuty, since: new Date() } },
+    { upsert: true, new: true, lean: true }
+  ))!;
+}
+
+export async function listOnDutyStaff(connection: Connection): Promise<IStaffDuty[]> {
+  return getStaffDutyModel(connection).find({ onDuty: true }).sort({ since: 1 }).lean<IStaffDuty[]>();
+}
+
+/**
+ * Open tickets assigned to each of the given staff members
+ */
+export async function countAssignedTickets(connection: Connection, usernames: string[]): Promise<Map<string, number>> {
+  const counts = new Map<string, number>(usernames.map(username => [username, 0]));
+  if (usernames.length === 0) return counts;
+
+  const results = await connection.model('Ticket').aggregate([
+    { $match: { 'data.assignedTo': { $in: usernames }, status: { $in: ACTIVE_TICKET_STATUSES } } },
+    { $group: { _id: '$data.assignedTo', count: { $sum: 1 } } }
+  ]);
+  for (const result of results) {
+    counts.set(result._id, result.count);
+  }
+  return counts;
+}
+
+/**
+ * Assign a ticket to a staff member if nobody else has it, or regardless when forced.
+ * Returns the assignment before the claim, or null when the ticket doesn't exist.
+ * `claimed` is false when another staff member holds the ticket.
+ */
+export async function claimTicket(
+  connection: Connection,
+  serverName: string | undefined,
+  ticketId: string,
+  username: string,
+  force: boolean = false
+): Promise<{ claimed: boolean; previous: TicketAssignment } | null> {
+  const Ticket = connection.model('Ticket');
+  const filter: any = { _id: ticketId };
+  if (!force) {
+    filter.$or = [{ 'data.assignedTo': null }, { 'data.assignedTo': username }];
+  }
+
+  const assignedAt = new Date();
+  const previousTicket = await Ticket.findOneAndUpdate(
+    filter,
+    { $set: { 'data.assignedTo': username, 'data.assignedAt': assignedAt } },
+    { new: false, projection: { data: 1 } }
+  ).lean();
+
+  if (!previousTicket) {
+    const existing = await Ticket.findById(ticketId, { data: 1 }).lean();
+    return existing ? { claimed: false, previous: getTicketAssignment(existing) } : null;
+  }
+
+  const previous = getTicketAssignment(previousTicket);
+  if (previous.assignedTo !== username) {
+    publishEvent(serverName, 'tickets', 'ticket.assigned', { ticketId, assignedTo: username, assignedAt, previousAssignee: previous.assignedTo });
+  }
+  return { claimed: true, previous };
+}
+
+/**
+ * Give a ticket back to its queue. Only its assignee can, unless forced. Returns false
+ * when the ticket is held by someone else or doesn't exist.
+ */
+export async function releaseTicket(
+  connection: Connection,
+  serverName: string | undefined,
+  ticketId: string,
+  username: string,
+  force: boolean = false
+): Promise<boolean> {
+  const filter: any = { _id: ticketId, 'data.assignedTo': force ? { $ne: null } : username };
+  const result = await connection.model('Ticket').updateOne(filter, {
+    $unset: { 'data.assignedTo': '', 'data.assignedAt': '' }
+  });
+  if (result.modifiedCount === 0) return false;
+
+  publishEvent(serverName, 'tickets', 'ticket.assigned', { ticketId, assignedTo: null, assignedAt: null });
+  return true;
+}
+
+/**
+ * Hand a new ticket to an on-duty member of its category's queue. Does nothing when the
+ * category has no auto-assigning queue, nobody in it is on duty or the ticket is
+ * already assigned. With `reassignFrom` the ticket is taken from that staff member and
+ * given to someone else instead. Returns who got the ticket.
+ */
+export async function autoAssignTicket(
+  connection: Connection,
+  serverName: string | undefined,
+  ticketId: string,
+  categoryId: string | null | undefined,
+  reassignFrom: string | null = null
+): Promise<string | null> {
+  const categories = await getTicketCategories(connection);
+  const category = findTicketCategory(categories, categoryId);
+  if (!category) return null;
+
+  const queue = (await getTicketQueues(connection)).find(candidate => candidate.categoryId === category.id);
+  if (!queue || !queue.autoAssign) return null;
+
+  let candidates = await listOnDutyStaff(connection);
+  if (queue.members.length > 0) {
+    candidates = candidates.filter(duty => queue.members.includes(duty.username));
+  }
+  if (reassignFrom) {
+    candidates = candidates.filter(duty => duty.username !== reassignFrom);
+  }
+  if (candidates.length === 0) return null;
+
+  // Round robin goes to whoever waited longest for a ticket
+  const byLastAssigned = (a: IStaffDuty, b: IStaffDuty) =>
+    (a.lastAssignedAt ? new Date(a.lastAssignedAt).getTime() : 0) - (b.lastAssignedAt ? new Date(b.lastAssignedAt).getTime() : 0);
+  candidates.sort(byLastAssigned);
+
+  if (queue.strategy === 'least_loaded') {
+    const loads = await countAssignedTickets(connection, candidates.map(duty => duty.username));
+    candidates.sort((a, b) => (loads.get(a.username) || 0) - (loads.get(b.username) || 0) || byLastAssigned(a, b));
+  }
+
+  const assignee = candidates[0].username;
+  const assignedAt = new Date();
+  const result = await connection.model('Ticket').updateOne(
+    { _id: ticketId, 'data.assignedTo': reassignFrom },
+    { $set: { 'data.assignedTo': assignee, 'data.assignedAt': assignedAt } }
+  );
+  if (result.modifiedCount === 0) return null;
+
+  await getStaffDutyModel(connection).updateOne({ username: assignee }, { $set: { lastAssignedAt: assignedAt } });
+  publishEvent(serverName, 'tickets', 'ticket.assigned', { ticketId, assignedTo: assignee, assignedAt, previousAssignee: reassignFrom });
+  await recordAuditEvent(connection, serverName, {
+    action: 'ticket.assigned',
+    summary: `Ticket ${ticketId} assigned to ${assignee} by the ${category.name} queue`,
+    actor: { type: 'system', id: null, name: 'Ticket Queue' },
+    target: { type: 'ticket', id: ticketId },
+    before: { assignedTo: reassignFrom },
+    after: { assignedTo: assignee },
+    metadata: { strategy: queue.strategy }
+  });
+  return assignee;
+}
+
+/**
+ * Auto-assign without holding up ticket creation
+ */
+export function queueTicketAssignment(
+  connection: Connection,
+  serverName: string | undefined,
+  ticketId: string,
+  categoryId: string | null | undefined
+): void {
+  autoAssignTicket(connection, serverName, ticketId, categoryId).catch(error => {
+    console.error(`[Ticket Queue] Failed to auto-assign ticket ${ticketId}:`, error);
+  });
+}
+
+function replyingKey(serverName: string, ticketId: string): string {
+  return `${serverName}:${ticketId}`;
+}
+
+/**
+ * Announce that a staff member is writing a reply to a ticket
+ */
+export function markReplying(serverName: string, ticketId: string, username: string): void {
+  const key = replyingKey(serverName, ticketId);
+  if (!replyingStaff.has(key)) {
+    replyingStaff.set(key, new Map());
+  }
+  replyingStaff.get(key)!.set(username, Date.now() + REPLYING_TTL_MS);
+  publishEvent(serverName, 'tickets', 'ticket.replying', { ticketId, username, replying: true });
+}
+
+/**
+ * A staff member stopped writing, because they sent their reply or discarded it
+ */
+export function clearReplying(serverName: string, ticketId: string, username: string): void {
+  const key = replyingKey(serverName, ticketId);
+  const staff = replyingStaff.get(key);
+  if (!staff?.delete(username)) return;
+  if (staff.size === 0) {
+    replyingStaff.delete(key);
+  }
+  publishEvent(serverName, 'tickets', 'ticket.replying', { ticketId, username, replying: false });
+}
+
+/**
+ * Staff currently writing a reply to a ticket
+ */
+export function getReplyingStaff(serverName: string, ticketId: string): string[] {
+  const key = replyingKey(serverName, ticketId);
+  const staff = replyingStaff.get(key);
+  if (!staff) return [];
+
+  const now = Date.now();
+  staff.forEach((expiresAt, username) => {
+    if (expiresAt <= now) staff.delete(username);
+  });
+  if (staff.size === 0) {
+    replyingStaff.delete(key);
+  }
+  return Array.from(staff.keys());
+}
@@ -0,0 +1,598 @@
+import { Connection, Model, Schema } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { ensureModel } from '../utils/schema-utils';
+import { publishEvent } from './realtime-service';
+import { recordAuditEvent } from './audit-service';
+import { triggerWebhookEvent } from './webhook-service';
+import { getPunishmentModel } from './punishment-store-service';
+import { findTicketCategory, ITicketCategory, TICKET_PRIORITIES } from './ticket-category-service';
+import { claimTicket } from './ticket-queue-service';
+import { getTicketStatus, getTicketStatusUpdate, isTicketStatus, TicketStatus } from './ticket-status-service';
+import AIModerationService from './ai-moderation-service';
+
+/**
+ * Ticket rules.
+ *
+ * Admins define rules that run when something happens to a ticket: a trigger, conditions
+ * on the ticket and its reporter that all have to match, and actions to take. Rules run
+ * in order and see the changes of the rules before them. Changes made by rules don't
+ * trigger other rules, so rules can't loop. Every time a rule matches it is recorded in
+ * an execution log with what each action did.
+ */
+
+export const TICKET_RULE_TRIGGERS = ['ticket.created', 'reply.added', 'tag.added', 'status.changed', 'field.changed'] as const;
+export const TICKET_RULE_CONDITION_TYPES = ['category', 'tag', 'field', 'reply_author', 'reporter_tickets', 'reporter_punishments'] as const;
+export const TICKET_RULE_OPERATORS = ['equals', 'not_equals', 'contains', 'not_contains', 'empty', 'not_empty', 'at_least', 'at_most'] as const;
+export const TICKET_RULE_ACTION_TYPES = ['assign', 'tag', 'set_priority', 'quick_response', 'ai_analysis', 'set_status', 'close'] as const;
+
+export type TicketRuleTrigger = typeof TICKET_RULE_TRIGGERS[number];
+export type TicketRuleConditionType = typeof TICKET_RULE_CONDITION_TYPES[number];
+export type TicketRuleOperator = typeof TICKET_RULE_OPERATORS[number];
+export type TicketRuleActionType = typeof TICKET_RULE_ACTION_TYPES[number];
+export type TicketRuleActionStatus = 'applied' | 'skipped' | 'failed';
+
+export interface ITicketRuleCondition {
+  type: TicketRuleConditionType;
+  operator: TicketRuleOperator;
+  // Data field to compare, only for field conditions
+  key: string | null;
+  // Category ID, tag, field value, staff or player, or a number of tickets or punishments
+  value: string | null;
+}
+
+export interface ITicketRuleAction {
+  type: TicketRuleActionType;
+  // Staff username, tag, priority, status or quick response action ID
+  value: string | null;
+  // Quick response category of the action, only for quick responses
+  categoryId: string | null;
+}
+
+export interface ITicketRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  trigger: TicketRuleTrigger;
+  // Only run for this tag, status or data field. Any when null, except for field changes
+  triggerValue: string | null;
+  conditions: ITicketRuleCondition[];
+  actions: ITicketRuleAction[];
+}
+
+export interface TicketRuleEvent {
+  trigger: TicketRuleTrigger;
+  // The tag that was added, the new status or the data field that changed
+  value?: string | null;
+  // Whether staff wrote the reply that was added
+  replyFromStaff?: boolean;
+}
+
+export interface TicketRuleActionResult {
+  type: TicketRuleActionType;
+  value: string | null;
+  status: TicketRuleActionStatus;
+  message: string | null;
+}
+
+export interface ITicketRuleExecution {
+  ruleId: string;
+  ruleName: string;
+  ticketId: string;
+  trigger: TicketRuleTrigger;
+  actions: TicketRuleActionResult[];
+  createdAt: Date;
+}
+
+const TicketRuleExecutionSchema = new Schema<ITicketRuleExecution>({
+  ruleId: { type: String, required: true },
+  ruleName: { type: String, required: true },
+  ticketId: { type: String, required: true },
+  trigger: { type: String, required: true },
+  actions: [{
+    _id: false,
+    type: { type: String, required: true },
+    value: { type: String, default: null },
+    status: { type: String, enum: ['applied', 'skipped', 'failed'], required: true },
+    message: { type: String, default: null }
+  }],
+  createdAt: { type: Date, default: Date.now }
+});
+
+const EXECUTION_LOG_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+TicketRuleExecutionSchema.index({ createdAt: 1 }, { expireAfterSeconds: EXECUTION_LOG_RETENTION_SECONDS });
+TicketRuleExecutionSchema.index({ ruleId: 1, createdAt: -1 });
+TicketRuleExecutionSchema.index({ ticketId: 1, createdAt: -1 });
+
+export const MAX_TICKET_RULES = 50;
+export const MAX_RULE_CONDITIONS = 10;
+export const MAX_RULE_ACTIONS = 10;
+
+// Operators each condition type can be checked with
+const CONDITION_OPERATORS: Record<TicketRuleConditionType, TicketRuleOperator[]> = {
+  category: ['equals', 'not_equals'],
+  tag: ['contains', 'not_contains'],
+  field: ['equals', 'not_equals', 'contains', 'not_contains', 'empty', 'not_empty'],
+  reply_author: ['equals'],
+  reporter_tickets: ['at_least', 'at_most'],
+  reporter_punishments: ['at_least', 'at_most']
+};
+const REPLY_AUTHORS = ['staff', 'player'];
+// Actions that need a value
+const VALUE_ACTIONS: TicketRuleActionType[] = ['assign', 'tag', 'set_priority', 'set_status', 'quick_response'];
+const SYSTEM_ACTOR = { type: 'system' as const, id: null, name: 'Ticket Rules' };
+
+export function getTicketRuleExecutionModel(connection: Connection): Model<ITicketRuleExecution> {
+  return ensureModel<ITicketRuleExecution>(connection, 'TicketRuleExecution', TicketRuleExecutionSchema);
+}
+
+export async function getTicketRules(connection: Connection): Promise<ITicketRule[]> {
+  const settingsDoc = await connection.model('Settings').findOne({ type: 'ticketRules' });
+  return Array.isArray(settingsDoc?.data?.rules) ? settingsDoc!.data.rules : [];
+}
+
+function toOptionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Check rules submitted from the settings page against the configured categories.
+ * Returns the cleaned up rules or why they were rejected.
+ */
+export function normalizeTicketRules(input: unknown, categories: ITicketCategory[]): { rules?: ITicketRule[]; error?: string } {
+  if (!Array.isArray(input)) {
+    return { error: 'rules must be an array' };
+  }
+  if (input.length > MAX_TICKET_RULES) {
+    return { error: `No more than ${MAX_TICKET_RULES} rules can be configured` };
+  }
+
+  const rules: ITicketRule[] = [];
+  for (const raw of input) {
+    const name = toOptionalString(raw?.name);
+    if (!name) {
+      return { error: 'Every rule needs a name' };
+    }
+    if (!TICKET_RULE_TRIGGERS.includes(raw.trigger)) {
+      return { error: `Invalid trigger for rule ${name}` };
+    }
+    const triggerValue = toOptionalString(raw.triggerValue);
+    if (raw.trigger === 'field.changed' && !triggerValue) {
+      return { error: `Rule ${name} has to name the field it runs for` };
+    }
+    if (!Array.isArray(raw.conditions) || raw.conditions.length > MAX_RULE_CONDITIONS) {
+      return { error: `Rule ${name} can have up to ${MAX_RULE_CONDITIONS} conditions` };
+    }
+    if (!Array.isArray(raw.actions) || raw.actions.length === 0 || raw.actions.length > MAX_RULE_ACTIONS) {
+      return { error: `Rule ${name} needs between 1 and ${MAX_RULE_ACTIONS} actions` };
+    }
+
+    const conditions: ITicketRuleCondition[] = [];
+    for (const rawCondition of raw.conditions) {
+      const type = rawCondition?.type as TicketRuleConditionType;
+      if (!TICKET_RULE_CONDITION_TYPES.includes(type) || !CONDITION_OPERATORS[type].includes(rawCondition.operator)) {
+        return { error: `Invalid condition in rule ${name}` };
+      }
+      const key = type === 'field' ? toOptionalString(rawCondition.key) : null;
+      const value = toOptionalString(rawCondition.value);
+      if (type === 'field' && !key) {
+        return { error: `A field condition in rule ${name} has no field` };
+      }
+      if (type === 'category' && !findTicketCategory(categories, value)) {
+        return { error: `Unknown ticket category ${value} in rule ${name}` };
+      }
+      if (type === 'reply_author' && !REPLY_AUTHORS.includes(value || '')) {
+        return { error: `A reply author condition in rule ${name} has to be staff or player` };
+      }
+      if ((type === 'reporter_tickets' || type === 'reporter_punishments') && !(Number(value) >= 0)) {
+        return { error: `A reporter history condition in rule ${name} needs a number` };
+      }
+      if (!value && !['empty', 'not_empty'].includes(rawCondition.operator)) {
+        return { error: `A condition in rule ${name} has no value` };
+      }
+      conditions.push({
+        type,
+        operator: rawCondition.operator,
+        key,
+        value: type === 'category' ? findTicketCategory(categories, value)!.id : value
+      });
+    }
+
+    const actions: ITicketRuleAction[] = [];
+    for (const rawAction of raw.actions) {
+      const type = rawAction?.type as TicketRuleActionType;
+      if (!TICKET_RULE_ACTION_TYPES.includes(type)) {
+        return { error: `Invalid action in rule ${name}` };
+      }
+      const value = VALUE_ACTIONS.includes(type) ? toOptionalString(rawAction.value) : null;
+      const categoryId = type === 'quick_response' ? toOptionalString(rawAction.categoryId) : null;
+      if (VALUE_ACTIONS.includes(type) && !value) {
+        return { error: `An action in rule ${name} has no value` };
+      }
+      if (type === 'quick_response' && !categoryId) {
+        return { error: `A quick response action in rule ${name} has no quick response category` };
+      }
+      if (type === 'set_priority' && !TICKET_PRIORITIES.includes(value as any)) {
+        return { error: `Invalid priority in rule ${name}` };
+      }
+      if (type === 'set_status' && !isTicketStatus(value)) {
+        return { error: `Invalid status in rule ${name}` };
+      }
+      actions.push({ type, value, categoryId });
+    }
+
+    const id = toOptionalString(raw.id) || uuidv4();
+    if (rules.some(rule => rule.id === id)) {
+      return { error: `Rule ID ${id} is used more than once` };
+    }
+
+    rules.push({
+      id,
+      name,
+      enabled: raw.enabled !== false,
+      trigger: raw.trigger,
+      triggerValue,
+      conditions,
+      actions
+    });
+  }
+  return { rules };
+}
+
+/**
+ * Recent executions of a rule or of the rules on a ticket, newest first
+ */
+export async function listTicketRuleExecutions(
+  connection: Connection,
+  filter: { ruleId?: string; ticketId?: string },
+  limit: number = 50
+): Promise<ITicketRuleExecution[]> {
+  const query: Record<string, string> = {};
+  if (filter.ruleId) query.ruleId = filter.ruleId;
+  if (filter.ticketId) query.ticketId = filter.ticketId;
+  return getTicketRuleExecutionModel(connection)
+    .find(query, { _id: 0, __v: 0 })
+    .sort({ createdAt: -1 })
+    .limit(Math.min(Math.max(limit, 1), 200))
+    .lean<ITicketRuleExecution[]>();
+}
+
+function getDataValue(ticket: any, key: string): any {
+  const data = ticket?.data;
+  return data instanceof Map ? data.get(key) : data?.[key];
+}
+
+function matchesTrigger(rule: ITicketRule, event: TicketRuleEvent): boolean {
+  if (!rule.enabled || rule.trigger !== event.trigger) return false;
+  if (!rule.triggerValue) return true;
+  return String(event.value ?? '').toLowerCase() === rule.triggerValue.toLowerCase();
+}
+
+function compareText(actual: unknown, operator: TicketRuleOperator, expected: string | null): boolean {
+  const values = (Array.isArray(actual) ? actual : actual === null || actual === undefined ? [] : [actual])
+    .map(value => String(value).toLowerCase())
+    .filter(value => value !== '');
+  const target = (expected || '').toLowerCase();
+
+  switch (operator) {
+    case 'empty':
+      return values.length === 0;
+    case 'not_empty':
+      return values.length > 0;
+    case 'equals':
+      return values.length > 0 && values.join(', ') === target;
+    case 'not_equals':
+      return values.join(', ') !== target;
+    case 'contains':
+      return values.some(value => value.includes(target));
+    case 'not_contains':
+      return !values.some(value => value.includes(target));
+    default:
+      return false;
+  }
+}
+
+function compareCount(actual: number, operator: TicketRuleOperator, expected: string | null): boolean {
+  const target = Number(expected);
+  return operator === 'at_least' ? actual >= target : actual <= target;
+}
+
+/**
+ * Reporter history is only looked up when a rule asks for it, then reused for the
+ * other rules of the same event
+ */
+class ReporterHistory {
+  private ticketCount: Promise<number> | null = null;
+  private punishmentCount: Promise<number> | null = null;
+
+  constructor(private connection: Connection, private ticket: any) {}
+
+  private get reporter(): string | null {
+    return this.ticket.creatorUuid || this.ticket.creator || null;
+  }
+
+  // Other tickets the reporter opened
+  tickets(): Promise<number> {
+    if (!this.ticketCount) {
+      this.ticketCount = this.reporter
+        ? this.connection.model('Ticket').countDocuments({
+            _id: { $ne: this.ticket._id },
+            status: { $ne: 'Unfinished' },
+            $or: [{ creatorUuid: this.reporter }, { creator: this.reporter }]
+          })
+        : Promise.resolve(0);
+    }
+    return this.ticketCount;
+  }
+
+  punishments(): Promise<number> {
+    if (!this.punishmentCount) {
+      this.punishmentCount = this.reporter
+        ? getPunishmentModel(this.connection).countDocuments({ minecraftUuid: this.reporter })
+        : Promise.resolve(0);
+    }
+    return this.punishmentCount;
+  }
+}
+
+async function matchesCondition(
+  condition: ITicketRuleCondition,
+  ticket: any,
+  event: TicketRuleEvent,
+  history: ReporterHistory
+): Promise<boolean> {
+  switch (condition.type) {
+    case 'category':
+      return compareText(ticket.type, condition.operator, condition.value);
+    case 'tag':
+      return condition.operator === 'contains'
+        ? (ticket.tags || []).includes(condition.value)
+        : !(ticket.tags || []).includes(condition.value);
+    case 'field':
+      return compareText(getDataValue(ticket, condition.key!), condition.operator, condition.value);
+    case 'reply_author':
+      return event.replyFromStaff !== undefined && (condition.value === 'staff') === event.replyFromStaff;
+    case 'reporter_tickets':
+      return compareCount(await history.tickets(), condition.operator, condition.value);
+    case 'reporter_punishments':
+      return compareCount(await history.punishments(), condition.operator, condition.value);
+    default:
+      return false;
+  }
+}
+
+// Changes the rules of one event make, written to the ticket in one update
+interface PendingChanges {
+  $set: Record<string, any>;
+  tags: string[];
+  replies: any[];
+  // Status the ticket ends up in and the rule that moved it there
+  status: { to: TicketStatus; rule: string } | null;
+  analyze: boolean;
+}
+
+async function findQuickResponse(connection: Connection, categoryId: string | null, actionId: string | null): Promise<any | null> {
+  const settingsDoc = await connection.model('Settings').findOne({ type: 'quickResponses' });
+  const category = settingsDoc?.data?.categories?.find((candidate: any) => candidate.id === categoryId);
+  return category?.actions?.find((action: any) => action.id === actionId) || null;
+}
+
+function setStatus(ticket: any, status: TicketStatus, rule: ITicketRule, changes: PendingChanges): boolean {
+  if (getTicketStatus(ticket) === status) return false;
+  ticket.status = status;
+  ticket.locked = status === 'Closed';
+  changes.status = { to: status, rule: rule.name };
+  return true;
+}
+
+async function applyAction(
+  connection: Connection,
+  serverName: string | undefined,
+  rule: ITicketRule,
+  action: ITicketRuleAction,
+  ticket: any,
+  changes: PendingChanges
+): Promise<Pick<TicketRuleActionResult, 'status' | 'message'>> {
+  switch (action.type) {
+    case 'assign': {
+      const result = await claimTicket(connection, serverName, ticket._id, action.value!);
+      if (!result?.claimed) {
+        return { status: 'skipped', message: `Already assigned to ${result?.previous.assignedTo}` };
+      }
+      return { status: 'applied', message: null };
+    }
+    case 'tag':
+      if ((ticket.tags || []).includes(action.value)) {
+        return { status: 'skipped', message: 'Ticket already has this tag' };
+      }
+      ticket.tags = [...(ticket.tags || []), action.value];
+      changes.tags.push(action.value!);
+      return { status: 'applied', message: null };
+    case 'set_priority':
+      if (getDataValue(ticket, 'priority') === action.value) {
+        return { status: 'skipped', message: 'Ticket already has this priority' };
+      }
+      ticket.data = { ...(ticket.data || {}), priority: action.value };
+      changes.$set['data.priority'] = action.value;
+      return { status: 'applied', message: null };
+    case 'quick_response': {
+      const quickResponse = await findQuickResponse(connection, action.categoryId, action.value);
+      if (!quickResponse) {
+        return { status: 'failed', message: 'Quick response no longer exists' };
+      }
+      const reply = {
+        name: 'System',
+        content: quickResponse.message,
+        type: 'system',
+        created: new Date(),
+        staff: false,
+        action: quickResponse.closeTicket ? 'Close' : undefined
+      };
+      ticket.replies = [...(ticket.replies || []), reply];
+      changes.replies.push(reply);
+      if (quickResponse.closeTicket) {
+        setStatus(ticket, 'Closed', rule, changes);
+      }
+      return { status: 'applied', message: null };
+    }
+    case 'ai_analysis':
+      changes.analyze = true;
+      return { status: 'applied', message: null };
+    case 'set_status':
+      return setStatus(ticket, action.value as TicketStatus, rule, changes)
+        ? { status: 'applied', message: null }
+        : { status: 'skipped', message: 'Ticket already has this status' };
+    case 'close':
+      return setStatus(ticket, 'Closed', rule, changes)
+        ? { status: 'applied', message: null }
+        : { status: 'skipped', message: 'Ticket is already closed' };
+    default:
+      return { status: 'skipped', message: 'Unknown action' };
+  }
+}
+
+async function runRulesForEvent(
+  connection: Connection,
+  serverName: string | undefined,
+  ticketId: string,
+  rules: ITicketRule[],
+  event: TicketRuleEvent
+): Promise<void> {
+  const Ticket = connection.model('Ticket');
+  const ticket = await Ticket.findById(ticketId).lean<any>();
+  if (!ticket) return;
+
+  const before = { status: ticket.status, locked: ticket.locked || false, tags: ticket.tags || [], priority: getDataValue(ticket, 'priority') || null };
+  const history = new ReporterHistory(connection, ticket);
+  const changes: PendingChanges = { $set: {}, tags: [], replies: [], status: null, analyze: false };
+  const executions: ITicketRuleExecution[] = [];
+
+  for (const rule of rules) {
+    let matched = true;
+    for (const condition of rule.conditions) {
+      if (!(await matchesCondition(condition, ticket, event, history))) {
+        matched = false;
+        break;
+      }
+    }
+    if (!matched) continue;
+
+    const results: TicketRuleActionResult[] = [];
+    for (const action of rule.actions) {
+      try {
+        const result = await applyAction(connection, serverName, rule, action, ticket, changes);
+        results.push({ type: action.type, value: action.value, ...result });
+      } catch (error: any) {
+        results.push({ type: action.type, value: action.value, status: 'failed', message: error?.message || 'Unknown error' });
+      }
+    }
+    executions.push({ ruleId: rule.id, ruleName: rule.name, ticketId, trigger: event.trigger, actions: results, createdAt: new Date() });
+  }
+  if (executions.length === 0) return;
+
+  const statusUpdate = changes.status
+    ? getTicketStatusUpdate(before, changes.status.to, SYSTEM_ACTOR.name, `Rule "${changes.status.rule}"`)
+    : null;
+  const $set = { ...changes.$set, ...statusUpdate?.$set };
+  const $push = { ...statusUpdate?.$push, ...(changes.replies.length > 0 ? { replies: { $each: changes.replies } } : {}) };
+
+  const update: Record<string, any> = {};
+  if (Object.keys($set).length > 0) update.$set = $set;
+  if (changes.tags.length > 0) update.$addToSet = { tags: { $each: changes.tags } };
+  if (Object.keys($push).length > 0) update.$push = $push;
+
+  if (Object.keys(update).length > 0) {
+    try {
+      await Ticket.updateOne({ _id: ticketId }, update);
+    } catch (error: any) {
+      // The ticket wasn't changed, so nothing but the claims was applied
+      for (const execution of executions) {
+        for (const result of execution.actions) {
+          if (result.status === 'applied' && result.type !== 'assign') {
+            result.status = 'failed';
+            result.message = error?.message || 'Failed to update the ticket';
+          }
+        }
+      }
+      console.error(`[Ticket Rules] Failed to update ticket ${ticketId}:`, error);
+    }
+  }
+  await getTicketRuleExecutionModel(connection).insertMany(executions);
+
+  const changed = executions.some(execution => execution.actions.some(result => result.status === 'applied' && result.type !== 'assign'));
+  if (changed) {
+    publishEvent(serverName, 'tickets', changes.replies.length > 0 ? 'ticket.reply' : 'ticket.updated', {
+      ticketId,
+      status: ticket.status,
+      locked: ticket.locked || false,
+      tags: ticket.tags
+    });
+    if (statusUpdate && changes.status!.to === 'Closed') {
+      triggerWebhookEvent(connection, serverName, 'ticket.closed', {
+        ticketId,
+        subject: ticket.subject,
+        closedBy: 'System'
+      });
+    }
+  }
+
+  for (const execution of executions) {
+    await recordAuditEvent(connection, serverName, {
+      action: 'ticket.rule_applied',
+      summary: `Rule "${execution.ruleName}" applied to ticket ${ticketId}`,
+      actor: SYSTEM_ACTOR,
+      target: { type: 'ticket', id: ticketId },
+      before,
+      after: { status: ticket.status, locked: ticket.locked || false, tags: ticket.tags || [], priority: getDataValue(ticket, 'priority') || null },
+      metadata: { ruleId: execution.ruleId, trigger: execution.trigger, actions: execution.actions }
+    });
+  }
+
+  if (changes.analyze) {
+    const analyzed = await Ticket.findById(ticketId);
+    if (analyzed) {
+      await new AIModerationService(connection).processNewTicket(ticketId, analyzed);
+    }
+  }
+}
+
+/**
+ * Run the rules for things that happened to a ticket, in the order they happened
+ */
+export async function runTicketRules(
+  connection: Connection,
+  serverName: string | undefined,
+  ticketId: string,
+  events: TicketRuleEvent[]
+): Promise<void> {
+  if (events.length === 0) return;
+  const rules = await getTicketRules(connection);
+  for (const event of events) {
+    const matching = rules.filter(rule => matchesTrigger(rule, event));
+    if (matching.length > 0) {
+      await runRulesForEvent(connection, serverName, ticketId, matching, event);
+    }
+  }
+}
+
+/**
+ * Run ticket rules without holding up the request that triggered them
+ */
+export function queueTicketRules(
+  connection: Connection,
+  serverName: string | undefined,
+  ticketId: string,
+  events: TicketRuleEvent[]
+): void {
+  runTicketRules(connection, serverName, ticketId, events).catch(error => {
+    console.error(`[Ticket Rules] Failed to run rules for ticket ${ticketId}:`, error);
+  });
+}
+
+/**
+ * Rule events for the data fields an update changed
+ */
+export function getFieldChangeEvents(previous: Record<string, any>, updates: Record<string, any>): TicketRuleEvent[] {
+  return Object.entries(updates)
+    .filter(([key, value]) => JSON.stringify(previous[key] ?? null) !== JSON.stringify(value ?? null))
+    .map(([key]) => ({ trigger: 'field.changed' as const, value: key }));
+}
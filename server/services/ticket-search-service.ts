@@ -0,0 +1,407 @@
+import { Connection, Model, Schema } from 'mongoose';
+import { ensureModel } from '../utils/schema-utils';
+import { getTicketStatusFilter, TicketStatus } from './ticket-status-service';
+
+/**
+ * Ticket search.
+ *
+ * Searches are written in a small query language: free text, "quoted phrases" and
+ * -excluded words go to the text index on tickets, and `key:value` filters narrow the
+ * results down, like `player:Notch tag:hacking status:open before:2026-09-01 assignee:me`.
+ * Results are ranked by relevance, and the replies and notes that matched are returned
+ * with their matches highlighted. Staff can save searches they run often.
+ */
+
+export const TICKET_SEARCH_FILTERS = ['id', 'player', 'tag', 'status', 'assignee', 'before', 'after'] as const;
+
+export type TicketSearchFilter = typeof TICKET_SEARCH_FILTERS[number];
+
+export interface TicketSearch {
+  // Passed to the text index as is, with phrases and exclusions
+  text: string;
+  // Words and phrases to highlight in replies and notes
+  terms: string[];
+  ids: string[];
+  // A ticket ID or ticket number typed on its own, matched against the start of ticket IDs
+  idPrefix: string | null;
+  players: string[];
+  tags: string[];
+  statuses: TicketStatus[] | null;
+  // 'me', 'unassigned' or a staff username
+  assignee: string | null;
+  before: Date | null;
+  after: Date | null;
+}
+
+export interface TicketSearchMatch {
+  source: 'reply' | 'note';
+  author: string;
+  date: Date | null;
+  snippet: string;
+  // Start and end offsets of the matches in the snippet
+  highlights: Array<[number, number]>;
+}
+
+export interface ISavedTicketSearch {
+  username: string;
+  name: string;
+  query: string;
+  created: Date;
+}
+
+const SavedTicketSearchSchema = new Schema<ISavedTicketSearch>({
+  username: { type: String, required: true },
+  name: { type: String, required: true },
+  query: { type: String, required: true },
+  created: { type: Date, default: Date.now }
+});
+
+SavedTicketSearchSchema.index({ username: 1, name: 1 }, { unique: true });
+
+export const TICKET_SEARCH_INDEX_NAME = 'ticket_search';
+export const MAX_SAVED_SEARCHES = 50;
+const MAX_SEARCH_NAME_LENGTH = 64;
+const MAX_QUERY_LENGTH = 500;
+const MAX_MATCHES_PER_TICKET = 3;
+// Characters of context kept around the first match of a reply or note
+const SNIPPET_CONTEXT = 60;
+const SNIPPET_LENGTH = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+const TICKET_ID_PATTERN = /^[A-Z0-9]{1,16}-\d*$/i;
+const TICKET_NUMBER_PATTERN = /^\d+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EDGE_PUNCTUATION_PATTERN = new RegExp('^[^\\p{L}\\p{N}]+|[^\\p{L}\\p{N}]+$', 'gu');
+
+const indexBuilds = new WeakMap<Connection, Promise<void>>();
+
+export function getSavedTicketSearchModel(connection: Connection): Model<ISavedTicketSearch> {
+  return ensureModel<ISavedTicketSearch>(connection, 'SavedTicketSearch', SavedTicketSearchSchema);
+}
+
+/**
+ * Build the text index ticket searches run on. The language is 'none' so player names
+ * aren't stemmed and highlights line up with what the index matched.
+ */
+export function ensureTicketSearchIndex(connection: Connection): Promise<void> {
+  let build = indexBuilds.get(connection);
+  if (!build) {
+    build = buildIndex(connection).catch(error => {
+      indexBuilds.delete(connection);
+      throw error;
+    });
+    indexBuilds.set(connection, build);
+  }
+  return build;
+}
+
+async function buildIndex(connection: Connection): Promise<void> {
+  try {
+    await createIndex(connection);
+  } catch (error: any) {
+    if (error?.codeName !== 'IndexOptionsConflict' && error?.codeName !== 'IndexKeySpecsConflict') {
+      throw error;
+    }
+
+    // An older version of this index is rebuilt with the current fields
+    const indexes = await connection.collection('tickets').indexes();
+    if (indexes.some(index => index.name === TICKET_SEARCH_INDEX_NAME)) {
+      console.log(`[Ticket Search] Rebuilding the ticket search index for ${connection.name}`);
+      await connection.collection('tickets').dropIndex(TICKET_SEARCH_INDEX_NAME);
+      await createIndex(connection);
+      return;
+    }
+
+    // A collection has one text index, searches use whichever one is there
+    console.warn(`[Ticket Search] Tickets in ${connection.name} already have another text index, keeping it`);
+  }
+}
+
+async function createIndex(connection: Connection): Promise<void> {
+  await connection.collection('tickets').createIndex(
+    {
+      subject: 'text',
+      creator: 'text',
+      creatorName: 'text',
+      reportedPlayer: 'text',
+      tags: 'text',
+      'replies.name': 'text',
+      'replies.content': 'text',
+      'notes.content': 'text'
+    },
+    {
+      name: TICKET_SEARCH_INDEX_NAME,
+      default_language: 'none',
+      weights: {
+        subject: 10,
+        creator: 5,
+        creatorName: 5,
+        reportedPlayer: 5,
+        tags: 5,
+        'replies.name': 2,
+        'replies.content': 1,
+        'notes.content': 1
+      }
+    }
+  );
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function parseDate(value: string): Date | null {
+  if (!DATE_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse a search typed by staff. Words with a colon that aren't filters are searched as text.
+ */
+export function parseTicketSearch(input: string): { search?: TicketSearch; error?: string } {
+  if (input.length > MAX_QUERY_LENGTH) {
+    return { error: `Searches can be at most ${MAX_QUERY_LENGTH} characters` };
+  }
+
+  const search: TicketSearch = {
+    text: '',
+    terms: [],
+    ids: [],
+    idPrefix: null,
+    players: [],
+    tags: [],
+    statuses: null,
+    assignee: null,
+    before: null,
+    after: null
+  };
+  const text: string[] = [];
+
+  for (const [token, negated, rawKey, quoted, bare] of Array.from(input.matchAll(TOKEN_PATTERN))) {
+    const key = rawKey?.toLowerCase();
+    const value = (quoted ?? bare ?? '').trim();
+
+    if (key && (TICKET_SEARCH_FILTERS as readonly string[]).includes(key)) {
+      const filter = key as TicketSearchFilter;
+      if (negated) {
+        return { error: `Filters can't be excluded, remove the - before ${key}:` };
+      }
+      if (!value) {
+        return { error: `${key}: needs a value` };
+      }
+
+      switch (filter) {
+        case 'id':
+          search.ids.push(value.toUpperCase());
+          break;
+        case 'player':
+          search.players.push(value);
+          break;
+        case 'tag':
+          search.tags.push(value);
+          break;
+        case 'status': {
+          const statuses = getTicketStatusFilter(value.toLowerCase());
+          if (!statuses) {
+            return { error: `Unknown status ${value}` };
+          }
+          search.statuses = search.statuses ? search.statuses.filter(status => statuses.includes(status)) : statuses;
+          break;
+        }
+        case 'assignee':
+          search.assignee = value;
+          break;
+        case 'before':
+        case 'after': {
+          const date = parseDate(value);
+          if (!date) {
+            return { error: `${key}: takes a date like 2026-09-01` };
+          }
+          search[filter] = date;
+          break;
+        }
+      }
+      continue;
+    }
+
+    if (quoted !== undefined) {
+      const phrase = `${rawKey ? `${rawKey}: ` : ''}${quoted.trim()}`;
+      if (!phrase) continue;
+      text.push(`${negated}"${phrase}"`);
+      if (!negated) search.terms.push(phrase);
+    } else {
+      const word = token.replace(/^-/, '');
+      text.push(negated ? `-${word}` : word);
+      // The index splits words on punctuation, so highlight without it
+      const term = word.replace(EDGE_PUNCTUATION_PATTERN, '');
+      if (!negated && term) search.terms.push(term);
+    }
+  }
+
+  // Ticket IDs pasted on their own find that ticket, numbers without the category prefix
+  // find tickets with that number as well as the text
+  if (text.length === 1 && TICKET_ID_PATTERN.test(text[0])) {
+    search.idPrefix = text[0].toUpperCase();
+    search.terms = [];
+  } else {
+    search.text = text.join(' ');
+    if (text.length === 1 && TICKET_NUMBER_PATTERN.test(text[0])) {
+      search.idPrefix = text[0];
+    }
+  }
+
+  return { search };
+}
+
+/**
+ * Conditions for the filters of a search, to combine with the rest of the ticket query.
+ * The text itself goes in a top level condition, see getTicketTextCondition.
+ */
+export function getTicketSearchConditions(search: TicketSearch, username: string | undefined): Record<string, any>[] {
+  const conditions: Record<string, any>[] = [];
+
+  if (search.ids.length > 0) {
+    conditions.push({ _id: { $in: search.ids } });
+  }
+  if (search.idPrefix && !search.text) {
+    conditions.push({ _id: getTicketIdPattern(search.idPrefix) });
+  }
+  for (const player of search.players) {
+    const name = new RegExp(`^${escapeRegex(player)}$`, 'i');
+    conditions.push({
+      $or: [
+        { creatorName: name },
+        { reportedPlayer: name },
+        { creator: name },
+        { creatorUuid: player },
+        { reportedPlayerUuid: player }
+      ]
+    });
+  }
+  for (const tag of search.tags) {
+    conditions.push({ tags: new RegExp(`^${escapeRegex(tag)}$`, 'i') });
+  }
+  if (search.statuses) {
+    conditions.push({ status: { $in: search.statuses } });
+  }
+  if (search.assignee === 'unassigned') {
+    conditions.push({ 'data.assignedTo': null });
+  } else if (search.assignee) {
+    conditions.push({ 'data.assignedTo': search.assignee === 'me' ? username : search.assignee });
+  }
+  if (search.before) {
+    conditions.push({ created: { $lt: search.before } });
+  }
+  if (search.after) {
+    // After the whole day, not its start
+    conditions.push({ created: { $gte: new Date(search.after.getTime() + DAY_MS) } });
+  }
+
+  return conditions;
+}
+
+/**
+ * Top level condition for the text of a search, null when there is no text.
+ * Ticket numbers match either the text or the number of the ticket.
+ */
+export function getTicketTextCondition(search: TicketSearch): Record<string, any> | null {
+  if (!search.text) return null;
+
+  const textCondition = { $text: { $search: search.text } };
+  return search.idPrefix ? { $or: [textCondition, { _id: getTicketIdPattern(search.idPrefix) }] } : textCondition;
+}
+
+function getTicketIdPattern(idPrefix: string): RegExp {
+  return TICKET_NUMBER_PATTERN.test(idPrefix)
+    ? new RegExp(`^[A-Z0-9]+-${idPrefix}`)
+    : new RegExp(`^${escapeRegex(idPrefix)}`);
+}
+
+function findHighlights(content: string, pattern: RegExp): Array<[number, number]> {
+  return Array.from(content.matchAll(pattern), match => [match.index!, match.index! + match[0].length] as [number, number]);
+}
+
+/**
+ * Replies and notes of a ticket that contain the searched words, cut down to the part
+ * around the first match.
+ */
+export function getTicketSearchMatches(ticket: any, search: TicketSearch): TicketSearchMatch[] {
+  if (search.terms.length === 0) return [];
+
+  // Whole words, like the text index matches them
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${search.terms.map(term => escapeRegex(term).replace(/\s+/g, '\\s+')).join('|')})(?![\\p{L}\\p{N}])`,
+    'giu'
+  );
+  const sources = [
+    ...(ticket.replies || []).map((reply: any) => ({ source: 'reply' as const, author: reply.name, date: reply.created, content: reply.content })),
+    ...(ticket.notes || []).map((note: any) => ({ source: 'note' as const, author: note.author, date: note.date, content: note.content }))
+  ];
+
+  const matches: TicketSearchMatch[] = [];
+  for (const { source, author, date, content } of sources) {
+    if (typeof content !== 'string') continue;
+    const highlights = findHighlights(content, pattern);
+    if (highlights.length === 0) continue;
+
+    const start = Math.max(0, highlights[0][0] - SNIPPET_CONTEXT);
+    const end = Math.min(content.length, start + SNIPPET_LENGTH);
+    matches.push({
+      source,
+      author: author || 'Unknown',
+      date: date ? new Date(date) : null,
+      snippet: content.slice(start, end),
+      highlights: highlights
+        .filter(([matchStart, matchEnd]) => matchStart >= start && matchEnd <= end)
+        .map(([matchStart, matchEnd]) => [matchStart - start, matchEnd - start])
+    });
+    if (matches.length >= MAX_MATCHES_PER_TICKET) break;
+  }
+  return matches;
+}
+
+export async function listSavedTicketSearches(connection: Connection, username: string): Promise<ISavedTicketSearch[]> {
+  return getSavedTicketSearchModel(connection).find({ username }).sort({ name: 1 }).lean<ISavedTicketSearch[]>();
+}
+
+/**
+ * Save a search for a staff member, replacing their search with the same name.
+ * Returns the saved search or why it was rejected.
+ */
+export async function saveTicketSearch(
+  connection: Connection,
+  username: string,
+  input: { name?: unknown; query?: unknown }
+): Promise<{ search?: ISavedTicketSearch; error?: string }> {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  const query = typeof input.query === 'string' ? input.query.trim() : '';
+  if (!name || name.length > MAX_SEARCH_NAME_LENGTH) {
+    return { error: `Saved searches need a name of at most ${MAX_SEARCH_NAME_LENGTH} characters` };
+  }
+  if (!query) {
+    return { error: 'query is required' };
+  }
+  const parsed = parseTicketSearch(query);
+  if (parsed.error) {
+    return { error: parsed.error };
+  }
+
+  const SavedTicketSearch = getSavedTicketSearchModel(connection);
+  if (!(await SavedTicketSearch.exists({ username, name })) && (await SavedTicketSearch.countDocuments({ username })) >= MAX_SAVED_SEARCHES) {
+    return { error: `You can save at most ${MAX_SAVED_SEARCHES} searches` };
+  }
+
+  const search = await SavedTicketSearch.findOneAndUpdate(
+    { username, name },
+    { $set: { query }, $setOnInsert: { created: new Date() } },
+    { upsert: true, new: true, lean: true }
+  );
+  return { search: search! };
+}
+
+export async function deleteSavedTicketSearch(connection: Connection, username: string, name: string): Promise<boolean> {
+  const result = await getSavedTicketSearchModel(connection).deleteOne({ username, name });
+  return result.deletedCount > 0;
+}
@@ -0,0 +1,568 @@
+import { Connection } from 'mongoose';
+import { publishEvent } from './realtime-service';
+import { recordAuditEvent } from './audit-service';
+import { triggerWebhookEvent } from './webhook-service';
+import { sendTicketAccessLink } from './ticket-access-service';
+import { findTicketCategory, getTicketCategories, ITicketCategory, TICKET_PRIORITIES, TicketPriority } from './ticket-category-service';
+import { autoAssignTicket, getTicketAssignment } from './ticket-queue-service';
+import { ACTIVE_TICKET_STATUSES, getTicketStatus, getTicketStatusUpdate, isActiveTicketStatus, UNFINISHED_TICKET_STATUS } from './ticket-status-service';
+
+/**
+ * Ticket SLAs and inactivity automation.
+ *
+ * Categories can have targets for the first staff response and for resolving a ticket.
+ * Active tickets are checked every few minutes; a ticket that misses a target is escalated
+ * once per target by raising its priority, handing it to someone else in the queue or
+ * notifying staff subscribed to it. Tickets in the Waiting on Player status get a reminder
+ * and are closed when the player doesn't come back.
+ */
+
+export const SLA_TIMERS = ['firstResponse', 'resolution'] as const;
+
+export type SlaTimer = typeof SLA_TIMERS[number];
+
+export type SlaState = 'ok' | 'at_risk' | 'breached' | 'met';
+
+export interface ITicketSlaPolicy {
+  categoryId: string;
+  // Hours until a staff member has to reply, no target when null
+  firstResponseHours: number | null;
+  // Hours until the ticket has to be resolved or closed, no target when null
+  resolutionHours: number | null;
+  escalation: {
+    raisePriority: boolean;
+    reassign: boolean;
+    notifySubscribers: boolean;
+  };
+}
+
+export interface TicketSlaSettings {
+  policies: ITicketSlaPolicy[];
+  waitingOnPlayer: {
+    // Days waiting on the player before they are reminded, never when null
+    reminderAfterDays: number | null;
+    // Days waiting on the player before the ticket is closed, never when null
+    autoCloseAfterDays: number | null;
+  };
+}
+
+export interface SlaTimerStatus {
+  dueAt: Date;
+  state: SlaState;
+}
+
+export interface TicketSlaStatus {
+  firstResponse: SlaTimerStatus | null;
+  resolution: SlaTimerStatus | null;
+  // The worst state of the two timers, null when the category has no targets
+  state: SlaState | null;
+}
+
+export interface TicketEscalation {
+  timer: SlaTimer;
+  at: Date;
+  actions: string[];
+  // Shown to subscribed staff as a ticket update
+  notified: boolean;
+}
+
+export const DEFAULT_TICKET_SLA_SETTINGS: TicketSlaSettings = {
+  policies: [],
+  waitingOnPlayer: {
+    reminderAfterDays: null,
+    autoCloseAfterDays: null
+  }
+};
+
+// Share of a target that can pass before a ticket shows as at risk
+export const SLA_AT_RISK_RATIO = 0.75;
+export const MAX_SLA_HOURS = 24 * 365;
+export const MAX_WAITING_DAYS = 365;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const AUTOMATION_INTERVAL_MS = 5 * 60 * 1000;
+// Let the connection settle and its migrations run before the first check
+const AUTOMATION_START_DELAY_MS = 60 * 1000;
+const AUTOMATION_BATCH_SIZE = 100;
+const SYSTEM_ACTOR = { type: 'system' as const, id: null, name: 'Ticket SLA' };
+
+const STATE_SEVERITY: Record<SlaState, number> = { met: 0, ok: 1, at_risk: 2, breached: 3 };
+const BREACHED_AT_KEYS: Record<SlaTimer, string> = {
+  firstResponse: 'firstResponseBreachedAt',
+  resolution: 'resolutionBreachedAt'
+};
+const TIMER_LABELS: Record<SlaTimer, string> = {
+  firstResponse: 'first response',
+  resolution: 'resolution'
+};
+
+const schedules = new WeakMap<Connection, NodeJS.Timeout>();
+const runningAutomation = new WeakSet<Connection>();
+
+export async function getTicketSlaSettings(connection: Connection): Promise<TicketSlaSettings> {
+  const settingsDoc = await connection.model('Settings').findOne({ type: 'ticketSla' });
+  const data = settingsDoc?.data || {};
+  return {
+    policies: Array.isArray(data.policies) ? data.policies : DEFAULT_TICKET_SLA_SETTINGS.policies,
+    waitingOnPlayer: { ...DEFAULT_TICKET_SLA_SETTINGS.waitingOnPlayer, ...(data.waitingOnPlayer || {}) }
+  };
+}
+
+/**
+ * Check SLA settings submitted from the settings page against the configured categories.
+ * Returns the cleaned up settings or why they were rejected.
+ */
+export function normalizeTicketSlaSettings(input: any, categories: ITicketCategory[]): { settings?: TicketSlaSettings; error?: string } {
+  if (!Array.isArray(input?.policies)) {
+    return { error: 'policies must be an array' };
+  }
+
+  const toLimit = (value: unknown, max: number, label: string): { value?: number | null; error?: string } => {
+    if (value === null || value === undefined || value === '') return { value: null };
+    const number = Number(value);
+    if (!Number.isFinite(number) || number <= 0 || number > max) {
+      return { error: `${label} must be a number between 0 and ${max}` };
+    }
+    return { value: number };
+  };
+
+  const policies: ITicketSlaPolicy[] = [];
+  for (const raw of input.policies) {
+    const category = findTicketCategory(categories, raw?.categoryId);
+    if (!category) {
+      return { error: `Unknown ticket category ${raw?.categoryId}` };
+    }
+    if (policies.some(policy => policy.categoryId === category.id)) {
+      return { error: `Category ${category.id} has more than one SLA` };
+    }
+    const firstResponse = toLimit(raw.firstResponseHours, MAX_SLA_HOURS, `First response target for ${category.name}`);
+    if (firstResponse.error) return { error: firstResponse.error };
+    const resolution = toLimit(raw.resolutionHours, MAX_SLA_HOURS, `Resolution target for ${category.name}`);
+    if (resolution.error) return { error: resolution.error };
+
+    policies.push({
+      categoryId: category.id,
+      firstResponseHours: firstResponse.value!,
+      resolutionHours: resolution.value!,
+      escalation: {
+        raisePriority: raw.escalation?.raisePriority === true,
+        reassign: raw.escalation?.reassign === true,
+        notifySubscribers: raw.escalation?.notifySubscribers === true
+      }
+    });
+  }
+
+  const reminder = toLimit(input.waitingOnPlayer?.reminderAfterDays, MAX_WAITING_DAYS, 'Reminder delay');
+  if (reminder.error) return { error: reminder.error };
+  const autoClose = toLimit(input.waitingOnPlayer?.autoCloseAfterDays, MAX_WAITING_DAYS, 'Auto-close delay');
+  if (autoClose.error) return { error: autoClose.error };
+  if (reminder.value && autoClose.value && reminder.value >= autoClose.value) {
+    return { error: 'Players have to be reminded before their ticket is closed' };
+  }
+
+  return {
+    settings: {
+      policies,
+      waitingOnPlayer: {
+        reminderAfterDays: reminder.value!,
+        autoCloseAfterDays: autoClose.value!
+      }
+    }
+  };
+}
+
+export function findTicketSlaPolicy(settings: TicketSlaSettings, type: string | null | undefined): ITicketSlaPolicy | null {
+  if (!type) return null;
+  const normalized = type.toLowerCase();
+  return settings.policies.find(policy => policy.categoryId === normalized) || null;
+}
+
+function getDataValue(ticket: any, key: string): any {
+  const data = ticket?.data;
+  return data instanceof Map ? data.get(key) : data?.[key];
+}
+
+function isTicketFinished(ticket: any): boolean {
+  return !isActiveTicketStatus(getTicketStatus(ticket));
+}
+
+/**
+ * Replies written by people, system messages like reminders don't count as a response
+ */
+function getConversationReplies(ticket: any): any[] {
+  return (ticket.replies || []).filter((reply: any) => reply.type !== 'system');
+}
+
+function getTimerState(dueAt: Date, startedAt: Date, now: Date): SlaState {
+  if (now.getTime() > dueAt.getTime()) return 'breached';
+  const elapsed = now.getTime() - startedAt.getTime();
+  return elapsed >= (dueAt.getTime() - startedAt.getTime()) * SLA_AT_RISK_RATIO ? 'at_risk' : 'ok';
+}
+
+/**
+ * Where a ticket stands against its category's targets
+ */
+export function getTicketSlaStatus(ticket: any, policy: ITicketSlaPolicy | null, now: Date = new Date()): TicketSlaStatus {
+  const status: TicketSlaStatus = { firstResponse: null, resolution: null, state: null };
+  if (!policy || !ticket?.created || ticket.status === UNFINISHED_TICKET_STATUS) return status;
+
+  const created = new Date(ticket.created);
+  const finished = isTicketFinished(ticket);
+
+  if (policy.firstResponseHours) {
+    const dueAt = new Date(created.getTime() + policy.firstResponseHours * HOUR_MS);
+    const firstStaffReply = getConversationReplies(ticket).find((reply: any) => reply.staff);
+    let state: SlaState;
+    if (firstStaffReply) {
+      state = new Date(firstStaffReply.created).getTime() <= dueAt.getTime() ? 'met' : 'breached';
+    } else {
+      state = finished ? 'met' : getTimerState(dueAt, created, now);
+    }
+    status.firstResponse = { dueAt, state };
+  }
+
+  if (policy.resolutionHours) {
+    const dueAt = new Date(created.getTime() + policy.resolutionHours * HOUR_MS);
+    let state: SlaState;
+    if (finished) {
+      state = getDataValue(ticket, BREACHED_AT_KEYS.resolution) ? 'breached' : 'met';
+    } else {
+      state = getTimerState(dueAt, created, now);
+    }
+    status.resolution = { dueAt, state };
+  }
+
+  const states = [status.firstResponse?.state, status.resolution?.state].filter((state): state is SlaState => !!state);
+  if (states.length > 0) {
+    status.state = states.reduce((worst, state) => STATE_SEVERITY[state] > STATE_SEVERITY[worst] ? state : worst);
+  }
+  return status;
+}
+
+/**
+ * SLA status of a batch of tickets, loading the settings once
+ */
+export async function getTicketSlaStatuses(connection: Connection, tickets: any[], now: Date = new Date()): Promise<Map<string, TicketSlaStatus>> {
+  const settings = await getTicketSlaSettings(connection);
+  return new Map(tickets.map(ticket => [String(ticket._id), getTicketSlaStatus(ticket, findTicketSlaPolicy(settings, ticket.type), now)]));
+}
+
+/**
+ * Open tickets that missed or are about to miss a target, most urgent first
+ */
+export async function getSlaOverview(connection: Connection, limit: number, now: Date = new Date()) {
+  const settings = await getTicketSlaSettings(connection);
+  const categoryIds = settings.policies
+    .filter(policy => policy.firstResponseHours || policy.resolutionHours)
+    .map(policy => policy.categoryId);
+  if (categoryIds.length === 0) {
+    return { enabled: false, breached: 0, atRisk: 0, tickets: [] };
+  }
+
+  const tickets = await connection.model('Ticket').find(
+    { type: { $in: categoryIds }, status: { $in: ACTIVE_TICKET_STATUSES } },
+    { subject: 1, type: 1, status: 1, locked: 1, created: 1, creator: 1, data: 1, 'replies.staff': 1, 'replies.type': 1, 'replies.created': 1 }
+  ).lean<any[]>();
+  const categories = await getTicketCategories(connection);
+
+  const flagged = tickets
+    .map(ticket => ({ ticket, sla: getTicketSlaStatus(ticket, findTicketSlaPolicy(settings, ticket.type), now) }))
+    .filter(({ sla }) => sla.state === 'breached' || sla.state === 'at_risk');
+  const nextDue = (sla: TicketSlaStatus) => Math.min(
+    ...[sla.firstResponse, sla.resolution]
+      .filter((timer): timer is SlaTimerStatus => !!timer && timer.state !== 'met')
+      .map(timer => timer.dueAt.getTime())
+  );
+  flagged.sort((a, b) => STATE_SEVERITY[b.sla.state!] - STATE_SEVERITY[a.sla.state!] || nextDue(a.sla) - nextDue(b.sla));
+
+  return {
+    enabled: true,
+    breached: flagged.filter(({ sla }) => sla.state === 'breached').length,
+    atRisk: flagged.filter(({ sla }) => sla.state === 'at_risk').length,
+    tickets: flagged.slice(0, limit).map(({ ticket, sla }) => ({
+      id: ticket._id,
+      subject: ticket.subject,
+      category: findTicketCategory(categories, ticket.type)?.name || 'Other',
+      creator: ticket.creator,
+      assignedTo: getTicketAssignment(ticket).assignedTo,
+      priority: getDataValue(ticket, 'priority') || null,
+      sla
+    }))
+  };
+}
+
+/**
+ * Escalations that were shown to subscribed staff
+ */
+export function getTicketEscalations(ticket: any): TicketEscalation[] {
+  const escalations = getDataValue(ticket, 'escalations');
+  return Array.isArray(escalations) ? escalations : [];
+}
+
+/**
+ * Check every tenant's open tickets every few minutes for as long as its connection is open
+ */
+export function scheduleTicketAutomation(connection: Connection, serverName: string): void {
+  if (schedules.has(connection)) return;
+
+  const run = () => {
+    runTicketAutomation(connection, serverName).catch(error => {
+      console.error(`[Ticket SLA] Error running ticket automation for ${connection.name}:`, error);
+    });
+  };
+  const startTimer = setTimeout(() => {
+    run();
+    const interval = setInterval(run, AUTOMATION_INTERVAL_MS);
+    interval.unref();
+    schedules.set(connection, interval);
+  }, AUTOMATION_START_DELAY_MS);
+  startTimer.unref();
+  schedules.set(connection, startTimer);
+
+  connection.once('close', () => {
+    const timer = schedules.get(connection);
+    if (timer) {
+      clearTimeout(timer);
+      clearInterval(timer);
+    }
+    schedules.delete(connection);
+  });
+}
+
+/**
+ * Escalate tickets that missed a target and remind or close tickets waiting on the player.
+ * Skips the run when the previous one is still going.
+ */
+export async function runTicketAutomation(connection: Connection, serverName: string, now: Date = new Date()): Promise<void> {
+  if (runningAutomation.has(connection)) return;
+  runningAutomation.add(connection);
+  try {
+    const settings = await getTicketSlaSettings(connection);
+    for (const policy of settings.policies) {
+      for (const timer of SLA_TIMERS) {
+        await escalateBreaches(connection, serverName, policy, timer, now);
+      }
+    }
+    await handleWaitingOnPlayer(connection, serverName, settings, now);
+  } finally {
+    runningAutomation.delete(connection);
+  }
+}
+
+async function escalateBreaches(
+  connection: Connection,
+  serverName: string,
+  policy: ITicketSlaPolicy,
+  timer: SlaTimer,
+  now: Date
+): Promise<void> {
+  const hours = timer === 'firstResponse' ? policy.firstResponseHours : policy.resolutionHours;
+  if (!hours) return;
+
+  const breachedAtKey = `data.${BREACHED_AT_KEYS[timer]}`;
+  const filter: any = {
+    type: policy.categoryId,
+    status: { $in: ACTIVE_TICKET_STATUSES },
+    created: { $lte: new Date(now.getTime() - hours * HOUR_MS) },
+    [breachedAtKey]: null
+  };
+  if (timer === 'firstResponse') {
+    filter.replies = { $not: { $elemMatch: { staff: true, type: { $ne: 'system' } } } };
+  }
+
+  const Ticket = connection.model('Ticket');
+  const tickets = await Ticket.find(filter, { subject: 1, type: 1, data: 1 }).limit(AUTOMATION_BATCH_SIZE).lean<any[]>();
+  for (const ticket of tickets) {
+    // Another instance may have escalated the ticket in the meantime
+    const result = await Ticket.updateOne({ _id: ticket._id, [breachedAtKey]: null }, { $set: { [breachedAtKey]: now } });
+    if (result.modifiedCount === 0) continue;
+
+    try {
+      await escalateTicket(connection, serverName, ticket, policy, timer, now);
+    } catch (error) {
+      console.error(`[Ticket SLA] Failed to escalate ticket ${ticket._id}:`, error);
+    }
+  }
+}
+
+async function escalateTicket(
+  connection: Connection,
+  serverName: string,
+  ticket: any,
+  policy: ITicketSlaPolicy,
+  timer: SlaTimer,
+  now: Date
+): Promise<void> {
+  const actions: string[] = [];
+  const $set: Record<string, any> = {};
+
+  if (policy.escalation.reassign) {
+    const { assignedTo } = getTicketAssignment(ticket);
+    const assignee = await autoAssignTicket(connection, serverName, ticket._id, ticket.type, assignedTo);
+    if (assignee) {
+      actions.push(`reassigned to ${assignee}`);
+    }
+  }
+
+  if (policy.escalation.raisePriority) {
+    const current: TicketPriority = getDataValue(ticket, 'priority') || 'medium';
+    const index = TICKET_PRIORITIES.indexOf(current);
+    const raised = TICKET_PRIORITIES[Math.min(Math.max(index, 0) + 1, TICKET_PRIORITIES.length - 1)];
+    if (raised !== current) {
+      $set['data.priority'] = raised;
+      actions.push(`priority raised to ${raised}`);
+    }
+  }
+
+  const escalation: TicketEscalation = { timer, at: now, actions, notified: policy.escalation.notifySubscribers };
+  await connection.model('Ticket').updateOne({ _id: ticket._id }, {
+    ...(Object.keys($set).length > 0 ? { $set } : {}),
+    $push: { 'data.escalations': escalation }
+  });
+
+  const summary = `Ticket ${ticket._id} missed its ${TIMER_LABELS[timer]} target${actions.length > 0 ? `, ${actions.join(', ')}` : ''}`;
+  publishEvent(serverName, 'tickets', 'ticket.escalated', { ticketId: ticket._id, timer, actions });
+  triggerWebhookEvent(connection, serverName, 'ticket.escalated', {
+    ticketId: ticket._id,
+    subject: ticket.subject,
+    timer,
+    actions
+  });
+  await recordAuditEvent(connection, serverName, {
+    action: 'ticket.escalated',
+    summary,
+    actor: SYSTEM_ACTOR,
+    target: { type: 'ticket', id: ticket._id },
+    metadata: { timer, actions, notified: escalation.notified }
+  });
+}
+
+async function handleWaitingOnPlayer(connection: Connection, serverName: string, settings: TicketSlaSettings, now: Date): Promise<void> {
+  const { reminderAfterDays, autoCloseAfterDays } = settings.waitingOnPlayer;
+  const thresholds = [reminderAfterDays, autoCloseAfterDays].filter((days): days is number => !!days);
+  if (thresholds.length === 0) return;
+
+  const Ticket = connection.model('Ticket');
+  const cutoff = new Date(now.getTime() - Math.min(...thresholds) * DAY_MS);
+  // Tickets migrated onto the lifecycle only have their last reply to go by
+  const waiting = await Ticket.aggregate([
+    { $match: { status: 'Waiting on Player' } },
+    {
+      $project: {
+        subject: 1,
+        creator: 1,
+        type: 1,
+        status: 1,
+        locked: 1,
+        data: 1,
+        waitingSince: { $ifNull: ['$data.statusChangedAt', { $max: '$replies.created' }] }
+      }
+    },
+    { $match: { waitingSince: { $lte: cutoff } } },
+    { $limit: AUTOMATION_BATCH_SIZE }
+  ]);
+
+  for (const ticket of waiting) {
+    const waitingSince = new Date(ticket.waitingSince);
+    const waitingMs = now.getTime() - waitingSince.getTime();
+    try {
+      if (autoCloseAfterDays && waitingMs >= autoCloseAfterDays * DAY_MS) {
+        await autoCloseTicket(connection, serverName, ticket, waitingSince, autoCloseAfterDays, now);
+        continue;
+      }
+
+      const remindedAt = getDataValue(ticket, 'playerReminderSentAt');
+      const alreadyReminded = remindedAt && new Date(remindedAt).getTime() >= waitingSince.getTime();
+      if (reminderAfterDays && waitingMs >= reminderAfterDays * DAY_MS && !alreadyReminded) {
+        await remindPlayer(connection, serverName, ticket, waitingSince, autoCloseAfterDays, now);
+      }
+    } catch (error) {
+      console.error(`[Ticket SLA] Failed to handle inactive ticket ${ticket._id}:`, error);
+    }
+  }
+}
+
+async function remindPlayer(
+  connection: Connection,
+  serverName: string,
+  ticket: any,
+  waitingSince: Date,
+  autoCloseAfterDays: number | null,
+  now: Date
+): Promise<void> {
+  const closing = autoCloseAfterDays
+    ? ` It will be closed automatically on ${new Date(waitingSince.getTime() + autoCloseAfterDays * DAY_MS).toDateString()} if we don't hear back from you.`
+    : '';
+  const result = await connection.model('Ticket').updateOne(
+    { _id: ticket._id, status: 'Waiting on Player' },
+    {
+      $set: { 'data.playerReminderSentAt': now },
+      $push: {
+        replies: {
+          name: 'System',
+          content: `We're waiting for your reply to this ticket.${closing}`,
+          type: 'system',
+          created: now,
+          staff: false,
+          action: 'REMINDER'
+        }
+      }
+    }
+  );
+  if (result.modifiedCount === 0) return;
+
+  publishEvent(serverName, 'tickets', 'ticket.updated', { ticketId: ticket._id, reminded: true });
+  try {
+    await sendTicketAccessLink(connection, serverName, ticket, 'reminder');
+  } catch (error) {
+    console.error(`[Ticket SLA] Failed to email reminder for ticket ${ticket._id}:`, error);
+  }
+}
+
+async function autoCloseTicket(
+  connection: Connection,
+  serverName: string,
+  ticket: any,
+  waitingSince: Date,
+  autoCloseAfterDays: number,
+  now: Date
+): Promise<void> {
+  const statusUpdate = getTicketStatusUpdate(ticket, 'Closed', 'Ticket Automation', `No reply from the player in ${autoCloseAfterDays} days`);
+  if (!statusUpdate) return;
+
+  // The player may have replied in the meantime
+  const result = await connection.model('Ticket').updateOne(
+    { _id: ticket._id, status: 'Waiting on Player' },
+    {
+      $set: { ...statusUpdate.$set, 'data.autoClosedAt': now },
+      $push: {
+        ...statusUpdate.$push,
+        replies: {
+          name: 'System',
+          content: `This ticket was closed automatically after ${autoCloseAfterDays} days without a reply. Please open a new ticket if you still need help.`,
+          type: 'system',
+          created: now,
+          staff: false,
+          action: 'Close'
+        }
+      }
+    }
+  );
+  if (result.modifiedCount === 0) return;
+
+  publishEvent(serverName, 'tickets', 'ticket.updated', { ticketId: ticket._id, status: 'Closed', locked: true });
+  triggerWebhookEvent(connection, serverName, 'ticket.closed', {
+    ticketId: ticket._id,
+    subject: ticket.subject,
+    closedBy: 'System'
+  });
+  await recordAuditEvent(connection, serverName, {
+    action: 'ticket.closed',
+    summary: `Ticket ${ticket._id} closed after waiting ${autoCloseAfterDays} days on the player`,
+    actor: { type: 'system', id: null, name: 'Ticket Automation' },
+    target: { type: 'ticket', id: ticket._id },
+    after: { status: 'Closed', locked: true },
+    metadata: { waitingSince }
+  });
+}
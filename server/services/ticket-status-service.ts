@@ -0,0 +1,319 @@
+import { Request } from 'express';
+import { Connection } from 'mongoose';
+
+/**
+ * Ticket status workflow.
+ *
+ * Tickets move through a fixed lifecycle: New, Open, Waiting on Player, Waiting on
+ * Staff, Resolved and Closed. Admins configure which moves staff can make and the
+ * permission each one needs. Replies move tickets between the waiting statuses on their
+ * own. Every change is kept on the ticket as a timeline of status events. Closed
+ * tickets are the only ones that don't take replies; the old `locked` flag is kept in
+ * sync for API clients that still read it.
+ */
+
+export const TICKET_STATUSES = ['New', 'Open', 'Waiting on Player', 'Waiting on Staff', 'Resolved', 'Closed'] as const;
+
+export type TicketStatus = typeof TICKET_STATUSES[number];
+
+// Tickets players started from a form but haven't submitted, outside the lifecycle
+export const UNFINISHED_TICKET_STATUS = 'Unfinished';
+
+// Tickets that still need work
+export const ACTIVE_TICKET_STATUSES: TicketStatus[] = ['New', 'Open', 'Waiting on Player', 'Waiting on Staff'];
+// Tickets that are done with, Resolved ones reopen when the player replies
+export const FINISHED_TICKET_STATUSES: TicketStatus[] = ['Resolved', 'Closed'];
+
+export const TRANSITION_PERMISSIONS = ['ticket.reply.all', 'ticket.close.all'] as const;
+
+export type TransitionPermission = typeof TRANSITION_PERMISSIONS[number];
+
+export interface ITicketStatusTransition {
+  from: TicketStatus;
+  to: TicketStatus;
+  permission: TransitionPermission;
+}
+
+export interface TicketWorkflowSettings {
+  transitions: ITicketStatusTransition[];
+}
+
+export interface TicketStatusEvent {
+  from: string | null;
+  to: TicketStatus;
+  // Staff member, player or automation that changed the status
+  by: string;
+  at: Date;
+  reason: string | null;
+}
+
+const transition = (from: TicketStatus, to: TicketStatus[], permission: TransitionPermission): ITicketStatusTransition[] =>
+  to.map(target => ({ from, to: target, permission }));
+
+export const DEFAULT_TICKET_WORKFLOW: TicketWorkflowSettings = {
+  transitions: [
+    ...transition('New', ['Open', 'Waiting on Player', 'Waiting on Staff'], 'ticket.reply.all'),
+    ...transition('New', ['Resolved', 'Closed'], 'ticket.close.all'),
+    ...transition('Open', ['Waiting on Player', 'Waiting on Staff'], 'ticket.reply.all'),
+    ...transition('Open', ['Resolved', 'Closed'], 'ticket.close.all'),
+    ...transition('Waiting on Player', ['Open', 'Waiting on Staff'], 'ticket.reply.all'),
+    ...transition('Waiting on Player', ['Resolved', 'Closed'], 'ticket.close.all'),
+    ...transition('Waiting on Staff', ['Open', 'Waiting on Player'], 'ticket.reply.all'),
+    ...transition('Waiting on Staff', ['Resolved', 'Closed'], 'ticket.close.all'),
+    ...transition('Resolved', ['Open', 'Closed'], 'ticket.close.all'),
+    ...transition('Closed', ['Open'], 'ticket.close.all')
+  ]
+};
+
+// Status events kept on a ticket, the oldest are dropped first
+const MAX_STATUS_HISTORY = 100;
+const MIGRATION_SETTINGS_TYPE = 'ticketStatusLifecycle';
+// Statuses tickets used to be given, and where they are in the lifecycle
+const LEGACY_STATUSES: Record<string, TicketStatus> = {
+  'In Progress': 'Open',
+  'Under Review': 'Open',
+  'Pending Player Response': 'Waiting on Player',
+  'Approved': 'Resolved',
+  'Accepted': 'Resolved',
+  'Denied': 'Resolved',
+  'Rejected': 'Resolved'
+};
+
+const migrations = new WeakMap<Connection, Promise<void>>();
+
+export function isTicketStatus(value: unknown): value is TicketStatus {
+  return typeof value === 'string' && (TICKET_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Status used in URLs and query parameters, like waiting_on_player
+ */
+export function toTicketStatusSlug(status: string): string {
+  return status.toLowerCase().replace(/\s+/g, '_');
+}
+
+/**
+ * Statuses a status filter stands for: open and closed for active and finished tickets,
+ * or the slug of a single status. Null when the filter isn't known.
+ */
+export function getTicketStatusFilter(filter: string): TicketStatus[] | null {
+  if (filter === 'open') return ACTIVE_TICKET_STATUSES;
+  if (filter === 'closed') return FINISHED_TICKET_STATUSES;
+  const status = TICKET_STATUSES.find(candidate => toTicketStatusSlug(candidate) === filter);
+  return status ? [status] : null;
+}
+
+/**
+ * Lifecycle status for a status value, including the ones tickets used to be given.
+ * Null when it isn't one.
+ */
+export function normalizeTicketStatus(value: unknown): TicketStatus | null {
+  if (isTicketStatus(value)) return value;
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LEGACY_STATUSES, value) ? LEGACY_STATUSES[value] : null;
+}
+
+/**
+ * Where a ticket is in the lifecycle, for tickets that weren't migrated yet
+ */
+export function getTicketStatus(ticket: any): TicketStatus | typeof UNFINISHED_TICKET_STATUS {
+  if (ticket?.status === UNFINISHED_TICKET_STATUS) return UNFINISHED_TICKET_STATUS;
+  if (ticket?.locked === true) return 'Closed';
+  return normalizeTicketStatus(ticket?.status) || 'Open';
+}
+
+export function isActiveTicketStatus(status: string): boolean {
+  return (ACTIVE_TICKET_STATUSES as string[]).includes(status);
+}
+
+export async function getTicketWorkflow(connection: Connection): Promise<TicketWorkflowSettings> {
+  const settingsDoc = await connection.model('Settings').findOne({ type: 'ticketWorkflow' });
+  return Array.isArray(settingsDoc?.data?.transitions) ? settingsDoc!.data : DEFAULT_TICKET_WORKFLOW;
+}
+
+/**
+ * Check a workflow submitted from the settings page. Returns the cleaned up workflow or
+ * why it was rejected.
+ */
+export function normalizeTicketWorkflow(input: unknown): { workflow?: TicketWorkflowSettings; error?: string } {
+  if (!Array.isArray(input)) {
+    return { error: 'transitions must be an array' };
+  }
+
+  const transitions: ITicketStatusTransition[] = [];
+  for (const raw of input) {
+    if (!isTicketStatus(raw?.from) || !isTicketStatus(raw?.to) || raw.from === raw.to) {
+      return { error: `Invalid transition from ${raw?.from} to ${raw?.to}` };
+    }
+    if (!TRANSITION_PERMISSIONS.includes(raw.permission)) {
+      return { error: `Invalid permission for the transition from ${raw.from} to ${raw.to}` };
+    }
+    if (transitions.some(existing => existing.from === raw.from && existing.to === raw.to)) {
+      return { error: `The transition from ${raw.from} to ${raw.to} is listed more than once` };
+    }
+    transitions.push({ from: raw.from, to: raw.to, permission: raw.permission });
+  }
+
+  // Closed tickets would be stuck for good
+  if (!transitions.some(existing => existing.from === 'Closed')) {
+    return { error: 'Closed tickets have to be able to be reopened' };
+  }
+  return { workflow: { transitions } };
+}
+
+export function findTicketStatusTransition(workflow: TicketWorkflowSettings, from: string, to: string): ITicketStatusTransition | null {
+  return workflow.transitions.find(candidate => candidate.from === from && candidate.to === to) || null;
+}
+
+/**
+ * Statuses the staff member behind a request can move a ticket to
+ */
+export async function getAllowedTicketStatuses(req: Request, workflow: TicketWorkflowSettings, from: string): Promise<TicketStatus[]> {
+  const { hasPermission } = await import('../middleware/permission-middleware');
+  const allowed: TicketStatus[] = [];
+  for (const candidate of workflow.transitions.filter(existing => existing.from === from)) {
+    if (await hasPermission(req, candidate.permission)) {
+      allowed.push(candidate.to);
+    }
+  }
+  return allowed;
+}
+
+/**
+ * Why the staff member behind a request can't move a ticket to a status, or null if
+ * they can
+ */
+export async function checkTicketStatusChange(req: Request, workflow: TicketWorkflowSettings, from: string, to: TicketStatus): Promise<string | null> {
+  const allowedTransition = findTicketStatusTransition(workflow, from, to);
+  if (!allowedTransition) {
+    return `Tickets can't move from ${from} to ${to}`;
+  }
+  const { hasPermission } = await import('../middleware/permission-middleware');
+  if (!(await hasPermission(req, allowedTransition.permission))) {
+    return `Moving tickets from ${from} to ${to} requires the ${allowedTransition.permission} permission`;
+  }
+  return null;
+}
+
+/**
+ * Status a reply moves a ticket to on its own: staff replies leave it waiting on the
+ * player, player replies waiting on staff and reopen resolved tickets. Null when the
+ * status stays.
+ */
+export function getReplyTicketStatus(ticket: any, fromStaff: boolean): TicketStatus | null {
+  const current = getTicketStatus(ticket);
+  if (fromStaff) {
+    return isActiveTicketStatus(current) && current !== 'Waiting on Player' ? 'Waiting on Player' : null;
+  }
+  return (isActiveTicketStatus(current) || current === 'Resolved') && current !== 'Waiting on Staff' ? 'Waiting on Staff' : null;
+}
+
+export function getTicketStatusHistory(ticket: any): TicketStatusEvent[] {
+  const data = ticket?.data;
+  const history = data instanceof Map ? data.get('statusHistory') : data?.statusHistory;
+  return Array.isArray(history) ? history : [];
+}
+
+function createStatusEvent(ticket: any, to: TicketStatus, by: string, reason: string | null): TicketStatusEvent | null {
+  // Tickets being created start the timeline, whatever status they were given
+  if (ticket?.isNew === true) {
+    return { from: null, to, by, at: new Date(), reason };
+  }
+  const from = ticket?.status ?? null;
+  if (from === to && ticket?.locked === (to === 'Closed')) return null;
+  return { from, to, by, at: new Date(), reason };
+}
+
+/**
+ * Move a ticket document to a status and add the change to its timeline. Returns the
+ * event, or null when the ticket already had the status.
+ */
+export function setTicketStatus(ticket: any, to: TicketStatus, by: string, reason: string | null = null): TicketStatusEvent | null {
+  const event = createStatusEvent(ticket, to, by, reason);
+  if (!event) return null;
+
+  ticket.status = to;
+  ticket.locked = to === 'Closed';
+  const history = [...getTicketStatusHistory(ticket), event].slice(-MAX_STATUS_HISTORY);
+  if (ticket.data instanceof Map) {
+    ticket.data.set('statusHistory', history);
+    ticket.data.set('statusChangedAt', event.at);
+  } else {
+    ticket.data = { ...(ticket.data || {}), statusHistory: history, statusChangedAt: event.at };
+  }
+  return event;
+}
+
+/**
+ * The update operators that move a ticket to a status, for tickets changed with an
+ * atomic update instead of a document save. Null when the ticket already had the status.
+ */
+export function getTicketStatusUpdate(
+  ticket: any,
+  to: TicketStatus,
+  by: string,
+  reason: string | null = null
+): { $set: Record<string, any>; $push: Record<string, any> } | null {
+  const event = createStatusEvent(ticket, to, by, reason);
+  if (!event) return null;
+  return {
+    $set: { status: to, locked: to === 'Closed', 'data.statusChangedAt': event.at },
+    $push: { 'data.statusHistory': { $each: [event], $slice: -MAX_STATUS_HISTORY } }
+  };
+}
+
+/**
+ * Move tickets with statuses from before the lifecycle, or only the locked flag, onto
+ * it. Runs once per connection.
+ */
+export function migrateTicketStatuses(connection: Connection): Promise<void> {
+  let migration = migrations.get(connection);
+  if (!migration) {
+    migration = runMigration(connection).catch(error => {
+      migrations.delete(connection);
+      throw error;
+    });
+    migrations.set(connection, migration);
+  }
+  return migration;
+}
+
+async function runMigration(connection: Connection): Promise<void> {
+  const Settings = connection.model('Settings');
+  if (await Settings.exists({ type: MIGRATION_SETTINGS_TYPE, 'data.migratedAt': { $ne: null } })) {
+    return;
+  }
+
+  const Ticket = connection.model('Ticket');
+  let migrated = 0;
+
+  // Locked tickets were closed whatever their status said
+  const locked = await Ticket.updateMany(
+    { locked: true, status: { $ne: 'Closed' } },
+    { $set: { status: 'Closed' } }
+  );
+  migrated += locked.modifiedCount;
+
+  for (const [legacy, status] of Object.entries(LEGACY_STATUSES)) {
+    // Appeal decisions were stored as the status, they are the appeal's resolution now
+    const update = status === 'Resolved'
+      ? [{ $set: { status, 'data.resolution': { $ifNull: ['$data.resolution', legacy] } } }]
+      : { $set: { status } };
+    const result = await Ticket.updateMany({ status: legacy }, update);
+    migrated += result.modifiedCount;
+  }
+
+  const unknown = await Ticket.updateMany(
+    { status: { $nin: [...TICKET_STATUSES, UNFINISHED_TICKET_STATUS] } },
+    { $set: { status: 'Open', locked: false } }
+  );
+  migrated += unknown.modifiedCount;
+
+  await Settings.updateOne(
+    { type: MIGRATION_SETTINGS_TYPE },
+    { $set: { 'data.migratedAt': new Date(), 'data.migratedTickets': migrated } },
+    { upsert: true }
+  );
+  if (migrated > 0) {
+    console.log(`[Ticket Status] Moved ${migrated} tickets onto the status lifecycle for ${connection.name}`);
+  }
+}
@@ -0,0 +1,346 @@
+import crypto from 'crypto';
+import { Connection, Schema, Document, Model, Types } from 'mongoose';
+import { publicRequest, validatePublicUrl } from '../utils/public-http';
+
+/**
+ * Outbound webhooks for moderation events.
+ *
+ * Each tenant configures webhook subscriptions for a set of events. Deliveries are
+ * signed with the webhook's secret, retried with exponential backoff and recorded in
+ * a delivery log so staff can see what was sent and how the receiver responded.
+ */
+
+export const WEBHOOK_EVENTS = [
+  'punishment.issued',
+  'punishment.modified',
+  'punishment.pardoned',
+  'ticket.created',
+  'ticket.replied',
+  'ticket.closed',
+  'ticket.escalated',
+  'appeal.decided',
+  'staff.role_changed'
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+export type WebhookFormat = 'json' | 'discord';
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+export interface IWebhook extends Document<Types.ObjectId> {
+  name: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  format: WebhookFormat;
+  enabled: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IWebhookDelivery extends Document<Types.ObjectId> {
+  webhookId: Types.ObjectId;
+  event: WebhookEvent | 'webhook.test';
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number | null;
+  error?: string | null;
+  nextAttemptAt?: Date | null;
+  lastAttemptAt?: Date | null;
+  createdAt: Date;
+}
+
+const WebhookSchema = new Schema<IWebhook>({
+  name: { type: String, required: true },
+  url: { type: String, required: true },
+  secret: { type: String, required: true },
+  events: { type: [String], enum: WEBHOOK_EVENTS, default: [] },
+  format: { type: String, enum: ['json', 'discord'], default: 'json' },
+  enabled: { type: Boolean, default: true },
+  createdBy: { type: String, required: true }
+}, {
+  timestamps: true
+});
+
+const WebhookDeliverySchema = new Schema<IWebhookDelivery>({
+  webhookId: { type: Schema.Types.ObjectId, required: true, index: true },
+  event: { type: String, required: true },
+  payload: { type: Schema.Types.Mixed, required: true },
+  status: { type: String, enum: ['pending', 'success', 'failed'], default: 'pending' },
+  attempts: { type: Number, default: 0 },
+  responseStatus: { type: Number, default: null },
+  error: { type: String, default: null },
+  nextAttemptAt: { type: Date, default: null },
+  lastAttemptAt: { type: Date, default: null },
+  createdAt: { type: Date, default: Date.now }
+});
+
+const DELIVERY_LOG_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+WebhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: DELIVERY_LOG_RETENTION_SECONDS });
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+// Delay before each retry, the delivery is marked failed once these are exhausted
+const RETRY_DELAYS_MS = [30 * 1000, 2 * 60 * 1000, 10 * 60 * 1000, 60 * 60 * 1000, 6 * 60 * 60 * 1000];
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+const USER_AGENT = 'modl-webhooks/1.0';
+
+const EVENT_LABELS: Record<WebhookEvent | 'webhook.test', string> = {
+  'punishment.issued': 'Punishment Issued',
+  'punishment.modified': 'Punishment Modified',
+  'punishment.pardoned': 'Punishment Pardoned',
+  'ticket.created': 'Ticket Created',
+  'ticket.replied': 'Ticket Reply',
+  'ticket.closed': 'Ticket Closed',
+  'ticket.escalated': 'Ticket Escalated',
+  'appeal.decided': 'Appeal Decided',
+  'staff.role_changed': 'Staff Role Changed',
+  'webhook.test': 'Test Event'
+};
+
+const EVENT_COLORS: Record<string, number> = {
+  punishment: 0xe74c3c,
+  ticket: 0x3498db,
+  appeal: 0xf1c40f,
+  staff: 0x9b59b6,
+  webhook: 0x95a5a6
+};
+
+const resumedConnections = new WeakSet<Connection>();
+
+export function isWebhookEvent(event: unknown): event is WebhookEvent {
+  return typeof event === 'string' && (WEBHOOK_EVENTS as readonly string[]).includes(event);
+}
+
+export function getWebhookModel(dbConnection: Connection): Model<IWebhook> {
+  return (dbConnection.models.Webhook as Model<IWebhook>) || dbConnection.model<IWebhook>('Webhook', WebhookSchema);
+}
+
+export function getWebhookDeliveryModel(dbConnection: Connection): Model<IWebhookDelivery> {
+  return (dbConnection.models.WebhookDelivery as Model<IWebhookDelivery>) ||
+    dbConnection.model<IWebhookDelivery>('WebhookDelivery', WebhookDeliverySchema);
+}
+
+/**
+ * Generate a new signing secret for a webhook
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * Signature sent in the X-Modl-Signature header. Receivers recompute it over
+ * `${timestamp}.${body}` with their copy of the secret.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Validate a webhook URL, returns an error message or null when it is acceptable.
+ * Where the host resolves to is checked again on every delivery.
+ */
+export function validateWebhookUrl(url: string): string | null {
+  return validatePublicUrl(url, 'Webhook URL');
+}
+
+/**
+ * Build a Discord embed for an event
+ */
+export function formatDiscordPayload(event: WebhookEvent | 'webhook.test', data: Record<string, any>, serverName?: string | null) {
+  const fields = Object.entries(data)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .slice(0, 25)
+    .map(([key, value]) => ({
+      name: key.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase()),
+      value: truncate(typeof value === 'object' ? JSON.stringify(value) : String(value), 1024),
+      inline: String(value).length <= 40
+    }));
+
+  return {
+    username: 'modl',
+    embeds: [{
+      title: EVENT_LABELS[event],
+      color: EVENT_COLORS[event.split('.')[0]] ?? EVENT_COLORS.webhook,
+      fields,
+      footer: serverName ? { text: serverName } : undefined,
+      timestamp: new Date().toISOString()
+    }]
+  };
+}
+
+/**
+ * Notify every enabled webhook subscribed to an event. Deliveries happen in the
+ * background, this never throws so callers don't need to guard it.
+ */
+export function triggerWebhookEvent(
+  dbConnection: Connection | undefined | null,
+  serverName: string | undefined | null,
+  event: WebhookEvent,
+  data: Record<string, any>
+): void {
+  if (!dbConnection) return;
+
+  (async () => {
+    resumePendingDeliveries(dbConnection);
+
+    const Webhook = getWebhookModel(dbConnection);
+    const webhooks = await Webhook.find({ enabled: true, events: event });
+    for (const webhook of webhooks) {
+      const delivery = await createDelivery(dbConnection, webhook, event, data, serverName);
+      await attemptDelivery(dbConnection, webhook, delivery);
+    }
+  })().catch(error => {
+    console.error(`[Webhooks - ${serverName || 'Unknown Server'}] Failed to dispatch ${event}:`, error);
+  });
+}
+
+/**
+ * Send a test event to a webhook and wait for the result of the first attempt
+ */
+export async function sendTestWebhook(
+  dbConnection: Connection,
+  serverName: string | undefined | null,
+  webhook: IWebhook,
+  triggeredBy: string
+): Promise<IWebhookDelivery> {
+  const delivery = await createDelivery(dbConnection, webhook, 'webhook.test', {
+    message: 'This is a test event from modl.',
+    triggeredBy
+  }, serverName);
+  return attemptDelivery(dbConnection, webhook, delivery);
+}
+
+async function createDelivery(
+  dbConnection: Connection,
+  webhook: IWebhook,
+  event: WebhookEvent | 'webhook.test',
+  data: Record<string, any>,
+  serverName: string | undefined | null
+): Promise<IWebhookDelivery> {
+  const WebhookDelivery = getWebhookDeliveryModel(dbConnection);
+  const id = new Types.ObjectId();
+
+  const payload = webhook.format === 'discord'
+    ? formatDiscordPayload(event, data, serverName)
+    : {
+        id: id.toString(),
+        event,
+        server: serverName || undefined,
+        timestamp: new Date().toISOString(),
+        data
+      };
+
+  return WebhookDelivery.create({
+    _id: id,
+    webhookId: webhook._id,
+    event,
+    payload
+  });
+}
+
+async function attemptDelivery(
+  dbConnection: Connection,
+  webhook: IWebhook,
+  delivery: IWebhookDelivery
+): Promise<IWebhookDelivery> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  delivery.attempts += 1;
+  delivery.lastAttemptAt = new Date();
+
+  let retryable = true;
+  try {
+    // Only the status is kept, the receiver's response isn't shown to the tenant
+    const response = await publicRequest(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': USER_AGENT,
+        'X-Modl-Event': delivery.event,
+        'X-Modl-Delivery': delivery._id.toString(),
+        'X-Modl-Timestamp': timestamp,
+        'X-Modl-Signature': signWebhookPayload(webhook.secret, timestamp, body)
+      },
+      body,
+      timeoutMs: REQUEST_TIMEOUT_MS
+    });
+
+    delivery.responseStatus = response.status;
+
+    if (response.ok) {
+      delivery.status = 'success';
+      delivery.error = null;
+      delivery.nextAttemptAt = null;
+      return await delivery.save();
+    }
+
+    delivery.error = `Receiver responded with HTTP ${response.status}`;
+    // Other client errors won't succeed on a retry
+    retryable = response.status >= 500 || response.status === 408 || response.status === 429;
+  } catch (error) {
+    delivery.responseStatus = null;
+    delivery.error = (error as Error).name === 'TimeoutError'
+      ? `Request timed out after ${REQUEST_TIMEOUT_MS / 1000}s`
+      : (error as Error).message;
+  }
+
+  const retryDelay = RETRY_DELAYS_MS[delivery.attempts - 1];
+  if (delivery.event !== 'webhook.test' && retryable && retryDelay !== undefined) {
+    delivery.status = 'pending';
+    delivery.nextAttemptAt = new Date(Date.now() + retryDelay);
+    scheduleRetry(dbConnection, delivery._id, retryDelay);
+  } else {
+    delivery.status = 'failed';
+    delivery.nextAttemptAt = null;
+  }
+
+  return delivery.save();
+}
+
+function scheduleRetry(dbConnection: Connection, deliveryId: Types.ObjectId, delayMs: number): void {
+  const timer = setTimeout(() => {
+    retryDelivery(dbConnection, deliveryId).catch(error => {
+      console.error(`[Webhooks] Failed to retry delivery ${deliveryId}:`, error);
+    });
+  }, delayMs);
+  timer.unref();
+}
+
+async function retryDelivery(dbConnection: Connection, deliveryId: Types.ObjectId): Promise<void> {
+  const delivery = await getWebhookDeliveryModel(dbConnection).findOne({ _id: deliveryId, status: 'pending' });
+  if (!delivery) return;
+
+  const webhook = await getWebhookModel(dbConnection).findById(delivery.webhookId);
+  if (!webhook || !webhook.enabled) {
+    delivery.status = 'failed';
+    delivery.error = webhook ? 'Webhook was disabled' : 'Webhook was deleted';
+    delivery.nextAttemptAt = null;
+    await delivery.save();
+    return;
+  }
+
+  await attemptDelivery(dbConnection, webhook, delivery);
+}
+
+/**
+ * Reschedule retries that were pending when the process last stopped
+ */
+function resumePendingDeliveries(dbConnection: Connection): void {
+  if (resumedConnections.has(dbConnection)) return;
+  resumedConnections.add(dbConnection);
+
+  getWebhookDeliveryModel(dbConnection)
+    .find({ status: 'pending', nextAttemptAt: { $ne: null } }, '_id nextAttemptAt')
+    .then(deliveries => {
+      for (const delivery of deliveries) {
+        scheduleRetry(dbConnection, delivery._id, Math.max(0, delivery.nextAttemptAt!.getTime() - Date.now()));
+      }
+    })
+    .catch(error => console.error('[Webhooks] Failed to resume pending deliveries:', error));
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.substring(0, maxLength - 3)}...` : text;
+}
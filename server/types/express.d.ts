@@ -1,4 +1,5 @@
 import { Connection } from 'mongoose';
+import type { AuthenticatedApiKey } from '../services/api-key-service';
 
 declare global {
   namespace Express {
@@ -6,6 +7,8 @@ declare global {
       serverName?: string;
       serverDbConnection?: Connection;
       modlServer?: any;
+      apiKey?: AuthenticatedApiKey; // Set when the request was authenticated with an API key
+      auditRecorded?: boolean; // Set once the handler recorded its own audit event
     }
   }
 }
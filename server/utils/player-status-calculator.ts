@@ -3,6 +3,10 @@
  * 
  * Calculates player social and gameplay status based on their punishments,
  * punishment type points, and configured thresholds.
+ *
+ * Points of a punishment count in full while it is active. Once it expires the
+ * points keep counting and fade according to the decay configured for its
+ * category, so repeat offenders are still recognised after short punishments.
  */
 
 interface IPunishment {
@@ -15,7 +19,8 @@ interface IPunishment {
   notes: string[];
   evidence: string[];
   attachedTicketIds: string[];
-  data: Map<string, any>;
+  // A Map on documents, a plain object on lean results
+  data: Map<string, any> | Record<string, any>;
 }
 
 interface IPunishmentType {
@@ -32,15 +37,34 @@ interface IPunishmentType {
   singleSeverityPoints?: number;
 }
 
+export type PointDecayMode = 'none' | 'half-life' | 'linear';
+
+export interface IPointDecay {
+  // none: points disappear on expiry, half-life: points halve every `days`, linear: points reach zero after `days`
+  mode: PointDecayMode;
+  days: number;
+}
+
+interface ICategoryThresholds {
+  medium: number;
+  habitual: number;
+  decay?: IPointDecay;
+}
+
 interface IStatusThresholds {
-  gameplay: {
-    medium: number;
-    habitual: number;
-  };
-  social: {
-    medium: number;
-    habitual: number;
-  };
+  gameplay: ICategoryThresholds;
+  social: ICategoryThresholds;
+}
+
+export interface IPointContribution {
+  punishmentId: string;
+  typeOrdinal: number;
+  typeName: string;
+  category: 'Social' | 'Gameplay';
+  basePoints: number;
+  points: number;
+  active: boolean;
+  expiredAt?: Date;
 }
 
 interface IPlayerStatus {
@@ -48,30 +72,40 @@ interface IPlayerStatus {
   gameplay: 'Low' | 'Medium' | 'Habitual';
   socialPoints: number;
   gameplayPoints: number;
+  breakdown: IPointContribution[];
 }
 
+export const DEFAULT_POINT_DECAY: IPointDecay = { mode: 'half-life', days: 30 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Calculate player status based on punishments and thresholds
  */
 export function calculatePlayerStatus(
   punishments: IPunishment[],
   punishmentTypes: IPunishmentType[],
-  thresholds: IStatusThresholds
+  thresholds: IStatusThresholds,
+  now: Date = new Date()
 ): IPlayerStatus {
   let socialPoints = 0;
   let gameplayPoints = 0;
+  const breakdown: IPointContribution[] = [];
 
-  // Calculate points from active punishments
+  // Calculate points from active and decaying punishments
   for (const punishment of punishments) {
-    // Check if punishment is active (not expired)
-    const isActive = isPunishmentActive(punishment);
-    if (!isActive) continue;
+    // Pardoned and not yet started punishments never count
+    if (!isPunishmentCountable(punishment)) continue;
 
     // Find punishment type
     const punishmentType = punishmentTypes.find(pt => pt.ordinal === punishment.type_ordinal);
-    if (!punishmentType) continue;    // Get points based on severity or single severity
+    if (!punishmentType) continue;
+    // Administrative punishments don't contribute to status points
+    if (punishmentType.category !== 'Social' && punishmentType.category !== 'Gameplay') continue;
+
+    // Get points based on severity or single severity
     let points = 0;
-    const severity = punishment.data?.get('severity')?.toLowerCase();
+    const severity = getPunishmentValue(punishment, 'severity')?.toLowerCase();
     
     if (punishmentType.customPoints !== undefined) {
       // Custom points for permanent punishments (like Bad Skin, Bad Name)
@@ -98,15 +132,41 @@ export function calculatePlayerStatus(
       }
     }
 
+    if (points <= 0) continue;
+
+    // Apply decay once the punishment has expired
+    const expires = getPunishmentValue(punishment, 'expires');
+    const expiredAt = expires && new Date(expires) < now ? new Date(expires) : undefined;
+    const categoryThresholds = punishmentType.category === 'Social' ? thresholds.social : thresholds.gameplay;
+    const decayedPoints = expiredAt
+      ? applyPointDecay(points, now.getTime() - expiredAt.getTime(), categoryThresholds?.decay || DEFAULT_POINT_DECAY)
+      : points;
+
+    // Half-life decay never reaches zero, drop contributions that have faded out
+    if (roundPoints(decayedPoints) <= 0) continue;
+
     // Add points to appropriate category
     if (punishmentType.category === 'Social') {
-      socialPoints += points;
-    } else if (punishmentType.category === 'Gameplay') {
-      gameplayPoints += points;
+      socialPoints += decayedPoints;
+    } else {
+      gameplayPoints += decayedPoints;
     }
-    // Administrative punishments don't contribute to status points
+
+    breakdown.push({
+      punishmentId: punishment.id,
+      typeOrdinal: punishment.type_ordinal,
+      typeName: punishmentType.name,
+      category: punishmentType.category,
+      basePoints: points,
+      points: roundPoints(decayedPoints),
+      active: !expiredAt,
+      expiredAt
+    });
   }
 
+  socialPoints = roundPoints(socialPoints);
+  gameplayPoints = roundPoints(gameplayPoints);
+
   // Determine status based on thresholds
   const socialStatus = getStatusLevel(socialPoints, thresholds.social);
   const gameplayStatus = getStatusLevel(gameplayPoints, thresholds.gameplay);
@@ -115,22 +175,28 @@ export function calculatePlayerStatus(
     social: socialStatus,
     gameplay: gameplayStatus,
     socialPoints,
-    gameplayPoints
+    gameplayPoints,
+    breakdown
   };
 }
 
+function getPunishmentValue(punishment: IPunishment, key: string): any {
+  return punishment.data instanceof Map ? punishment.data.get(key) : punishment.data?.[key];
+}
+
 /**
- * Check if a punishment is currently active
+ * Check if a punishment contributes points at all (active or expired)
  */
-function isPunishmentActive(punishment: IPunishment): boolean {
-  // Check if explicitly marked as inactive
-  if (punishment.data?.get('active') === false) {
+function isPunishmentCountable(punishment: IPunishment): boolean {
+  // Check if explicitly marked as inactive (pardoned / appeal accepted)
+  if (getPunishmentValue(punishment, 'active') === false) {
     return false;
   }
 
-  // Check if expired
-  const expires = punishment.data?.get('expires');
-  if (expires && new Date(expires) < new Date()) {
+  const pardoned = (punishment.modifications || []).some(
+    (mod: any) => mod.type === 'MANUAL_PARDON' || mod.type === 'APPEAL_ACCEPT'
+  );
+  if (pardoned) {
     return false;
   }
 
@@ -143,6 +209,27 @@ function isPunishmentActive(punishment: IPunishment): boolean {
   return true;
 }
 
+/**
+ * Reduce points by the time elapsed since the punishment expired
+ */
+export function applyPointDecay(points: number, elapsedMs: number, decay: IPointDecay): number {
+  if (decay.mode === 'none' || !decay.days || decay.days <= 0) {
+    return 0;
+  }
+
+  const elapsedDays = Math.max(0, elapsedMs) / DAY_MS;
+
+  if (decay.mode === 'linear') {
+    return Math.max(0, points * (1 - elapsedDays / decay.days));
+  }
+
+  return points * Math.pow(0.5, elapsedDays / decay.days);
+}
+
+function roundPoints(points: number): number {
+  return Math.round(points * 100) / 100;
+}
+
 /**
  * Get status level based on points and thresholds
  */
@@ -163,8 +250,8 @@ function getStatusLevel(
  * Update punishment data structure to match new schema
  */
 export function updatePunishmentDataStructure(punishment: IPunishment): void {
-  if (!punishment.data) {
-    punishment.data = new Map<string, any>();
+  if (!(punishment.data instanceof Map)) {
+    punishment.data = new Map<string, any>(Object.entries(punishment.data || {}));
   }
 
   // Ensure new fields exist with appropriate defaults
@@ -0,0 +1,172 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+/**
+ * Requests to URLs that tenants configure, like webhooks and LLM endpoints.
+ *
+ * Tenants must not be able to reach the panel's own network through them. The URL is
+ * checked when it is saved, and every request checks the addresses its host resolves
+ * to when it connects, so a hostname pointing at a private address, or one rebound to
+ * one after it was saved, is refused as well.
+ */
+
+export interface PublicResponse {
+  status: number;
+  ok: boolean;
+  text(): Promise<string>;
+  json(): Promise<any>;
+}
+
+export interface PublicRequestOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs: number;
+  // Longer responses fail instead of being buffered
+  maxResponseBytes?: number;
+}
+
+const DEFAULT_MAX_RESPONSE_BYTES = 10 * 1024 * 1024;
+
+const PRIVATE_ADDRESSES = new net.BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('198.18.0.0', 15, 'ipv4');
+// Multicast and reserved
+PRIVATE_ADDRESSES.addSubnet('224.0.0.0', 4, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('240.0.0.0', 4, 'ipv4');
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('ff00::', 8, 'ipv6');
+// NAT64 prefixes, which reach IPv4 hosts including private ones
+PRIVATE_ADDRESSES.addSubnet('64:ff9b::', 96, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('64:ff9b:1::', 48, 'ipv6');
+
+/**
+ * Whether an IP address is private, loopback, link-local, multicast, reserved or NAT64
+ */
+export function isPrivateAddress(address: string): boolean {
+  // IPv4 addresses written as IPv6, like ::ffff:127.0.0.1
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  const version = net.isIP(address);
+  if (!version) return false;
+  return PRIVATE_ADDRESSES.check(address, version === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Check a URL before it is saved, returns an error message or null when it is acceptable.
+ * Hostnames are only checked again when they are resolved for a request.
+ */
+export function validatePublicUrl(url: string, label = 'URL'): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Invalid URL';
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return `${label} must use http or https`;
+  }
+
+  const hostname = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal') || isPrivateAddress(hostname)) {
+    return `${label} must point to a public host`;
+  }
+
+  return null;
+}
+
+// dns.lookup for sockets, refusing hosts that resolve to a private address
+const publicLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+
+    const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      const refused = new Error(`${hostname} does not resolve to a public address`);
+      (refused as NodeJS.ErrnoException).code = 'EPUBLICONLY';
+      return callback(refused);
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}) as unknown as typeof dns.lookup;
+
+/**
+ * Send a request to a public host. Redirects aren't followed. Times out with an error
+ * named TimeoutError, like fetch with AbortSignal.timeout.
+ */
+export function publicRequest(url: string, options: PublicRequestOptions): Promise<PublicResponse> {
+  const urlError = validatePublicUrl(url);
+  if (urlError) {
+    return Promise.reject(new Error(urlError));
+  }
+
+  const parsed = new URL(url);
+  const client = parsed.protocol === 'https:' ? https : http;
+  const maxResponseBytes = options.maxResponseBytes ?? DEFAULT_MAX_RESPONSE_BYTES;
+
+  return new Promise((resolve, reject) => {
+    const request = client.request(parsed, {
+      method: options.method || 'GET',
+      headers: options.body !== undefined
+        ? { ...options.headers, 'Content-Length': Buffer.byteLength(options.body).toString() }
+        : options.headers,
+      lookup: publicLookup
+    }, response => {
+      const chunks: Buffer[] = [];
+      let length = 0;
+      response.on('data', (chunk: Buffer) => {
+        length += chunk.length;
+        if (length > maxResponseBytes) {
+          request.destroy(new Error(`Response is larger than ${maxResponseBytes} bytes`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => {
+        clearTimeout(timer);
+        const body = Buffer.concat(chunks).toString('utf8');
+        const status = response.statusCode || 0;
+        resolve({
+          status,
+          ok: status >= 200 && status < 300,
+          text: async () => body,
+          json: async () => JSON.parse(body)
+        });
+      });
+      response.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+
+    const timer = setTimeout(() => {
+      const timeout = new Error(`Request timed out after ${options.timeoutMs / 1000}s`);
+      timeout.name = 'TimeoutError';
+      request.destroy(timeout);
+    }, options.timeoutMs);
+
+    request.on('error', error => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    request.end(options.body);
+  });
+}